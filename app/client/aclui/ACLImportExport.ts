@@ -0,0 +1,86 @@
+/**
+ * Menu items of the Access Rules page for exporting the access rules of a document to a JSON
+ * bundle, and importing such a bundle, e.g. to share a permission model between documents.
+ */
+import {GristDoc} from 'app/client/components/GristDoc';
+import {hooks} from 'app/client/Hooks';
+import {makeT} from 'app/client/lib/localization';
+import {reportError, UserError} from 'app/client/models/errors';
+import {openFilePicker} from 'app/client/ui/FileDialog';
+import {testId, theme, vars} from 'app/client/ui2018/cssVars';
+import {menuItem, menuItemLink} from 'app/client/ui2018/menus';
+import {confirmModal} from 'app/client/ui2018/modals';
+import {AclRulesBundle, AclRulesImportResult} from 'app/common/ACLRulesBundle';
+import {isOwner} from 'app/common/roles';
+import {dom, Observable, styled} from 'grainjs';
+
+const t = makeT('ACLImportExport');
+
+export function buildImportExportMenuItems(gristDoc: GristDoc) {
+  return [
+    menuItemLink(
+      hooks.maybeModifyLinkAttrs({href: gristDoc.docApi.getAccessRulesDownloadUrl(), target: '_blank', download: ''}),
+      t("Export rules"),
+      testId('rules-export'),
+    ),
+    menuItem(() => importAccessRules(gristDoc).catch(reportError),
+      t("Import rules..."),
+      dom.cls('disabled', !isOwner(gristDoc.docPageModel.currentDoc.get())),
+      testId('rules-import'),
+    ),
+  ];
+}
+
+async function importAccessRules(gristDoc: GristDoc) {
+  const files = await openFilePicker({multiple: false, accept: '.json'});
+  if (!files.length) { return; }
+  let bundle: AclRulesBundle;
+  try {
+    bundle = JSON.parse(await files[0].text());
+  } catch (e) {
+    throw new UserError(t("The file is not a valid access rules bundle."));
+  }
+  // Check the bundle first, to show what importing it would do.
+  const report = await gristDoc.docComm.importAccessRules(bundle, {dryRun: true});
+  confirmModal(t("Import access rules"), t("Import"), async () => {
+    await gristDoc.docComm.importAccessRules(bundle);
+  }, {
+    explanation: buildReportDom(report),
+    saveDisabled: Observable.create(null, report.conflicts.length > 0),
+  });
+}
+
+function buildReportDom(report: AclRulesImportResult) {
+  if (report.conflicts.length > 0) {
+    return cssReport(
+      dom('p', t("The rules can't be imported because they don't match this document:")),
+      cssList(report.conflicts.map(conflict => dom('li',
+        conflict.message,
+        conflict.aclFormula ? cssFormula(conflict.aclFormula) : null,
+        testId('import-conflict'),
+      ))),
+    );
+  }
+  const renamed = Object.entries(report.tableIds).filter(([from, to]) => from !== to);
+  return cssReport(
+    dom('p', t("This replaces all access rules of this document with {{rules}} rules and \
+{{userAttributes}} user attributes.", {rules: report.rules, userAttributes: report.userAttributes})),
+    renamed.length === 0 ? null : cssList(renamed.map(([from, to]) => dom('li',
+      t("Rules for table {{from}} will apply to table {{to}}.", {from, to}),
+    ))),
+    testId('import-report'),
+  );
+}
+
+const cssReport = styled('div', `
+  color: ${theme.text};
+`);
+
+const cssList = styled('ul', `
+  padding-left: 20px;
+`);
+
+const cssFormula = styled('div', `
+  font-family: ${vars.fontFamilyData};
+  color: ${theme.lightText};
+`);
@@ -0,0 +1,288 @@
+/**
+ * Implements the panel of the Access Rules page for simulating access rules. It shows how the
+ * saved rules apply to a cell for a given user: the outcome of each rule, in the order in which
+ * they are considered, and the permissions that result.
+ */
+import type {AccessRules} from 'app/client/aclui/AccessRules';
+import {permissionBits} from 'app/client/aclui/PermissionsWidget';
+import {makeT} from 'app/client/lib/localization';
+import {textInput} from 'app/client/ui/inputs';
+import {bigPrimaryButton} from 'app/client/ui2018/buttons';
+import {testId, theme, vars} from 'app/client/ui2018/cssVars';
+import {select} from 'app/client/ui2018/menus';
+import {AclSimulationRequest, AclSimulationResult, AclSimulationStep} from 'app/common/ActiveDocAPI';
+import {CellValue} from 'app/common/DocActions';
+import {Computed, Disposable, dom, Observable, styled} from 'grainjs';
+
+const t = makeT('ACLSimulator');
+
+// Value of the access option that leaves the user's access as it is.
+const ACTUAL_ACCESS = '';
+// Value of the access option for no access (a null role).
+const NO_ACCESS = 'none';
+
+export class ACLSimulator extends Disposable {
+  private _userEmail = Observable.create(this, '');
+  private _access = Observable.create(this, ACTUAL_ACCESS);
+  private _tableId = Observable.create(this, '');
+  private _colId = Observable.create(this, '');
+  private _rowId = Observable.create<string|undefined>(this, '');
+  private _colIds = Computed.create(this, this._tableId, (use, tableId) =>
+    this._accessRules.getValidColIds(tableId) || []);
+  private _result = Observable.create<AclSimulationResult|null>(this, null);
+  private _error = Observable.create(this, '');
+  private _running = Observable.create(this, false);
+
+  constructor(private _accessRules: AccessRules) {
+    super();
+    this._tableId.set(this._accessRules.allTableIds[0] || '');
+    this._colId.set(this._colIds.get()[0] || '');
+    this.autoDispose(this._colIds.addListener(colIds => this._colId.set(colIds[0] || '')));
+  }
+
+  public buildDom() {
+    return cssSimulator(
+      cssFields(
+        cssField(
+          cssLabel(t("User")),
+          select(this._userEmail, Computed.create(this, this._accessRules.viewAsUsers, (use, users) => [
+            {value: '', label: t("Me")},
+            ...users.map(user => ({value: user.email, label: user.name ? `${user.name} (${user.email})` : user.email})),
+          ])),
+          testId('sim-user'),
+        ),
+        cssField(
+          cssLabel(t("Access")),
+          select(this._access, [
+            {value: ACTUAL_ACCESS, label: t("As shared")},
+            {value: 'owners', label: t("Owner")},
+            {value: 'editors', label: t("Editor")},
+            {value: 'viewers', label: t("Viewer")},
+            {value: NO_ACCESS, label: t("No access")},
+          ]),
+          testId('sim-access'),
+        ),
+        cssField(
+          cssLabel(t("Table")),
+          select(this._tableId, this._accessRules.allTableIds.map(tableId =>
+            ({value: tableId, label: this._accessRules.getTableTitle(tableId)}))),
+          testId('sim-table'),
+        ),
+        cssField(
+          cssLabel(t("Column")),
+          select(this._colId, this._colIds),
+          testId('sim-column'),
+        ),
+        cssField(
+          cssLabel(t("Row ID")),
+          cssRowInput(this._rowId, {type: 'number', min: '1', placeholder: t("Any row")}, testId('sim-row')),
+        ),
+        bigPrimaryButton(t("Simulate"),
+          dom.prop('disabled', use => use(this._running) || !use(this._colId)),
+          dom.on('click', () => this._simulate()),
+          testId('sim-run'),
+        ),
+      ),
+      cssNote(t("Uses saved rules. Unsaved changes are not simulated.")),
+      dom.maybe(this._error, error => cssError(error, testId('sim-error'))),
+      dom.maybe(this._result, result => this._buildResultDom(result)),
+      testId('simulator'),
+    );
+  }
+
+  private async _simulate() {
+    const userAttributes: {[name: string]: CellValue} = {};
+    const access = this._access.get();
+    if (access !== ACTUAL_ACCESS) {
+      userAttributes.Access = (access === NO_ACCESS) ? null : access;
+    }
+    const rowId = this._rowId.get() ? Number(this._rowId.get()) : undefined;
+    const request: AclSimulationRequest = {
+      tableId: this._tableId.get(),
+      colId: this._colId.get(),
+      ...(this._userEmail.get() ? {userEmail: this._userEmail.get()} : {}),
+      ...(rowId !== undefined ? {rowId} : {}),
+      userAttributes,
+    };
+    this._running.set(true);
+    this._error.set('');
+    try {
+      const result = await this._accessRules.gristDoc.docComm.simulateAccessRules(request);
+      if (this.isDisposed()) { return; }
+      this._result.set(result);
+    } catch (e) {
+      if (this.isDisposed()) { return; }
+      this._result.set(null);
+      this._error.set(String(e.message || e));
+    } finally {
+      if (!this.isDisposed()) { this._running.set(false); }
+    }
+  }
+
+  private _buildResultDom(result: AclSimulationResult) {
+    const {user} = result;
+    return [
+      cssSummary(
+        cssSummaryText(
+          t("Evaluated as {{user}}, with access {{access}}.", {
+            user: user.Email || t("anonymous user"),
+            access: user.Access || t("none"),
+          }),
+          testId('sim-summary'),
+        ),
+        permissionBits(result.permissions, [], testId('sim-permissions')),
+      ),
+      cssSteps(
+        cssStepRow(cssStepRow.cls('-header'),
+          cssResourceCell(t("Resource")),
+          cssConditionCell(t("Condition")),
+          cssPermissionsCell(t("Permissions")),
+          cssOutcomeCell(t("Outcome")),
+          cssBitsCell(t("Settled so far")),
+        ),
+        result.steps.map(step => cssStepRow(
+          cssStepRow.cls('-matched', step.result === true),
+          cssStepRow.cls('-decisive', step.decides.length > 0),
+          cssResourceCell(describeResource(step)),
+          cssConditionCell(step.aclFormula || t("Everyone else"),
+            step.memo ? cssMemo(step.memo) : null),
+          cssPermissionsCell(step.permissionsText),
+          cssOutcomeCell(describeOutcome(step)),
+          cssBitsCell(permissionBits(step.permissions, step.decides)),
+          testId('sim-step'),
+        )),
+      ),
+    ];
+  }
+}
+
+function describeResource(step: AclSimulationStep): string {
+  const {tableId, colIds} = step.resource;
+  if (tableId === '*') { return t("Default rules"); }
+  return colIds === '*' ? tableId : `${tableId}: ${colIds.split(',').join(', ')}`;
+}
+
+function describeOutcome(step: AclSimulationStep): string {
+  switch (step.result) {
+    case true: return t("Matched");
+    case false: return t("Not matched");
+    case 'needsRow': return t("Depends on the row");
+    case 'error': return t("Error: {{message}}", {message: step.error});
+  }
+}
+
+const cssSimulator = styled('div', `
+  border: 1px solid ${theme.accessRulesTableBorder};
+  border-radius: 8px;
+  padding: 16px;
+`);
+
+const cssFields = styled('div', `
+  display: flex;
+  flex-wrap: wrap;
+  align-items: flex-end;
+  gap: 16px;
+`);
+
+const cssField = styled('div', `
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+  min-width: 160px;
+`);
+
+const cssLabel = styled('div', `
+  color: ${theme.lightText};
+  font-size: ${vars.smallFontSize};
+`);
+
+const cssRowInput = styled(textInput, `
+  width: 100px;
+`);
+
+const cssNote = styled('div', `
+  margin-top: 8px;
+  color: ${theme.lightText};
+`);
+
+const cssError = styled('div', `
+  margin-top: 8px;
+  color: ${theme.errorText};
+`);
+
+const cssSummary = styled('div', `
+  display: flex;
+  align-items: center;
+  gap: 16px;
+  margin: 16px 0 8px 0;
+`);
+
+const cssSummaryText = styled('div', `
+  color: ${theme.text};
+`);
+
+const cssSteps = styled('div', `
+  border: 1px solid ${theme.accessRulesTableBorder};
+  border-radius: 8px;
+  overflow: hidden;
+`);
+
+const cssStepRow = styled('div', `
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 4px 8px;
+  color: ${theme.accessRulesTableBodyLightFg};
+  border-bottom: 1px solid ${theme.accessRulesTableBorder};
+  &:last-child {
+    border-bottom: none;
+  }
+  &-header {
+    background-color: ${theme.accessRulesTableHeaderBg};
+    color: ${theme.accessRulesTableHeaderFg};
+    text-transform: uppercase;
+    font-weight: 500;
+    font-size: 10px;
+  }
+  &-matched, &-decisive {
+    color: ${theme.text};
+  }
+  &-decisive {
+    font-weight: bold;
+  }
+`);
+
+const cssResourceCell = styled('div', `
+  flex: 1;
+  min-width: 0;
+  overflow: hidden;
+  text-overflow: ellipsis;
+`);
+
+const cssConditionCell = styled('div', `
+  flex: 2;
+  min-width: 0;
+  font-family: ${vars.fontFamilyData};
+  white-space: pre-wrap;
+`);
+
+const cssMemo = styled('div', `
+  font-family: ${vars.fontFamily};
+  font-weight: normal;
+  color: ${theme.lightText};
+`);
+
+const cssPermissionsCell = styled('div', `
+  flex: none;
+  width: 100px;
+`);
+
+const cssOutcomeCell = styled('div', `
+  flex: 1;
+  min-width: 0;
+`);
+
+const cssBitsCell = styled('div', `
+  flex: none;
+  width: 150px;
+`);
@@ -3,8 +3,10 @@
  */
 import {aclColumnList} from 'app/client/aclui/ACLColumnList';
 import {aclFormulaEditor} from 'app/client/aclui/ACLFormulaEditor';
+import {buildImportExportMenuItems} from 'app/client/aclui/ACLImportExport';
 import {aclMemoEditor} from 'app/client/aclui/ACLMemoEditor';
 import {aclSelect} from 'app/client/aclui/ACLSelect';
+import {ACLSimulator} from 'app/client/aclui/ACLSimulator';
 import {ACLUsersPopup} from 'app/client/aclui/ACLUsers';
 import {permissionsWidget} from 'app/client/aclui/PermissionsWidget';
 import {GristDoc} from 'app/client/components/GristDoc';
@@ -164,6 +166,9 @@ export class AccessRules extends Disposable {
 
   private _aclUsersPopup = ACLUsersPopup.create(this, this.gristDoc.docPageModel);
 
+  // Whether to show the panel for simulating access rules.
+  private _showSimulator = Observable.create(this, false);
+
   constructor(public gristDoc: GristDoc) {
     super();
     this._ruleStatus = Computed.create(this, (use) => {
@@ -233,6 +238,7 @@ export class AccessRules extends Disposable {
   public get allTableIds() { return Array.from(this._aclResources.keys()).sort(); }
   public get userAttrRules() { return this._userAttrRules; }
   public get userAttrChoices() { return this._userAttrChoices; }
+  public get viewAsUsers() { return this._aclUsersPopup.allUsers; }
 
   public getTableTitle(tableId: string) {
     const table = this._aclResources.get(tableId);
@@ -450,6 +456,14 @@ export class AccessRules extends Disposable {
           ),
         ),
         bigBasicButton(t('Add user attributes'), dom.on('click', () => this._addUserAttributes())),
+        bigBasicButton(t('Import/Export'), cssDropdownIcon('Dropdown'),
+          menu(() => buildImportExportMenuItems(this.gristDoc)),
+          testId('rules-import-export'),
+        ),
+        bigBasicButton(t('Simulate'),
+          dom.on('click', () => this._showSimulator.set(!this._showSimulator.get())),
+          testId('rules-simulate'),
+        ),
         bigBasicButton(t('View as'), cssDropdownIcon('Dropdown'),
           elem => this._aclUsersPopup.attachPopup(elem, {placement: 'bottom-end', resetDocPage: true}),
           dom.style('visibility', use => use(this._aclUsersPopup.isInitialized) ? '' : 'hidden')),
@@ -467,6 +481,12 @@ export class AccessRules extends Disposable {
           cssRuleProblems(
             this.buildRuleProblemsDom(ruleProblems)))),
       shadowScroll(
+        dom.maybe(this._showSimulator, () =>
+          cssSection(
+            cssSectionHeading(t("Simulate access")),
+            dom.create(ACLSimulator, this),
+          ),
+        ),
         dom.maybe(use => use(this._userAttrRules).length, () =>
           cssSection(
             cssSectionHeading(t("User Attributes")),
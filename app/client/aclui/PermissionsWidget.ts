@@ -94,6 +94,24 @@ function next(pvalue: PartialPermissionValue): PartialPermissionValue {
   return 'deny';
 }
 
+/**
+ * Renders read-only boxes for all permission bits, e.g. to show the permissions that rules
+ * resulted in. Bits listed in `highlight` are outlined.
+ */
+export function permissionBits(pset: PartialPermissionSet, highlight: PermissionKey[], ...args: DomElementArg[]) {
+  return cssPermissions(
+    sortBits([...ALL_PERMISSION_PROPS]).map(bit => cssBit(
+      bit.slice(0, 1).toUpperCase(),
+      cssBit.cls('-' + pset[bit]),
+      cssBit.cls('-highlight', highlight.includes(bit)),
+      dom.attr('title', capitalize(`${pset[bit]} ${bit}`.trim())),
+      cssBit.cls('-readonly'),
+      testId(`bit-${bit}`),
+    )),
+    ...args,
+  );
+}
+
 // Helper to build up permission sets.
 function makePermissionSet(bits: PermissionKey[], makeValue: (bit: PermissionKey) => PartialPermissionValue) {
   const pset = emptyPermissionSet();
@@ -170,6 +188,18 @@ const cssBit = styled('div', `
     border: 1px solid ${colors.error};
     color: white;
   }
+  &-mixed {
+    background-image: linear-gradient(-45deg, ${colors.error} 50%, ${colors.lightGreen} 50%);
+    border: 1px solid ${colors.lightGreen};
+    color: white;
+  }
+  &-highlight {
+    outline: 2px solid ${theme.controlFg};
+    outline-offset: 1px;
+  }
+  &-readonly {
+    cursor: default;
+  }
   &.disabled {
     opacity: 0.5;
   }
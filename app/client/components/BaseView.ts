@@ -30,10 +30,11 @@ import * as rowset from 'app/client/models/rowset';
 import {RowSource, SortedRowSet} from 'app/client/models/rowset';
 import {createFilterMenu, IColumnFilterMenuOptions} from 'app/client/ui/ColumnFilterMenu';
 import {buildReassignModal} from 'app/client/ui/buildReassignModal';
+import {showCellHistory} from 'app/client/ui/CellHistory';
 import {closeRegisteredMenu} from 'app/client/ui2018/menus';
 import type {CommentWithMentions} from 'app/client/widgets/MentionTextBox';
 import {BuildEditorOptions, createAllFieldWidgets, FieldBuilder} from 'app/client/widgets/FieldBuilder';
-import {BulkColValues, CellValue, DocAction, UserAction} from 'app/common/DocActions';
+import {BulkColValues, CellValue, ColValues, DocAction, UserAction} from 'app/common/DocActions';
 import {DocStateComparison} from 'app/common/DocState';
 import {DismissedPopup} from 'app/common/Prefs';
 import {SortFunc} from 'app/common/SortFunc';
@@ -345,6 +346,7 @@ export default class BaseView extends Disposable {
       const state = typeof payload === 'object' && payload ? payload : null;
       this._openDiscussionAtCursor(state);
     },
+    showCellHistory: function() { this._showCellHistoryAtCursor(); },
     insertRecordBefore: function() { this.insertRow(this.cursor.rowIndex()!)?.catch(reportError); },
     insertRecordAfter: function() { this.insertRow(this.cursor.rowIndex()! + 1)?.catch(reportError); },
   };
@@ -503,6 +505,16 @@ export default class BaseView extends Disposable {
     return true;
   }
 
+  /**
+   * Opens the history of changes to the cell at the cursor position, unless it's in the "add" row.
+   */
+  private _showCellHistoryAtCursor() {
+    const rowId = this.viewData.getRowId(this.cursor.rowIndex()!);
+    const field = this.viewSection.viewFields().peek()[this.cursor.fieldIndex()];
+    if (typeof rowId !== 'number' || !field) { return; }
+    showCellHistory({gristDoc: this.gristDoc, field, rowId});
+  }
+
 
   /**
    * Move the floating RowModel for editing to the current cursor position, and return it.
@@ -568,9 +580,9 @@ export default class BaseView extends Disposable {
 
   /**
    * Insert a new row immediately before the row at the given index if given an Integer. Otherwise
-   * insert a new row at the end.
+   * insert a new row at the end. The new row gets `colValues` if given.
    */
-  public insertRow(index?: number): Promise<number>|undefined {
+  public insertRow(index?: number, colValues: ColValues = {}): Promise<number>|undefined {
     if (this.gristDoc.isReadonly.get()) {
       return;
     }
@@ -582,7 +594,7 @@ export default class BaseView extends Disposable {
     const insertPos = Number.isInteger(rowId) ?
       this.tableModel.tableData.getValue(rowId, 'manualSort') : null;
 
-    return this.sendTableAction(['AddRecord', null, { 'manualSort': insertPos }])!
+    return this.sendTableAction(['AddRecord', null, {...colValues, 'manualSort': insertPos}])!
     .then((rowId) => {      // eslint-disable-line @typescript-eslint/no-shadow
       if (!this.isDisposed()) {
         this._exemptFromFilterRows.addExemptRow(rowId);
@@ -20,6 +20,7 @@ import {cssDragger} from 'app/client/ui2018/draggableList';
 import {icon} from 'app/client/ui2018/icons';
 import {IOptionFull, linkSelect, menu, menuItem, menuText, select} from 'app/client/ui2018/menus';
 import {unstyledButton} from 'app/client/ui2018/unstyled';
+import {ChoiceOptions} from 'app/client/widgets/ChoiceTextBox';
 import {nativeCompare, unwrap} from 'app/common/gutil';
 import {Sort} from 'app/common/SortSpec';
 import {BaseFormatter} from 'app/common/ValueFormatter';
@@ -55,13 +56,17 @@ function isPieLike(chartType: string) {
 }
 
 function firstFieldIsLabels(chartType: string) {
-  return ['pie', 'donut', 'kaplan_meier', 'scatter'].includes(chartType);
+  return ['pie', 'donut', 'kaplan_meier', 'scatter', 'timeline'].includes(chartType);
 }
 
 export function isNumericOnly(chartType: string) {
   return ['bar', 'pie', 'donut', 'kaplan_meier', 'line', 'area', 'scatter'].includes(chartType);
 }
 
+export function isDateOnly(chartType: string) {
+  return chartType === 'timeline';
+}
+
 // Returns the type of the visibleCol if col is of type `Ref`, otherwise returns the type of col.
 function visibleColType(col: ColumnRec, use: UseCB = unwrap) {
   const colType = use(col.pureType);
@@ -75,6 +80,19 @@ export function isNumericLike(col: ColumnRec, use: UseCB = unwrap) {
   return ['Numeric', 'Int', 'Any'].includes(colType);
 }
 
+// Returns true if col is one of 'Date', 'DateTime'.
+export function isDateLike(col: ColumnRec, use: UseCB = unwrap) {
+  const colType = visibleColType(col, use);
+  return ['Date', 'DateTime'].includes(colType);
+}
+
+// Returns whether col may be used as a series (other than the first one) in a chart of the given type.
+function isCompatibleSeries(chartType: string, col: ColumnRec, use: UseCB = unwrap) {
+  return isNumericOnly(chartType) ? isNumericLike(col, use) :
+    isDateOnly(chartType) ? isDateLike(col, use) :
+    true;
+}
+
 function isCategoryType(pureType: string): boolean {
   return !['Numeric', 'Int', 'Any', 'Date', 'DateTime'].includes(pureType);
 }
@@ -130,6 +148,9 @@ interface DataOptions extends Data {
 
   // Formatter to be used for the total inside donut charts.
   totalFormatter?: BaseFormatter;
+
+  // Fill colors of choices, used to color series split by a Choice column in timelines.
+  choiceColors?: {[choice: string]: string};
 }
 
 // Convert a list of Series into a set of Plotly traces.
@@ -199,6 +220,7 @@ export class ChartView extends BaseView {
       subs = [
         ...viewFields.map((field) => field.displayColModel.peek().type.subscribe(this._update)),
         ...viewFields.map((field) => field.visibleColModel.peek().type.subscribe(this._update)),
+        ...viewFields.map((field) => field.widgetOptionsJson.subscribe(this._update)),
       ];
     }));
     this.listenTo(this.sortedRows, 'rowNotify', this._update);
@@ -283,6 +305,15 @@ export class ChartView extends BaseView {
       dataOptions.totalFormatter = this._formatterComp.peek();
     }
 
+    if (this._chartType.peek() === 'timeline' && options.multiseries &&
+        fields[0]?.column.peek().pureType.peek() === 'Choice') {
+      const choiceOptions: ChoiceOptions = fields[0].widgetOptionsJson.peek()?.choiceOptions || {};
+      dataOptions.choiceColors = {};
+      for (const [choice, choiceOpts] of Object.entries(choiceOptions)) {
+        if (choiceOpts?.fillColor) { dataOptions.choiceColors[choice] = choiceOpts.fillColor; }
+      }
+    }
+
     if (!options.multiseries && series.length) {
       plotData = chartFunc(series, options, dataOptions);
     } else if (series.length > 1) {
@@ -334,7 +365,7 @@ export class ChartView extends BaseView {
   }
 
   private _isCompatibleSeries(col: ColumnRec) {
-    return isNumericOnly(this._chartType.peek()) ? isNumericLike(col) : true;
+    return isCompatibleSeries(this._chartType.peek(), col);
   }
 
   private _getPlotlyLayout(options: ChartOptions): Partial<Layout> {
@@ -591,6 +622,7 @@ export class ChartConfig extends GrainJSDisposable {
           {value: 'line',         label: t('Line chart'),        icon: 'ChartLine'  },
           {value: 'scatter',      label: t('Scatter plot'),      icon: 'ChartLine'  },
           {value: 'kaplan_meier', label: t('Kaplan-Meier plot'), icon: 'ChartKaplan'},
+          {value: 'timeline',     label: t('Timeline'),          icon: 'ChartTimeline'},
         ]),
         testId("type"),
       ),
@@ -598,6 +630,9 @@ export class ChartConfig extends GrainJSDisposable {
         // These options don't make much sense for a pie chart.
         cssCheckboxRowObs(t('Split series'), this._groupData),
         cssCheckboxRow(t('Invert Y-axis'), this._optionsObj.prop('invertYAxis')),
+      ]),
+      dom.maybe((use) => !isPieLike(use(this._section.chartTypeDef)) &&
+                         !isDateOnly(use(this._section.chartTypeDef)), () => [
         cssRow(
           cssRowLabel(t('Orientation')),
           dom('div', linkSelect(fromKoSave(this._optionsObj.prop('orientation')), [
@@ -672,11 +707,16 @@ export class ChartConfig extends GrainJSDisposable {
           ),
           testId('x-axis'),
         ),
-        cssCheckboxRowObs(t('Aggregate values'), this._isValueAggregated),
+        dom.maybe((use) => !isDateOnly(use(this._section.chartTypeDef)), () =>
+          cssCheckboxRowObs(t('Aggregate values'), this._isValueAggregated),
+        ),
       ),
 
       dom('div', {role: 'group', 'aria-labelledby': 'chart-series-label'},
         cssGroupLabel(t('SERIES'), {id: 'chart-series-label'}),
+        dom.maybe((use) => use(this._section.chartTypeDef) === 'timeline', () =>
+          cssRowHelp(t("The first two series give the start and end dates of each bar.")),
+        ),
         this._buildYAxis(),
         cssRow(
           cssAddYAxis(
@@ -685,6 +725,7 @@ export class ChartConfig extends GrainJSDisposable {
               const hiddenColumns = this._section.hiddenColumns.peek();
               const filterFunc = this._isCompatibleSeries.bind(this);
               const nonNumericCount = hiddenColumns.filter((col) => !filterFunc(col)).length;
+              const dateOnly = isDateOnly(this._chartType.get());
               return [
                 ...hiddenColumns
                   .filter((col) => filterFunc(col))
@@ -694,6 +735,11 @@ export class ChartConfig extends GrainJSDisposable {
                   )),
                 nonNumericCount ? menuText(
                   `${nonNumericCount} ` + (
+                    dateOnly ? (
+                      nonNumericCount > 1 ?
+                        t(`non-date columns are not shown`) :
+                        t(`non-date column is not shown`)
+                    ) :
                     nonNumericCount > 1 ?
                       t(`non-numeric columns are not shown`) :
                       t(`non-numeric column is not shown`)
@@ -860,7 +906,7 @@ export class ChartConfig extends GrainJSDisposable {
   }
 
   private _isCompatibleSeries(col: ColumnRec, use: UseCB = unwrap) {
-    return isNumericOnly(use(this._chartType)) ? isNumericLike(col, use) : true;
+    return isCompatibleSeries(use(this._chartType), col, use);
   }
 
   private async _setAggregation(val: boolean) {
@@ -1203,6 +1249,42 @@ export const chartTypes: {[name: string]: ChartFunc} = {
 
   },
 
+  timeline(series: Series[], options: ChartOptions, dataOptions: DataOptions = {}): PlotData {
+    // The first series labels each bar, and the next two give its start and end dates. Each bar
+    // is drawn from its start date, with a length of its duration in milliseconds.
+    if (series.length < 3) { return {data: []}; }
+    const [labels, starts, ends] = series;
+    // Dates are compared as timestamps, leaving out bars with missing or unparseable dates.
+    const bars = labels.values
+      .map((label, i) => ({label, start: starts.values[i], end: ends.values[i]}))
+      .filter((bar): bar is {label: Datum, start: string, end: string} =>
+        typeof bar.start === 'string' && typeof bar.end === 'string')
+      .map(bar => ({...bar, startMs: Date.parse(bar.start), endMs: Date.parse(bar.end)}))
+      .filter(bar => bar.startMs <= bar.endMs);
+    const grouped = labels.group !== undefined;
+    const color = grouped ? dataOptions.choiceColors?.[String(labels.group)] : undefined;
+    return {
+      data: [{
+        type: 'bar',
+        orientation: 'h',
+        name: getSeriesName(labels, false),
+        y: replaceEmptyLabels(bars.map(bar => bar.label)),
+        base: bars.map(bar => bar.start),
+        x: bars.map(bar => bar.endMs - bar.startMs),
+        customdata: bars.map(bar => [formatDate(bar.start, starts.pureType), formatDate(bar.end, ends.pureType)]),
+        hovertemplate: '%{y}<br>%{customdata[0]} \u2013 %{customdata[1]}' + (grouped ? '' : '<extra></extra>'),
+        ...(color ? {marker: {color}} : {}),
+      } as Data],
+      layout: {
+        xaxis: {type: 'date'},
+        // List bars from the top by default.
+        yaxis: {type: 'category', autorange: options.invertYAxis ? true : 'reversed'},
+        // Bars of different groups on the same row shouldn't be offset from each other.
+        barmode: 'overlay',
+      },
+    };
+  },
+
   kaplan_meier(series: Series[]): PlotData {
     // For this plot, the first series names the category of each point, and the second the
     // survival time for that point. We turn that into as many series as there are categories.
@@ -1236,6 +1318,11 @@ function trimNonNumericData(series: Series[]): void {
   }
 }
 
+// Formats an ISO date string, as produced by dateGetter(), for showing on hover.
+function formatDate(value: string, pureType?: string): string {
+  return pureType === 'Date' ? value.slice(0, 10) : value.slice(0, 16).replace('T', ' ');
+}
+
 /**
  * Replace empty values with "-", which is relevant for labels in Pie Charts and for X-axis in
  * other chart types.
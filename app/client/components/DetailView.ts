@@ -24,7 +24,7 @@ import {icon} from 'app/client/ui2018/icons';
 import {indexOf} from 'app/common/gutil';
 import {UIRowId} from 'app/plugin/GristAPI';
 
-import {dom} from 'grainjs';
+import {dom, DomContents} from 'grainjs';
 import ko from 'knockout';
 import _ from 'underscore';
 
@@ -64,17 +64,18 @@ export default class DetailView extends BaseView {
       buildCardContextMenu : this.buildCardContextMenu.bind(this),
       buildFieldContextMenu : this.buildFieldContextMenu.bind(this),
       resizeCallback: () => {
-        if (!this._isSingle) {
-          this.scrolly().updateSize();
+        const scrolly = this.scrolly();
+        if (scrolly) {
+          scrolly.updateSize();
           // Keep the cursor in view if the scrolly height resets.
           // TODO: Ideally the original position should be kept in scroll view.
-          this.scrolly().scrollRowIntoView(this.cursor.rowIndex.peek());
+          scrolly.scrollRowIntoView(this.cursor.rowIndex.peek());
         }
       }
     }));
 
     this.scrolly = this.autoDispose(ko.computed(() => {
-      if (!this.recordLayout.isEditingLayout() && !this._isSingle) {
+      if (!this.recordLayout.isEditingLayout() && this.isScrollingList()) {
         return koDomScrolly.getInstance(this.viewData);
       }
     }));
@@ -355,35 +356,48 @@ export default class DetailView extends BaseView {
           dom.cls('detailview_record_' + this.viewSection.parentKey.peek()),
         );
       }),
-      dom.maybe((use) => !use(this.recordLayout.isEditingLayout), () => {
-        if (!this._isSingle) {
-          return this.scrollPane = dom('div.detailview_scroll_pane.flexitem',
-            kd.scrollChildIntoView(this.cursor.rowIndex),
-            dom.onDispose(() => {
-              // Save the previous scroll values to the section.
-              if (this.scrolly()) {
-                this.viewSection.lastScrollPos = this.scrolly().getScrollPos();
-              }
-            }),
-            koDomScrolly.scrolly(this.viewData, {fitToWidth: true},
-              (row: DataRowModel) => this.makeRecord(row)),
-
-            dom.maybe(this._isPrinting, () =>
-              renderAllRows(this.tableModel, this.sortedRows.getKoArray().peek(), row =>
-                this.makeRecord(row))
-            ),
-          );
-        } else {
-          return dom.update(
-            this.makeRecord(this.detailRecord!),
-            kd.domData('itemModel', this.detailRecord),
-            dom.hide((use) => use(this.cursor.rowIndex) === null)
-          );
-        }
-      }),
+      dom.maybe((use) => !use(this.recordLayout.isEditingLayout), () => this.buildRecordsDom()),
     );
   }
 
+  /**
+   * Builds the DOM for the records when not editing the layout: a scrolling list of cards, or the
+   * single card at the cursor.
+   */
+  protected buildRecordsDom(): DomContents {
+    if (!this._isSingle) {
+      return this.scrollPane = dom('div.detailview_scroll_pane.flexitem',
+        kd.scrollChildIntoView(this.cursor.rowIndex),
+        dom.onDispose(() => {
+          // Save the previous scroll values to the section.
+          if (this.scrolly()) {
+            this.viewSection.lastScrollPos = this.scrolly().getScrollPos();
+          }
+        }),
+        koDomScrolly.scrolly(this.viewData, {fitToWidth: true},
+          (row: DataRowModel) => this.makeRecord(row)),
+
+        dom.maybe(this._isPrinting, () =>
+          renderAllRows(this.tableModel, this.sortedRows.getKoArray().peek(), row =>
+            this.makeRecord(row))
+        ),
+      );
+    } else {
+      return dom.update(
+        this.makeRecord(this.detailRecord!),
+        kd.domData('itemModel', this.detailRecord),
+        dom.hide((use) => use(this.cursor.rowIndex) === null)
+      );
+    }
+  }
+
+  /**
+   * Whether records are shown in a list that scrolls using koDomScrolly, as in a Card List.
+   */
+  protected isScrollingList(): boolean {
+    return !this._isSingle;
+  }
+
   public override buildTitleControls() {
     // Hide controls if this is a card list section, or if the section has a scroll cursor link, since
     // the controls can be confusing in this case.
@@ -29,12 +29,18 @@ export class DocComm extends Disposable implements ActiveDocAPI {
   public finishImportFiles = this._wrapMethod("finishImportFiles");
   public cancelImportFiles = this._wrapMethod("cancelImportFiles");
   public generateImportDiff = this._wrapMethod("generateImportDiff");
+  public getImportConfigs = this._wrapMethod("getImportConfigs");
+  public saveImportConfig = this._wrapMethod("saveImportConfig");
+  public removeImportConfig = this._wrapMethod("removeImportConfig");
+  public runImportConfig = this._wrapMethod("runImportConfig");
   public addAttachments = this._wrapMethod("addAttachments");
   public findColFromValues = this._wrapMethod("findColFromValues");
   public getFormulaError = this._wrapMethod("getFormulaError");
   public fetchURL = this._wrapMethod("fetchURL");
+  public fetchJsonApi = this._wrapMethod("fetchJsonApi");
   public autocomplete = this._wrapMethod("autocomplete");
   public getActionSummaries = this._wrapMethod("getActionSummaries");
+  public getCellHistory = this._wrapMethod("getCellHistory");
   public startBundleUserActions = this._wrapMethod("startBundleUserActions");
   public stopBundleUserActions = this._wrapMethod("stopBundleUserActions");
   public forwardPluginRpc = this._wrapMethod("forwardPluginRpc");
@@ -45,6 +51,9 @@ export class DocComm extends Disposable implements ActiveDocAPI {
   public getAclResources = this._wrapMethod("getAclResources");
   public waitForInitialization = this._wrapMethod("waitForInitialization");
   public getUsersForViewAs = this._wrapMethod("getUsersForViewAs");
+  public simulateAccessRules = this._wrapMethod("simulateAccessRules");
+  public exportAccessRules = this._wrapMethod("exportAccessRules");
+  public importAccessRules = this._wrapMethod("importAccessRules");
   public getAccessToken = this._wrapMethod("getAccessToken");
   public getShare = this._wrapMethod("getShare");
   public startTiming = this._wrapMethod("startTiming");
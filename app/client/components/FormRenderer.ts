@@ -8,9 +8,11 @@ import {isXSmallScreenObs} from 'app/client/ui2018/cssVars';
 import {icon} from 'app/client/ui2018/icons';
 import {confirmModal} from 'app/client/ui2018/modals';
 import {toggleSwitch} from 'app/client/ui2018/toggleSwitch';
-import {isAffirmative, isNumber} from 'app/common/gutil';
-import {CellValue} from 'app/plugin/GristData';
-import {Disposable, dom, DomContents, IAttrObj, makeTestId, MutableObsArray, obsArray, Observable} from 'grainjs';
+import {FormCondition, getFormAnswerStrings, getHiddenFormNodes} from 'app/common/Forms';
+import {isAffirmative, isNumber, unwrap} from 'app/common/gutil';
+import {CellValue, GristObjCode} from 'app/plugin/GristData';
+import {Computed, Disposable, dom, DomContents, DomElementArg, IAttrObj, makeTestId, MutableObsArray, obsArray,
+        Observable, subscribeElem, UseCB} from 'grainjs';
 import {IPopupOptions, PopupControl} from 'popweasel';
 
 const testId = makeTestId('test-form-');
@@ -39,6 +41,9 @@ export interface FormLayoutNode {
   text?: string;
   // Used by Paragraph.
   alignment?: string;
+  // Used by all nodes inside Layout. The node is only shown, and its fields are only submitted,
+  // if the condition holds.
+  visibleIf?: FormCondition|null;
 }
 
 export type FormLayoutNodeType =
@@ -51,7 +56,8 @@ export type FormLayoutNodeType =
   | 'Field'
   | 'Label'
   | 'Separator'
-  | 'Header';
+  | 'Header'
+  | 'PageBreak';
 
 /**
  * Context used by FormRenderer to build each node.
@@ -65,6 +71,13 @@ export interface FormRendererContext {
   disabled: Observable<boolean>;
   /** Error to show above the Submit node. */
   error: Observable<string|null>;
+  /** Answers to fill in the form with, keyed by colId (e.g. from a saved draft). */
+  answers?: Record<string, CellValue>;
+  /**
+   * Saves the current answers as a draft. If set, forms with several pages have a "Save draft"
+   * button.
+   */
+  saveDraft?: (answers: Record<string, CellValue>) => Promise<void>;
 }
 
 /**
@@ -116,6 +129,9 @@ export abstract class FormRenderer extends Disposable {
 
   protected children: FormRenderer[];
 
+  // Nodes hidden by conditions on the current answers. Only set on the root renderer.
+  private _hiddenNodes?: Computed<Set<FormLayoutNode>>;
+
   constructor(
     protected layoutNode: FormLayoutNode,
     protected context: FormRendererContext,
@@ -124,6 +140,12 @@ export abstract class FormRenderer extends Disposable {
     super();
     this.children = (this.layoutNode.children ?? []).map((child) =>
       this.autoDispose(FormRenderer.new(child, this.context, this)));
+
+    if (!this.parent) {
+      const fields = new Map(this.getFieldRenderers().map((field) => [field.leaf, field]));
+      this._hiddenNodes = Computed.create(this, (use) =>
+        getHiddenFormNodes(this.layoutNode, (leaf) => fields.get(leaf)?.getAnswer(use)));
+    }
   }
 
   public abstract render(): DomContents;
@@ -134,11 +156,43 @@ export abstract class FormRenderer extends Disposable {
   public reset() {
     this.children.forEach((child) => child.reset());
   }
+
+  /**
+   * Returns the renderers of all fields under this layout node.
+   */
+  public getFieldRenderers(): FieldRenderer[] {
+    return this.children.flatMap((child) => child.getFieldRenderers());
+  }
+
+  /**
+   * Returns the current answers to all fields under this layout node, keyed by colId.
+   */
+  public getAnswers(): Record<string, CellValue> {
+    return Object.fromEntries(this.getFieldRenderers().map((field) => [field.colId, field.getAnswer(unwrap)]));
+  }
+
+  protected get hiddenNodes(): Computed<Set<FormLayoutNode>> {
+    return this.parent ? this.parent.hiddenNodes : this._hiddenNodes!;
+  }
+
+  /**
+   * Returns whether this node is hidden by its own condition, or by that of a containing node.
+   */
+  protected isHidden(use: UseCB): boolean {
+    return use(this.hiddenNodes).has(this.layoutNode);
+  }
+
+  /**
+   * Hides the node while its condition doesn't hold.
+   */
+  protected hideUnlessVisible(): DomElementArg {
+    return this.layoutNode.visibleIf ? dom.hide((use) => this.isHidden(use)) : null;
+  }
 }
 
 class LabelRenderer extends FormRenderer {
   public render() {
-    return css.label(this.layoutNode.text ?? '');
+    return css.label(this.layoutNode.text ?? '', this.hideUnlessVisible());
   }
 }
 
@@ -146,7 +200,8 @@ class ParagraphRenderer extends FormRenderer {
   public render() {
     return css.paragraph(
       css.paragraph.cls(`-alignment-${this.layoutNode.alignment || 'left'}`),
-      bindMarkdown(this.layoutNode.text || '')
+      bindMarkdown(this.layoutNode.text || ''),
+      this.hideUnlessVisible(),
     );
   }
 }
@@ -155,6 +210,7 @@ class SectionRenderer extends FormRenderer {
   public render() {
     return css.section(
       this.children.map((child) => child.render()),
+      this.hideUnlessVisible(),
     );
   }
 }
@@ -164,6 +220,7 @@ class ColumnsRenderer extends FormRenderer {
     return css.columns(
       {style: `--grist-columns-count: ${this._getColumnsCount()}`},
       this.children.map((child) => child.render()),
+      this.hideUnlessVisible(),
     );
   }
 
@@ -174,9 +231,11 @@ class ColumnsRenderer extends FormRenderer {
 
 class SubmitRenderer extends FormRenderer {
   public render() {
+    const layout = this.parent instanceof LayoutRenderer && this.parent.pageCount > 1 ? this.parent : null;
     return [
       css.error(dom.text(use => use(this.context.error) ?? '')),
       css.submitButtons(
+        layout?.buildPageButtons(),
         css.resetButton(
           t('Reset'),
           dom.attr('aria-disabled', (use) => use(this.context.disabled) ? 'true' : 'false'),
@@ -221,31 +280,211 @@ class PlaceholderRenderer extends FormRenderer {
   }
 }
 
+class PageBreakRenderer extends FormRenderer {
+  public render() {
+    return null;
+  }
+}
+
+/**
+ * A page of a form, with the nodes on it and their renderers.
+ */
+interface LayoutPage {
+  nodes: FormLayoutNode[];
+  renderers: FormRenderer[];
+}
+
+/**
+ * Renders the whole form. The form is split into pages by the PageBreak nodes among its children
+ * (page breaks elsewhere are ignored). Pages are shown one at a time, with a progress bar, and
+ * the answers on a page must be valid before moving on to the next one.
+ */
 class LayoutRenderer extends FormRenderer {
+  private _pages = this._splitIntoPages();
+  private _pageIndex = Observable.create(this, 0);
+  private _pageElems: HTMLElement[] = [];
+  private _progressElem?: HTMLElement;
+  private _savingDraft = Observable.create(this, false);
+
+  public get pageCount(): number {
+    return this._pages.length;
+  }
+
   public render() {
-    return this.children.map((child) => child.render());
+    if (this.pageCount <= 1) {
+      return this.children.map((child) => child.render());
+    }
+
+    const count = this.pageCount;
+    return [
+      this._progressElem = css.progress(
+        dom.text((use) => t('Page {{page}} of {{count}}', {page: use(this._pageIndex) + 1, count})),
+        css.progressBar(
+          css.progressBarFill(dom.style('width', (use) => `${100 * (use(this._pageIndex) + 1) / count}%`)),
+        ),
+        testId('progress'),
+      ),
+      this._pages.map((page, index) => this._pageElems[index] = dom('div',
+        dom.show((use) => use(this._pageIndex) === index),
+        page.renderers.map((child) => child.render()),
+        // The last page has the Submit node, which adds the same buttons.
+        index === count - 1 ? null : css.submitButtons(
+          this.buildPageButtons(),
+          css.nextButton(
+            t('Next'),
+            {type: 'button'},
+            dom.on('click', () => this._goToNextPage()),
+            testId('next'),
+          ),
+        ),
+        testId('page-content'),
+      )),
+    ];
+  }
+
+  public reset() {
+    super.reset();
+    this._pageIndex.set(0);
+  }
+
+  /**
+   * Builds the buttons to go to the previous page and to save a draft, shown next to the Next and
+   * Submit buttons.
+   */
+  public buildPageButtons(): DomContents {
+    return [
+      dom.maybe((use) => this._findVisiblePage(use(this._pageIndex) - 1, -1, use) !== null, () =>
+        css.resetButton(
+          t('Back'),
+          {type: 'button'},
+          dom.on('click', () => this._goToPreviousPage()),
+          testId('back'),
+        ),
+      ),
+      !this.context.saveDraft ? null : css.resetButton(
+        dom.attr('aria-disabled', (use) => use(this._savingDraft) ? 'true' : 'false'),
+        dom.domComputed(this._savingDraft, (saving) => saving ?
+          [css.buttonLoadingSpinner(), t('Saving…')] : t('Save draft')),
+        {type: 'button'},
+        dom.on('click', () => this._saveDraft()),
+        testId('save-draft'),
+      ),
+    ];
+  }
+
+  private _splitIntoPages(): LayoutPage[] {
+    const pages: LayoutPage[] = [{nodes: [], renderers: []}];
+    (this.layoutNode.children ?? []).forEach((node, index) => {
+      if (node.type === 'PageBreak') {
+        pages.push({nodes: [], renderers: []});
+      } else {
+        pages[pages.length - 1].nodes.push(node);
+        pages[pages.length - 1].renderers.push(this.children[index]);
+      }
+    });
+    return pages;
+  }
+
+  /**
+   * Returns the index of the first page, starting at `index` and moving by `step`, that has some
+   * node not hidden by a condition, or null if there's none.
+   */
+  private _findVisiblePage(index: number, step: 1|-1, use: UseCB = unwrap): number|null {
+    const hiddenNodes = use(this.hiddenNodes);
+    for (; index >= 0 && index < this.pageCount; index += step) {
+      if (this._pages[index].nodes.some((node) => !hiddenNodes.has(node))) { return index; }
+    }
+    return null;
+  }
+
+  private _goToNextPage() {
+    const index = this._pageIndex.get();
+    if (!this._validatePage(index)) { return; }
+
+    const next = this._findVisiblePage(index + 1, 1);
+    if (next !== null) { this._goToPage(next); }
+  }
+
+  private _goToPreviousPage() {
+    const previous = this._findVisiblePage(this._pageIndex.get() - 1, -1);
+    if (previous !== null) { this._goToPage(previous); }
+  }
+
+  private _goToPage(index: number) {
+    this._pageIndex.set(index);
+    this._progressElem?.scrollIntoView({block: 'nearest'});
+  }
+
+  /**
+   * Checks the inputs on the page at `index`, reporting the first invalid one, if any.
+   */
+  private _validatePage(index: number): boolean {
+    validateRequiredLists();
+    const inputs = this._pageElems[index].querySelectorAll<HTMLInputElement>('input, select, textarea');
+    const invalid = Array.from(inputs).find((input) => !input.checkValidity());
+    invalid?.reportValidity();
+    return !invalid;
+  }
+
+  private async _saveDraft() {
+    if (this._savingDraft.get()) { return; }
+
+    this._savingDraft.set(true);
+    try {
+      await this.context.saveDraft!(this.getAnswers());
+    } finally {
+      if (!this.isDisposed()) { this._savingDraft.set(false); }
+    }
   }
 }
 
 class FieldRenderer extends FormRenderer {
   public renderer: BaseFieldRenderer;
 
-  public constructor(layoutNode: FormLayoutNode, context: FormRendererContext) {
-    super(layoutNode, context);
+  public constructor(layoutNode: FormLayoutNode, context: FormRendererContext, parent?: FormRenderer) {
+    super(layoutNode, context, parent);
     const field = this.layoutNode.leaf ? this.context.fields[this.layoutNode.leaf] : null;
     if (!field) { throw new Error(); }
 
     const Renderer = FieldRenderers[field.type as keyof typeof FieldRenderers] ?? TextRenderer;
     this.renderer = this.autoDispose(new Renderer(field, context));
+    const answer = this.context.answers?.[field.colId];
+    if (answer !== undefined) {
+      this.renderer.setAnswer(answer);
+    }
+  }
+
+  public get leaf(): number {
+    return this.layoutNode.leaf!;
+  }
+
+  public get colId(): string {
+    return this.context.fields[this.leaf].colId;
+  }
+
+  public getAnswer(use: UseCB): CellValue {
+    return this.renderer.getAnswer(use);
   }
 
   public render() {
-    return this.renderer.render();
+    // Hidden fields are skipped: disabled inputs are neither validated nor submitted.
+    const isHidden = Computed.create(this, (use) => this.isHidden(use));
+    return dom.update(this.renderer.render(),
+      css.field.cls('-hidden', isHidden),
+      (elem) => subscribeElem(elem, isHidden, (hidden) => {
+        elem.querySelectorAll<HTMLInputElement>('input, select, textarea')
+          .forEach((input) => { input.disabled = hidden; });
+      }),
+    );
   }
 
   public reset() {
     this.renderer.resetInput();
   }
+
+  public override getFieldRenderers(): FieldRenderer[] {
+    return [this];
+  }
 }
 
 abstract class BaseFieldRenderer extends Disposable {
@@ -283,6 +522,19 @@ abstract class BaseFieldRenderer extends Disposable {
 
   public abstract resetInput(): void;
 
+  /**
+   * Returns the current answer, which conditions on later nodes of the form depend on.
+   */
+  public getAnswer(_use: UseCB): CellValue {
+    return null;
+  }
+
+  /**
+   * Fills in the input with an answer previously returned by `getAnswer()`, e.g. from a draft.
+   */
+  public setAnswer(_value: CellValue): void {
+  }
+
   /**
    * A Field renderer can override this to add additional attributes to the field's DOM element.
    */
@@ -328,6 +580,14 @@ class TextRenderer extends BaseFieldRenderer {
     this._value.setAndTrigger(this.getInitialValue() ?? '');
   }
 
+  public getAnswer(use: UseCB): CellValue {
+    return use(this._value);
+  }
+
+  public setAnswer(value: CellValue): void {
+    this._value.set(getFormAnswerStrings(value)[0] ?? '');
+  }
+
   private _renderSingleLineInput() {
     return css.textInput(
       {
@@ -337,6 +597,7 @@ class TextRenderer extends BaseFieldRenderer {
         required: this.field.options.formRequired,
       },
       dom.prop('value', this._value),
+      dom.on('input', (_e, elem) => this._value.set(elem.value)),
       preventSubmitOnEnter(),
     );
   }
@@ -375,6 +636,16 @@ class NumericRenderer extends BaseFieldRenderer {
     this._spinnerValue.setAndTrigger(this.getInitialNumericValue());
   }
 
+  public getAnswer(use: UseCB): CellValue {
+    return this._format === 'text' ? use(this._value) : use(this._spinnerValue);
+  }
+
+  public setAnswer(value: CellValue): void {
+    const text = getFormAnswerStrings(value)[0] ?? '';
+    this._value.set(text);
+    this._spinnerValue.set(isNumber(text) ? parseFloat(text) : '');
+  }
+
   protected getInitialNumericValue(): number|'' {
     const val = this.getInitialValue();
     return (val && isNumber(val)) ? parseFloat(val) : '';
@@ -389,6 +660,7 @@ class NumericRenderer extends BaseFieldRenderer {
         required: this.field.options.formRequired,
       },
       dom.prop('value', this._value),
+      dom.on('input', (_e, elem) => this._value.set(elem.value)),
       preventSubmitOnEnter(),
     );
   }
@@ -486,6 +758,20 @@ class ChoiceRenderer extends BaseFieldRenderer  {
     });
   }
 
+  public getAnswer(use: UseCB): CellValue {
+    if (this._format === 'select') { return use(this.value); }
+    return use(this._radioButtons).find(radioButton => use(radioButton.checked))?.label ?? null;
+  }
+
+  public setAnswer(value: CellValue): void {
+    const answer = getFormAnswerStrings(value)[0];
+    const choice = answer && this._choices.includes(answer) ? answer : '';
+    this.value.set(choice);
+    this._radioButtons.get().forEach(radioButton => {
+      radioButton.checked.set(radioButton.label === choice);
+    });
+  }
+
   protected override getInitialValue() {
     const val = super.getInitialValue();
     return val && this._choices.includes(val) ? val : null;
@@ -561,7 +847,8 @@ class ChoiceRenderer extends BaseFieldRenderer  {
         css.radio(
           dom('input',
             dom.prop('checked', radioButton.checked),
-            dom.on('change', (_e, elem) => radioButton.checked.set(elem.checked)),
+            dom.on('change', (_e, elem) => this._radioButtons.get().forEach(button =>
+              button.checked.set(button === radioButton && elem.checked))),
             {
               type: 'radio',
               name: `${this.name()}`,
@@ -610,6 +897,14 @@ class BoolRenderer extends BaseFieldRenderer {
     this.checked.set(isAffirmative(this.getInitialValue()));
   }
 
+  public getAnswer(use: UseCB): CellValue {
+    return use(this.checked);
+  }
+
+  public setAnswer(value: CellValue): void {
+    this.checked.set(value === true);
+  }
+
   private _renderSwitchInput() {
     return toggleSwitch(this. checked, {
       label: this.field.question,
@@ -715,6 +1010,18 @@ class ChoiceListRenderer extends BaseFieldRenderer  {
       checkbox.checked.set(initialValues.has(checkbox.label));
     });
   }
+
+  public getAnswer(use: UseCB): CellValue {
+    const checked = use(this.checkboxes).filter(checkbox => use(checkbox.checked));
+    return [GristObjCode.List, ...checked.map(checkbox => checkbox.label)];
+  }
+
+  public setAnswer(value: CellValue): void {
+    const answers = new Set(getFormAnswerStrings(value));
+    this.checkboxes.get().forEach(checkbox => {
+      checkbox.checked.set(answers.has(checkbox.label));
+    });
+  }
 }
 
 class RefListRenderer extends BaseFieldRenderer {
@@ -787,6 +1094,18 @@ class RefListRenderer extends BaseFieldRenderer {
       checkbox.checked.set(initialValues.has(checkbox.label));
     });
   }
+
+  public getAnswer(use: UseCB): CellValue {
+    const checked = use(this.checkboxes).filter(checkbox => use(checkbox.checked));
+    return [GristObjCode.List, ...checked.map(checkbox => Number(checkbox.value))];
+  }
+
+  public setAnswer(value: CellValue): void {
+    const answers = new Set(getFormAnswerStrings(value));
+    this.checkboxes.get().forEach(checkbox => {
+      checkbox.checked.set(answers.has(checkbox.value));
+    });
+  }
 }
 
 class RefRenderer extends BaseFieldRenderer {
@@ -853,6 +1172,21 @@ class RefRenderer extends BaseFieldRenderer {
     });
   }
 
+  public getAnswer(use: UseCB): CellValue {
+    const value = this._format === 'select' ? use(this.value) :
+      use(this._radioButtons).find(radioButton => use(radioButton.checked))?.value;
+    return value ? Number(value) : null;
+  }
+
+  public setAnswer(value: CellValue): void {
+    const answer = getFormAnswerStrings(value)[0];
+    const ref = answer && this._choices.some(([id]) => String(id) === answer) ? answer : '';
+    this.value.set(ref);
+    this._radioButtons.get().forEach(radioButton => {
+      radioButton.checked.set(radioButton.value === ref);
+    });
+  }
+
   // This returns the reference rather than its label (e.g. '5' rather than 'Some Name').
   protected override getInitialValue() {
     const initialValue = super.getInitialValue();
@@ -942,7 +1276,8 @@ class RefRenderer extends BaseFieldRenderer {
         css.radio(
           dom('input',
             dom.prop('checked', radioButton.checked),
-            dom.on('change', (_e, elem) => radioButton.checked.set(elem.checked)),
+            dom.on('change', (_e, elem) => this._radioButtons.get().forEach(button =>
+              button.checked.set(button === radioButton && elem.checked))),
             {
               type: 'radio',
               name: `${this.name()}`,
@@ -1019,6 +1354,7 @@ const FormRenderers = {
   // Aliases for Paragraph.
   'Separator': ParagraphRenderer,
   'Header': ParagraphRenderer,
+  'PageBreak': PageBreakRenderer,
 };
 
 function preventSubmitOnEnter() {
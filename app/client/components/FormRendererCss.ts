@@ -110,12 +110,56 @@ export const submitButton = styled('div', `
   }
 `);
 
+export const nextButton = styled('button', `
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  background-color: ${vars.primaryBg};
+  border: 1px solid ${vars.primaryBg};
+  color: white;
+  padding: 10px 24px;
+  border-radius: 4px;
+  font-size: 13px;
+  cursor: pointer;
+  line-height: inherit;
+  outline-color: ${vars.primaryBgHover};
+
+  &:hover {
+    border-color: ${vars.primaryBgHover};
+    background-color: ${vars.primaryBgHover};
+  }
+`);
+
+export const progress = styled('div', `
+  margin-bottom: 16px;
+  font-size: 13px;
+  color: ${colors.slate};
+`);
+
+export const progressBar = styled('div', `
+  margin-top: 4px;
+  height: 6px;
+  border-radius: 3px;
+  overflow: hidden;
+  background-color: ${colors.darkGrey};
+`);
+
+export const progressBarFill = styled('div', `
+  height: 100%;
+  background-color: ${vars.primaryBg};
+  transition: width 0.2s;
+`);
+
 export const field = styled('div', `
   display: flex;
   flex-direction: column;
   height: 100%;
   justify-content: space-between;
 
+  &-hidden {
+    display: none;
+  }
+
   & > .${label.className} {
     color: ${colors.dark};
     font-size: 13px;
@@ -0,0 +1,52 @@
+import {FormLayoutNode} from 'app/client/components/FormRenderer';
+import {buildEditor} from 'app/client/components/Forms/Editor';
+import {BoxModel} from 'app/client/components/Forms/Model';
+import {makeTestId} from 'app/client/lib/domUtils';
+import {makeT} from 'app/client/lib/localization';
+import {theme} from 'app/client/ui2018/cssVars';
+import {styled} from 'grainjs';
+import {v4 as uuidv4} from 'uuid';
+
+const t = makeT('PageBreak');
+
+const testId = makeTestId('test-forms-');
+
+/**
+ * Component that renders a page break. Published forms with page breaks are shown one page at a
+ * time, with a progress bar and buttons to go to the previous and next pages.
+ */
+export class PageBreakModel extends BoxModel {
+  public override render(): HTMLElement {
+    return buildEditor({
+      box: this,
+      content: cssPageBreak(
+        cssPageBreakLabel(t("Page break")),
+        testId('page-break'),
+      ),
+    });
+  }
+}
+
+export function PageBreak(): FormLayoutNode {
+  return {id: uuidv4(), type: 'PageBreak'};
+}
+
+const cssPageBreak = styled('div', `
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  padding: 8px 0px;
+  &::before, &::after {
+    content: '';
+    flex: 1 1 0px;
+    border-top: 2px dashed ${theme.lightText};
+  }
+`);
+
+const cssPageBreakLabel = styled('div', `
+  flex: none;
+  padding: 0px 12px;
+  color: ${theme.lightText};
+  font-size: 12px;
+  text-transform: uppercase;
+`);
@@ -58,6 +58,11 @@ export class SectionModel extends BoxModel {
                   menus.menuIcon('Section'),
                   t('Insert section below'),
                 ),
+                menus.menuItem(
+                  () => allCommands.insertFieldAfter.run({structure: 'PageBreak'}),
+                  menus.menuIcon('Separator'),
+                  t('Insert page break below'),
+                ),
               ],
             })
           ),
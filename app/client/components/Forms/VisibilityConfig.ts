@@ -0,0 +1,252 @@
+import {FieldModel} from 'app/client/components/Forms/Field';
+import {BoxModel} from 'app/client/components/Forms/Model';
+import {makeT} from 'app/client/lib/localization';
+import {ColumnRec} from 'app/client/models/DocModel';
+import {reportError} from 'app/client/models/errors';
+import {cssHelp, cssIcon, cssLabel, cssRow} from 'app/client/ui/RightPanelStyles';
+import {textButton} from 'app/client/ui2018/buttons';
+import {theme} from 'app/client/ui2018/cssVars';
+import {textInput} from 'app/client/ui2018/editableLabel';
+import {IOptionFull, select} from 'app/client/ui2018/menus';
+import {unstyledButton} from 'app/client/ui2018/unstyled';
+import {FormCondition, FormConditionOperator, FormConditionRule} from 'app/common/Forms';
+import {Computed, Disposable, dom, IDisposableOwner, makeTestId, MultiHolder, Observable, styled,
+        UseCBOwner} from 'grainjs';
+
+const t = makeT('VisibilityConfig');
+
+const testId = makeTestId('test-form-visibility-');
+
+/**
+ * A field of the form whose answer conditions may check.
+ */
+interface SourceField {
+  leaf: number;
+  label: string;
+  type: string;
+  // Values to pick from, for Choice and Reference fields.
+  values: IOptionFull<string>[]|null;
+}
+
+/**
+ * Configuration of the condition for showing a node of a form (its `visibleIf` property), in the
+ * creator panel. Conditions can only check the answers to fields that come earlier in the form.
+ */
+export class FormVisibilityConfig extends Disposable {
+  private _condition = this._box.prop('visibleIf') as Observable<FormCondition|null>;
+  private _rules = Computed.create(this, use => use(this._condition)?.rules ?? []);
+  private _sourceFields = Computed.create(this, use => this._getSourceFields(use));
+
+  constructor(private _box: BoxModel) {
+    super();
+  }
+
+  public buildDom() {
+    return [
+      cssLabel(t("Visibility")),
+      dom.domComputed(use => use(this._rules).length > 1, (multiple) => multiple ? cssRow(
+        select(
+          Computed.create(this, use => use(this._condition)?.match ?? 'all')
+            .onWrite(match => this._save({...this._condition.get()!, match})),
+          [
+            {value: 'all', label: t("Show if all conditions are met")},
+            {value: 'any', label: t("Show if any condition is met")},
+          ],
+        ),
+        testId('match'),
+      ) : null),
+      dom.forEach(this._rules, (rule) => this._buildRule(rule)),
+      dom.domComputed(this._sourceFields, (fields) => fields.length === 0 ?
+        cssHelp(t("Conditions can check the answers to earlier fields."), testId('help')) :
+        cssRow(
+          textButton(
+            cssIcon('Plus'), t("Add condition"),
+            dom.on('click', () => this._addRule(fields[0])),
+            testId('add'),
+          ),
+        ),
+      ),
+    ];
+  }
+
+  private _buildRule(rule: FormConditionRule) {
+    const owner = MultiHolder.create(null);
+    const source = Computed.create(owner, use => use(this._sourceFields).find(f => f.leaf === rule.leaf));
+    const update = (changes: Partial<FormConditionRule>) => this._updateRule(rule, {...rule, ...changes});
+    return cssRule(
+      dom.autoDispose(owner),
+      cssRuleRow(
+        cssRuleSelect(
+          select(
+            savingObs(owner, rule.leaf, leaf => update({leaf, value: undefined})),
+            Computed.create(owner, use => use(this._sourceFields).map(f => ({value: f.leaf, label: f.label}))),
+            {defaultLabel: t("Pick a field")},
+          ),
+          testId('rule-field'),
+        ),
+        cssRemoveButton(
+          {'aria-label': t("Remove condition")},
+          cssIcon('Remove'),
+          dom.on('click', () => this._removeRule(rule)),
+          testId('rule-remove'),
+        ),
+      ),
+      dom.domComputed(source, (field) => cssRuleRow(
+        cssRuleSelect(
+          select(
+            savingObs(owner, rule.op, op => update({op})),
+            getOperatorOptions(field?.type),
+          ),
+          testId('rule-op'),
+        ),
+        ['isEmpty', 'isNotEmpty'].includes(rule.op) ? null :
+          field?.values ?
+            cssRuleSelect(
+              select(
+                savingObs(owner, rule.value ?? '', value => update({value})),
+                field.values,
+                {defaultLabel: t("Pick a value")},
+              ),
+              testId('rule-value'),
+            ) :
+            cssValueInput(
+              Observable.create(owner, rule.value ?? ''),
+              async (value) => update({value}),
+              {placeholder: t("Value")},
+              testId('rule-value'),
+            ),
+      )),
+      testId('rule'),
+    );
+  }
+
+  private _addRule(field: SourceField) {
+    const condition = this._condition.get();
+    const op: FormConditionOperator = field.type === 'Bool' ? 'isNotEmpty' : 'is';
+    this._save({...condition, rules: [...condition?.rules ?? [], {leaf: field.leaf, op}]});
+  }
+
+  private _updateRule(rule: FormConditionRule, newRule: FormConditionRule) {
+    const condition = this._condition.get()!;
+    this._save({...condition, rules: condition.rules.map(r => r === rule ? newRule : r)});
+  }
+
+  private _removeRule(rule: FormConditionRule) {
+    const condition = this._condition.get()!;
+    const rules = condition.rules.filter(r => r !== rule);
+    this._save(rules.length > 0 ? {...condition, rules} : null);
+  }
+
+  private _save(condition: FormCondition|null) {
+    this._condition.set(condition);
+    this._box.save().catch(reportError);
+  }
+
+  /**
+   * Returns the fields that come before this box in the form, except attachments.
+   */
+  private _getSourceFields(use: UseCBOwner): SourceField[] {
+    const fields: SourceField[] = [];
+    for (const box of this._box.root().traverse()) {
+      if (box === this._box) { break; }
+      if (box.type !== 'Field') { continue; }
+      const field = use((box as FieldModel).field);
+      const column = use(field.column);
+      const type = use(column.pureType);
+      if (!use(field.id) || type === 'Attachments') { continue; }
+      fields.push({
+        leaf: use((box as FieldModel).leaf),
+        label: use((box as FieldModel).question),
+        type,
+        values: this._getValueOptions(use, column, type),
+      });
+    }
+    return fields;
+  }
+
+  /**
+   * Returns the values to pick from for fields with a fixed list of answers. Reference answers are
+   * row ids, which are shown using the column's "Show column".
+   */
+  private _getValueOptions(use: UseCBOwner, column: ColumnRec, type: string): IOptionFull<string>[]|null {
+    if (type === 'Choice' || type === 'ChoiceList') {
+      const choices: string[] = use(column.widgetOptionsJson.prop('choices')) ?? [];
+      return choices.map(choice => ({value: choice, label: choice}));
+    }
+    if (type === 'Ref' || type === 'RefList') {
+      const refTable = use(column.refTable);
+      const tableData = refTable && this._box.view.gristDoc.docData.getTable(use(refTable.tableId));
+      if (!tableData) { return []; }
+      const visibleColId = use(use(column.visibleColModel).colId) || 'id';
+      const formatter = use(column.visibleColFormatter);
+      return tableData.getRowIds().map(rowId => ({
+        value: String(rowId),
+        label: formatter.formatAny(tableData.getValue(rowId, visibleColId)),
+      }));
+    }
+    return null;
+  }
+}
+
+/**
+ * Returns an observable with the initial value `value`, which calls `save` when it's set.
+ */
+function savingObs<T>(owner: IDisposableOwner, value: T, save: (value: T) => void): Observable<T> {
+  const obs = Observable.create(owner, value);
+  obs.addListener(save);
+  return obs;
+}
+
+function getOperatorOptions(type: string|undefined): IOptionFull<FormConditionOperator>[] {
+  if (type === 'Bool') {
+    return [
+      {value: 'isNotEmpty', label: t("is checked")},
+      {value: 'isEmpty', label: t("is not checked")},
+    ];
+  }
+  return [
+    {value: 'is', label: t("is")},
+    {value: 'isNot', label: t("is not")},
+    ...(type === 'Text' || type === 'Any' ? [{value: 'contains' as const, label: t("contains")}] : []),
+    {value: 'isEmpty', label: t("is empty")},
+    {value: 'isNotEmpty', label: t("is not empty")},
+  ];
+}
+
+const cssRule = styled('div', `
+  margin: 0 16px 12px 16px;
+  padding: 8px;
+  border-radius: 4px;
+  border: 1px solid ${theme.pagePanelsBorder};
+`);
+
+const cssRuleRow = styled('div', `
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  & + & {
+    margin-top: 8px;
+  }
+`);
+
+const cssRuleSelect = styled('div', `
+  flex: 1 1 0px;
+  min-width: 0;
+`);
+
+const cssValueInput = styled(textInput, `
+  flex: 1 1 0px;
+  min-width: 0;
+  color: ${theme.inputFg};
+  background-color: ${theme.inputBg};
+`);
+
+const cssRemoveButton = styled(unstyledButton, `
+  flex: none;
+  display: flex;
+  cursor: pointer;
+  --icon-color: ${theme.lightText};
+  &:hover {
+    --icon-color: ${theme.controlFg};
+  }
+`);
@@ -1,5 +1,6 @@
 import {FormLayoutNode, FormLayoutNodeType} from 'app/client/components/FormRenderer';
 import {Columns, Placeholder} from 'app/client/components/Forms/Columns';
+import {PageBreak} from 'app/client/components/Forms/PageBreak';
 import {Paragraph} from 'app/client/components/Forms/Paragraph';
 import {Section} from 'app/client/components/Forms/Section';
 import {v4 as uuidv4} from 'uuid';
@@ -13,6 +14,7 @@ export * from "app/client/components/Forms/Section";
 export * from 'app/client/components/Forms/Field';
 export * from 'app/client/components/Forms/Columns';
 export * from 'app/client/components/Forms/Submit';
+export * from 'app/client/components/Forms/PageBreak';
 
 export function defaultElement(type: FormLayoutNodeType): FormLayoutNode {
   switch(type) {
@@ -21,6 +23,7 @@ export function defaultElement(type: FormLayoutNodeType): FormLayoutNode {
     case 'Separator': return Paragraph('---');
     case 'Header': return Paragraph('# **Header**', 'center');
     case 'Section': return Section();
+    case 'PageBreak': return PageBreak();
     default: return {id: uuidv4(), type};
   }
 }
@@ -16,7 +16,7 @@ import {Drafts} from "app/client/components/Drafts";
 import {EditorMonitor} from "app/client/components/EditorMonitor";
 import {buildDefaultFormLayout} from 'app/client/components/Forms/FormView';
 import GridView from 'app/client/components/GridView';
-import {importFromFile, selectAndImport} from 'app/client/components/Importer';
+import {importFromFile, importFromJsonApi, runSavedImport, selectAndImport} from 'app/client/components/Importer';
 import {RawDataPage, RawDataPopup} from 'app/client/components/RawDataPage';
 import {RecordCardPopup} from 'app/client/components/RecordCardPopup';
 import {ActionGroupWithCursorPos, UndoStack} from 'app/client/components/UndoStack';
@@ -213,6 +213,9 @@ export interface GristDoc extends DisposableWithEvents {
   getTsvLink(): string;
   getDsvLink(): string;
   getXlsxActiveViewLink(): string;
+  getJsonLink(): string;
+  getNdjsonLink(): string;
+  getOdsActiveViewLink(): string;
   recursiveMoveToCursorPos(
     cursorPos: CursorPos,
     setAsActiveSection: boolean,
@@ -600,7 +603,15 @@ export class GristDocImpl extends DisposableWithEvents implements GristDoc {
       ...importSourceElems.map(importSourceElem => ({
         label: importSourceElem.importSource.label,
         action: () => selectAndImport(this, importSourceElems, importSourceElem, createPreview)
-      }))
+      })),
+      {
+        label: t("Import from JSON API"),
+        action: () => importFromJsonApi(this, createPreview),
+      },
+      {
+        label: t("Run saved import"),
+        action: () => runSavedImport(this).catch(reportError),
+      },
     ];
 
     // Set the available import sources in the DocPageModel.
@@ -1101,6 +1112,21 @@ export class GristDocImpl extends DisposableWithEvents implements GristDoc {
     return this.docPageModel.appModel.api.getDocAPI(this.docId()).getDownloadXlsxUrl(params);
   }
 
+  public getJsonLink() {
+    const params = this._getDocApiDownloadParams();
+    return this.docPageModel.appModel.api.getDocAPI(this.docId()).getDownloadJsonUrl(params);
+  }
+
+  public getNdjsonLink() {
+    const params = this._getDocApiDownloadParams();
+    return this.docPageModel.appModel.api.getDocAPI(this.docId()).getDownloadNdjsonUrl(params);
+  }
+
+  public getOdsActiveViewLink() {
+    const params = this._getDocApiDownloadParams();
+    return this.docPageModel.appModel.api.getDocAPI(this.docId()).getDownloadOdsUrl(params);
+  }
+
   /**
    * Move to the desired cursor position.  If colRef is supplied, the cursor will be
    * moved to a field with that colRef.  Any linked sections that need their cursors
@@ -1741,7 +1767,7 @@ Please check webhooks settings, remove invalid webhooks, and clean the queue.'),
   private async _maybeShowEditCardLayoutTip(selectedWidgetType: IWidgetType) {
     if (
       // Don't show the tip if a non-card widget was selected.
-      !['single', 'detail'].includes(selectedWidgetType) ||
+      !['single', 'detail', 'kanban'].includes(selectedWidgetType) ||
       // Or if we shouldn't see the tip.
       !this.behavioralPromptsManager.shouldShowPopup('editCardLayout')
     ) {
@@ -5,6 +5,7 @@
 // tslint:disable:no-console
 
 import {GristDoc} from 'app/client/components/GristDoc';
+import {jsonApiSourceModal} from 'app/client/components/JsonApiSourceForm';
 import {buildParseOptionsForm, ParseOptionValues} from 'app/client/components/ParseOptions';
 import {PluginScreen} from 'app/client/components/PluginScreen';
 import {makeTestId} from 'app/client/lib/domUtils';
@@ -13,6 +14,7 @@ import {ImportSourceElement} from 'app/client/lib/ImportSourceElement';
 import {makeT} from 'app/client/lib/localization';
 import {EXTENSIONS_IMPORTABLE_WITHIN_DOC, fetchURL, isDriveUrl, selectFiles, uploadFiles} from 'app/client/lib/uploads';
 import {reportError} from 'app/client/models/AppModel';
+import {reportSuccess} from 'app/client/models/errors';
 import {ColumnRec, ViewFieldRec, ViewSectionRec} from 'app/client/models/DocModel';
 import {SortedRowSet} from 'app/client/models/rowset';
 import {buildHighlightedCode} from 'app/client/ui/CodeHighlight';
@@ -25,17 +27,22 @@ import {labeledSquareCheckbox} from 'app/client/ui2018/checkbox';
 import {testId as baseTestId, theme, vars} from 'app/client/ui2018/cssVars';
 import {icon} from 'app/client/ui2018/icons';
 import {loadingSpinner} from 'app/client/ui2018/loaders';
-import {IOptionFull, menuDivider, menuItem, multiSelect, selectMenu, selectOption} from 'app/client/ui2018/menus';
-import {cssModalTitle} from 'app/client/ui2018/modals';
+import {
+  IOptionFull, menuDivider, menuItem, multiSelect, select, selectMenu, selectOption
+} from 'app/client/ui2018/menus';
+import {cssModalTitle, promptModal, saveModal} from 'app/client/ui2018/modals';
 import {openFormulaEditor} from 'app/client/widgets/FormulaEditor';
 import {
   DataSourceTransformed,
   DestId,
+  ImportConfig,
+  ImportConfigSource,
   ImportResult,
   ImportTableResult,
   MergeOptions,
   MergeOptionsMap,
   MergeStrategy,
+  MissingRecordsStrategy,
   NEW_TABLE,
   SKIP_TABLE,
   TransformColumn,
@@ -148,6 +155,15 @@ interface MergeOptionsState {
    * Merge strategy to use, not used currently.
    */
   mergeStrategy: Observable<MergeStrategy>;
+  /**
+   * What to do with records of the target table that are missing from the source, if user set
+   * `updateExistingRecords` to true.
+   */
+  missingRecords: Observable<MissingRecordsStrategy['type']>;
+  /**
+   * Toggle column from the target table to set on missing records, if `missingRecords` is 'flag'.
+   */
+  flagColId: Observable<string|null>;
   /**
    * Whether mergeCols contains invalid columns (set in the code to show error message).
    */
@@ -228,6 +244,92 @@ export async function importFromFile(gristDoc: GristDoc, createPreview: CreatePr
   await Importer.create(null, gristDoc, null, createPreview).pickAndUploadSource(uploadResult);
 }
 
+/**
+ * Imports records fetched from a JSON REST endpoint, which the user describes in a dialog.
+ */
+export function importFromJsonApi(gristDoc: GristDoc, createPreview: CreatePreviewFunc) {
+  jsonApiSourceModal(async (source) => {
+    // Important to fork first before fetching, so we end up uploading to a consistent doc worker.
+    await gristDoc.forkIfNeeded();
+    const uploadResult = await gristDoc.docComm.fetchJsonApi(source);
+    // Not awaited, so that the dialog closes when records are fetched. Importer disposes itself
+    // when its dialog is closed, so we do not take ownership of it.
+    Importer.create(null, gristDoc, null, createPreview, {type: 'json-api', jsonApi: source})
+      .pickAndUploadSource(uploadResult).catch(reportError);
+  });
+}
+
+/**
+ * Lets the user pick one of the import configurations saved in the document, and runs it again:
+ * on newly picked files, or for configurations that import from a URL or a JSON API, on freshly
+ * fetched data.
+ */
+export async function runSavedImport(gristDoc: GristDoc) {
+  const configs = await gristDoc.docComm.getImportConfigs();
+  saveModal((ctl, owner) => {
+    const selected = Observable.create(owner, configs[0]?.name ?? null);
+    return {
+      title: t('Run saved import'),
+      body: configs.length === 0 ?
+        cssMergeOptionsMessage(t('No imports have been saved in this document yet.')) :
+        [
+          cssMergeOptionsMessage(t('Import new data using the settings of a saved import:')),
+          dom('div', select(selected, configs.map(c => ({label: c.name, value: c.name}))),
+            testId('saved-import-select')),
+        ],
+      saveLabel: t('Run'),
+      saveDisabled: Computed.create(owner, use => !use(selected)),
+      saveFunc: async () => {
+        const config = configs.find(c => c.name === selected.get());
+        if (config) {
+          // Not awaited, so that the dialog closes while the file picker is open.
+          runImportConfig(gristDoc, config).catch(reportError);
+        }
+      },
+    };
+  });
+}
+
+async function runImportConfig(gristDoc: GristDoc, config: ImportConfig) {
+  const docComm = gristDoc.docComm;
+  let upload: UploadResult|null;
+  if (config.source.type === 'url' && config.source.url) {
+    await gristDoc.forkIfNeeded();
+    upload = await fetchURL(docComm, config.source.url);
+  } else if (config.source.type === 'json-api' && config.source.jsonApi) {
+    const {jsonApi, headerNames} = config.source;
+    if (headerNames?.length) {
+      // Values of headers aren't saved, so ask for them again.
+      const headers = Object.fromEntries(headerNames.map(name => [name, '']));
+      jsonApiSourceModal(async (source) => {
+        await gristDoc.forkIfNeeded();
+        await finishImportConfig(gristDoc, config, await docComm.fetchJsonApi(source));
+      }, {...jsonApi, headers});
+      return;
+    }
+    await gristDoc.forkIfNeeded();
+    upload = await docComm.fetchJsonApi(jsonApi);
+  } else {
+    const files = await openFilePicker({
+      multiple: true,
+      accept: EXTENSIONS_IMPORTABLE_WITHIN_DOC.join(","),
+    });
+    await gristDoc.forkIfNeeded();
+    upload = await uploadFiles(files, {docWorkerUrl: docComm.docWorkerUrl, sizeLimit: 'import'});
+  }
+  if (!upload) { return; }
+  await finishImportConfig(gristDoc, config, upload);
+}
+
+async function finishImportConfig(gristDoc: GristDoc, config: ImportConfig, upload: UploadResult) {
+  const importResult = await gristDoc.docComm.runImportConfig(config.name, upload.uploadId);
+  const tableId = importResult.tables[0]?.destTableId;
+  const primaryViewId = tableId && gristDoc.docModel.dataTables[tableId]?.tableMetaRow.primaryViewId();
+  if (primaryViewId) {
+    await gristDoc.openDocPage(primaryViewId);
+  }
+  reportSuccess(t('Finished import "{{name}}"', {name: config.name}));
+}
 
 /**
  * Importer manages an import files to Grist tables and shows Preview
@@ -236,6 +338,9 @@ export class Importer extends DisposableWithEvents {
 
   private _docComm = this._gristDoc.docComm;
   private _uploadResult?: UploadResult;
+  // Where the data came from. Saved with import configurations, to fetch it again from the same
+  // URL or JSON API, if that's where it came from.
+  private _source: ImportConfigSource;
 
   private _screen: PluginScreen;
   private _optionsScreenHolder = Holder.create(this);
@@ -383,9 +488,12 @@ export class Importer extends DisposableWithEvents {
   constructor(private _gristDoc: GristDoc,
               // null tells to use the built-in file picker.
               private _importSourceElem: ImportSourceElement|null,
-              private _createPreview: CreatePreviewFunc) {
+              private _createPreview: CreatePreviewFunc,
+              source: ImportConfigSource = {type: 'file'}) {
     super();
-    const label = _importSourceElem?.importSource.label || t("Import from file");
+    this._source = source;
+    const label = _importSourceElem?.importSource.label ||
+      (source.type === 'json-api' ? t("Import from JSON API") : t("Import from file"));
     this._screen = PluginScreen.create(this, label);
 
     this.onDispose(() => {
@@ -426,6 +534,7 @@ export class Importer extends DisposableWithEvents {
               uploadResult = await this._fetchFromDrive(item.url);
             } else {
               uploadResult = await fetchURL(this._docComm, item.url);
+              this._source = {type: 'url', url: item.url};
             }
           } else {
             throw new Error(`Import source of kind ${(item as any).kind} are not yet supported!`);
@@ -559,10 +668,13 @@ export class Importer extends DisposableWithEvents {
     const mergeOptions = this._mergeOptions[sourceInfo.hiddenTableId];
     if (!mergeOptions) { return undefined; }
 
-    const {updateExistingRecords, mergeCols, mergeStrategy} = mergeOptions;
+    const {updateExistingRecords, mergeCols, mergeStrategy, missingRecords, flagColId} = mergeOptions;
     return {
       mergeCols: updateExistingRecords.get() ? mergeCols.get() : [],
-      mergeStrategy: mergeStrategy.get()
+      mergeStrategy: mergeStrategy.get(),
+      missingRecordsStrategy: missingRecords.get() === 'flag' ?
+        {type: 'flag', flagColId: flagColId.get() ?? undefined} :
+        {type: missingRecords.get()},
     };
   }
 
@@ -644,6 +756,9 @@ export class Importer extends DisposableWithEvents {
         mergeCols: obsArray(),
         // Strategy for the backend (from UI we don't care about it).
         mergeStrategy: Observable.create(null, {type: 'replace-with-nonblank-source'}),
+        // By default, records missing from the source are left alone.
+        missingRecords: Observable.create(null, 'keep'),
+        flagColId: Observable.create(null, null),
         // Helper to show the validation that something is wrong with the columns selected to merge.
         hasInvalidMergeCols: Observable.create(null, false),
       };
@@ -676,6 +791,24 @@ export class Importer extends DisposableWithEvents {
     this.dispose();
   }
 
+  /**
+   * Asks for a name, and saves the current parse options, column mapping and merge options in
+   * the document, so that the same import can be run again on new data.
+   */
+  private _saveImportConfig() {
+    if (!this._validateImportConfiguration()) { return; }
+    promptModal(t('Save import configuration'), async (name) => {
+      await this._docComm.saveImportConfig({
+        name,
+        source: this._source,
+        parseOptions: {...this._parseOptions.get(), NUM_ROWS: 0},
+        transforms: this._createTransformRuleMap(0),
+        mergeOptions: this._createMergeOptionsMap(0),
+      });
+      reportSuccess(t('Saved import "{{name}}"', {name}));
+    }, t('Save'), '', t('Name of the import'));
+  }
+
   private async _cancelImport() {
     this._resetImportDiffState();
     // Formula editor cleanup needs to happen before the hidden tables are removed.
@@ -869,7 +1002,9 @@ export class Importer extends DisposableWithEvents {
       }),
     );
     const previewAndConfig = dom.maybeOwned(this._sourceInfoSelected, (owner, info) => {
-      const {mergeCols, updateExistingRecords, hasInvalidMergeCols} = this._mergeOptions[info.hiddenTableId]!;
+      const {
+        mergeCols, updateExistingRecords, hasInvalidMergeCols, missingRecords, flagColId,
+      } = this._mergeOptions[info.hiddenTableId]!;
 
       // Computed for transform section if we have destination table selected.
       const configSection = Computed.create(owner,
@@ -1011,6 +1146,19 @@ export class Importer extends DisposableWithEvents {
                     }
                     await this._updateImportDiff(info);
                   }));
+                  // Only Toggle columns can be used to flag records missing from the source.
+                  const flagColOptions = section.viewFields().peek()
+                    .filter(f => f.column().type() === 'Bool')
+                    .map(f => ({label: f.label(), value: f.colId()}));
+                  owner2.autoDispose(missingRecords.addListener(async val => {
+                    if (val === 'flag' && !flagColId.get()) {
+                      flagColId.set(flagColOptions[0]?.value ?? null);
+                    }
+                    await this._updateImportDiff(info);
+                  }));
+                  owner2.autoDispose(flagColId.addListener(async () => {
+                    await this._updateImportDiff(info);
+                  }));
                   return [
                     cssMergeOptionsMessage(
                       t("Merge rows that match these fields:"),
@@ -1024,7 +1172,29 @@ export class Importer extends DisposableWithEvents {
                         error: hasInvalidMergeCols
                       },
                       testId('merge-fields-select')
-                    )
+                    ),
+                    cssMissingRecordsMessage(
+                      t("Records missing from the source:"),
+                      testId('missing-records-message')
+                    ),
+                    cssMergeOptionsSelect(
+                      select(missingRecords, [
+                        {label: t("Keep them"), value: 'keep'},
+                        {label: t("Remove them"), value: 'remove'},
+                        {label: t("Flag them"), value: 'flag', disabled: flagColOptions.length === 0},
+                      ]),
+                      testId('missing-records-select')
+                    ),
+                    dom.maybe(use => use(missingRecords) === 'flag', () => [
+                      cssMergeOptionsMessage(
+                        t("Set this Toggle column on them:"),
+                        testId('missing-records-flag-message')
+                      ),
+                      cssMergeOptionsSelect(
+                        select(flagColId, flagColOptions),
+                        testId('missing-records-flag-select')
+                      ),
+                    ]),
                   ];
                 });
               }),
@@ -1131,6 +1301,11 @@ export class Importer extends DisposableWithEvents {
         dom.on('click', () => this._cancelImport()),
         baseTestId('modal-cancel'),
       ),
+      bigBasicButton(t('Save configuration'),
+        dom.on('click', () => this._saveImportConfig()),
+        dom.boolAttr('disabled', use => use(this._previewViewSection) === null),
+        testId('save-config'),
+      ),
       dom.domComputed(this._unmatchedFieldsMap, fields => {
         const piles: HTMLElement[] = [];
         let count = 0;
@@ -1699,6 +1874,14 @@ const cssMergeOptionsMessage = styled('div', `
   margin-bottom: 8px;
 `);
 
+const cssMissingRecordsMessage = styled(cssMergeOptionsMessage, `
+  margin-top: 16px;
+`);
+
+const cssMergeOptionsSelect = styled('div', `
+  margin-bottom: 8px;
+`);
+
 const cssColumnMatchHeader = styled('div', `
   display: grid;
   grid-template-columns: 1fr 20px 1fr;
@@ -0,0 +1,138 @@
+import {makeT} from 'app/client/lib/localization';
+import {textarea, textInput} from 'app/client/ui/inputs';
+import {testId, theme} from 'app/client/ui2018/cssVars';
+import {select} from 'app/client/ui2018/menus';
+import {saveModal} from 'app/client/ui2018/modals';
+import {JsonApiPagination, JsonApiSource} from 'app/common/uploads';
+
+import {Computed, dom, Observable, styled} from 'grainjs';
+
+const t = makeT('JsonApiSourceForm');
+
+type PaginationType = JsonApiPagination['type'] | 'none';
+
+/**
+ * Opens a dialog asking for a JSON REST endpoint to import records from: its URL, any headers to
+ * send, the path to the array of records in responses, and how to fetch further pages. On
+ * submit, calls `onSubmit()` with the resulting source; the dialog stays open if that fails.
+ * The dialog starts with the values of `initial`, if given.
+ */
+export function jsonApiSourceModal(onSubmit: (source: JsonApiSource) => Promise<void>, initial?: JsonApiSource) {
+  saveModal((ctl, owner) => {
+    const pagination = initial?.pagination;
+    const url = Observable.create<string|undefined>(owner, initial?.url ?? '');
+    const headers = Observable.create(owner, formatHeaders(initial?.headers));
+    const recordPath = Observable.create<string|undefined>(owner, initial?.recordPath ?? '');
+    const paginationType = Observable.create<PaginationType>(owner, pagination?.type ?? 'none');
+    const paginationValue = Observable.create<string|undefined>(owner,
+      pagination?.type === 'next-link' ? pagination.nextPath :
+      pagination?.type === 'page-param' ? pagination.param :
+      '');
+
+    function collectSource(): JsonApiSource {
+      const value = paginationValue.get()?.trim() || '';
+      const type = paginationType.get();
+      return {
+        url: url.get()?.trim() || '',
+        headers: parseHeaders(headers.get()),
+        recordPath: recordPath.get()?.trim() || '',
+        pagination: (
+          type === 'next-link' ? {type, nextPath: value} :
+          type === 'page-param' ? {type, param: value} :
+          undefined
+        ),
+      };
+    }
+
+    return {
+      title: t('Import from JSON API'),
+      body: cssForm(
+        cssField(
+          cssFieldName(t('URL')),
+          textInput(url, {placeholder: 'https://example.com/api/items'}, testId('json-api-url')),
+        ),
+        cssField(
+          cssFieldName(t('Headers, one "Name: value" per line')),
+          cssTextarea(headers, {onInput: true}, {placeholder: 'Authorization: Bearer ...'},
+            testId('json-api-headers')),
+        ),
+        cssField(
+          cssFieldName(t('Path to the list of records')),
+          textInput(recordPath, {placeholder: 'data.items'}, testId('json-api-record-path')),
+        ),
+        cssField(
+          cssFieldName(t('Pagination')),
+          dom('div', select(paginationType, [
+            {value: 'none', label: t('Single page')},
+            {value: 'next-link', label: t('Link to the next page')},
+            {value: 'page-param', label: t('Page number parameter')},
+          ]), testId('json-api-pagination')),
+        ),
+        dom.maybe(use => use(paginationType) !== 'none', () =>
+          cssField(
+            cssFieldName(dom.text(use => use(paginationType) === 'next-link' ?
+              t('Path to the next page link') : t('Name of the page number parameter'))),
+            textInput(paginationValue,
+              dom.attr('placeholder', use => use(paginationType) === 'next-link' ? 'links.next' : 'page'),
+              testId('json-api-pagination-value')),
+          ),
+        ),
+      ),
+      saveLabel: t('Fetch records'),
+      saveDisabled: Computed.create(owner, use =>
+        !use(url)?.trim() || (use(paginationType) !== 'none' && !use(paginationValue)?.trim())),
+      saveFunc: () => onSubmit(collectSource()),
+      width: 'normal',
+    };
+  });
+}
+
+// Formats headers as "Name: value" lines, as parseHeaders() expects them.
+function formatHeaders(headers: {[name: string]: string}|undefined): string {
+  return Object.entries(headers ?? {}).map(([name, value]) => `${name}: ${value}`).join('\n');
+}
+
+// Parses headers entered as "Name: value" lines, skipping lines without a name.
+function parseHeaders(text: string): {[name: string]: string}|undefined {
+  const headers: {[name: string]: string} = {};
+  for (const line of text.split('\n')) {
+    const index = line.indexOf(':');
+    const name = index > 0 ? line.slice(0, index).trim() : '';
+    if (name) {
+      headers[name] = line.slice(index + 1).trim();
+    }
+  }
+  return Object.keys(headers).length > 0 ? headers : undefined;
+}
+
+const cssForm = styled('div', `
+  display: flex;
+  flex-direction: column;
+  gap: 16px;
+`);
+
+const cssField = styled('div', `
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`);
+
+const cssFieldName = styled('div', `
+  color: ${theme.text};
+  font-weight: initial;   /* negate bootstrap */
+`);
+
+const cssTextarea = styled(textarea, `
+  color: ${theme.inputFg};
+  background-color: ${theme.inputBg};
+  border: 1px solid ${theme.inputBorder};
+  border-radius: 4px;
+  outline: none;
+  padding: 8px 14px;
+  height: 72px;
+  resize: vertical;
+
+  &::placeholder {
+    color: ${theme.inputPlaceholderFg};
+  }
+`);
@@ -0,0 +1,479 @@
+import DetailView from 'app/client/components/DetailView';
+import kd from 'app/client/lib/koDom';
+import {makeT} from 'app/client/lib/localization';
+import {DataRowModel} from 'app/client/models/DataRowModel';
+import {ColumnRec, ViewSectionRec} from 'app/client/models/DocModel';
+import {reportError} from 'app/client/models/errors';
+import {setSaveValue} from 'app/client/models/modelUtil';
+import TableModel from 'app/client/models/TableModel';
+import {cssGroupLabel, cssHelp, cssRow} from 'app/client/ui/RightPanelStyles';
+import {theme, vars} from 'app/client/ui2018/cssVars';
+import {IconName} from 'app/client/ui2018/IconList';
+import {icon} from 'app/client/ui2018/icons';
+import {IOptionFull, select} from 'app/client/ui2018/menus';
+import {unstyledButton} from 'app/client/ui2018/unstyled';
+import {choiceToken} from 'app/client/widgets/ChoiceToken';
+import {ChoiceOptions, IChoiceOptions} from 'app/client/widgets/ChoiceTextBox';
+import {CellValue} from 'app/common/DocActions';
+import {getDefaultForType, isBlankValue} from 'app/common/gristTypes';
+import {unwrap} from 'app/common/gutil';
+import {Computed, Disposable, dom, DomContents, domDispose, Holder, makeTestId, MultiHolder,
+        Observable, styled, subscribeElem, UseCB} from 'grainjs';
+import sortBy = require('lodash/sortBy');
+
+const t = makeT('KanbanView');
+
+const testId = makeTestId('test-kanban-');
+
+// Key of the lane for cards with a blank value.
+const BLANK_LANE_KEY = 'blank';
+
+/**
+ * A lane of a Kanban board. Cards whose lane column has `value` are listed in it, and `value` is
+ * written to the lane column of cards dropped in it.
+ */
+interface Lane {
+  key: string;
+  value: CellValue;
+  label: string;
+  // Style of the choice, for lanes of a Choice column.
+  style?: IChoiceOptions;
+  blank?: boolean;
+  // Set for values that are not among the choices or referenced records.
+  invalid?: boolean;
+}
+
+interface Board {
+  lanes: Lane[];
+  // Cards of each lane, by lane key, in the order of the section.
+  cards: Map<string, DataRowModel[]>;
+}
+
+/**
+ * Returns the columns of the section's table that may give the lanes of a Kanban board.
+ */
+export function getLaneColumns(section: ViewSectionRec, use: UseCB = unwrap): ColumnRec[] {
+  const table = use(section.table);
+  return use(use(table.columns).getObservable())
+    .filter(col => !use(col.isHiddenCol) && ['Choice', 'Ref'].includes(use(col.pureType)));
+}
+
+/**
+ * Returns the column whose values are the lanes of a Kanban section: the one saved in its options,
+ * if it's still suitable, or else the first suitable column of the table.
+ */
+export function getLaneColumn(section: ViewSectionRec, use: UseCB = unwrap): ColumnRec|undefined {
+  const columns = getLaneColumns(section, use);
+  const colRef = use(section.optionsObj.prop('laneColRef'));
+  return columns.find(col => col.getRowId() === colRef) ?? columns[0];
+}
+
+function laneKey(value: CellValue): string {
+  // Blank references are 0.
+  return (value === 0 || isBlankValue(value)) ? BLANK_LANE_KEY : JSON.stringify(value);
+}
+
+/**
+ * KanbanView shows records as cards, laid out as in a Card List, in a lane for each value of a
+ * Choice or Reference column. Dragging a card to another lane updates that column.
+ */
+export class KanbanView extends DetailView {
+  public override async scrollToCursor(): Promise<void> {
+    const card = this.viewPane.querySelector('.detailview_record_kanban.active, .detailview_record_kanban.selected');
+    card?.scrollIntoView({block: 'nearest', inline: 'nearest'});
+  }
+
+  protected override buildRecordsDom(): DomContents {
+    return dom.create(KanbanBoard, this, (row: DataRowModel) => this.makeRecord(row));
+  }
+
+  protected override isScrollingList() {
+    return false;
+  }
+}
+
+/**
+ * The lanes of a KanbanView, with their cards. Unlike in a Card List, all cards are rendered, so
+ * each record of the section gets a row model.
+ */
+class KanbanBoard extends Disposable {
+  private _laneColumn = Computed.create(this, use => getLaneColumn(this._view.viewSection, use));
+
+  // Row models of all records of the section, except the "new" one, in order. Kept up to date by
+  // _updateRows().
+  private _rows = Observable.create<DataRowModel[]>(this, []);
+
+  // Row models created by this board, which get reused once unassigned, and disposed with the board.
+  private _rowModels: DataRowModel[] = [];
+
+  // Records of the table referenced by the lane column, as [rowId, label] pairs, if it's a
+  // Reference column.
+  private _refRows = this._buildRefRows();
+
+  private _board = Computed.create(this, (use): Board|null => {
+    const col = use(this._laneColumn);
+    if (!col) { return null; }
+    const colId = use(col.colId);
+    const knownLanes: Lane[] = use(col.pureType) === 'Ref' ?
+      use(this._refRows).map(([rowId, label]) => ({key: laneKey(rowId), value: rowId, label})) :
+      this._getChoiceLanes(col, use);
+    const laneKeys = new Set(knownLanes.map(lane => lane.key));
+    const extraLanes: Lane[] = [];
+    const cards = new Map<string, DataRowModel[]>();
+    for (const row of use(this._rows)) {
+      const cell = row.cells[colId];
+      if (!cell) { continue; }
+      const value = use(cell);
+      let key = laneKey(value);
+      if (key !== BLANK_LANE_KEY && !laneKeys.has(key)) {
+        if (typeof value === 'string' || typeof value === 'number') {
+          extraLanes.push({key, value, label: String(value), invalid: true});
+          laneKeys.add(key);
+        } else {
+          // Errors and other unexpected values are listed with blanks.
+          key = BLANK_LANE_KEY;
+        }
+      }
+      const laneCards = cards.get(key);
+      if (laneCards) { laneCards.push(row); } else { cards.set(key, [row]); }
+    }
+    // The lane for blank values is only shown when some cards are in it.
+    const blankLanes: Lane[] = cards.has(BLANK_LANE_KEY) ? [{
+      key: BLANK_LANE_KEY, value: getDefaultForType(use(col.type)), label: t("No value"), blank: true,
+    }] : [];
+    return {lanes: [...blankLanes, ...knownLanes, ...extraLanes], cards};
+  });
+
+  // Keys of the lanes, which only change when lanes are added, removed or reordered.
+  private _laneKeys: Computed<string[]> = Computed.create(this, (use) => {
+    const keys = use(this._board)?.lanes.map(lane => lane.key) ?? [];
+    const prev = this._laneKeys?.get();
+    return (prev && prev.length === keys.length && prev.every((key, i) => key === keys[i])) ? prev : keys;
+  });
+
+  private _canMove = Computed.create(this, (use) => {
+    const col = use(this._laneColumn);
+    return Boolean(col) && !use(col!.isRealFormula) &&
+      !use(this._view.gristDoc.isReadonly) && !use(this._view.disableEditing);
+  });
+
+  private _canAdd = Computed.create(this, (use) => use(this._canMove) &&
+    !use(this._view.viewSection.disableAddRemoveRows) && !use(this._view.tableModel.tableMetaRow.onDemand));
+
+  // The card being dragged, if any.
+  private _dragged = Observable.create<DataRowModel|null>(this, null);
+
+  constructor(private _view: KanbanView, private _makeCard: (row: DataRowModel) => Element) {
+    super();
+    this.autoDispose(this._view.viewData.getObservable().subscribe(() => this._updateRows()));
+    this._updateRows();
+    this.onDispose(() => {
+      for (const model of this._rowModels) {
+        this._view.viewData.setItemModel(model, null);
+        model.dispose();
+      }
+    });
+  }
+
+  public buildDom() {
+    return cssBoard(
+      dom.maybe(use => !use(this._laneColumn), () =>
+        cssNoLanes(
+          t("Add a Choice or Reference column to the table to show its records in lanes."),
+          testId('no-lanes'),
+        ),
+      ),
+      dom.forEach(this._laneKeys, key => this._buildLane(key)),
+      testId('board'),
+    );
+  }
+
+  private _buildLane(key: string) {
+    const lane = Computed.create(null, use => use(this._board)?.lanes.find(l => l.key === key));
+    const rows = Computed.create(null, use => use(this._board)?.cards.get(key) ?? []);
+    const isDropTarget = Observable.create(null, false);
+    return cssLane(
+      dom.autoDispose(lane),
+      dom.autoDispose(rows),
+      dom.autoDispose(isDropTarget),
+      cssLane.cls('-drop-target', isDropTarget),
+      cssLaneHeader(
+        dom.domComputed(lane, l => l ? this._buildLaneLabel(l) : null),
+        cssLaneCount(dom.text(use => String(use(rows).length)), testId('lane-count')),
+      ),
+      cssLaneCards(elem => this._syncCards(elem, rows)),
+      dom.maybe(this._canAdd, () =>
+        cssAddCard(
+          icon('Plus'), t("Add card"),
+          dom.on('click', () => { this._addCard(lane.get()); }),
+          testId('add-card'),
+        ),
+      ),
+      dom.on('dragover', (ev) => {
+        if (!this._dragged.get()) { return; }
+        ev.preventDefault();
+        ev.dataTransfer!.dropEffect = 'move';
+        isDropTarget.set(true);
+      }),
+      dom.on('dragleave', (ev, elem) => {
+        if (!elem.contains(ev.relatedTarget as Node|null)) { isDropTarget.set(false); }
+      }),
+      dom.on('drop', (ev) => {
+        ev.preventDefault();
+        isDropTarget.set(false);
+        const row = this._dragged.get();
+        const target = lane.get();
+        if (row && target) { this._moveCard(row, target).catch(reportError); }
+      }),
+      testId('lane'),
+    );
+  }
+
+  private _buildLaneLabel(lane: Lane) {
+    const isChoice = this._laneColumn.get()?.pureType.peek() === 'Choice';
+    const label = lane.blank ? t("No value") : lane.label;
+    return cssLaneLabel(
+      isChoice || lane.blank ?
+        choiceToken(label, {...lane.style, invalid: lane.invalid, blank: lane.blank}) :
+        cssRefLabel(label, cssRefLabel.cls('-invalid', Boolean(lane.invalid))),
+      testId('lane-label'),
+    );
+  }
+
+  /**
+   * Keeps the cards in `container` in sync with `rows`. Cards are kept while their row is in the
+   * lane, so that only cards that are added to the lane get built.
+   */
+  private _syncCards(container: HTMLElement, rows: Computed<DataRowModel[]>) {
+    const cards = new Map<DataRowModel, Element>();
+    subscribeElem(container, rows, (rowList) => {
+      const laneRows = new Set(rowList);
+      for (const [row, card] of cards) {
+        if (!laneRows.has(row)) {
+          domDispose(card);
+          card.remove();
+          cards.delete(row);
+        }
+      }
+      for (const row of rowList) {
+        let card = cards.get(row);
+        if (!card) {
+          card = this._buildCard(row);
+          cards.set(row, card);
+        }
+        // Appending an existing card moves it, which keeps cards in the order of rowList.
+        container.appendChild(card);
+      }
+    });
+  }
+
+  private _buildCard(row: DataRowModel): Element {
+    return dom.update(
+      this._makeCard(row),
+      kd.domData('itemModel', row),
+      dom.attr('draggable', use => String(use(this._canMove))),
+      dom.on('dragstart', (ev) => {
+        ev.dataTransfer?.setData('text/plain', String(row.getRowId()));
+        this._dragged.set(row);
+      }),
+      dom.on('dragend', () => this._dragged.set(null)),
+      testId('card'),
+    );
+  }
+
+  private async _moveCard(row: DataRowModel, lane: Lane) {
+    const col = this._laneColumn.get();
+    if (!col) { return; }
+    const colId = col.colId.peek();
+    const rowId = row.getRowId();
+    if (laneKey(row.cells[colId].peek()) === lane.key) { return; }
+    // This is a normal user action, so it can be undone, and access rules apply.
+    await row.updateColValues({[colId]: lane.value});
+    if (!this.isDisposed()) {
+      this._view.setCursorPos({rowId});
+    }
+  }
+
+  private _addCard(lane: Lane|undefined) {
+    const col = this._laneColumn.get();
+    if (!col || !lane) { return; }
+    this._view.insertRow(undefined, {[col.colId.peek()]: lane.value})?.catch(reportError);
+  }
+
+  /**
+   * Gives a row model to each record of the section that doesn't have one yet, and updates _rows.
+   */
+  private _updateRows() {
+    this._assignRowModels();
+    this._rows.set(this._view.viewData.peek()
+      .filter((row): row is DataRowModel => Boolean(row) && !row!._isAddRow.peek()));
+  }
+
+  private _assignRowModels() {
+    const viewData = this._view.viewData;
+    const unassigned = this._rowModels.filter(model => model._index.peek() === null);
+    viewData.peek().forEach((row, index) => {
+      if (row) { return; }
+      let model = unassigned.pop();
+      if (!model) {
+        model = viewData.makeItemModel();
+        this._rowModels.push(model);
+      }
+      viewData.setItemModel(model, index);
+    });
+  }
+
+  private _getChoiceLanes(col: ColumnRec, use: UseCB): Lane[] {
+    const choices: string[] = use(col.widgetOptionsJson.prop('choices')) ?? [];
+    const choiceOptions: ChoiceOptions = use(col.widgetOptionsJson.prop('choiceOptions')) ?? {};
+    return choices
+      .filter(choice => laneKey(choice) !== BLANK_LANE_KEY)
+      .map(choice => ({key: laneKey(choice), value: choice, label: choice, style: choiceOptions[choice]}));
+  }
+
+  private _buildRefRows(): Computed<Array<[number, string]>> {
+    const refTableModel = Computed.create(this, (use) => {
+      const col = use(this._laneColumn);
+      const refTable = col && use(col.pureType) === 'Ref' ? use(col.refTable) : null;
+      return refTable ? this._view.gristDoc.docModel.dataTables[use(refTable.tableId)] : null;
+    });
+
+    // Bumped on any change to the data of the referenced table.
+    const refreshed = Observable.create(this, 0);
+    const holder = Holder.create(this);
+    const listener = (tableModel: TableModel|null) => {
+      const subs = MultiHolder.create(holder);
+      if (!tableModel) { return; }
+      const bump = () => !refreshed.isDisposed() && refreshed.set(refreshed.get() + 1);
+      subs.autoDispose(tableModel.tableData.dataLoadedEmitter.addListener(bump));
+      subs.autoDispose(tableModel.tableData.tableActionEmitter.addListener(bump));
+      tableModel.fetch().catch(reportError);
+    };
+    this.autoDispose(refTableModel.addListener(listener));
+    listener(refTableModel.get());
+
+    return Computed.create(this, refreshed, (use) => {
+      const tableModel = use(refTableModel);
+      const col = use(this._laneColumn);
+      if (!tableModel || !col) { return []; }
+      const tableData = tableModel.tableData;
+      const visibleColId = use(use(col.visibleColModel).colId) || 'id';
+      const formatter = use(col.visibleColFormatter);
+      const rowIds = sortBy(tableData.getRowIds(), rowId => tableData.getValue(rowId, 'manualSort'));
+      return rowIds.map((rowId): [number, string] =>
+        [rowId, formatter.formatAny(tableData.getValue(rowId, visibleColId))]);
+    });
+  }
+}
+
+/**
+ * The options of a Kanban section in the creator panel.
+ */
+export class KanbanConfig extends Disposable {
+  private _laneColRef = Computed.create(this, use => getLaneColumn(this._section, use)?.getRowId() ?? 0)
+    .onWrite(colRef => setSaveValue(this._section.optionsObj.prop('laneColRef'), colRef));
+
+  private _laneColumnOptions = Computed.create(this, use =>
+    getLaneColumns(this._section, use).map((col): IOptionFull<number> => ({
+      value: col.getRowId(),
+      label: use(col.label),
+      icon: (use(col.pureType) === 'Ref' ? 'FieldReference' : 'FieldChoice') as IconName,
+    })));
+
+  constructor(private _section: ViewSectionRec) {
+    super();
+  }
+
+  public buildDom(): DomContents {
+    if (this._section.parentKey() !== 'kanban') { return null; }
+
+    return [
+      cssGroupLabel(t("Lanes")),
+      cssRow(
+        select(this._laneColRef, this._laneColumnOptions, {defaultLabel: t("Pick a column")}),
+        testId('lane-column'),
+      ),
+      cssHelp(t("Cards are grouped in lanes by the values of a Choice or Reference column.")),
+    ];
+  }
+}
+
+const cssBoard = styled('div.flexitem', `
+  display: flex;
+  align-items: flex-start;
+  gap: 12px;
+  overflow: auto;
+  padding-bottom: 8px;
+`);
+
+const cssNoLanes = styled('div', `
+  margin: 16px;
+  color: ${theme.lightText};
+`);
+
+const cssLane = styled('div', `
+  flex: none;
+  display: flex;
+  flex-direction: column;
+  width: 280px;
+  max-height: 100%;
+  border-radius: 4px;
+  border: 1px solid transparent;
+  background-color: ${theme.pageBg};
+  &-drop-target {
+    border-color: ${theme.controlFg};
+  }
+`);
+
+const cssLaneHeader = styled('div', `
+  flex: none;
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 8px;
+  padding: 8px;
+`);
+
+const cssLaneLabel = styled('div', `
+  min-width: 0;
+  overflow: hidden;
+`);
+
+const cssRefLabel = styled('div', `
+  font-weight: 600;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  &-invalid {
+    color: ${theme.errorText};
+  }
+`);
+
+const cssLaneCount = styled('div', `
+  flex: none;
+  color: ${theme.lightText};
+  font-size: ${vars.smallFontSize};
+`);
+
+const cssLaneCards = styled('div', `
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  min-height: 24px;
+  padding: 0 8px;
+  overflow-y: auto;
+`);
+
+const cssAddCard = styled(unstyledButton, `
+  flex: none;
+  display: flex;
+  align-items: center;
+  gap: 4px;
+  margin: 8px;
+  color: ${theme.controlFg};
+  --icon-color: ${theme.controlFg};
+  &:hover {
+    color: ${theme.controlHoverFg};
+    --icon-color: ${theme.controlHoverFg};
+  }
+`);
@@ -8,6 +8,7 @@ var koArray = require('../lib/koArray');
 var commands = require('./commands');
 var {CustomSectionElement} = require('../lib/CustomSectionElement');
 const {ChartConfig} = require('./ChartView');
+const {KanbanConfig} = require('./KanbanView');
 const {Computed, dom: grainjsDom, makeTestId, Holder} = require('grainjs');
 
 const {cssRow, cssWarningBox, cssWarningHeader} = require('app/client/ui/RightPanelStyles');
@@ -49,7 +50,7 @@ function ViewConfigTab(options) {
   );
 
   this.isDetail = this.autoDispose(ko.computed(function() {
-    return ['detail', 'single'].includes(this.viewModel.activeSection().parentKey());
+    return ['detail', 'single', 'kanban'].includes(this.viewModel.activeSection().parentKey());
   }, this));
   this.isChart = this.autoDispose(ko.computed(function() {
     return this.viewModel.activeSection().parentKey() === 'chart';}, this));
@@ -177,6 +178,10 @@ ViewConfigTab.prototype._buildChartConfigDom = function() {
   return grainjsDom.maybe(this.viewModel.activeSection, (section) => grainjsDom.create(ChartConfig, this.gristDoc, section));
 };
 
+ViewConfigTab.prototype._buildKanbanConfigDom = function() {
+  return grainjsDom.maybe(this.viewModel.activeSection, (section) => grainjsDom.create(KanbanConfig, section));
+};
+
 ViewConfigTab.prototype._buildLayoutDom = function() {
   return kd.maybe(() => this.isDetail() ? this.activeSectionData() : null, (sectionData) => {
     const view = sectionData.section.viewInstance.peek();
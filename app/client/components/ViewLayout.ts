@@ -9,6 +9,7 @@ import {buildDuplicateWidgetModal} from 'app/client/components/duplicateWidget';
 import {FormView} from 'app/client/components/Forms/FormView';
 import GridView from 'app/client/components/GridView';
 import {GristDoc} from 'app/client/components/GristDoc';
+import {KanbanView} from 'app/client/components/KanbanView';
 import {Layout} from 'app/client/components/Layout';
 import {LayoutEditor} from 'app/client/components/LayoutEditor';
 import {LayoutTray} from 'app/client/components/LayoutTray';
@@ -53,6 +54,7 @@ const viewSectionTypes: {[key: string]: any} = {
   detail: DetailView,
   chart: ChartView,
   single: DetailView,
+  kanban: KanbanView,
   custom: CustomView,
   form: FormView,
   'custom.calendar': CustomCalendarView,
@@ -537,6 +537,18 @@ export class VirtualDoc extends DisposableWithEvents implements GristDoc {
   public getXlsxActiveViewLink() {
     return '';
   }
+
+  public getJsonLink() {
+    return '';
+  }
+
+  public getNdjsonLink() {
+    return '';
+  }
+
+  public getOdsActiveViewLink() {
+    return '';
+  }
   public async sendTableAction() {}
   public async sendTableActions() {}
   public getActionLog(): ActionLog {
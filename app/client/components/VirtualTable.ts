@@ -369,6 +369,18 @@ class InMemoryGristDoc extends Disposable {
   public getXlsxActiveViewLink() {
     return '';
   }
+
+  public getJsonLink() {
+    return '';
+  }
+
+  public getNdjsonLink() {
+    return '';
+  }
+
+  public getOdsActiveViewLink() {
+    return '';
+  }
   public async clearColumns() {}
   public async convertIsFormula() {}
   public async sendTableAction() {}
@@ -87,6 +87,7 @@ export type CommandName =
   | 'insertCurrentDateTime'
   | 'datepickerFocus'
   | 'openDiscussion'
+  | 'showCellHistory'
   | 'insertRecordBefore'
   | 'insertRecordAfter'
   | 'deleteRecords'
@@ -572,6 +573,10 @@ export const groups: CommendGroupDef[] = [{
       name: 'openDiscussion',
       keys: ['Mod+Alt+M'],
       desc: () => t('Open comment thread'),
+    }, {
+      name: 'showCellHistory',
+      keys: [],
+      desc: () => t('Show the history of changes to the selected cell'),
     }
   ],
 }, {
@@ -58,6 +58,7 @@ declare module "app/client/components/ViewConfigTab" {
     // TODO: these should be made private or renamed.
     public _buildThemeDom(): DomArg;
     public _buildChartConfigDom(): DomContents;
+    public _buildKanbanConfigDom(): DomContents;
     public _buildLayoutDom(): DomArg;
     public _buildCustomTypeItems(): DomArg;
   }
@@ -219,6 +220,8 @@ declare module "app/client/models/DataTableModel" {
       getRowIndex(rowId: UIRowId): number;
       getRowIndexWithSub(rowId: UIRowId): number;
       getRowModel(rowId: UIRowId): T|undefined;
+      makeItemModel(): T;
+      setItemModel(rowModel: T, index: number|null): void;
       setFloatingRowModel(rowModel: T, index: number|null): void;
     }
   }
@@ -1,4 +1,10 @@
+import { AuditLogsAPI } from "app/client/ui/AuditLogsAPI";
 import { ConfigsAPI } from "app/client/ui/ConfigsAPI";
+import {
+  AuditLogEvent,
+  AuditLogEventFilters,
+  AuditLogStreamingStatus,
+} from "app/common/AuditLogs";
 import {
   AuditLogStreamingDestination,
   AuditLogStreamingDestinations,
@@ -9,7 +15,22 @@ import { v4 as uuidv4 } from "uuid";
 
 export interface AuditLogsModel {
   readonly streamingDestinations: Observable<AuditLogStreamingDestinations | null>;
+  /**
+   * How delivery to each streaming destination is going, or null until fetched.
+   */
+  readonly streamingStatuses: Observable<AuditLogStreamingStatus[] | null>;
+  /**
+   * Stored events matching `eventFilters`, most recent first, or null while
+   * they are being fetched.
+   */
+  readonly events: Observable<AuditLogEvent[] | null>;
+  readonly eventFilters: Observable<AuditLogEventFilters>;
+  readonly hasMoreEvents: Observable<boolean>;
+  fetchEvents(): Promise<void>;
+  fetchMoreEvents(): Promise<void>;
+  getEventsDownloadUrl(): string;
   fetchStreamingDestinations(): Promise<void>;
+  fetchStreamingStatuses(): Promise<void>;
   createStreamingDestination(
     properties: Omit<AuditLogStreamingDestination, "id">
   ): Promise<void>;
@@ -24,12 +45,23 @@ export interface AuditLogsModel {
 
 export interface AuditLogsModelOptions {
   configsAPI: ConfigsAPI;
+  auditLogsAPI: AuditLogsAPI;
 }
 
 export class AuditLogsModel extends Disposable implements AuditLogsModel {
   public readonly streamingDestinations: Observable<AuditLogStreamingDestinations | null> =
     Observable.create(this, null);
+  public readonly streamingStatuses: Observable<AuditLogStreamingStatus[] | null> =
+    Observable.create(this, null);
+  public readonly events: Observable<AuditLogEvent[] | null> =
+    Observable.create(this, null);
+  public readonly eventFilters: Observable<AuditLogEventFilters> =
+    Observable.create(this, {});
+  public readonly hasMoreEvents: Observable<boolean> =
+    Observable.create(this, false);
   private readonly _configsAPI = this._options.configsAPI;
+  private readonly _auditLogsAPI = this._options.auditLogsAPI;
+  private _nextEventsCursor: string | null = null;
 
   constructor(private _options: AuditLogsModelOptions) {
     super();
@@ -45,7 +77,7 @@ export class AuditLogsModel extends Disposable implements AuditLogsModel {
         return;
       }
 
-      this.streamingDestinations.set(value);
+      this.streamingDestinations.set(value as AuditLogStreamingDestinations);
     } catch (e) {
       if (e.status === 404) {
         this.streamingDestinations.set([]);
@@ -55,6 +87,48 @@ export class AuditLogsModel extends Disposable implements AuditLogsModel {
     }
   }
 
+  public async fetchStreamingStatuses(): Promise<void> {
+    const statuses = await this._auditLogsAPI.getStreamingStatuses();
+    if (this.isDisposed()) {
+      return;
+    }
+
+    this.streamingStatuses.set(statuses);
+  }
+
+  public async fetchEvents(): Promise<void> {
+    this.events.set(null);
+    const filters = this.eventFilters.get();
+    const { events, nextCursor } = await this._auditLogsAPI.getEvents(filters);
+    if (this.isDisposed() || filters !== this.eventFilters.get()) {
+      return;
+    }
+
+    this._setEvents(events, nextCursor);
+  }
+
+  public async fetchMoreEvents(): Promise<void> {
+    const cursor = this._nextEventsCursor;
+    if (!cursor) {
+      return;
+    }
+
+    const filters = this.eventFilters.get();
+    const { events, nextCursor } = await this._auditLogsAPI.getEvents({
+      ...filters,
+      cursor,
+    });
+    if (this.isDisposed() || filters !== this.eventFilters.get()) {
+      return;
+    }
+
+    this._setEvents([...(this.events.get() ?? []), ...events], nextCursor);
+  }
+
+  public getEventsDownloadUrl(): string {
+    return this._auditLogsAPI.getEventsDownloadUrl(this.eventFilters.get());
+  }
+
   public async createStreamingDestination(
     properties: Omit<AuditLogStreamingDestination, "id">
   ): Promise<void> {
@@ -98,6 +172,12 @@ export class AuditLogsModel extends Disposable implements AuditLogsModel {
     await this._updateStreamingDestinations(newDestinations);
   }
 
+  private _setEvents(events: AuditLogEvent[], nextCursor: string | null) {
+    this._nextEventsCursor = nextCursor;
+    this.events.set(events);
+    this.hasMoreEvents.set(nextCursor !== null);
+  }
+
   private async _updateStreamingDestinations(
     destinations: AuditLogStreamingDestinations
   ): Promise<void> {
@@ -109,6 +189,6 @@ export class AuditLogsModel extends Disposable implements AuditLogsModel {
       return;
     }
 
-    this.streamingDestinations.set(value);
+    this.streamingDestinations.set(value as AuditLogStreamingDestinations);
   }
 }
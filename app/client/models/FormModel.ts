@@ -3,8 +3,9 @@ import {TypedFormData, typedFormDataToJson} from 'app/client/lib/formUtils';
 import {makeT} from 'app/client/lib/localization';
 import {getHomeUrl} from 'app/client/models/AppModel';
 import {urlState} from 'app/client/models/gristUrlState';
-import {Form, FormAPI, FormAPIImpl} from 'app/client/ui/FormAPI';
+import {Form, FormAPI, FormAPIImpl, FormDraft} from 'app/client/ui/FormAPI';
 import {ApiError} from 'app/common/ApiError';
+import {CellValue} from 'app/common/DocActions';
 import {safeJsonParse} from 'app/common/gutil';
 import {bundleChanges, Computed, Disposable, Observable} from 'grainjs';
 
@@ -16,8 +17,14 @@ export interface FormModel {
   readonly submitting: Observable<boolean>;
   readonly submitted: Observable<boolean>;
   readonly error: Observable<string|null>;
+  /** The draft being resumed or last saved, if any. */
+  readonly draft: Observable<FormDraft|null>;
   fetchForm(): Promise<void>;
   submitForm(formData: TypedFormData): Promise<void>;
+  /**
+   * Saves `answers` as a draft, and returns a link to resume it. Later saves update the same draft.
+   */
+  saveDraft(answers: Record<string, CellValue>): Promise<string>;
 }
 
 export class FormModelImpl extends Disposable implements FormModel {
@@ -36,8 +43,11 @@ export class FormModelImpl extends Disposable implements FormModel {
   public readonly submitting = Observable.create<boolean>(this, false);
   public readonly submitted = Observable.create<boolean>(this, false);
   public readonly error = Observable.create<string|null>(this, null);
+  public readonly draft = Observable.create<FormDraft|null>(this, null);
 
   private readonly _formAPI: FormAPI = new FormAPIImpl(getHomeUrl());
+  // Id of the draft being resumed or last saved. It's given by the "draft" URL parameter.
+  private _draftId: string|null = new URLSearchParams(window.location.search).get('draft');
 
   constructor() {
     super();
@@ -50,7 +60,14 @@ export class FormModelImpl extends Disposable implements FormModel {
         this.submitted.set(false);
         this.error.set(null);
       });
-      this.form.set(await this._formAPI.getForm(this._getFetchFormParams()));
+      const [form, draft] = await Promise.all([
+        this._formAPI.getForm(this._getFetchFormParams()),
+        this._fetchDraft(),
+      ]);
+      bundleChanges(() => {
+        this.draft.set(draft);
+        this.form.set(form);
+      });
     } catch (e: unknown) {
       let error: string | undefined;
       if (e instanceof ApiError) {
@@ -96,17 +113,49 @@ export class FormModelImpl extends Disposable implements FormModel {
       // this makes for a tiny bit of a delay allowing users to see the "submitting…" state of the FormRenderer
       await Promise.all([
         this._formAPI.createRecord({
-          ...this._getDocIdOrShareKeyParam(),
-            tableId: form.formTableId,
+          ...this._getFetchFormParams(),
             colValues,
+            draftId: this._draftId ?? undefined,
           }),
         new Promise((resolve) => setTimeout(resolve, 1000)),
       ]);
+      this._draftId = null;
     } finally {
       this.submitting.set(false);
     }
   }
 
+  public async saveDraft(answers: Record<string, CellValue>): Promise<string> {
+    this._draftId = await this._formAPI.saveDraft({
+      ...this._getFetchFormParams(),
+      draftId: this._draftId ?? undefined,
+      answers,
+    });
+    this.draft.set({answers, updatedAt: Date.now()});
+
+    const url = new URL(window.location.href);
+    url.searchParams.set('draft', this._draftId);
+    return url.href;
+  }
+
+  /**
+   * Fetches the draft given by the "draft" URL parameter. A draft that no longer exists (e.g.
+   * because it was submitted) is ignored, and the form starts out blank.
+   */
+  private async _fetchDraft(): Promise<FormDraft|null> {
+    if (!this._draftId) { return null; }
+
+    try {
+      return await this._formAPI.getDraft({...this._getFetchFormParams(), draftId: this._draftId});
+    } catch (e) {
+      if (e instanceof ApiError && e.status === 404) {
+        this._draftId = null;
+        return null;
+      }
+      throw e;
+    }
+  }
+
   private _getFetchFormParams() {
     const {form} = urlState().state.get();
     if (!form) { throw new Error('invalid urlState: undefined "form"'); }
@@ -89,6 +89,9 @@ export interface ViewSectionOptions extends ChartOptions {
   rowHeight?: number;           // Optional limit on height of rows, in lines.
   rowHeightUniform?: boolean;   // Whether rowHeight should make rows uniform height, by expanding shorter rows.
 
+  // Options for KanbanView.
+  laneColRef?: number;          // Choice or Reference column whose values are the lanes of the board.
+
   // Other options.
   customView?: string;    // Configuration for custom widgets in JSON format.
   disabled?: boolean;     // Applies to the "default record card".
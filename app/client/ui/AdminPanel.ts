@@ -14,7 +14,12 @@ import {buildAdminData} from 'app/client/ui/AdminControls';
 import {buildAdminLeftPanel, getPageNames} from 'app/client/ui/AdminLeftPanel';
 import {AdminSection, AdminSectionItem, cssValueLabel, HidableToggle} from 'app/client/ui/AdminPanelCss';
 import {getAdminPanelName} from 'app/client/ui/AdminPanelName';
-import {AuditLogStreamingConfig, getDestinationDisplayName} from 'app/client/ui/AuditLogStreamingConfig';
+import {InstallAuditLogsAPI} from 'app/client/ui/AuditLogsAPI';
+import {
+  AuditLogStreamingConfig,
+  getDestinationDisplayName,
+  isDeliveryFailing,
+} from 'app/client/ui/AuditLogStreamingConfig';
 import {InstallConfigsAPI} from 'app/client/ui/ConfigsAPI';
 import {pagePanels} from 'app/client/ui/PagePanels';
 import {SupportGristPage} from 'app/client/ui/SupportGristPage';
@@ -27,7 +32,7 @@ import {cssLink, makeLinks} from 'app/client/ui2018/links';
 import {toggleSwitch} from 'app/client/ui2018/toggleSwitch';
 import {BootProbeInfo, BootProbeResult, SandboxingBootProbeDetails} from 'app/common/BootProbe';
 import {AdminPanelPage, commonUrls, getPageTitleSuffix, LatestVersionAvailable} from 'app/common/gristUrls';
-import {InstallAPI, InstallAPIImpl} from 'app/common/InstallAPI';
+import {InstallAPI, InstallAPIImpl, NotificationsStatus} from 'app/common/InstallAPI';
 import {InstallAdminInfo} from 'app/common/LoginSessionAPI';
 import {getGristConfig} from 'app/common/urlUtils';
 import * as version from 'app/common/version';
@@ -197,6 +202,9 @@ Please log in as an administrator.`)),
           expandedContent: this._buildSessionSecretNotice(),
         })
       ]),
+      dom.create(AdminSection, t('Notifications'), [
+        dom.create(this._buildEmailNotifications.bind(this)),
+      ]),
       this._buildAuditLogsSection(),
       dom.create(AdminSection, t('Version'), [
         dom.create(AdminSectionItem, {
@@ -400,6 +408,50 @@ GRIST_SESSION_SECRET. Grist falls back to a hard-coded default when it is not se
 in the future as session IDs generated since v1.1.16 are inherently cryptographically secure.');
   }
 
+  private _buildEmailNotifications(owner: MultiHolder) {
+    const status = Observable.create<NotificationsStatus|null>(owner, null);
+    const isSending = Observable.create(owner, false);
+    this._installAPI.getNotificationsStatus()
+      .then(result => !owner.isDisposed() && status.set(result))
+      .catch(reportError);
+
+    const sendTestEmail = async () => {
+      isSending.set(true);
+      try {
+        const {email} = await this._installAPI.sendTestEmail();
+        this._appModel.notifier.createUserMessage(t('Test email sent to {{email}}', {email}));
+      } catch (err) {
+        reportError(err);
+      } finally {
+        if (!owner.isDisposed()) { isSending.set(false); }
+      }
+    };
+
+    return dom.create(AdminSectionItem, {
+      id: 'email-notifications',
+      name: t('Email'),
+      description: t('Invitations and document notifications'),
+      value: dom.domComputed(status, (result) => {
+        if (!result) { return null; }
+        return result.enabled ?
+          cssValueLabel(cssHappyText(t('On'))) :
+          cssValueLabel(cssDangerText(t('Off')));
+      }),
+      expandedContent: [
+        dom('p', t('Grist sends invitations and document notifications by email when an SMTP server is \
+configured through the environment variables GRIST_SMTP_HOST, GRIST_SMTP_PORT, GRIST_SMTP_USERNAME, \
+GRIST_SMTP_PASSWORD and GRIST_EMAIL_FROM. Email templates can be customized in the directory set by \
+GRIST_EMAIL_TEMPLATES_DIR.')),
+        basicButton(
+          t('Send test email'),
+          dom.prop('disabled', use => !use(status)?.enabled || use(isSending)),
+          dom.on('click', sendTestEmail),
+          testId('admin-panel-send-test-email'),
+        ),
+      ],
+    });
+  }
+
   private _buildUpdates(owner: MultiHolder) {
     // We can be in those states:
     enum State {
@@ -722,8 +774,11 @@ Set the environment variable GRIST_ALLOW_AUTOMATIC_VERSION_CHECKING to "true" to
       case "saas": {
         return dom.create(
           AdminSection,
-          [t("Audit Logs"), cssSectionTag(t("New, Enterprise"))],
-          [this._buildLogStreamingSection(deploymentType)]
+          [
+            t("Audit Logs"),
+            cssSectionTag(deploymentType === "core" ? t("New") : t("New, Enterprise")),
+          ],
+          [this._buildLogStreamingSection()]
         );
       }
       default: {
@@ -732,39 +787,20 @@ Set the environment variable GRIST_ALLOW_AUTOMATIC_VERSION_CHECKING to "true" to
     }
   }
 
-  private _buildLogStreamingSection(
-    deploymentType: "core" | "enterprise" | "saas"
-  ) {
-    if (deploymentType === "core") {
-      return dom.create(AdminSectionItem, {
-        id: "log-streaming",
-        name: t("Log Streaming"),
-        expandedContent: t(
-          "You can set up streaming of audit events from Grist to an \
-external security information and event management (SIEM) \
-system if you enable Grist Enterprise. {{contactUsLink}} to \
-learn more.",
-          {
-            contactUsLink: cssLink(
-              { href: commonUrls.contact, target: "_blank" },
-              t("Contact us")
-            ),
-          }
-        ),
-      });
-    } else {
-      const model = new AuditLogsModel({
-        configsAPI: new InstallConfigsAPI(),
-      });
-      model.fetchStreamingDestinations().catch(reportError);
-
-      return dom.create(AdminSectionItem, {
-        id: "log-streaming",
-        name: t("Log Streaming"),
-        value: this._buildLogStreamingStatus(model),
-        expandedContent: dom.create(AuditLogStreamingConfig, model),
-      });
-    }
+  private _buildLogStreamingSection() {
+    const model = new AuditLogsModel({
+      configsAPI: new InstallConfigsAPI(),
+      auditLogsAPI: new InstallAuditLogsAPI(),
+    });
+    model.fetchStreamingDestinations().catch(reportError);
+    model.fetchStreamingStatuses().catch(reportError);
+
+    return dom.create(AdminSectionItem, {
+      id: "log-streaming",
+      name: t("Log Streaming"),
+      value: this._buildLogStreamingStatus(model),
+      expandedContent: dom.create(AuditLogStreamingConfig, model),
+    });
   }
 
   private _buildLogStreamingStatus(model: AuditLogsModel) {
@@ -774,6 +810,8 @@ learn more.",
         return null;
       } else if (destinations.length === 0) {
         return cssValueLabel(cssDangerText(t("Off")));
+      } else if (use(model.streamingStatuses)?.some(isDeliveryFailing)) {
+        return cssValueLabel(cssDangerText(t("Delivery failing")));
       } else {
         const [first, ...rest] = destinations;
         let status: string;
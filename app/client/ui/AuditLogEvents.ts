@@ -0,0 +1,227 @@
+import { makeT } from "app/client/lib/localization";
+import { reportError } from "app/client/models/AppModel";
+import { AuditLogsModel } from "app/client/models/AuditLogsModel";
+import { textInput } from "app/client/ui/inputs";
+import { bigBasicButton, bigPrimaryButton } from "app/client/ui2018/buttons";
+import { theme, vars } from "app/client/ui2018/cssVars";
+import { cssLink } from "app/client/ui2018/links";
+import { loadingSpinner } from "app/client/ui2018/loaders";
+import { select } from "app/client/ui2018/menus";
+import { AuditEventAction, AuditLogEvent, AuditLogEventFilters } from "app/common/AuditLogs";
+import { Disposable, dom, makeTestId, Observable, styled } from "grainjs";
+import moment from "moment";
+
+const t = makeT("AuditLogEvents");
+
+const testId = makeTestId("test-audit-logs-");
+
+/**
+ * Lets site owners browse the audit events stored by Grist, filter them by
+ * user, action, document and date, and download the matching events.
+ */
+export class AuditLogEvents extends Disposable {
+  private readonly _user = Observable.create<string | undefined>(this, "");
+  private readonly _action = Observable.create<AuditEventAction | "">(this, "");
+  private readonly _docId = Observable.create<string | undefined>(this, "");
+  private readonly _since = Observable.create<string | undefined>(this, "");
+  private readonly _until = Observable.create<string | undefined>(this, "");
+
+  constructor(private _model: AuditLogsModel) {
+    super();
+  }
+
+  public buildDom() {
+    return dom("div",
+      cssFilters(
+        cssFilter(
+          cssLabel(t("User email")),
+          textInput(this._user, { placeholder: "name@example.com" }, testId("events-filter-user")),
+        ),
+        cssFilter(
+          cssLabel(t("Action")),
+          select(this._action, [
+            { label: t("All actions"), value: "" },
+            ...AuditEventAction.values.map((action) => ({ label: action, value: action })),
+          ]),
+          testId("events-filter-action"),
+        ),
+        cssFilter(
+          cssLabel(t("Document ID")),
+          textInput(this._docId, testId("events-filter-doc")),
+        ),
+        cssFilter(
+          cssLabel(t("From")),
+          textInput(this._since, { type: "date" }, testId("events-filter-since")),
+        ),
+        cssFilter(
+          cssLabel(t("To")),
+          textInput(this._until, { type: "date" }, testId("events-filter-until")),
+        ),
+      ),
+      cssButtons(
+        bigPrimaryButton(t("Search"),
+          dom.on("click", () => this._search()),
+          testId("events-search"),
+        ),
+        cssLink(t("Download events"),
+          dom.attr("href", (use) => {
+            use(this._model.eventFilters);
+            return this._model.getEventsDownloadUrl();
+          }),
+          { download: "" },
+          testId("events-download"),
+        ),
+      ),
+      dom.domComputed(this._model.events, (events) => {
+        if (events === null) {
+          return cssLoadingSpinner(loadingSpinner());
+        }
+        if (events.length === 0) {
+          return cssEmpty(t("No events found."), testId("events-empty"));
+        }
+        return dom("div",
+          cssEvents(events.map((event) => this._buildEvent(event))),
+          dom.maybe(this._model.hasMoreEvents, () =>
+            bigBasicButton(t("Load more"),
+              dom.on("click", () => this._model.fetchMoreEvents().catch(reportError)),
+              testId("events-load-more"),
+            )
+          ),
+        );
+      }),
+    );
+  }
+
+  private _buildEvent(event: AuditLogEvent) {
+    const expanded = Observable.create(null, false);
+    return cssEvent(
+      dom.autoDispose(expanded),
+      cssEventSummary(
+        cssEventTime(moment(event.timestamp).format("YYYY-MM-DD HH:mm:ss"), testId("event-time")),
+        cssEventAction(event.action, testId("event-action")),
+        cssEventActor(getActorDisplayName(event), testId("event-actor")),
+        dom.on("click", () => expanded.set(!expanded.get())),
+      ),
+      dom.maybe(expanded, () =>
+        cssEventDetails(JSON.stringify(event, null, 2), testId("event-details"))
+      ),
+      testId("event"),
+    );
+  }
+
+  private _search() {
+    const since = this._since.get();
+    const until = this._until.get();
+    const filters: AuditLogEventFilters = {
+      user: this._user.get()?.trim() || undefined,
+      action: this._action.get() || undefined,
+      docId: this._docId.get()?.trim() || undefined,
+      since: since ? moment(since).toISOString() : undefined,
+      // The end date is inclusive, so include events up to the following midnight.
+      until: until ? moment(until).add(1, "day").toISOString() : undefined,
+    };
+    this._model.eventFilters.set(filters);
+    this._model.fetchEvents().catch(reportError);
+  }
+}
+
+function getActorDisplayName({ actor }: AuditLogEvent) {
+  switch (actor.type) {
+    case "user": {
+      return actor.user ? `${actor.user.name} <${actor.user.email}>` : t("User");
+    }
+    case "guest": {
+      return t("Guest");
+    }
+    case "system": {
+      return t("System");
+    }
+    default: {
+      return t("Unknown");
+    }
+  }
+}
+
+const cssFilters = styled("div", `
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(160px, 1fr));
+  gap: 12px;
+  margin-bottom: 16px;
+`);
+
+const cssFilter = styled("div", `
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+`);
+
+const cssLabel = styled("label", `
+  font-weight: bold;
+`);
+
+const cssButtons = styled("div", `
+  display: flex;
+  align-items: center;
+  gap: 16px;
+  margin-bottom: 16px;
+`);
+
+const cssLoadingSpinner = styled("div", `
+  display: flex;
+  justify-content: center;
+  margin: 32px 0px;
+`);
+
+const cssEmpty = styled("div", `
+  color: ${theme.lightText};
+`);
+
+const cssEvents = styled("div", `
+  border: 1px solid ${theme.pagePanelsBorder};
+  border-radius: 3px;
+  margin-bottom: 16px;
+`);
+
+const cssEvent = styled("div", `
+  border-bottom: 1px solid ${theme.pagePanelsBorder};
+  &:last-child {
+    border-bottom: none;
+  }
+`);
+
+const cssEventSummary = styled("div", `
+  display: flex;
+  gap: 12px;
+  padding: 8px;
+  cursor: pointer;
+  &:hover {
+    background-color: ${theme.hover};
+  }
+`);
+
+const cssEventTime = styled("div", `
+  flex: none;
+  color: ${theme.lightText};
+`);
+
+const cssEventAction = styled("div", `
+  flex: none;
+  font-family: ${vars.fontFamilyData};
+`);
+
+const cssEventActor = styled("div", `
+  flex: 1 1 auto;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  text-align: right;
+`);
+
+const cssEventDetails = styled("pre", `
+  margin: 0px;
+  padding: 8px;
+  font-size: ${vars.smallFontSize};
+  white-space: pre-wrap;
+  word-break: break-word;
+  background-color: ${theme.pageBg};
+`);
@@ -1,7 +1,8 @@
 import { handleFormError, handleSubmit } from "app/client/lib/formUtils";
 import { makeT } from "app/client/lib/localization";
+import { getTimeFromNow } from "app/client/lib/timeUtils";
 import { AuditLogsModel } from "app/client/models/AuditLogsModel";
-import { textInput } from "app/client/ui/inputs";
+import { textarea, textInput } from "app/client/ui/inputs";
 import { bigBasicButton, bigPrimaryButton } from "app/client/ui2018/buttons";
 import { theme, vars } from "app/client/ui2018/cssVars";
 import { icon } from "app/client/ui2018/icons";
@@ -9,12 +10,15 @@ import { cssLink } from "app/client/ui2018/links";
 import { loadingSpinner } from "app/client/ui2018/loaders";
 import { menu, menuItem } from "app/client/ui2018/menus";
 import { confirmModal, modal } from "app/client/ui2018/modals";
+import { AuditLogStreamingStatus } from "app/common/AuditLogs";
 import {
+  AuditLogHttpDestinationOptions,
   AuditLogStreamingDestination,
   AuditLogStreamingDestinationName,
   AuditLogStreamingDestinationNameChecker,
 } from "app/common/Config";
 import { commonUrls } from "app/common/gristUrls";
+import { getGristConfig } from "app/common/urlUtils";
 import { Computed, Disposable, dom, makeTestId, Observable, styled } from "grainjs";
 
 const t = makeT("AuditLogStreamingConfig");
@@ -36,24 +40,27 @@ export class AuditLogStreamingConfig extends Disposable {
 
         return dom("div",
           cssParagraph(
-            t(
-              "Set up streaming of audit events from Grist to an external \
+            getGristConfig().deploymentType === "core"
+              ? t(
+                "Set up streaming of audit events from Grist to a syslog \
+server or an HTTP log collector. Streaming to security information and \
+event management (SIEM) systems like Splunk requires Grist Enterprise. \
+{{learnMoreLink}}.",
+                { learnMoreLink: buildLearnMoreLink() }
+              )
+              : t(
+                "Set up streaming of audit events from Grist to an external \
 security information and event management (SIEM) system like \
 Splunk. {{learnMoreLink}}.",
-              {
-                learnMoreLink: cssLink(
-                  { href: commonUrls.helpInstallAuditLogs, target: "_blank" },
-                  t("Learn more")
-                ),
-              }
-            )
+                { learnMoreLink: buildLearnMoreLink() }
+              )
           ),
           dom("div",
             dom.hide(destinations.length === 0),
             dom("div",
               cssSectionHeading(t("Destinations")),
               cssDestinations(
-                dom.forEach(destinations, (destination) =>
+                dom.forEach(destinations, (destination) => cssDestinationItem(
                   cssDestination(
                     cssDestinationName(
                       getDestinationDisplayName(destination.name),
@@ -87,8 +94,14 @@ Splunk. {{learnMoreLink}}.",
                       testId("streaming-destination-options")
                     ),
                     testId("streaming-destination")
-                  )
-                )
+                  ),
+                  dom.domComputed((use) =>
+                    use(this._model.streamingStatuses)?.find((s) => s.destinationId === destination.id),
+                    (status) => status && isDeliveryFailing(status)
+                      ? buildDeliveryError(status)
+                      : null
+                  ),
+                ))
               )
             )
           ),
@@ -139,17 +152,59 @@ Splunk. {{learnMoreLink}}.",
   }
 }
 
+function buildLearnMoreLink() {
+  return cssLink(
+    { href: commonUrls.helpInstallAuditLogs, target: "_blank" },
+    t("Learn more")
+  );
+}
+
 export function getDestinationDisplayName(name: AuditLogStreamingDestinationName) {
   switch (name) {
     case "splunk": {
       return t("Splunk");
     }
+    case "syslog": {
+      return t("Syslog");
+    }
+    case "http": {
+      return t("HTTP");
+    }
     case "other": {
       return t("Other");
     }
   }
 }
 
+/**
+ * Returns whether the last attempt to deliver events to a destination failed.
+ */
+export function isDeliveryFailing({ lastDeliveredAt, lastFailedAt }: AuditLogStreamingStatus) {
+  return lastFailedAt !== null && (lastDeliveredAt === null || lastFailedAt > lastDeliveredAt);
+}
+
+function buildDeliveryError({ lastFailedAt, lastError }: AuditLogStreamingStatus) {
+  return cssDeliveryError(
+    t("Delivery failed {{timeAgo}}: {{error}}", {
+      timeAgo: getTimeFromNow(lastFailedAt!),
+      error: lastError,
+    }),
+    testId("streaming-destination-error")
+  );
+}
+
+/**
+ * Returns the kinds of destinations that can be set up. Streaming to Splunk
+ * and other SIEM systems requires Grist Enterprise.
+ */
+function getAvailableDestinationNames(): AuditLogStreamingDestinationName[] {
+  if (getGristConfig().deploymentType === "core") {
+    return ["syslog", "http"];
+  } else {
+    return ["splunk", "syslog", "http", "other"];
+  }
+}
+
 interface DestinationFormOptions {
   title: string;
   submitButtonLabel: string;
@@ -166,6 +221,16 @@ function showDestinationForm(options: DestinationFormOptions) {
     );
     const url = Observable.create<string>(owner, destination?.url ?? "");
     const token = Observable.create<string>(owner, destination?.token ?? "");
+    const http = destination?.http;
+    const batchSize = Observable.create(owner, http?.batchSize?.toString() ?? "");
+    const flushIntervalMs = Observable.create(owner, http?.flushIntervalMs?.toString() ?? "");
+    const maxRetries = Observable.create(owner, http?.maxRetries?.toString() ?? "");
+    const headers = Observable.create(owner,
+      Object.entries(http?.headers ?? {}).map(([header, value]) => `${header}: ${value}`).join("\n")
+    );
+    const fieldMapping = Observable.create(owner,
+      http?.fieldMapping ? JSON.stringify(http.fieldMapping, null, 2) : ""
+    );
     const pending = Observable.create(owner, false);
     const disabled = Computed.create(owner, (use) => !use(name) || !use(url));
     const error = Observable.create(owner, "");
@@ -185,65 +250,117 @@ function showDestinationForm(options: DestinationFormOptions) {
           disabled,
           onSubmit: (fields) => onSubmit(toStreamingDestination(fields)),
           onSuccess: () => ctl.close(),
-          onError: (e) => handleFormError(e, error),
+          onError: (e) => e instanceof InvalidDestinationError
+            ? error.set(e.message)
+            : handleFormError(e, error),
         }),
         cssLabelAndInput(
           cssLabel(t("Destination")),
           cssCards(
-            cssCard(
-              cssCard.cls("-selected", use => use(name) === "splunk"),
-              { for: "splunk" },
-              cssCardInput(
-                {
-                  id: "splunk",
-                  name: "name",
-                  type: "radio",
-                  value: "splunk",
-                },
-                dom.prop("checked", (use) => use(name) === "splunk"),
-                dom.on("change", handleDestinationChange),
-              ),
-              cssCardContent(
-                cssCardImage({src: "img/audit-logs-splunk.svg"})
-              )
-            ),
-            cssCard(
-              cssCard.cls("-selected", use => use(name) === "other"),
-              { for: "other" },
-              cssCardInput(
-                {
-                  id: "other",
-                  name: "name",
-                  type: "radio",
-                  value: "other",
-                },
-                dom.prop("checked", (use) => use(name) === "other"),
-                dom.on("change", handleDestinationChange),
-              ),
-              cssCardContent(
-                cssCardImage({src: "img/audit-logs-other.svg"})
+            getAvailableDestinationNames().map((value) =>
+              cssCard(
+                cssCard.cls("-selected", use => use(name) === value),
+                { for: value },
+                cssCardInput(
+                  {
+                    id: value,
+                    name: "name",
+                    type: "radio",
+                    value,
+                  },
+                  dom.prop("checked", (use) => use(name) === value),
+                  dom.on("change", handleDestinationChange),
+                ),
+                cssCardContent(
+                  cssCardImage({src: `img/audit-logs-${value}.svg`})
+                )
               )
             ),
           )
         ),
         cssLabelAndInput(
           cssLabel(t("URL"), { for: "url" }),
-          cssTextInput(url, {
-            id: "url",
-            name: "url",
-            type: "url",
-            placeholder: t("Enter URL"),
-          })
+          cssTextInput(url,
+            {
+              id: "url",
+              name: "url",
+              type: "url",
+            },
+            dom.attr("placeholder", (use) => use(name) === "syslog"
+              ? "tls://syslog.example.com:6514"
+              : t("Enter URL")
+            ),
+          ),
+          dom.maybe((use) => use(name) === "syslog", () =>
+            cssHint(t("Use a udp://, tcp:// or tls:// URL to choose how messages are sent."))
+          ),
         ),
-        cssLabelAndInput(
-          cssLabel(t("Token"), { for: "token" }),
-          cssTextInput(token, {
-            id: "token",
-            name: "token",
-            type: "text",
-            placeholder: t("Enter token"),
-          })
+        dom.maybe((use) => use(name) !== "syslog", () =>
+          cssLabelAndInput(
+            cssLabel(t("Token"), { for: "token" }),
+            cssTextInput(token, {
+              id: "token",
+              name: "token",
+              type: "text",
+              placeholder: t("Enter token"),
+            })
+          )
         ),
+        dom.maybe((use) => use(name) === "http", () => [
+          cssInputRow(
+            cssLabelAndInput(
+              cssLabel(t("Batch size"), { for: "batchSize" }),
+              cssTextInput(batchSize, {
+                id: "batchSize",
+                name: "batchSize",
+                type: "number",
+                min: "1",
+                placeholder: "100",
+              })
+            ),
+            cssLabelAndInput(
+              cssLabel(t("Flush interval (ms)"), { for: "flushIntervalMs" }),
+              cssTextInput(flushIntervalMs, {
+                id: "flushIntervalMs",
+                name: "flushIntervalMs",
+                type: "number",
+                min: "0",
+                placeholder: "5000",
+              })
+            ),
+            cssLabelAndInput(
+              cssLabel(t("Retries"), { for: "maxRetries" }),
+              cssTextInput(maxRetries, {
+                id: "maxRetries",
+                name: "maxRetries",
+                type: "number",
+                min: "0",
+                placeholder: "3",
+              })
+            ),
+          ),
+          cssLabelAndInput(
+            cssLabel(t("Headers"), { for: "headers" }),
+            cssTextArea(headers, { onInput: true }, {
+              id: "headers",
+              name: "headers",
+              rows: "3",
+              placeholder: "X-Api-Key: 1234",
+            }),
+            cssHint(t("One header per line, as \"Name: value\"."))
+          ),
+          cssLabelAndInput(
+            cssLabel(t("Field mapping"), { for: "fieldMapping" }),
+            cssTextArea(fieldMapping, { onInput: true }, {
+              id: "fieldMapping",
+              name: "fieldMapping",
+              rows: "4",
+              placeholder: '{"time": "timestamp", "user": "actor.user.email"}',
+            }),
+            cssHint(t("A JSON object mapping fields to send to properties of each event. \
+Leave empty to send events whole."))
+          ),
+        ]),
         cssMessages(
           dom.maybe(error, (e) => cssError(e)),
         ),
@@ -266,17 +383,89 @@ function showDestinationForm(options: DestinationFormOptions) {
   });
 }
 
+class InvalidDestinationError extends Error {}
+
 function toStreamingDestination(formData: Record<string, string>) {
   const { name, url, token } = formData;
   assertStreamingDestinationName(name);
+  // Properties that don't apply to the destination are set to undefined, so
+  // that they are removed when editing a destination of another kind.
   const destination: Omit<AuditLogStreamingDestination, "id"> = {
     name,
     url,
     token,
+    http: name === "http" ? toHttpDestinationOptions(formData) : undefined,
   };
   return destination;
 }
 
+function toHttpDestinationOptions(formData: Record<string, string>): AuditLogHttpDestinationOptions {
+  const { batchSize, flushIntervalMs, maxRetries, headers, fieldMapping } = formData;
+  return {
+    batchSize: parseInteger(batchSize, t("Batch size"), 1),
+    flushIntervalMs: parseInteger(flushIntervalMs, t("Flush interval (ms)"), 0),
+    maxRetries: parseInteger(maxRetries, t("Retries"), 0),
+    headers: parseHeaders(headers),
+    fieldMapping: parseFieldMapping(fieldMapping),
+  };
+}
+
+function parseInteger(value: string, label: string, min: number): number | undefined {
+  if (!value.trim()) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) {
+    throw new InvalidDestinationError(
+      t("{{field}} must be a whole number no less than {{min}}.", { field: label, min })
+    );
+  }
+  return number;
+}
+
+function parseHeaders(value: string): Record<string, string> | undefined {
+  const lines = value.split("\n").filter((line) => line.trim());
+  if (lines.length === 0) {
+    return undefined;
+  }
+
+  const headers: Record<string, string> = {};
+  for (const line of lines) {
+    const index = line.indexOf(":");
+    const header = line.slice(0, index).trim();
+    if (index === -1 || !header) {
+      throw new InvalidDestinationError(t("Invalid header: {{header}}", { header: line }));
+    }
+    headers[header] = line.slice(index + 1).trim();
+  }
+  return headers;
+}
+
+function parseFieldMapping(value: string): Record<string, string> | undefined {
+  if (!value.trim()) {
+    return undefined;
+  }
+
+  let mapping: unknown;
+  try {
+    mapping = JSON.parse(value);
+  } catch {
+    mapping = null;
+  }
+  if (
+    typeof mapping !== "object" ||
+    mapping === null ||
+    Array.isArray(mapping) ||
+    Object.values(mapping).some((path) => typeof path !== "string")
+  ) {
+    throw new InvalidDestinationError(
+      t("Field mapping must be a JSON object whose values are event property paths.")
+    );
+  }
+  return mapping as Record<string, string>;
+}
+
 function assertStreamingDestinationName(name: string): asserts name is AuditLogStreamingDestinationName {
   AuditLogStreamingDestinationNameChecker.check(name);
 }
@@ -304,6 +493,18 @@ const cssDestinations = styled("div", `
   margin-bottom: 16px;
 `);
 
+const cssDestinationItem = styled("div", `
+  display: flex;
+  flex-direction: column;
+`);
+
+const cssDeliveryError = styled("div", `
+  color: ${theme.errorText};
+  font-size: ${vars.smallFontSize};
+  padding: 0 4px;
+  overflow-wrap: anywhere;
+`);
+
 const cssDestination = styled("div", `
   display: flex;
   column-gap: 8px;
@@ -445,6 +646,34 @@ const cssTextInput = styled(textInput, `
   padding: 8px;
 `);
 
+const cssTextArea = styled(textarea, `
+  width: 100%;
+  padding: 8px;
+  border: 1px solid ${theme.inputBorder};
+  border-radius: 4px;
+  outline: none;
+  resize: vertical;
+  font-family: ${vars.fontFamilyData};
+  color: ${theme.inputFg};
+  background-color: ${theme.inputBg};
+
+  &::placeholder {
+    color: ${theme.inputPlaceholderFg};
+  }
+`);
+
+const cssInputRow = styled("div", `
+  display: grid;
+  grid-template-columns: repeat(3, 1fr);
+  column-gap: 8px;
+`);
+
+const cssHint = styled("div", `
+  color: ${theme.lightText};
+  font-size: ${vars.smallFontSize};
+  margin-top: 4px;
+`);
+
 const cssMessages = styled("div", `
   text-align: center;
   min-height: 15px;
@@ -0,0 +1,88 @@
+import { getHomeUrl } from "app/client/models/AppModel";
+import {
+  AuditLogEventFilters,
+  AuditLogEventsPage,
+  AuditLogEventsQuery,
+  AuditLogStreamingStatus,
+} from "app/common/AuditLogs";
+import { BaseAPI, IOptions } from "app/common/BaseAPI";
+import { addCurrentOrgToPath } from "app/common/urlUtils";
+
+export interface AuditLogsAPI {
+  getEvents(query: AuditLogEventsQuery): Promise<AuditLogEventsPage>;
+  getEventsDownloadUrl(filters: AuditLogEventFilters): string;
+  getStreamingStatuses(): Promise<AuditLogStreamingStatus[]>;
+}
+
+export class InstallAuditLogsAPI extends BaseAPI implements AuditLogsAPI {
+  constructor(private _homeUrl: string = getHomeUrl(), options: IOptions = {}) {
+    super(options);
+  }
+
+  public getEvents(query: AuditLogEventsQuery): Promise<AuditLogEventsPage> {
+    return this.requestJson(
+      `${this._url}/api/install/audit-logs/events${buildQueryString(query)}`,
+      {
+        method: "GET",
+      }
+    );
+  }
+
+  public getEventsDownloadUrl(filters: AuditLogEventFilters): string {
+    return `${this._url}/api/install/audit-logs/events/download${buildQueryString(filters)}`;
+  }
+
+  public getStreamingStatuses(): Promise<AuditLogStreamingStatus[]> {
+    return this.requestJson(`${this._url}/api/install/audit-logs/streaming-statuses`, {
+      method: "GET",
+    });
+  }
+
+  private get _url(): string {
+    return addCurrentOrgToPath(this._homeUrl);
+  }
+}
+
+export class OrgAuditLogsAPI extends BaseAPI implements AuditLogsAPI {
+  constructor(
+    private _org: number | string,
+    private _homeUrl: string = getHomeUrl(),
+    options: IOptions = {}
+  ) {
+    super(options);
+  }
+
+  public getEvents(query: AuditLogEventsQuery): Promise<AuditLogEventsPage> {
+    return this.requestJson(
+      `${this._url}/api/orgs/${this._org}/audit-logs/events${buildQueryString(query)}`,
+      {
+        method: "GET",
+      }
+    );
+  }
+
+  public getEventsDownloadUrl(filters: AuditLogEventFilters): string {
+    return `${this._url}/api/orgs/${this._org}/audit-logs/events/download${buildQueryString(filters)}`;
+  }
+
+  public getStreamingStatuses(): Promise<AuditLogStreamingStatus[]> {
+    return this.requestJson(`${this._url}/api/orgs/${this._org}/audit-logs/streaming-statuses`, {
+      method: "GET",
+    });
+  }
+
+  private get _url(): string {
+    return addCurrentOrgToPath(this._homeUrl);
+  }
+}
+
+function buildQueryString(query: AuditLogEventsQuery): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== "") {
+      params.set(key, String(value));
+    }
+  }
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : "";
+}
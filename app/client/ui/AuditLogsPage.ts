@@ -5,6 +5,8 @@ import { App } from "app/client/ui/App";
 import { AuditLogsModel } from "app/client/models/AuditLogsModel";
 import { urlState } from "app/client/models/gristUrlState";
 import { AppHeader } from "app/client/ui/AppHeader";
+import { AuditLogEvents } from "app/client/ui/AuditLogEvents";
+import { OrgAuditLogsAPI } from "app/client/ui/AuditLogsAPI";
 import { AuditLogStreamingConfig } from "app/client/ui/AuditLogStreamingConfig";
 import { OrgConfigsAPI } from "app/client/ui/ConfigsAPI";
 import { createForbiddenPage, createNotFoundPage } from "app/client/ui/errorPages";
@@ -15,7 +17,7 @@ import { cssBreadcrumbs, separator } from "app/client/ui2018/breadcrumbs";
 import { textButton } from "app/client/ui2018/buttons";
 import { theme, vars } from "app/client/ui2018/cssVars";
 import { cssLink } from "app/client/ui2018/links";
-import { commonUrls, getPageTitleSuffix } from "app/common/gristUrls";
+import { getPageTitleSuffix } from "app/common/gristUrls";
 import { getGristConfig } from "app/common/urlUtils";
 import {
   Computed,
@@ -34,6 +36,7 @@ const testId = makeTestId("test-audit-logs-page-");
 export class AuditLogsPage extends Disposable {
   private readonly _model = new AuditLogsModel({
     configsAPI: new OrgConfigsAPI(this._appModel.currentOrg!.id),
+    auditLogsAPI: new OrgAuditLogsAPI(this._appModel.currentOrg!.id),
   });
   private readonly _currentPage = Computed.create(
     this,
@@ -98,6 +101,10 @@ export class AuditLogsPage extends Disposable {
             siteName: this._appModel.currentOrgName,
           })
         ),
+        cssSection(
+          cssSectionTitle(t("Events")),
+          cssSectionBody(this._buildEvents())
+        ),
         cssSection(
           cssSectionTitle(t("Log streaming")),
           cssSectionBody(this._buildLogStreamingConfig())
@@ -106,21 +113,14 @@ export class AuditLogsPage extends Disposable {
     );
   }
 
+  private _buildEvents() {
+    this._model.fetchEvents().catch(reportError);
+    return dom.create(AuditLogEvents, this._model);
+  }
+
   private _buildLogStreamingConfig() {
     const { deploymentType } = getGristConfig();
-    if (deploymentType === "core") {
-      return t(
-        "You can set up streaming of audit events from Grist to an external \
-SIEM (security information and event management) system if you \
-enable Grist Enterprise. {{contactUsLink}} to learn more.",
-        {
-          contactUsLink: cssLink(
-            { href: commonUrls.contact, target: "_blank" },
-            t("Contact us")
-          ),
-        }
-      );
-    } else if (
+    if (
       deploymentType === "saas" &&
       !this._appModel.currentFeatures?.teamAuditLogs
     ) {
@@ -137,6 +137,7 @@ SIEM (security information and event management) system if you \
       );
     } else {
       this._model.fetchStreamingDestinations().catch(reportError);
+      this._model.fetchStreamingStatuses().catch(reportError);
       return dom.create(AuditLogStreamingConfig, this._model);
     }
   }
@@ -177,6 +178,9 @@ const cssPageTitle = styled("div", `
 
 const cssSection = styled("div", `
   font-size: ${vars.introFontSize};
+  & + & {
+    margin-top: 40px;
+  }
 `);
 
 const cssSectionTitle = styled("div", `
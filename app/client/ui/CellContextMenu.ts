@@ -58,7 +58,10 @@ export function CellContextMenu(cellOptions: ICellContextMenu, colOptions: IMult
         menuItemCmd(allCommands.filterByThisCellValue, t("Filter by this value")),
         menuItemCmd(allCommands.openDiscussion, t('Comment'), dom.cls('disabled', (
          isReadonly || numRows === 0 || numColumns === 0 || onlyAddRowSelected
-        )))
+        ))),
+        menuItemCmd(allCommands.showCellHistory, t('Cell history'), dom.cls('disabled', (
+         numRows === 0 || numColumns === 0 || Boolean(onlyAddRowSelected)
+        ))),
       ]
     ),
 
@@ -0,0 +1,158 @@
+import {GristDoc} from 'app/client/components/GristDoc';
+import {makeT} from 'app/client/lib/localization';
+import {ReferenceUtils} from 'app/client/lib/ReferenceUtils';
+import {getTimeFromNow} from 'app/client/lib/timeUtils';
+import {reportError} from 'app/client/models/errors';
+import {ViewFieldRec} from 'app/client/models/entities/ViewFieldRec';
+import {bigBasicButton, textButton} from 'app/client/ui2018/buttons';
+import {testId, theme, vars} from 'app/client/ui2018/cssVars';
+import {loadingSpinner} from 'app/client/ui2018/loaders';
+import {cssModalBody, cssModalButtons, cssModalTitle, cssModalWidth, modal} from 'app/client/ui2018/modals';
+import {CellHistoryEntry} from 'app/common/CellHistory';
+import {CellValue} from 'app/common/DocActions';
+import {isFullReferencingType, isList} from 'app/common/gristTypes';
+import {dom, Observable, styled} from 'grainjs';
+import moment from 'moment-timezone';
+
+const t = makeT('CellHistory');
+
+/**
+ * Opens a modal listing past values of the cell in the given field and row, with who changed
+ * them and when, as found in the document's action history. Editors may restore the value a
+ * cell had before any of the listed changes; the restore is sent as a new action, so it can
+ * itself be undone.
+ */
+export function showCellHistory(options: {gristDoc: GristDoc, field: ViewFieldRec, rowId: number}) {
+  const {gristDoc, field, rowId} = options;
+  const column = field.column.peek();
+  const tableId = column.table.peek().tableId.peek();
+  const colId = column.colId.peek();
+  const canRestore = !gristDoc.isReadonly.get() && !column.isRealFormula.peek() && !field.disableEditData.peek();
+
+  modal((ctl, owner) => {
+    const entries = Observable.create<CellHistoryEntry[]|null>(owner, null);
+    gristDoc.docComm.getCellHistory({tableId, colId, rowId})
+      .then(result => { if (!owner.isDisposed()) { entries.set(result); } })
+      .catch(err => { ctl.close(); reportError(err); });
+
+    const refUtils = isFullReferencingType(column.type.peek()) ? ReferenceUtils.create(owner, field, gristDoc) : null;
+    const formatValue = (value: CellValue): string => {
+      if (!refUtils) { return field.formatter.peek().formatAny(value); }
+      const ids = refUtils.isRefList && isList(value) ? value.slice(1) : [value];
+      return ids.map(id => refUtils.idToText(id)).join(', ');
+    };
+
+    const restore = async (value: CellValue) => {
+      await gristDoc.docData.sendAction(['UpdateRecord', tableId, rowId, {[colId]: value}]);
+      ctl.close();
+    };
+
+    return [
+      cssModalWidth('fixed-wide'),
+      cssModalTitle(t("Cell history"), testId('cell-history-title')),
+      cssModalBody(
+        dom.domComputed(entries, (list) => {
+          if (!list) { return cssSpinner(loadingSpinner()); }
+          if (!list.length) {
+            return cssEmpty(t("No changes to this cell were found in recent history."),
+              testId('cell-history-empty'));
+          }
+          return cssEntries(
+            list.map(entry => cssEntry(
+              cssEntryHeader(
+                cssUser(entry.user || t("Unknown user"), testId('cell-history-user')),
+                cssTime(getTimeFromNow(entry.time), dom.attr('title', moment(entry.time).format('llll')),
+                  testId('cell-history-time')),
+              ),
+              cssChange(
+                buildValue(entry, 'before', formatValue),
+                cssArrow('→'),
+                buildValue(entry, 'after', formatValue),
+              ),
+              (canRestore && 'before' in entry) ?
+                textButton(t("Restore previous value"),
+                  dom.on('click', () => restore(entry.before!).catch(reportError)),
+                  testId('cell-history-restore')) :
+                null,
+              testId('cell-history-entry'),
+            )),
+          );
+        }),
+      ),
+      cssModalButtons(
+        bigBasicButton(t("Close"), dom.on('click', () => ctl.close()), testId('cell-history-close')),
+      ),
+    ];
+  });
+}
+
+function buildValue(entry: CellHistoryEntry, which: 'before'|'after', formatValue: (value: CellValue) => string) {
+  if (which === 'before' && entry.rowAdded) {
+    return cssMissingValue(t("(new row)"), testId(`cell-history-${which}`));
+  }
+  if (!(which in entry)) {
+    return cssMissingValue(t("(unknown)"), testId(`cell-history-${which}`));
+  }
+  return cssValue(formatValue(entry[which]!), testId(`cell-history-${which}`));
+}
+
+const cssSpinner = styled('div', `
+  display: flex;
+  justify-content: center;
+  padding: 16px;
+`);
+
+const cssEmpty = styled('div', `
+  color: ${theme.lightText};
+`);
+
+const cssEntries = styled('div', `
+  max-height: 50vh;
+  overflow-y: auto;
+`);
+
+const cssEntry = styled('div', `
+  padding: 8px 0;
+  border-bottom: 1px solid ${theme.pagePanelsBorder};
+  &:last-child {
+    border-bottom: none;
+  }
+`);
+
+const cssEntryHeader = styled('div', `
+  display: flex;
+  justify-content: space-between;
+  margin-bottom: 4px;
+`);
+
+const cssUser = styled('div', `
+  font-weight: bold;
+  color: ${theme.text};
+`);
+
+const cssTime = styled('div', `
+  color: ${theme.lightText};
+`);
+
+const cssChange = styled('div', `
+  display: flex;
+  align-items: baseline;
+  gap: 8px;
+  margin-bottom: 4px;
+`);
+
+const cssArrow = styled('div', `
+  color: ${theme.lightText};
+`);
+
+const cssValue = styled('div', `
+  font-family: ${vars.fontFamilyData};
+  color: ${theme.text};
+  white-space: pre-wrap;
+  word-break: break-word;
+`);
+
+const cssMissingValue = styled('div', `
+  font-style: italic;
+  color: ${theme.lightText};
+`);
@@ -8,8 +8,10 @@ import {buildConfigContainer} from 'app/client/ui/RightPanelUtils';
 import {buttonSelect} from 'app/client/ui2018/buttonSelect';
 import {testId, theme, vars} from 'app/client/ui2018/cssVars';
 import {icon} from 'app/client/ui2018/icons';
-import {menu, menuItemLink} from 'app/client/ui2018/menus';
+import {menu, menuDivider, menuItem, menuItemLink} from 'app/client/ui2018/menus';
+import {promptModal} from 'app/client/ui2018/modals';
 import {buildUrlId, parseUrlId} from 'app/common/gristUrls';
+import {isOwner} from 'app/common/roles';
 import {StringUnion} from 'app/common/StringUnion';
 import {DocSnapshot} from 'app/common/UserAPI';
 import {Disposable, dom, IDomComponent, MultiHolder, Observable, styled} from 'grainjs';
@@ -71,15 +73,33 @@ export class DocHistory extends Disposable implements IDomComponent {
     const snapshotsDenied = Observable.create<boolean>(owner, false);
     const userApi = this._docPageModel.appModel.api;
     const docApi = userApi.getDocAPI(origUrlId);
-    docApi.getSnapshots().then(result =>
-      snapshots.isDisposed() || snapshots.set(result.snapshots)).catch(err => {
-        snapshotsDenied.set(true);
-        // "cannot confirm access" is what we expect if snapshots
-        // are denied because of access rules.
-        if (!String(err).match(/cannot confirm access/)) {
-          reportError(err);
-        }
-      });
+    function fetchSnapshots() {
+      docApi.getSnapshots().then(result =>
+        snapshots.isDisposed() || snapshots.set(result.snapshots)).catch(err => {
+          snapshotsDenied.set(true);
+          // "cannot confirm access" is what we expect if snapshots
+          // are denied because of access rules.
+          if (!String(err).match(/cannot confirm access/)) {
+            reportError(err);
+          }
+        });
+    }
+    fetchSnapshots();
+
+    // Owners may label snapshots, and pin them to keep them from being pruned.
+    const canManage = isOwner(doc);
+    function editLabel(snapshot: DocSnapshot) {
+      promptModal(t("Snapshot label"), async (label) => {
+        await docApi.labelSnapshot(snapshot.snapshotId, label.trim() || null);
+        fetchSnapshots();
+      }, t("Save"), snapshot.metadata?.label, t("e.g. Q3 close"));
+    }
+    function setPinned(snapshot: DocSnapshot, pinned: boolean) {
+      (pinned ? docApi.pinSnapshot(snapshot.snapshotId) : docApi.unpinSnapshot(snapshot.snapshotId))
+        .then(fetchSnapshots)
+        .catch(reportError);
+    }
+
     return dom(
       'div',
       {tabIndex: '-1'},  // Voodoo needed to allow copying text.
@@ -104,15 +124,31 @@ export class DocHistory extends Disposable implements IDomComponent {
               snapshot.snapshotId === doc.idParts.snapshotId ||
               (compareSnapshotId && snapshot.snapshotId === compareSnapshotId)
             )),
-            dom('div',
-              cssDatePart(modified.format('ddd ll')), ' ',
-              cssDatePart(modified.format('LT'))
+            cssSnapshotInfo(
+              dom('div',
+                cssDatePart(modified.format('ddd ll')), ' ',
+                cssDatePart(modified.format('LT')),
+              ),
+              dom.maybe(snapshot.metadata?.label, label =>
+                cssSnapshotLabel(label, testId('doc-history-snapshot-label'))),
             ),
+            snapshot.metadata?.pinned ? cssPinIcon('PinSmall', testId('doc-history-snapshot-pinned')) : null,
             cssMenuDots(icon('Dots'),
               menu(() => [
                   menuItemLink(setLink(snapshot), t("Open snapshot")),
                   menuItemLink(setLink(snapshot, origUrlId), t("Compare to current")),
                   prevSnapshot && menuItemLink(setLink(prevSnapshot, snapshot.docId), t("Compare to previous")),
+                  ...(canManage ? [
+                    menuDivider(),
+                    menuItem(() => editLabel(snapshot),
+                      snapshot.metadata?.label ? t("Edit label") : t("Add label"),
+                      testId('doc-history-label-snapshot')),
+                    snapshot.metadata?.pinned ?
+                      menuItem(() => setPinned(snapshot, false), t("Unpin snapshot"),
+                        testId('doc-history-unpin-snapshot')) :
+                      menuItem(() => setPinned(snapshot, true), t("Pin snapshot"),
+                        testId('doc-history-pin-snapshot')),
+                  ] : []),
                 ],
                 {placement: 'bottom-end', parentSelectorToMark: '.' + cssSnapshotCard.className}
               ),
@@ -170,6 +206,22 @@ const cssDatePart = styled('span', `
   display: inline-block;
 `);
 
+const cssSnapshotInfo = styled('div', `
+  flex: 1 1 auto;
+  min-width: 0;
+`);
+
+const cssSnapshotLabel = styled('div', `
+  margin-top: 4px;
+  font-weight: 600;
+  overflow-wrap: anywhere;
+`);
+
+const cssPinIcon = styled(icon, `
+  flex: none;
+  margin-left: 8px;
+`);
+
 const cssMenuDots = styled('div', `
   flex: none;
   margin: 0 4px 0 auto;
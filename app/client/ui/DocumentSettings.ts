@@ -17,6 +17,7 @@ import {KoSaveableObservable} from 'app/client/models/modelUtil';
 import {AdminSection, AdminSectionItem} from 'app/client/ui/AdminPanelCss';
 import {openFilePicker} from 'app/client/ui/FileDialog';
 import {buildNotificationsConfig} from 'app/client/ui/Notifications';
+import {buildShareLinksConfig} from 'app/client/ui/ShareLinks';
 import {hoverTooltip, showTransientTooltip, withInfoTooltip} from 'app/client/ui/tooltips';
 import {bigBasicButton, bigPrimaryButton} from 'app/client/ui2018/buttons';
 import {cssRadioCheckboxOptions, labeledSquareCheckbox, radioCheckboxOption} from 'app/client/ui2018/checkbox';
@@ -155,6 +156,8 @@ export class DocSettingsPage extends Disposable {
 
       dom.create(buildNotificationsConfig, this._gristDoc.docApi, docPageModel.currentDoc.get()),
 
+      dom.create(buildShareLinksConfig, this._gristDoc),
+
       dom.create(AdminSection, t('Data engine'), [
         dom.create(AdminSectionItem, {
           id: 'timings',
@@ -29,6 +29,7 @@ export function FieldContextMenu(fieldOptions: IFieldContextMenu) {
     menuItemCmd(allCommands.hideCardFields, t('Hide field'), disableForReadonlyColumn),
     menuDivider(),
     menuItemCmd(allCommands.openDiscussion, t('Comment'), dom.cls('disabled', isReadonly || isVirtual || isAddRow)),
+    menuItemCmd(allCommands.showCellHistory, t('Cell history'), dom.cls('disabled', isVirtual || isAddRow)),
     menuItemCmd(allCommands.copyLink, t('Copy anchor link'), disabledForVirtual),
   ];
 }
@@ -80,6 +80,17 @@ export interface FormFieldOptions {
   formAcceptFromUrl?: boolean;
 }
 
+/**
+ * A draft of a response to a form, saved for the respondent to resume later. Drafts aren't
+ * written to the form's table until they are submitted.
+ */
+export interface FormDraft {
+  /** Answers to the form's fields, keyed by colId. */
+  answers: Record<string, CellValue>;
+  /** Time of the last save, in milliseconds since epoch. */
+  updatedAt: number;
+}
+
 export type FormTextFormat = 'singleline' | 'multiline';
 
 export type FormNumberFormat = 'text' | 'spinner';
@@ -95,6 +106,8 @@ export type FormOptionsSortOrder = 'default' | 'ascending' | 'descending';
 export interface FormAPI {
   getForm(options: GetFormOptions): Promise<Form>;
   createRecord(options: CreateRecordOptions): Promise<void>;
+  getDraft(options: GetDraftOptions): Promise<FormDraft>;
+  saveDraft(options: SaveDraftOptions): Promise<string>;
   createAttachments(options: CreateAttachmentOptions): Promise<number[]>;
 }
 
@@ -115,12 +128,30 @@ interface GetFormCommonOptions {
 type GetFormOptions = GetFormCommonOptions & FormTarget;
 
 interface CreateRecordCommonOptions {
-  tableId: string;
+  vsId: number;
   colValues: ColValues;
+  /** The draft of this response, if any, which is removed once the response is submitted. */
+  draftId?: string;
 }
 
 type CreateRecordOptions = CreateRecordCommonOptions & FormTarget;
 
+interface GetDraftCommonOptions {
+  vsId: number;
+  draftId: string;
+}
+
+type GetDraftOptions = GetDraftCommonOptions & FormTarget;
+
+interface SaveDraftCommonOptions {
+  vsId: number;
+  /** The draft to update. If omitted, a new draft is saved. */
+  draftId?: string;
+  answers: Record<string, CellValue>;
+}
+
+type SaveDraftOptions = SaveDraftCommonOptions & FormTarget;
+
 interface CreateAttachmentCommonOptions {
   upload: File[];
 }
@@ -140,9 +171,13 @@ export class FormAPIImpl extends BaseAPI implements FormAPI {
   }
 
   public async createRecord(options: CreateRecordOptions): Promise<void> {
-    const {tableId, colValues} = options;
+    const {vsId, colValues, draftId} = options;
+    const url = new URL(this._docOrShareUrl(`/forms/${vsId}/records`, options));
+    if (draftId) {
+      url.searchParams.set("draft", draftId);
+    }
     return this.requestJson(
-      this._docOrShareUrl(`/tables/${tableId}/records`, options),
+      url.href,
       {
         method: "POST",
         body: JSON.stringify({ records: [{ fields: colValues }] }),
@@ -150,6 +185,23 @@ export class FormAPIImpl extends BaseAPI implements FormAPI {
     );
   }
 
+  public async getDraft(options: GetDraftOptions): Promise<FormDraft> {
+    const {vsId, draftId} = options;
+    return this.requestJson(this._docOrShareUrl(`/forms/${vsId}/drafts/${encodeURIComponent(draftId)}`, options), {
+      method: "GET",
+    });
+  }
+
+  public async saveDraft(options: SaveDraftOptions): Promise<string> {
+    const {vsId, draftId, answers} = options;
+    const path = draftId ? `/forms/${vsId}/drafts/${encodeURIComponent(draftId)}` : `/forms/${vsId}/drafts`;
+    const result = await this.requestJson(this._docOrShareUrl(path, options), {
+      method: draftId ? "PUT" : "POST",
+      body: JSON.stringify({ answers }),
+    });
+    return result.id;
+  }
+
   public async createAttachments(options: CreateAttachmentOptions): Promise<number[]> {
     const upload = options.upload.filter(f => f.size > 0);
     if (upload.length === 0) {
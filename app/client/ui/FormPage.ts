@@ -1,4 +1,6 @@
 import {FormRenderer} from 'app/client/components/FormRenderer';
+import * as style from 'app/client/components/Forms/styles';
+import {copyToClipboard} from 'app/client/lib/clipboardUtils';
 import {handleSubmit, TypedFormData} from 'app/client/lib/formUtils';
 import {makeT} from 'app/client/lib/localization';
 import {sanitizeHttpUrl} from 'app/client/lib/sanitizeUrl';
@@ -6,8 +8,12 @@ import {FormModel, FormModelImpl} from 'app/client/models/FormModel';
 import {buildFormFooter} from 'app/client/ui/FormContainer';
 import {FormErrorPage} from 'app/client/ui/FormErrorPage';
 import {FormSuccessPage} from 'app/client/ui/FormSuccessPage';
+import {showTransientTooltip} from 'app/client/ui/tooltips';
+import {bigPrimaryButton} from 'app/client/ui2018/buttons';
 import {colors} from 'app/client/ui2018/cssVars';
+import {cssModalBody, cssModalButtons, cssModalTitle, cssModalWidth, modal} from 'app/client/ui2018/modals';
 import {ApiError} from 'app/common/ApiError';
+import {CellValue} from 'app/common/DocActions';
 import {getPageTitleSuffix} from 'app/common/gristUrls';
 import {getGristConfig} from 'app/common/urlUtils';
 import {Disposable, dom, makeTestId, Observable, styled, subscribe} from 'grainjs';
@@ -57,6 +63,8 @@ export class FormPage extends Disposable {
         rootLayoutNode,
         disabled: this._model.submitting,
         error: this._error,
+        answers: this._model.draft.get()?.answers,
+        saveDraft: (answers) => this._saveDraft(answers),
       });
 
       const formFraming = getGristConfig().formFraming;
@@ -113,6 +121,46 @@ export class FormPage extends Disposable {
     this._model.submitted.set(true);
   }
 
+  private async _saveDraft(answers: Record<string, CellValue>) {
+    let url: string;
+    try {
+      this._error.set(null);
+      url = await this._model.saveDraft(answers);
+    } catch (e) {
+      this._error.set(t('There was an error saving your draft. Please try again.'));
+      if (!(e instanceof ApiError) || e.status >= 500) {
+        reportError(e as Error|string);
+      }
+      return;
+    }
+
+    modal((ctl) => [
+      cssModalWidth('fixed-wide'),
+      cssModalTitle(t('Draft saved')),
+      cssModalBody(
+        dom('p', t('Use this link to come back and finish your response later.')),
+        style.cssShareMenuUrlBlock(
+          style.cssShareMenuUrl(
+            {readonly: true, value: url},
+            dom.on('click', (_ev, el) => { setTimeout(() => el.select(), 0); }),
+            testId('draft-link'),
+          ),
+          style.cssShareMenuCopyButton(
+            t('Copy link'),
+            dom.on('click', async (_ev, el) => {
+              await copyToClipboard(url);
+              showTransientTooltip(el, t('Link copied to clipboard'), {key: 'copy-draft-link'});
+            }),
+            testId('draft-copy-link'),
+          ),
+        ),
+      ),
+      cssModalButtons(
+        bigPrimaryButton(t('Close'), dom.on('click', () => ctl.close()), testId('draft-close')),
+      ),
+    ]);
+  }
+
   private _handleFormError(e: unknown) {
     this._error.set(t('There was an error submitting your form. Please try again.'));
     if (!(e instanceof ApiError) || e.status >= 500) {
@@ -113,12 +113,12 @@ function getCompatibleTypes(tableId: TableRef,
                             {isNewPage, summarize}: ICompatibleTypes): IWidgetType[] {
   let compatibleTypes: Array<IWidgetType> = [];
   if (tableId !== 'New Table') {
-    compatibleTypes = ['record', 'single', 'detail', 'chart', 'custom', 'custom.calendar', 'form'];
+    compatibleTypes = ['record', 'single', 'detail', 'kanban', 'chart', 'custom', 'custom.calendar', 'form'];
   } else if (isNewPage) {
     // New view + new table means we'll be switching to the primary view.
     compatibleTypes = ['record', 'form'];
   } else {
-    // The type 'chart' makes little sense when creating a new table.
+    // The types 'chart' and 'kanban' make little sense when creating a new table.
     compatibleTypes = ['record', 'single', 'detail', 'form'];
   }
   return summarize ? compatibleTypes.filter((el) => isSummaryCompatible(el)) : compatibleTypes;
@@ -127,7 +127,8 @@ function getCompatibleTypes(tableId: TableRef,
 // The Picker disables some choices that do not make much sense.
 // This function return a boolean telling if summary can be used with this type.
 function isSummaryCompatible(widgetType: IWidgetType): boolean {
-  const incompatibleTypes: Array<IWidgetType> = ['form'];
+  // Kanban lanes are values of a column that cards get moved between, which summary tables don't allow.
+  const incompatibleTypes: Array<IWidgetType> = ['form', 'kanban'];
   return !incompatibleTypes.includes(widgetType);
 }
 
@@ -297,7 +298,7 @@ const permittedCustomWidgets: IAttachedCustomWidget[] = PERMITTED_CUSTOM_WIDGETS
 const finalListOfCustomWidgetToShow =  permittedCustomWidgets.filter(a=>
   registeredCustomWidgets.includes(a));
 const sectionTypes: IWidgetType[] = [
-  'record', 'single', 'detail', 'form', 'chart', ...finalListOfCustomWidgetToShow, 'custom'
+  'record', 'single', 'detail', 'kanban', 'form', 'chart', ...finalListOfCustomWidgetToShow, 'custom'
 ];
 
 
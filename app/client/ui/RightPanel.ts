@@ -17,6 +17,7 @@ import * as commands from 'app/client/components/commands';
 import {FieldModel} from 'app/client/components/Forms/Field';
 import {FormView} from 'app/client/components/Forms/FormView';
 import {MappedFieldsConfig} from 'app/client/components/Forms/MappedFieldsConfig';
+import {FormVisibilityConfig} from 'app/client/components/Forms/VisibilityConfig';
 import {GristDoc, IExtraTool, TabContent} from 'app/client/components/GristDoc';
 import {EmptyFilterState} from "app/client/components/LinkingState";
 import {RefSelect} from 'app/client/components/RefSelect';
@@ -523,7 +524,13 @@ export class RightPanel extends Disposable {
         ),
       ),
 
-      dom.maybe((use) => ['detail', 'single'].includes(use(this._pageWidgetType)!), () => [
+      dom.maybe((use) => use(this._pageWidgetType) === 'kanban', () =>
+        dom('div', {role: 'group', 'aria-label': t('Kanban options')},
+          vct._buildKanbanConfigDom(),
+        )
+      ),
+
+      dom.maybe((use) => ['detail', 'single', 'kanban'].includes(use(this._pageWidgetType)!), () => [
         cssGroupLabel(t("Theme")),
         dom('div',
           vct._buildThemeDom(),
@@ -1051,6 +1058,12 @@ export class RightPanel extends Disposable {
 
       return box;
     });
+    const selectedBoxWithVisibility = Computed.create(owner, (use) => {
+      const box = use(selectedBox);
+      if (!box || !['Field', 'Section', 'Columns', 'Paragraph', 'Label'].includes(box.type)) { return null; }
+
+      return box;
+    });
 
     return domAsync(imports.loadViewPane().then(() => buildConfigContainer(cssSection(
       // Field config.
@@ -1111,6 +1124,12 @@ export class RightPanel extends Disposable {
         )
       ]),
 
+      // Visibility config.
+      dom.maybe(selectedBoxWithVisibility, (box) => [
+        cssSeparator(),
+        dom.create(FormVisibilityConfig, box),
+      ]),
+
       // Default.
       dom.maybe(u => !u(selectedField) && !u(selectedBoxWithOptions), () => [
         buildFormConfigPlaceholder(),
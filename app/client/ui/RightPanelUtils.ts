@@ -16,6 +16,7 @@ export function getFieldType(widgetType: IWidgetType | null) {
     ['chart', {label: t('series', {count: 1}), icon: 'ChartLine', pluralLabel: t('series', {count: 2})}],
     ['custom', {label: t('columns', {count: 1}), icon: 'TypeCell', pluralLabel: t('columns', {count: 2})}],
     ['form', {label: t('fields', {count: 1}), icon: 'TypeCell', pluralLabel: t('fields', {count: 2})}],
+    ['kanban', {label: t('fields', {count: 1}), icon: 'TypeCell', pluralLabel: t('fields', {count: 2})}],
   ]);
 
   return fieldTypes.get(widgetType || 'record') || fieldTypes.get('record')!;
@@ -0,0 +1,209 @@
+import {cssSmallButton} from 'app/client/components/Forms/styles';
+import {GristDoc} from 'app/client/components/GristDoc';
+import {copyToClipboard} from 'app/client/lib/clipboardUtils';
+import {makeT} from 'app/client/lib/localization';
+import {reportError} from 'app/client/models/AppModel';
+import {urlState} from 'app/client/models/gristUrlState';
+import {AdminSection, AdminSectionItem} from 'app/client/ui/AdminPanelCss';
+import {textInput} from 'app/client/ui/inputs';
+import {cssField, cssLabel} from 'app/client/ui/MakeCopyMenu';
+import {showTransientTooltip} from 'app/client/ui/tooltips';
+import {labeledSquareCheckbox} from 'app/client/ui2018/checkbox';
+import {theme, vars} from 'app/client/ui2018/cssVars';
+import {select} from 'app/client/ui2018/menus';
+import {confirmModal, saveModal} from 'app/client/ui2018/modals';
+import {SHARE_KEY_PREFIX} from 'app/common/gristUrls';
+import {isOwner} from 'app/common/roles';
+import {getShareKind, isShareExpired, ShareOptions, ShareSummary} from 'app/common/ShareOptions';
+import {Computed, dom, DomContents, IDisposableOwner, makeTestId, Observable, styled} from 'grainjs';
+import moment from 'moment';
+import {v4 as uuidv4} from 'uuid';
+
+const t = makeT('ShareLinks');
+const testId = makeTestId('test-share-links-');
+
+type ShareAccess = NonNullable<ShareOptions['access']>;
+
+/**
+ * Builds the section of the document settings where owners manage the shares of the document:
+ * links to the document (possibly limited to some pages or widgets, expiring, or protected by a
+ * password), and published forms. Shows nothing to other users.
+ */
+export function buildShareLinksConfig(owner: IDisposableOwner, gristDoc: GristDoc): DomContents {
+  const doc = gristDoc.docPageModel.currentDoc.get();
+  if (!doc || doc.isFork || !isOwner(doc)) { return null; }
+
+  const shares = Observable.create<ShareSummary[]|null>(owner, null);
+  async function refresh() {
+    try {
+      const value = await gristDoc.docApi.getShares();
+      if (!shares.isDisposed()) { shares.set(value); }
+    } catch (e) {
+      reportError(e);
+    }
+  }
+  refresh().catch(reportError);
+
+  async function revoke(share: ShareSummary) {
+    const rowId = gristDoc.docData.getMetaTable('_grist_Shares').findRow('linkId', share.linkId);
+    if (rowId) {
+      await gristDoc.docData.sendAction(['RemoveRecord', '_grist_Shares', rowId]);
+    }
+    await refresh();
+  }
+
+  return dom.create(AdminSection, t('Share links'), [
+    dom.create(AdminSectionItem, {
+      id: 'shareLinks',
+      name: t('Links'),
+      description: t('Give access without signing in, to the whole document or some pages'),
+      value: cssSmallButton(t('New link'),
+        dom.on('click', () => buildNewShareLinkModal(gristDoc, refresh)),
+        testId('new'),
+      ),
+    }),
+    dom.domComputed(shares, list => list?.map(share =>
+      dom.create(AdminSectionItem, {
+        id: `share-${share.linkId}`,
+        name: describeShareName(share),
+        description: describeShareDetails(gristDoc, share),
+        value: cssButtons(
+          getShareKind(share.options) === 'link' ? cssSmallButton(t('Copy link'),
+            dom.on('click', async (e, elem) => {
+              await copyToClipboard(makeShareUrl(share));
+              showTransientTooltip(elem, t('Link copied to clipboard'), {key: 'share-links'});
+            }),
+            testId('copy'),
+          ) : null,
+          cssSmallButton(t('Revoke'),
+            dom.on('click', () => confirmModal(t('Revoke share?'), t('Revoke'), () => revoke(share), {
+              explanation: t('Anyone using this share will lose access to the document.'),
+            })),
+            testId('revoke'),
+          ),
+        ),
+      })
+    )),
+  ]);
+}
+
+function makeShareUrl(share: ShareSummary) {
+  return urlState().makeUrl({doc: `${SHARE_KEY_PREFIX}${share.key}`});
+}
+
+function describeShareName(share: ShareSummary) {
+  if (getShareKind(share.options) === 'form') { return t('Form'); }
+  return share.options.access === 'editors' ? t('Edit link') : t('View-only link');
+}
+
+function describeShareDetails(gristDoc: GristDoc, share: ShareSummary) {
+  const {options} = share;
+  const details: string[] = [];
+  if (getShareKind(options) === 'link') {
+    const pages = (options.pages || []).map(id => gristDoc.docModel.pages.getRowModel(id).view.peek().name.peek());
+    const sections = (options.sections || []).map(id => gristDoc.docModel.viewSections.getRowModel(id).titleDef.peek());
+    const names = [...pages, ...sections].filter(Boolean);
+    details.push(names.length ? names.join(', ') : t('Whole document'));
+  }
+  if (isShareExpired(options)) {
+    details.push(t('Expired'));
+  } else if (options.expiresAt) {
+    details.push(t('Expires {{date}}', {date: moment(options.expiresAt).format('ll')}));
+  }
+  if (share.hasPassword) {
+    details.push(t('Password protected'));
+  }
+  details.push(share.lastUsedAt ?
+    t('Last used {{time}}', {time: moment(share.lastUsedAt).fromNow()}) :
+    t('Never used'));
+  return dom('span', details.join(' · '), testId('details'));
+}
+
+function buildNewShareLinkModal(gristDoc: GristDoc, onCreated: () => Promise<void>) {
+  saveModal((ctl, owner) => {
+    const access = Observable.create<ShareAccess>(owner, 'viewers');
+    const expiry = Observable.create<string|undefined>(owner, '');
+    const password = Observable.create<string|undefined>(owner, '');
+    const wholeDoc = Observable.create(owner, true);
+    const pages = new Set<number>();
+    const sections = new Set<number>();
+
+    function scopeCheckbox(ids: Set<number>, id: number, label: string) {
+      const checked = Observable.create(owner, false);
+      owner.autoDispose(checked.addListener(value => value ? ids.add(id) : ids.delete(id)));
+      return labeledSquareCheckbox(checked, label, dom.boolAttr('disabled', wholeDoc));
+    }
+
+    const pageOptions = gristDoc.docModel.visibleDocPages.peek().map(page => cssScopeItem(
+      scopeCheckbox(pages, page.id.peek(), page.view.peek().name.peek()),
+      page.view.peek().viewSections.peek().peek().map(section => cssScopeItem(
+        cssScopeItem.cls('-nested'),
+        scopeCheckbox(sections, section.id.peek(), section.titleDef.peek()),
+      )),
+    ));
+    const isExpiryValid = Computed.create(owner, use => !use(expiry) || moment(use(expiry)).isAfter(moment()));
+
+    return {
+      title: t('New share link'),
+      body: [
+        cssField(
+          cssLabel(t('Access')),
+          select(access, [
+            {value: 'viewers', label: t('View only')},
+            {value: 'editors', label: t('Can edit')},
+          ]),
+          testId('access'),
+        ),
+        cssField(
+          cssLabel(t('Expires')),
+          textInput(expiry, {type: 'date'}, testId('expiry')),
+        ),
+        cssField(
+          cssLabel(t('Password')),
+          textInput(password, {type: 'password', placeholder: t('Optional')}, testId('password')),
+        ),
+        cssField(
+          cssLabel(t('Share')),
+          dom('div',
+            labeledSquareCheckbox(wholeDoc, t('Whole document'), testId('whole-doc')),
+            pageOptions,
+          ),
+        ),
+      ],
+      saveLabel: t('Create'),
+      saveDisabled: Computed.create(owner, use => !use(isExpiryValid)),
+      async saveFunc() {
+        const options: ShareOptions = {
+          publish: true,
+          kind: 'link',
+          access: access.get(),
+          expiresAt: expiry.get() ? moment(expiry.get()).endOf('day').valueOf() : null,
+          ...(wholeDoc.get() ? {} : {pages: [...pages], sections: [...sections]}),
+        };
+        const linkId = uuidv4();
+        await gristDoc.docData.sendAction(['AddRecord', '_grist_Shares', null, {
+          linkId, options: JSON.stringify(options),
+        }]);
+        if (password.get()) {
+          await gristDoc.docApi.setSharePassword(linkId, password.get()!);
+        }
+        await onCreated();
+      },
+    };
+  });
+}
+
+const cssButtons = styled('div', `
+  display: flex;
+  gap: 8px;
+`);
+
+const cssScopeItem = styled('div', `
+  margin-top: 8px;
+  color: ${theme.text};
+  font-size: ${vars.mediumFontSize};
+
+  &-nested {
+    margin-left: 24px;
+  }
+`);
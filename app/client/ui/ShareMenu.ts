@@ -354,6 +354,20 @@ function menuExports(doc: Document, pageModel: DocPageModel) {
           href: pageModel.appModel.api.getDocAPI(doc.id).getDownloadXlsxUrl(),
           target: '_blank', download: ''
         }), t("Microsoft Excel (.xlsx)"), testId('tb-share-option')),
+        menuItemLink(
+          onClick,
+          hooks.maybeModifyLinkAttrs({
+          href: pageModel.appModel.api.getDocAPI(doc.id).getDownloadOdsUrl(),
+          target: '_blank', download: ''
+        }), t("OpenDocument Spreadsheet (.ods)"), testId('tb-share-option')),
+        menuItemLink(
+          onClick,
+          hooks.maybeModifyLinkAttrs({ href: gristDoc.getJsonLink(), target: '_blank', download: ''}),
+          t("JSON records (.json)"), testId('tb-share-option')),
+        menuItemLink(
+          onClick,
+          hooks.maybeModifyLinkAttrs({ href: gristDoc.getNdjsonLink(), target: '_blank', download: ''}),
+          t("Newline-delimited JSON (.ndjson)"), testId('tb-share-option')),
       ],
       {},
       menuIcon('Download'),
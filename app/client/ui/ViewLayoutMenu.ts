@@ -87,7 +87,13 @@ export function makeViewLayoutMenu(viewSection: ViewSectionRec, isReadonly: bool
       t("Download as CSV"), testId('download-section')),
     menuItemLink(hooks.maybeModifyLinkAttrs({ href: gristDoc.getXlsxActiveViewLink(), target: '_blank', download: ''}),
       t("Download as XLSX"), testId('download-section')),
-    dom.maybe((use) => ['detail', 'single'].includes(use(viewSection.parentKey)), () =>
+    menuItemLink(hooks.maybeModifyLinkAttrs({ href: gristDoc.getOdsActiveViewLink(), target: '_blank', download: ''}),
+      t("Download as ODS"), testId('download-section')),
+    menuItemLink(hooks.maybeModifyLinkAttrs({ href: gristDoc.getJsonLink(), target: '_blank', download: ''}),
+      t("Download as JSON"), testId('download-section')),
+    menuItemLink(hooks.maybeModifyLinkAttrs({ href: gristDoc.getNdjsonLink(), target: '_blank', download: ''}),
+      t("Download as NDJSON"), testId('download-section')),
+    dom.maybe((use) => ['detail', 'single', 'kanban'].includes(use(viewSection.parentKey)), () =>
       menuItemCmd(allCommands.editLayout, t("Edit card layout"),
         dom.cls('disabled', isReadonly))),
 
@@ -17,7 +17,7 @@ import {
   UserAction
 } from 'app/common/DocActions';
 import {VirtualId} from 'app/common/SortSpec';
-import {WebhookSummary} from 'app/common/Triggers';
+import {WebhookSchedule, WebhookSummary} from 'app/common/Triggers';
 import {DocAPI} from 'app/common/UserAPI';
 import {GristObjCode, RowRecord} from 'app/plugin/GristData';
 import {dom, styled} from 'grainjs';
@@ -58,7 +58,7 @@ const WEBHOOK_COLUMNS = [
     widgetOptions: JSON.stringify({
       widget: 'TextBox',
       alignment: 'left',
-      choices: ['add', 'update'],
+      choices: ['add', 'update', 'remove', 'schema'],
       choiceOptions: {},
     }),
   },
@@ -113,6 +113,57 @@ const WEBHOOK_COLUMNS = [
     type: 'Text',
     label: t('Header Authorization'),
   },
+  {
+    id: VirtualId(),
+    colId: 'payloadTemplateText',
+    type: 'Text',
+    label: t('Payload Template (JSON)'),
+  },
+  {
+    id: VirtualId(),
+    colId: 'scheduleCron',
+    type: 'Text',
+    label: t('Schedule (cron expression, e.g. "0 9 * * 1")'),
+  },
+  {
+    id: VirtualId(),
+    colId: 'scheduleTimezone',
+    type: 'Text',
+    label: t('Schedule Timezone'),
+  },
+  {
+    id: VirtualId(),
+    colId: 'scheduleAction',
+    type: 'Choice',
+    label: t('Scheduled Action'),
+    widgetOptions: JSON.stringify({
+      widget: 'TextBox',
+      alignment: 'left',
+      choices: ['send', 'recalc'],
+      choiceOptions: {},
+    }),
+  },
+  {
+    id: VirtualId(),
+    colId: 'scheduleFiltersText',
+    type: 'Text',
+    label: t('Scheduled Records Filter (JSON)'),
+  },
+  {
+    id: VirtualId(),
+    colId: 'signingSecret',
+    type: 'Text',
+    label: t('Signing Secret'),
+  },
+  {
+    id: VirtualId(),
+    colId: 'rotateSigningSecret',
+    type: 'Bool',
+    label: t('Regenerate Signing Secret'),
+    widgetOptions: JSON.stringify({
+      widget: 'Switch',
+    }),
+  },
 ] as const;
 
 /**
@@ -123,6 +174,10 @@ const WEBHOOK_VIEW_FIELDS: Array<(typeof WEBHOOK_COLUMNS)[number]['colId']> = [
   'eventTypes', 'tableId',
   'watchedColIdsText', 'isReadyColumn',
   'url', 'authorization',
+  'payloadTemplateText',
+  'scheduleCron', 'scheduleTimezone',
+  'scheduleAction', 'scheduleFiltersText',
+  'signingSecret', 'rotateSigningSecret',
   'webhookId', 'enabled',
   'status'
 ];
@@ -143,6 +198,8 @@ class WebhookExternalTable implements IExternalTable {
   public name = 'GristHidden_WebhookTable';
   public saveableFields = [
     'tableId', 'watchedColIdsText', 'url', 'authorization', 'eventTypes', 'enabled', 'name', 'memo', 'isReadyColumn',
+    'rotateSigningSecret', 'payloadTemplateText',
+    'scheduleCron', 'scheduleTimezone', 'scheduleAction', 'scheduleFiltersText',
   ];
   public webhooks: ObservableArray<UIWebhookSummary> = observableArray<UIWebhookSummary>([]);
 
@@ -169,7 +226,7 @@ class WebhookExternalTable implements IExternalTable {
           continue;
         }
         const colIds = new Set(getColIdsFromDocAction(d) || []);
-        if (colIds.has('webhookId') || colIds.has('status')) {
+        if (colIds.has('webhookId') || colIds.has('status') || colIds.has('signingSecret')) {
           throw new Error(t(`Sorry, not all fields can be edited.`));
         }
       }
@@ -222,6 +279,10 @@ class WebhookExternalTable implements IExternalTable {
         // 'enabled' needs an initial value, otherwise it is unsettable
         values.enabled = false;
       }
+      if (rec.rotateSigningSecret) {
+        // The secret was regenerated (or will be on creation anyway), so turn the switch back off.
+        values.rotateSigningSecret = false;
+      }
       await editor.patch([
         ['UpdateRecord', this.name, recId, values],
       ]);
@@ -293,6 +354,8 @@ class WebhookExternalTable implements IExternalTable {
       ...webhooks.map(webhook => {
         const uiWebhook: UIWebhookSummary = {...webhook};
         uiWebhook.fields.watchedColIdsText = webhook.fields.watchedColIds ? webhook.fields.watchedColIds.join(";") : "";
+        uiWebhook.fields.payloadTemplateText = webhook.fields.payloadTemplate ?
+          JSON.stringify(webhook.fields.payloadTemplate) : "";
         return uiWebhook;
       }));
   }
@@ -306,7 +369,7 @@ class WebhookExternalTable implements IExternalTable {
     // Leave enabled at default, meaning it will enable on successful
     // creation. It seems likely we'd get support requests asking why
     // webhooks are not working otherwise.
-    const {webhookId} = await this._docApi.addWebhook(omit(fields, 'enabled'));
+    const {webhookId} = await this._docApi.addWebhook(omit(fields, 'enabled', 'rotateSigningSecret'));
     return webhookId;
   }
 
@@ -325,17 +388,45 @@ class WebhookExternalTable implements IExternalTable {
 
   /**
    * Perform some transformations for sending fields to api:
-   *   - (1) removes all non saveble props and
-   *   - (2) removes the leading 'L' from eventTypes.
+   *   - (1) removes all non saveble props,
+   *   - (2) removes the leading 'L' from eventTypes,
+   *   - (3) only keeps rotateSigningSecret when it is requested,
+   *   - (4) parses payloadTemplateText, an empty text meaning no template and
+   *   - (5) assembles the schedule from its fields, an empty cron expression meaning no schedule.
    */
   private _prepareFields(fields: any) {
     fields = pick(fields, ...this.saveableFields);
     if (fields.eventTypes) {
       fields.eventTypes = without(fields.eventTypes, 'L');
     }
+    if (!fields.rotateSigningSecret) {
+      delete fields.rotateSigningSecret;
+    }
     fields.watchedColIds = fields.watchedColIdsText
       ? fields.watchedColIdsText.split(";").filter((colId: string) => colId.trim() !== "")
       : [];
+    if (fields.payloadTemplateText !== undefined) {
+      try {
+        fields.payloadTemplate = fields.payloadTemplateText.trim() ? JSON.parse(fields.payloadTemplateText) : null;
+      } catch (e) {
+        throw new Error(t('Payload template is not valid JSON.'));
+      }
+    }
+    if (fields.scheduleCron !== undefined) {
+      const cron = String(fields.scheduleCron || '').trim();
+      let filters: WebhookSchedule['filters'];
+      try {
+        filters = fields.scheduleFiltersText?.trim() ? JSON.parse(fields.scheduleFiltersText) : undefined;
+      } catch (e) {
+        throw new Error(t('Scheduled records filter is not valid JSON.'));
+      }
+      fields.schedule = !cron ? null : {
+        cron,
+        ...(fields.scheduleTimezone ? {timezone: fields.scheduleTimezone} : {}),
+        ...(fields.scheduleAction ? {action: fields.scheduleAction} : {}),
+        ...(filters ? {filters} : {}),
+      };
+    }
     return fields;
   }
 }
@@ -473,10 +564,12 @@ function _prepareWebhookInitialActions(tableId: string): DocAction[] {
  * Map a webhook summary to a webhook table raw record.  The main
  * difference is that `eventTypes` is tweaked to be in a cell format,
  * `status` is converted to a string,
- * and `watchedColIdsText` is converted to list in a cell format.
+ * `watchedColIdsText` is converted to list in a cell format,
+ * `payloadTemplate` is converted to JSON text,
+ * and `schedule` is split into its own fields.
  */
 function _mapWebhookValues(webhookSummary: UIWebhookSummary): Partial<WebhookSchemaType> {
-  const fields = webhookSummary.fields;
+  const {payloadTemplate, schedule, ...fields} = webhookSummary.fields;
   const {eventTypes, watchedColIdsText} = fields;
   const watchedColIds = watchedColIdsText
     ? watchedColIdsText.split(";").filter(colId => colId.trim() !== "")
@@ -487,18 +580,28 @@ function _mapWebhookValues(webhookSummary: UIWebhookSummary): Partial<WebhookSch
     status: JSON.stringify(webhookSummary.usage),
     eventTypes: [GristObjCode.List, ...eventTypes],
     watchedColIds: [GristObjCode.List, ...watchedColIds],
+    payloadTemplateText: payloadTemplate ? JSON.stringify(payloadTemplate) : '',
+    scheduleCron: schedule?.cron ?? '',
+    scheduleTimezone: schedule?.timezone ?? '',
+    scheduleAction: schedule?.action ?? '',
+    scheduleFiltersText: schedule?.filters ? JSON.stringify(schedule.filters) : '',
   };
 }
 
 type WebhookSchemaType = {
-  [prop in keyof WebhookSummary['fields']]: WebhookSummary['fields'][prop]
+  [prop in Exclude<keyof WebhookSummary['fields'], 'payloadTemplate'|'schedule'>]: WebhookSummary['fields'][prop]
 } & {
   eventTypes: [GristObjCode, ...unknown[]];
   watchedColIds: [GristObjCode, ...unknown[]];
+  payloadTemplateText: string;
+  scheduleCron: string;
+  scheduleTimezone: string;
+  scheduleAction: string;
+  scheduleFiltersText: string;
   status: string;
   webhookId: string;
 }
 
 type UIWebhookSummary = WebhookSummary & {
-  fields: {watchedColIdsText?: string;}
+  fields: {watchedColIdsText?: string; payloadTemplateText?: string;}
 }
@@ -1,12 +1,13 @@
 import {makeT} from 'app/client/lib/localization';
 import {getLoginUrl, getSignupUrl} from 'app/client/lib/urlUtils';
-import {AppModel} from 'app/client/models/AppModel';
+import {AppModel, reportError} from 'app/client/models/AppModel';
 import {getMainOrgUrl, urlState} from 'app/client/models/gristUrlState';
 import {AppHeader} from 'app/client/ui/AppHeader';
+import {textInput} from 'app/client/ui/inputs';
 import {leftPanelBasic} from 'app/client/ui/LeftPanelCommon';
 import {pagePanels} from 'app/client/ui/PagePanels';
 import {createTopBarHome} from 'app/client/ui/TopBar';
-import {bigBasicButtonLink, bigPrimaryButtonLink} from 'app/client/ui2018/buttons';
+import {bigBasicButtonLink, bigPrimaryButton, bigPrimaryButtonLink} from 'app/client/ui2018/buttons';
 import {theme, vars} from 'app/client/ui2018/cssVars';
 import {cssLink} from 'app/client/ui2018/links';
 import {commonUrls, getPageTitleSuffix} from 'app/common/gristUrls';
@@ -37,6 +38,7 @@ export function createErrPage(appModel: AppModel) {
     errPage === 'account-deleted' ? createAccountDeletedPage(appModel) :
     errPage === 'signin-failed' ? createSigninFailedPage(appModel, errMessage) :
     errPage === 'unsubscribed' ? createUnsubscribedPage(appModel, errMessage, errDetails) :
+    errPage === 'share-password' ? createSharePasswordPage(appModel, errDetails) :
     createOtherErrorPage(appModel, errMessage);
 }
 
@@ -202,6 +204,36 @@ export function createUnsubscribedPage(
   ]);
 }
 
+/**
+ * Creates a page asking for the password of a share link. Once the password is accepted, the
+ * page is reloaded to open the shared document.
+ */
+export function createSharePasswordPage(appModel: AppModel, errDetails?: Record<string, string>) {
+  document.title = t("Password required{{suffix}}", {suffix: getPageTitleSuffix(getGristConfig())});
+
+  const password = observable('');
+  const error = observable('');
+  async function unlock() {
+    try {
+      await appModel.api.unlockShare(errDetails?.shareKey || '', password.get());
+      window.location.reload();
+    } catch (e) {
+      error.set(e.status === 403 ? t("Wrong password. Please try again.") : String(e.message || e));
+    }
+  }
+
+  return pagePanelsError(appModel, t("Password required"), [
+    cssErrorText(t("This link is protected by a password.")),
+    dom('form',
+      dom.on('submit', (ev) => { ev.preventDefault(); unlock().catch(reportError); }),
+      cssErrorText(
+        textInput(password, {type: 'password', placeholder: t("Password")}, testId('share-password')),
+      ),
+      dom.maybe(error, message => cssErrorText(cssErrorText.cls('-error'), message, testId('share-password-error'))),
+      cssButtonWrap(bigPrimaryButton(t("Open"), {type: 'submit'}, testId('share-password-submit'))),
+    ),
+  ]);
+}
 
 /**
  * Creates a "Page not found" page.
@@ -306,6 +338,10 @@ const cssErrorText = styled('div', `
   margin: 0 auto 24px auto;
   max-width: 400px;
   text-align: center;
+
+  &-error {
+    color: ${theme.errorText};
+  }
 `);
 
 const cssButtonWrap = styled('div', `
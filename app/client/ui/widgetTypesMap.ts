@@ -13,6 +13,7 @@ export const widgetTypesMap = new Map<IWidgetType, IWidgetTypeInfo>([
   ['detail', {name: 'Card List', icon: 'TypeCardList', getLabel: () => t('Card List')}],
   ['chart', {name: 'Chart', icon: 'TypeChart', getLabel: () => t('Chart')}],
   ['form', {name: 'Form', icon: 'Board', getLabel: () => t('Form')}],
+  ['kanban', {name: 'Kanban', icon: 'TypeKanban', getLabel: () => t('Kanban')}],
   ['custom', {name: 'Custom', icon: 'TypeCustom', getLabel: () => t('Custom')}],
   ['custom.calendar', {name: 'Calendar', icon: 'TypeCalendar', getLabel: () => t('Calendar')}],
 ]);
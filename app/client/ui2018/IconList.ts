@@ -8,6 +8,7 @@ export const IconList = [
   "ChartKaplan",
   "ChartLine",
   "ChartPie",
+  "ChartTimeline",
   "TypeCalendar",
   "TypeCard",
   "TypeCardList",
@@ -15,6 +16,7 @@ export const IconList = [
   "TypeChart",
   "TypeCustom",
   "TypeDetails",
+  "TypeKanban",
   "TypeTable",
   "FieldAny",
   "FieldAttachment",
@@ -0,0 +1,80 @@
+/**
+ * This module was automatically generated by `ts-interface-builder`
+ */
+import * as t from "ts-interface-checker";
+// tslint:disable:object-literal-key-quotes
+
+export const AclRulesBundle = t.iface([], {
+  "version": t.lit(1),
+  "tables": t.array("AclBundleTable"),
+  "resources": t.array("AclBundleResource"),
+  "rules": t.array("AclBundleRule"),
+  "userAttributes": t.array("AclBundleUserAttribute"),
+});
+
+export const AclBundleTable = t.iface([], {
+  "tableId": "string",
+  "colIds": t.array("string"),
+});
+
+export const AclBundleResource = t.iface([], {
+  "id": "number",
+  "tableId": "string",
+  "colIds": "string",
+});
+
+export const AclBundleRule = t.iface([], {
+  "resource": "number",
+  "aclFormula": "string",
+  "permissionsText": "string",
+  "memo": t.opt("string"),
+});
+
+export const AclBundleUserAttribute = t.iface([], {
+  "name": "string",
+  "tableId": "string",
+  "lookupColId": "string",
+  "charId": "string",
+});
+
+export const AclRulesImportOptions = t.iface([], {
+  "dryRun": t.opt("boolean"),
+  "tableIds": t.opt(t.iface([], {
+    [t.indexKey]: "string",
+  })),
+});
+
+export const AclRulesImportPost = t.iface(["AclRulesImportOptions"], {
+  "bundle": "AclRulesBundle",
+});
+
+export const AclRulesImportResult = t.iface([], {
+  "applied": "boolean",
+  "tableIds": t.iface([], {
+    [t.indexKey]: "string",
+  }),
+  "rules": "number",
+  "userAttributes": "number",
+  "conflicts": t.array("AclRulesImportConflict"),
+});
+
+export const AclRulesImportConflict = t.iface([], {
+  "kind": t.union(t.lit('missingTable'), t.lit('missingColumns'), t.lit('invalidFormula')),
+  "tableId": t.opt("string"),
+  "colIds": t.opt(t.array("string")),
+  "aclFormula": t.opt("string"),
+  "message": "string",
+});
+
+const exportedTypeSuite: t.ITypeSuite = {
+  AclRulesBundle,
+  AclBundleTable,
+  AclBundleResource,
+  AclBundleRule,
+  AclBundleUserAttribute,
+  AclRulesImportOptions,
+  AclRulesImportPost,
+  AclRulesImportResult,
+  AclRulesImportConflict,
+};
+export default exportedTypeSuite;
@@ -0,0 +1,74 @@
+/**
+ * Access rules of a document in a portable form, to copy a permission model between documents.
+ * A bundle holds the resources and rules of _grist_ACLResources and _grist_ACLRules, and the
+ * user attribute rules, along with the columns of the tables they mention, so that they can be
+ * mapped to the tables of another document.
+ */
+export interface AclRulesBundle {
+  // Version of the format, for compatibility with future changes.
+  version: 1;
+  tables: AclBundleTable[];
+  resources: AclBundleResource[];
+  // Rules in order of priority. User attribute rules are listed separately.
+  rules: AclBundleRule[];
+  userAttributes: AclBundleUserAttribute[];
+}
+
+// A table mentioned by resources or user attribute rules.
+export interface AclBundleTable {
+  tableId: string;
+  colIds: string[];
+}
+
+export interface AclBundleResource {
+  // Identifies the resource within the bundle, for rules to refer to it.
+  id: number;
+  tableId: string;     // A tableId, '*' for the default resource, or '*SPECIAL'.
+  colIds: string;      // '*', or comma-separated colIds.
+}
+
+export interface AclBundleRule {
+  resource: number;    // The id of an AclBundleResource.
+  aclFormula: string;
+  permissionsText: string;
+  memo?: string;
+}
+
+export interface AclBundleUserAttribute {
+  name: string;
+  tableId: string;
+  lookupColId: string;
+  charId: string;
+}
+
+export interface AclRulesImportOptions {
+  // If set, only check the bundle and report what importing it would do.
+  dryRun?: boolean;
+  // Maps tableIds in the bundle to tableIds in the document, for tables that are named
+  // differently. Other tables are mapped automatically.
+  tableIds?: {[bundleTableId: string]: string};
+}
+
+// Body of the REST endpoint for importing access rules.
+export interface AclRulesImportPost extends AclRulesImportOptions {
+  bundle: AclRulesBundle;
+}
+
+export interface AclRulesImportResult {
+  // Whether the rules of the document were replaced. Rules are only imported if there are no
+  // conflicts.
+  applied: boolean;
+  // How tables of the bundle were mapped to tables of the document.
+  tableIds: {[bundleTableId: string]: string};
+  rules: number;
+  userAttributes: number;
+  conflicts: AclRulesImportConflict[];
+}
+
+export interface AclRulesImportConflict {
+  kind: 'missingTable'|'missingColumns'|'invalidFormula';
+  tableId?: string;         // The tableId in the bundle.
+  colIds?: string[];        // The missing colIds, for 'missingColumns'.
+  aclFormula?: string;      // The formula, for 'invalidFormula' and columns used in formulas.
+  message: string;
+}
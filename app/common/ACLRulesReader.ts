@@ -1,7 +1,7 @@
 import { DocData } from 'app/common/DocData';
 import { getSetMapValue } from 'app/common/gutil';
 import { SchemaTypes } from 'app/common/schema';
-import { ShareOptions } from 'app/common/ShareOptions';
+import { getShareKind, ShareOptions } from 'app/common/ShareOptions';
 import { MetaRowRecord, MetaTableData } from 'app/common/TableData';
 import isEqual from 'lodash/isEqual';
 import sortBy from 'lodash/sortBy';
@@ -124,6 +124,8 @@ export class ACLRulesReader {
   private _rulesTable = new TableWithOverlay(this.docData.getMetaTable('_grist_ACLRules'));
   private _sharesTable = this.docData.getMetaTable('_grist_Shares');
   private _hasShares = this._options.addShareRules && this._sharesTable.numRecords() > 0;
+  /** Row IDs of published share links, to which regular rules keep applying. */
+  private _linkShareRefs = this._hasShares ? this._getLinkShareRefs() : [];
   /** Maps 'tableId:colId' to the comma-separated list of column IDs from the associated resource. */
   private _resourceColIdsByTableAndColId: Map<string, string> = new Map();
 
@@ -140,7 +142,7 @@ export class ACLRulesReader {
       // rules need to be tweaked so that they don't apply when the
       // share is active.
       if (this._hasShares && rule.id >= 0) {
-        disableRuleInShare(rule);
+        disableRuleInShare(rule, this._linkShareRefs);
       }
 
       getSetMapValue(rulesByResourceId, rule.resource, () => []).push(rule);
@@ -185,6 +187,13 @@ export class ACLRulesReader {
     }
   }
 
+  private _getLinkShareRefs(): number[] {
+    return this._sharesTable.getRecords().filter(share => {
+      const options: ShareOptions = JSON.parse(share.options || '{}');
+      return options.publish && getShareKind(options) === 'link';
+    }).map(share => share.id);
+  }
+
   private _maybeAddShareRules() {
     if (!this._hasShares) { return; }
 
@@ -197,17 +206,21 @@ export class ACLRulesReader {
   /**
    * Add any rules needed for the specified share.
    *
-   * The only kind of share we support for now is form endpoint
-   * sharing.
+   * Shares are either form endpoints, or links giving access to some
+   * or all of the document.
    */
   private _addRulesForShare(share: MetaRowRecord<'_grist_Shares'>) {
     // TODO: Unpublished shares could and should be blocked earlier,
     // by home server
-    const {publish}: ShareOptions = JSON.parse(share.options || '{}');
-    if (!publish) {
+    const options: ShareOptions = JSON.parse(share.options || '{}');
+    if (!options.publish) {
       this._blockShare(share.id);
       return;
     }
+    if (getShareKind(options) === 'link') {
+      this._addRulesForShareLink(share.id, options);
+      return;
+    }
 
     // Let's go looking for sections related to the share.
     // It was decided that the relationship between sections and
@@ -222,8 +235,8 @@ export class ACLRulesReader {
     const sections = this.docData.getMetaTable('_grist_Views_section').getRecords().filter(
       section => {
         if (!parentViews.has(section.parentId)) { return false; }
-        const options = JSON.parse(section.shareOptions || '{}');
-        return Boolean(options.publish) && Boolean(options.form);
+        const sectionOptions = JSON.parse(section.shareOptions || '{}');
+        return Boolean(sectionOptions.publish) && Boolean(sectionOptions.form);
       }
     );
 
@@ -257,10 +270,69 @@ export class ACLRulesReader {
   }
 
   /**
-   * When accessing a document via a share, by default no user tables are
-   * accessible. Everything added to the share gives additional
-   * access, and never reduces access, making it easy to grant
-   * access to multiple parts of the document.
+   * Limit a share link to the tables shown in its pages and widgets, if
+   * it is limited to some. Share links don't grant any access of their
+   * own: regular rules keep applying to their visitors, who get the
+   * access of the link (see GranularAccess.getUser). Expiry is checked
+   * by the home server.
+   */
+  private _addRulesForShareLink(shareRef: number, options: ShareOptions) {
+    const pageIds = new Set(options.pages || []);
+    const sectionIds = new Set(options.sections || []);
+    if (pageIds.size === 0 && sectionIds.size === 0) { return; }
+
+    const viewRefs = new Set(
+      this.docData.getMetaTable('_grist_Pages').getRecords()
+        .filter(page => pageIds.has(page.id))
+        .map(page => page.viewRef)
+    );
+    const tableRefs = new Set(
+      this.docData.getMetaTable('_grist_Views_section').getRecords()
+        .filter(section => viewRefs.has(section.parentId) || sectionIds.has(section.id))
+        .map(section => section.tableRef)
+    );
+    const tables = this.docData.getMetaTable('_grist_Tables');
+    const columns = this.docData.getMetaTable('_grist_Tables_column');
+
+    // Tables outside the scope may still be needed to show references,
+    // so the columns shown for references stay readable.
+    const referencedColIds = new Map<number, Set<string>>();
+    for (const column of columns.getRecords()) {
+      if (!tableRefs.has(column.parentId) || !column.visibleCol) { continue; }
+      if (!column.type.startsWith('Ref:') && !column.type.startsWith('RefList:')) { continue; }
+      const visibleCol = columns.getRecord(column.visibleCol);
+      if (!visibleCol || tableRefs.has(visibleCol.parentId)) { continue; }
+      getSetMapValue(referencedColIds, visibleCol.parentId, () => new Set()).add(visibleCol.colId);
+    }
+
+    const outOfScopeTables = tables.getRecords().filter(
+      table => !table.tableId.startsWith('_grist_') && !tableRefs.has(table.id)
+    );
+    for (const table of sortBy(outOfScopeTables, 'tableId')) {
+      const {tableId} = table;
+      const visibleColIds = referencedColIds.get(table.id);
+      if (!visibleColIds) {
+        this._addShareRefRule(this._findOrAddResource({tableId, colIds: '*'}), shareRef, '-CRUDS');
+        continue;
+      }
+      this._addShareRefRule(this._findOrAddResource({tableId, colIds: '*'}), shareRef, '-CUD');
+      for (const {colId} of columns.filterRecords({parentId: table.id})) {
+        if (visibleColIds.has(colId)) { continue; }
+        const resourceColIds = this._resourceColIdsByTableAndColId.get(`${tableId}:${colId}`) ?? colId;
+        const maybeResourceId = this._resourcesTable.findMatchingRowId({tableId, colIds: resourceColIds});
+        if (maybeResourceId !== 0) {
+          this._maybeSplitResourceForShares(maybeResourceId);
+        }
+        this._addShareRefRule(this._findOrAddResource({tableId, colIds: colId}), shareRef, '-R');
+      }
+    }
+  }
+
+  /**
+   * When accessing a document via a share other than a share link, by
+   * default no user tables are accessible. Everything added to the share
+   * gives additional access, and never reduces access, making it easy to
+   * grant access to multiple parts of the document.
    *
    * We do leave access unchanged for metadata tables, since they are
    * censored via an alternative mechanism.
@@ -272,7 +344,7 @@ export class ACLRulesReader {
       .filter(tableId => !tableId.startsWith('_grist_'))
       .sort();
     for (const tableId of tableIds) {
-      this._addShareRule(this._findOrAddResource({tableId, colIds: '*'}), '-CRUDS');
+      this._addShareRule(this._findOrAddResource({tableId, colIds: '*'}), '-CRUDS', {exceptLinks: true});
     }
 
     // Block schema access at the default level.
@@ -392,7 +464,7 @@ export class ACLRulesReader {
     if (colIds.length === 1) { return; }
 
     const rules = sortBy(this._rulesTable.filterRecords({resource: resourceId}), 'rulePos')
-      .map(r => disableRuleInShare(r));
+      .map(r => disableRuleInShare(r, this._linkShareRefs));
     // Prepare a new resource for each column, with copies of the original resource's rules.
     for (const colId of colIds) {
       const newResourceId = this._resourcesTable.addRecord({id: 0, tableId, colIds: colId});
@@ -423,13 +495,32 @@ export class ACLRulesReader {
     });
   }
 
-  private _addShareRule(resourceRef: number, permissionsText: string) {
-    const aclFormula = 'user.ShareRef is not None';
-    const aclFormulaParsed = JSON.stringify([
+  private _addShareRule(resourceRef: number, permissionsText: string, options: {exceptLinks?: boolean} = {}) {
+    let aclFormula = 'user.ShareRef is not None';
+    let aclFormulaParsed = JSON.stringify([
       'NotEq',
       ['Attr', ['Name', 'user'], 'ShareRef'],
       ['Const', null],
     ]);
+    if (options.exceptLinks && this._linkShareRefs.length > 0) {
+      aclFormula += ` and user.ShareRef not in ${formatShareRefs(this._linkShareRefs)}`;
+      aclFormulaParsed = JSON.stringify([
+        'And',
+        JSON.parse(aclFormulaParsed),
+        ['NotIn', ['Attr', ['Name', 'user'], 'ShareRef'], parseShareRefs(this._linkShareRefs)],
+      ]);
+    }
+    this._rulesTable.addRecord(this._makeRule({
+      resource: resourceRef, aclFormula, aclFormulaParsed, permissionsText,
+    }));
+  }
+
+  private _addShareRefRule(resourceRef: number, shareRef: number, permissionsText: string) {
+    const aclFormula = `user.ShareRef == ${shareRef}`;
+    const aclFormulaParsed = JSON.stringify(
+      [ 'Eq',
+        [ 'Attr', [ "Name", "user" ], "ShareRef" ],
+        ['Const', shareRef] ]);
     this._rulesTable.addRecord(this._makeRule({
       resource: resourceRef, aclFormula, aclFormulaParsed, permissionsText,
     }));
@@ -476,18 +567,36 @@ export class ACLRulesReader {
 
 /**
  * Updates the ACL formula of `rule` such that it's disabled if a document is being
- * accessed via a share.
+ * accessed via a share, other than one of the share links in `linkShareRefs`.
  *
  * Modifies `rule` in place.
  */
-function disableRuleInShare(rule: MetaRowRecord<'_grist_ACLRules'>) {
+function disableRuleInShare(rule: MetaRowRecord<'_grist_ACLRules'>, linkShareRefs: number[]) {
   const aclFormulaParsed = rule.aclFormula && JSON.parse(String(rule.aclFormulaParsed));
+  let condition = 'user.ShareRef is None';
+  let conditionParsed: any[] = [ 'Eq', [ 'Attr', [ 'Name', 'user' ], 'ShareRef' ], ['Const', null] ];
+  if (linkShareRefs.length > 0) {
+    condition = `(${condition} or user.ShareRef in ${formatShareRefs(linkShareRefs)})`;
+    conditionParsed = [
+      'Or',
+      conditionParsed,
+      [ 'In', [ 'Attr', [ 'Name', 'user' ], 'ShareRef' ], parseShareRefs(linkShareRefs) ],
+    ];
+  }
   const newAclFormulaParsed = [
     'And',
-    [ 'Eq', [ 'Attr', [ 'Name', 'user' ], 'ShareRef' ], ['Const', null] ],
+    conditionParsed,
     aclFormulaParsed || [ 'Const', true ]
   ];
-  rule.aclFormula = 'user.ShareRef is None and (' + String(rule.aclFormula || 'True') + ')';
+  rule.aclFormula = condition + ' and (' + String(rule.aclFormula || 'True') + ')';
   rule.aclFormulaParsed = JSON.stringify(newAclFormulaParsed);
   return rule;
 }
+
+function formatShareRefs(shareRefs: number[]) {
+  return `[${shareRefs.join(', ')}]`;
+}
+
+function parseShareRefs(shareRefs: number[]) {
+  return ['List', ...shareRefs.map(shareRef => ['Const', shareRef])];
+}
@@ -1,14 +1,23 @@
+import {MixedPermissionSet, PartialPermissionSet, PermissionKey} from 'app/common/ACLPermissions';
+import {AclRulesBundle, AclRulesImportOptions, AclRulesImportResult} from 'app/common/ACLRulesBundle';
 import {ActionGroup} from 'app/common/ActionGroup';
 import {AssistanceRequest, AssistanceResponse} from 'app/common/Assistance';
+import {CellHistoryEntry} from 'app/common/CellHistory';
 import {BulkAddRecord, CellValue, TableDataAction, UserAction} from 'app/common/DocActions';
 import {DocStateComparison} from 'app/common/DocState';
+import {ImportConfig, ImportParseOptions, MergeOptions, MergeOptionsMap, TransformRule,
+        TransformRuleMap} from 'app/common/ImportConfig';
 import {PredicateFormulaProperties} from 'app/common/PredicateFormula';
-import {FetchUrlOptions, UploadResult} from 'app/common/uploads';
+import {SingleCell} from 'app/common/TableData';
+import {UserInfo} from 'app/common/User';
+import {FetchUrlOptions, JsonApiSource, UploadResult} from 'app/common/uploads';
 import {PermissionData, Proposal, UserAccessData} from 'app/common/UserAPI';
-import {ParseOptions} from 'app/plugin/FileParserAPI';
 import {AccessTokenOptions, AccessTokenResult, UIRowId} from 'app/plugin/GristAPI';
 import {IMessage} from 'grain-rpc';
 
+// Types of import options and saved import configurations have their own module, for type checks.
+export * from 'app/common/ImportConfig';
+
 export interface ApplyUAOptions {
   desc?: string;      // Overrides the description of the action.
   otherId?: number;   // For undo/redo; the actionNum of the original action to which it applies.
@@ -41,65 +50,6 @@ export interface DataSourceTransformed {
   transforms: TransformRuleMap[];
 }
 
-export interface TransformRuleMap {
-  [origTableName: string]: TransformRule;
-}
-
-// Special values for import destinations; null means "new table", "" means skip table.
-// Both special options exposed as consts.
-export const NEW_TABLE = null;
-export const SKIP_TABLE = "";
-export type DestId = string | typeof NEW_TABLE | typeof SKIP_TABLE;
-
-/**
- * How to import data into an existing table or a new one.
- */
-export interface TransformRule {
-  /**
-   * The destination table for the transformed data. If null, the data is imported into a new table.
-   */
-  destTableId: DestId;
-  /**
-   * The list of columns to update (existing or new columns).
-   */
-  destCols: TransformColumn[];
-  /**
-   * The list of columns to read from the source table (just the headers name).
-   */
-  sourceCols: string[];
-}
-
-/**
- * Existing or new column to update. It is created based on the temporary table that was imported.
- */
-export interface TransformColumn {
-  /**
-   * Label of the column to update. For new table it is the same name as the source column.
-   */
-  label: string;
-  /**
-   * Column id to update (null for a new table).
-   */
-  colId: string|null;
-  /**
-   * Type of the column (important for new columns).
-   */
-  type: string;
-  /**
-   * Formula to apply to the target column.
-   */
-  formula: string;
-  /**
-   * Widget options when we need to create a column (copied from the source).
-   */
-  widgetOptions: string;
-}
-
-export interface ImportParseOptions extends ParseOptions {
-  delimiter?: string;
-  encoding?: string;
-}
-
 export interface ImportResult {
   options: ImportParseOptions;
   tables: ImportTableResult[];
@@ -110,6 +60,8 @@ export interface ImportTableResult {
   uploadFileIndex: number;      // Index into upload.files array, for the file responsible for this table.
   origTableName: string;
   transformSectionRef: number;
+  // The destination chosen for the table, or null for a new table. Once the import is finished,
+  // the id of the table that the data was imported into.
   destTableId: string|null;
 }
 
@@ -118,20 +70,6 @@ export interface ImportOptions {
   mergeOptionMaps?: MergeOptionsMap[]; // Options for merging fields, indexed by uploadFileIndex.
 }
 
-export interface MergeOptionsMap {
-  // Map of original GristTable name of imported table to its merge options, if any.
-  [origTableName: string]: MergeOptions|undefined;
-}
-
-export interface MergeOptions {
-  mergeCols: string[];          // Columns to use as merge keys for incremental imports.
-  mergeStrategy: MergeStrategy; // Determines how matched records should be merged between 2 tables.
-}
-
-export interface MergeStrategy {
-  type: 'replace-with-nonblank-source' | 'replace-all-fields' | 'replace-blank-fields-only';
-}
-
 /**
  * Represents a query for Grist data. The tableId is required. An empty set of filters indicates
  * the full table. Examples:
@@ -261,6 +199,44 @@ export interface AclRuleProblem {
   comment: string;
 }
 
+/**
+ * What to simulate in `simulateAccessRules()`: access of a user to a cell. The user is the one
+ * with the given email (as in "View As"), or the caller if none is given, with any of the basic
+ * user attributes (e.g. Access or Email) replaced by those in `userAttributes`. If `rowId` is
+ * omitted, only rules that don't depend on the row can be settled.
+ */
+export interface AclSimulationRequest {
+  userEmail?: string;
+  userAttributes?: {[name: string]: CellValue};
+  tableId: string;
+  rowId?: number;
+  colId: string;
+}
+
+/**
+ * The outcome of one rule, in the order in which rules are considered.
+ */
+export interface AclSimulationStep {
+  resource: {tableId: string, colIds: string};  // As in _grist_ACLResources, e.g. '*' or 'A,B'.
+  aclFormula: string;   // Empty for the default rule of a resource.
+  permissionsText: string;
+  memo?: string;
+  // Whether the condition matched. 'needsRow' if it depends on the row and no row was given,
+  // 'error' if evaluating it failed (with the message in `error`).
+  result: boolean | 'needsRow' | 'error';
+  error?: string;
+  // The permissions this step settled, i.e. that no earlier step had settled.
+  decides: PermissionKey[];
+  // The permissions settled by this and all earlier steps.
+  permissions: PartialPermissionSet;
+}
+
+export interface AclSimulationResult {
+  user: UserInfo;     // The user as seen by access rules, including user attributes.
+  steps: AclSimulationStep[];
+  permissions: MixedPermissionSet;
+}
+
 export function getTableTitle(table: AclTableDescription): string {
   let {title} = table;
   if (table.groupByColLabels) {
@@ -427,6 +403,27 @@ export interface ActiveDocAPI {
   generateImportDiff(hiddenTableId: string, transformRule: TransformRule,
                       mergeOptions: MergeOptions): Promise<DocStateComparison>;
 
+  /**
+   * Returns the import configurations saved in the document, sorted by name.
+   */
+  getImportConfigs(): Promise<ImportConfig[]>;
+
+  /**
+   * Saves an import configuration in the document, replacing any existing one with the same name.
+   */
+  saveImportConfig(config: ImportConfig): Promise<void>;
+
+  /**
+   * Removes the import configuration called `name` from the document.
+   */
+  removeImportConfig(name: string): Promise<void>;
+
+  /**
+   * Imports the files from the given upload using the import configuration called `name`, and
+   * cleans up the upload.
+   */
+  runImportConfig(name: string, uploadId: number): Promise<ImportResult>;
+
   /**
    * Saves attachments from a given upload and creates an entry for them in the database. It
    * returns the list of rowIds for the rows created in the _grist_Attachments table.
@@ -449,6 +446,12 @@ export interface ActiveDocAPI {
    */
   fetchURL(url: string, options?: FetchUrlOptions): Promise<UploadResult>;
 
+  /**
+   * Fetches records from a JSON REST endpoint, following its pagination, into a new upload of a
+   * single JSON file, which can then be imported like any other upload.
+   */
+  fetchJsonApi(source: JsonApiSource): Promise<UploadResult>;
+
   /**
    * Find and return a list of auto-complete suggestions that start with `txt`, when editing a
    * formula in table `tableId` and column `columnId`.
@@ -460,6 +463,11 @@ export interface ActiveDocAPI {
    */
   getActionSummaries(): Promise<ActionGroup[]>;
 
+  /**
+   * Get the changes made to a cell by recent actions, most recent first.
+   */
+  getCellHistory(cell: SingleCell): Promise<CellHistoryEntry[]>;
+
   /**
    *  Initiates user actions bandling for undo.
    */
@@ -508,6 +516,22 @@ export interface ActiveDocAPI {
    */
   getAclResources(): Promise<AclResources>;
 
+  /**
+   * Evaluates access rules for a cell, as seen by a given user, listing how each rule that
+   * applies to it was decided. Only available to owners.
+   */
+  simulateAccessRules(request: AclSimulationRequest): Promise<AclSimulationResult>;
+
+  /**
+   * Returns the access rules of the document as a portable bundle.
+   */
+  exportAccessRules(): Promise<AclRulesBundle>;
+
+  /**
+   * Replaces the access rules of the document with those of a bundle. Only available to owners.
+   */
+  importAccessRules(bundle: AclRulesBundle, options?: AclRulesImportOptions): Promise<AclRulesImportResult>;
+
   /**
    * Wait for document to finish initializing.
    */
@@ -40,6 +40,8 @@ export type ApiErrorCode =
   | 'UserNotConfirmed'
   | 'FormNotFound'
   | 'FormNotPublished'
+  | 'ShareExpired'
+  | 'SharePasswordRequired'
   | 'ContextLimitExceeded';
 
 /**
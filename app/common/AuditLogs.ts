@@ -0,0 +1,151 @@
+import { StringUnion } from "app/common/StringUnion";
+
+export const AuditEventAction = StringUnion(
+  "config.create",
+  "config.delete",
+  "config.update",
+  "document.change_access",
+  "document.clear_all_webhook_queues",
+  "document.clear_webhook_queue",
+  "document.create",
+  "document.delete",
+  "document.deliver_webhook_events",
+  "document.duplicate",
+  "document.fork",
+  "document.modify",
+  "document.move",
+  "document.move_to_trash",
+  "document.open",
+  "document.pin",
+  "document.reload",
+  "document.remove_import_config",
+  "document.rename",
+  "document.replace",
+  "document.restore_from_trash",
+  "document.run_sql_query",
+  "document.save_import_config",
+  "document.send_to_google_drive",
+  "document.truncate_history",
+  "document.unpin",
+  "site.change_access",
+  "site.create",
+  "site.delete",
+  "site.rename",
+  "user.change_name",
+  "user.create_api_key",
+  "user.delete",
+  "user.delete_api_key",
+  "workspace.change_access",
+  "workspace.create",
+  "workspace.delete",
+  "workspace.move_to_trash",
+  "workspace.rename",
+  "workspace.restore_from_trash"
+);
+
+export type AuditEventAction = typeof AuditEventAction.type;
+
+/**
+ * An audit event as returned by the audit log API. See `AuditEvent` in
+ * `app/server/lib/AuditEvent.ts` for the full description of each field.
+ */
+export interface AuditLogEvent {
+  id: string;
+  action: AuditEventAction;
+  actor: {
+    type: "user" | "guest" | "system" | "unknown";
+    user?: {
+      id: number;
+      name: string;
+      email: string;
+    };
+  };
+  context: {
+    site?: {
+      id: number;
+      name?: string;
+      domain?: string | null;
+    };
+    ip_address?: string;
+    user_agent?: string;
+    session_id?: string;
+  };
+  timestamp: string;
+  details?: unknown;
+}
+
+/**
+ * Filters for searching stored audit events. All filters are optional, and
+ * only events matching all of the given ones are returned.
+ */
+export interface AuditLogEventFilters {
+  /**
+   * Email of the user who performed the action.
+   */
+  user?: string;
+  /**
+   * The action that was performed.
+   */
+  action?: AuditEventAction;
+  /**
+   * ID of the document the action concerned.
+   */
+  docId?: string;
+  /**
+   * Earliest time of events to include, in RFC 3339 format (inclusive).
+   */
+  since?: string;
+  /**
+   * Latest time of events to include, in RFC 3339 format (exclusive).
+   */
+  until?: string;
+}
+
+export interface AuditLogEventsQuery extends AuditLogEventFilters {
+  /**
+   * Maximum number of events to return. Defaults to 100, and may not exceed 1000.
+   */
+  limit?: number;
+  /**
+   * Where to continue from, as returned in `nextCursor` of a previous page.
+   */
+  cursor?: string;
+}
+
+export interface AuditLogEventsPage {
+  /**
+   * Matching events, most recent first.
+   */
+  events: AuditLogEvent[];
+  /**
+   * Cursor for fetching the next page, or null if there are no more events.
+   */
+  nextCursor: string | null;
+}
+
+export const DEFAULT_AUDIT_LOG_EVENTS_LIMIT = 100;
+export const MAX_AUDIT_LOG_EVENTS_LIMIT = 1000;
+
+/**
+ * How delivery of audit events to a streaming destination has been going
+ * since the server that reports it started.
+ */
+export interface AuditLogStreamingStatus {
+  destinationId: string;
+  /**
+   * When events were last delivered successfully, or null if never.
+   */
+  lastDeliveredAt: string | null;
+  /**
+   * When delivery last failed, or null if it never has.
+   */
+  lastFailedAt: string | null;
+  /**
+   * Error of the last failed delivery, or null if it never has.
+   */
+  lastError: string | null;
+  /**
+   * Number of events that could not be delivered.
+   */
+  failedEventsCount: number;
+}
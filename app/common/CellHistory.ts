@@ -0,0 +1,63 @@
+import {ActionGroup} from 'app/common/ActionGroup';
+import {getTableIdBefore} from 'app/common/ActionSummary';
+import {CellValue} from 'app/common/DocActions';
+import {SingleCell} from 'app/common/TableData';
+
+/**
+ * A single change to the value of a cell, as found in the action history.
+ */
+export interface CellHistoryEntry {
+  actionNum: number;
+  actionHash: string;
+  time: number;           // when the change was made, in ms since epoch
+  user: string;           // who made the change
+  tableId: string;        // table and column ids at the time of the change, which may differ
+  colId: string;          // from current ones if they were renamed since
+  // Values before and after the change. A value is absent if it is unknown (e.g. because the
+  // change was part of a large bulk action), or if the cell didn't exist before the change.
+  before?: CellValue;
+  after?: CellValue;
+  rowAdded?: boolean;     // set if the change added the row
+}
+
+/**
+ * Finds the changes to the given cell in `groups` (which should be ordered from earliest to
+ * latest, and include action summaries), and returns them most recent first. The cell is
+ * identified by its current tableId, colId and rowId; renames of its table and column are
+ * followed back through history. The search stops at the action that added the row, column, or
+ * table, since earlier changes with the same ids concern a different cell.
+ */
+export function getCellHistory(groups: ActionGroup[], cell: SingleCell): CellHistoryEntry[] {
+  const entries: CellHistoryEntry[] = [];
+  let {tableId, colId} = cell;
+  const {rowId} = cell;
+  for (const group of [...groups].reverse()) {
+    const summary = group.actionSummary;
+    const td = summary.tableDeltas[tableId];
+    if (td) {
+      const delta = td.columnDeltas[colId]?.[rowId];
+      const rowAdded = td.addRows.includes(rowId);
+      if (delta) {
+        const [before, after] = delta;
+        entries.push({
+          actionNum: group.actionNum,
+          actionHash: group.actionHash,
+          time: group.time,
+          user: group.user,
+          tableId,
+          colId,
+          ...(Array.isArray(before) && !rowAdded) && {before: before[0]},
+          ...Array.isArray(after) && {after: after[0]},
+          ...rowAdded && {rowAdded},
+        });
+      }
+      const colIdBefore = getTableIdBefore(td.columnRenames, colId);
+      if (rowAdded || colIdBefore === null) { break; }
+      colId = colIdBefore;
+    }
+    const tableIdBefore = getTableIdBefore(summary.tableRenames, tableId);
+    if (tableIdBefore === null) { break; }
+    tableId = tableIdBefore;
+  }
+  return entries;
+}
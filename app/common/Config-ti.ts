@@ -19,9 +19,9 @@ export const ConfigOrg = t.iface([], {
   "domain": t.union("string", "null"),
 });
 
-export const ConfigKey = t.lit("audit_log_streaming_destinations");
+export const ConfigKey = t.union(t.lit("audit_log_streaming_destinations"), t.lit("email_templates"));
 
-export const ConfigValue = t.name("AuditLogStreamingDestinations");
+export const ConfigValue = t.union("AuditLogStreamingDestinations", "EmailTemplates");
 
 export const AuditLogStreamingDestinations = t.array("AuditLogStreamingDestination");
 
@@ -30,9 +30,34 @@ export const AuditLogStreamingDestination = t.iface([], {
   "name": "AuditLogStreamingDestinationName",
   "url": "string",
   "token": t.opt("string"),
+  "http": t.opt("AuditLogHttpDestinationOptions"),
 });
 
-export const AuditLogStreamingDestinationName = t.union(t.lit("splunk"), t.lit("other"));
+export const AuditLogStreamingDestinationName = t.union(t.lit("splunk"), t.lit("syslog"), t.lit("http"), t.lit("other"));
+
+export const AuditLogHttpDestinationOptions = t.iface([], {
+  "batchSize": t.opt("number"),
+  "flushIntervalMs": t.opt("number"),
+  "maxRetries": t.opt("number"),
+  "headers": t.opt(t.iface([], {
+    [t.indexKey]: "string",
+  })),
+  "fieldMapping": t.opt(t.iface([], {
+    [t.indexKey]: "string",
+  })),
+});
+
+export const EmailTemplates = t.iface([], {
+  [t.indexKey]: t.iface([], {
+    [t.indexKey]: "EmailTemplate",
+  }),
+});
+
+export const EmailTemplate = t.iface([], {
+  "subject": t.opt("string"),
+  "html": t.opt("string"),
+  "text": t.opt("string"),
+});
 
 const exportedTypeSuite: t.ITypeSuite = {
   Config,
@@ -42,5 +67,8 @@ const exportedTypeSuite: t.ITypeSuite = {
   AuditLogStreamingDestinations,
   AuditLogStreamingDestination,
   AuditLogStreamingDestinationName,
+  AuditLogHttpDestinationOptions,
+  EmailTemplates,
+  EmailTemplate,
 };
 export default exportedTypeSuite;
@@ -16,23 +16,78 @@ export interface ConfigOrg {
   domain: string | null;
 }
 
-export type ConfigKey = "audit_log_streaming_destinations";
+export type ConfigKey = "audit_log_streaming_destinations" | "email_templates";
 
-export type ConfigValue = AuditLogStreamingDestinations;
+export type ConfigValue = AuditLogStreamingDestinations | EmailTemplates;
 
 export type AuditLogStreamingDestinations = AuditLogStreamingDestination[];
 
 export interface AuditLogStreamingDestination {
   id: string;
   name: AuditLogStreamingDestinationName;
+  /**
+   * Where events are sent. For "syslog" destinations, the scheme of the URL
+   * is the transport to use: `udp://`, `tcp://` or `tls://`.
+   */
   url: string;
   token?: string;
+  /**
+   * Delivery options of "http" destinations.
+   */
+  http?: AuditLogHttpDestinationOptions;
 }
 
-export type AuditLogStreamingDestinationName = "splunk" | "other";
+export type AuditLogStreamingDestinationName = "splunk" | "syslog" | "http" | "other";
+
+export interface AuditLogHttpDestinationOptions {
+  /**
+   * Maximum number of events sent in a single request. Defaults to 100.
+   */
+  batchSize?: number;
+  /**
+   * How long to wait for more events before sending a partial batch, in
+   * milliseconds. Defaults to 5000.
+   */
+  flushIntervalMs?: number;
+  /**
+   * How many times to retry a failed request, with exponential backoff.
+   * Defaults to 3.
+   */
+  maxRetries?: number;
+  /**
+   * Headers to include in each request, such as for authentication.
+   */
+  headers?: {[name: string]: string};
+  /**
+   * If set, each event is sent as an object with these fields, whose values
+   * are the properties of the event at the given dot-separated paths (e.g.
+   * `{"user": "actor.user.email"}`). Otherwise, events are sent whole.
+   */
+  fieldMapping?: {[field: string]: string};
+}
+
+/**
+ * Overrides of the templates of notification emails, by locale (e.g. "en" or
+ * "fr-FR") and then by template name (e.g. "invite"). Only installation-wide
+ * configs are used.
+ */
+export interface EmailTemplates {
+  [locale: string]: {[templateName: string]: EmailTemplate};
+}
+
+/**
+ * An email template. Each part is a Handlebars template, rendered with the
+ * data of the notification. Missing parts are taken from the default template.
+ */
+export interface EmailTemplate {
+  subject?: string;
+  html?: string;
+  text?: string;
+}
 
 const {
   AuditLogStreamingDestinations,
+  EmailTemplates,
   AuditLogStreamingDestinationName,
   ConfigKey,
 } = createCheckers(ConfigsTI);
@@ -45,4 +100,5 @@ export const ConfigKeyChecker = ConfigKey as CheckerT<ConfigKey>;
 export const ConfigValueCheckers = {
   audit_log_streaming_destinations:
     AuditLogStreamingDestinations as CheckerT<AuditLogStreamingDestinations>,
+  email_templates: EmailTemplates as CheckerT<EmailTemplates>,
 };
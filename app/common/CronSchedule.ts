@@ -0,0 +1,139 @@
+import moment from 'moment-timezone';
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  {name: 'minute', min: 0, max: 59},
+  {name: 'hour', min: 0, max: 23},
+  {name: 'day of month', min: 1, max: 31},
+  {name: 'month', min: 1, max: 12,
+   names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']},
+  // Both 0 and 7 mean Sunday.
+  {name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']},
+];
+
+// How far ahead nextRun() looks before concluding that a schedule never fires (e.g. "0 0 30 2 *").
+const MAX_LOOKAHEAD_DAYS = 5 * 366;
+
+/**
+ * A parsed five-field cron expression ("minute hour day-of-month month day-of-week"), as in
+ * "0 9 * * 1" for every Monday at 9:00. Each field may be "*", a number, a range ("1-5"), a
+ * list ("1,15"), or a step ("*\/15", "0-30/10"). Months and days of week may also be given by
+ * their three-letter English names. As with standard cron, when both day-of-month and
+ * day-of-week are restricted, a day matches if either of them does.
+ */
+export class CronSchedule {
+  /**
+   * Parses a cron expression, throwing an Error with a user-friendly message if it is invalid.
+   */
+  public static parse(expression: string): CronSchedule {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== FIELDS.length) {
+      throw new Error(`Cron expression must have ${FIELDS.length} fields: "${expression}"`);
+    }
+    const values = parts.map((part, i) => parseField(part, FIELDS[i]));
+    // Sunday may be given as 7, but is matched as 0.
+    if (values[4].delete(7)) { values[4].add(0); }
+    return new CronSchedule(values, parts[2] === '*', parts[4] === '*');
+  }
+
+  private constructor(
+    private _values: Array<Set<number>>,
+    private _anyDayOfMonth: boolean,
+    private _anyDayOfWeek: boolean,
+  ) {}
+
+  /**
+   * Returns whether the schedule fires during the minute containing `time` (in ms since epoch),
+   * interpreted in the given timezone.
+   */
+  public matches(time: number, timezone: string): boolean {
+    const m = moment.tz(time, timezone);
+    return this._matchesDay(m) && this._values[1].has(m.hours()) && this._values[0].has(m.minutes());
+  }
+
+  /**
+   * Returns the start of the first minute strictly after `time` (in ms since epoch) at which the
+   * schedule fires, interpreted in the given timezone, or null if it never fires.
+   */
+  public nextRun(time: number, timezone: string): number|null {
+    const m = moment.tz(time, timezone).startOf('minute').add(1, 'minute');
+    const limit = time + MAX_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000;
+    while (m.valueOf() < limit) {
+      if (!this._values[3].has(m.month() + 1)) {
+        m.add(1, 'month').startOf('month');
+      } else if (!this._matchesDay(m)) {
+        m.add(1, 'day').startOf('day');
+      } else if (!this._values[1].has(m.hours())) {
+        m.add(1, 'hour').startOf('hour');
+      } else if (!this._values[0].has(m.minutes())) {
+        m.add(1, 'minute');
+      } else {
+        return m.valueOf();
+      }
+    }
+    return null;
+  }
+
+  private _matchesDay(m: moment.Moment): boolean {
+    if (!this._values[3].has(m.month() + 1)) { return false; }
+    const dayOfMonth = this._values[2].has(m.date());
+    const dayOfWeek = this._values[4].has(m.day());
+    if (this._anyDayOfMonth || this._anyDayOfWeek) {
+      return dayOfMonth && dayOfWeek;
+    }
+    return dayOfMonth || dayOfWeek;
+  }
+}
+
+/**
+ * Returns whether the given string is a timezone known to moment-timezone.
+ */
+export function isValidTimezone(timezone: string): boolean {
+  return Boolean(moment.tz.zone(timezone));
+}
+
+function parseField(text: string, spec: FieldSpec): Set<number> {
+  const result = new Set<number>();
+  for (const item of text.split(',')) {
+    const [range, stepText, ...rest] = item.split('/');
+    const step = stepText === undefined ? 1 : parseNumber(stepText, spec);
+    if (rest.length || step < 1) { throw invalidField(text, spec); }
+    let start: number, end: number;
+    if (range === '*') {
+      [start, end] = [spec.min, spec.max];
+    } else {
+      const [startText, endText, ...more] = range.split('-');
+      if (more.length) { throw invalidField(text, spec); }
+      start = parseValue(startText, spec);
+      // "5/15" means starting at 5, every 15, up to the maximum.
+      end = endText !== undefined ? parseValue(endText, spec) : (stepText !== undefined ? spec.max : start);
+    }
+    if (start > end) { throw invalidField(text, spec); }
+    for (let value = start; value <= end; value += step) {
+      result.add(value);
+    }
+  }
+  return result;
+}
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const nameIndex = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = nameIndex >= 0 ? nameIndex + (spec.min === 1 ? 1 : 0) : parseNumber(text, spec);
+  if (value < spec.min || value > spec.max) { throw invalidField(text, spec); }
+  return value;
+}
+
+function parseNumber(text: string, spec: FieldSpec): number {
+  if (!/^\d+$/.test(text)) { throw invalidField(text, spec); }
+  return parseInt(text, 10);
+}
+
+function invalidField(text: string, spec: FieldSpec) {
+  return new Error(`Invalid ${spec.name} in cron expression: "${text}"`);
+}
@@ -205,7 +205,9 @@ export const SYSTEM_ACTIONS = new Set([
   // Part of the formula calculation process for formulas that use the `REQUEST` function.
   'RespondToRequests',
   // Performed at shutdown to clean up temporary helper columns and tables.
-  'RemoveStaleObjects'
+  'RemoveStaleObjects',
+  // Performed by webhooks scheduled to recompute trigger formulas.
+  'RecalcTriggerFormulas',
 ]);
 
 export function getNumRows(action: DocAction): number {
@@ -16,6 +16,16 @@ export interface ObjMetadata {
   h?: string;     // actionHash
   n?: number;     // actionNum
   label?: string;
+  pinned?: boolean; // if set, the version is never pruned
+}
+
+/**
+ * Changes to the metadata of an existing document version that users may make. A null label
+ * removes the label.
+ */
+export interface SnapshotMetadataUpdate {
+  label?: string|null;
+  pinned?: boolean;
 }
 
 export interface ObjSnapshotWithMetadata extends ObjSnapshot {
@@ -65,5 +75,6 @@ export function toGristMetadata(metadata: ExternalMetadata): ObjMetadata {
     if (metadata[key]) { result[key] = metadata[key]; }
   }
   if (metadata.n) { result.n = parseInt(metadata.n, 10); }
+  if (metadata.pinned === 'true') { result.pinned = true; }
   return result;
 }
@@ -1,4 +1,125 @@
+import {CellValue} from 'app/common/DocActions';
+
 /**
  * Number of fields to show in the form by default.
  */
 export const INITIAL_FIELDS_COUNT = 9;
+
+/**
+ * How an answer is compared by a FormConditionRule.
+ */
+export type FormConditionOperator = 'is' | 'isNot' | 'contains' | 'isEmpty' | 'isNotEmpty';
+
+export const FORM_CONDITION_OPERATORS: FormConditionOperator[] = ['is', 'isNot', 'contains', 'isEmpty', 'isNotEmpty'];
+
+/**
+ * A check of the answer to an earlier field of a form.
+ */
+export interface FormConditionRule {
+  /** The id of the field (i.e. the `leaf` of its layout node) whose answer is checked. */
+  leaf: number;
+  op: FormConditionOperator;
+  /** The value to compare the answer to. Unused by `isEmpty` and `isNotEmpty`. */
+  value?: string;
+}
+
+/**
+ * Condition for showing a node of a form layout, stored as the `visibleIf` property of the node.
+ * Hidden fields are skipped: they aren't required, and their answers aren't saved.
+ */
+export interface FormCondition {
+  /** Whether all rules must hold, or any one of them. Defaults to `"all"`. */
+  match?: 'all' | 'any';
+  rules: FormConditionRule[];
+}
+
+/**
+ * The parts of a form layout node that visibility depends on.
+ */
+export interface FormConditionalNode {
+  leaf?: number;
+  visibleIf?: FormCondition|null;
+  children?: FormConditionalNode[];
+}
+
+/**
+ * Returns the answer `value` as a list of strings, which is empty when there is no answer.
+ *
+ * Answers may be values from the form inputs (e.g. "12" for a number) or cell values (e.g.
+ * ['L', 1, 2] for a Reference List), so they are compared as strings.
+ */
+export function getFormAnswerStrings(value: CellValue|undefined): string[] {
+  if (value === null || value === undefined || value === '' || value === false) { return []; }
+  if (Array.isArray(value)) {
+    return value[0] === 'L' ? value.slice(1).map(String) : [];
+  }
+  return [String(value)];
+}
+
+/**
+ * Returns whether `condition` holds, given a function returning the answer to each field.
+ * A missing or empty condition always holds.
+ */
+export function isFormConditionMet(
+  condition: FormCondition|null|undefined,
+  getAnswer: (leaf: number) => CellValue|undefined,
+): boolean {
+  const rules = condition?.rules ?? [];
+  if (rules.length === 0) { return true; }
+  const check = (rule: FormConditionRule) => isFormRuleMet(rule, getFormAnswerStrings(getAnswer(rule.leaf)));
+  return condition?.match === 'any' ? rules.some(check) : rules.every(check);
+}
+
+function isFormRuleMet(rule: FormConditionRule, answers: string[]): boolean {
+  const value = rule.value ?? '';
+  switch (rule.op) {
+    case 'is': return answers.includes(value);
+    case 'isNot': return !answers.includes(value);
+    case 'contains': {
+      const needle = value.toLowerCase();
+      return answers.some(answer => answer.toLowerCase().includes(needle));
+    }
+    case 'isEmpty': return answers.length === 0;
+    case 'isNotEmpty': return answers.length > 0;
+    default: return true;
+  }
+}
+
+/**
+ * Returns the nodes of the form layout under `root` that are hidden by their own condition or
+ * by that of a containing node.
+ *
+ * Nodes are visited in the order of the form, and the answers to hidden fields count as blank, so
+ * a field that depends on a hidden field is checked as if that field were left empty.
+ */
+export function getHiddenFormNodes<T extends FormConditionalNode>(
+  root: T,
+  getAnswer: (leaf: number) => CellValue|undefined,
+): Set<T> {
+  const hidden = new Set<T>();
+  const hiddenLeaves = new Set<number>();
+  const visit = (node: T, parentHidden: boolean) => {
+    const isHidden = parentHidden || !isFormConditionMet(node.visibleIf,
+      leaf => hiddenLeaves.has(leaf) ? null : getAnswer(leaf));
+    if (isHidden) {
+      hidden.add(node);
+      if (node.leaf) { hiddenLeaves.add(node.leaf); }
+    }
+    for (const child of (node.children ?? []) as T[]) {
+      if (child) { visit(child, isHidden); }
+    }
+  };
+  visit(root, false);
+  return hidden;
+}
+
+/**
+ * Returns the ids of the fields in the form layout under `root` that are hidden by a condition.
+ */
+export function getHiddenFormLeaves(
+  root: FormConditionalNode,
+  getAnswer: (leaf: number) => CellValue|undefined,
+): Set<number> {
+  const leaves = [...getHiddenFormNodes(root, getAnswer)].map(node => node.leaf);
+  return new Set(leaves.filter((leaf): leaf is number => Boolean(leaf)));
+}
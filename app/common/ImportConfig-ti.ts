@@ -0,0 +1,79 @@
+/**
+ * This module was automatically generated by `ts-interface-builder`
+ */
+import * as t from "ts-interface-checker";
+// tslint:disable:object-literal-key-quotes
+
+export const TransformRuleMap = t.iface([], {
+  [t.indexKey]: "TransformRule",
+});
+
+export const DestId = t.union("string", "null");
+
+export const TransformRule = t.iface([], {
+  "destTableId": "DestId",
+  "destCols": t.array("TransformColumn"),
+  "sourceCols": t.array("string"),
+});
+
+export const TransformColumn = t.iface([], {
+  "label": "string",
+  "colId": t.union("string", "null"),
+  "type": "string",
+  "formula": "string",
+  "widgetOptions": "string",
+});
+
+export const ImportParseOptions = t.iface(["ParseOptions"], {
+  "delimiter": t.opt("string"),
+  "encoding": t.opt("string"),
+});
+
+export const MergeOptionsMap = t.iface([], {
+  [t.indexKey]: t.union("MergeOptions", "undefined"),
+});
+
+export const MergeOptions = t.iface([], {
+  "mergeCols": t.array("string"),
+  "mergeStrategy": "MergeStrategy",
+  "missingRecordsStrategy": t.opt("MissingRecordsStrategy"),
+});
+
+export const MergeStrategy = t.iface([], {
+  "type": t.union(t.lit('replace-with-nonblank-source'), t.lit('replace-all-fields'), t.lit('replace-blank-fields-only')),
+});
+
+export const MissingRecordsStrategy = t.iface([], {
+  "type": t.union(t.lit('keep'), t.lit('remove'), t.lit('flag')),
+  "flagColId": t.opt("string"),
+});
+
+export const ImportConfig = t.iface([], {
+  "name": "string",
+  "source": "ImportConfigSource",
+  "parseOptions": "ImportParseOptions",
+  "transforms": "TransformRuleMap",
+  "mergeOptions": "MergeOptionsMap",
+});
+
+export const ImportConfigSource = t.iface([], {
+  "type": t.union(t.lit('file'), t.lit('url'), t.lit('json-api')),
+  "url": t.opt("string"),
+  "jsonApi": t.opt("JsonApiSource"),
+  "headerNames": t.opt(t.array("string")),
+});
+
+const exportedTypeSuite: t.ITypeSuite = {
+  TransformRuleMap,
+  DestId,
+  TransformRule,
+  TransformColumn,
+  ImportParseOptions,
+  MergeOptionsMap,
+  MergeOptions,
+  MergeStrategy,
+  MissingRecordsStrategy,
+  ImportConfig,
+  ImportConfigSource,
+};
+export default exportedTypeSuite;
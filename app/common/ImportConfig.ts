@@ -0,0 +1,118 @@
+/**
+ * Types describing how imported data is transformed and merged into a document, and the import
+ * configurations saved in a document to re-run an import. Saved configurations are checked
+ * against these types (see ImportConfig-ti.ts).
+ */
+import {JsonApiSource} from 'app/common/uploads';
+import {ParseOptions} from 'app/plugin/FileParserAPI';
+
+export interface TransformRuleMap {
+  [origTableName: string]: TransformRule;
+}
+
+// Special values for import destinations; null means "new table", "" means skip table.
+// Both special options exposed as consts.
+export const NEW_TABLE = null;
+export const SKIP_TABLE = "";
+export type DestId = string | null;   // That is, string | typeof NEW_TABLE | typeof SKIP_TABLE.
+
+/**
+ * How to import data into an existing table or a new one.
+ */
+export interface TransformRule {
+  /**
+   * The destination table for the transformed data. If null, the data is imported into a new table.
+   */
+  destTableId: DestId;
+  /**
+   * The list of columns to update (existing or new columns).
+   */
+  destCols: TransformColumn[];
+  /**
+   * The list of columns to read from the source table (just the headers name).
+   */
+  sourceCols: string[];
+}
+
+/**
+ * Existing or new column to update. It is created based on the temporary table that was imported.
+ */
+export interface TransformColumn {
+  /**
+   * Label of the column to update. For new table it is the same name as the source column.
+   */
+  label: string;
+  /**
+   * Column id to update (null for a new table).
+   */
+  colId: string|null;
+  /**
+   * Type of the column (important for new columns).
+   */
+  type: string;
+  /**
+   * Formula to apply to the target column.
+   */
+  formula: string;
+  /**
+   * Widget options when we need to create a column (copied from the source).
+   */
+  widgetOptions: string;
+}
+
+export interface ImportParseOptions extends ParseOptions {
+  delimiter?: string;
+  encoding?: string;
+}
+
+export interface MergeOptionsMap {
+  // Map of original GristTable name of imported table to its merge options, if any.
+  [origTableName: string]: MergeOptions|undefined;
+}
+
+export interface MergeOptions {
+  mergeCols: string[];          // Columns to use as merge keys for incremental imports.
+  mergeStrategy: MergeStrategy; // Determines how matched records should be merged between 2 tables.
+  // Determines what happens to destination records that have no match in the source. Defaults to 'keep'.
+  missingRecordsStrategy?: MissingRecordsStrategy;
+}
+
+export interface MergeStrategy {
+  type: 'replace-with-nonblank-source' | 'replace-all-fields' | 'replace-blank-fields-only';
+}
+
+/**
+ * How an incremental import treats destination records whose merge key is absent from the source:
+ *  - 'keep' leaves them untouched.
+ *  - 'remove' deletes them, so that the destination mirrors the source.
+ *  - 'flag' sets the Bool column `flagColId` to true on them, and back to false on flagged records
+ *    that are present in the source again.
+ */
+export interface MissingRecordsStrategy {
+  type: 'keep' | 'remove' | 'flag';
+  flagColId?: string;
+}
+
+/**
+ * A named import configuration, saved in the document so that new versions of the same source
+ * can be imported again without redoing the parse options, column mapping and merge options.
+ * When re-run, the configuration applies to each file of the new upload.
+ */
+export interface ImportConfig {
+  name: string;
+  source: ImportConfigSource;
+  parseOptions: ImportParseOptions;
+  transforms: TransformRuleMap;   // Transform rules, by original table name (e.g. sheet name).
+  mergeOptions: MergeOptionsMap;  // Merge options, by original table name.
+}
+
+export interface ImportConfigSource {
+  // 'file' if data was imported from uploaded files, 'url' if fetched from `url`, and 'json-api'
+  // if records were fetched from the JSON REST endpoint described by `jsonApi`.
+  type: 'file' | 'url' | 'json-api';
+  url?: string;
+  // Saved without its headers, which often hold credentials.
+  jsonApi?: JsonApiSource;
+  // Names of the headers sent to the JSON API. Their values must be given again on each run.
+  headerNames?: string[];
+}
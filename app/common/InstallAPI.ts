@@ -27,6 +27,10 @@ export interface PrefWithSource<T> {
 
 export type PrefSource = 'environment-variable' | 'preferences';
 
+export interface NotificationsStatus {
+  enabled: boolean;
+}
+
 
 export interface InstallAPI {
   getInstallPrefs(): Promise<InstallPrefsWithSources>;
@@ -37,6 +41,11 @@ export interface InstallAPI {
   checkUpdates(): Promise<LatestVersionAvailable>;
   getChecks(): Promise<{probes: BootProbeInfo[]}>;
   runCheck(id: string): Promise<BootProbeResult>;
+  getNotificationsStatus(): Promise<NotificationsStatus>;
+  /**
+   * Sends a test notification email to the current user, returning the address it was sent to.
+   */
+  sendTestEmail(): Promise<{email: string}>;
 }
 
 export class InstallAPIImpl extends BaseAPI implements InstallAPI {
@@ -67,6 +76,14 @@ export class InstallAPIImpl extends BaseAPI implements InstallAPI {
     return this.requestJson(`${this._url}/api/probes/${id}`, {method: 'GET'});
   }
 
+  public getNotificationsStatus(): Promise<NotificationsStatus> {
+    return this.requestJson(`${this._url}/api/install/notifications`, {method: 'GET'});
+  }
+
+  public sendTestEmail(): Promise<{email: string}> {
+    return this.requestJson(`${this._url}/api/install/notifications/test-email`, {method: 'POST'});
+  }
+
   private get _url(): string {
     return addCurrentOrgToPath(this._homeUrl);
   }
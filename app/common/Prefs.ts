@@ -62,8 +62,42 @@ export interface OrgPrefs extends Prefs {
 }
 
 export interface DocPrefs {
-  // Notification configuration; used in the enterprise version.
-  notifications?: object;
+  // Configuration of email notifications about the document.
+  notifications?: NotificationPrefs;
+}
+
+// Which comments to notify about: all of them, only those relevant to the user (i.e. mentions of
+// the user and replies in threads the user is part of), or none.
+export const CommentsNotificationPref = StringUnion("all", "relevant", "none");
+export type CommentsNotificationPref = typeof CommentsNotificationPref.type;
+
+// How often changes to a document are delivered.
+export const DigestFrequency = StringUnion("hourly", "daily");
+export type DigestFrequency = typeof DigestFrequency.type;
+
+export interface NotificationPrefs {
+  // Defaults to "relevant".
+  comments?: CommentsNotificationPref;
+  // Whether to notify about changes to the document. Defaults to false.
+  docChanges?: boolean;
+  // Defaults to "hourly".
+  digest?: DigestFrequency;
+}
+
+export const defaultNotificationPrefs: Required<NotificationPrefs> = {
+  comments: "relevant",
+  docChanges: false,
+  digest: "hourly",
+};
+
+/**
+ * Returns the notification prefs which apply to a user, combining the document's defaults with
+ * the user's own prefs.
+ */
+export function getNotificationPrefs(
+  docDefaults: DocPrefs|undefined, userPrefs: DocPrefs|undefined
+): Required<NotificationPrefs> {
+  return {...defaultNotificationPrefs, ...docDefaults?.notifications, ...userPrefs?.notifications};
 }
 
 /**
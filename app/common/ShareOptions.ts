@@ -1,13 +1,13 @@
+import {StringUnion} from 'app/common/StringUnion';
+
 /**
  *
- * Options on a share, or a shared widget. This is mostly
- * a placeholder currently. The same structure is currently
- * used both for shares and for specific shared widgets, but
- * this is just to save a little time right now, and should
+ * Options on a share, or a shared widget. The same structure is
+ * currently used both for shares and for specific shared widgets,
+ * but this is just to save a little time right now, and should
  * not be preserved in future work.
  *
- * The only flag that matter today is "publish".
- * The "access" flag could be stripped for now without consequences.
+ * For shared widgets, only "publish" and "form" matter.
  *
  */
 export interface ShareOptions {
@@ -15,8 +15,46 @@ export interface ShareOptions {
   // will not be available via the share mechanism.
   publish?: boolean;
 
-  // Can be set to 'viewers' to label the share as readonly.
-  // Half-baked, just here to exercise an aspect of homedb
-  // syncing.
+  // The kind of share. Shares created before share links existed
+  // have no kind set, and are form shares.
+  kind?: ShareKind;
+
+  // For share links, whether the link allows editing data ('editors'),
+  // or only viewing it ('viewers', the default). For form shares, this
+  // is only a label.
   access?: 'editors' | 'viewers';
+
+  // For share links, when the link stops working, as a timestamp in
+  // milliseconds. Links without expiry work until revoked.
+  expiresAt?: number|null;
+
+  // For share links, the pages (rowIds of _grist_Pages) and widgets
+  // (rowIds of _grist_Views_section) the link gives access to. If
+  // neither is set, the link gives access to the whole document.
+  pages?: number[];
+  sections?: number[];
+}
+
+export const ShareKind = StringUnion('form', 'link');
+export type ShareKind = typeof ShareKind.type;
+
+export function getShareKind(options: ShareOptions): ShareKind {
+  return options.kind || 'form';
+}
+
+export function isShareExpired(options: ShareOptions, now: number = Date.now()): boolean {
+  return Boolean(options.expiresAt) && options.expiresAt! <= now;
+}
+
+/**
+ * Information about a share of a document, as kept by the home server.
+ */
+export interface ShareSummary {
+  linkId: string;
+  // The secret used in the URL of the share.
+  key: string;
+  options: ShareOptions;
+  hasPassword: boolean;
+  // When the share was last used to access the document, as an ISO string.
+  lastUsedAt: string|null;
 }
@@ -12,16 +12,40 @@ export const Webhook = t.iface([], {
   "fields": "WebhookFields",
 });
 
+export const WebhookEventType = t.union(t.lit("add"), t.lit("update"), t.lit("remove"), t.lit("schema"));
+
+export const WebhookPayloadTemplate = t.iface([], {
+  "colIds": t.opt(t.array("string")),
+  "wrapKey": t.opt("string"),
+  "wrapFields": t.opt(t.iface([], {
+    [t.indexKey]: "any",
+  })),
+  "singleRecord": t.opt("boolean"),
+  "maxBatchSize": t.opt("number"),
+  "batchWindowMs": t.opt("number"),
+});
+
+export const WebhookSchedule = t.iface([], {
+  "cron": "string",
+  "timezone": t.opt("string"),
+  "action": t.opt(t.union(t.lit("send"), t.lit("recalc"))),
+  "filters": t.opt(t.iface([], {
+    [t.indexKey]: t.array("any"),
+  })),
+});
+
 export const WebhookFields = t.iface([], {
   "url": "string",
   "authorization": t.opt("string"),
-  "eventTypes": t.array(t.union(t.lit("add"), t.lit("update"))),
+  "eventTypes": t.array("WebhookEventType"),
   "tableId": "string",
   "watchedColIds": t.opt(t.array("string")),
   "enabled": t.opt("boolean"),
   "isReadyColumn": t.opt(t.union("string", "null")),
   "name": t.opt("string"),
   "memo": t.opt("string"),
+  "payloadTemplate": t.opt(t.union("WebhookPayloadTemplate", "null")),
+  "schedule": t.opt(t.union("WebhookSchedule", "null")),
 });
 
 export const WebhookBatchStatus = t.union(t.lit('success'), t.lit('failure'), t.lit('rejected'));
@@ -31,12 +55,14 @@ export const WebhookStatus = t.union(t.lit('idle'), t.lit('sending'), t.lit('ret
 export const WebhookSubscribe = t.iface([], {
   "url": "string",
   "authorization": t.opt("string"),
-  "eventTypes": t.array(t.union(t.lit("add"), t.lit("update"))),
+  "eventTypes": t.array("WebhookEventType"),
   "watchedColIds": t.opt(t.array("string")),
   "enabled": t.opt("boolean"),
   "isReadyColumn": t.opt(t.union("string", "null")),
   "name": t.opt("string"),
   "memo": t.opt("string"),
+  "payloadTemplate": t.opt(t.union("WebhookPayloadTemplate", "null")),
+  "schedule": t.opt(t.union("WebhookSchedule", "null")),
 });
 
 export const WebhookSummaryCollection = t.iface([], {
@@ -49,6 +75,7 @@ export const WebhookSummary = t.iface([], {
     "url": "string",
     "authorization": t.opt("string"),
     "unsubscribeKey": "string",
+    "signingSecret": "string",
     "eventTypes": t.array("string"),
     "isReadyColumn": t.union("string", "null"),
     "tableId": "string",
@@ -56,6 +83,8 @@ export const WebhookSummary = t.iface([], {
     "enabled": "boolean",
     "name": "string",
     "memo": "string",
+    "payloadTemplate": t.opt("WebhookPayloadTemplate"),
+    "schedule": t.opt("WebhookSchedule"),
   }),
   "usage": t.union("WebhookUsage", "null"),
 });
@@ -68,13 +97,16 @@ export const WebhookUpdate = t.iface([], {
 export const WebhookPatch = t.iface([], {
   "url": t.opt("string"),
   "authorization": t.opt("string"),
-  "eventTypes": t.opt(t.array(t.union(t.lit("add"), t.lit("update")))),
+  "eventTypes": t.opt(t.array("WebhookEventType")),
   "tableId": t.opt("string"),
   "watchedColIds": t.opt(t.array("string")),
   "enabled": t.opt("boolean"),
   "isReadyColumn": t.opt(t.union("string", "null")),
   "name": t.opt("string"),
   "memo": t.opt("string"),
+  "payloadTemplate": t.opt(t.union("WebhookPayloadTemplate", "null")),
+  "schedule": t.opt(t.union("WebhookSchedule", "null")),
+  "rotateSigningSecret": t.opt("boolean"),
 });
 
 export const WebhookUsage = t.iface([], {
@@ -101,6 +133,9 @@ export const WebhookUsage = t.iface([], {
 const exportedTypeSuite: t.ITypeSuite = {
   WebhookSubscribeCollection,
   Webhook,
+  WebhookEventType,
+  WebhookPayloadTemplate,
+  WebhookSchedule,
   WebhookFields,
   WebhookBatchStatus,
   WebhookStatus,
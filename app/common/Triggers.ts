@@ -6,16 +6,55 @@ export interface Webhook {
   fields: WebhookFields;
 }
 
+// "add" and "update" are sent for records that were created or modified, "remove" for records
+// that were deleted (with their last-known values), and "schema" when the columns of the watched
+// table, or the table itself, change.
+export type WebhookEventType = "add"|"update"|"remove"|"schema";
+
+// Controls the shape of the requests sent to a webhook, and how events are grouped into them.
+// By default, each request is a JSON array of full records, with up to 100 records per request.
+export interface WebhookPayloadTemplate {
+  // If set, records only include these columns (and always "id").
+  colIds?: string[];
+  // If set, the body is an object with the records under this key, rather than the records alone.
+  wrapKey?: string;
+  // Extra constant fields to include in the wrapper object. Only used when wrapKey is set.
+  wrapFields?: {[key: string]: any};
+  // If set, each request carries a single record, as an object rather than an array.
+  singleRecord?: boolean;
+  // Maximum number of records per request, between 1 and 100.
+  maxBatchSize?: number;
+  // If set, wait up to this many milliseconds (at most 60000) for more events to accumulate
+  // before sending a request that isn't full yet.
+  batchWindowMs?: number;
+}
+
+// Makes a webhook also fire on a timer, independently of changes to the data.
+export interface WebhookSchedule {
+  // Five-field cron expression, e.g. "0 9 * * 1" for every Monday at 9:00.
+  cron: string;
+  // Timezone in which to interpret the cron expression. Defaults to the document's timezone.
+  timezone?: string;
+  // "send" (the default) posts the matching records of the table to the webhook URL, as
+  // "scheduled" events. "recalc" recomputes the trigger formulas of the table instead.
+  action?: "send"|"recalc";
+  // Only records whose cells have one of the listed values are sent, e.g. {"Status": ["Overdue"]}.
+  // Records must also be ready, if the webhook has a ready column.
+  filters?: {[colId: string]: any[]};
+}
+
 export interface WebhookFields {
   url: string;
   authorization?: string;
-  eventTypes: Array<"add"|"update">;
+  eventTypes: Array<WebhookEventType>;
   tableId: string;
   watchedColIds?: string[];
   enabled?: boolean;
   isReadyColumn?: string|null;
   name?: string;
   memo?: string;
+  payloadTemplate?: WebhookPayloadTemplate|null;
+  schedule?: WebhookSchedule|null;
 }
 
 // Union discriminated by type
@@ -28,12 +67,14 @@ export type WebhookStatus = 'idle'|'sending'|'retrying'|'postponed'|'error'|'inv
 export interface WebhookSubscribe {
   url: string;
   authorization?: string;
-  eventTypes: Array<"add"|"update">;
+  eventTypes: Array<WebhookEventType>;
   watchedColIds?: string[];
   enabled?: boolean;
   isReadyColumn?: string|null;
   name?: string;
   memo?: string;
+  payloadTemplate?: WebhookPayloadTemplate|null;
+  schedule?: WebhookSchedule|null;
 }
 
 
@@ -46,6 +87,9 @@ export interface WebhookSummary {
     url: string;
     authorization?: string;
     unsubscribeKey: string;
+    // Key used to sign payloads, in the X-Grist-Signature header. Empty for webhooks created
+    // before signing was supported, until it is regenerated.
+    signingSecret: string;
     eventTypes: string[];
     isReadyColumn: string|null;
     tableId: string;
@@ -53,6 +97,8 @@ export interface WebhookSummary {
     enabled: boolean;
     name: string;
     memo: string;
+    payloadTemplate?: WebhookPayloadTemplate;
+    schedule?: WebhookSchedule;
   },
   usage: WebhookUsage|null,
 }
@@ -68,13 +114,18 @@ export interface WebhookUpdate {
 export interface WebhookPatch {
   url?: string;
   authorization?: string;
-  eventTypes?: Array<"add"|"update">;
+  eventTypes?: Array<WebhookEventType>;
   tableId?: string;
   watchedColIds?: string[];
   enabled?: boolean;
   isReadyColumn?: string|null;
   name?: string;
   memo?: string;
+  payloadTemplate?: WebhookPayloadTemplate|null;
+  schedule?: WebhookSchedule|null;
+  // If set, replaces the signing secret by a new one. The previous one remains valid for a
+  // grace period (24 hours by default).
+  rotateSigningSecret?: boolean;
 }
 
 
@@ -1,3 +1,4 @@
+import {AclRulesBundle, AclRulesImportOptions, AclRulesImportResult} from 'app/common/ACLRulesBundle';
 import {ApplyUAResult, ForkResult, FormulaTimingInfo,
         PermissionDataWithExtraUsers, QueryFilters, TimingStatus} from 'app/common/ActiveDocAPI';
 import {AssistanceRequest, AssistanceResponse} from 'app/common/Assistance';
@@ -8,14 +9,16 @@ import {ICustomWidget} from 'app/common/CustomWidget';
 import {BulkColValues, TableColValues, TableRecordValue, TableRecordValues,
         TableRecordValuesWithoutIds, UserAction} from 'app/common/DocActions';
 import {DocCreationInfo, OpenDocMode} from 'app/common/DocListAPI';
+import {ObjMetadata} from 'app/common/DocSnapshot';
 import {DocStateComparison, DocStates} from 'app/common/DocState';
 import {OrgUsageSummary} from 'app/common/DocUsage';
 import {Features, Product} from 'app/common/Features';
 import {isClient} from 'app/common/gristUrls';
 import {encodeQueryParams} from 'app/common/gutil';
 import {FullUser, UserProfile} from 'app/common/LoginSessionAPI';
-import {OrgPrefs, UserOrgPrefs, UserPrefs} from 'app/common/Prefs';
+import {FullDocPrefs, OrgPrefs, UserOrgPrefs, UserPrefs} from 'app/common/Prefs';
 import * as roles from 'app/common/roles';
+import {ShareSummary} from 'app/common/ShareOptions';
 import {
   WebhookFields,
   WebhookSubscribe,
@@ -360,6 +363,7 @@ export interface DocSnapshot {
   lastModified: string;  // when the snapshot was made
   snapshotId: string;    // the id of the snapshot in the underlying store
   docId: string;         // an id for accessing the snapshot as a Grist document
+  metadata?: ObjMetadata; // extra information, such as a label and whether the snapshot is pinned
 }
 
 /**
@@ -439,6 +443,8 @@ export interface UserAPI {
     onUploadProgress?: (ev: AxiosProgressEvent) => void,
   }): Promise<string>;
   deleteUser(userId: number, name: string): Promise<void>;
+  // Check the password of a share link, and remember in the session that it was given.
+  unlockShare(shareKey: string, password: string): Promise<void>;
   getBaseUrl(): string;  // Get the prefix for all the endpoints this object wraps.
   forRemoved(): UserAPI; // Get a version of the API that works on removed resources.
   getWidgets(): Promise<ICustomWidget[]>;
@@ -520,6 +526,12 @@ export interface DocAPI {
   // remove selected snapshots, or all snapshots that have "leaked" from inventory (should
   // be empty), or all but the current snapshot.
   removeSnapshots(snapshotIds: string[] | 'unlisted' | 'past'): Promise<{snapshotIds: string[]}>;
+  // Set or clear the label of a snapshot.
+  labelSnapshot(snapshotId: string, label: string|null): Promise<void>;
+  // Pin a snapshot, optionally labelling it at the same time, so that it is never pruned.
+  pinSnapshot(snapshotId: string, label?: string): Promise<void>;
+  // Unpin a snapshot, letting it be pruned like any other when it gets old.
+  unpinSnapshot(snapshotId: string): Promise<void>;
   getStates(): Promise<DocStates>;
   forceReload(): Promise<void>;
   recover(recoveryMode: boolean): Promise<void>;
@@ -538,6 +550,9 @@ export interface DocAPI {
   getDownloadCsvUrl(params: DownloadDocParams): string;
   getDownloadTsvUrl(params: DownloadDocParams): string;
   getDownloadDsvUrl(params: DownloadDocParams): string;
+  getDownloadJsonUrl(params: DownloadDocParams): string;
+  getDownloadNdjsonUrl(params: DownloadDocParams): string;
+  getDownloadOdsUrl(params?: DownloadDocParams): string;
   getDownloadTableSchemaUrl(params: DownloadDocParams): string;
   getDownloadAttachmentsArchiveUrl(params: AttachmentsArchiveParams): string;
 
@@ -556,6 +571,22 @@ export interface DocAPI {
   // Get users that are worth proposing to "View As" for access control purposes.
   getUsersForViewAs(): Promise<PermissionDataWithExtraUsers>;
 
+  // Get the access rules of the document as a portable bundle.
+  getAccessRules(): Promise<AclRulesBundle>;
+  getAccessRulesDownloadUrl(): string;
+  // Replace the access rules of the document with those of a bundle (only for owners).
+  importAccessRules(bundle: AclRulesBundle, options?: AclRulesImportOptions): Promise<AclRulesImportResult>;
+
+  // Get the document's default prefs and those of the current user.
+  getDocPrefs(): Promise<FullDocPrefs>;
+  // Update the document's default prefs (only for owners) and/or those of the current user.
+  setDocPrefs(prefs: Partial<FullDocPrefs>): Promise<void>;
+
+  // Get the document's shares, with details kept by the home server (only for owners).
+  getShares(): Promise<ShareSummary[]>;
+  // Set the password of a share, or remove it if null (only for owners).
+  setSharePassword(linkId: string, password: string|null): Promise<void>;
+
   getWebhooks(): Promise<WebhookSummaryCollection>;
   addWebhook(webhook: WebhookFields): Promise<{webhookId: string}>;
   removeWebhook(webhookId: string, tableId: string): Promise<void>;
@@ -967,6 +998,13 @@ export class UserAPIImpl extends BaseAPI implements UserAPI {
                         body: JSON.stringify({name})});
   }
 
+  public async unlockShare(shareKey: string, password: string): Promise<void> {
+    await this.request(`${this._url}/api/shares/${encodeURIComponent(shareKey)}/unlock`, {
+      method: 'POST',
+      body: JSON.stringify({password}),
+    });
+  }
+
   public async closeAccount(userId: number): Promise<boolean> {
     return await this.requestJson(`${this._url}/api/doom/account?userid=` + userId, {method: 'DELETE'});
   }
@@ -1114,6 +1152,26 @@ export class DocAPIImpl extends BaseAPI implements DocAPI {
     });
   }
 
+  public async labelSnapshot(snapshotId: string, label: string|null): Promise<void> {
+    await this.requestJson(`${this._url}/snapshots/${encodeURIComponent(snapshotId)}/label`, {
+      method: 'POST',
+      body: JSON.stringify({label}),
+    });
+  }
+
+  public async pinSnapshot(snapshotId: string, label?: string): Promise<void> {
+    await this.requestJson(`${this._url}/snapshots/${encodeURIComponent(snapshotId)}/pin`, {
+      method: 'POST',
+      body: JSON.stringify(label !== undefined ? {label} : {}),
+    });
+  }
+
+  public async unpinSnapshot(snapshotId: string): Promise<void> {
+    await this.requestJson(`${this._url}/snapshots/${encodeURIComponent(snapshotId)}/unpin`, {
+      method: 'POST',
+    });
+  }
+
   public async getStates(): Promise<DocStates> {
     return this.requestJson(`${this._url}/states`);
   }
@@ -1122,6 +1180,44 @@ export class DocAPIImpl extends BaseAPI implements DocAPI {
     return this.requestJson(`${this._url}/usersForViewAs`);
   }
 
+  public async getAccessRules(): Promise<AclRulesBundle> {
+    return this.requestJson(`${this._url}/access-rules`);
+  }
+
+  public getAccessRulesDownloadUrl(): string {
+    return `${this._url}/access-rules?download=1`;
+  }
+
+  public async importAccessRules(bundle: AclRulesBundle,
+                                 options: AclRulesImportOptions = {}): Promise<AclRulesImportResult> {
+    return this.requestJson(`${this._url}/access-rules`, {
+      method: 'POST',
+      body: JSON.stringify({...options, bundle}),
+    });
+  }
+
+  public async getDocPrefs(): Promise<FullDocPrefs> {
+    return this.requestJson(`${this._url}/prefs`);
+  }
+
+  public async setDocPrefs(prefs: Partial<FullDocPrefs>): Promise<void> {
+    await this.request(`${this._url}/prefs`, {
+      method: 'POST',
+      body: JSON.stringify(prefs),
+    });
+  }
+
+  public async getShares(): Promise<ShareSummary[]> {
+    return this.requestJson(`${this._url}/shares`);
+  }
+
+  public async setSharePassword(linkId: string, password: string|null): Promise<void> {
+    await this.request(`${this._url}/shares/${encodeURIComponent(linkId)}/password`, {
+      method: 'POST',
+      body: JSON.stringify({password}),
+    });
+  }
+
   public async getWebhooks(): Promise<WebhookSummaryCollection> {
     return this.requestJson(`${this._url}/webhooks`);
   }
@@ -1230,6 +1326,18 @@ export class DocAPIImpl extends BaseAPI implements DocAPI {
     return this._url + '/download/dsv?' + encodeQueryParams({...params});
   }
 
+  public getDownloadJsonUrl(params: DownloadDocParams) {
+    return this._url + '/download/json?' + encodeQueryParams({...params});
+  }
+
+  public getDownloadNdjsonUrl(params: DownloadDocParams) {
+    return this._url + '/download/ndjson?' + encodeQueryParams({...params});
+  }
+
+  public getDownloadOdsUrl(params: DownloadDocParams) {
+    return this._url + '/download/ods?' + encodeQueryParams({...params});
+  }
+
   public getDownloadTableSchemaUrl(params: DownloadDocParams) {
     // We spread `params` to work around TypeScript being overly cautious.
     return this._url + '/download/table-schema?' + encodeQueryParams({...params});
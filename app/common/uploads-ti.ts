@@ -0,0 +1,51 @@
+/**
+ * This module was automatically generated by `ts-interface-builder`
+ */
+import * as t from "ts-interface-checker";
+// tslint:disable:object-literal-key-quotes
+
+export const UploadResult = t.iface([], {
+  "uploadId": "number",
+  "files": t.array("FileUploadResult"),
+});
+
+export const FileUploadResult = t.iface([], {
+  "origName": "string",
+  "size": "number",
+  "ext": "string",
+});
+
+export const FetchUrlOptions = t.iface([], {
+  "googleAuthorizationCode": t.opt("string"),
+  "fileName": t.opt("string"),
+  "headers": t.opt(t.iface([], {
+    [t.indexKey]: "string",
+  })),
+});
+
+export const JsonApiSource = t.iface([], {
+  "url": "string",
+  "headers": t.opt(t.iface([], {
+    [t.indexKey]: "string",
+  })),
+  "recordPath": t.opt("string"),
+  "pagination": t.opt("JsonApiPagination"),
+});
+
+export const JsonApiPagination = t.union(t.iface([], {
+  "type": t.lit('next-link'),
+  "nextPath": "string",
+}), t.iface([], {
+  "type": t.lit('page-param'),
+  "param": "string",
+  "start": t.opt("number"),
+}));
+
+const exportedTypeSuite: t.ITypeSuite = {
+  UploadResult,
+  FileUploadResult,
+  FetchUrlOptions,
+  JsonApiSource,
+  JsonApiPagination,
+};
+export default exportedTypeSuite;
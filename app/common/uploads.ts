@@ -51,3 +51,27 @@ export interface FetchUrlOptions {
   fileName?: string;                  // The filename for external resource.
   headers?: {[key: string]: string};  // Additional headers to use when accessing external resource.
 }
+
+/**
+ * Describes a JSON REST endpoint to import records from. The records found in all fetched pages
+ * are combined into a single JSON file, which is then imported like any other upload.
+ */
+export interface JsonApiSource {
+  url: string;
+  headers?: {[key: string]: string};  // Additional headers, e.g. for authorization.
+  // Dot-separated path to the array of records within each response, e.g. "data.items". When
+  // empty, the response itself should be the array.
+  recordPath?: string;
+  pagination?: JsonApiPagination;
+}
+
+/**
+ * How to fetch further pages of records:
+ *  - 'next-link': each response includes the URL of the next page at the dot-separated
+ *    `nextPath` (e.g. "links.next"); fetching stops when it's missing.
+ *  - 'page-param': the query parameter `param` holds the page number, starting with `start`
+ *    (1 by default); fetching stops on the first page without records.
+ */
+export type JsonApiPagination =
+  {type: 'next-link', nextPath: string} |
+  {type: 'page-param', param: string, start?: number};
@@ -8,7 +8,8 @@ export const AttachedCustomWidgets = StringUnion('custom.calendar');
 export type IAttachedCustomWidget = typeof AttachedCustomWidgets.type;
 
 // all widget types
-export type IWidgetType = 'record' | 'detail' | 'single' | 'chart' | 'custom' | 'form' | IAttachedCustomWidget;
+export type IWidgetType = 'record' | 'detail' | 'single' | 'chart' | 'custom' | 'form' | 'kanban'
+  | IAttachedCustomWidget;
 export enum WidgetType {
   Table = 'record',
   Card = 'single',
@@ -16,5 +17,6 @@ export enum WidgetType {
   Chart = 'chart',
   Custom = 'custom',
   Form = 'form',
+  Kanban = 'kanban',
   Calendar = 'custom.calendar',
 }
@@ -1,21 +1,36 @@
+import contentDisposition from 'content-disposition';
 import * as crypto from 'crypto';
 import * as express from 'express';
 import * as cookie from 'cookie';
 import {Request} from 'express';
+import {rateLimit} from 'express-rate-limit';
+import isPlainObject from 'lodash/isPlainObject';
 import pick from 'lodash/pick';
+import {once} from 'node:events';
 import * as t from "ts-interface-checker";
 
 import {ApiError} from 'app/common/ApiError';
+import {
+  AuditEventAction,
+  AuditLogEventsPage,
+  AuditLogEventsQuery,
+  AuditLogStreamingStatus,
+  MAX_AUDIT_LOG_EVENTS_LIMIT,
+} from 'app/common/AuditLogs';
+import {AuditLogStreamingDestinations} from 'app/common/Config';
 import {isAffirmative} from 'app/common/gutil';
 import {FullUser} from 'app/common/LoginSessionAPI';
+import {CommentsNotificationPref, DigestFrequency, DocPrefs} from 'app/common/Prefs';
 import {BasicRole} from 'app/common/roles';
 import * as SATypes from 'app/common/ServiceAccountTypes';
 import ServiceAccountTI from 'app/common/ServiceAccountTypes-ti';
+import {ShareSummary} from 'app/common/ShareOptions';
 import {DOCTYPE_NORMAL,
   DOCTYPE_TEMPLATE,
   DOCTYPE_TUTORIAL,
   OrganizationProperties,
   PermissionDelta} from 'app/common/UserAPI';
+import {Config} from 'app/gen-server/entity/Config';
 import {Document} from "app/gen-server/entity/Document";
 import {Organization} from 'app/gen-server/entity/Organization';
 import {User} from 'app/gen-server/entity/User';
@@ -31,8 +46,8 @@ import {expressWrap} from 'app/server/lib/expressWrap';
 import {RequestWithOrg} from 'app/server/lib/extractOrg';
 import {GristServer} from 'app/server/lib/GristServer';
 import {getTemplateOrg} from 'app/server/lib/gristSettings';
-import {clearSessionCacheIfNeeded, getDocScope, getScope, integerParam,
-        isParameterOn, optStringParam, sendOkReply, sendReply, stringParam} from 'app/server/lib/requestUtils';
+import {clearSessionCacheIfNeeded, getDocScope, getScope, integerParam, isParameterOn,
+        optIntegerParam, optStringParam, sendOkReply, sendReply, stringParam} from 'app/server/lib/requestUtils';
 import {getCookieDomain} from 'app/server/lib/gristSessions';
 import log from 'app/server/lib/log';
 
@@ -40,6 +55,17 @@ const ALLOW_DEPRECATED_BARE_ORG_DELETE = appSettings.section('api').flag('allowB
   envVar: 'GRIST_ALLOW_DEPRECATED_BARE_ORG_DELETE',
 });
 
+// Limits guessing the passwords of share links: each share accepts only a few wrong passwords
+// per minute.
+const shareUnlockLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  limit: 10,
+  skipSuccessfulRequests: true,
+  keyGenerator: (req) => String(req.params.shareKey),
+  legacyHeaders: true,
+  message: {error: 'Too many wrong passwords, please try again later'},
+});
+
 const {PatchServiceAccount, PostServiceAccount} = t.createCheckers(ServiceAccountTI);
 
 for (const checker of [PatchServiceAccount, PostServiceAccount]) {
@@ -191,6 +217,61 @@ export class ApiServer {
       return sendOkReply(req, res, usage);
     }));
 
+    // GET /api/orgs/:oid/audit-logs/events
+    // Search the audit events stored for the organization, most recent first.
+    // Query params: user, action, docId, since, until (filters), limit and cursor (paging).
+    // Only accessible to org owners.
+    this._app.get('/api/orgs/:oid/audit-logs/events', expressWrap(async (req, res) => {
+      const org = getOrgKey(req);
+      const query = getAuditLogEventsQuery(req);
+      const result = await this._dbManager.getOrgAuditLogEntries(getScope(req), org, query);
+      return sendReply(req, res, result);
+    }));
+
+    // GET /api/orgs/:oid/audit-logs/events/download
+    // Download all audit events of the organization matching the same filters, as NDJSON.
+    // Only accessible to org owners.
+    this._app.get('/api/orgs/:oid/audit-logs/events/download', expressWrap(async (req, res) => {
+      const org = getOrgKey(req);
+      const scope = getScope(req);
+      await downloadAuditLogEvents(req, res, async (query) =>
+        this._dbManager.unwrapQueryResult(await this._dbManager.getOrgAuditLogEntries(scope, org, query)));
+    }));
+
+    // GET /api/install/audit-logs/events
+    // Search the audit events stored for the entire installation, most recent first.
+    // Takes the same query params as /api/orgs/:oid/audit-logs/events.
+    // Only accessible to install admins.
+    this._app.get('/api/install/audit-logs/events', requireInstallAdmin, expressWrap(async (req, res) => {
+      const query = getAuditLogEventsQuery(req);
+      const page = await this._dbManager.getAuditLogEntries(null, query);
+      return sendOkReply(req, res, page);
+    }));
+
+    // GET /api/install/audit-logs/events/download
+    // Download all audit events of the installation matching the given filters, as NDJSON.
+    // Only accessible to install admins.
+    this._app.get('/api/install/audit-logs/events/download', requireInstallAdmin, expressWrap(async (req, res) => {
+      await downloadAuditLogEvents(req, res, (query) => this._dbManager.getAuditLogEntries(null, query));
+    }));
+
+    // GET /api/orgs/:oid/audit-logs/streaming-statuses
+    // Get how delivery to each of the org's audit log streaming destinations is going,
+    // as seen by this server. Only accessible to org owners.
+    this._app.get('/api/orgs/:oid/audit-logs/streaming-statuses', expressWrap(async (req, res) => {
+      const org = getOrgKey(req);
+      const result = await this._dbManager.getOrgConfig(getScope(req), org, 'audit_log_streaming_destinations');
+      return sendOkReply(req, res, this._getStreamingStatuses(result));
+    }));
+
+    // GET /api/install/audit-logs/streaming-statuses
+    // Get how delivery to each of the installation's audit log streaming destinations is going,
+    // as seen by this server. Only accessible to install admins.
+    this._app.get('/api/install/audit-logs/streaming-statuses', requireInstallAdmin, expressWrap(async (req, res) => {
+      const result = await this._dbManager.getInstallConfig('audit_log_streaming_destinations');
+      return sendOkReply(req, res, this._getStreamingStatuses(result));
+    }));
+
     // POST /api/orgs
     // Body params: name (required), domain
     // Create a new org.
@@ -445,6 +526,72 @@ export class ApiServer {
       return sendReply(req, res, query);
     }));
 
+    // GET /api/docs/:did/prefs
+    // Get the doc's default prefs and those of the current user.
+    this._app.get('/api/docs/:did/prefs', expressWrap(async (req, res) => {
+      const prefs = await this._dbManager.getDocPrefs(getDocScope(req));
+      return sendOkReply(req, res, prefs);
+    }));
+
+    // POST /api/docs/:did/prefs
+    // Body params: {docDefaults?: DocPrefs, currentUser?: DocPrefs}
+    // Update the doc's default prefs (owners only) and/or those of the current user. Given prefs
+    // are merged into the existing ones.
+    this._app.post('/api/docs/:did/prefs', expressWrap(async (req, res) => {
+      getAuthorizedUserId(req);
+      const {docDefaults, currentUser, ...rest} = req.body || {};
+      if (Object.keys(rest).length > 0) {
+        throw new ApiError(`Unexpected doc prefs: ${Object.keys(rest).join(', ')}`, 400);
+      }
+      if (docDefaults !== undefined) { checkDocPrefs(docDefaults); }
+      if (currentUser !== undefined) { checkDocPrefs(currentUser); }
+      await this._dbManager.setDocPrefs(getDocScope(req), {docDefaults, currentUser});
+      return sendOkReply(req, res);
+    }));
+
+    // GET /api/docs/:did/shares
+    // List the shares of a doc, with when they were last used (owners only).
+    this._app.get('/api/docs/:did/shares', expressWrap(async (req, res) => {
+      const shares = await this._dbManager.getDocShares(getDocScope(req));
+      const summaries: ShareSummary[] = shares.map(share => ({
+        linkId: share.linkId,
+        key: share.key,
+        options: share.options,
+        hasPassword: Boolean(share.passwordHash),
+        lastUsedAt: share.lastUsedAt?.toISOString() ?? null,
+      }));
+      return sendOkReply(req, res, summaries);
+    }));
+
+    // POST /api/docs/:did/shares/:linkId/password
+    // Body params: {password: string|null}
+    // Set or remove (if null) the password of a share (owners only).
+    this._app.post('/api/docs/:did/shares/:linkId/password', expressWrap(async (req, res) => {
+      const password = req.body?.password;
+      if (password !== null && (typeof password !== 'string' || !password)) {
+        throw new ApiError('password should be a non-empty string or null', 400);
+      }
+      await this._dbManager.setSharePassword(getDocScope(req), stringParam(req.params.linkId, 'linkId'), password);
+      return sendOkReply(req, res);
+    }));
+
+    // POST /api/shares/:shareKey/unlock
+    // Body params: {password: string}
+    // Check the password of a share, and remember in the session that it was given, so that
+    // the share may then be used.
+    this._app.post('/api/shares/:shareKey/unlock', shareUnlockLimiter, expressWrap(async (req, res) => {
+      const mreq = req as RequestWithLogin;
+      const shareKey = stringParam(req.params.shareKey, 'shareKey');
+      const password = stringParam(req.body?.password, 'password');
+      const unlock = await this._dbManager.unlockShare(shareKey, password);
+      if (!mreq.session) { throw new ApiError('Sessions are not available', 500); }
+      // Modify session copy in request. Will be saved to persistent storage before responding
+      // by express-session middleware.
+      mreq.session.shareUnlocks = {...mreq.session.shareUnlocks, [shareKey]: unlock};
+      clearSessionCacheIfNeeded(req, {sessionID: mreq.sessionID});
+      return sendOkReply(req, res);
+    }));
+
     // GET /api/profile/user
     // Get user's profile
     this._app.get('/api/profile/user', expressWrap(async (req, res) => {
@@ -883,6 +1030,16 @@ export class ApiServer {
     return ws;
   }
 
+  // Returns the streaming statuses of the destinations in the given
+  // config result, or none if no destinations are configured.
+  private _getStreamingStatuses(result: QueryResult<Config>): AuditLogStreamingStatus[] {
+    if (result.status === 404) { return []; }
+    const config = this._dbManager.unwrapQueryResult(result);
+    return this._gristServer.getAuditLogger().getStreamingStatuses(
+      (config.value as AuditLogStreamingDestinations).map(({id}) => id)
+    );
+  }
+
   private _logCreateDocumentEvents(req: Request, document: Document) {
     const mreq = req as RequestWithLogin;
     this._gristServer.getAuditLogger().logEvent(mreq, {
@@ -1292,6 +1449,92 @@ export class ApiServer {
   }
 }
 
+/**
+ * Reads the filters and paging options for searching audit events from the
+ * query params of `req`. Throws a 400 error if any are invalid.
+ */
+function getAuditLogEventsQuery(req: Request): AuditLogEventsQuery {
+  const {user, action, docId, since, until, limit, cursor} = req.query;
+  return {
+    user: optStringParam(user, 'user', {allowEmpty: false}),
+    action: optStringParam(action, 'action', {allowed: AuditEventAction.values}) as AuditEventAction|undefined,
+    docId: optStringParam(docId, 'docId', {allowEmpty: false}),
+    since: optDateParam(since, 'since'),
+    until: optDateParam(until, 'until'),
+    limit: optIntegerParam(limit, 'limit', {
+      isValid: (n) => n > 0 && n <= MAX_AUDIT_LOG_EVENTS_LIMIT,
+    }),
+    cursor: cursor === undefined ? undefined : String(integerParam(cursor, 'cursor', {isValid: (n) => n > 0})),
+  };
+}
+
+function optDateParam(p: any, name: string): string|undefined {
+  const value = optStringParam(p, name, {allowEmpty: false});
+  if (value !== undefined && isNaN(Date.parse(value))) {
+    throw new ApiError(`${name} parameter should be a date: ${value}`, 400);
+  }
+  return value;
+}
+
+/**
+ * Sends all audit events matching the filters in the query params of `req` as
+ * NDJSON, most recent first, fetching them page by page with `fetchPage`.
+ */
+async function downloadAuditLogEvents(
+  req: Request,
+  res: express.Response,
+  fetchPage: (query: AuditLogEventsQuery) => Promise<AuditLogEventsPage>
+) {
+  const query: AuditLogEventsQuery = {...getAuditLogEventsQuery(req), limit: MAX_AUDIT_LOG_EVENTS_LIMIT};
+  // Fetch the first page before sending headers, so that errors (e.g. lack of
+  // access) are reported normally.
+  let page = await fetchPage(query);
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  res.setHeader('Content-Disposition', contentDisposition('audit-log-events.ndjson'));
+  for (;;) {
+    for (const event of page.events) {
+      if (!res.write(JSON.stringify(event) + '\n')) {
+        // Wait for the client to catch up, unless it went away.
+        await Promise.race([once(res, 'drain'), once(res, 'close')]);
+        if (res.destroyed) { return; }
+      }
+    }
+    if (!page.nextCursor) { break; }
+    page = await fetchPage({...query, cursor: page.nextCursor});
+  }
+  res.end();
+}
+
+/**
+ * Checks DocPrefs received in a request body, throwing a 400 error if they are invalid.
+ */
+function checkDocPrefs(prefs: any): asserts prefs is DocPrefs {
+  if (!isPlainObject(prefs)) {
+    throw new ApiError('Doc prefs should be an object', 400);
+  }
+  const {notifications, ...rest} = prefs;
+  if (Object.keys(rest).length > 0) {
+    throw new ApiError(`Unknown doc prefs: ${Object.keys(rest).join(', ')}`, 400);
+  }
+  if (notifications === undefined) { return; }
+  if (!isPlainObject(notifications)) {
+    throw new ApiError('Notification prefs should be an object', 400);
+  }
+  const {comments, docChanges, digest, ...others} = notifications;
+  if (Object.keys(others).length > 0) {
+    throw new ApiError(`Unknown notification prefs: ${Object.keys(others).join(', ')}`, 400);
+  }
+  if (comments !== undefined && !CommentsNotificationPref.guard(comments)) {
+    throw new ApiError(`Invalid comments notification pref: ${comments}`, 400);
+  }
+  if (docChanges !== undefined && typeof docChanges !== 'boolean') {
+    throw new ApiError(`Invalid docChanges notification pref: ${docChanges}`, 400);
+  }
+  if (digest !== undefined && !DigestFrequency.guard(digest)) {
+    throw new ApiError(`Invalid digest notification pref: ${digest}`, 400);
+  }
+}
+
 /**
  * Throw the error for when a user has been deleted since point of call (very unlikely to happen).
  */
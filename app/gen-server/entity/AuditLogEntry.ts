@@ -0,0 +1,47 @@
+import { AuditEventAction, AuditLogEvent } from "app/common/AuditLogs";
+import { nativeValues } from "app/gen-server/lib/values";
+import { BaseEntity, Column, Entity, PrimaryGeneratedColumn } from "typeorm";
+
+/**
+ * An audit event stored in the home database, for installations that keep
+ * their own audit trail rather than (or as well as) streaming it elsewhere.
+ *
+ * The full event is kept in `event`. The remaining columns copy the parts of
+ * it that events are searched by. There are deliberately no foreign keys: the
+ * trail should outlive the users, sites and documents it mentions.
+ */
+@Entity({ name: "audit_log_entries" })
+export class AuditLogEntry extends BaseEntity {
+  // Increases with each stored event, and serves as the cursor for paging
+  // through events.
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @Column({ name: "event_id", type: String })
+  public eventId: string;
+
+  @Column({ type: String })
+  public action: AuditEventAction;
+
+  @Column({ name: "org_id", type: Number, nullable: true })
+  public orgId: number | null;
+
+  @Column({ name: "doc_id", type: String, nullable: true })
+  public docId: string | null;
+
+  @Column({ name: "user_id", type: Number, nullable: true })
+  public userId: number | null;
+
+  // Normalized email of the acting user.
+  @Column({ name: "user_email", type: String, nullable: true })
+  public userEmail: string | null;
+
+  // When the event occurred, in RFC 3339 format with UTC timezone. Stored as
+  // text rather than a datetime so that range comparisons behave the same in
+  // SQLite and Postgres.
+  @Column({ type: String })
+  public timestamp: string;
+
+  @Column({ type: nativeValues.jsonEntityType })
+  public event: AuditLogEvent;
+}
@@ -0,0 +1,34 @@
+import { Document } from 'app/gen-server/entity/Document';
+import { User } from 'app/gen-server/entity/User';
+import { DocChangesSummary } from 'app/gen-server/lib/NotifierTypes';
+import { nativeValues } from 'app/gen-server/lib/values';
+import { BaseEntity, Column, Entity, JoinColumn, ManyToOne, PrimaryColumn } from 'typeorm';
+
+/**
+ * Changes to a document which are waiting to be sent to a user in a digest email (for users who
+ * asked to be notified of changes to the document). There is at most one pending digest for each
+ * document and user; changes made before it is due are added to it, and it is removed once sent.
+ */
+@Entity({name: 'doc_changes_digests'})
+export class DocChangesDigest extends BaseEntity {
+  @PrimaryColumn({name: 'doc_id', type: String})
+  public docId: string;
+
+  @ManyToOne(_type => Document, { onDelete: 'CASCADE' })
+  @JoinColumn({name: 'doc_id'})
+  public doc: Document;
+
+  @PrimaryColumn({name: 'user_id', type: Number})
+  public userId: number;
+
+  @ManyToOne(_type => User, { onDelete: 'CASCADE' })
+  @JoinColumn({name: 'user_id'})
+  public user: User;
+
+  // When the digest should be sent.
+  @Column({name: 'due_at', type: Date})
+  public dueAt: Date;
+
+  @Column({name: 'changes', type: nativeValues.jsonEntityType})
+  public changes: DocChangesSummary;
+}
@@ -42,6 +42,21 @@ export class Share extends BaseEntity {
   @Column({name: 'options', type: nativeValues.jsonEntityType})
   public options: ShareOptions;
 
+  /**
+   * For share links protected by a password, a hash of the password
+   * (see SharePasswords). Kept only in the home database, so that
+   * it isn't visible to users of the document.
+   */
+  @Column({name: 'password_hash', type: String, nullable: true})
+  public passwordHash: string|null;
+
+  /**
+   * When the share was last used to access the document. Updated at
+   * most every few minutes.
+   */
+  @Column({name: 'last_used_at', type: Date, nullable: true})
+  public lastUsedAt: Date|null;
+
   @ManyToOne(type => Document)
   @JoinColumn({name: 'doc_id'})
   public doc: Document;
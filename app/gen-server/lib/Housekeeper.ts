@@ -12,6 +12,7 @@ import { appSettings } from 'app/server/lib/AppSettings';
 import { getAuthorizedUserId } from 'app/server/lib/Authorizer';
 import { expressWrap } from 'app/server/lib/expressWrap';
 import { GristServer } from 'app/server/lib/GristServer';
+import { deleteExpiredAuditLogEntries } from 'app/server/lib/HomeDBAuditLogger';
 import { IElectionStore } from 'app/server/lib/IElectionStore';
 import log from 'app/server/lib/log';
 import { IPermitStore } from 'app/server/lib/Permit';
@@ -53,6 +54,7 @@ export const GRIST_TEST_PROXY_URL = appSettings.section('proxy').flag('testUrl')
  *
  *  - deleting old soft-deleted documents
  *  - deleting old soft-deleted workspaces
+ *  - deleting stored audit events past their retention period
  *  - logging metrics
  *
  * Call start(), keep the object around, and call stop() when shutting down.
@@ -193,6 +195,12 @@ export class Housekeeper {
         await this._permitStore.removePermit(permitKey);
       }
     }
+
+    // Delete audit events past their retention period
+    const deletedCount = await deleteExpiredAuditLogEntries(this._dbManager);
+    if (deletedCount > 0) {
+      log.info(`Housekeeper deleted ${deletedCount} expired audit events`);
+    }
   }
 
   public async testProxyUrlExclusively(): Promise<boolean> {
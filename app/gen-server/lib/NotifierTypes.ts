@@ -10,6 +10,7 @@
  */
 
 import {FullUser} from 'app/common/LoginSessionAPI';
+import {DigestFrequency} from 'app/common/Prefs';
 import {StringUnion} from 'app/common/StringUnion';
 import {INotifier} from 'app/server/lib/INotifier';
 
@@ -144,6 +145,56 @@ export interface DocNotificationTemplateBase {
   senderAuthorName: string|null;
 }
 
+/**
+ * Template data common to notifications about a document.
+ */
+export interface DocNotificationTemplateDoc extends DocNotificationTemplateBase {
+  docName: string;
+  docUrl: string;
+  // Link to the document settings, where notification preferences can be changed.
+  settingsUrl: string;
+  // Link to unsubscribe from this kind of notification about the document.
+  unsubscribeUrl: string;
+}
+
+/**
+ * A comment as included in a 'comments' notification.
+ */
+export interface DocNotificationComment {
+  // Text of the comment, with mentions turned into plain text.
+  text: string;
+  // Link to the comment in the document.
+  url: string;
+  // Whether the recipient is mentioned in the comment.
+  mentionsYou: boolean;
+}
+
+export interface DocCommentsTemplate extends DocNotificationTemplateDoc {
+  authorName: string;
+  comments: DocNotificationComment[];
+}
+
+/**
+ * Summary of changes to a document, accumulated over the period of a digest.
+ */
+export interface DocChangesSummary {
+  // Names of the users who made the changes.
+  authors: string[];
+  // Names of the user tables which were changed.
+  userTableNames: string[];
+  // Kinds of changes to the document's metadata, such as "structure" or "access rules" (see
+  // describeDocActions).
+  categories: string[];
+  // Number of times the document was changed.
+  count: number;
+}
+
+export interface DocChangesTemplate extends DocNotificationTemplateDoc {
+  changes: DocChangesSummary;
+  // Whether the summary covers an hour or a day of changes.
+  digest: DigestFrequency;
+}
+
 export const TemplateName = StringUnion(
   "billingManagerInvite",
   "invite",
@@ -0,0 +1,49 @@
+/**
+ * Helpers for share links protected by a password.
+ *
+ * Only a salted hash of the password is stored, in the home database. A visitor who enters the
+ * right password gets an "unlock" string saved in their session: a digest of the share's key and
+ * password hash. It can't be made up without access to the home database, and stops working when
+ * the password changes. Requests for the share then carry the unlock (as shareUnlock in a Scope
+ * or DocAuthKey) for HomeDBManager to check.
+ */
+import {parseUrlId} from 'app/common/gristUrls';
+import * as crypto from 'crypto';
+import {promisify} from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 32;
+
+// Maps share keys to unlocks (see above). Kept in the session.
+export interface ShareUnlocks {
+  [shareKey: string]: string;
+}
+
+export async function hashSharePassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString('base64url');
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${hash.toString('base64url')}`;
+}
+
+export async function checkSharePassword(password: string, passwordHash: string): Promise<boolean> {
+  const [method, salt, expected] = passwordHash.split('$');
+  if (method !== 'scrypt' || !salt || !expected) { return false; }
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  const expectedHash = Buffer.from(expected, 'base64url');
+  return hash.length === expectedHash.length && crypto.timingSafeEqual(hash, expectedHash);
+}
+
+export function makeShareUnlock(share: {key: string, passwordHash: string}): string {
+  return crypto.createHash('sha256').update(`${share.key}:${share.passwordHash}`).digest('base64url');
+}
+
+/**
+ * Returns the unlock to include in requests for the given document, if it is accessed via a
+ * share that was unlocked in the session.
+ */
+export function getShareUnlock(unlocks: ShareUnlocks|undefined|null, urlId: string|undefined): string|undefined {
+  if (!unlocks || !urlId) { return undefined; }
+  const {shareKey} = parseUrlId(urlId);
+  return (shareKey && Object.prototype.hasOwnProperty.call(unlocks, shareKey)) ? unlocks[shareKey] : undefined;
+}
@@ -2,7 +2,7 @@ import * as roles from "app/common/roles";
 import { AclRule } from "app/gen-server/entity/AclRule";
 import { Document } from "app/gen-server/entity/Document";
 import { Group } from "app/gen-server/entity/Group";
-import { GroupWithMembersDescriptor, NonGuestGroup,
+import { GroupMembersChanges, GroupWithMembersDescriptor, NonGuestGroup,
   Resource, RoleGroupDescriptor, RunInTransaction } from "app/gen-server/lib/homedb/Interfaces";
 import { Organization } from "app/gen-server/entity/Organization";
 import { Permissions } from 'app/gen-server/lib/Permissions';
@@ -340,6 +340,68 @@ export class GroupsManager {
     });
   }
 
+  /**
+   * Add and remove members of a Group. Unlike overwriting the group, only the rows of the passed
+   * members are touched, so concurrent changes to other members of the group are not lost.
+   * Adding a member that is already in the group, or removing one that is not, is a no-op.
+   *
+   * @param id - The id of the Group to be updated.
+   * @param changes - The members to add and to remove.
+   * @param expectedType - The expected type of the Group. If the type is specified,
+   *                      the Group will only be updated if it has the expected type.
+   * @param optManager - Optional EntityManager to use for the transaction.
+   *
+   * @returns The updated Group
+   */
+  public async updateGroupMembers(
+    id: number, changes: GroupMembersChanges, expectedType?: GroupTypes, optManager?: EntityManager
+  ): Promise<Group> {
+    return await this._runInTransaction(optManager, async (manager) => {
+      const group = await this.getGroupWithMembersById(id, {}, manager);
+      if (!group || (expectedType && expectedType !== group.type)) {
+        throw new ApiError(`Group with id ${id} not found`, 404);
+      }
+      const {add = {}, remove = {}} = changes;
+      const usersToAdd = await this._usersManager.getUsersByIdsStrict(add.memberUsers ?? [], manager);
+      const groupsToAdd = await this._getGroupsByIdsStrict(add.memberGroups ?? [], manager);
+      const usersToRemove = remove.memberUsers ?? [];
+      const groupsToRemove = remove.memberGroups ?? [];
+      if (usersToRemove.length > 0) {
+        await manager.createQueryBuilder()
+          .delete()
+          .from('group_users')
+          .where('group_id = :id', {id})
+          .andWhere('user_id IN (:...userIds)', {userIds: usersToRemove})
+          .execute();
+      }
+      if (groupsToRemove.length > 0) {
+        await manager.createQueryBuilder()
+          .delete()
+          .from('group_groups')
+          .where('group_id = :id', {id})
+          .andWhere('subgroup_id IN (:...groupIds)', {groupIds: groupsToRemove})
+          .execute();
+      }
+      if (usersToAdd.length > 0) {
+        await manager.createQueryBuilder()
+          .insert()
+          .orIgnore()
+          .into('group_users')
+          .values(usersToAdd.map(user => ({user_id: user.id, group_id: id})))
+          .execute();
+      }
+      if (groupsToAdd.length > 0) {
+        await manager.createQueryBuilder()
+          .insert()
+          .orIgnore()
+          .into('group_groups')
+          .values(groupsToAdd.map(subgroup => ({subgroup_id: subgroup.id, group_id: id})))
+          .execute();
+      }
+      return (await this.getGroupWithMembersById(id, {}, manager))!;
+    });
+  }
+
   /**
    * Delete a Group.
    *
@@ -1,6 +1,12 @@
 import {ShareInfo} from 'app/common/ActiveDocAPI';
 import {ApiError, LimitType} from 'app/common/ApiError';
 import {mapGetOrSet, mapSetOrClear, MapWithTTL} from 'app/common/AsyncCreate';
+import {
+  AuditLogEvent,
+  AuditLogEventsPage,
+  AuditLogEventsQuery,
+  DEFAULT_AUDIT_LOG_EVENTS_LIMIT,
+} from 'app/common/AuditLogs';
 import {ConfigKey, ConfigValue} from 'app/common/Config';
 import {getDataLimitInfo} from 'app/common/DocLimits';
 import {DocStateComparison} from 'app/common/DocState';
@@ -14,11 +20,12 @@ import {
   mergedFeatures,
   PERSONAL_FREE_PLAN
 } from 'app/common/Features';
-import {buildUrlId, MIN_URLID_PREFIX_LENGTH, parseUrlId} from 'app/common/gristUrls';
+import {buildUrlId, MIN_URLID_PREFIX_LENGTH, parseUrlId, SHARE_KEY_PREFIX} from 'app/common/gristUrls';
 import {UserProfile} from 'app/common/LoginSessionAPI';
 import {checkSubdomainValidity} from 'app/common/orgNameUtils';
 import {DocPrefs, FullDocPrefs} from 'app/common/Prefs';
 import * as roles from 'app/common/roles';
+import {getShareKind, isShareExpired} from 'app/common/ShareOptions';
 import {UserType} from 'app/common/User';
 import {
   ANONYMOUS_USER_EMAIL,
@@ -40,9 +47,11 @@ import {
 } from 'app/common/UserAPI';
 import {AclRule, AclRuleDoc, AclRuleOrg, AclRuleWs} from 'app/gen-server/entity/AclRule';
 import {Alias} from 'app/gen-server/entity/Alias';
+import {AuditLogEntry} from 'app/gen-server/entity/AuditLogEntry';
 import {BillingAccount} from 'app/gen-server/entity/BillingAccount';
 import {BillingAccountManager} from 'app/gen-server/entity/BillingAccountManager';
 import {Config} from 'app/gen-server/entity/Config';
+import {DocChangesDigest} from 'app/gen-server/entity/DocChangesDigest';
 import {DocPref} from 'app/gen-server/entity/DocPref';
 import {Document, FilteredDocument} from 'app/gen-server/entity/Document';
 import {Group} from 'app/gen-server/entity/Group';
@@ -69,6 +78,7 @@ import {
   DocAuthResult,
   DocumentAccessChanges,
   GetUserOptions,
+  GroupMembersChanges,
   GroupWithMembersDescriptor,
   HomeDBAuth,
   NonGuestGroup,
@@ -83,8 +93,10 @@ import {
 } from 'app/gen-server/lib/homedb/Interfaces';
 import {SUPPORT_EMAIL, UsersManager} from 'app/gen-server/lib/homedb/UsersManager';
 import {ServiceAccountsManager} from 'app/gen-server/lib/homedb/ServiceAccountsManager';
+import {DocChangesSummary} from 'app/gen-server/lib/NotifierTypes';
 import {Permissions} from 'app/gen-server/lib/Permissions';
 import {scrubUserFromOrg} from 'app/gen-server/lib/scrubUserFromOrg';
+import {checkSharePassword, hashSharePassword, makeShareUnlock} from 'app/gen-server/lib/SharePasswords';
 import {applyPatch, maybePrepareStatement} from 'app/gen-server/lib/TypeORMPatches';
 import {
   bitOr,
@@ -168,6 +180,9 @@ const listPublicSites = appSettings.section('access').flag('listPublicSites').re
 // which is a burden under heavy traffic.
 const DOC_AUTH_CACHE_TTL = 5000;
 
+// How often, at most, to record when a share was last used, in milliseconds.
+const SHARE_LAST_USED_INTERVAL_MS = 60 * 1000;
+
 // Maps from userId to group name, or null to inherit.
 export interface UserIdDelta {
   [userId: string]: roles.NonGuestRole|null;
@@ -226,6 +241,8 @@ export interface Scope {
   showRemoved?: boolean;         // When set, query is scoped to removed workspaces/docs.
   showAll?: boolean;             // When set, return both removed and regular resources.
   specialPermit?: Permit;        // When set, extra rights are granted on a specific resource.
+  shareUnlock?: string;          // Set when accessing a document via a password-protected share
+                                 // whose password was entered (see SharePasswords).
 }
 
 // Flag for whether we are listing resources or opening them.  This makes a difference
@@ -242,7 +259,7 @@ export interface DocScope extends Scope {
 // Represent a DocAuthKey as a string.  The format is "<urlId>:<org> <userId>".
 // flushSingleDocAuthCache() depends on this format.
 function stringifyDocAuthKey(key: DocAuthKey): string {
-  return stringifyUrlIdOrg(key.urlId, key.org) + ` ${key.userId}`;
+  return stringifyUrlIdOrg(key.urlId, key.org) + ` ${key.userId}` + (key.shareUnlock ? ` ${key.shareUnlock}` : '');
 }
 
 function stringifyUrlIdOrg(urlId: string, org?: string): string {
@@ -541,6 +558,12 @@ export class HomeDBManager implements HomeDBAuth {
     return this._groupsManager.overwriteRoleGroup(id, groupDescriptor, optManager);
   }
 
+  public async updateGroupMembers(
+    id: number, changes: GroupMembersChanges, expectedType?: GroupTypes, optManager?: EntityManager
+  ) {
+    return this._groupsManager.updateGroupMembers(id, changes, expectedType, optManager);
+  }
+
   public async deleteGroup(id: number, expectedType?: GroupTypes, optManager?: EntityManager) {
     return this._groupsManager.deleteGroup(id, expectedType, optManager);
   }
@@ -993,6 +1016,7 @@ export class HomeDBManager implements HomeDBAuth {
       if (!res) {
         throw new ApiError('Share not known', 404);
       }
+      this._checkShareUsable(res, key.shareUnlock);
       doc = {
         name: res.doc?.name,
         id: res.docId,
@@ -1003,8 +1027,10 @@ export class HomeDBManager implements HomeDBAuth {
         urlId: key.urlId,
         workspace: res.doc.workspace,
         aliases: [],
-        access: 'editors',  // a share may have view/edit access,
-                            // need to check at granular level
+        // A share may have view/edit access, which is checked at granular level. Share links
+        // known to be view-only are limited here too, so that the web client knows.
+        access: (getShareKind(res.options) === 'link' && res.options.access !== 'editors') ?
+          'viewers' : 'editors',
       } as any;
 
       return doc;
@@ -1831,6 +1857,32 @@ export class HomeDBManager implements HomeDBAuth {
     });
   }
 
+  // Replace the signing secret of a webhook, keeping the current one valid for the given grace
+  // period so that receivers have time to switch over.
+  public async rotateWebhookSigningSecret(
+    props: {
+      id: string,
+      docId: string,
+      signingSecret: string,
+      gracePeriodMs: number,
+      outerManager?: EntityManager}
+    ) {
+    const {id, docId, signingSecret, gracePeriodMs, outerManager} = props;
+    return await this.runInTransaction(outerManager, async manager => {
+      const value = await this.getSecret(id, docId, manager);
+      if (!value) {
+        throw new ApiError('Webhook with given id not found', 404);
+      }
+      const webhookSecret: WebHookSecret = JSON.parse(value);
+      if (webhookSecret.signingSecret) {
+        webhookSecret.previousSigningSecret = webhookSecret.signingSecret;
+        webhookSecret.previousSigningSecretExpiresAt = Date.now() + gracePeriodMs;
+      }
+      webhookSecret.signingSecret = signingSecret;
+      await this.updateSecret(id, docId, JSON.stringify(webhookSecret), manager);
+    });
+  }
+
   public async removeWebhook(id: string, docId: string, unsubscribeKey: string, checkKey: boolean): Promise<void> {
     if (!id) {
       throw new ApiError('Bad request: id required', 400);
@@ -3098,6 +3150,55 @@ export class HomeDBManager implements HomeDBAuth {
       .getOne();
   }
 
+  /**
+   * Returns the shares of a document. Only available to owners of the document, since the
+   * result includes the secret keys of the shares.
+   */
+  public async getDocShares(scope: DocScope): Promise<Share[]> {
+    const doc = await this._getDocForShareManagement(scope);
+    return this._connection.createQueryBuilder()
+      .select('shares')
+      .from(Share, 'shares')
+      .where('shares.doc_id = :docId', {docId: doc.id})
+      .orderBy('shares.id')
+      .getMany();
+  }
+
+  /**
+   * Sets the password of a share of a document, or removes it if password is null. Only
+   * available to owners of the document.
+   */
+  public async setSharePassword(scope: DocScope, linkId: string, password: string|null): Promise<void> {
+    const doc = await this._getDocForShareManagement(scope);
+    const share = await this.getShareByLinkId(doc.id, linkId);
+    if (!share) { throw new ApiError('Share not found', 404); }
+    const passwordHash = password ? await hashSharePassword(password) : null;
+    await this._connection.createQueryBuilder()
+      .update(Share)
+      .set({passwordHash})
+      .where('id = :id', {id: share.id})
+      .execute();
+    // Forget access cached for the share, so that the change applies right away.
+    const prefix = `${SHARE_KEY_PREFIX}${share.key}:`;
+    for (const key of this._docAuthCache.keys()) {
+      if (key.startsWith(prefix)) { this._docAuthCache.delete(key); }
+    }
+  }
+
+  /**
+   * Checks the password of a share identified by its key. Returns the unlock to keep in the
+   * visitor's session (see SharePasswords).
+   */
+  public async unlockShare(shareKey: string, password: string): Promise<string> {
+    const share = await this.getShareByKey(shareKey);
+    if (!share) { throw new ApiError('Share not known', 404); }
+    if (!share.passwordHash) { throw new ApiError('Share is not protected by a password', 400); }
+    if (!await checkSharePassword(password, share.passwordHash)) {
+      throw new ApiError('Wrong password', 403);
+    }
+    return makeShareUnlock({key: share.key, passwordHash: share.passwordHash});
+  }
+
   /**
    * Gets the config with the specified `key`.
    *
@@ -3328,6 +3429,97 @@ export class HomeDBManager implements HomeDBAuth {
     return query.getOne();
   }
 
+  /**
+   * Stores an audit event in the home database.
+   */
+  public async addAuditLogEntry(event: AuditLogEvent): Promise<void> {
+    const user = event.actor.type === "user" ? event.actor.user : undefined;
+    const details = event.details as {document?: {id?: string}}|undefined;
+    const entry = new AuditLogEntry();
+    entry.eventId = event.id;
+    entry.action = event.action;
+    entry.orgId = event.context.site?.id ?? null;
+    entry.docId = details?.document?.id ?? null;
+    entry.userId = user?.id ?? null;
+    entry.userEmail = user?.email ? normalizeEmail(user.email) : null;
+    entry.timestamp = new Date(event.timestamp).toISOString();
+    entry.event = event;
+    await this._connection.manager.save(entry);
+  }
+
+  /**
+   * Gets a page of stored audit events matching `query`, most recent first.
+   *
+   * If `orgId` is set, only events that occurred in that org are included;
+   * otherwise, events from the entire installation are. Callers are
+   * responsible for checking access; see `getOrgAuditLogEntries`.
+   */
+  public async getAuditLogEntries(
+    orgId: number|null,
+    query: AuditLogEventsQuery,
+    { transaction }: { transaction?: EntityManager } = {}
+  ): Promise<AuditLogEventsPage> {
+    const {user, action, docId, since, until, cursor} = query;
+    const limit = query.limit ?? DEFAULT_AUDIT_LOG_EVENTS_LIMIT;
+    const entries = await (transaction || this._connection).createQueryBuilder()
+      .select("entries")
+      .from(AuditLogEntry, "entries")
+      .chain(qb => orgId !== null ? qb.andWhere("entries.org_id = :orgId", {orgId}) : qb)
+      .chain(qb => user ? qb.andWhere("entries.user_email = :email", {email: normalizeEmail(user)}) : qb)
+      .chain(qb => action ? qb.andWhere("entries.action = :action", {action}) : qb)
+      .chain(qb => docId ? qb.andWhere("entries.doc_id = :docId", {docId}) : qb)
+      .chain(qb => since ? qb.andWhere("entries.timestamp >= :since", {since: new Date(since).toISOString()}) : qb)
+      .chain(qb => until ? qb.andWhere("entries.timestamp < :until", {until: new Date(until).toISOString()}) : qb)
+      .chain(qb => cursor ? qb.andWhere("entries.id < :cursor", {cursor: Number(cursor)}) : qb)
+      .orderBy("entries.id", "DESC")
+      // Fetch one extra entry to tell if there is another page.
+      .limit(limit + 1)
+      .getMany();
+    const hasMore = entries.length > limit;
+    const page = entries.slice(0, limit);
+    return {
+      events: page.map(e => e.event),
+      nextCursor: hasMore ? String(page[page.length - 1].id) : null,
+    };
+  }
+
+  /**
+   * Gets a page of stored audit events of an org matching `query`, most
+   * recent first.
+   *
+   * Fails if the scoped user is not an owner of the org.
+   */
+  public async getOrgAuditLogEntries(
+    scope: Scope,
+    orgKey: string|number,
+    query: AuditLogEventsQuery
+  ): Promise<QueryResult<AuditLogEventsPage>> {
+    return this.runInTransaction(undefined, async (manager) => {
+      const orgQuery = this.org(scope, orgKey, {
+        markPermissions: Permissions.OWNER,
+        needRealOrg: true,
+        manager,
+      });
+      const orgQueryResult = await verifyEntity(orgQuery);
+      const org: Organization = this.unwrapQueryResult(orgQueryResult);
+      const data = await this.getAuditLogEntries(org.id, query, { transaction: manager });
+      return { status: 200, data };
+    });
+  }
+
+  /**
+   * Deletes stored audit events that occurred before `timestamp`, and returns
+   * how many were deleted.
+   */
+  public async deleteAuditLogEntriesBefore(timestamp: Date): Promise<number> {
+    const result = await this._connection.createQueryBuilder()
+      .delete()
+      .from(AuditLogEntry)
+      .where("timestamp < :timestamp", {timestamp: timestamp.toISOString()})
+      .execute();
+    return result.affected ?? 0;
+  }
+
   public async getNewUserInvitesCount(
     org: string | number,
     options: {
@@ -3411,6 +3603,51 @@ export class HomeDBManager implements HomeDBAuth {
     return new Map<number|null, DocPrefs>(records.map(r => [r.userId, r.prefs]));
   }
 
+  /**
+   * Adds changes to the pending digest of changes to a document for a user, starting a new
+   * digest due at `dueAt` if there is none. Returns the updated digest. Does not check access.
+   */
+  public async addToDocChangesDigest(
+    docId: string, userId: number, changes: DocChangesSummary, dueAt: Date
+  ): Promise<DocChangesDigest> {
+    return await this.runInTransaction(undefined, async (manager) => {
+      // Start an empty digest if there is none, then lock it until the transaction ends, so that
+      // concurrent additions don't overwrite each other. (SQLite transactions don't run
+      // concurrently, and don't support locking rows.)
+      await manager.createQueryBuilder()
+        .insert()
+        .into(DocChangesDigest)
+        .values({docId, userId, dueAt, changes: {authors: [], userTableNames: [], categories: [], count: 0}})
+        .orIgnore()
+        .execute();
+      const digest = await manager.findOneOrFail(DocChangesDigest, {
+        where: {docId, userId},
+        ...(this._dbType === 'postgres' ? {lock: {mode: 'pessimistic_write'}} : {}),
+      });
+      const union = (a: string[], b: string[]) => [...new Set([...a, ...b])];
+      digest.changes = {
+        authors: union(digest.changes.authors, changes.authors),
+        userTableNames: union(digest.changes.userTableNames, changes.userTableNames),
+        categories: union(digest.changes.categories, changes.categories),
+        count: digest.changes.count + changes.count,
+      };
+      return await manager.save(digest);
+    });
+  }
+
+  /**
+   * Removes and returns the pending digest of changes to a document for a user, if any.
+   */
+  public async takeDocChangesDigest(docId: string, userId: number): Promise<DocChangesDigest|null> {
+    return await this.runInTransaction(undefined, async (manager) => {
+      const digest = await manager.findOne(DocChangesDigest, {where: {docId, userId}});
+      if (digest) {
+        await manager.delete(DocChangesDigest, {docId, userId});
+      }
+      return digest;
+    });
+  }
+
   public setProposal(options: {
     srcDocId: string,
     destDocId: string,
@@ -3596,6 +3833,36 @@ export class HomeDBManager implements HomeDBAuth {
     return this._usersManager.deleteApiKey(userId, transaction);
   }
 
+  private async _getDocForShareManagement(scope: DocScope): Promise<Document> {
+    const doc = await this.getDoc(scope);
+    if (doc.access !== roles.OWNER) {
+      throw new ApiError('Only document owners may manage shares', 403);
+    }
+    return doc;
+  }
+
+  /**
+   * Throws if a share may not be used to access its document: because it has expired, or is
+   * protected by a password that wasn't entered. Otherwise, records that the share is used.
+   */
+  private _checkShareUsable(share: Share, shareUnlock: string|undefined) {
+    if (isShareExpired(share.options)) {
+      throw new ApiError('Share link has expired', 403, {code: 'ShareExpired'});
+    }
+    if (share.passwordHash &&
+        shareUnlock !== makeShareUnlock({key: share.key, passwordHash: share.passwordHash})) {
+      throw new ApiError('Share link requires a password', 403, {code: 'SharePasswordRequired'});
+    }
+    if (!share.lastUsedAt || Date.now() - share.lastUsedAt.getTime() > SHARE_LAST_USED_INTERVAL_MS) {
+      this._connection.createQueryBuilder()
+        .update(Share)
+        .set({lastUsedAt: new Date()})
+        .where('id = :id', {id: share.id})
+        .execute()
+        .catch(e => log.warn(`Failed to record use of share ${share.id}: ${e}`));
+    }
+  }
+
   private async _doGetDocPrefs(scope: DocScope, manager: EntityManager): Promise<[Document, FullDocPrefs]> {
     const {urlId: docId, userId} = scope;
     const docQb = this._doc(scope, {accessStyle: 'openNoPublic', manager});
@@ -5449,9 +5716,9 @@ export async function makeDocAuthResult(docPromise: Promise<Document>): Promise<
  * identify the document to access.  Throws if information is not present.
  */
 export function getDocAuthKeyFromScope(scope: Scope): DocAuthKey {
-  const {urlId, userId, org} = scope;
+  const {urlId, userId, org, shareUnlock} = scope;
   if (!urlId) { throw new Error('document required'); }
-  return {urlId, userId, org};
+  return {urlId, userId, org, ...(shareUnlock ? {shareUnlock} : {})};
 }
 
 // Returns whether the given group is a valid non-guest group.
@@ -80,6 +80,16 @@ export interface GroupWithMembersDescriptor {
   readonly memberGroups?: number[];
 }
 
+export type GroupMembersDescriptor = Pick<GroupWithMembersDescriptor, "memberUsers" | "memberGroups">;
+
+/**
+ * Members to add to and remove from a group, leaving its other members untouched.
+ */
+export interface GroupMembersChanges {
+  readonly add?: GroupMembersDescriptor;
+  readonly remove?: GroupMembersDescriptor;
+}
+
 interface AccessChanges {
   publicAccess: roles.NonGuestRole | null;
   maxInheritedAccess: roles.BasicRole | null;
@@ -98,6 +108,8 @@ export interface DocAuthKey {
   urlId: string;              // May be docId. Must be unambiguous in the context of the org.
   userId: number;             // The user accessing this doc. (Could be the ID of Anonymous.)
   org?: string;               // Undefined if unknown (e.g. in API calls, but needs unique urlId).
+  shareUnlock?: string;       // For password-protected shares, the unlock saved in the session
+                              // when the password was entered (see SharePasswords).
 }
 
 // Document auth info. This is the minimum needed to resolve user access checks. For anything else
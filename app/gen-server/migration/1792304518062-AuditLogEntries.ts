@@ -0,0 +1,75 @@
+import { nativeValues } from "app/gen-server/lib/values";
+import { MigrationInterface, QueryRunner, Table, TableIndex } from "typeorm";
+
+export class AuditLogEntries1792304518062 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<any> {
+    await queryRunner.createTable(
+      new Table({
+        name: "audit_log_entries",
+        columns: [
+          {
+            name: "id",
+            type: "integer",
+            isGenerated: true,
+            generationStrategy: "increment",
+            isPrimary: true,
+          },
+          {
+            name: "event_id",
+            type: "varchar",
+          },
+          {
+            name: "action",
+            type: "varchar",
+          },
+          {
+            name: "org_id",
+            type: "integer",
+            isNullable: true,
+          },
+          {
+            name: "doc_id",
+            type: "varchar",
+            isNullable: true,
+          },
+          {
+            name: "user_id",
+            type: "integer",
+            isNullable: true,
+          },
+          {
+            name: "user_email",
+            type: "varchar",
+            isNullable: true,
+          },
+          {
+            name: "timestamp",
+            type: "varchar",
+          },
+          {
+            name: "event",
+            type: nativeValues.jsonType,
+          },
+        ],
+      })
+    );
+    await queryRunner.createIndex(
+      "audit_log_entries",
+      new TableIndex({
+        name: "audit_log_entries__org_id__id",
+        columnNames: ["org_id", "id"],
+      })
+    );
+    await queryRunner.createIndex(
+      "audit_log_entries",
+      new TableIndex({
+        name: "audit_log_entries__timestamp",
+        columnNames: ["timestamp"],
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<any> {
+    await queryRunner.dropTable("audit_log_entries");
+  }
+}
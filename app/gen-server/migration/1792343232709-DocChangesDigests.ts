@@ -0,0 +1,52 @@
+import { nativeValues } from 'app/gen-server/lib/values';
+import * as sqlUtils from 'app/gen-server/sqlUtils';
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class DocChangesDigests1792343232709 implements MigrationInterface {
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const dbType = queryRunner.connection.driver.options.type;
+    const datetime = sqlUtils.datetime(dbType);
+    await queryRunner.createTable(new Table({
+      name: 'doc_changes_digests',
+      columns: [
+        {
+          name: 'doc_id',
+          type: 'varchar',
+          isPrimary: true,
+        },
+        {
+          name: 'user_id',
+          type: 'integer',
+          isPrimary: true,
+        },
+        {
+          name: 'due_at',
+          type: datetime,
+        },
+        {
+          name: 'changes',
+          type: nativeValues.jsonType,
+        },
+      ],
+      foreignKeys: [
+        {
+          columnNames: ['doc_id'],
+          referencedColumnNames: ['id'],
+          referencedTableName: 'docs',
+          onDelete: 'CASCADE',
+        },
+        {
+          columnNames: ['user_id'],
+          referencedColumnNames: ['id'],
+          referencedTableName: 'users',
+          onDelete: 'CASCADE',
+        },
+      ],
+    }));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('doc_changes_digests');
+  }
+}
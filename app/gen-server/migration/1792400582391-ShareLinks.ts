@@ -0,0 +1,27 @@
+import * as sqlUtils from 'app/gen-server/sqlUtils';
+import {MigrationInterface, QueryRunner, TableColumn} from 'typeorm';
+
+/**
+ * Adds password_hash and last_used_at columns to the shares table, for share links.
+ */
+export class ShareLinks1792400582391 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const dbType = queryRunner.connection.driver.options.type;
+    const datetime = sqlUtils.datetime(dbType);
+    await queryRunner.addColumn('shares', new TableColumn({
+      name: 'password_hash',
+      type: 'varchar',
+      isNullable: true,
+    }));
+    await queryRunner.addColumn('shares', new TableColumn({
+      name: 'last_used_at',
+      type: datetime,
+      isNullable: true,
+    }));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('shares', 'last_used_at');
+    await queryRunner.dropColumn('shares', 'password_hash');
+  }
+}
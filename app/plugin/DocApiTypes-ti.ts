@@ -86,8 +86,12 @@ export const TablesPatch = t.iface([], {
 
 export const SqlPost = t.iface([], {
   "sql": "string",
-  "args": t.opt(t.union(t.array("any"), "null")),
+  "args": t.opt(t.union(t.array("any"), t.iface([], {
+    [t.indexKey]: "any",
+  }), "null")),
   "timeout": t.opt("number"),
+  "limit": t.opt("number"),
+  "cursor": t.opt("string"),
 });
 
 export const SetAttachmentStorePost = t.iface([], {
@@ -113,12 +113,17 @@ export interface TablesPatch {
  */
 export interface SqlPost {
   sql: string;
-  args?: any[] | null; // (It would be nice to support named parameters, but
-                       // that feels tricky currently with node-sqlite3)
+  args?: any[] | {[name: string]: any} | null; // Values for "?" placeholders, or for named
+                       // placeholders like ":name" (given as {name: value}).
   timeout?: number;    // In msecs. Can only be reduced from server default,
                        // not increased. Note timeout of a query could affect
                        // other queued queries on same document, because of
                        // limitations of API node-sqlite3 exposes.
+                       // Applies to each page or batch of results separately.
+  limit?: number;      // Maximum number of records to return. If there are more,
+                       // the response includes a nextCursor.
+  cursor?: string;     // The nextCursor of a previous response for the same sql
+                       // and args, to continue where it left off.
 }
 
 
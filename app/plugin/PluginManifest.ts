@@ -8,7 +8,9 @@
  * (2) Use a JSON schema validator like https://www.npmjs.com/package/ajv to validate manifests
  *     read at run-time and produce informative errors automatically.
  *
- * TODO [Proposal]: To save an ImportSource for reuse, we would save:
+ * Imports from files and URLs can be saved in a document for reuse, as an ImportConfig (see
+ * app/common/ActiveDocAPI.ts).
+ * TODO [Proposal]: To also save an ImportSource provided by a plugin for reuse, we would save:
  *  {
  *    pluginId: string;
  *    importSource: ImportSource;
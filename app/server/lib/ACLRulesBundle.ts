@@ -0,0 +1,268 @@
+/**
+ * Export and import of access rules as a portable bundle. See app/common/ACLRulesBundle.ts.
+ */
+import {parsePermissions} from 'app/common/ACLPermissions';
+import {
+  AclBundleResource, AclBundleRule, AclBundleUserAttribute, AclRulesBundle, AclRulesImportConflict,
+  AclRulesImportOptions, AclRulesImportResult,
+} from 'app/common/ACLRulesBundle';
+import ACLRulesBundleTI from 'app/common/ACLRulesBundle-ti';
+import {SPECIAL_RULES_TABLE_ID} from 'app/common/ACLRuleCollection';
+import {ApiError} from 'app/common/ApiError';
+import {UserAction} from 'app/common/DocActions';
+import {DocData} from 'app/common/DocData';
+import {isHiddenCol} from 'app/common/gristTypes';
+import {PredicateFormulaProperties} from 'app/common/PredicateFormula';
+import * as t from 'ts-interface-checker';
+
+const {AclRulesBundle: AclRulesBundleChecker} = t.createCheckers(ACLRulesBundleTI);
+
+/**
+ * Collects the access rules of a document into a bundle, in order of priority.
+ */
+export function makeAclRulesBundle(docData: DocData): AclRulesBundle {
+  const resourcesTable = docData.getMetaTable('_grist_ACLResources');
+  const rulesTable = docData.getMetaTable('_grist_ACLRules');
+  const resources: AclBundleResource[] = [];
+  const rules: AclBundleRule[] = [];
+  const userAttributes: AclBundleUserAttribute[] = [];
+
+  // Maps rowIds of resources to their ids in the bundle.
+  const resourceIds = new Map<number, number>();
+  for (const rule of rulesTable.getRecords().sort((a, b) => a.rulePos - b.rulePos)) {
+    const resource = resourcesTable.getRecord(rule.resource);
+    // Skip the old-style default resource, which is ignored (see readAclRules()).
+    if (!resource?.tableId || !resource.colIds) { continue; }
+    if (rule.userAttributes) {
+      const {name, tableId, lookupColId, charId} = JSON.parse(rule.userAttributes);
+      userAttributes.push({name, tableId, lookupColId, charId});
+      continue;
+    }
+    let id = resourceIds.get(resource.id);
+    if (!id) {
+      id = resources.length + 1;
+      resourceIds.set(resource.id, id);
+      resources.push({id, tableId: resource.tableId, colIds: resource.colIds});
+    }
+    rules.push({
+      resource: id,
+      aclFormula: rule.aclFormula,
+      permissionsText: rule.permissionsText,
+      ...(rule.memo ? {memo: rule.memo} : {}),
+    });
+  }
+
+  const tableIds = new Set([...resources.map(r => r.tableId), ...userAttributes.map(u => u.tableId)]);
+  return {
+    version: 1,
+    tables: [...tableIds].filter(isUserTableId).sort().map(tableId => ({
+      tableId,
+      colIds: getColIds(docData, tableId) || [],
+    })),
+    resources,
+    rules,
+    userAttributes,
+  };
+}
+
+/**
+ * Works out the actions that would replace the access rules of a document with those of a
+ * bundle, and any conflicts that prevent that. Tables in the bundle are mapped to tables of the
+ * document as given in options, or else to the table with the same tableId, or else to the only
+ * table that has all the columns of the bundle's table. Columns are matched by colId. Formulas
+ * are checked by checkFormula, which should throw if a formula is invalid.
+ */
+export async function planAclRulesImport(
+  docData: DocData,
+  bundle: AclRulesBundle,
+  options: AclRulesImportOptions,
+  checkFormula: (text: string) => Promise<PredicateFormulaProperties>,
+): Promise<{result: AclRulesImportResult, actions: UserAction[]}> {
+  checkBundle(bundle);
+  const conflicts: AclRulesImportConflict[] = [];
+  const tableIds = mapTables(docData, bundle, options, conflicts);
+
+  function checkColumns(bundleTableId: string, colIds: string[], aclFormula?: string) {
+    const tableId = tableIds[bundleTableId];
+    if (!tableId) { return; }   // Reported already as a missing table.
+    const validColIds = new Set(getColIds(docData, tableId));
+    const missing = colIds.filter(colId => !validColIds.has(colId));
+    if (missing.length > 0) {
+      conflicts.push({
+        kind: 'missingColumns',
+        tableId: bundleTableId,
+        colIds: missing,
+        ...(aclFormula ? {aclFormula} : {}),
+        message: `Columns missing in table ${tableId}: ${missing.join(', ')}`,
+      });
+    }
+  }
+
+  const resources = new Map(bundle.resources.map(r => [r.id, r]));
+  for (const resource of bundle.resources) {
+    if (isUserTableId(resource.tableId) && resource.colIds !== '*') {
+      checkColumns(resource.tableId, resource.colIds.split(','));
+    }
+  }
+  for (const userAttr of bundle.userAttributes) {
+    checkColumns(userAttr.tableId, [userAttr.lookupColId]);
+  }
+
+  const checkedFormulas = new Map<string, PredicateFormulaProperties|null>();
+  for (const rule of bundle.rules) {
+    if (!rule.aclFormula) { continue; }
+    if (!checkedFormulas.has(rule.aclFormula)) {
+      try {
+        checkedFormulas.set(rule.aclFormula, await checkFormula(rule.aclFormula));
+      } catch (e) {
+        checkedFormulas.set(rule.aclFormula, null);
+        conflicts.push({kind: 'invalidFormula', aclFormula: rule.aclFormula, message: e.message});
+      }
+    }
+    const props = checkedFormulas.get(rule.aclFormula);
+    const {tableId} = resources.get(rule.resource)!;
+    if (props?.recColIds && isUserTableId(tableId)) {
+      checkColumns(tableId, props.recColIds, rule.aclFormula);
+    }
+  }
+
+  return {
+    result: {
+      applied: false,
+      tableIds,
+      rules: bundle.rules.length,
+      userAttributes: bundle.userAttributes.length,
+      conflicts,
+    },
+    actions: conflicts.length > 0 ? [] : makeImportActions(docData, bundle, tableIds),
+  };
+}
+
+// Checks the structure of the bundle, throwing a 400 error if it is invalid.
+function checkBundle(bundle: AclRulesBundle) {
+  try {
+    AclRulesBundleChecker.check(bundle);
+    // Resources are added with their negated ids as rowIds, so ids must be unique and positive.
+    const resourceIds = new Set<number>();
+    for (const {id} of bundle.resources) {
+      if (!Number.isInteger(id) || id <= 0) {
+        throw new Error(`resource id ${id} is not a positive integer`);
+      }
+      if (resourceIds.has(id)) {
+        throw new Error(`resource id ${id} is used more than once`);
+      }
+      resourceIds.add(id);
+    }
+    for (const rule of bundle.rules) {
+      if (!resourceIds.has(rule.resource)) {
+        throw new Error(`rule refers to unknown resource ${rule.resource}`);
+      }
+      parsePermissions(rule.permissionsText);
+    }
+  } catch (e) {
+    throw new ApiError('Invalid access rules bundle', 400, {userError: e.message});
+  }
+}
+
+// Returns a mapping of tableIds of the bundle to tableIds of the document, adding a conflict for
+// each table that can't be mapped.
+function mapTables(docData: DocData, bundle: AclRulesBundle, options: AclRulesImportOptions,
+                   conflicts: AclRulesImportConflict[]): {[bundleTableId: string]: string} {
+  const docTableIds = docData.getMetaTable('_grist_Tables').getRecords().map(table => table.tableId);
+  const result: {[bundleTableId: string]: string} = {};
+  const unmapped: string[] = [];
+  // Include tables mentioned in rules even if the bundle doesn't describe them.
+  const bundleTableIds = new Set([
+    ...bundle.tables.map(table => table.tableId),
+    ...bundle.resources.map(r => r.tableId).filter(isUserTableId),
+    ...bundle.userAttributes.map(u => u.tableId),
+  ]);
+  for (const tableId of bundleTableIds) {
+    const mapped = options.tableIds?.[tableId] ?? tableId;
+    if (docTableIds.includes(mapped)) {
+      result[tableId] = mapped;
+    } else if (options.tableIds?.[tableId]) {
+      conflicts.push({kind: 'missingTable', tableId, message: `Table ${mapped} not found`});
+    } else {
+      unmapped.push(tableId);
+    }
+  }
+  // Tables of the bundle that aren't in the document under the same name may have been renamed:
+  // look for the only other table that has all their columns.
+  const usedTableIds = new Set(Object.values(result));
+  for (const tableId of unmapped) {
+    const colIds = bundle.tables.find(table => table.tableId === tableId)?.colIds || [];
+    const candidates = colIds.length === 0 ? [] : docTableIds.filter(docTableId => {
+      const docColIds = new Set(getColIds(docData, docTableId));
+      return !usedTableIds.has(docTableId) && colIds.every(colId => docColIds.has(colId));
+    });
+    if (candidates.length === 1) {
+      result[tableId] = candidates[0];
+      usedTableIds.add(candidates[0]);
+    } else {
+      conflicts.push({
+        kind: 'missingTable',
+        tableId,
+        message: candidates.length > 1 ?
+          `Table ${tableId} not found, and several tables have its columns: ${candidates.join(', ')}` :
+          `Table ${tableId} not found`,
+      });
+    }
+  }
+  return result;
+}
+
+function makeImportActions(docData: DocData, bundle: AclRulesBundle,
+                           tableIds: {[bundleTableId: string]: string}): UserAction[] {
+  const actions: UserAction[] = [];
+  const ruleRowIds = docData.getMetaTable('_grist_ACLRules').getRowIds();
+  const resourceRowIds = docData.getMetaTable('_grist_ACLResources').getRowIds();
+  if (ruleRowIds.length > 0) { actions.push(['BulkRemoveRecord', '_grist_ACLRules', [...ruleRowIds]]); }
+  if (resourceRowIds.length > 0) { actions.push(['BulkRemoveRecord', '_grist_ACLResources', [...resourceRowIds]]); }
+
+  // New resources get negative rowIds, which rules can refer to in the same bundle of actions.
+  // User attribute rules belong to the default resource, which is added if the bundle lacks it.
+  let defaultRowId = -(bundle.resources.find(r => r.tableId === '*' && r.colIds === '*')?.id ?? 0);
+  if (!defaultRowId) {
+    defaultRowId = -(Math.max(0, ...bundle.resources.map(r => r.id)) + 1);
+    actions.push(['AddRecord', '_grist_ACLResources', defaultRowId, {tableId: '*', colIds: '*'}]);
+  }
+  for (const resource of bundle.resources) {
+    actions.push(['AddRecord', '_grist_ACLResources', -resource.id, {
+      tableId: tableIds[resource.tableId] ?? resource.tableId,
+      colIds: resource.colIds,
+    }]);
+  }
+  let rulePos = 0;
+  for (const rule of bundle.rules) {
+    actions.push(['AddRecord', '_grist_ACLRules', null, {
+      resource: -rule.resource,
+      aclFormula: rule.aclFormula,
+      permissionsText: rule.permissionsText,
+      memo: rule.memo ?? '',
+      rulePos: ++rulePos,
+    }]);
+  }
+  for (const userAttr of bundle.userAttributes) {
+    actions.push(['AddRecord', '_grist_ACLRules', null, {
+      resource: defaultRowId,
+      userAttributes: JSON.stringify({...userAttr, tableId: tableIds[userAttr.tableId] ?? userAttr.tableId}),
+      rulePos: ++rulePos,
+    }]);
+  }
+  return actions;
+}
+
+// Whether tableId is that of a table, rather than the default or special resources.
+function isUserTableId(tableId: string) {
+  return tableId !== '*' && tableId !== SPECIAL_RULES_TABLE_ID;
+}
+
+// Returns the visible colIds of a table of the document, or undefined if there is no such table.
+function getColIds(docData: DocData, tableId: string): string[]|undefined {
+  const tableRef = docData.getMetaTable('_grist_Tables').findRow('tableId', tableId);
+  if (!tableRef) { return undefined; }
+  return docData.getMetaTable('_grist_Tables_column').filterRecords({parentId: tableRef})
+    .map(col => col.colId)
+    .filter(colId => !isHiddenCol(colId));
+}
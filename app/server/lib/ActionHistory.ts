@@ -16,7 +16,7 @@
 import {LocalActionBundle} from 'app/common/ActionBundle';
 import {ActionGroup, MinimalActionGroup} from 'app/common/ActionGroup';
 import {createEmptyActionSummary} from 'app/common/ActionSummary';
-import {summarizeAction} from 'app/common/ActionSummarizer';
+import {ActionSummaryOptions, summarizeAction} from 'app/common/ActionSummarizer';
 import {DocState} from 'app/common/DocState';
 
 export interface ActionGroupOptions {
@@ -24,6 +24,9 @@ export interface ActionGroupOptions {
   // changes made within the action.  Otherwise, the actionSummary returned is empty.
   summarize?: boolean;
 
+  // Options for the summary, if summarize is set.
+  summaryOptions?: ActionSummaryOptions;
+
   // The client for which the action group is being prepared, if known.
   clientId?: string;
 
@@ -186,7 +189,7 @@ export function asActionGroup(history: ActionHistory,
     // Desc is a human-readable description of the user action set in a few places by client-side
     // code, but is mostly (or maybe completely) unused.
     desc: info.desc,
-    actionSummary: summarize ? summarizeAction(act) : createEmptyActionSummary(),
+    actionSummary: summarize ? summarizeAction(act, options.summaryOptions) : createEmptyActionSummary(),
     fromSelf,
     linkId: info.linkId,
     otherId: info.otherId,
@@ -12,11 +12,14 @@ import {
   SandboxRequest,
   UserActionBundle
 } from 'app/common/ActionBundle';
+import {AclRulesBundle, AclRulesImportOptions, AclRulesImportResult} from 'app/common/ACLRulesBundle';
 import {ActionGroup, MinimalActionGroup} from 'app/common/ActionGroup';
 import {rebaseSummary} from 'app/common/ActionSummarizer';
 import {ActionSummary} from 'app/common/ActionSummary';
 import {
   AclResources,
+  AclSimulationRequest,
+  AclSimulationResult,
   AclTableDescription,
   ApplyProposalResult,
   ApplyUAExtendedOptions,
@@ -26,6 +29,7 @@ import {
   DataSourceTransformed,
   ForkResult,
   FormulaTimingInfo,
+  ImportConfig,
   ImportOptions,
   ImportResult,
   ISuggestionWithValue,
@@ -41,6 +45,7 @@ import {
 import {ApiError} from 'app/common/ApiError';
 import {mapGetOrSet, MapWithTTL} from 'app/common/AsyncCreate';
 import {AttachmentColumns, gatherAttachmentIds, getAttachmentColumns} from 'app/common/AttachmentColumns';
+import {CellHistoryEntry, getCellHistory} from 'app/common/CellHistory';
 import {WebhookMessageType} from 'app/common/CommTypes';
 import {
   BulkAddRecord,
@@ -56,7 +61,7 @@ import {
 } from 'app/common/DocActions';
 import {DocData} from 'app/common/DocData';
 import {getDataLimitInfo, getDataLimitRatio, getSeverity} from 'app/common/DocLimits';
-import {DocSnapshots} from 'app/common/DocSnapshot';
+import {DocSnapshots, SnapshotMetadataUpdate} from 'app/common/DocSnapshot';
 import {
   DocState,
   DocStateComparison,
@@ -86,9 +91,10 @@ import {
 } from 'app/common/PredicateFormula';
 import * as roles from 'app/common/roles';
 import {schema, SCHEMA_VERSION} from 'app/common/schema';
+import {isShareExpired, ShareOptions} from 'app/common/ShareOptions';
 import {MetaRowRecord, SingleCell} from 'app/common/TableData';
 import {TelemetryEvent, TelemetryMetadataByLevel} from 'app/common/Telemetry';
-import {FetchUrlOptions, UploadResult} from 'app/common/uploads';
+import {FetchUrlOptions, JsonApiSource, UploadResult} from 'app/common/uploads';
 import {
   ANONYMOUS_USER_EMAIL,
   Document as APIDocument,
@@ -150,7 +156,7 @@ import {
 import {shortDesc} from 'app/server/lib/shortDesc';
 import {TableMetadataLoader} from 'app/server/lib/TableMetadataLoader';
 import {DocTriggers} from 'app/server/lib/Triggers';
-import {fetchURL, FileUploadInfo, globalUploadSet, UploadInfo} from 'app/server/lib/uploads';
+import {fetchJsonApi, fetchURL, FileUploadInfo, globalUploadSet, UploadInfo} from 'app/server/lib/uploads';
 import {UserPresence} from 'app/server/lib/UserPresence';
 import assert from 'assert';
 import {Mutex} from 'async-mutex';
@@ -164,11 +170,13 @@ import fetch from 'node-fetch';
 import stream from 'node:stream';
 import path from 'path';
 
+import {makeAclRulesBundle, planAclRulesImport} from 'app/server/lib/ACLRulesBundle';
 import {ActionHistory} from 'app/server/lib/ActionHistory';
 import {ActionHistoryImpl} from 'app/server/lib/ActionHistoryImpl';
 import {ActiveDocImport, FileImportOptions} from 'app/server/lib/ActiveDocImport';
 import {AttachmentFileManager, MismatchedFileHashError} from 'app/server/lib/AttachmentFileManager';
 import {IAttachmentStoreProvider} from 'app/server/lib/AttachmentStoreProvider';
+import {DocChangeFeed, TableChangeListener} from 'app/server/lib/DocChangeFeed';
 import {DocClients} from 'app/server/lib/DocClients';
 import {DocPluginManager} from 'app/server/lib/DocPluginManager';
 import {DocSession, DocSessionPrecursor, makeExceptionalDocSession, OptDocSession} from 'app/server/lib/DocSession';
@@ -213,6 +221,9 @@ const LOG_DOCUMENT_METRICS_DELAY = {delayMs: 60 * 60 * 1000, varianceMs: 30 * 10
 // For items of work that need to happen at shutdown, timeout before aborting the wait for them.
 const SHUTDOWN_ITEM_TIMEOUT_MS = 5000;
 
+// The longest delay setTimeout supports (about 24 days).
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
 const MAX_INTERNAL_ATTACHMENTS_BYTES =
     appSettings.section('externalStorage').flag('maxInternalBytes').readInt({
       envVar: 'GRIST_MAX_INTERNAL_ATTACHMENTS_BYTES',
@@ -290,6 +301,7 @@ export class ActiveDoc extends EventEmitter {
   private readonly _server: GristServer = this._docManager.gristServer;
   private _log = new LogMethods('ActiveDoc ', (s: OptDocSession | null) => this.getLogMeta(s));
   private _triggers: DocTriggers;
+  private _changeFeed = new DocChangeFeed(this);
   private _requests: DocRequests;
   private _dataEngine: Promise<ISandbox>|null = null;
   private _activeDocImport: ActiveDocImport;
@@ -335,6 +347,8 @@ export class ActiveDoc extends EventEmitter {
     this._log.debug(null, 'inactivity timeout');
     return this._onInactive();
   }, Deps.ACTIVEDOC_TIMEOUT * 1000);
+  // Timers for ending sessions opened through share links when the links expire.
+  private _shareExpiryTimers = new Map<DocSession, NodeJS.Timeout>();
   private _recoveryMode: boolean = false;
   private _shuttingDown: boolean = false;
   private _afterShutdownCallback?: () => Promise<void>;
@@ -441,7 +455,11 @@ export class ActiveDoc extends EventEmitter {
     this.docStorage = new DocStorage(_docManager.storageManager, _docName);
     this.docClients = new DocClients(this);
     this._userPresence = new UserPresence(this.docClients);
-    this._triggers = new DocTriggers(this);
+    this.docClients.addClientRemovedListener((docSession) => {
+      clearTimeout(this._shareExpiryTimers.get(docSession));
+      this._shareExpiryTimers.delete(docSession);
+    });
+    this._triggers = new DocTriggers(this, this._server);
     this._requests = new DocRequests(this);
     this._actionHistory = new ActionHistoryImpl(this.docStorage);
     this.docPluginManager = _docManager.pluginManager
@@ -511,6 +529,8 @@ export class ActiveDoc extends EventEmitter {
 
   public get triggers(): DocTriggers { return this._triggers; }
 
+  public get changeFeed(): DocChangeFeed { return this._changeFeed; }
+
   public get rowLimitRatio(): number {
     return getUsageRatio(
       this._docUsage?.rowCount?.total,
@@ -610,15 +630,25 @@ export class ActiveDoc extends EventEmitter {
   public async getRecentActions(docSession: OptDocSession, summarize: boolean): Promise<ActionGroup[]> {
     const groups = await this._actionHistory.getRecentActionGroups(MAX_RECENT_ACTIONS,
       {clientId: docSession.client?.clientId, summarize});
-    const permittedGroups: ActionGroup[] = [];
-    // Process groups serially since the work is synchronous except for some
-    // possible db accesses that will be serialized in any case.
-    for (const group of groups) {
-      if (await this._granularAccess.allowActionGroup(docSession, group)) {
-        permittedGroups.push(group);
-      }
+    return this._filterActionGroups(docSession, groups);
+  }
+
+  /**
+   * Get the changes made to a cell by recent actions, most recent first, with who made them
+   * and when. Only actions that the user may see are considered, and the user must be able to
+   * read the cell as it is now.
+   */
+  public async getCellHistory(docSession: OptDocSession, cell: SingleCell): Promise<CellHistoryEntry[]> {
+    if (!await this._granularAccess.hasCellAccess(docSession, cell)) {
+      throw new ApiError('Cannot access cell', 403);
     }
-    return permittedGroups;
+    const groups = await this._actionHistory.getRecentActionGroups(MAX_RECENT_ACTIONS, {
+      clientId: docSession.client?.clientId,
+      summarize: true,
+      // Keep values of the cell's column even in bulk changes, which summaries otherwise omit.
+      summaryOptions: {alwaysPreserveColIds: [cell.colId]},
+    });
+    return getCellHistory(await this._filterActionGroups(docSession, groups), cell);
   }
 
   public async getRecentMinimalActions(docSession: OptDocSession): Promise<MinimalActionGroup[]> {
@@ -631,6 +661,23 @@ export class ActiveDoc extends EventEmitter {
     return this._actionHistory;
   }
 
+  /**
+   * Subscribes to changes to the records of a table, as delivered by the change feed. The
+   * document is kept open until the returned function is called to unsubscribe.
+   */
+  public async subscribeToChanges(docSession: OptDocSession, tableId: string, listener: TableChangeListener,
+                                  sinceActionNum?: number): Promise<() => void> {
+    let finish!: () => void;
+    this._inactivityTimer.disableUntilFinish(new Promise<void>(resolve => { finish = resolve; })).catch(() => {});
+    try {
+      const unsubscribe = await this._changeFeed.subscribe(docSession, tableId, listener, sinceActionNum);
+      return () => { unsubscribe(); finish(); };
+    } catch (e) {
+      finish();
+      throw e;
+    }
+  }
+
   public handleTriggers(localActionBundle: LocalActionBundle): Promise<ActionSummary> {
     return this._triggers.handle(localActionBundle);
   }
@@ -644,6 +691,7 @@ export class ActiveDoc extends EventEmitter {
    */
   public addClient(client: Client, docSessionPrecursor: DocSessionPrecursor): DocSession {
     const docSession: DocSession = this.docClients.addClient(client, docSessionPrecursor);
+    this._scheduleShareExpiry(docSession);
 
     // If we had a shutdown scheduled, unschedule it.
     if (this._inactivityTimer.isEnabled()) {
@@ -948,6 +996,58 @@ export class ActiveDoc extends EventEmitter {
     return this._activeDocImport.generateImportDiff(hiddenTableId, transformRule, mergeOptions);
   }
 
+  /**
+   * Returns the import configurations saved in the document, sorted by name.
+   */
+  public getImportConfigs(_docSession: OptDocSession): Promise<ImportConfig[]> {
+    return this._activeDocImport.getImportConfigs();
+  }
+
+  /**
+   * Saves an import configuration in the document, replacing any existing one with the same name.
+   * Import configurations aren't part of the document's action history, so changes to them can't
+   * be undone; they are recorded in the audit log instead, with the configuration they replace.
+   */
+  public async saveImportConfig(docSession: OptDocSession, config: ImportConfig): Promise<void> {
+    const {current, previous} = await this._activeDocImport.saveImportConfig(config);
+    this.logAuditEvent(docSession, {
+      action: "document.save_import_config",
+      details: {
+        document: {
+          id: this.docName,
+        },
+        import_config: current,
+        ...(previous ? {previous_import_config: previous} : {}),
+      },
+    });
+  }
+
+  /**
+   * Removes the import configuration called `name` from the document. As with saving, this is
+   * recorded in the audit log, along with the removed configuration.
+   */
+  public async removeImportConfig(docSession: OptDocSession, name: string): Promise<void> {
+    const previous = await this._activeDocImport.removeImportConfig(name);
+    if (!previous) { return; }
+    this.logAuditEvent(docSession, {
+      action: "document.remove_import_config",
+      details: {
+        document: {
+          id: this.docName,
+        },
+        import_config: previous,
+      },
+    });
+  }
+
+  /**
+   * Imports the files from the given upload using the import configuration called `name`, and
+   * cleans up the upload.
+   */
+  public runImportConfig(docSession: OptDocSession, name: string, uploadId: number): Promise<ImportResult> {
+    return this._activeDocImport.runImportConfig(docSession, name, uploadId);
+  }
+
   /**
    * Apply a proposal to the document. The proposal is applied as a set of linked action groups
    * for ease of undo, meaning each action group has a linkId refering to the previous one, and
@@ -1747,16 +1847,20 @@ export class ActiveDoc extends EventEmitter {
     return this._pyCall('evaluate_formula', options.tableId, options.colId, options.rowId);
   }
 
-  public fetchURL(docSession: DocSession, url: string, options?: FetchUrlOptions): Promise<UploadResult> {
-    if (this._isUntrustedRequestBehaviorSet === undefined) {
-      this._isUntrustedRequestBehaviorSet = isUntrustedRequestBehaviorSet();
-    }
-    if (!this._isUntrustedRequestBehaviorSet) {
-      throw new Error('Cannot use fetchURL without explicit proxy configuration');
-    }
+  public fetchURL(docSession: OptDocSession, url: string, options?: FetchUrlOptions): Promise<UploadResult> {
+    this._checkUntrustedRequestBehavior('fetchURL');
     return fetchURL(url, this.makeAccessId(docSession.userId), options);
   }
 
+  /**
+   * Fetches records from a JSON REST endpoint, following its pagination, into a new upload that
+   * may then be imported with importFiles().
+   */
+  public fetchJsonApi(docSession: OptDocSession, source: JsonApiSource): Promise<UploadResult> {
+    this._checkUntrustedRequestBehavior('fetchJsonApi');
+    return fetchJsonApi(source, this.makeAccessId(docSession.userId));
+  }
+
   public async forwardPluginRpc(docSession: DocSession, pluginId: string, msg: IMessage): Promise<any> {
     if (await this._granularAccess.hasNuancedAccess(docSession)) {
       throw new Error('cannot confirm access to plugin');
@@ -1887,7 +1991,7 @@ export class ActiveDoc extends EventEmitter {
   /**
    * Check if an ACL formula is valid. If not, will throw an error with an explanation.
    */
-  public async checkAclFormula(docSession: DocSession, text: string): Promise<PredicateFormulaProperties> {
+  public async checkAclFormula(docSession: OptDocSession, text: string): Promise<PredicateFormulaProperties> {
     // Checks can leak names of tables and columns.
     if (await this._granularAccess.hasNuancedAccess(docSession)) { return {}; }
     await this.waitForInitialization();
@@ -1943,6 +2047,47 @@ export class ActiveDoc extends EventEmitter {
     return {tables: result, problems};
   }
 
+  /**
+   * Returns the access rules of the document as a portable bundle. Only available to users who
+   * can view access rules.
+   */
+  public async exportAccessRules(docSession: OptDocSession): Promise<AclRulesBundle> {
+    if (!this.docData || !await this._granularAccess.hasAccessRulesPermission(docSession)) {
+      throw new ApiError('Cannot export access rules', 403);
+    }
+    return makeAclRulesBundle(this.docData);
+  }
+
+  /**
+   * Replaces the access rules of the document with those of a bundle, checking formulas with
+   * checkAclFormula(). Nothing is changed if there are conflicts, such as tables or columns
+   * missing from the document; they are listed in the result. Only available to owners.
+   */
+  public async importAccessRules(docSession: OptDocSession, bundle: AclRulesBundle,
+                                 options: AclRulesImportOptions = {}): Promise<AclRulesImportResult> {
+    if (!await this._granularAccess.isOwner(docSession)) {
+      throw new ApiError('Only owners can import access rules', 403);
+    }
+    await this.waitForInitialization();
+    const {result, actions} = await planAclRulesImport(this.docData!, bundle, options,
+      text => this.checkAclFormula(docSession, text));
+    if (!options.dryRun && result.conflicts.length === 0) {
+      await this.applyUserActions(docSession, actions);
+      result.applied = true;
+    }
+    return result;
+  }
+
+  /**
+   * Evaluates access rules for a cell as seen by some user, listing the outcome of each rule.
+   * Only available to owners.
+   */
+  public async simulateAccessRules(docSession: OptDocSession,
+                                   request: AclSimulationRequest): Promise<AclSimulationResult> {
+    await this.waitForInitialization();
+    return this._granularAccess.simulateAccess(docSession, request);
+  }
+
   /**
    * Get users that are worth proposing to "View As" for access control purposes.
    * User are drawn from the following sources:
@@ -2159,6 +2304,14 @@ export class ActiveDoc extends EventEmitter {
     return this._docManager.storageManager.removeSnapshots(this.docName, snapshotIds);
   }
 
+  public async updateSnapshotMetadata(docSession: OptDocSession, snapshotId: string,
+                                      update: SnapshotMetadataUpdate): Promise<void> {
+    if (!await this.isOwner(docSession)) {
+      throw new Error('cannot change snapshots, access denied');
+    }
+    return this._docManager.storageManager.updateSnapshotMetadata(this.docName, snapshotId, update);
+  }
+
   public async deleteActions(docSession: OptDocSession, keepN: number): Promise<void> {
     if (!await this.isOwner(docSession)) {
       throw new Error('cannot delete actions, access denied');
@@ -2391,6 +2544,10 @@ export class ActiveDoc extends EventEmitter {
     return this._memoryUsedMB;
   }
 
+  public async canReadEverything(docSession: OptDocSession): Promise<boolean> {
+    return this._granularAccess.canReadEverything(docSession);
+  }
+
   public async notifySubscribers(docSession: OptDocSession, accessControl: GranularAccessForBundle): Promise<void> {
     return this._server.getDocNotificationManager()?.notifySubscribers(docSession, this._docName, accessControl);
   }
@@ -2542,6 +2699,7 @@ export class ActiveDoc extends EventEmitter {
       }
 
       this._triggers.shutdown();
+      this._changeFeed.shutdown();
 
       // attachmentFileManager needs to shut down before DocStorage, to allow transfers to finish.
       await safeCallAndWait('attachmentFileManager',
@@ -2663,6 +2821,30 @@ export class ActiveDoc extends EventEmitter {
                               timezone, JSON.stringify(documentSettings));
   }
 
+  // Keep only the action groups the user may see.
+  private async _filterActionGroups(docSession: OptDocSession, groups: ActionGroup[]): Promise<ActionGroup[]> {
+    const permittedGroups: ActionGroup[] = [];
+    // Process groups serially since the work is synchronous except for some
+    // possible db accesses that will be serialized in any case.
+    for (const group of groups) {
+      if (await this._granularAccess.allowActionGroup(docSession, group)) {
+        permittedGroups.push(group);
+      }
+    }
+    return permittedGroups;
+  }
+
+  // Fetching from user-supplied URLs is only allowed when the server is explicitly configured
+  // with how to make such untrusted requests (through a proxy, or directly).
+  private _checkUntrustedRequestBehavior(methodName: string) {
+    if (this._isUntrustedRequestBehaviorSet === undefined) {
+      this._isUntrustedRequestBehaviorSet = isUntrustedRequestBehaviorSet();
+    }
+    if (!this._isUntrustedRequestBehaviorSet) {
+      throw new Error(`Cannot use ${methodName} without explicit proxy configuration`);
+    }
+  }
+
   private _makeInfo(docSession: OptDocSession, options: ApplyUAOptions = {}) {
     const user =
       docSession.mode === 'system' ? 'grist' :
@@ -3003,6 +3185,10 @@ export class ActiveDoc extends EventEmitter {
         for (const interval of this._intervals) {
           interval.enable();
         }
+        // Scheduled webhooks run even when the doc is closed, but need queuing when first seen.
+        if (!this._isForkOrSnapshot) {
+          this._triggers.scheduleAll().catch(e => this._log.warn(docSession, "failed to schedule webhooks: %s", e));
+        }
       }
     } catch (err) {
       this._fullyLoaded = true;
@@ -3455,6 +3641,29 @@ export class ActiveDoc extends EventEmitter {
     }
   }
 
+  /**
+   * Ends a session opened through a share link when the link expires. The home server refuses
+   * expired links, but open sessions would otherwise only notice when they next check access.
+   */
+  private _scheduleShareExpiry(docSession: DocSession) {
+    const linkId = getDocSessionShare(docSession);
+    const shares = this.docData?.getMetaTable('_grist_Shares');
+    const shareRef = linkId && shares?.findRow('linkId', linkId);
+    if (!shareRef) { return; }
+    const options: ShareOptions = safeJsonParse(shares!.getValue(shareRef, 'options') || '', {});
+    if (!options.expiresAt) { return; }
+    if (isShareExpired(options)) {
+      this._log.info(docSession, "share link expired, closing session");
+      this._shareExpiryTimers.delete(docSession);
+      void docSession.client.sendMessageOrInterrupt({type: 'docShutdown', docFD: docSession.fd, data: null})
+        .then(() => this.closeDoc(docSession));
+      return;
+    }
+    // Check again at expiry, or sooner for expiries beyond what setTimeout supports.
+    const delayMs = Math.min(options.expiresAt - Date.now(), MAX_TIMEOUT_MS);
+    this._shareExpiryTimers.set(docSession, setTimeout(() => this._scheduleShareExpiry(docSession), delayMs));
+  }
+
   private async _onInactive() {
     if (Deps.ACTIVEDOC_TIMEOUT_ACTION === 'shutdown') {
       await this.shutdown({
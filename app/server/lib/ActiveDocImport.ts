@@ -4,8 +4,8 @@ import * as path from 'path';
 import * as _ from 'underscore';
 
 import {ColumnDelta, createEmptyActionSummary} from 'app/common/ActionSummary';
-import {ApplyUAResult, DataSourceTransformed, ImportOptions, ImportResult, ImportTableResult,
-        MergeOptions, MergeOptionsMap, MergeStrategy, SKIP_TABLE,
+import {ApplyUAResult, DataSourceTransformed, ImportConfig, ImportConfigSource, ImportOptions, ImportResult,
+        ImportTableResult, MergeOptions, MergeOptionsMap, MergeStrategy, MissingRecordsStrategy, SKIP_TABLE,
         TransformRule,
         TransformRuleMap} from 'app/common/ActiveDocAPI';
 import {ApiError} from 'app/common/ApiError';
@@ -21,13 +21,22 @@ import {ActiveDoc} from 'app/server/lib/ActiveDoc';
 import {DocSession, OptDocSession} from 'app/server/lib/DocSession';
 import log from 'app/server/lib/log';
 import {globalUploadSet, moveUpload, UploadInfo} from 'app/server/lib/uploads';
-import {buildComparisonQuery} from 'app/server/lib/ExpandedQuery';
+import {buildComparisonQuery, buildMissingRowsQuery} from 'app/server/lib/ExpandedQuery';
 import {ExcelFormulaParser} from 'app/common/ExcelFormulaParser';
 import {CellReferenceConverter} from 'app/common/CellReferenceConverter';
+import ImportConfigTI from 'app/common/ImportConfig-ti';
+import uploadsTI from 'app/common/uploads-ti';
+import FileParserAPITI from 'app/plugin/FileParserAPI-ti';
+import GristTableTI from 'app/plugin/GristTable-ti';
+import {createCheckers} from 'ts-interface-checker';
 import flatten = require('lodash/flatten');
+import pick = require('lodash/pick');
 
 const IMPORT_TRANSFORM_COLUMN_PREFIX = 'gristHelper_Import_';
 
+const {ImportConfig: ImportConfigChecker} = createCheckers(ImportConfigTI, uploadsTI, FileParserAPITI, GristTableTI);
+ImportConfigChecker.setReportedPath('config');
+
 /*
  * AddTableRetValue contains return value of user actions 'AddTable'
 */
@@ -47,6 +56,16 @@ interface ReferenceDescription {
   refTableId: string;
 }
 
+/*
+ * MissingRecords describes destination records affected by a `MissingRecordsStrategy`.
+ */
+interface MissingRecords {
+  // Decoded values of destination records missing from the source, with ids under `${destTableId}.id`.
+  missing: BulkColValues;
+  // Ids of flagged destination records that are present in the source again.
+  unflagRowIds: number[];
+}
+
 export interface FileImportOptions {
   // Suggested name of the import file. It is sometimes used as a suggested table name, e.g. for csv imports.
   originalFilename: string;
@@ -126,6 +145,12 @@ export class ActiveDocImport {
    * we treat added records as an updated record in `hiddenTableId` where all the column
    * values changed from blank to the original column values from `hiddenTableId`.
    *
+   * Destination records that are missing from the source, and will be removed or flagged
+   * according to `mergeOptions.missingRecordsStrategy`, are returned in the `leftChanges` as
+   * rows removed from `hiddenTableId`, with their current destination values. They get row ids
+   * past the last row of `hiddenTableId` so as not to collide with source rows. For the 'flag'
+   * strategy, the flag column shows the value it will be set to.
+   *
    * @param {string} hiddenTableId Source table.
    * @param {TransformRule} transformRule Transform rule for the original source columns.
    * The destination table id is populated in the rule.
@@ -135,9 +160,11 @@ export class ActiveDocImport {
    * `hiddenTableId` is merged into the destination table from `transformRule`.
    */
   public async generateImportDiff(hiddenTableId: string, {destCols, destTableId}: TransformRule,
-                                  {mergeCols, mergeStrategy}: MergeOptions): Promise<DocStateComparison> {
+                                  {mergeCols, mergeStrategy, missingRecordsStrategy}: MergeOptions
+  ): Promise<DocStateComparison> {
     // Merge column ids from client have prefixes that need to be stripped.
     mergeCols = stripPrefixes(mergeCols);
+    const flagColId = this._getFlagColId(destTableId!, missingRecordsStrategy);
 
     // Get column differences between `hiddenTableId` and `destTableId` for rows that exist in both tables.
     const srcAndDestColIds: [string, string[]][] = destCols.map(c => [c.colId!, stripPrefixes([c.colId!])]);
@@ -191,13 +218,42 @@ export class ActiveDocImport {
       updatedRecordIds.push(srcRowId);
     }
 
+    // Include destination records that are missing from the source as rows removed from the source.
+    const leftChanges = createEmptyActionSummary();
+    if (missingRecordsStrategy && missingRecordsStrategy.type !== 'keep') {
+      const {missing} = await this._getMissingRecords(hiddenTableId, destTableId!, srcToDestColIds, mergeCols,
+        missingRecordsStrategy, flatten([...srcToDestColIds.values()]));
+      const removedRecords: {[colId: string]: ColumnDelta} = {};
+      const removedRecordIds: number[] = [];
+      const firstRowId = await this._activeDoc.docStorage.getNextRowId(hiddenTableId);
+      for (const id of srcColIds) {
+        removedRecords[id] = {};
+      }
+      missing[destTableId + '.id'].forEach((_destRowId, i) => {
+        const rowId = firstRowId + i;
+        for (const srcColId of srcColIds) {
+          const destColId = srcToDestColIds.get(srcColId)![0];
+          const destVal = destColId === flagColId ? true : missing[`${destTableId}.${destColId}`][i];
+          removedRecords[srcColId][rowId] = [[destVal], null];
+        }
+        removedRecordIds.push(rowId);
+      });
+      leftChanges.tableDeltas[hiddenTableId] = {
+        removeRows: removedRecordIds,
+        updateRows: [],
+        addRows: [],
+        columnRenames: [],
+        columnDeltas: removedRecords,
+      };
+    }
+
     return {
       left: {n: 0, h: ''},  // NOTE: left, right, parent, and summary are not used by Importer.
       right: {n: 0, h: ''},
       parent: null,
       summary: 'right',
       details: {
-        leftChanges: createEmptyActionSummary(),
+        leftChanges,
         rightChanges: {
           tableRenames: [],
           tableDeltas: {
@@ -214,6 +270,83 @@ export class ActiveDocImport {
     };
   }
 
+  /**
+   * Returns the import configurations saved in the document, sorted by name.
+   */
+  public async getImportConfigs(): Promise<ImportConfig[]> {
+    return (await this._activeDoc.docStorage.getImportConfigs()).map(normalizeSavedImportConfig);
+  }
+
+  /**
+   * Saves an import configuration in the document, replacing any existing one with the same name.
+   * The configuration is checked first. Returns the saved configuration, and the one it replaced,
+   * if any.
+   */
+  public async saveImportConfig(
+    config: ImportConfig
+  ): Promise<{current: ImportConfig, previous: ImportConfig|null}> {
+    const name = typeof config?.name === 'string' ? config.name.trim() : '';
+    if (!name) { throw new ApiError('Import configuration must have a name', 400); }
+    const {parseOptions, transforms, mergeOptions} = config;
+    const source = normalizeImportConfigSource(config.source);
+    if (!source) {
+      throw new ApiError(`Invalid source for import configuration "${name}"`, 400);
+    }
+    const current: ImportConfig = {
+      name,
+      source,
+      parseOptions: parseOptions ?? {},
+      transforms: transforms ?? {},
+      mergeOptions: mergeOptions ?? {},
+    };
+    try {
+      ImportConfigChecker.check(current);
+    } catch (e) {
+      throw new ApiError(`Invalid import configuration "${name}": ${e.message}`, 400);
+    }
+    const previous = await this._getImportConfig(name);
+    await this._activeDoc.docStorage.setImportConfig(current);
+    return {current, previous};
+  }
+
+  /**
+   * Removes the import configuration called `name`. Returns the removed configuration, if any.
+   */
+  public async removeImportConfig(name: string): Promise<ImportConfig|null> {
+    const previous = await this._getImportConfig(name);
+    await this._activeDoc.docStorage.removeImportConfig(name);
+    return previous;
+  }
+
+  /**
+   * Imports the files from the given upload in one step, using the parse options, transform
+   * rules and merge options of the import configuration called `name`. Each file of the upload
+   * is imported with the same configuration. The upload is cleaned up afterwards, whether or not
+   * the import succeeds.
+   */
+  public async runImportConfig(docSession: OptDocSession, name: string, uploadId: number): Promise<ImportResult> {
+    try {
+      const config = await this._activeDoc.docStorage.getImportConfig(name);
+      if (!config) {
+        throw new ApiError(`Import configuration "${name}" not found`, 404);
+      }
+      this._activeDoc.startBundleUserActions(docSession);
+      try {
+        const accessId = this._activeDoc.makeAccessId(docSession.userId);
+        const uploadInfo: UploadInfo = globalUploadSet.getUploadInfo(uploadId, accessId);
+        return await this._importFiles(docSession, uploadInfo,
+          uploadInfo.files.map(() => config.transforms), {
+            parseOptions: {...config.parseOptions, NUM_ROWS: 0},
+            mergeOptionMaps: uploadInfo.files.map(() => config.mergeOptions),
+          }, false);
+      } finally {
+        this._activeDoc.stopBundleUserActions(docSession);
+      }
+    } finally {
+      await globalUploadSet.cleanup(uploadId);
+    }
+  }
+
   /**
    * Import the given upload as new tables in one step. This does not give the user a chance to
    * modify parse options or transforms. The caller is responsible for cleaning up the upload.
@@ -309,7 +442,8 @@ export class ActiveDocImport {
         uploadFileIndex,
         origTableName,
         transformSectionRef, // TODO: this shouldn't always be needed, and we only get it if genimporttransform
-        destTableId
+        // For a final import, this is the table the data went into, which may be a new one.
+        destTableId: isHidden ? destTableId : createdTableId,
       });
     }
 
@@ -318,6 +452,11 @@ export class ActiveDocImport {
     return ({options, tables});
   }
 
+  private async _getImportConfig(name: string): Promise<ImportConfig|null> {
+    const config = await this._activeDoc.docStorage.getImportConfig(name);
+    return config ? normalizeSavedImportConfig(config) : null;
+  }
+
   /**
    * Imports all files as new tables, using the given transform rules and import options.
    * The isHidden flag indicates whether to create temporary hidden tables, or final ones.
@@ -585,9 +724,11 @@ export class ActiveDocImport {
    */
   private async _mergeAndFinishImport(docSession: OptDocSession, hiddenTableId: string, destTableId: string,
                                       {destCols, sourceCols}: TransformRule,
-                                      {mergeCols, mergeStrategy}: MergeOptions): Promise<void> {
+                                      {mergeCols, mergeStrategy, missingRecordsStrategy}: MergeOptions
+  ): Promise<void> {
     // Merge column ids from client have prefixes that need to be stripped.
     mergeCols = stripPrefixes(mergeCols);
+    const flagColId = this._getFlagColId(destTableId, missingRecordsStrategy);
 
     // Get column differences between `hiddenTableId` and `destTableId` for rows that exist in both tables.
     const srcAndDestColIds: [string, string][] = destCols.map(destCol => {
@@ -657,6 +798,13 @@ export class ActiveDocImport {
       }
     }
 
+    // Find destination records missing from the source before the source table is removed.
+    const {missing, unflagRowIds} = missingRecordsStrategy && missingRecordsStrategy.type !== 'keep' ?
+      await this._getMissingRecords(hiddenTableId, destTableId, srcToDestColIds, mergeCols,
+        missingRecordsStrategy, []) :
+      {missing: {[destTableId + '.id']: []}, unflagRowIds: []};
+    const missingRowIds = missing[destTableId + '.id'] as number[];
+
     // We no longer need the temporary import table, so remove it.
     const actions: UserAction[] = [['RemoveTable', hiddenTableId]];
 
@@ -668,6 +816,21 @@ export class ActiveDocImport {
       actions.push(['BulkAddRecord', destTableId, gutil.arrayRepeat(numNewRecords, null), newRecords]);
     }
 
+    if (missingRowIds.length > 0 && missingRecordsStrategy?.type === 'remove') {
+      actions.push(['BulkRemoveRecord', destTableId, missingRowIds]);
+    }
+
+    if (flagColId) {
+      if (missingRowIds.length > 0) {
+        actions.push(['BulkUpdateRecord', destTableId, missingRowIds,
+          {[flagColId]: gutil.arrayRepeat(missingRowIds.length, true)}]);
+      }
+      if (unflagRowIds.length > 0) {
+        actions.push(['BulkUpdateRecord', destTableId, unflagRowIds,
+          {[flagColId]: gutil.arrayRepeat(unflagRowIds.length, false)}]);
+      }
+    }
+
     await this._activeDoc.applyUserActions(docSession, actions, {parseStrings: true});
   }
 
@@ -688,20 +851,66 @@ export class ActiveDocImport {
    */
   private async _getTableComparison(hiddenTableId: string, destTableId: string, srcToDestColIds: Map<string, string[]>,
                                     mergeCols: string[]): Promise<BulkColValues> {
-    const mergeColIds = new Set(mergeCols);
-    const destToSrcMergeColIds = new Map();
-    srcToDestColIds.forEach((destColIds, srcColId) => {
-      const maybeMergeColId = destColIds.find(colId => mergeColIds.has(colId));
-      if (maybeMergeColId !== undefined) {
-        destToSrcMergeColIds.set(maybeMergeColId, srcColId);
-      }
-    });
-
+    const destToSrcMergeColIds = getDestToSrcMergeColIds(srcToDestColIds, mergeCols);
     const query = buildComparisonQuery(hiddenTableId, destTableId, srcToDestColIds, destToSrcMergeColIds);
     const result = await this._activeDoc.docStorage.fetchQuery(query);
     return this._activeDoc.docStorage.decodeMarshalledDataFromTables(result);
   }
 
+  /**
+   * Finds records of `destTableId` whose `mergeCols` have no match in `hiddenTableId`, and which
+   * should therefore be removed or flagged according to `missingRecordsStrategy`. Records that
+   * are already flagged aren't included. For the 'flag' strategy, also finds flagged records
+   * that have a match again, and should be unflagged.
+   *
+   * @param {string} hiddenTableId Source table.
+   * @param {string} destTableId Destination table.
+   * @param {Map<string, string[]>} srcToDestColIds Map of source to one or more destination column ids.
+   * @param {string[]} mergeCols List of (destination) column ids to use for matching.
+   * @param {MissingRecordsStrategy} missingRecordsStrategy Determines how missing records are treated.
+   * @param {string[]} destColIds Destination column ids to include for missing records.
+   * @returns {Promise<MissingRecords>} Missing records, and records to unflag.
+   */
+  private async _getMissingRecords(hiddenTableId: string, destTableId: string,
+                                   srcToDestColIds: Map<string, string[]>, mergeCols: string[],
+                                   missingRecordsStrategy: MissingRecordsStrategy,
+                                   destColIds: string[]): Promise<MissingRecords> {
+    const {docStorage} = this._activeDoc;
+    const destToSrcMergeColIds = getDestToSrcMergeColIds(srcToDestColIds, mergeCols);
+    const flagColId = this._getFlagColId(destTableId, missingRecordsStrategy);
+    const selectColIds = _.uniq(flagColId ? [...destColIds, flagColId] : destColIds);
+    const missingQuery = buildMissingRowsQuery(hiddenTableId, destTableId, selectColIds, destToSrcMergeColIds);
+    const missing = docStorage.decodeMarshalledDataFromTables(await docStorage.fetchQuery(missingQuery));
+    if (!flagColId) { return {missing, unflagRowIds: []}; }
+
+    // Skip records that are already flagged.
+    const flagValues = missing[`${destTableId}.${flagColId}`];
+    const unflagged = flagValues.map((value, i) => value === true ? -1 : i).filter(i => i >= 0);
+    for (const colId of Object.keys(missing)) {
+      missing[colId] = unflagged.map(i => missing[colId][i]);
+    }
+
+    const flaggedQuery = buildMissingRowsQuery(hiddenTableId, destTableId, [], destToSrcMergeColIds,
+      {matched: true});
+    flaggedQuery.filters = {[flagColId]: [true]};
+    const flagged = docStorage.decodeMarshalledDataFromTables(await docStorage.fetchQuery(flaggedQuery));
+    return {missing, unflagRowIds: flagged[destTableId + '.id'] as number[]};
+  }
+
+  /**
+   * Returns the id of the column to flag missing records with, if `missingRecordsStrategy` is
+   * 'flag'. Throws if the column isn't a Bool column of `destTableId`.
+   */
+  private _getFlagColId(destTableId: string, missingRecordsStrategy?: MissingRecordsStrategy): string|undefined {
+    if (missingRecordsStrategy?.type !== 'flag') { return undefined; }
+    const [flagColId] = stripPrefixes([missingRecordsStrategy.flagColId ?? '']);
+    const colType = this._activeDoc.docData!.getTable(destTableId)?.getColType(flagColId);
+    if (colType !== 'Bool') {
+      throw new ApiError(`Flag column for missing records must be a Toggle column of ${destTableId}`, 400);
+    }
+    return flagColId;
+  }
+
   /**
    * This function removes temporary hidden tables which were created during the import process
    *
@@ -774,6 +983,54 @@ function stripPrefixes(colIds: string[]): string[] {
     id.slice(IMPORT_TRANSFORM_COLUMN_PREFIX.length) : id);
 }
 
+// Helper function that returns a map of destination merge column ids to their source column ids.
+function getDestToSrcMergeColIds(srcToDestColIds: Map<string, string[]>, mergeCols: string[]): Map<string, string> {
+  const mergeColIds = new Set(mergeCols);
+  const destToSrcMergeColIds = new Map<string, string>();
+  srcToDestColIds.forEach((destColIds, srcColId) => {
+    const maybeMergeColId = destColIds.find(colId => mergeColIds.has(colId));
+    if (maybeMergeColId !== undefined) {
+      destToSrcMergeColIds.set(maybeMergeColId, srcColId);
+    }
+  });
+  return destToSrcMergeColIds;
+}
+
+// Helper function that returns a saved import configuration as it's returned by the API.
+// Configurations saved before headers were left out may still include them.
+function normalizeSavedImportConfig(config: ImportConfig): ImportConfig {
+  return {...config, source: normalizeImportConfigSource(config.source) ?? config.source};
+}
+
+// Helper function that returns a clean copy of an import configuration's source, or null if
+// the source isn't valid.
+function normalizeImportConfigSource(source: ImportConfigSource|undefined): ImportConfigSource|null {
+  switch (source?.type) {
+    case 'file': {
+      return {type: 'file'};
+    }
+    case 'url': {
+      return typeof source.url === 'string' ? {type: 'url', url: source.url} : null;
+    }
+    case 'json-api': {
+      // Values of headers aren't saved, since anyone who can edit the document can read the saved
+      // configurations, and the headers may hold credentials.
+      const jsonApi = source.jsonApi;
+      if (typeof jsonApi?.url !== 'string') { return null; }
+      const headerNames = _.union(Array.isArray(source.headerNames) ? source.headerNames : [],
+        Object.keys(jsonApi.headers ?? {}));
+      return {
+        type: 'json-api',
+        jsonApi: pick(jsonApi, ['url', 'recordPath', 'pagination']),
+        ...(headerNames.length > 0 ? {headerNames} : {}),
+      };
+    }
+    default: {
+      return null;
+    }
+  }
+}
+
 type MergeFunction = (srcVal: CellValue, destVal: CellValue) => CellValue;
 
 /**
@@ -13,6 +13,7 @@ import {TELEMETRY_TEMPLATE_SIGNUP_COOKIE_NAME} from 'app/common/Telemetry';
 import {Document as APIDocument, PublicDocWorkerUrlInfo} from 'app/common/UserAPI';
 import {Document} from "app/gen-server/entity/Document";
 import {HomeDBManager} from 'app/gen-server/lib/homedb/HomeDBManager';
+import {getShareUnlock} from 'app/gen-server/lib/SharePasswords';
 import {assertAccess, getTransitiveHeaders, getUserId, isAnonymousUser,
         RequestWithLogin} from 'app/server/lib/Authorizer';
 import {DocStatus, IDocWorkerMap} from 'app/server/lib/DocWorkerMap';
@@ -85,10 +86,11 @@ export function attachAppEndpoint(options: AttachOptions): void {
     let doc: Document|null = null;
     try {
       const userId = getUserId(mreq);
+      const shareUnlock = getShareUnlock(mreq.session?.shareUnlocks, urlId);
 
       // Query DB for the doc metadata, to include in the page (as a pre-fetch of getDoc() call),
       // and to get fresh (uncached) access info.
-      doc = await dbManager.getDoc({userId, org: mreq.org, urlId});
+      doc = await dbManager.getDoc({userId, org: mreq.org, urlId, shareUnlock});
       if (isAnonymousUser(mreq) && doc.type === 'tutorial') {
         // Tutorials require users to be signed in.
         throw new ApiError('You must be signed in to access a tutorial.', 403);
@@ -111,11 +113,19 @@ export function attachAppEndpoint(options: AttachOptions): void {
       }
 
       // The docAuth value will be cached from the getDoc() above (or could be derived from doc).
-      const docAuth = await dbManager.getDocAuthCached({userId, org: mreq.org, urlId});
+      const docAuth = await dbManager.getDocAuthCached({userId, org: mreq.org, urlId, shareUnlock});
       assertAccess('viewers', docAuth);
 
     } catch (err) {
-      if (err.status === 404) {
+      if (err.details?.code === 'SharePasswordRequired') {
+        // Ask for the password of the share link. The page sends it to the unlock endpoint.
+        return await sendAppPage(req, res, {path: 'error.html', status: 403, config: {
+          errPage: 'share-password',
+          errDetails: {shareKey: parseUrlId(urlId).shareKey || ''},
+        }});
+      } else if (err.details?.code === 'ShareExpired') {
+        throw new ApiError(req.t("access.shareExpired"), 403);
+      } else if (err.status === 404) {
         log.info("/:urlId/app.html did not find doc", mreq.userId, urlId, doc && doc.access, mreq.org);
         throw new ApiError('Document not found.', 404);
       } else if (err.status === 403) {
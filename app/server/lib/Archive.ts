@@ -8,6 +8,7 @@ export interface ArchiveEntry {
   name: string;
   size: number;
   data: stream.Readable | Buffer;
+  store?: boolean;    // If set, the entry is stored without compression (only used for zip archives).
 }
 
 export interface ArchivePackingOptions {
@@ -78,7 +79,7 @@ function addEntryToZipArchive(archive: ZipStream, file: ArchiveEntry): Promise<Z
     archive.on("error", function (err) {
       reject(new Error(`Archive error: ${err}`, { cause: err }));
     });
-    archive.entry(file.data, { name: file.name }, function(err, entry) {
+    archive.entry(file.data, { name: file.name, store: file.store }, function(err, entry) {
       if (err) {
         return reject(err);
       }
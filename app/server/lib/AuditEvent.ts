@@ -1,6 +1,7 @@
+import { AuditEventAction } from "app/common/AuditLogs";
+import { ImportConfig } from "app/common/ImportConfig";
 import { FullUser } from "app/common/LoginSessionAPI";
 import { BasicRole, NonGuestRole } from "app/common/roles";
-import { StringUnion } from "app/common/StringUnion";
 import { Config } from "app/gen-server/entity/Config";
 import { Document } from "app/gen-server/entity/Document";
 import { Organization } from "app/gen-server/entity/Organization";
@@ -37,48 +38,7 @@ export interface AuditEvent<
   details?: AuditEventDetails[Action];
 }
 
-export const AuditEventAction = StringUnion(
-  "config.create",
-  "config.delete",
-  "config.update",
-  "document.change_access",
-  "document.clear_all_webhook_queues",
-  "document.clear_webhook_queue",
-  "document.create",
-  "document.delete",
-  "document.deliver_webhook_events",
-  "document.duplicate",
-  "document.fork",
-  "document.modify",
-  "document.move",
-  "document.move_to_trash",
-  "document.open",
-  "document.pin",
-  "document.reload",
-  "document.rename",
-  "document.replace",
-  "document.restore_from_trash",
-  "document.run_sql_query",
-  "document.send_to_google_drive",
-  "document.truncate_history",
-  "document.unpin",
-  "site.change_access",
-  "site.create",
-  "site.delete",
-  "site.rename",
-  "user.change_name",
-  "user.create_api_key",
-  "user.delete",
-  "user.delete_api_key",
-  "workspace.change_access",
-  "workspace.create",
-  "workspace.delete",
-  "workspace.move_to_trash",
-  "workspace.rename",
-  "workspace.restore_from_trash"
-);
-
-export type AuditEventAction = typeof AuditEventAction.type;
+export { AuditEventAction };
 
 export type AuditEventActor =
   | UserActor
@@ -215,6 +175,10 @@ export interface AuditEventDetails {
   "document.reload": {
     document: Pick<Document, "id">;
   };
+  "document.remove_import_config": {
+    document: Pick<Document, "id">;
+    import_config: ImportConfig;
+  };
   "document.rename": PreviousAndCurrent<{
     document: Pick<Document, "id" | "name">;
   }>;
@@ -236,12 +200,19 @@ export interface AuditEventDetails {
     document: Pick<Document, "id">;
     sql_query: {
       statement: string;
-      arguments?: Array<string | number> | null;
+      arguments?: Array<string | number> | Record<string, string | number> | null;
     };
     options: {
       timeout_ms?: number;
+      limit?: number;
+      cursor?: string;
     };
   };
+  "document.save_import_config": {
+    document: Pick<Document, "id">;
+    import_config: ImportConfig;
+    previous_import_config?: ImportConfig;
+  };
   "document.send_to_google_drive": {
     document: Pick<Document, "id">;
   };
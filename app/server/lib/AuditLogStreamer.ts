@@ -0,0 +1,614 @@
+import { AuditLogEvent, AuditLogStreamingStatus } from "app/common/AuditLogs";
+import {
+  AuditLogHttpDestinationOptions,
+  AuditLogStreamingDestination,
+} from "app/common/Config";
+import { delay } from "app/common/delay";
+import { HomeDBManager } from "app/gen-server/lib/homedb/HomeDBManager";
+import { appSettings } from "app/server/lib/AppSettings";
+import log from "app/server/lib/log";
+import { agents } from "app/server/lib/ProxyAgent";
+import get from "lodash/get";
+import * as dgram from "node:dgram";
+import * as dns from "node:dns";
+import { Agent as HttpAgent } from "node:http";
+import { Agent as HttpsAgent } from "node:https";
+import * as net from "node:net";
+import * as os from "node:os";
+import * as tls from "node:tls";
+import fetch, { RequestInit } from "node-fetch";
+
+export const Deps = {
+  // Destinations of sites are set by site owners, so by default they may not
+  // connect to private or local addresses, which would expose services of the
+  // internal network. Destinations of the install are set by install admins,
+  // and aren't restricted.
+  ALLOW_PRIVATE_ADDRESSES: appSettings.section("auditLogs").section("streaming")
+    .flag("allowPrivateAddresses").readBool({
+      envVar: "GRIST_AUDIT_LOG_STREAMING_ALLOW_PRIVATE_ADDRESSES",
+      defaultValue: false,
+    }),
+  // Events waiting to be delivered to an HTTP destination, including those
+  // being sent, beyond this limit (e.g. while the destination is unreachable)
+  // are dropped, oldest first, and counted as failed.
+  HTTP_MAX_QUEUED_EVENTS: 10000,
+};
+
+// How long configured destinations are cached for. Changes made through this
+// server are picked up immediately; changes made through other servers are
+// picked up once the cache expires.
+const DESTINATIONS_CACHE_TTL_MS = 60 * 1000;
+
+const HTTP_DEFAULT_BATCH_SIZE = 100;
+const HTTP_DEFAULT_FLUSH_INTERVAL_MS = 5000;
+const HTTP_DEFAULT_MAX_RETRIES = 3;
+const HTTP_RETRY_BASE_DELAY_MS = 1000;
+const HTTP_REQUEST_TIMEOUT_MS = 30 * 1000;
+
+// Facility 13 is "log audit", and severity 6 is "informational".
+const SYSLOG_PRIORITY = 13 * 8 + 6;
+const SYSLOG_DEFAULT_PORTS: Record<SyslogProtocol, number> = {
+  udp: 514,
+  tcp: 514,
+  tls: 6514,
+};
+const SYSLOG_CONNECT_TIMEOUT_MS = 10 * 1000;
+
+// Addresses that destinations of sites may not connect to, unless
+// Deps.ALLOW_PRIVATE_ADDRESSES is set. IPv4-mapped IPv6 addresses are checked
+// against the IPv4 ranges.
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.168.0.0", 16], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], ["::1", 128], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+type SyslogProtocol = "udp" | "tcp" | "tls";
+
+interface AuditLogSink {
+  send(event: AuditLogEvent): void;
+  close(): Promise<void>;
+}
+
+interface DeliveryReporter {
+  delivered(): void;
+  failed(eventsCount: number, error: unknown): void;
+}
+
+interface SinkOptions {
+  // Whether connections to private addresses should be refused.
+  restricted: boolean;
+}
+
+interface SinkEntry {
+  orgId: number | null;
+  // The destination the sink was created for, serialized to detect changes.
+  destination: string;
+  sink: AuditLogSink;
+}
+
+/**
+ * Streams audit events to the "syslog" and "http" destinations configured for
+ * the install and for the site where each event happened, and keeps track of
+ * how delivery to each destination is going.
+ *
+ * Other kinds of destinations are left alone, as Grist Enterprise delivers to
+ * those.
+ */
+export class AuditLogStreamer {
+  private _destinations = new Map<number | null, {
+    promise: Promise<AuditLogStreamingDestination[]>;
+    fetchedAt: number;
+  }>();
+  private _sinks = new Map<string, SinkEntry>();
+  private _statuses = new Map<string, AuditLogStreamingStatus>();
+
+  constructor(private _dbManager: HomeDBManager) {}
+
+  /**
+   * Sends `event` to all destinations it should go to. Delivery happens in the
+   * background; failures are recorded in the status of each destination.
+   */
+  public async streamEvent(event: AuditLogEvent): Promise<void> {
+    const orgId = event.context.site?.id ?? null;
+    for (const scope of orgId === null ? [null] : [null, orgId]) {
+      let destinations: AuditLogStreamingDestination[];
+      try {
+        destinations = await this._getDestinations(scope);
+      } catch (err) {
+        log.rawError("AuditLogStreamer failed to get streaming destinations", {
+          orgId: scope,
+          error: String(err),
+        });
+        continue;
+      }
+
+      for (const destination of destinations) {
+        this._getSink(scope, destination)?.send(event);
+      }
+    }
+  }
+
+  /**
+   * Returns the delivery status of each destination in `destinationIds`.
+   */
+  public getStatuses(destinationIds: string[]): AuditLogStreamingStatus[] {
+    return destinationIds.map((destinationId) => this._getStatus(destinationId));
+  }
+
+  /**
+   * Forgets the cached destinations of the install (if `orgId` is null) or of
+   * a site, after they change. Pending events are delivered to the old ones.
+   */
+  public async invalidateDestinations(orgId: number | null): Promise<void> {
+    this._destinations.delete(orgId);
+    await this._closeSinks(({ orgId: sinkOrgId }) => sinkOrgId === orgId);
+  }
+
+  public async close(): Promise<void> {
+    this._destinations.clear();
+    await this._closeSinks(() => true);
+  }
+
+  private async _getDestinations(orgId: number | null): Promise<AuditLogStreamingDestination[]> {
+    const cached = this._destinations.get(orgId);
+    if (cached && Date.now() - cached.fetchedAt < DESTINATIONS_CACHE_TTL_MS) {
+      return cached.promise;
+    }
+
+    const promise = this._dbManager
+      .getConfigByKeyAndOrgId("audit_log_streaming_destinations", orgId)
+      .then((config) => (config?.value ?? []) as AuditLogStreamingDestination[]);
+    this._destinations.set(orgId, { promise, fetchedAt: Date.now() });
+    try {
+      const destinations = await promise;
+      const ids = new Set(destinations.map(({ id }) => id));
+      await this._closeSinks((entry, id) => entry.orgId === orgId && !ids.has(id));
+      return destinations;
+    } catch (err) {
+      this._destinations.delete(orgId);
+      throw err;
+    }
+  }
+
+  private _getSink(orgId: number | null, destination: AuditLogStreamingDestination) {
+    const { id } = destination;
+    const serialized = JSON.stringify(destination);
+    const entry = this._sinks.get(id);
+    if (entry?.destination === serialized) {
+      return entry.sink;
+    }
+
+    if (entry) {
+      this._sinks.delete(id);
+      void entry.sink.close();
+    }
+    const sink = this._createSink(destination, {
+      restricted: orgId !== null && !Deps.ALLOW_PRIVATE_ADDRESSES,
+    });
+    if (sink) {
+      this._sinks.set(id, { orgId, destination: serialized, sink });
+    }
+    return sink;
+  }
+
+  private _createSink(
+    destination: AuditLogStreamingDestination,
+    options: SinkOptions
+  ): AuditLogSink | null {
+    const reporter = this._getReporter(destination.id);
+    try {
+      switch (destination.name) {
+        case "syslog": {
+          return new SyslogSink(destination.url, reporter, options);
+        }
+        case "http": {
+          return new HttpSink(destination, reporter, options);
+        }
+        default: {
+          return null;
+        }
+      }
+    } catch (err) {
+      // The destination is misconfigured (e.g. has an invalid URL).
+      return {
+        send: () => reporter.failed(1, err),
+        close: () => Promise.resolve(),
+      };
+    }
+  }
+
+  private async _closeSinks(shouldClose: (entry: SinkEntry, id: string) => boolean) {
+    const entries = [...this._sinks].filter(([id, entry]) => shouldClose(entry, id));
+    for (const [id] of entries) {
+      this._sinks.delete(id);
+    }
+    await Promise.all(entries.map(([, { sink }]) => sink.close()));
+  }
+
+  private _getStatus(destinationId: string): AuditLogStreamingStatus {
+    let status = this._statuses.get(destinationId);
+    if (!status) {
+      status = {
+        destinationId,
+        lastDeliveredAt: null,
+        lastFailedAt: null,
+        lastError: null,
+        failedEventsCount: 0,
+      };
+      this._statuses.set(destinationId, status);
+    }
+    return status;
+  }
+
+  private _getReporter(destinationId: string): DeliveryReporter {
+    return {
+      delivered: () => {
+        this._getStatus(destinationId).lastDeliveredAt = new Date().toISOString();
+      },
+      failed: (eventsCount, error) => {
+        const status = this._getStatus(destinationId);
+        status.lastFailedAt = new Date().toISOString();
+        // Statuses are shown to site owners, so they only get a summary of
+        // the error, without URLs, addresses or credentials it may include.
+        status.lastError = describeError(error);
+        status.failedEventsCount += eventsCount;
+        log.rawWarn("AuditLogStreamer failed to deliver audit events", {
+          destinationId,
+          eventsCount,
+          error: String(error),
+        });
+      },
+    };
+  }
+}
+
+/**
+ * An error with a message that is safe to show to the owners of a destination.
+ */
+class DeliveryError extends Error {}
+
+class AddressNotAllowedError extends DeliveryError {
+  // Set for node-fetch, which only keeps the code of errors from sockets.
+  public readonly code = "EADDRNOTALLOWED";
+
+  constructor() {
+    super("Connecting to private addresses is not allowed");
+  }
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof DeliveryError) {
+    return error.message;
+  }
+
+  const code = get(error, "code");
+  if (code === "EADDRNOTALLOWED") {
+    return new AddressNotAllowedError().message;
+  } else if (typeof code === "string") {
+    return `Delivery failed (${code})`;
+  } else if (get(error, "type") === "request-timeout") {
+    return "Request timed out";
+  } else {
+    return "Delivery failed";
+  }
+}
+
+function isPrivateAddress(address: string) {
+  return PRIVATE_ADDRESSES.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+}
+
+// Throws if `host` is a private address. Hostnames are checked once resolved,
+// by `lookupPublicAddress`.
+function checkHost(host: string) {
+  if (net.isIP(host) && isPrivateAddress(host)) {
+    throw new AddressNotAllowedError();
+  }
+}
+
+/**
+ * Like `dns.lookup`, but fails for hostnames that resolve to private addresses.
+ */
+const lookupPublicAddress: net.LookupFunction = (hostname, options, callback) => {
+  if (net.isIP(hostname)) {
+    // Addresses given as such are checked by `checkHost`. Sockets also look up
+    // the address they bind to (e.g. 0.0.0.0), which must not be refused.
+    dns.lookup(hostname, options, callback);
+    return;
+  }
+
+  dns.lookup(hostname, options, (err, address, family) => {
+    const addresses = typeof address === "string" ? [address] : (address ?? []).map((a) => a.address);
+    if (!err && addresses.some(isPrivateAddress)) {
+      callback(new AddressNotAllowedError(), "", 0);
+    } else {
+      callback(err, address, family);
+    }
+  });
+};
+
+const publicHttpAgent = new HttpAgent({ lookup: lookupPublicAddress });
+const publicHttpsAgent = new HttpsAgent({ lookup: lookupPublicAddress });
+
+/**
+ * Formats `event` as an RFC 5424 syslog message, with the event serialized as
+ * JSON in the message body.
+ */
+export function formatSyslogMessage(
+  event: AuditLogEvent,
+  options: { hostname?: string; procId?: number } = {}
+): string {
+  const { hostname = os.hostname(), procId = process.pid } = options;
+  const header = [
+    `<${SYSLOG_PRIORITY}>1`,
+    event.timestamp,
+    toSyslogHeaderField(hostname, 255),
+    "grist",
+    String(procId),
+    toSyslogHeaderField(event.action, 32),
+    // No structured data.
+    "-",
+  ].join(" ");
+  return `${header} ${JSON.stringify(event)}`;
+}
+
+// Header fields must be non-empty printable ASCII without spaces.
+function toSyslogHeaderField(value: string, maxLength: number) {
+  return value.replace(/[^\x21-\x7e]/g, "").slice(0, maxLength) || "-";
+}
+
+/**
+ * Sends each event as a syslog message over UDP, or over TCP or TLS using
+ * octet-counting framing (RFC 6587 and RFC 5425). Connections are opened on
+ * first use and re-opened as needed.
+ */
+class SyslogSink implements AuditLogSink {
+  private _protocol: SyslogProtocol;
+  private _host: string;
+  private _port: number;
+  private _udpSocket: dgram.Socket | null = null;
+  private _socket: Promise<net.Socket> | null = null;
+  private _lookup?: net.LookupFunction;
+
+  constructor(url: string, private _reporter: DeliveryReporter, { restricted }: SinkOptions) {
+    const { protocol, hostname, port } = new URL(url);
+    const scheme = protocol.replace(/:$/, "");
+    if (scheme !== "udp" && scheme !== "tcp" && scheme !== "tls") {
+      throw new DeliveryError(`Unsupported syslog protocol: ${scheme}`);
+    }
+
+    this._protocol = scheme;
+    this._host = hostname.replace(/^\[(.*)\]$/, "$1");
+    this._port = port ? parseInt(port, 10) : SYSLOG_DEFAULT_PORTS[scheme];
+    if (restricted) {
+      checkHost(this._host);
+      this._lookup = lookupPublicAddress;
+    }
+  }
+
+  public send(event: AuditLogEvent) {
+    this._write(formatSyslogMessage(event)).then(
+      () => this._reporter.delivered(),
+      (err) => this._reporter.failed(1, err)
+    );
+  }
+
+  public async close() {
+    this._udpSocket?.close();
+    this._udpSocket = null;
+    const socket = this._socket;
+    this._socket = null;
+    const connected = await socket?.catch(() => null);
+    connected?.end();
+  }
+
+  private async _write(message: string) {
+    if (this._protocol === "udp") {
+      const socket = this._getUdpSocket();
+      await new Promise<void>((resolve, reject) => {
+        socket.send(message, this._port, this._host, (err) => err ? reject(err) : resolve());
+      });
+    } else {
+      const socket = await this._getSocket();
+      const frame = `${Buffer.byteLength(message)} ${message}`;
+      await new Promise<void>((resolve, reject) => {
+        socket.write(frame, (err) => err ? reject(err) : resolve());
+      });
+    }
+  }
+
+  private _getUdpSocket() {
+    if (!this._udpSocket) {
+      this._udpSocket = dgram.createSocket({
+        type: net.isIPv6(this._host) ? "udp6" : "udp4",
+        lookup: this._lookup as dgram.SocketOptions["lookup"],
+      });
+      this._udpSocket.on("error", () => {
+        this._udpSocket?.close();
+        this._udpSocket = null;
+      });
+    }
+    return this._udpSocket;
+  }
+
+  private _getSocket() {
+    if (!this._socket) {
+      const socketPromise = this._socket = this._connect();
+      // Connect again on next write if the connection fails or is closed.
+      const forget = () => {
+        if (this._socket === socketPromise) {
+          this._socket = null;
+        }
+      };
+      socketPromise.then((socket) => socket.on("close", forget), forget);
+    }
+    return this._socket;
+  }
+
+  private _connect(): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const options = { host: this._host, port: this._port, lookup: this._lookup };
+      const connectEvent = this._protocol === "tls" ? "secureConnect" : "connect";
+      const socket = this._protocol === "tls" ?
+        tls.connect({ ...options, servername: net.isIP(this._host) ? undefined : this._host }) :
+        net.connect(options);
+      socket.setTimeout(SYSLOG_CONNECT_TIMEOUT_MS, () => {
+        socket.destroy(new DeliveryError("Timed out connecting to syslog server"));
+      });
+      socket.once(connectEvent, () => {
+        socket.setTimeout(0);
+        resolve(socket);
+      });
+      socket.on("error", (err) => {
+        socket.destroy();
+        reject(err);
+      });
+    });
+  }
+}
+
+/**
+ * Sends events in batches, as newline-delimited JSON, in POST requests.
+ * Failed requests are retried with exponential backoff.
+ */
+class HttpSink implements AuditLogSink {
+  private _url: string;
+  private _headers: Record<string, string>;
+  private _options: Required<Pick<AuditLogHttpDestinationOptions, "batchSize" | "flushIntervalMs" | "maxRetries">>;
+  private _fieldMapping?: Record<string, string>;
+  private _agent: RequestInit["agent"];
+  private _queue: AuditLogEvent[] = [];
+  private _flushTimeout: NodeJS.Timeout | null = null;
+  // Batches are sent one at a time, in order.
+  private _sending: Promise<void> = Promise.resolve();
+  // Number of events in batches that are waiting to be sent or being sent.
+  private _sendingCount = 0;
+  private _closing = false;
+
+  constructor(
+    destination: AuditLogStreamingDestination,
+    private _reporter: DeliveryReporter,
+    { restricted }: SinkOptions
+  ) {
+    const { url, token, http = {} } = destination;
+    const parsedUrl = new URL(url);
+    this._url = parsedUrl.href;
+    if (!restricted) {
+      this._agent = agents.trusted;
+    } else if (agents.untrusted) {
+      // The proxy for untrusted URLs decides what may be reached, as it does
+      // for webhooks.
+      this._agent = agents.untrusted;
+    } else {
+      checkHost(parsedUrl.hostname.replace(/^\[(.*)\]$/, "$1"));
+      this._agent = ({ protocol }) => protocol === "http:" ? publicHttpAgent : publicHttpsAgent;
+    }
+    this._headers = {
+      "Content-Type": "application/x-ndjson",
+      ...(token ? { Authorization: `Bearer ${token}` } : undefined),
+      ...http.headers,
+    };
+    this._options = {
+      batchSize: Math.max(1, http.batchSize ?? HTTP_DEFAULT_BATCH_SIZE),
+      flushIntervalMs: Math.max(0, http.flushIntervalMs ?? HTTP_DEFAULT_FLUSH_INTERVAL_MS),
+      maxRetries: Math.max(0, http.maxRetries ?? HTTP_DEFAULT_MAX_RETRIES),
+    };
+    this._fieldMapping = http.fieldMapping;
+  }
+
+  public send(event: AuditLogEvent) {
+    if (this._queue.length + this._sendingCount >= Deps.HTTP_MAX_QUEUED_EVENTS) {
+      this._reporter.failed(1, new DeliveryError("Too many events waiting to be delivered"));
+      if (this._queue.length === 0) {
+        // All waiting events are in batches already; drop this one instead.
+        return;
+      }
+      this._queue.shift();
+    }
+    this._queue.push(event);
+    if (this._queue.length >= this._options.batchSize) {
+      void this._flush();
+    } else if (!this._flushTimeout) {
+      this._flushTimeout = setTimeout(() => void this._flush(), this._options.flushIntervalMs);
+    }
+  }
+
+  public async close() {
+    this._closing = true;
+    await this._flush();
+  }
+
+  private _flush(): Promise<void> {
+    if (this._flushTimeout) {
+      clearTimeout(this._flushTimeout);
+      this._flushTimeout = null;
+    }
+    while (this._queue.length > 0) {
+      const batch = this._queue.splice(0, this._options.batchSize);
+      this._sendingCount += batch.length;
+      this._sending = this._sending
+        .then(() => this._sendBatch(batch))
+        .finally(() => { this._sendingCount -= batch.length; });
+    }
+    return this._sending;
+  }
+
+  private async _sendBatch(batch: AuditLogEvent[]) {
+    const body = batch.map((event) => JSON.stringify(this._mapFields(event)) + "\n").join("");
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await fetch(this._url, {
+          method: "POST",
+          headers: this._headers,
+          body,
+          timeout: HTTP_REQUEST_TIMEOUT_MS,
+          agent: this._agent,
+          // Redirects could lead to addresses that aren't allowed.
+          redirect: "manual",
+        });
+        if (!response.ok) {
+          throw new HttpStatusError(response.status, response.statusText);
+        }
+
+        this._reporter.delivered();
+        return;
+      } catch (err) {
+        const retryable = err instanceof HttpStatusError ? err.isRetryable() :
+          get(err, "code") !== "EADDRNOTALLOWED";
+        if (!retryable || attempt >= this._options.maxRetries || this._closing) {
+          this._reporter.failed(batch.length, err);
+          return;
+        }
+
+        await delay(HTTP_RETRY_BASE_DELAY_MS * 2 ** attempt);
+      }
+    }
+  }
+
+  private _mapFields(event: AuditLogEvent): object {
+    if (!this._fieldMapping) {
+      return event;
+    }
+
+    return Object.fromEntries(
+      Object.entries(this._fieldMapping).map(([field, path]) => [field, get(event, path) ?? null])
+    );
+  }
+}
+
+class HttpStatusError extends DeliveryError {
+  constructor(public status: number, statusText: string) {
+    super(`Request failed with status ${status}${statusText ? ` (${statusText})` : ""}`);
+  }
+
+  public isRetryable() {
+    return this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
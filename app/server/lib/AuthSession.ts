@@ -17,6 +17,7 @@
 
 import {ApiError} from 'app/common/ApiError';
 import {FullUser} from 'app/common/LoginSessionAPI';
+import {ShareUnlocks} from 'app/gen-server/lib/SharePasswords';
 import type {RequestWithLogin} from 'app/server/lib/Authorizer';
 import {ILogMeta} from 'app/server/lib/log';
 import moment from 'moment';
@@ -27,8 +28,10 @@ export abstract class AuthSession {
     return new AuthSessionForReq(req);
   }
 
-  public static fromUser(fullUser: FullUser, org: string, altSessionId?: string): AuthSession {
-    return new AuthSessionForUser(fullUser, org, altSessionId);
+  public static fromUser(
+    fullUser: FullUser, org: string, altSessionId?: string, shareUnlocks?: ShareUnlocks
+  ): AuthSession {
+    return new AuthSessionForUser(fullUser, org, altSessionId, shareUnlocks);
   }
 
   public static unauthenticated(): AuthSession { return new UnauthenticatedAuthSession(); }
@@ -38,6 +41,8 @@ export abstract class AuthSession {
   public abstract userId: number|null;
   public abstract userIsAuthorized: boolean;
   public abstract fullUser: FullUser|null;
+  // Share links whose password was entered in the session (see SharePasswords).
+  public abstract shareUnlocks: ShareUnlocks|null;
 
   public get normalizedEmail(): string|undefined { return this.fullUser?.loginEmail ?? this.fullUser?.email; }
   public get displayEmail(): string|undefined { return this.fullUser?.email; }
@@ -73,6 +78,7 @@ class UnauthenticatedAuthSession extends AuthSession {
   public get userId() { return null; }
   public get userIsAuthorized() { return false; }
   public get fullUser() { return null; }
+  public get shareUnlocks() { return null; }
 }
 
 class AuthSessionForReq extends AuthSession {
@@ -82,15 +88,18 @@ class AuthSessionForReq extends AuthSession {
   public get userId() { return this._req.userId ?? null; }
   public get userIsAuthorized() { return this._req.userIsAuthorized || false; }
   public get fullUser() { return this._req.fullUser ?? null; }
+  public get shareUnlocks() { return this._req.session?.shareUnlocks ?? null; }
 }
 
 class AuthSessionForUser extends AuthSession {
-  constructor(private _fullUser: FullUser, private _org: string, private _altSessionId?: string) { super(); }
+  constructor(private _fullUser: FullUser, private _org: string, private _altSessionId?: string,
+              private _shareUnlocks?: ShareUnlocks) { super(); }
   public get org() { return this._org; }
   public get altSessionId() { return this._altSessionId ?? null; }
   public get userId() { return this._fullUser.id; }
   public get userIsAuthorized() { return !this._fullUser.anonymous; }
   public get fullUser() { return this._fullUser; }
+  public get shareUnlocks() { return this._shareUnlocks ?? null; }
 }
 
 function apiFail(errMessage: string, errStatus: number): never {
@@ -8,6 +8,7 @@ import {UserOptions} from 'app/common/UserAPI';
 import {User} from 'app/gen-server/entity/User';
 import {DocAuthResult, HomeDBAuth} from 'app/gen-server/lib/homedb/Interfaces';
 import {HomeDBManager} from 'app/gen-server/lib/homedb/HomeDBManager';
+import {getShareUnlock} from 'app/gen-server/lib/SharePasswords';
 import {forceSessionChange, getSessionProfiles, getSessionUser, getSignInStatus, linkOrgWithEmail, SessionObj,
         SessionUserObj, SignInStatus} from 'app/server/lib/BrowserSession';
 import {expressWrap} from 'app/server/lib/expressWrap';
@@ -551,7 +552,8 @@ export async function getOrSetDocAuth(
       effectiveUserId = tokenObj.userId;
     }
 
-    mreq.docAuth = await dbManager.getDocAuthCached({urlId, userId: effectiveUserId, org: mreq.org});
+    const shareUnlock = getShareUnlock(mreq.session?.shareUnlocks, urlId);
+    mreq.docAuth = await dbManager.getDocAuthCached({urlId, userId: effectiveUserId, org: mreq.org, shareUnlock});
 
     if (tokenObj) {
       // Sanity check: does the current document match the document the token is
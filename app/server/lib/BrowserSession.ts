@@ -1,5 +1,6 @@
 import {normalizeEmail} from 'app/common/emails';
 import {UserProfile} from 'app/common/LoginSessionAPI';
+import {ShareUnlocks} from 'app/gen-server/lib/SharePasswords';
 import {SessionStore} from 'app/server/lib/gristSessions';
 import log from 'app/server/lib/log';
 import {fromCallback} from 'app/server/lib/serverUtils';
@@ -70,6 +71,9 @@ export interface SessionObj {
                           // to edit other people's contributions).
 
   oidc?: SessionOIDCInfo;
+
+  // Share links whose password was entered in this session (see SharePasswords).
+  shareUnlocks?: ShareUnlocks;
 }
 
 export interface SessionOIDCInfo {
@@ -170,6 +174,7 @@ export class ScopedSession {
   private _sessionCache?: SessionObj;
   private _live: boolean;  // if set, never cache session in memory.
   private _altSessionId?: string;
+  private _shareUnlocks?: ShareUnlocks;
 
   /**
    * Create an interface to the session identified by _sessionId, in the store identified
@@ -258,6 +263,10 @@ export class ScopedSession {
     return this._altSessionId;
   }
 
+  public getShareUnlocks(): ShareUnlocks | undefined {
+    return this._shareUnlocks;
+  }
+
   /**
    * Read the state of the session.
    */
@@ -267,6 +276,7 @@ export class ScopedSession {
     const session = ((await this._sessionStore.getAsync(this._sessionId)) || reqSession || {}) as SessionObj;
     if (!this._live) { this._sessionCache = session; }
     this._altSessionId = session.altSessionId;
+    this._shareUnlocks = session.shareUnlocks;
     return session;
   }
 
@@ -272,5 +272,6 @@ async function getAuthSession(
   }
   const user = profile?.email ? await dbManager.getUserByLogin(profile.email) : dbManager.getAnonymousUser();
   const fullUser = dbManager.makeFullUser(user);
-  return AuthSession.fromUser(fullUser, scopedSession.org, scopedSession.getAltSessionId());
+  return AuthSession.fromUser(fullUser, scopedSession.org, scopedSession.getAltSessionId(),
+    scopedSession.getShareUnlocks());
 }
@@ -1,8 +1,11 @@
+import {AclRulesImportPost} from 'app/common/ACLRulesBundle';
+import ACLRulesBundleTI from 'app/common/ACLRulesBundle-ti';
 import {concatenateSummaries, summarizeAction} from "app/common/ActionSummarizer";
 import {createEmptyActionSummary} from "app/common/ActionSummary";
 import {QueryFilters} from 'app/common/ActiveDocAPI';
 import {ApiError} from 'app/common/ApiError';
 import {BrowserSettings} from "app/common/BrowserSettings";
+import {CronSchedule, isValidTimezone} from 'app/common/CronSchedule';
 import {
   BulkColValues,
   ColValues,
@@ -24,10 +27,11 @@ import {
   isFullReferencingType,
   isRaisedException,
 } from "app/common/gristTypes";
-import {INITIAL_FIELDS_COUNT} from "app/common/Forms";
+import {FormConditionalNode, getHiddenFormLeaves, INITIAL_FIELDS_COUNT} from "app/common/Forms";
 import {buildUrlId, parseUrlId, SHARE_KEY_PREFIX} from "app/common/gristUrls";
 import {isAffirmative, safeJsonParse, timeoutReached} from "app/common/gutil";
 import {SchemaTypes} from "app/common/schema";
+import {getShareKind} from 'app/common/ShareOptions';
 import {SortFunc} from 'app/common/SortFunc';
 import {Sort} from 'app/common/SortSpec';
 import {MetaRowRecord} from 'app/common/TableData';
@@ -45,8 +49,9 @@ import {HomeDBManager, makeDocAuthResult} from 'app/gen-server/lib/homedb/HomeDB
 import {QueryResult} from 'app/gen-server/lib/homedb/Interfaces';
 import * as Types from "app/plugin/DocApiTypes";
 import DocApiTypesTI from "app/plugin/DocApiTypes-ti";
-import {GristObjCode} from "app/plugin/GristData";
+import {CellValue, GristObjCode} from "app/plugin/GristData";
 import GristDataTI from 'app/plugin/GristData-ti';
+import {decodeObject} from "app/plugin/objtypes";
 import {OpOptions} from "app/plugin/TableOperations";
 import {
   handleSandboxErrorOnPlatform,
@@ -84,6 +89,8 @@ import {DocWorker} from "app/server/lib/DocWorker";
 import {IDocWorkerMap} from "app/server/lib/DocWorkerMap";
 import {DownloadOptions, parseExportParameters} from "app/server/lib/Export";
 import {downloadDSV} from "app/server/lib/ExportDSV";
+import {downloadJSON} from "app/server/lib/ExportJSON";
+import {downloadODS} from "app/server/lib/ExportODS";
 import {collectTableSchemaInFrictionlessFormat} from "app/server/lib/ExportTableSchema";
 import {streamXLSX} from "app/server/lib/ExportXLSX";
 import {expressWrap} from 'app/server/lib/expressWrap';
@@ -92,7 +99,7 @@ import {googleAuthTokenMiddleware} from "app/server/lib/GoogleAuth";
 import {exportToDrive} from "app/server/lib/GoogleExport";
 import {GristServer} from 'app/server/lib/GristServer';
 import {HashUtil} from 'app/server/lib/HashUtil';
-import {makeForkIds} from "app/server/lib/idUtils";
+import {makeForkIds, makeId} from "app/server/lib/idUtils";
 import log from 'app/server/lib/log';
 import {
   getDocId,
@@ -107,11 +114,20 @@ import {
   sendReply,
   stringParam,
 } from 'app/server/lib/requestUtils';
-import {runSQLQuery} from 'app/server/lib/runSQLQuery';
+import {runSQLQuery, streamSQLQuery} from 'app/server/lib/runSQLQuery';
 import {ServerColumnGetters} from 'app/server/lib/ServerColumnGetters';
 import {localeFromRequest} from "app/server/lib/ServerLocale";
 import {getDocSessionShare} from "app/server/lib/sessionUtils";
-import {isUrlAllowed, WebhookAction, WebHookSecret} from "app/server/lib/Triggers";
+import {
+  generateSigningSecret,
+  getTriggerOptions,
+  isUrlAllowed,
+  MAX_BATCH_SIZE,
+  MAX_BATCH_WINDOW_MS,
+  SIGNING_SECRET_GRACE_PERIOD_MS,
+  WebhookAction,
+  WebHookSecret,
+} from "app/server/lib/Triggers";
 import {
   fetchDoc, globalUploadSet, handleOptionalUpload, handleUpload,
   makeAccessId, parseMultipartFormRequest,
@@ -123,6 +139,7 @@ import * as _ from "lodash";
 import LRUCache from 'lru-cache';
 import * as moment from 'moment';
 import fetch from 'node-fetch';
+import {once} from 'node:events';
 import * as path from 'path';
 import * as t from "ts-interface-checker";
 import {Checker} from "ts-interface-checker";
@@ -138,6 +155,15 @@ const MAX_ACTIVE_DOCS_USAGE_CACHE = 1000;
 // Maximum amount of time that a webhook endpoint can hold the mutex for in withDocTriggersLock.
 const MAX_DOC_TRIGGERS_LOCK_MS = 15_000;
 
+// Interval between heartbeats sent on streams of table changes.
+const SSE_HEARTBEAT_INTERVAL_MS = 25_000;
+
+// Maximum length of a snapshot label set through the API.
+const MAX_SNAPSHOT_LABEL_LENGTH = 100;
+
+// Maximum size of the answers saved in a draft of a form response, as JSON.
+const MAX_FORM_DRAFT_SIZE = 100 * 1024;
+
 type WithDocHandler = (activeDoc: ActiveDoc, req: RequestWithLogin, resp: Response) => Promise<void>;
 
 // Schema validators for api endpoints that creates or updates records.
@@ -154,6 +180,9 @@ for (const checker of [RecordsPatch, RecordsPost, RecordsPut, ColumnsPost, Colum
   checker.setReportedPath("body");
 }
 
+const {AclRulesImportPost: AclRulesImportPostChecker} = t.createCheckers(ACLRulesBundleTI);
+AclRulesImportPostChecker.setReportedPath("body");
+
 // Schema validators for api endpoints that creates or updates records.
 const {
   WebhookPatch,
@@ -254,6 +283,7 @@ export class DocWorkerApi {
 
     // Apply user actions to a document.
     this._app.post('/api/docs/:docId/apply', canEdit, withDoc(async (activeDoc, req, res) => {
+      this._assertNotFormShare(activeDoc, req);
       const parseStrings = !isAffirmative(req.query.noparse);
       res.json(await activeDoc.applyUserActions(docSessionFromRequest(req), req.body, {parseStrings}));
     }));
@@ -348,13 +378,65 @@ export class DocWorkerApi {
       })
     );
 
+    // Stream changes to the records of the specified table, as Server-Sent Events. Each event is
+    // named after the type of change (add, update, remove, or reset), has the action number as
+    // its id, and has {actionNum, records} as data. Streaming resumes after the action given by
+    // the actionNum parameter or the Last-Event-ID header, if any.
+    // This is not throttled like withDoc, since the request stays open indefinitely.
+    this._app.get('/api/docs/:docId/tables/:tableId/changes', canView,
+      expressWrap(this._requireActiveDoc(async (activeDoc, req, res) => {
+        const docSession = docSessionFromRequest(req);
+        const tableId = await getRealTableId(req.params.tableId, {activeDoc, req});
+        // Check that the table may be read at all.
+        await activeDoc.fetchQuery(docSession, {tableId, filters: {id: []}});
+        const isValid = (n: number) => n >= 0;
+        const sinceActionNum = optIntegerParam(req.query.actionNum, 'actionNum', {isValid}) ??
+          optIntegerParam(req.get('Last-Event-ID'), 'Last-Event-ID', {isValid});
+
+        res.status(200).set({
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+          // Prevent proxies like nginx from buffering events.
+          'X-Accel-Buffering': 'no',
+        });
+        // Comment lines keep idle connections from being closed by proxies.
+        const heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_INTERVAL_MS);
+        let unsubscribe: (() => void)|undefined;
+        let closed = false;
+        req.on('close', () => {
+          closed = true;
+          clearInterval(heartbeat);
+          unsubscribe?.();
+        });
+        try {
+          unsubscribe = await activeDoc.subscribeToChanges(docSession, tableId, {
+            onChanges(changes) {
+              for (const {type, actionNum, records} of changes) {
+                res.write(`id: ${actionNum}\nevent: ${type}\ndata: ${JSON.stringify({actionNum, records})}\n\n`);
+              }
+            },
+            onEnd() {
+              clearInterval(heartbeat);
+              res.end();
+            },
+          }, sinceActionNum);
+        } catch (e) {
+          clearInterval(heartbeat);
+          throw e;
+        }
+        if (closed) { unsubscribe(); }
+        res.flushHeaders();
+      }))
+    );
+
     const registerWebhook = async (activeDoc: ActiveDoc, req: RequestWithLogin, webhook: WebhookFields) => {
       if (activeDoc.isFork) {
         throw new ApiError('Unsaved document copies cannot have webhooks', 400);
       }
 
       const {fields, url, authorization} = await getWebhookSettings(activeDoc, req, null, webhook);
-      if (!fields.eventTypes?.length) {
+      if (!fields.eventTypes?.length && !webhook.schedule) {
         throw new ApiError(`eventTypes must be a non-empty array`, 400);
       }
       if (!isUrlAllowed(url)) {
@@ -365,7 +447,8 @@ export class DocWorkerApi {
       }
 
       const unsubscribeKey = uuidv4();
-      const webhookSecret: WebHookSecret = {unsubscribeKey, url, authorization};
+      const signingSecret = generateSigningSecret();
+      const webhookSecret: WebHookSecret = {unsubscribeKey, url, authorization, signingSecret};
       const secretValue = JSON.stringify(webhookSecret);
       const webhookId = (await this._dbManager.addSecret(secretValue, activeDoc.docName)).id;
 
@@ -381,6 +464,7 @@ export class DocWorkerApi {
           }]]));
         return {
             unsubscribeKey,
+            signingSecret,
             triggerId: sandboxRes.retValues[0],
             webhookId,
         };
@@ -421,19 +505,17 @@ export class DocWorkerApi {
       const tablesTable = activeDoc.docData!.getMetaTable("_grist_Tables");
       const trigger = webhookId ? activeDoc.triggers.getWebhookTriggerRecord(webhookId) : undefined;
       let currentTableId = trigger ? tablesTable.getValue(trigger.tableRef, 'tableId')! : undefined;
-      const {url, authorization, eventTypes, watchedColIds, isReadyColumn, name} = webhook;
+      const {url, authorization, eventTypes, watchedColIds, isReadyColumn, name, payloadTemplate, schedule} = webhook;
       const tableId = await getRealTableId(req.params.tableId || webhook.tableId, {metaTables});
 
       const fields: Partial<SchemaTypes['_grist_Triggers']> = {};
+      const options = trigger ? getTriggerOptions(trigger) : {};
 
       if (url && !isUrlAllowed(url)) {
         throw new ApiError('Provided url is forbidden', 403);
       }
 
       if (eventTypes) {
-        if (!eventTypes.length) {
-          throw new ApiError(`eventTypes must be a non-empty array`, 400);
-        }
         fields.eventTypes = [GristObjCode.List, ...eventTypes];
       }
 
@@ -475,6 +557,57 @@ export class DocWorkerApi {
         fields.isReadyColRef = 0;
       }
 
+      if (payloadTemplate !== undefined) {
+        // null unsets the template, going back to the default payloads.
+        const {colIds, maxBatchSize, batchWindowMs} = payloadTemplate ?? {};
+        if (colIds) {
+          if (!currentTableId) {
+            throw new ApiError(`Cannot find columns "${colIds}" because table is not known`, 404);
+          }
+          colIds.forEach(colId => colIdToReference(metaTables, currentTableId!, colId));
+        }
+        if (maxBatchSize !== undefined && !(Number.isInteger(maxBatchSize) &&
+                                            maxBatchSize >= 1 && maxBatchSize <= MAX_BATCH_SIZE)) {
+          throw new ApiError(`payloadTemplate.maxBatchSize must be an integer between 1 and ${MAX_BATCH_SIZE}`, 400);
+        }
+        if (batchWindowMs !== undefined && !(batchWindowMs >= 0 && batchWindowMs <= MAX_BATCH_WINDOW_MS)) {
+          throw new ApiError(`payloadTemplate.batchWindowMs must be between 0 and ${MAX_BATCH_WINDOW_MS}`, 400);
+        }
+        options.payloadTemplate = payloadTemplate ?? undefined;
+      }
+
+      if (schedule) {
+        const {cron, timezone, filters} = schedule;
+        try {
+          CronSchedule.parse(cron);
+        } catch (e) {
+          throw new ApiError(`schedule.cron is invalid: ${e.message}`, 400);
+        }
+        if (timezone && !isValidTimezone(timezone)) {
+          throw new ApiError(`schedule.timezone is not a known timezone: "${timezone}"`, 400);
+        }
+        if (filters) {
+          if (!currentTableId) {
+            throw new ApiError(`Cannot find columns "${Object.keys(filters)}" because table is not known`, 404);
+          }
+          Object.keys(filters).forEach(colId => colIdToReference(metaTables, currentTableId!, colId));
+        }
+      }
+      if (schedule !== undefined) {
+        // null removes the schedule, so the webhook only fires on changes to the data.
+        options.schedule = schedule ?? undefined;
+      }
+
+      if (payloadTemplate !== undefined || schedule !== undefined) {
+        fields.options = JSON.stringify(options);
+      }
+
+      // A webhook that only runs on a schedule doesn't need any event types.
+      const allEventTypes = eventTypes ?? (trigger ? decodeObject(trigger.eventTypes) as string[] : null);
+      if (allEventTypes && !allEventTypes.length && !options.schedule) {
+        throw new ApiError(`eventTypes must be a non-empty array`, 400);
+      }
+
       // assign other field properties
       Object.assign(fields, _.pick(webhook, ['enabled', 'memo']));
       if (name) {
@@ -721,6 +854,7 @@ export class DocWorkerApi {
     // returns an array of row IDs
     this._app.post('/api/docs/:docId/tables/:tableId/data', canEdit,
       withDoc(async (activeDoc, req, res) => {
+        this._assertNotFormShare(activeDoc, req);
         const colValues = req.body as BulkColValues;
         const count = colValues[Object.keys(colValues)[0]].length;
         const op = await getTableOperations(req, activeDoc);
@@ -734,6 +868,7 @@ export class DocWorkerApi {
     // WARNING: The `req.body` object is modified in place.
     this._app.post('/api/docs/:docId/tables/:tableId/records', canEdit,
       withDoc(async (activeDoc, req, res) => {
+        this._assertNotFormShare(activeDoc, req);
         let body = req.body;
         if (isAffirmative(req.query.flat)) {
           if (!body.records && Array.isArray(body)) {
@@ -770,7 +905,9 @@ export class DocWorkerApi {
       '/api/docs/:docId/sql', canView,
       withDoc(async (activeDoc, req, res) => {
         const sql = stringParam(req.query.q, 'q');
-        await this._runSql(activeDoc, req, res, { sql });
+        const limit = optIntegerParam(req.query.limit, 'limit');
+        const cursor = optStringParam(req.query.cursor, 'cursor');
+        await this._runSql(activeDoc, req, res, { sql, limit, cursor });
       }));
 
     // A POST /sql endpoint, accepting a body like:
@@ -961,6 +1098,7 @@ export class DocWorkerApi {
     // Add or update records given in records format
     this._app.put('/api/docs/:docId/tables/:tableId/records', canEdit, validate(RecordsPut),
       withDoc(async (activeDoc, req, res) => {
+        this._assertNotFormShare(activeDoc, req);
         const ops = await getTableOperations(req, activeDoc);
         const body = req.body as Types.RecordsPut;
         const options = {
@@ -1092,6 +1230,7 @@ export class DocWorkerApi {
         const docId = activeDoc.docName;
         const webhookId = req.params.webhookId;
         const {fields, url, authorization} = await getWebhookSettings(activeDoc, req, webhookId, req.body);
+        const rotateSigningSecret = Boolean(req.body.rotateSigningSecret);
         if (fields.enabled === false) {
           await activeDoc.clearSingleWebhookQueue(webhookId);
         }
@@ -1104,6 +1243,14 @@ export class DocWorkerApi {
           activeDoc.triggers.webhookDeleted(webhookId); // clear cache
         }
 
+        if (rotateSigningSecret) {
+          await this._dbManager.rotateWebhookSigningSecret({
+            id: webhookId, docId, signingSecret: generateSigningSecret(),
+            gracePeriodMs: SIGNING_SECRET_GRACE_PERIOD_MS,
+          });
+          activeDoc.triggers.webhookDeleted(webhookId); // clear cache
+        }
+
         // then update document
         if (Object.keys(fields).length) {
           await handleSandboxError("_grist_Triggers", [], activeDoc.applyUserActions(
@@ -1190,6 +1337,28 @@ export class DocWorkerApi {
       res.json(await activeDoc.getUsersForViewAs(docSession));
     }));
 
+    // GET /api/docs/:docId/access-rules
+    // Returns the access rules of the document as a portable bundle. If the "download" query
+    // parameter is set, responds with it as a file to download.
+    this._app.get('/api/docs/:docId/access-rules', canView, withDoc(async (activeDoc, req, res) => {
+      const bundle = await activeDoc.exportAccessRules(docSessionFromRequest(req));
+      if (isAffirmative(req.query.download)) {
+        const docName = await this._getDownloadFilename(req, 'Access rules', activeDoc.doc);
+        res.set('Content-Disposition', contentDisposition(`${docName}.json`, {type: 'attachment'}));
+      }
+      res.json(bundle);
+    }));
+
+    // POST /api/docs/:docId/access-rules
+    // Replaces the access rules of the document with those of a bundle, unless there are
+    // conflicts, which are reported. With "dryRun" set, only reports what would happen.
+    this._app.post('/api/docs/:docId/access-rules', isOwner, validate(AclRulesImportPostChecker),
+      withDoc(async (activeDoc, req, res) => {
+        const {bundle, ...options}: AclRulesImportPost = req.body;
+        res.json(await activeDoc.importAccessRules(docSessionFromRequest(req), bundle, options));
+      })
+    );
+
     this._app.post('/api/docs/:docId/snapshots/remove', isOwner, withDoc(async (activeDoc, req, res) => {
       const docSession = docSessionFromRequest(req);
       const snapshotIds = req.body.snapshotIds as string[];
@@ -1220,6 +1389,26 @@ export class DocWorkerApi {
       throw new Error('please specify snapshotIds to remove');
     }));
 
+    // Set or clear (with a null or empty label) the label of a snapshot.
+    this._app.post('/api/docs/:docId/snapshots/:snapshotId/label', isOwner, withDoc(async (activeDoc, req, res) => {
+      const label = req.body.label === null ? null : getSnapshotLabel(req.body.label);
+      await activeDoc.updateSnapshotMetadata(docSessionFromRequest(req), req.params.snapshotId, {label});
+      res.json(null);
+    }));
+
+    // Pin a snapshot so that it is never pruned, optionally setting its label at the same time.
+    this._app.post('/api/docs/:docId/snapshots/:snapshotId/pin', isOwner, withDoc(async (activeDoc, req, res) => {
+      const label = req.body.label === undefined ? undefined : getSnapshotLabel(req.body.label);
+      await activeDoc.updateSnapshotMetadata(docSessionFromRequest(req), req.params.snapshotId,
+        {pinned: true, ...label !== undefined && {label}});
+      res.json(null);
+    }));
+
+    this._app.post('/api/docs/:docId/snapshots/:snapshotId/unpin', isOwner, withDoc(async (activeDoc, req, res) => {
+      await activeDoc.updateSnapshotMetadata(docSessionFromRequest(req), req.params.snapshotId, {pinned: false});
+      res.json(null);
+    }));
+
     this._app.post('/api/docs/:docId/flush', canEdit, throttled(async (req, res) => {
       const activeDocPromise = this._getActiveDocIfAvailable(req);
       if (!activeDocPromise) {
@@ -1534,20 +1723,28 @@ export class DocWorkerApi {
       await downloadDSV(activeDoc, req, res, {...options, delimiter: '💩'});
     }));
 
+    this._app.get('/api/docs/:docId/download/json', canView, withDoc(async (activeDoc, req, res) => {
+      const options = await this._getDownloadOptions(req);
+
+      await downloadJSON(activeDoc, req, res, options);
+    }));
+
+    this._app.get('/api/docs/:docId/download/ndjson', canView, withDoc(async (activeDoc, req, res) => {
+      const options = await this._getDownloadOptions(req);
+
+      await downloadJSON(activeDoc, req, res, {...options, ndjson: true});
+    }));
+
     this._app.get('/api/docs/:docId/download/xlsx', canView, withDoc(async (activeDoc, req, res) => {
-      const options: DownloadOptions = (!_.isEmpty(req.query) && !_.isEqual(Object.keys(req.query), ["title"]))
-        ? await this._getDownloadOptions(req)
-        : {
-        filename: await this._getDownloadFilename(req),
-        tableId: '',
-        viewSectionId: undefined,
-        filters: [],
-        sortOrder: [],
-        header: 'label'
-      };
+      const options = await this._getWorkbookDownloadOptions(req);
       await downloadXLSX(activeDoc, req, res, options);
     }));
 
+    this._app.get('/api/docs/:docId/download/ods', canView, withDoc(async (activeDoc, req, res) => {
+      const options = await this._getWorkbookDownloadOptions(req);
+      await downloadODS(activeDoc, req, res, options);
+    }));
+
     this._app.get('/api/docs/:docId/send-to-drive', canView, decodeGoogleToken, withDoc(exportToDrive));
 
     /**
@@ -1659,58 +1856,8 @@ export class DocWorkerApi {
           throw new ApiError('DocData not available', 500);
         }
 
-        const sectionId = integerParam(req.params.vsId, 'vsId');
-        const docSession = docSessionFromRequest(req);
-        const linkId = getDocSessionShare(docSession);
-        if (linkId) {
-          /* If accessed via a share, the share's `linkId` will be present and
-           * we'll need to check that the form is in fact published, and that the
-           * share key is associated with the form, before granting access to the
-           * form. */
-          this._assertIsPublishedForm({
-            docData: activeDoc.docData,
-            linkId,
-            sectionId,
-          });
-        }
-
-        const Views_section = activeDoc.docData.getMetaTable('_grist_Views_section');
-        const section = Views_section.getRecord(sectionId);
-        if (!section) {
-          throw new ApiError('Form not found', 404, {code: 'FormNotFound'});
-        }
-
-        const Views_section_field = activeDoc.docData.getMetaTable('_grist_Views_section_field');
+        const {section, fields, formLayoutSpec} = this._getForm(activeDoc, req);
         const Tables_column = activeDoc.docData.getMetaTable('_grist_Tables_column');
-        const fields = Views_section_field
-          .filterRecords({parentId: sectionId})
-          .filter(f => {
-            const col = Tables_column.getRecord(f.colRef);
-            // Formulas are currently unsupported.
-            return col && !(col.isFormula && col.formula);
-          });
-
-        let {layoutSpec: formLayoutSpec} = section;
-        if (!formLayoutSpec) {
-          formLayoutSpec = JSON.stringify({
-            type: 'Layout',
-            children: [
-              {type: 'Label'},
-              {type: 'Label'},
-              {
-                type: 'Section',
-                children: [
-                  {type: 'Label'},
-                  {type: 'Label'},
-                  ...fields.slice(0, INITIAL_FIELDS_COUNT).map(f => ({
-                    type: 'Field',
-                    leaf: f.id,
-                  })),
-                ],
-              },
-            ],
-          });
-        }
 
         // Cache the table reads based on tableId. We are caching only the promise, not the result.
         const table = _.memoize((tableId: string) =>
@@ -1791,6 +1938,152 @@ export class DocWorkerApi {
       })
     );
 
+    /**
+     * Submits records to the specified view section's form.
+     *
+     * Takes records in the same format as POST /tables/:tableId/records. Answers to fields that
+     * are hidden by the form's conditions are dropped, as the form would not have sent them.
+     */
+    this._app.post('/api/docs/:docId/forms/:vsId/records', canEdit,
+      withDoc(async (activeDoc, req, res) => {
+        const body = req.body;
+        validateCore(RecordsPost, req, body);
+        const {section, fields, formLayoutSpec} = this._getForm(activeDoc, req);
+        const Tables_column = activeDoc.docData!.getMetaTable('_grist_Tables_column');
+        const colsByLeaf = new Map(fields.map(f => [f.id, Tables_column.getRecord(f.colRef)!]));
+        const layout = safeJsonParse(formLayoutSpec, null) as FormConditionalNode|null;
+        const records: Types.NewRecord[] = body.records;
+        for (const record of records) {
+          const values = record.fields;
+          if (!layout || !values) { continue; }
+          const hiddenLeaves = getHiddenFormLeaves(layout, (leaf) => {
+            const col = colsByLeaf.get(leaf);
+            if (!col) { return null; }
+            const value = values[col.colId];
+            // Toggles send "on" or "1" when checked.
+            return col.type === 'Bool' ? isAffirmative(value) : value;
+          });
+          for (const leaf of hiddenLeaves) {
+            const col = colsByLeaf.get(leaf);
+            if (col) { delete values[col.colId]; }
+          }
+        }
+        const tableId = await getRealTableId(String(section.tableRef), {activeDoc, req});
+        const ops = await getTableOperations(req, activeDoc, tableId);
+        const result = await ops.create(records);
+        const draftId = optStringParam(req.query.draft, 'draft');
+        if (draftId) {
+          // The response is complete, so its draft is no longer needed.
+          await activeDoc.docStorage.removeFormDraft(section.id, draftId);
+        }
+        if (req.query.utm_source === 'grist-forms') {
+          activeDoc.logTelemetryEvent(docSessionFromRequest(req), 'submittedForm');
+        }
+        res.json({records: result});
+      })
+    );
+
+    /**
+     * Saves a draft of a response to the specified view section's form, for the respondent to
+     * resume later. Drafts aren't written to the form's table.
+     *
+     * Takes `{answers}`, an object of answers keyed by colId, and returns the `id` of the new
+     * draft. The id is a secret: anyone who knows it can read and update the draft.
+     */
+    this._app.post('/api/docs/:docId/forms/:vsId/drafts', canEdit,
+      withDoc(async (activeDoc, req, res) => {
+        const {section, fields} = this._getForm(activeDoc, req);
+        const answers = this._getFormDraftAnswers(activeDoc, fields, req.body);
+        const id = makeId();
+        await activeDoc.docStorage.setFormDraft(section.id, id, answers);
+        res.json({id});
+      })
+    );
+
+    /**
+     * Replaces the answers saved in a draft of a response to the specified view section's form.
+     */
+    this._app.put('/api/docs/:docId/forms/:vsId/drafts/:draftId', canEdit,
+      withDoc(async (activeDoc, req, res) => {
+        const {section, fields} = this._getForm(activeDoc, req);
+        const draftId = stringParam(req.params.draftId, 'draftId');
+        if (!await activeDoc.docStorage.getFormDraft(section.id, draftId)) {
+          throw new ApiError('Form draft not found', 404);
+        }
+        const answers = this._getFormDraftAnswers(activeDoc, fields, req.body);
+        await activeDoc.docStorage.setFormDraft(section.id, draftId, answers);
+        res.json({id: draftId});
+      })
+    );
+
+    /**
+     * Returns a draft of a response to the specified view section's form, as `{answers, updatedAt}`.
+     */
+    this._app.get('/api/docs/:docId/forms/:vsId/drafts/:draftId', canView,
+      withDoc(async (activeDoc, req, res) => {
+        const {section} = this._getForm(activeDoc, req);
+        const draftId = stringParam(req.params.draftId, 'draftId');
+        const draft = await activeDoc.docStorage.getFormDraft(section.id, draftId);
+        if (!draft) {
+          throw new ApiError('Form draft not found', 404);
+        }
+        res.json({answers: safeJsonParse(draft.answers, {}), updatedAt: draft.updatedAt});
+      })
+    );
+
+    // Returns the import configurations saved in the document, as `{imports: ImportConfig[]}`.
+    this._app.get('/api/docs/:docId/imports', canEdit, withDoc(async (activeDoc, req, res) => {
+      res.json({imports: await activeDoc.getImportConfigs(docSessionFromRequest(req))});
+    }));
+
+    // Saves an import configuration under the given name, replacing any existing one.
+    this._app.put('/api/docs/:docId/imports/:name', canEdit, withDoc(async (activeDoc, req, res) => {
+      const name = stringParam(req.params.name, 'name');
+      await activeDoc.saveImportConfig(docSessionFromRequest(req), {...req.body, name});
+      res.json(null);
+    }));
+
+    this._app.delete('/api/docs/:docId/imports/:name', canEdit, withDoc(async (activeDoc, req, res) => {
+      const name = stringParam(req.params.name, 'name');
+      await activeDoc.removeImportConfig(docSessionFromRequest(req), name);
+      res.json(null);
+    }));
+
+    // Re-runs the named import configuration. The request should be a multipart post with an
+    // 'upload' field containing the files to import. It may be omitted if the configuration
+    // imports from a URL or a JSON API, in which case the data is fetched from there again.
+    // Values of the headers to send to a JSON API aren't saved, so they go in the JSON body of
+    // the request, as `{headers: {[name]: value}}`.
+    // Returns the ids of the tables that were created or updated, as `{tables: [{id}]}`.
+    this._app.post('/api/docs/:docId/imports/:name/run', canEdit, withDoc(async (activeDoc, req, res) => {
+      const docSession = docSessionFromRequest(req);
+      const name = stringParam(req.params.name, 'name');
+      const {upload} = req.is('multipart/form-data') ? await handleOptionalUpload(req, res) : {upload: undefined};
+      let uploadId = upload?.uploadId;
+      if (uploadId === undefined) {
+        const config = (await activeDoc.getImportConfigs(docSession)).find(c => c.name === name);
+        if (!config) {
+          throw new ApiError(`Import configuration "${name}" not found`, 404);
+        }
+        if (config.source.type === 'url' && config.source.url) {
+          uploadId = (await activeDoc.fetchURL(docSession, config.source.url)).uploadId;
+        } else if (config.source.type === 'json-api' && config.source.jsonApi) {
+          const headerNames = config.source.headerNames ?? [];
+          const headers = _.pick(req.body?.headers ?? {}, headerNames);
+          const missing = headerNames.filter(headerName => typeof headers[headerName] !== 'string');
+          if (missing.length > 0) {
+            throw new ApiError(`Import configuration "${name}" needs values for headers: ${missing.join(', ')}`, 400);
+          }
+          const source = {...config.source.jsonApi, ...(headerNames.length > 0 ? {headers} : {})};
+          uploadId = (await activeDoc.fetchJsonApi(docSession, source)).uploadId;
+        } else {
+          throw new ApiError(`Import configuration "${name}" needs an upload to run`, 400);
+        }
+      }
+      const result = await activeDoc.runImportConfig(docSession, name, uploadId);
+      res.json({tables: result.tables.map(table => ({id: table.destTableId}))});
+    }));
+
     // GET /api/docs/:docId/timings
     // Checks if timing is on for the document.
     this._app.get('/api/docs/:docId/timing', isOwner, withDoc(async (activeDoc, req, res) => {
@@ -1826,9 +2119,109 @@ export class DocWorkerApi {
     }));
   }
 
+  /**
+   * Returns the answers in the body of a request to save a form draft as JSON, keeping only
+   * those to fields of the form.
+   */
+  private _getFormDraftAnswers(
+    activeDoc: ActiveDoc,
+    fields: MetaRowRecord<'_grist_Views_section_field'>[],
+    body: any,
+  ): string {
+    const answers = body?.answers;
+    if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+      throw new ApiError('Form draft must have an "answers" object', 400);
+    }
+    const Tables_column = activeDoc.docData!.getMetaTable('_grist_Tables_column');
+    const colIds = new Set(fields.map(f => Tables_column.getRecord(f.colRef)?.colId));
+    const result = JSON.stringify(_.pickBy(answers, (_value: CellValue, colId: string) => colIds.has(colId)));
+    if (result.length > MAX_FORM_DRAFT_SIZE) {
+      throw new ApiError(`Form draft must not exceed ${MAX_FORM_DRAFT_SIZE / 1024} KB`, 413);
+    }
+    return result;
+  }
+
+  /**
+   * Returns the view section of the form given by `req.params.vsId`, with its fields and layout.
+   * Throws if the form doesn't exist, or if it's accessed via a share and isn't published.
+   */
+  private _getForm(activeDoc: ActiveDoc, req: RequestWithLogin) {
+    if (!activeDoc.docData) {
+      throw new ApiError('DocData not available', 500);
+    }
+
+    const sectionId = integerParam(req.params.vsId, 'vsId');
+    const docSession = docSessionFromRequest(req);
+    const linkId = getDocSessionShare(docSession);
+    if (linkId) {
+      /* If accessed via a share, the share's `linkId` will be present and
+       * we'll need to check that the form is in fact published, and that the
+       * share key is associated with the form, before granting access to the
+       * form. */
+      this._assertIsPublishedForm({
+        docData: activeDoc.docData,
+        linkId,
+        sectionId,
+      });
+    }
+
+    const Views_section = activeDoc.docData.getMetaTable('_grist_Views_section');
+    const section = Views_section.getRecord(sectionId);
+    if (!section) {
+      throw new ApiError('Form not found', 404, {code: 'FormNotFound'});
+    }
+
+    const Views_section_field = activeDoc.docData.getMetaTable('_grist_Views_section_field');
+    const Tables_column = activeDoc.docData.getMetaTable('_grist_Tables_column');
+    const fields = Views_section_field
+      .filterRecords({parentId: sectionId})
+      .filter(f => {
+        const col = Tables_column.getRecord(f.colRef);
+        // Formulas are currently unsupported.
+        return col && !(col.isFormula && col.formula);
+      });
+
+    let {layoutSpec: formLayoutSpec} = section;
+    if (!formLayoutSpec) {
+      formLayoutSpec = JSON.stringify({
+        type: 'Layout',
+        children: [
+          {type: 'Label'},
+          {type: 'Label'},
+          {
+            type: 'Section',
+            children: [
+              {type: 'Label'},
+              {type: 'Label'},
+              ...fields.slice(0, INITIAL_FIELDS_COUNT).map(f => ({
+                type: 'Field',
+                leaf: f.id,
+              })),
+            ],
+          },
+        ],
+      });
+    }
+
+    return {section, fields, formLayoutSpec};
+  }
+
   /**
    * Throws if the specified section is not a published form.
    */
+  /**
+   * Throws if the request comes through the share of a form. Visitors to a form may add records
+   * to its table, but only through the form's endpoint, which drops answers to hidden fields.
+   */
+  private _assertNotFormShare(activeDoc: ActiveDoc, req: RequestWithLogin) {
+    const linkId = getDocSessionShare(docSessionFromRequest(req));
+    if (!linkId) { return; }
+    const share = activeDoc.docData?.getMetaTable('_grist_Shares').getRecords().find(s => s.linkId === linkId);
+    if (!share || getShareKind(safeJsonParse(share.options, {})) === 'form') {
+      throw new ApiError('Forms may only be submitted through the form', 403);
+    }
+  }
+
   private _assertIsPublishedForm(params: {
     docData: DocData,
     linkId: string,
@@ -2015,6 +2408,24 @@ export class DocWorkerApi {
     };
   }
 
+  /**
+   * Like _getDownloadOptions, but for formats that can hold multiple tables (XLSX and ODS): if no
+   * parameters are given (other than a title), the whole document gets exported.
+   */
+  private async _getWorkbookDownloadOptions(req: Request): Promise<DownloadOptions> {
+    if (!_.isEmpty(req.query) && !_.isEqual(Object.keys(req.query), ["title"])) {
+      return this._getDownloadOptions(req);
+    }
+    return {
+      filename: await this._getDownloadFilename(req),
+      tableId: '',
+      viewSectionId: undefined,
+      filters: [],
+      sortOrder: [],
+      header: 'label'
+    };
+  }
+
   private _getActiveDoc(req: RequestWithLogin): Promise<ActiveDoc> {
     return this._docManager.fetchDoc(docSessionFromRequest(req), getDocId(req));
   }
@@ -2253,7 +2664,30 @@ export class DocWorkerApi {
     options: Types.SqlPost
   ) {
     try {
-      const records = await runSQLQuery(req, activeDoc, options);
+      // Results may be streamed as newline-delimited JSON, one record per line, followed by a
+      // line with {nextCursor} if there are more results than the given limit.
+      if (req.query.format === 'ndjson' || req.accepts(['json', 'application/x-ndjson']) === 'application/x-ndjson') {
+        let started = false;
+        const nextCursor = await streamSQLQuery(req, activeDoc, options, async (records) => {
+          if (!started) {
+            this._logRunSQLQueryEvents(activeDoc, req, options);
+            res.status(200).type('application/x-ndjson');
+            started = true;
+          }
+          const chunk = records.map(rec => JSON.stringify({fields: rec}) + '\n').join('');
+          // Respect backpressure, to avoid buffering the whole result in memory, and stop if the
+          // client went away.
+          if (!res.write(chunk)) {
+            await Promise.race([once(res, 'drain'), once(res, 'close')]);
+          }
+          return !res.destroyed;
+        });
+        if (res.destroyed) { return; }
+        if (nextCursor) { res.write(JSON.stringify({nextCursor}) + '\n'); }
+        res.end();
+        return;
+      }
+      const {records, nextCursor} = await runSQLQuery(req, activeDoc, options);
       this._logRunSQLQueryEvents(activeDoc, req, options);
       res.status(200).json({
         statement: options.sql,
@@ -2262,13 +2696,18 @@ export class DocWorkerApi {
             fields: rec,
           })
         ),
+        ...(nextCursor ? {nextCursor} : {}),
       });
     } catch (e) {
-      if (e?.code === 'SQLITE_INTERRUPT') {
+      if (res.headersSent) {
+        // Too late to report the error properly in the middle of a stream.
+        log.rawError('runSQL failed while streaming', {docId: activeDoc.docName, error: String(e)});
+        res.destroy();
+      } else if (e?.code === 'SQLITE_INTERRUPT') {
         res.status(400).json({
           error: "a slow statement resulted in a database interrupt",
         });
-      } else if (e?.code === 'SQLITE_ERROR') {
+      } else if (e?.code === 'SQLITE_ERROR' || e?.code === 'SQLITE_RANGE') {
         res.status(400).json({
           error: e?.message,
         });
@@ -2504,7 +2943,7 @@ export class DocWorkerApi {
   private _logRunSQLQueryEvents(
     activeDoc: ActiveDoc,
     req: RequestWithLogin,
-    { sql: statement, args, timeout: timeout_ms }: Types.SqlPost
+    { sql: statement, args, timeout: timeout_ms, limit, cursor }: Types.SqlPost
   ) {
     activeDoc.logAuditEvent(req, {
       action: "document.run_sql_query",
@@ -2518,6 +2957,8 @@ export class DocWorkerApi {
         },
         options: {
           timeout_ms,
+          limit,
+          cursor,
         }
       },
     });
@@ -2638,6 +3079,17 @@ function getLimitParameter(req: Request): number|undefined {
   return limit;
 }
 
+/**
+ * Extract a snapshot label from a request body, trimmed. An empty label clears the label.
+ */
+function getSnapshotLabel(label: any): string {
+  const result = stringParam(label, 'label').trim();
+  if (result.length > MAX_SNAPSHOT_LABEL_LENGTH) {
+    throw new ApiError(`label must be at most ${MAX_SNAPSHOT_LABEL_LENGTH} characters long`, 400);
+  }
+  return result;
+}
+
 /**
  * Extract sort and limit parameters from request, if they are present.
  */
@@ -2848,6 +3300,7 @@ export function getDocApiUsageKeysToIncr(
 
 export interface WebhookSubscription {
   unsubscribeKey: string;
+  signingSecret: string;
   webhookId: string;
 }
 
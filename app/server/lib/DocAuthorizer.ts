@@ -1,6 +1,7 @@
 import {OpenDocMode} from 'app/common/DocListAPI';
 // import {Document} from 'app/gen-server/entity/Document';
 import {DocAuthKey, DocAuthResult, HomeDBDocAuth} from 'app/gen-server/lib/homedb/Interfaces';
+import {getShareUnlock} from 'app/gen-server/lib/SharePasswords';
 import {assertAccess} from 'app/server/lib/Authorizer';
 import {AuthSession} from 'app/server/lib/AuthSession';
 import {Role} from 'app/common/roles';
@@ -45,7 +46,8 @@ export class DocAuthorizerImpl implements DocAuthorizer {
     this.openMode = _options.openMode;
     const {dbManager, authSession} = _options;
     const userId = authSession.userId || dbManager.getAnonymousUserId();
-    this._key = {urlId: _options.urlId, userId, org: authSession.org || ""};
+    const shareUnlock = getShareUnlock(authSession.shareUnlocks, _options.urlId);
+    this._key = {urlId: _options.urlId, userId, org: authSession.org || "", ...(shareUnlock ? {shareUnlock} : {})};
   }
 
   public getAuthKey(): DocAuthKey {
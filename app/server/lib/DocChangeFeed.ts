@@ -0,0 +1,238 @@
+import {getEnvContent} from 'app/common/ActionBundle';
+import {BulkColValues, CellValue, ColValues, DocAction} from 'app/common/DocActions';
+import {isHiddenCol} from 'app/common/gristTypes';
+import type {ActiveDoc} from 'app/server/lib/ActiveDoc';
+import {OptDocSession} from 'app/server/lib/DocSession';
+import type {GranularAccessForBundle} from 'app/server/lib/GranularAccess';
+import log from 'app/server/lib/log';
+
+/**
+ * A change to the records of a table, as delivered to subscribers of the change feed. Added
+ * records include all their fields, updated records only the fields that changed. A 'reset'
+ * change means that subscribers can't be told exactly what changed (e.g. because the table was
+ * replaced, or access rules changed), and should fetch the table again.
+ */
+export interface TableChange {
+  type: 'add'|'update'|'remove'|'reset';
+  actionNum: number;
+  records?: ChangedRecord[];
+}
+
+export interface ChangedRecord {
+  id: number;
+  fields?: {[colId: string]: CellValue};
+}
+
+export interface TableChangeListener {
+  // Called with the changes from each action that affects the table, in order.
+  onChanges(changes: TableChange[]): void;
+  // Called when no more changes will be delivered, e.g. because the document is shutting down.
+  onEnd(error?: Error): void;
+}
+
+// Catching up with more actions than this is done with a 'reset' change instead.
+const MAX_CATCHUP_ACTIONS = 1000;
+
+// Number of actions fetched from the action history at a time while catching up.
+const CATCHUP_BATCH_SIZE = 100;
+
+interface Subscription {
+  docSession: OptDocSession;
+  tableId: string;
+  listener: TableChangeListener;
+  // The last action delivered to the listener.
+  lastActionNum: number;
+  // Changes published while the subscription is catching up with past actions.
+  pending: TableChange[][]|null;
+}
+
+/**
+ * Delivers changes to the records of tables of a document to subscribers, as they happen, filtered
+ * by access rules for each subscriber. Subscribers may ask to start from a past action, in which
+ * case the changes since then are first read from the action history.
+ */
+export class DocChangeFeed {
+  private _subscriptions = new Set<Subscription>();
+
+  constructor(private _activeDoc: ActiveDoc) {}
+
+  /**
+   * Subscribes to changes to the given table, starting after `sinceActionNum` if given, or after
+   * the latest action otherwise. Returns a function to unsubscribe.
+   */
+  public async subscribe(docSession: OptDocSession, tableId: string, listener: TableChangeListener,
+                         sinceActionNum?: number): Promise<() => void> {
+    const lastActionNum = this._activeDoc.getActionHistory().getNextLocalActionNum() - 1;
+    const sub: Subscription = {docSession, tableId, listener, lastActionNum, pending: null};
+    const unsubscribe = () => { this._subscriptions.delete(sub); };
+    if (sinceActionNum === undefined || sinceActionNum === lastActionNum) {
+      this._subscriptions.add(sub);
+      return unsubscribe;
+    }
+    sub.pending = [];
+    this._subscriptions.add(sub);
+    try {
+      await this._catchUp(sub, sinceActionNum, lastActionNum);
+      for (const changes of sub.pending) {
+        this._deliver(sub, changes);
+      }
+    } catch (e) {
+      unsubscribe();
+      throw e;
+    } finally {
+      sub.pending = null;
+    }
+    return unsubscribe;
+  }
+
+  /**
+   * Delivers changes from the action bundle currently being applied. Called once the bundle has
+   * been applied and broadcast to clients.
+   */
+  public async publish(actionNum: number, accessControl: GranularAccessForBundle) {
+    if (!actionNum) { return; }
+    // Filter changes for all subscribers in parallel, so that one slow subscriber doesn't hold up
+    // the others.
+    await Promise.all([...this._subscriptions].map(async (sub) => {
+      let changes: TableChange[];
+      try {
+        const docActions = await accessControl.getDocActionsForBundle(sub.docSession);
+        const result = docActionsToTableChanges(sub.tableId, actionNum, docActions);
+        sub.tableId = result.tableId;
+        changes = result.changes;
+      } catch (e) {
+        if (e.code !== 'NEED_RELOAD') {
+          log.error('DocChangeFeed: failed to filter changes', {docId: this._activeDoc.docName, error: String(e)});
+          this._subscriptions.delete(sub);
+          sub.listener.onEnd(e);
+          return;
+        }
+        changes = [{type: 'reset', actionNum}];
+      }
+      if (sub.pending) {
+        sub.pending.push(changes);
+      } else {
+        this._deliver(sub, changes);
+      }
+    }));
+  }
+
+  /**
+   * Ends all subscriptions.
+   */
+  public shutdown() {
+    for (const sub of this._subscriptions) {
+      sub.listener.onEnd();
+    }
+    this._subscriptions.clear();
+  }
+
+  private _deliver(sub: Subscription, changes: TableChange[]) {
+    // Changes may be both read from history and published while catching up; skip repeats.
+    changes = changes.filter(c => c.actionNum > sub.lastActionNum);
+    if (changes.length === 0) { return; }
+    sub.lastActionNum = changes[changes.length - 1].actionNum;
+    sub.listener.onChanges(changes);
+  }
+
+  private async _catchUp(sub: Subscription, sinceActionNum: number, lastActionNum: number) {
+    // We can only replay past actions for users who may see all of them; access rules that
+    // applied at the time aren't known. Others (and those too far behind) start over.
+    if (sinceActionNum > lastActionNum || lastActionNum - sinceActionNum > MAX_CATCHUP_ACTIONS ||
+        !await this._activeDoc.canReadEverything(sub.docSession)) {
+      return this._deliver(sub, [{type: 'reset', actionNum: lastActionNum}]);
+    }
+    for (let start = sinceActionNum + 1; start <= lastActionNum; start += CATCHUP_BATCH_SIZE) {
+      const actionNums: number[] = [];
+      for (let n = start; n <= Math.min(lastActionNum, start + CATCHUP_BATCH_SIZE - 1); n++) {
+        actionNums.push(n);
+      }
+      const bundles = await this._activeDoc.getActions(actionNums);
+      for (const [i, bundle] of bundles.entries()) {
+        if (!bundle) {
+          // The action is no longer in the history.
+          return this._deliver(sub, [{type: 'reset', actionNum: lastActionNum}]);
+        }
+        const docActions = getEnvContent(bundle.stored).concat(getEnvContent(bundle.calc));
+        const result = docActionsToTableChanges(sub.tableId, actionNums[i], docActions);
+        sub.tableId = result.tableId;
+        this._deliver(sub, result.changes);
+      }
+    }
+  }
+}
+
+/**
+ * Converts the DocActions of one action to changes to records of the given table. Returns the
+ * changes, and the id of the table after the action, which differs if the table got renamed.
+ */
+export function docActionsToTableChanges(tableId: string, actionNum: number, docActions: DocAction[]): {
+  tableId: string,
+  changes: TableChange[],
+} {
+  const changes: TableChange[] = [];
+  const addChange = (type: TableChange['type'], records?: ChangedRecord[]) => {
+    const last = changes[changes.length - 1];
+    if (type === 'reset') {
+      changes.length = 0;
+    } else if (last?.type === 'reset') {
+      return;
+    } else if (last?.type === type) {
+      last.records!.push(...records!);
+      return;
+    }
+    changes.push({type, actionNum, ...(records ? {records} : {})});
+  };
+  for (const action of docActions) {
+    if (action[1] !== tableId) { continue; }
+    switch (action[0]) {
+      case 'AddRecord':
+        addChange('add', [{id: action[2], fields: visibleFields(action[3])}]);
+        break;
+      case 'BulkAddRecord':
+        addChange('add', bulkToRecords(action[2], action[3]));
+        break;
+      case 'UpdateRecord': {
+        const fields = visibleFields(action[3]);
+        if (Object.keys(fields).length > 0) { addChange('update', [{id: action[2], fields}]); }
+        break;
+      }
+      case 'BulkUpdateRecord': {
+        const records = bulkToRecords(action[2], action[3]).filter(r => Object.keys(r.fields!).length > 0);
+        if (records.length > 0) { addChange('update', records); }
+        break;
+      }
+      case 'RemoveRecord':
+        addChange('remove', [{id: action[2]}]);
+        break;
+      case 'BulkRemoveRecord':
+        addChange('remove', action[2].map(id => ({id})));
+        break;
+      case 'RenameTable':
+        tableId = action[2];
+        break;
+      case 'ReplaceTableData':
+      case 'TableData':
+      case 'RemoveTable':
+        addChange('reset');
+        break;
+    }
+  }
+  return {tableId, changes};
+}
+
+function visibleFields(colValues: ColValues): {[colId: string]: CellValue} {
+  const fields: {[colId: string]: CellValue} = {};
+  for (const [colId, value] of Object.entries(colValues)) {
+    if (!isHiddenCol(colId)) { fields[colId] = value; }
+  }
+  return fields;
+}
+
+function bulkToRecords(rowIds: number[], colValues: BulkColValues): ChangedRecord[] {
+  const colIds = Object.keys(colValues).filter(colId => !isHiddenCol(colId));
+  return rowIds.map((id, i) => ({
+    id,
+    fields: Object.fromEntries(colIds.map(colId => [colId, colValues[colId][i]])),
+  }));
+}
@@ -0,0 +1,323 @@
+import {ApiError} from 'app/common/ApiError';
+import {DocComment} from 'app/common/DocComments';
+import {parseUrlId} from 'app/common/gristUrls';
+import {DigestFrequency, getNotificationPrefs, NotificationPrefs} from 'app/common/Prefs';
+import {ANONYMOUS_USER_EMAIL, EVERYONE_EMAIL, UserAccessData} from 'app/common/UserAPI';
+import {Document} from 'app/gen-server/entity/Document';
+import {HomeDBManager} from 'app/gen-server/lib/homedb/HomeDBManager';
+import {
+  DocChangesSummary,
+  DocChangesTemplate,
+  DocCommentsTemplate,
+  DocNotificationEvent,
+  DocNotificationTemplateDoc,
+} from 'app/gen-server/lib/NotifierTypes';
+import {OptDocSession} from 'app/server/lib/DocSession';
+import {expressWrap} from 'app/server/lib/expressWrap';
+import {GranularAccessForBundle} from 'app/server/lib/GranularAccess';
+import {docEmailsQueue, GristJob} from 'app/server/lib/GristJobs';
+import {GristServer} from 'app/server/lib/GristServer';
+import {IDocNotificationManager} from 'app/server/lib/IDocNotificationManager';
+import log from 'app/server/lib/log';
+import {optStringParam, stringParam} from 'app/server/lib/requestUtils';
+import * as crypto from 'crypto';
+import * as express from 'express';
+
+// How long changes are collected before a digest is sent. Exposed for tests.
+export const Deps = {
+  DIGEST_DELAY_MS: {
+    hourly: 60 * 60 * 1000,
+    daily: 24 * 60 * 60 * 1000,
+  } as {[frequency in DigestFrequency]: number},
+};
+
+/**
+ * Comments to notify a user about, as queued by a doc worker in a 'comments' job.
+ */
+interface CommentsRecipient {
+  userId: number;
+  comments: Array<{text: string, anchorLink: string, mentionsYou: boolean}>;
+  // What the recipient unsubscribes from using the link in the email: either all comments, or
+  // only those which don't concern them (when they get all comments).
+  unsubscribeMode: UnsubscribeMode;
+}
+
+interface CommentsJobData {
+  docId: string;
+  authorName: string|null;
+  recipients: CommentsRecipient[];
+}
+
+/**
+ * Changes to add to the digests of users, as queued by a doc worker in a 'changes' job.
+ */
+interface ChangesRecipient {
+  userId: number;
+  digest: DigestFrequency;
+  userTableNames: string[];
+  categories: string[];
+}
+
+interface ChangesJobData {
+  docId: string;
+  authorName: string|null;
+  recipients: ChangesRecipient[];
+}
+
+interface DigestJobData {
+  docId: string;
+  userId: number;
+  digest: DigestFrequency;
+}
+
+type UnsubscribeMode = 'full'|'partial';
+
+/**
+ * Turns changes to documents into email notifications, according to the notification prefs of
+ * each user of the document (see NotificationPrefs):
+ *  - New comments are sent soon after they are made, to users who are mentioned in them or who
+ *    are part of their thread, and to those who asked to be notified of all comments.
+ *  - Other changes are collected into hourly or daily digests, for users who asked for them.
+ *
+ * Doc workers work out which users to notify of a change, checking what each of them is allowed
+ * to see, and queue jobs on the docEmailsQueue. Home servers handle those jobs: they send the
+ * comments, and collect changes into pending digests stored in the home database, which are sent
+ * by jobs delayed until they are due.
+ *
+ * Home servers also serve the links to unsubscribe that are included in the emails.
+ */
+export class DocNotificationManager implements IDocNotificationManager {
+  constructor(private _gristServer: GristServer) {}
+
+  public initHomeServer(app: express.Express) {
+    const queue = this._gristServer.getJobs().queue(docEmailsQueue);
+    queue.handleName('comments', job => this._sendComments(job.data));
+    queue.handleName('changes', job => this._addChanges(job.data));
+    queue.handleName('digest', job => this._sendDigest(job.data));
+    queue.handleDefault(async (job: GristJob) => {
+      log.warn(`DocNotificationManager: unexpected job ${job.name}`);
+    });
+
+    // GET /api/docs/:docId/unsubscribe
+    // Query params: user, notification ('comments' or 'docChanges'), mode ('full' or 'partial'),
+    // and sig, the signature of the other params.
+    // Linked from notification emails. Updates the user's prefs, and shows a page confirming it.
+    app.get('/api/docs/:docId/unsubscribe', expressWrap(async (req, res) => {
+      let docUrl: string|undefined;
+      try {
+        const docId = stringParam(req.params.docId, 'docId');
+        const userId = parseInt(stringParam(req.query.user, 'user'), 10);
+        const notification = stringParam(req.query.notification, 'notification',
+          {allowed: ['comments', 'docChanges']}) as DocNotificationEvent;
+        const mode = (optStringParam(req.query.mode, 'mode', {allowed: ['full', 'partial']}) ||
+          'full') as UnsubscribeMode;
+        const sig = stringParam(req.query.sig, 'sig');
+        const homeDb = this._gristServer.getHomeDBManager();
+        const doc = await homeDb.getRawDocById(docId);
+        docUrl = await this._gristServer.getResourceUrl(doc);
+        const user = await homeDb.getUser(userId);
+        if (!user?.unsubscribeKey ||
+            !isValidSignature(sig, signUnsubscribe(user.unsubscribeKey, {docId, notification, mode}))) {
+          throw new ApiError('Invalid unsubscribe link', 403);
+        }
+        const scope = {urlId: docId, userId};
+        const {currentUser} = await homeDb.getDocPrefs(scope);
+        const notifications: NotificationPrefs = {...currentUser.notifications};
+        if (notification === 'docChanges') {
+          notifications.docChanges = false;
+        } else {
+          notifications.comments = (mode === 'full') ? 'none' : 'relevant';
+        }
+        await homeDb.setDocPrefs(scope, {currentUser: {...currentUser, notifications}});
+        await this._gristServer.sendAppPage(req, res, {path: 'error.html', status: 200, config: {
+          errPage: 'unsubscribed',
+          errDetails: {docName: doc.name, docUrl, notification, mode, email: user.logins[0]?.displayEmail},
+        }});
+      } catch (e) {
+        log.warn(`DocNotificationManager: failed to unsubscribe: ${e.message}`);
+        await this._gristServer.sendAppPage(req, res, {path: 'error.html', status: e.status || 400, config: {
+          errPage: 'unsubscribed',
+          errMessage: e.message,
+          ...(docUrl ? {errDetails: {docUrl}} : {}),
+        }});
+      }
+    }));
+  }
+
+  public async notifySubscribers(
+    docSession: OptDocSession, docId: string, accessControl: GranularAccessForBundle
+  ): Promise<void> {
+    // Forks and snapshots have no subscribers of their own.
+    const {forkId, snapshotId} = parseUrlId(docId);
+    if (forkId || snapshotId) { return; }
+
+    const homeDb = this._gristServer.getHomeDBManager();
+    if (!homeDb.caches) { return; }
+    const hasComments = accessControl.hasCommentsInBundle();
+    const docPrefs = await homeDb.caches.getDocPrefs(docId);
+    const docDefaults = docPrefs.get(null);
+    if (!hasComments && ![...docPrefs.values()].some(prefs => prefs.notifications?.docChanges)) {
+      // Nobody to notify of these changes.
+      return;
+    }
+
+    const author = docSession.fullUser;
+    const authorName = author ? (author.name || author.email) : null;
+    const comments: CommentsRecipient[] = [];
+    const changes: ChangesRecipient[] = [];
+    for (const user of await getUsersToNotify(homeDb, docId)) {
+      if (user.id === docSession.userId) { continue; }
+      const prefs = getNotificationPrefs(docDefaults, docPrefs.get(user.id));
+      if (hasComments && prefs.comments !== 'none') {
+        const relevant = (await accessControl.getCommentsInBundle(user))
+          .filter(comment => prefs.comments === 'all' || isRelevantComment(comment, user));
+        if (relevant.length > 0) {
+          comments.push({
+            userId: user.id,
+            comments: relevant.map(({text, anchorLink, mentions}) => ({
+              text,
+              anchorLink,
+              mentionsYou: Boolean(user.ref && mentions.includes(user.ref)),
+            })),
+            unsubscribeMode: prefs.comments === 'all' ? 'partial' : 'full',
+          });
+        }
+      }
+      if (prefs.docChanges) {
+        const description = await accessControl.getDirectTablesInBundle(user);
+        if (description) {
+          changes.push({userId: user.id, digest: prefs.digest, ...description});
+        }
+      }
+    }
+
+    // Delivery is left to home servers, so there is no need to wait for it.
+    const queue = this._gristServer.getJobs().queue(docEmailsQueue);
+    if (comments.length > 0) {
+      const data: CommentsJobData = {docId, authorName, recipients: comments};
+      queue.add('comments', data).catch(e => log.error(`DocNotificationManager: failed to queue comments: ${e}`));
+    }
+    if (changes.length > 0) {
+      const data: ChangesJobData = {docId, authorName, recipients: changes};
+      queue.add('changes', data).catch(e => log.error(`DocNotificationManager: failed to queue changes: ${e}`));
+    }
+  }
+
+  private async _sendComments({docId, authorName, recipients}: CommentsJobData) {
+    const homeDb = this._gristServer.getHomeDBManager();
+    const doc = await homeDb.getRawDocById(docId);
+    for (const {userId, comments, unsubscribeMode} of recipients) {
+      try {
+        const base = await this._getTemplateDoc(homeDb, doc, userId, 'comments', unsubscribeMode);
+        const data: DocCommentsTemplate = {
+          ...base,
+          senderAuthorName: authorName,
+          authorName: authorName || '',
+          comments: comments.map(({text, anchorLink, mentionsYou}) => ({
+            text,
+            url: `${base.docUrl}#${anchorLink}`,
+            mentionsYou,
+          })),
+        };
+        await this._gristServer.getNotifier().docNotification('comments', userId, data);
+      } catch (e) {
+        // Keep notifying the other recipients.
+        log.error(`DocNotificationManager: failed to notify user ${userId} of comments: ${e}`);
+      }
+    }
+  }
+
+  private async _addChanges({docId, authorName, recipients}: ChangesJobData) {
+    const homeDb = this._gristServer.getHomeDBManager();
+    const queue = this._gristServer.getJobs().queue(docEmailsQueue);
+    for (const {userId, digest, userTableNames, categories} of recipients) {
+      const changes: DocChangesSummary = {
+        authors: authorName ? [authorName] : [],
+        userTableNames,
+        categories,
+        count: 1,
+      };
+      const dueAt = new Date(Date.now() + Deps.DIGEST_DELAY_MS[digest]);
+      try {
+        const pending = await homeDb.addToDocChangesDigest(docId, userId, changes, dueAt);
+        // Queue the digest each time, in case a previous job got lost. Jobs are identified by when
+        // the digest is due, so only one of them is kept.
+        const data: DigestJobData = {docId, userId, digest};
+        await queue.add('digest', data, {
+          delay: Math.max(pending.dueAt.getTime() - Date.now(), 1),
+          jobId: `digest:${docId}:${userId}:${pending.dueAt.getTime()}`,
+        });
+      } catch (e) {
+        // Keep collecting changes for the other recipients.
+        log.error(`DocNotificationManager: failed to add changes to digest of user ${userId}: ${e}`);
+      }
+    }
+  }
+
+  private async _sendDigest({docId, userId, digest}: DigestJobData) {
+    const homeDb = this._gristServer.getHomeDBManager();
+    const pending = await homeDb.takeDocChangesDigest(docId, userId);
+    if (!pending) { return; }
+    const doc = await homeDb.getRawDocById(docId);
+    const {authors} = pending.changes;
+    const data: DocChangesTemplate = {
+      ...await this._getTemplateDoc(homeDb, doc, userId, 'docChanges', 'full'),
+      senderAuthorName: authors.length === 1 ? authors[0] : null,
+      changes: pending.changes,
+      digest,
+    };
+    await this._gristServer.getNotifier().docNotification('docChanges', userId, data);
+  }
+
+  private async _getTemplateDoc(
+    homeDb: HomeDBManager, doc: Document, userId: number, notification: DocNotificationEvent, mode: UnsubscribeMode
+  ): Promise<Omit<DocNotificationTemplateDoc, 'senderAuthorName'>> {
+    const docUrl = await this._gristServer.getResourceUrl(doc);
+    const user = await homeDb.getUserAndEnsureUnsubscribeKey(userId);
+    const unsubscribeUrl = new URL(`/api/docs/${doc.id}/unsubscribe`, docUrl);
+    unsubscribeUrl.search = new URLSearchParams({
+      user: String(userId),
+      notification,
+      mode,
+      sig: signUnsubscribe(user.unsubscribeKey!, {docId: doc.id, notification, mode}),
+    }).toString();
+    return {
+      docName: doc.name,
+      docUrl,
+      settingsUrl: `${docUrl}/p/settings`,
+      unsubscribeUrl: unsubscribeUrl.href,
+    };
+  }
+}
+
+/**
+ * Returns the users of a document who may get notifications about it, with their access to it.
+ */
+async function getUsersToNotify(homeDb: HomeDBManager, docId: string): Promise<UserAccessData[]> {
+  const {users} = homeDb.unwrapQueryResult(await homeDb.caches!.getDocAccess(docId));
+  return users.filter(user =>
+    user.access && !user.anonymous && !user.disabledAt &&
+    user.email !== EVERYONE_EMAIL && user.email !== ANONYMOUS_USER_EMAIL
+  );
+}
+
+/**
+ * A comment is relevant to a user who is mentioned in it, or who is part of its thread.
+ */
+function isRelevantComment(comment: DocComment, user: UserAccessData) {
+  return Boolean(user.ref) && (comment.mentions.includes(user.ref!) || comment.audience.includes(user.ref!));
+}
+
+function signUnsubscribe(
+  unsubscribeKey: string, params: {docId: string, notification: DocNotificationEvent, mode: UnsubscribeMode}
+) {
+  return crypto.createHmac('sha256', unsubscribeKey)
+    .update(`${params.docId}:${params.notification}:${params.mode}`)
+    .digest('base64url');
+}
+
+function isValidSignature(sig: string, expected: string) {
+  const a = Buffer.from(sig);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
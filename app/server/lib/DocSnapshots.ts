@@ -1,5 +1,6 @@
 import {integerParam} from 'app/server/lib/requestUtils';
-import {ObjSnapshotWithMetadata} from 'app/common/DocSnapshot';
+import {ApiError} from 'app/common/ApiError';
+import {ObjSnapshotWithMetadata, SnapshotMetadataUpdate} from 'app/common/DocSnapshot';
 import {SnapshotWindow} from 'app/common/Features';
 import {KeyedMutex} from 'app/common/KeyedMutex';
 import {KeyedOps} from 'app/common/KeyedOps';
@@ -223,6 +224,36 @@ export class DocSnapshotInventory implements IInventory {
     });
   }
 
+  /**
+   * Change the label or pinned state of a snapshot in the inventory, and then flush to S3.
+   * Versions in S3 are immutable, so the label only lives in the inventory. The pinned state is
+   * also stored with the version itself where the store allows it (as an object tag in S3), so
+   * that pins survive if the inventory has to be reconstructed.
+   */
+  public async updateMetadata(key: string, snapshotId: string, update: SnapshotMetadataUpdate) {
+    await this._mutex.runExclusive(key, async() => {
+      const snapshots = await this._getSnapshots(key, null);
+      const snapshot = snapshots.find(v => v.snapshotId === snapshotId);
+      if (!snapshot) {
+        throw new ApiError(`Snapshot not found: ${snapshotId}`, 404);
+      }
+      if (update.pinned !== undefined) {
+        await this._doc.setVersionMetadata?.(key, snapshotId, {pinned: update.pinned});
+      }
+      const metadata = snapshot.metadata || (snapshot.metadata = {});
+      if (update.label !== undefined) {
+        if (update.label) { metadata.label = update.label; } else { delete metadata.label; }
+      }
+      if (update.pinned !== undefined) {
+        if (update.pinned) { metadata.pinned = true; } else { delete metadata.pinned; }
+      }
+      const fname = await this._getFilename(key);
+      await this._saveToFile(fname, snapshots);
+      this._needFlush.add(key);
+      await this._flush(key);
+    });
+  }
+
   /**
    * Read the cached version of the inventory if available, otherwise fetch
    * it from S3.  If expectSnapshotId is set, the cached version is ignored if
@@ -300,6 +331,10 @@ export class DocSnapshotInventory implements IInventory {
     for (const snapshot of snapshots) {
       const head = await this._doc.head(key, snapshot.snapshotId);
       if (head) {
+        const versionMetadata = await this._doc.getVersionMetadata?.(key, snapshot.snapshotId);
+        if (versionMetadata?.pinned) {
+          head.metadata = {...head.metadata, pinned: true};
+        }
         this._normalizeMetadata(head);
         results.push(head);
       } else {
@@ -340,6 +375,9 @@ export class DocSnapshotInventory implements IInventory {
  *   - The most recent version in every month, for up to 96 distinct months
  *   - The most recent version in every year, for up to 1000 distinct years
  *   - Anything with a label, for up to 32 days before the current version.
+ *   - Anything pinned, regardless of its age.
+ * Nothing older than `snapshotWindow` is kept, even if pinned, since the window is what the
+ * document's plan allows.
  * Calculations done in UTC, Gregorian calendar, ISO weeks (week starts with Monday).
  */
 export function shouldKeepSnapshots(snapshots: ObjSnapshotWithMetadata[], snapshotWindow?: SnapshotWindow): boolean[] {
@@ -388,6 +426,11 @@ export function shouldKeepSnapshots(snapshots: ObjSnapshotWithMetadata[], snapsh
       return false;
     }
 
+    // Pinned versions are kept on request, whatever the rules below say.
+    if (snapshot.metadata?.pinned) {
+      return true;
+    }
+
     // Keep 5 most recent versions if NUM_SNAPSHOT_KEEP not exist
     let keep = index < integerParam(process.env.GRIST_SNAPSHOT_KEEP || 5, "GRIST_SNAPSHOT_KEEP");
 
@@ -8,6 +8,7 @@
 
 
 import {LocalActionBundle} from 'app/common/ActionBundle';
+import {ImportConfig} from 'app/common/ActiveDocAPI';
 import {BulkColValues, DocAction, TableColValues, TableDataAction, toTableDataAction} from 'app/common/DocActions';
 import * as gristTypes from 'app/common/gristTypes';
 import {isList, isListType, isRefListType} from 'app/common/gristTypes';
@@ -51,6 +52,13 @@ export const ATTACHMENTS_EXPIRY_DAYS = 7;
 // Cleanup expired attachments every hour (also happens when shutting down).
 export const REMOVE_UNUSED_ATTACHMENTS_DELAY = {delayMs: 60 * 60 * 1000, varianceMs: 30 * 1000};
 
+// Number of days that drafts of form responses are kept after they were last saved.
+export const FORM_DRAFTS_EXPIRY_DAYS = 30;
+
+// Maximum number of drafts kept for each form. Anyone who can submit a form can save drafts, so
+// beyond this, the least recently saved drafts are removed.
+export const MAX_FORM_DRAFTS_PER_FORM = 1000;
+
 /**
  * Check what way we want to access SQLite files.
  */
@@ -141,6 +149,17 @@ export class DocStorage implements ISQLiteDB, OnDemandStorage {
         );
         -- Plugins have unique keys.
         CREATE UNIQUE INDEX _gristsys_PluginData_unique_key on _gristsys_PluginData(pluginId, key);`);
+      await db.exec(`CREATE TABLE _gristsys_FormDrafts (
+        id TEXT PRIMARY KEY,         -- Secret key of the draft, used in links to resume it
+        sectionRef INTEGER NOT NULL, -- Form view section
+        answers TEXT DEFAULT '',     -- JSON object of answers, keyed by colId
+        updatedAt INTEGER            -- Time of last save, in milliseconds since epoch
+      )`);
+      await db.exec(`CREATE TABLE _gristsys_ImportConfigs (
+        name TEXT PRIMARY KEY,       -- Name of the import configuration
+        config TEXT DEFAULT '',      -- JSON of the ImportConfig
+        updatedAt INTEGER            -- Time of last save, in milliseconds since epoch
+      )`);
     },
     migrations: [
       async function(db: SQLiteDB): Promise<void> {
@@ -413,6 +432,25 @@ export class DocStorage implements ISQLiteDB, OnDemandStorage {
         // Default should be NULL.
         await db.exec(`ALTER TABLE _gristsys_Files ADD COLUMN storageId TEXT`);
       },
+      async function(db: SQLiteDB): Promise<void> {
+        // Storage version 10. Add a table for drafts of form responses, which respondents may
+        // save and resume later. They are only written to the form's table once submitted.
+        await db.exec(`CREATE TABLE _gristsys_FormDrafts (
+          id TEXT PRIMARY KEY,
+          sectionRef INTEGER NOT NULL,
+          answers TEXT DEFAULT '',
+          updatedAt INTEGER
+        )`);
+      },
+      async function(db: SQLiteDB): Promise<void> {
+        // Storage version 11. Add a table for named import configurations, which can be re-run
+        // to import new versions of the same source.
+        await db.exec(`CREATE TABLE _gristsys_ImportConfigs (
+          name TEXT PRIMARY KEY,
+          config TEXT DEFAULT '',
+          updatedAt INTEGER
+        )`);
+      },
     ]
   };
 
@@ -1527,6 +1565,31 @@ export class DocStorage implements ISQLiteDB, OnDemandStorage {
     }
   }
 
+  /**
+   * Creates a table in another database, and fills it with the given data, encoded the same way
+   * as the table of the same name in this document. Used to query data that has been filtered by
+   * access rules.
+   */
+  public async copyTableDataTo(db: SQLiteDB, tableData: TableDataAction): Promise<void> {
+    const [, tableId, rowIds, columnValues] = tableData;
+    const cols = Object.keys(columnValues).filter(c => c !== 'id');
+    const types = cols.map(c => this._getGristType(tableId, c));
+    const colSpecSql = DocStorage._prefixJoin(', ', cols.map((c, i) => DocStorage._columnDef(c, types[i])));
+    await db.exec(`CREATE TABLE ${quoteIdent(tableId)} (id INTEGER PRIMARY KEY${colSpecSql})`);
+    if (rowIds.length === 0) { return; }
+
+    const colListSql = cols.map(c => quoteIdent(c) + ', ').join('');
+    const placeholders = cols.map(c => '?, ').join('');
+    const stmt = await db.prepare(`INSERT INTO ${quoteIdent(tableId)} (${colListSql}id) VALUES (${placeholders}?)`);
+    try {
+      for (const row of DocStorage._encodeColumnsToRows(types, cols.map(c => columnValues[c]).concat([rowIds]))) {
+        await stmt.run(...row);
+      }
+    } finally {
+      await stmt.finalize();
+    }
+  }
+
   public interrupt(): Promise<void> {
     return this._getDB().interrupt();
   }
@@ -1625,6 +1688,64 @@ export class DocStorage implements ISQLiteDB, OnDemandStorage {
     await this.run('DELETE from _gristsys_PluginData where pluginId = ?', pluginId);
   }
 
+  /**
+   * Returns the draft `draftId` of the form in view section `sectionRef`, or undefined if there
+   * is no such draft, or if it has expired.
+   */
+  public async getFormDraft(sectionRef: number, draftId: string): Promise<FormDraft|undefined> {
+    const row = await this.get('SELECT answers, updatedAt FROM _gristsys_FormDrafts ' +
+      'WHERE id = ? AND sectionRef = ? AND updatedAt >= ?', draftId, sectionRef, getFormDraftsCutoff());
+    return row ? {answers: row.answers, updatedAt: row.updatedAt} : undefined;
+  }
+
+  /**
+   * Saves the `answers` (a JSON string) of the draft `draftId` of the form in view section
+   * `sectionRef`, replacing any previously saved answers. Expired drafts are removed at the same
+   * time, as are the oldest drafts of the form beyond MAX_FORM_DRAFTS_PER_FORM.
+   */
+  public async setFormDraft(sectionRef: number, draftId: string, answers: string): Promise<void> {
+    await this.execTransaction(async (db) => {
+      await db.run('INSERT OR REPLACE INTO _gristsys_FormDrafts (id, sectionRef, answers, updatedAt) ' +
+        'VALUES (?, ?, ?, ?)', draftId, sectionRef, answers, Date.now());
+      await db.run('DELETE FROM _gristsys_FormDrafts WHERE updatedAt < ?', getFormDraftsCutoff());
+      await db.run('DELETE FROM _gristsys_FormDrafts WHERE sectionRef = ? AND id NOT IN (' +
+        'SELECT id FROM _gristsys_FormDrafts WHERE sectionRef = ? ORDER BY updatedAt DESC LIMIT ?)',
+        sectionRef, sectionRef, MAX_FORM_DRAFTS_PER_FORM);
+    });
+  }
+
+  public async removeFormDraft(sectionRef: number, draftId: string): Promise<void> {
+    await this.run('DELETE FROM _gristsys_FormDrafts WHERE id = ? AND sectionRef = ?', draftId, sectionRef);
+  }
+
+  /**
+   * Returns the import configurations saved in the document, sorted by name.
+   */
+  public async getImportConfigs(): Promise<ImportConfig[]> {
+    const rows = await this.all('SELECT config FROM _gristsys_ImportConfigs ORDER BY name');
+    return rows.map(row => JSON.parse(row.config));
+  }
+
+  /**
+   * Returns the import configuration called `name`, or undefined if there is no such configuration.
+   */
+  public async getImportConfig(name: string): Promise<ImportConfig|undefined> {
+    const row = await this.get('SELECT config FROM _gristsys_ImportConfigs WHERE name = ?', name);
+    return row ? JSON.parse(row.config) : undefined;
+  }
+
+  /**
+   * Saves an import configuration, replacing any previously saved one with the same name.
+   */
+  public async setImportConfig(config: ImportConfig): Promise<void> {
+    await this.run('INSERT OR REPLACE INTO _gristsys_ImportConfigs (name, config, updatedAt) VALUES (?, ?, ?)',
+      config.name, JSON.stringify(config), Date.now());
+  }
+
+  public async removeImportConfig(name: string): Promise<void> {
+    await this.run('DELETE FROM _gristsys_ImportConfigs WHERE name = ?', name);
+  }
+
   /**
    * Get a list of indexes.  For use in tests.
    */
@@ -2014,6 +2135,11 @@ export async function createAttachmentsIndex(db: ISQLiteDB) {
   await db.exec(`CREATE INDEX _grist_Attachments_fileIdent ON _grist_Attachments(fileIdent)`);
 }
 
+// Returns the time before which drafts of form responses have expired, in milliseconds since epoch.
+function getFormDraftsCutoff() {
+  return Date.now() - FORM_DRAFTS_EXPIRY_DAYS * 24 * 60 * 60 * 1000;
+}
+
 // Old docs may have incorrect quotes in their schema for default values
 // that node-sqlite3 may tolerate but not other wrappers. Patch such
 // material as we run into it.
@@ -2027,3 +2153,9 @@ export interface FileInfo {
   storageId: string | null;
   data: Buffer;
 }
+
+// A draft of a form response, from _gristsys_FormDrafts
+export interface FormDraft {
+  answers: string;
+  updatedAt: number;
+}
@@ -5,7 +5,7 @@ import * as path from 'path';
 import {v4 as uuidv4} from 'uuid';
 
 import {DocEntry, DocEntryTag} from 'app/common/DocListAPI';
-import {DocSnapshots} from 'app/common/DocSnapshot';
+import {DocSnapshots, SnapshotMetadataUpdate} from 'app/common/DocSnapshot';
 import {DocumentUsage} from 'app/common/DocUsage';
 import * as gutil from 'app/common/gutil';
 import {backupUsingBestConnection} from 'app/server/lib/backupSqliteDatabase';
@@ -255,6 +255,11 @@ export class DocStorageManager implements IDocStorageManager {
     throw new Error('removeSnapshots not implemented');
   }
 
+  public updateSnapshotMetadata(docName: string, snapshotId: string,
+                                update: SnapshotMetadataUpdate): Promise<void> {
+    throw new Error('updateSnapshotMetadata not implemented');
+  }
+
   public getSnapshotProgress(): SnapshotProgress {
     return new EmptySnapshotProgress();
   }
@@ -119,18 +119,27 @@ export class DocWorker {
       finishImportFiles:        activeDocMethod.bind(null, 'editors', 'finishImportFiles'),
       cancelImportFiles:        activeDocMethod.bind(null, 'editors', 'cancelImportFiles'),
       generateImportDiff:       activeDocMethod.bind(null, 'editors', 'generateImportDiff'),
+      getImportConfigs:         activeDocMethod.bind(null, 'editors', 'getImportConfigs'),
+      saveImportConfig:         activeDocMethod.bind(null, 'editors', 'saveImportConfig'),
+      removeImportConfig:       activeDocMethod.bind(null, 'editors', 'removeImportConfig'),
+      runImportConfig:          activeDocMethod.bind(null, 'editors', 'runImportConfig'),
       addAttachments:           activeDocMethod.bind(null, 'editors', 'addAttachments'),
       startBundleUserActions:   activeDocMethod.bind(null, 'editors', 'startBundleUserActions'),
       stopBundleUserActions:    activeDocMethod.bind(null, 'editors', 'stopBundleUserActions'),
       autocomplete:             activeDocMethod.bind(null, 'viewers', 'autocomplete'),
       fetchURL:                 activeDocMethod.bind(null, 'viewers', 'fetchURL'),
+      fetchJsonApi:             activeDocMethod.bind(null, 'viewers', 'fetchJsonApi'),
       getActionSummaries:       activeDocMethod.bind(null, 'viewers', 'getActionSummaries'),
+      getCellHistory:           activeDocMethod.bind(null, 'viewers', 'getCellHistory'),
       reloadDoc:                activeDocMethod.bind(null, 'editors', 'reloadDoc'),
       fork:                     activeDocMethod.bind(null, 'viewers', 'fork'),
       checkAclFormula:          activeDocMethod.bind(null, 'viewers', 'checkAclFormula'),
       getAclResources:          activeDocMethod.bind(null, 'viewers', 'getAclResources'),
       waitForInitialization:    activeDocMethod.bind(null, 'viewers', 'waitForInitialization'),
       getUsersForViewAs:        activeDocMethod.bind(null, 'viewers', 'getUsersForViewAs'),
+      simulateAccessRules:      activeDocMethod.bind(null, 'owners', 'simulateAccessRules'),
+      exportAccessRules:        activeDocMethod.bind(null, 'viewers', 'exportAccessRules'),
+      importAccessRules:        activeDocMethod.bind(null, 'owners', 'importAccessRules'),
       getAccessToken:           activeDocMethod.bind(null, 'viewers', 'getAccessToken'),
       getShare:                 activeDocMethod.bind(null, 'owners', 'getShare'),
       startTiming:              activeDocMethod.bind(null, 'owners', 'startTiming'),
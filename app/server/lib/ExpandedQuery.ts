@@ -262,6 +262,49 @@ export function buildComparisonQuery(leftTableId: string, rightTableId: string,
   return query;
 }
 
+/**
+ * Build a query that returns rows from `rightTableId` that have no matching row in `leftTableId`,
+ * where rows match when all of their `joinColumns` values are equal. This is the complement of
+ * what `buildComparisonQuery` reports, and is used by incremental imports to find destination
+ * records that are missing from the source. If `matched` is set, returns rows from
+ * `rightTableId` that do have a match instead.
+ *
+ * Columns from the query result are prefixed with the table id and a '.' separator.
+ *
+ * NOTE: Intended for internal use from trusted parts of Grist only.
+ *
+ * @param {string} leftTableId Name of the left table in the comparison.
+ * @param {string} rightTableId Name of the right table in the comparison.
+ * @param {string[]} selectColumns Column ids from the right table to include in the result,
+ * in addition to 'id'.
+ * @param {Map<string, string>} joinColumns Map of right table column ids to their matching equivalent
+ * from the left table.
+ * @returns {ExpandedQuery} The constructed query.
+ */
+export function buildMissingRowsQuery(leftTableId: string, rightTableId: string, selectColumns: string[],
+                                      joinColumns: Map<string, string>, {matched = false} = {}): ExpandedQuery {
+  const selects = ['id', ...selectColumns].map(colId =>
+    `${quoteIdent(rightTableId)}.${quoteIdent(colId)} AS ${quoteIdent(`${rightTableId}.${colId}`)}`);
+
+  const joinConditions: string[] = [];
+  joinColumns.forEach((leftTableColumn, rightTableColumn) => {
+    joinConditions.push(
+      `${quoteIdent(leftTableId)}.${quoteIdent(leftTableColumn)} = ` +
+      `${quoteIdent(rightTableId)}.${quoteIdent(rightTableColumn)}`);
+  });
+  const matchQuery = `SELECT 1 FROM ${quoteIdent(leftTableId)} WHERE ${combineExpr('AND', joinConditions)}`;
+
+  return {
+    tableId: rightTableId,
+    filters: {},
+    selects,
+    where: {
+      clause: `${matched ? '' : 'NOT '}EXISTS (${matchQuery})`,
+      params: [],
+    },
+  };
+}
+
 export function combineExpr(operator: string, parts: Array<string|undefined>): string {
   return parts.filter(p => Boolean(p)).map(p => `(${p})`).join(` ${operator} `);
 }
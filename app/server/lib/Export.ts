@@ -53,6 +53,7 @@ export class ActiveDocSourceDirect implements ActiveDocSource {
 export interface ExportColumn {
   id: number;
   colId: string;
+  rawColId: string;   // The colId of the column itself; id and colId may be of its display column.
   label: string;
   type: string;
   formatter: BaseFormatter;
@@ -80,6 +81,10 @@ export interface ExportData {
    * Accessor for value in a column.
    */
   access: Access[];
+  /**
+   * Accessor for raw value in a column, e.g. row ids rather than displayed values for references.
+   */
+  rawAccess: Access[];
   /**
    * Columns information (primary used for formatting).
    */
@@ -181,6 +186,20 @@ export async function doExportDoc(
   }
 }
 
+/**
+ * Returns the rowId of the given table in `_grist_Tables`, or throws a 404 error if not found.
+ */
+export function getTableRef(activeDoc: ActiveDoc, tableId: string): number {
+  if (!activeDoc.docData) {
+    throw new Error('No docData in active document');
+  }
+  const tableRef = activeDoc.docData.getMetaTable('_grist_Tables').findRow('tableId', tableId);
+  if (tableRef === 0) {
+    throw new ApiError(`Table ${tableId} not found.`, 404);
+  }
+  return tableRef;
+}
+
 /**
  * Builds export data for section that can be used to produce files in various formats (csv, xlsx).
  */
@@ -230,6 +249,7 @@ export async function doExportTable(
     return {
       id: displayCol.id,
       colId: displayCol.colId,
+      rawColId: tc.colId,
       label: tc.label,
       type: tc.type,
       formatter: createFullFormatterFromDocData(docData, tc.id),
@@ -246,6 +266,7 @@ export async function doExportTable(
   const getters = new ServerColumnGetters(rowIds, dataByColId, columns);
   // create cell accessors
   const access = columns.map(col => getters.getColGetter(col.id)!);
+  const rawAccess = columns.map(col => getters.getColGetterByColId(col.rawColId)!);
 
   let tableName = table.tableId;
   // since tables ids are not very friendly, borrow name from a primary view
@@ -263,6 +284,7 @@ export async function doExportTable(
     docName: await activeDocSource.getDocName(),
     rowIds,
     access,
+    rawAccess,
     columns,
     docSettings
   };
@@ -318,6 +340,7 @@ export async function doExportSection(
     return {
       id: displayCol.id,
       colId: displayCol.colId,
+      rawColId: col.colId,
       label: col.label,
       type: col.type,
       formatter: createFullFormatterFromDocData(docData, col.id, field?.id),
@@ -388,6 +411,7 @@ export async function doExportSection(
     tableName: table.tableId,
     docName: await activeDocSource.getDocName(),
     access: viewColumns.map(col => getters.getColGetter(col.id)!),
+    rawAccess: viewColumns.map(col => getters.getColGetterByColId(col.rawColId)!),
     columns: viewColumns
   };
   return exportData;
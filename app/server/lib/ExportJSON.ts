@@ -0,0 +1,102 @@
+import {CellValue} from 'app/common/DocActions';
+import {extractTypeFromColType} from 'app/common/gristTypes';
+import {GristObjCode} from 'app/plugin/GristData';
+import {ActiveDoc} from 'app/server/lib/ActiveDoc';
+import {DownloadOptions, ExportData, exportSection, exportTable, getTableRef} from 'app/server/lib/Export';
+import log from 'app/server/lib/log';
+import contentDisposition from 'content-disposition';
+import * as express from 'express';
+import * as moment from 'moment-timezone';
+import {once} from 'node:events';
+
+export interface DownloadJsonOptions extends DownloadOptions {
+  // If set, sends one record per line (https://github.com/ndjson/ndjson-spec), writing records to
+  // the response as they are converted. Otherwise, sends a single JSON array of records.
+  ndjson?: boolean;
+}
+
+interface JsonRecord {
+  [key: string]: unknown;
+}
+
+/**
+ * Converts a table or a view section of `activeDoc` to typed JSON records, and sends them
+ * through `res`. Records are keyed by column ids, unless the `header` option asks for labels.
+ * Cell values are converted as described in toJsonValue().
+ */
+export async function downloadJSON(
+  activeDoc: ActiveDoc,
+  req: express.Request,
+  res: express.Response,
+  options: DownloadJsonOptions
+) {
+  const {filename, tableId, viewSectionId, filters, sortOrder, linkingFilter, ndjson} = options;
+  const extension = ndjson ? '.ndjson' : '.json';
+  log.info(`Generating ${extension} file...`);
+  const data = viewSectionId ?
+    await exportSection(activeDoc, viewSectionId, sortOrder || null, filters || null, linkingFilter || null, req) :
+    await exportTable(activeDoc, getTableRef(activeDoc, tableId), req);
+  const records = iterateJsonRecords(data, options.header ?? 'colId');
+  res.setHeader('Content-Disposition', contentDisposition(filename + extension));
+  if (!ndjson) {
+    res.json(Array.from(records));
+    return;
+  }
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  for (const record of records) {
+    if (!res.write(JSON.stringify(record) + '\n')) {
+      // Wait for the client to catch up, unless it went away.
+      await Promise.race([once(res, 'drain'), once(res, 'close')]);
+      if (res.destroyed) { return; }
+    }
+  }
+  res.end();
+}
+
+/**
+ * Converts a cell value of a column of type `colType` to a plain JSON value:
+ *  - Date and DateTime values become ISO strings (e.g. "2024-05-20" and "2024-05-20T13:00:00.000Z").
+ *  - References become nested objects holding the referenced row id, e.g. `{"id": 17}`, or null
+ *    for empty references. Reference lists and attachments become arrays of those.
+ *  - Choice lists and other lists become arrays.
+ *  - Errors become objects like `{"error": "TypeError"}`.
+ * Other values (numbers, text, booleans) are left alone.
+ */
+export function toJsonValue(value: CellValue, colType: string): unknown {
+  const type = extractTypeFromColType(colType);
+  if (typeof value === 'number') {
+    switch (type) {
+      case 'Date': return moment.utc(value * 1000).format('YYYY-MM-DD');
+      case 'DateTime': return new Date(value * 1000).toISOString();
+      case 'Ref': return value ? {id: value} : null;
+      default: return value;
+    }
+  }
+  if (!Array.isArray(value)) {
+    return value ?? null;
+  }
+  const [code, ...args] = value as [string, ...CellValue[]];
+  switch (code) {
+    case GristObjCode.List: {
+      const isRefList = (type === 'RefList' || type === 'Attachments');
+      return args.map(item => isRefList && typeof item === 'number' ? {id: item} : toJsonValue(item, 'Any'));
+    }
+    case GristObjCode.Date: return toJsonValue(args[0], 'Date');
+    case GristObjCode.DateTime: return toJsonValue(args[0], 'DateTime');
+    case GristObjCode.Reference: return toJsonValue(args[1], 'Ref');
+    case GristObjCode.ReferenceList: return ((args[1] || []) as number[]).map(id => ({id}));
+    case GristObjCode.Dict: return args[0];
+    case GristObjCode.Exception: return {error: args[0]};
+    default: return null;
+  }
+}
+
+function *iterateJsonRecords(data: ExportData, header: 'colId'|'label'): Iterable<JsonRecord> {
+  const {rowIds, rawAccess, columns} = data;
+  const keys = columns.map(col => header === 'colId' ? col.rawColId : col.label);
+  for (const row of rowIds) {
+    const record: JsonRecord = {};
+    columns.forEach((col, c) => { record[keys[c]] = toJsonValue(rawAccess[c](row), col.type); });
+    yield record;
+  }
+}
@@ -0,0 +1,158 @@
+import {extractInfoFromColType} from 'app/common/gristTypes';
+import {ActiveDoc} from 'app/server/lib/ActiveDoc';
+import {create_zip_archive} from 'app/server/lib/Archive';
+import {ActiveDocSourceDirect, doExportDoc, DownloadOptions, ExportData, exportSection, exportTable,
+        getTableRef} from 'app/server/lib/Export';
+import log from 'app/server/lib/log';
+import contentDisposition from 'content-disposition';
+import * as express from 'express';
+import * as moment from 'moment-timezone';
+import escape = require('lodash/escape');
+
+const ODS_MIME_TYPE = 'application/vnd.oasis.opendocument.spreadsheet';
+
+// Names of the cell styles defined in CONTENT_HEADER, used for headers, dates and datetimes.
+const HEADER_STYLE = 'ceHeader';
+const DATE_STYLE = 'ceDate';
+const DATETIME_STYLE = 'ceDateTime';
+
+const CONTENT_HEADER = `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content
+ xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"
+ xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"
+ xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"
+ xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"
+ xmlns:number="urn:oasis:names:tc:opendocument:xmlns:datastyle:1.0"
+ xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"
+ office:version="1.2">
+<office:automatic-styles>
+<number:date-style style:name="NDate">
+<number:year number:style="long"/><number:text>-</number:text><number:month number:style="long"/>
+<number:text>-</number:text><number:day number:style="long"/>
+</number:date-style>
+<number:date-style style:name="NDateTime">
+<number:year number:style="long"/><number:text>-</number:text><number:month number:style="long"/>
+<number:text>-</number:text><number:day number:style="long"/><number:text> </number:text>
+<number:hours number:style="long"/><number:text>:</number:text><number:minutes number:style="long"/>
+<number:text>:</number:text><number:seconds number:style="long"/>
+</number:date-style>
+<style:style style:name="${HEADER_STYLE}" style:family="table-cell">
+<style:text-properties fo:font-weight="bold"/>
+</style:style>
+<style:style style:name="${DATE_STYLE}" style:family="table-cell" style:data-style-name="NDate"/>
+<style:style style:name="${DATETIME_STYLE}" style:family="table-cell" style:data-style-name="NDateTime"/>
+</office:automatic-styles>
+<office:body>
+<office:spreadsheet>
+`;
+
+const CONTENT_FOOTER = `</office:spreadsheet>
+</office:body>
+</office:document-content>
+`;
+
+const MANIFEST = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">
+<manifest:file-entry manifest:full-path="/" manifest:version="1.2" manifest:media-type="${ODS_MIME_TYPE}"/>
+<manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
+</manifest:manifest>
+`;
+
+/**
+ * Converts `activeDoc` to an OpenDocument spreadsheet and sends it through `res`. Like for XLSX,
+ * a view section or a table is exported if specified in `options`, or else all tables of the
+ * document, one per sheet.
+ */
+export async function downloadODS(
+  activeDoc: ActiveDoc,
+  req: express.Request,
+  res: express.Response,
+  options: DownloadOptions
+) {
+  const {filename, tableId, viewSectionId, filters, sortOrder, linkingFilter, header} = options;
+  log.info(`Generating .ods file...`);
+  const tables: ExportData[] = [];
+  if (viewSectionId) {
+    tables.push(await exportSection(activeDoc, viewSectionId, sortOrder || null, filters || null,
+      linkingFilter || null, req));
+  } else if (tableId) {
+    tables.push(await exportTable(activeDoc, getTableRef(activeDoc, tableId), req));
+  } else {
+    await doExportDoc(new ActiveDocSourceDirect(activeDoc, req), async (data) => { tables.push(data); });
+  }
+  const content = Buffer.from(CONTENT_HEADER + tables.map(t => convertToOdsTable(t, header)).join('') +
+    CONTENT_FOOTER);
+
+  res.setHeader('Content-Type', ODS_MIME_TYPE);
+  res.setHeader('Content-Disposition', contentDisposition(filename + '.ods'));
+  const archive = create_zip_archive({}, (async function *() {
+    // The mimetype must come first, and be stored uncompressed, for the file to be recognized.
+    yield {name: 'mimetype', size: ODS_MIME_TYPE.length, data: Buffer.from(ODS_MIME_TYPE), store: true};
+    yield {name: 'META-INF/manifest.xml', size: MANIFEST.length, data: Buffer.from(MANIFEST)};
+    yield {name: 'content.xml', size: content.length, data: content};
+  })());
+  await archive.packInto(res);
+}
+
+function convertToOdsTable(data: ExportData, header: DownloadOptions['header']): string {
+  const {tableName, rowIds, access, rawAccess, columns} = data;
+  const formatters = columns.map(col => col.formatter);
+  const lines = [`<table:table table:name="${xmlEscape(tableName)}">\n`];
+  lines.push(`<table:table-column table:number-columns-repeated="${Math.max(columns.length, 1)}"/>\n`);
+  lines.push('<table:table-row>' + columns.map(col =>
+    stringCell(col[header ?? 'label'], HEADER_STYLE)).join('') + '</table:table-row>\n');
+  for (const row of rowIds) {
+    lines.push('<table:table-row>' + columns.map((col, c) =>
+      convertToOdsCell(rawAccess[c](row), col.type, formatters[c].formatAny(access[c](row)))
+    ).join('') + '</table:table-row>\n');
+  }
+  lines.push('</table:table>\n');
+  return lines.join('');
+}
+
+// Builds a cell with a typed value where the spreadsheet can use one (numbers, booleans, dates),
+// and with the formatted value as text otherwise.
+function convertToOdsCell(value: any, colType: string, text: string): string {
+  if (value === null || value === undefined || value === '') {
+    return '<table:table-cell/>';
+  }
+  const typeInfo = extractInfoFromColType(colType);
+  const para = `<text:p>${xmlEscape(text)}</text:p>`;
+  switch (typeof value === 'number' || typeof value === 'boolean' ? typeInfo.type : null) {
+    case 'Numeric':
+    case 'Int': {
+      return `<table:table-cell office:value-type="float" office:value="${value}">${para}</table:table-cell>`;
+    }
+    case 'Bool': {
+      return `<table:table-cell office:value-type="boolean" office:boolean-value="${value}">${para}` +
+        '</table:table-cell>';
+    }
+    case 'Date': {
+      const date = moment.utc(value * 1000).format('YYYY-MM-DD');
+      return `<table:table-cell table:style-name="${DATE_STYLE}" office:value-type="date" ` +
+        `office:date-value="${date}">${para}</table:table-cell>`;
+    }
+    case 'DateTime': {
+      // Spreadsheets have no timezones, so use the local time in the column's timezone.
+      const timezone = (typeInfo.type === 'DateTime' && moment.tz.zone(typeInfo.timezone)) ? typeInfo.timezone : 'UTC';
+      const date = moment.tz(value * 1000, timezone).format('YYYY-MM-DDTHH:mm:ss');
+      return `<table:table-cell table:style-name="${DATETIME_STYLE}" office:value-type="date" ` +
+        `office:date-value="${date}">${para}</table:table-cell>`;
+    }
+    default: {
+      return stringCell(text);
+    }
+  }
+}
+
+function stringCell(text: string, styleName?: string): string {
+  const style = styleName ? ` table:style-name="${styleName}"` : '';
+  return `<table:table-cell${style} office:value-type="string"><text:p>${xmlEscape(text)}</text:p>` +
+    '</table:table-cell>';
+}
+
+// Escapes text for XML, dropping control characters that XML doesn't allow.
+function xmlEscape(text: string): string {
+  // eslint-disable-next-line no-control-regex
+  return escape(text).replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+}
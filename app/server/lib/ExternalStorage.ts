@@ -58,6 +58,14 @@ export interface ExternalStorage {
   // come earlier in the result list.
   versions(key: string): Promise<ObjSnapshot[]>;
 
+  // Set metadata that may change after a version is uploaded (currently only whether it is
+  // pinned), if the store supports that. Versions can't change, so this may be kept apart from
+  // the metadata given on upload, and is read back with `getVersionMetadata`.
+  setVersionMetadata?(key: string, snapshotId: string, metadata: Pick<ObjMetadata, 'pinned'>): Promise<void>;
+
+  // Get metadata set with `setVersionMetadata`.
+  getVersionMetadata?(key: string, snapshotId: string): Promise<Pick<ObjMetadata, 'pinned'>>;
+
   // Render the given key as something url-like, for log messages (e.g. "s3://bucket/path")
   url(key: string): string;
 
@@ -85,6 +93,8 @@ export class KeyMappedExternalStorage implements ExternalStorage {
   public uploadStream: ExternalStorage['uploadStream'];
   public downloadStream: ExternalStorage['downloadStream'];
   public removeAllWithPrefix: ExternalStorage['removeAllWithPrefix'];
+  public setVersionMetadata: ExternalStorage['setVersionMetadata'];
+  public getVersionMetadata: ExternalStorage['getVersionMetadata'];
 
   constructor(private _ext: ExternalStorage,
               private _map: (key: string) => string) {
@@ -103,6 +113,16 @@ export class KeyMappedExternalStorage implements ExternalStorage {
       this.removeAllWithPrefix =
         (prefix) => extRemoveAllWithPrefix.call(_ext, this._map(prefix));
     }
+    if (_ext.setVersionMetadata !== undefined) {
+      const extSetVersionMetadata = _ext.setVersionMetadata;
+      this.setVersionMetadata =
+        (key, snapshotId, metadata) => extSetVersionMetadata.call(_ext, this._map(key), snapshotId, metadata);
+    }
+    if (_ext.getVersionMetadata !== undefined) {
+      const extGetVersionMetadata = _ext.getVersionMetadata;
+      this.getVersionMetadata =
+        (key, snapshotId) => extGetVersionMetadata.call(_ext, this._map(key), snapshotId);
+    }
   }
 
   public exists(key: string, snapshotId?: string): Promise<boolean> {
@@ -173,6 +193,9 @@ export class KeyMappedExternalStorage implements ExternalStorage {
  * Keys presented to this class should be file-system safe.
  */
 export class ChecksummedExternalStorage implements ExternalStorage {
+  // Metadata of versions is accessed by snapshotId, so is consistent, and passed on as is.
+  public setVersionMetadata: ExternalStorage['setVersionMetadata'];
+  public getVersionMetadata: ExternalStorage['getVersionMetadata'];
   private _closed: boolean = false;
 
   constructor(public readonly label: string, private _ext: ExternalStorage, private _options: {
@@ -183,6 +206,8 @@ export class ChecksummedExternalStorage implements ExternalStorage {
     latestVersion: PropStorage, // key/value store for snapshotIds of uploads (a JS map object)
     computeFileHash: (fname: string) => Promise<string>,  // compute hash for file
   }) {
+    this.setVersionMetadata = _ext.setVersionMetadata?.bind(_ext);
+    this.getVersionMetadata = _ext.getVersionMetadata?.bind(_ext);
   }
 
   public async exists(key: string, snapshotId?: string): Promise<boolean> {
@@ -0,0 +1,215 @@
+import {ObjMetadata, ObjSnapshot, ObjSnapshotWithMetadata} from 'app/common/DocSnapshot';
+import {ExternalStorage, StreamDownloadResult} from 'app/server/lib/ExternalStorage';
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import * as stream from 'node:stream';
+
+// Suffix of the directory holding the versions of a key. It keeps a key like "a" from clashing
+// with the directories needed for a key like "a/b".
+const VERSIONS_SUFFIX = '.~versions';
+
+// Suffix of the file holding the side information for a version.
+const INFO_SUFFIX = '.json';
+
+// Side information stored next to the content of each version.
+interface VersionInfo {
+  lastModified: string;
+  metadata?: ObjMetadata;
+}
+
+/**
+ * An external store implemented as a directory on the local filesystem, for installations
+ * without an S3-compatible object store. Every upload to a key is kept as a separate version,
+ * so snapshots of documents work as they do with MinIO. The layout is:
+ *
+ *   <root>/<key>.~versions/<snapshotId>        content of the version
+ *   <root>/<key>.~versions/<snapshotId>.json   its modification time and Grist metadata
+ *
+ * Snapshot ids start with their creation time in milliseconds, so that sorting them sorts
+ * versions by age. Unlike MinIO, this store is immediately consistent.
+ */
+export class FilesystemExternalStorage implements ExternalStorage {
+  // Time of the most recent version created by this process, to keep snapshot ids increasing.
+  private _lastTimestamp: number = 0;
+
+  constructor(public readonly root: string) {
+  }
+
+  public async exists(key: string, snapshotId?: string) {
+    return Boolean(await this.head(key, snapshotId));
+  }
+
+  public async head(key: string, snapshotId?: string): Promise<ObjSnapshotWithMetadata|null> {
+    snapshotId = snapshotId ?? (await this.versions(key))[0]?.snapshotId;
+    if (!snapshotId || !await fse.pathExists(this._getVersionPath(key, snapshotId))) { return null; }
+    const info = await this._readVersionInfo(key, snapshotId);
+    return {
+      lastModified: info.lastModified,
+      snapshotId,
+      ...info.metadata && {metadata: info.metadata},
+    };
+  }
+
+  public async upload(key: string, fname: string, metadata?: ObjMetadata) {
+    return this.uploadStream(key, fse.createReadStream(fname), undefined, metadata);
+  }
+
+  public async uploadStream(key: string, inStream: stream.Readable, size?: number, metadata?: ObjMetadata) {
+    const dir = this._getVersionsDir(key);
+    await fse.mkdirp(dir);
+    const timestamp = this._nextTimestamp();
+    const snapshotId = `${String(timestamp).padStart(15, '0')}-${Math.random().toString(36).slice(2, 10)}`;
+    const info: VersionInfo = {lastModified: new Date(timestamp).toISOString(), ...metadata && {metadata}};
+    // Write the content to a hidden file first, and only move it into place once complete, so
+    // that readers never see a partial version.
+    const tmpPath = path.join(dir, `.${snapshotId}.tmp`);
+    try {
+      await stream.promises.pipeline(inStream, fse.createWriteStream(tmpPath));
+      await fse.writeJson(this._getVersionPath(key, snapshotId) + INFO_SUFFIX, info);
+      await fse.rename(tmpPath, this._getVersionPath(key, snapshotId));
+    } finally {
+      await fse.remove(tmpPath);
+    }
+    return snapshotId;
+  }
+
+  public async downloadStream(key: string, snapshotId?: string): Promise<StreamDownloadResult> {
+    const versionPath = await this._findVersionPath(key, snapshotId);
+    const stat = await fse.stat(versionPath);
+    return {
+      metadata: {
+        snapshotId: path.basename(versionPath),
+        size: stat.size,
+      },
+      contentStream: fse.createReadStream(versionPath),
+    };
+  }
+
+  public async download(key: string, fname: string, snapshotId?: string) {
+    const versionPath = await this._findVersionPath(key, snapshotId);
+    await fse.copy(versionPath, fname);
+    return path.basename(versionPath);
+  }
+
+  public async remove(key: string, snapshotIds?: string[]) {
+    if (!snapshotIds) {
+      await fse.remove(this._getVersionsDir(key));
+      return;
+    }
+    for (const snapshotId of snapshotIds) {
+      const versionPath = this._getVersionPath(key, snapshotId);
+      await fse.remove(versionPath);
+      await fse.remove(versionPath + INFO_SUFFIX);
+    }
+  }
+
+  public async removeAllWithPrefix(prefix: string) {
+    for (const key of await this._listKeys()) {
+      if (key.startsWith(prefix)) {
+        await this.remove(key);
+      }
+    }
+  }
+
+  public async versions(key: string): Promise<ObjSnapshot[]> {
+    const dir = this._getVersionsDir(key);
+    const names: string[] = await fse.readdir(dir).catch(err => {
+      if (err.code === 'ENOENT') { return []; }
+      throw err;
+    });
+    const snapshotIds = names.filter(name => !name.startsWith('.') && !name.endsWith(INFO_SUFFIX));
+    snapshotIds.sort().reverse();
+    const results: ObjSnapshot[] = [];
+    for (const snapshotId of snapshotIds) {
+      const {lastModified} = await this._readVersionInfo(key, snapshotId);
+      results.push({lastModified, snapshotId});
+    }
+    return results;
+  }
+
+  // Unlike MinIO, side information can change, so the pinned state is kept with the rest of the
+  // metadata, and returned by `head`.
+  public async setVersionMetadata(key: string, snapshotId: string, metadata: Pick<ObjMetadata, 'pinned'>) {
+    const info = await this._readVersionInfo(key, snapshotId);
+    info.metadata = {...info.metadata};
+    if (metadata.pinned) { info.metadata.pinned = true; } else { delete info.metadata.pinned; }
+    await fse.writeJson(this._getVersionPath(key, snapshotId) + INFO_SUFFIX, info);
+  }
+
+  public async getVersionMetadata(key: string, snapshotId: string): Promise<Pick<ObjMetadata, 'pinned'>> {
+    const {metadata} = await this._readVersionInfo(key, snapshotId);
+    return metadata?.pinned ? {pinned: true} : {};
+  }
+
+  public url(key: string) {
+    return `file://${this._getVersionsDir(key)}`;
+  }
+
+  public isFatalError(err: any) {
+    // Only missing files are expected; there is no eventual consistency to wait out otherwise.
+    return err.code !== 'ENOENT';
+  }
+
+  public async close() {
+    // nothing to do
+  }
+
+  private _getVersionsDir(key: string) {
+    const dir = path.resolve(this.root, key + VERSIONS_SUFFIX);
+    if (!dir.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`FilesystemExternalStorage: invalid key ${key}`);
+    }
+    return dir;
+  }
+
+  private _getVersionPath(key: string, snapshotId: string) {
+    if (!/^[\w-]+$/.test(snapshotId)) {
+      throw new Error(`FilesystemExternalStorage: invalid snapshotId ${snapshotId}`);
+    }
+    return path.join(this._getVersionsDir(key), snapshotId);
+  }
+
+  // Returns the path to the content of the given version, or of the latest version if none is
+  // given. Throws an ENOENT error if there is no such version.
+  private async _findVersionPath(key: string, snapshotId?: string) {
+    snapshotId = snapshotId ?? (await this.versions(key))[0]?.snapshotId;
+    const versionPath = snapshotId ? this._getVersionPath(key, snapshotId) : undefined;
+    if (!versionPath || !await fse.pathExists(versionPath)) {
+      throw Object.assign(new Error(`FilesystemExternalStorage: ${this.url(key)} not found` +
+        (snapshotId ? ` [version ${snapshotId}]` : '')), {code: 'ENOENT'});
+    }
+    return versionPath;
+  }
+
+  // Reads the side information of a version, falling back on the file's modification time if
+  // it is missing (e.g. for files copied into place by hand).
+  private async _readVersionInfo(key: string, snapshotId: string): Promise<VersionInfo> {
+    const versionPath = this._getVersionPath(key, snapshotId);
+    try {
+      return await fse.readJson(versionPath + INFO_SUFFIX);
+    } catch (err) {
+      if (err.code !== 'ENOENT') { throw err; }
+      return {lastModified: (await fse.stat(versionPath)).mtime.toISOString()};
+    }
+  }
+
+  // Lists all keys with at least one version, by walking the directory tree.
+  private async _listKeys(dir: string = this.root, prefix: string = ''): Promise<string[]> {
+    if (!await fse.pathExists(dir)) { return []; }
+    const keys: string[] = [];
+    for (const name of await fse.readdir(dir)) {
+      if (!(await fse.stat(path.join(dir, name))).isDirectory()) { continue; }
+      if (name.endsWith(VERSIONS_SUFFIX)) {
+        keys.push(prefix + name.slice(0, -VERSIONS_SUFFIX.length));
+      } else {
+        keys.push(...await this._listKeys(path.join(dir, name), `${prefix}${name}/`));
+      }
+    }
+    return keys;
+  }
+
+  private _nextTimestamp() {
+    this._lastTimestamp = Math.max(Date.now(), this._lastTimestamp + 1);
+    return this._lastTimestamp;
+  }
+}
@@ -74,6 +74,7 @@ import { createPubSubManager, IPubSubManager } from 'app/server/lib/PubSubManage
 import {adaptServerUrl, getOrgUrl, getOriginUrl, getScope, integerParam, isParameterOn, optIntegerParam,
         optStringParam, RequestWithGristInfo, stringArrayParam, stringParam, TEST_HTTPS_OFFSET,
         trustOrigin} from 'app/server/lib/requestUtils';
+import {ScheduledTriggers} from 'app/server/lib/ScheduledTriggers';
 import {buildScimRouter} from 'app/server/lib/scim';
 import {ISendAppPageOptions, makeGristConfig, makeMessagePage, makeSendAppPage} from 'app/server/lib/sendAppPage';
 import {getDatabaseUrl, listenPromise, timeoutReached} from 'app/server/lib/serverUtils';
@@ -1559,6 +1560,8 @@ export class FlexServer implements GristServer {
     if (!isSingleUserMode()) {
       addDocApiRoutes(this.app, docWorker, this._docWorkerMap, docManager, this._dbManager,
                       this._attachmentStoreProvider, this);
+      // Perform runs of scheduled webhooks for the documents this worker is responsible for.
+      new ScheduledTriggers(this.getJobs(), docManager, this._docWorkerMap, this.worker.id);
     }
   }
 
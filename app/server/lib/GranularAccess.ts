@@ -2,7 +2,8 @@ import { ALL_PERMISSION_PROPS } from 'app/common/ACLPermissions';
 import { ACLRuleCollection, SPECIAL_RULES_TABLE_ID } from 'app/common/ACLRuleCollection';
 import { ActionGroup } from 'app/common/ActionGroup';
 import { createEmptyActionSummary } from 'app/common/ActionSummary';
-import { ApplyUAExtendedOptions, ServerQuery } from 'app/common/ActiveDocAPI';
+import { AclSimulationRequest, AclSimulationResult, ApplyUAExtendedOptions,
+         ServerQuery } from 'app/common/ActiveDocAPI';
 import { ApiError } from 'app/common/ApiError';
 import { MapWithTTL } from 'app/common/AsyncCreate';
 import { AttachmentColumns, gatherAttachmentIds, getAttachmentColumns } from 'app/common/AttachmentColumns';
@@ -34,8 +35,9 @@ import { isMetadataTable } from 'app/common/isHiddenTable';
 import { compilePredicateFormula, PredicateFormulaInput } from 'app/common/PredicateFormula';
 import { SingleCell } from 'app/common/TableData';
 import { EmptyRecordView, InfoView, RecordView } from 'app/common/RecordView';
-import { canEdit, canView, isValidRole, Role } from 'app/common/roles';
-import { User } from 'app/common/User';
+import { canEdit, canView, getWeakestRole, isValidRole, Role } from 'app/common/roles';
+import { getShareKind, ShareOptions } from 'app/common/ShareOptions';
+import { User, UserInfo } from 'app/common/User';
 import { FullUser, UserAccessData } from 'app/common/UserAPI';
 import { HomeDBManager } from 'app/gen-server/lib/homedb/HomeDBManager';
 import { GristObjCode } from 'app/plugin/GristData';
@@ -48,7 +50,7 @@ import { OptDocSession } from 'app/server/lib/DocSession';
 import { DocStorage, REMOVE_UNUSED_ATTACHMENTS_DELAY } from 'app/server/lib/DocStorage';
 import log from 'app/server/lib/log';
 import { IPermissionInfo, MixedPermissionSetWithContext,
-         PermissionInfo, PermissionSetWithContext } from 'app/server/lib/PermissionInfo';
+         PermissionInfo, PermissionSetWithContext, RuleTraceInfo } from 'app/server/lib/PermissionInfo';
 import { TablePermissionSetWithContext } from 'app/server/lib/PermissionInfo';
 import { integerParam } from 'app/server/lib/requestUtils';
 import { getRelatedRows } from 'app/server/lib/RowAccess';
@@ -105,6 +107,7 @@ const SPECIAL_ACTIONS = new Set(['InitNewDoc',
                                  'AddView',
                                  'AddHiddenColumn',
                                  'RespondToRequests',
+                                 'RecalcTriggerFormulas',
                                 ]);
 
 // Odd-ball actions marked as deprecated or which seem unlikely to be used.
@@ -211,6 +214,8 @@ export interface GranularAccessForBundle {
   appliedBundle(): Promise<void>;
   finishedBundle(): Promise<void>;
   sendDocUpdateForBundle(actionGroup: ActionGroup, docUsage: DocUsageSummary): Promise<void>;
+  // DocActions of the bundle, filtered for the given session, as they would be sent to a client.
+  getDocActionsForBundle(docSession: OptDocSession): Promise<DocAction[]>;
 
   // Null means that there are no changes to tables. Empty list means that there are some changes
   // but no user tables to list. We still deliver notification for empty list, it is just empty
@@ -333,9 +338,10 @@ export class GranularAccess implements GranularAccessForBundle {
 
   /**
    * Construct the UserInfo needed for evaluating rules. This also enriches the user with values
-   * created by user-attribute rules.
+   * created by user-attribute rules. If overrides are given, they replace basic attributes of the
+   * user before user-attribute rules are applied; this is used to simulate access rules.
    */
-  public async getUser(docSession: OptDocSession): Promise<User> {
+  public async getUser(docSession: OptDocSession, overrides?: Partial<UserInfo>): Promise<User> {
     const linkParameters = docSession.linkParameters || {};
     let access: Role | null;
     let fullUser: FullUser | null;
@@ -353,6 +359,12 @@ export class GranularAccess implements GranularAccessForBundle {
       }
       if (rowIds.length === 1) {
         shareRef = rowIds[0];
+        // View-only share links never allow editing, whatever access the home server granted.
+        const options: ShareOptions = JSON.parse(
+          this._docData.getMetaTable('_grist_Shares').getValue(shareRef, 'options') || '{}');
+        if (access && getShareKind(options) === 'link' && options.access !== 'editors') {
+          access = getWeakestRole(access, 'viewers');
+        }
       }
     }
 
@@ -395,6 +407,7 @@ export class GranularAccess implements GranularAccessForBundle {
     user.SessionID = isAnonymous ? `a${docSession.altSessionId}` : `u${user.UserID}`;
     user.IsLoggedIn = !isAnonymous;
     user.UserRef = fullUser?.ref || null; // Empty string should be treated as null.
+    Object.assign(user, overrides);
 
     if (this._ruler.ruleCollection.ruleError && !this._recoveryMode) {
       // It is important to signal that the doc is in an unexpected state,
@@ -435,6 +448,56 @@ export class GranularAccess implements GranularAccessForBundle {
     return user;
   }
 
+  /**
+   * Evaluates access rules for a cell as seen by some user, to explain to an owner why that
+   * user can or can't read or change it. See AclSimulationRequest for the options.
+   */
+  public async simulateAccess(docSession: OptDocSession,
+                              request: AclSimulationRequest): Promise<AclSimulationResult> {
+    if (!await this.isOwner(docSession)) {
+      throw new ErrorWithCode('ACL_DENY', 'Only owners can simulate access rules');
+    }
+    const {userEmail, userAttributes, tableId, rowId, colId} = request;
+    const tableRef = this._docData.getMetaTable('_grist_Tables').findRow('tableId', tableId);
+    if (!tableRef) { throw new Error(`Table not found: ${tableId}`); }
+    if (!this._docData.getMetaTable('_grist_Tables_column').findMatchingRowId({parentId: tableRef, colId})) {
+      throw new Error(`Column not found: ${tableId}.${colId}`);
+    }
+    const overrides: Partial<UserInfo> = {};
+    for (const [name, value] of Object.entries(userAttributes || {})) {
+      if (!SIMULATED_USER_ATTRIBUTES.includes(name)) {
+        throw new Error(`Cannot simulate user attribute ${name}`);
+      }
+      if (name === 'Access' && value !== null && (typeof value !== 'string' || !isValidRole(value))) {
+        throw new Error(`Invalid access: ${value}`);
+      }
+      overrides[name] = value;
+    }
+
+    // Evaluate rules in a session of our own, to simulate "View As" without touching the
+    // caches of the caller's session.
+    const simulatedSession = new OptDocSession({
+      client: docSession.client,
+      req: docSession.req,
+      linkParameters: userEmail ? {aclAsUser: userEmail} : {},
+    });
+    simulatedSession.authorizer = docSession.authorizer;
+    simulatedSession.mode = docSession.mode;
+    const user = await this.getUser(simulatedSession, overrides);
+    const input: PredicateFormulaInput = {user, docId: this._docId};
+    if (rowId !== undefined) {
+      const rows = await this._fetchQueryFromDB({tableId, filters: {id: [rowId]}});
+      if (rows[2].length === 0) { throw new Error(`Row not found: ${tableId} #${rowId}`); }
+      input.rec = input.newRec = new RecordView(rows, 0);
+    }
+    const ruleCollection = this._ruler.ruleCollection;
+    return {
+      user: user.toUserInfo(),
+      steps: new RuleTraceInfo(ruleCollection, input).getColumnAspect(tableId, colId),
+      permissions: new PermissionInfo(ruleCollection, input).getColumnAccess(tableId, colId).perms,
+    };
+  }
+
   public async getCachedUser(docSession: OptDocSession): Promise<User> {
     const access = await this._getAccess(docSession);
     return access.getUser();
@@ -585,6 +648,10 @@ export class GranularAccess implements GranularAccessForBundle {
     if (this._activeBundle.hasDeliberateRuleChange && !userIsOwner) {
       throw new ErrorWithCode('ACL_DENY', 'Only owners can modify access rules');
     }
+    // Shares give access to the document, and are managed by owners only, like access rules.
+    if (!userIsOwner && docActions.some(action => getTableId(action) === '_grist_Shares')) {
+      throw new ErrorWithCode('ACL_DENY', 'Only owners can modify shares');
+    }
     // Normally, viewer requests would never reach this point, but they can happen
     // using the "view as" functionality where user is an owner wanting to preview the
     // access level of another.  And again, the default access rules would normally
@@ -1236,6 +1303,15 @@ export class GranularAccess implements GranularAccessForBundle {
                                                (_docSession) => this._filterDocUpdate(_docSession, message));
   }
 
+  /**
+   * Returns the DocActions of the active bundle, filtered for the given session. Throws an error
+   * with code NEED_RELOAD if the session should instead reload the document.
+   */
+  public async getDocActionsForBundle(docSession: OptDocSession): Promise<DocAction[]> {
+    if (!this._activeBundle) { throw new Error('no active bundle'); }
+    return this.filterOutgoingDocActions(docSession, this._activeBundle.docActions);
+  }
+
   /**
    * Called when uploads occur. We record the fact that the specified attachment
    * ids originated in uploads by the current user, for a certain length of time.
@@ -2912,6 +2988,9 @@ class RecordEditor implements InfoEditor {
   }
 }
 
+// Basic user attributes that may be replaced when simulating access rules.
+const SIMULATED_USER_ATTRIBUTES = ['Access', 'Email', 'Name', 'UserID', 'UserRef', 'IsLoggedIn', 'Origin'];
+
 /**
  * Cache information about user attributes.
  */
@@ -3434,4 +3513,5 @@ export class PseudoDocSession extends OptDocSession {
   public get userId() { return this._userData.id; }
   public get userIsAuthorized() { return !this._userData.anonymous; }
   public get fullUser() { return this._userData; }
+  public get shareUnlocks() { return null; }
 }
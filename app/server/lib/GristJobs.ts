@@ -8,6 +8,9 @@ import IORedis from 'ioredis';
 // that different users of GristJobs don't accidentally use conflicting queue names.
 export const docEmailsQueue = 'deq';
 
+// Name of the queue for runs of scheduled webhooks (see ScheduledTriggers.ts).
+export const scheduledTriggersQueue = 'stq';
+
 /**
  *
  * Support for queues.
@@ -0,0 +1,166 @@
+import { HomeDBManager } from "app/gen-server/lib/homedb/HomeDBManager";
+import { appSettings } from "app/server/lib/AppSettings";
+import { AuditLogStreamer } from "app/server/lib/AuditLogStreamer";
+import {
+  AuditEvent,
+  AuditEventAction,
+  AuditEventActor,
+  AuditEventContext,
+} from "app/server/lib/AuditEvent";
+import { AuditEventProperties, IAuditLogger } from "app/server/lib/IAuditLogger";
+import log from "app/server/lib/log";
+import { getOriginIpAddress } from "app/server/lib/requestUtils";
+import {
+  getAuthSession,
+  getLogMeta,
+  getRequest,
+  RequestOrSession,
+} from "app/server/lib/sessionUtils";
+import moment from "moment";
+import { v4 as uuidv4 } from "uuid";
+
+const storageSection = appSettings.section("auditLogs").section("storage");
+
+/**
+ * Returns whether audit events should be stored in the home database. This
+ * is off unless GRIST_AUDIT_LOG_STORAGE is set to true, since every change to
+ * a document is an event, and storing them all can grow the home database
+ * quickly.
+ */
+export function isAuditLogStorageEnabled(): boolean {
+  return storageSection.flag("enabled").readBool({
+    envVar: "GRIST_AUDIT_LOG_STORAGE",
+    defaultValue: false,
+  })!;
+}
+
+/**
+ * Returns how many days stored audit events are kept for before being
+ * deleted, as set by GRIST_AUDIT_LOG_RETENTION_DAYS. Defaults to 90.
+ */
+export function getAuditLogRetentionDays(): number {
+  return storageSection.flag("retentionDays").requireInt({
+    envVar: "GRIST_AUDIT_LOG_RETENTION_DAYS",
+    defaultValue: 90,
+    minValue: 1,
+  });
+}
+
+/**
+ * Deletes stored audit events older than the retention period, returning
+ * how many were deleted. Called periodically by the Housekeeper.
+ */
+export async function deleteExpiredAuditLogEntries(dbManager: HomeDBManager): Promise<number> {
+  const cutoff = moment().subtract(getAuditLogRetentionDays(), "days").toDate();
+  return dbManager.deleteAuditLogEntriesBefore(cutoff);
+}
+
+export interface HomeDBAuditLoggerOptions {
+  /**
+   * Whether to store events in the home database. Defaults to true.
+   */
+  storeEvents?: boolean;
+  /**
+   * If set, events are also streamed to the destinations configured in the
+   * home database.
+   */
+  streamer?: AuditLogStreamer;
+}
+
+/**
+ * An audit logger that stores events in the home database, where site owners
+ * and install admins can search them through the API, and optionally streams
+ * them to configured destinations. Events older than the retention period are
+ * deleted by the Housekeeper.
+ */
+export class HomeDBAuditLogger implements IAuditLogger {
+  // Writes that are still in progress, so that close() can wait for them.
+  private _pendingWrites = new Set<Promise<void>>();
+
+  constructor(
+    private _dbManager: HomeDBManager,
+    private _options: HomeDBAuditLoggerOptions = {}
+  ) {}
+
+  public logEvent<Action extends AuditEventAction>(
+    requestOrSession: RequestOrSession,
+    properties: AuditEventProperties<Action>
+  ): void {
+    const promise = this.logEventOrThrow(requestOrSession, properties)
+      .catch((err) => {
+        log.rawError("HomeDBAuditLogger failed to store audit event", {
+          ...getLogMeta(requestOrSession),
+          action: properties.action,
+          error: String(err),
+        });
+      })
+      .finally(() => this._pendingWrites.delete(promise));
+    this._pendingWrites.add(promise);
+  }
+
+  public async logEventOrThrow<Action extends AuditEventAction>(
+    requestOrSession: RequestOrSession,
+    properties: AuditEventProperties<Action>
+  ): Promise<void> {
+    const event = this._buildEvent(requestOrSession, properties);
+    const { storeEvents = true, streamer } = this._options;
+    await Promise.all([
+      storeEvents ? this._dbManager.addAuditLogEntry(event) : undefined,
+      streamer?.streamEvent(event),
+    ]);
+  }
+
+  public getStreamingStatuses(destinationIds: string[]) {
+    return this._options.streamer?.getStatuses(destinationIds) ?? [];
+  }
+
+  public async close(): Promise<void> {
+    await Promise.all(this._pendingWrites);
+    await this._options.streamer?.close();
+  }
+
+  private _buildEvent<Action extends AuditEventAction>(
+    requestOrSession: RequestOrSession,
+    { action, actor, context, details }: AuditEventProperties<Action>
+  ): AuditEvent<Action> {
+    return {
+      id: uuidv4(),
+      action,
+      actor: actor ?? getActor(requestOrSession),
+      context: {
+        ...context,
+        ...getContext(requestOrSession),
+      },
+      timestamp: new Date().toISOString(),
+      ...(details ? { details } : undefined),
+    };
+  }
+}
+
+function getActor(requestOrSession: RequestOrSession): AuditEventActor {
+  if (!requestOrSession) {
+    return { type: "system" };
+  }
+
+  const { fullUser } = getAuthSession(requestOrSession);
+  if (!fullUser) {
+    return { type: "unknown" };
+  } else if (fullUser.anonymous) {
+    return { type: "guest" };
+  } else {
+    const { id, name, email } = fullUser;
+    return { type: "user", user: { id, name, email } };
+  }
+}
+
+function getContext(requestOrSession: RequestOrSession): Omit<AuditEventContext, "site"> {
+  const req = getRequest(requestOrSession);
+  const sessionId = getAuthSession(requestOrSession).altSessionId;
+  const userAgent = req?.headers["user-agent"];
+  const ipAddress = req ? getOriginIpAddress(req) : undefined;
+  return {
+    ...(ipAddress ? { ip_address: ipAddress } : undefined),
+    ...(userAgent ? { user_agent: userAgent } : undefined),
+    ...(sessionId ? { session_id: sessionId } : undefined),
+  };
+}
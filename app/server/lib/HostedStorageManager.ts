@@ -2,7 +2,7 @@ import {ApiError} from 'app/common/ApiError';
 import {mapGetOrSet} from 'app/common/AsyncCreate';
 import {delay} from 'app/common/delay';
 import {DocEntry} from 'app/common/DocListAPI';
-import {DocSnapshots} from 'app/common/DocSnapshot';
+import {DocSnapshots, SnapshotMetadataUpdate} from 'app/common/DocSnapshot';
 import {DocumentUsage} from 'app/common/DocUsage';
 import {buildUrlId, parseUrlId} from 'app/common/gristUrls';
 import {KeyedOps} from 'app/common/KeyedOps';
@@ -555,6 +555,14 @@ export class HostedStorageManager implements IDocStorageManager {
     await this._pruner.prune(docName, snapshotIds);
   }
 
+  public async updateSnapshotMetadata(docName: string, snapshotId: string,
+                                      update: SnapshotMetadataUpdate): Promise<void> {
+    if (this._disableS3) {
+      throw new ApiError('Snapshots are not available without external storage', 400);
+    }
+    await this._inventory.updateMetadata(docName, snapshotId, update);
+  }
+
   public async getSnapshots(docName: string, skipMetadataCache?: boolean): Promise<DocSnapshots> {
     if (this._disableS3) {
       return {
@@ -1,3 +1,4 @@
+import { AuditLogStreamingStatus } from "app/common/AuditLogs";
 import {
   AuditEventAction,
   AuditEventActor,
@@ -21,6 +22,11 @@ export interface IAuditLogger {
     requestOrSession: RequestOrSession,
     properties: AuditEventProperties<Action>
   ): Promise<void>;
+  /**
+   * Returns the delivery status of the streaming destinations with the given
+   * ids, as seen by this server.
+   */
+  getStreamingStatuses(destinationIds: string[]): AuditLogStreamingStatus[];
   /**
    * Close any resources used by the logger.
    */
@@ -52,6 +58,7 @@ export function createNullAuditLogger(): IAuditLogger {
   return {
     logEvent() { /* do nothing */ },
     logEventOrThrow() { return Promise.resolve(); },
+    getStreamingStatuses() { return []; },
     close() { return Promise.resolve(); },
   };
 }
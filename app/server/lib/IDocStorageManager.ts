@@ -1,5 +1,5 @@
 import {DocEntry} from 'app/common/DocListAPI';
-import {DocSnapshots} from 'app/common/DocSnapshot';
+import {DocSnapshots, SnapshotMetadataUpdate} from 'app/common/DocSnapshot';
 import {DocumentUsage} from 'app/common/DocUsage';
 import {DocReplacementOptions} from 'app/common/UserAPI';
 import {SQLiteDB} from 'app/server/lib/SQLiteDB';
@@ -38,6 +38,8 @@ export interface IDocStorageManager {
   // Metadata may not be returned in this case.
   getSnapshots(docName: string, skipMetadataCache?: boolean): Promise<DocSnapshots>;
   removeSnapshots(docName: string, snapshotIds: string[]): Promise<void>;
+  // Change the label or pinned state of a snapshot.
+  updateSnapshotMetadata(docName: string, snapshotId: string, update: SnapshotMetadataUpdate): Promise<void>;
   // Get information about how snapshot generation is going.
   getSnapshotProgress(docName: string): SnapshotProgress;
   replace(docName: string, options: DocReplacementOptions): Promise<void>;
@@ -72,6 +74,7 @@ export class TrivialDocStorageManager implements IDocStorageManager {
   public async flushDoc() {}
   public async getSnapshots(): Promise<never> { throw new Error('no'); }
   public async removeSnapshots(): Promise<never> { throw new Error('no'); }
+  public async updateSnapshotMetadata(): Promise<never> { throw new Error('no'); }
   public getSnapshotProgress(): SnapshotProgress { return new EmptySnapshotProgress(); }
   public async replace(): Promise<never> { throw new Error('no'); }
   public async getFsFileSize(): Promise<number> { throw new Error('no'); }
@@ -22,6 +22,7 @@
  * if notications are subject to delays and failures and we wish to
  * be robust, a job queue would be a good idea for all of this.
  */
+import { ApiError } from 'app/common/ApiError';
 import { FullUser } from 'app/common/LoginSessionAPI';
 import * as roles from 'app/common/roles';
 import { BillingAccount } from 'app/gen-server/entity/BillingAccount';
@@ -82,6 +83,12 @@ export interface INotifier extends INotifierMethods {
    * This may need further refactoring or elimination.
    */
   testSendGridExtensions?(): TestSendGridExtensions|undefined;
+
+  /**
+   * Sends an email to `user` to check that notifications get delivered, failing if they can't
+   * be. Only available for notifiers that deliver emails themselves.
+   */
+  sendTestEmail?(user: FullUser, homeUrl: string): Promise<void>;
 }
 
 export interface TestSendGridExtensions {
@@ -124,6 +131,16 @@ export class EmitNotifier extends EventEmitter implements INotifier {
   public testSendGridExtensions() { return this._primaryNotifier?.testSendGridExtensions?.(); }
   public testPendingNotifications(): number { return this._testPendingNotifications; }
 
+  /**
+   * Unlike other methods, this one waits for the email to be sent, and fails if it can't be.
+   */
+  public async sendTestEmail(user: FullUser, homeUrl: string) {
+    if (!this._primaryNotifier?.sendTestEmail) {
+      throw new ApiError('Sending test emails is not supported by the configured notifier', 400);
+    }
+    await this._primaryNotifier.sendTestEmail(user, homeUrl);
+  }
+
   private _wrapEvent<Name extends keyof INotifierMethods>(methodName: Name): INotifier[Name] {
     return async (...args: any[]) => {
       this._callPrimary(methodName, ...args)
@@ -184,6 +184,23 @@ export class MinIOExternalStorage implements ExternalStorage {
       }));
   }
 
+  // Object metadata can't change, so the pinned state of a version is kept in its tags instead,
+  // alongside any other tags it may have.
+  public async setVersionMetadata(key: string, snapshotId: string, metadata: Pick<ObjMetadata, 'pinned'>) {
+    const tags = await this._getTags(key, snapshotId);
+    if (metadata.pinned) { tags.pinned = 'true'; } else { delete tags.pinned; }
+    if (Object.keys(tags).length > 0) {
+      await this._s3.setObjectTagging(this.bucket, key, tags, {versionId: snapshotId});
+    } else {
+      await this._s3.removeObjectTagging(this.bucket, key, {versionId: snapshotId});
+    }
+  }
+
+  public async getVersionMetadata(key: string, snapshotId: string): Promise<Pick<ObjMetadata, 'pinned'>> {
+    const {pinned} = toGristMetadata(await this._getTags(key, snapshotId));
+    return pinned ? {pinned} : {};
+  }
+
   public url(key: string) {
     return `minio://${this.bucket}/${key}`;
   }
@@ -216,6 +233,11 @@ export class MinIOExternalStorage implements ExternalStorage {
     await this._deleteVersions(key, vs.map(v => v.snapshotId));
   }
 
+  private async _getTags(key: string, snapshotId: string): Promise<Record<string, string>> {
+    const tags = await this._s3.getObjectTagging(this.bucket, key, {versionId: snapshotId});
+    return Object.fromEntries(tags.map(tag => [tag.Key, tag.Value]));
+  }
+
   // Delete a batch of versions for an object.
   private async _deleteVersions(key: string, versions: Array<string | undefined>) {
     return this._deleteObjects(
@@ -1,9 +1,10 @@
 import { ALL_PERMISSION_PROPS, emptyPermissionSet,
          makePartialPermissions, mergePartialPermissions, mergePermissions,
-         MixedPermissionSet, PartialPermissionSet, PermissionSet, TablePermissionSet,
-         toMixed } from 'app/common/ACLPermissions';
+         MixedPermissionSet, PartialPermissionSet, PartialPermissionValue, PermissionKey,
+         PermissionSet, TablePermissionSet, toMixed } from 'app/common/ACLPermissions';
 import { ACLRuleCollection } from 'app/common/ACLRuleCollection';
-import { RuleSet } from 'app/common/GranularAccessClause';
+import { AclSimulationStep } from 'app/common/ActiveDocAPI';
+import { RulePart, RuleSet } from 'app/common/GranularAccessClause';
 import { PredicateFormulaInput } from 'app/common/PredicateFormula';
 import { User } from 'app/common/User';
 import { getSetMapValue } from 'app/common/gutil';
@@ -202,20 +203,69 @@ export class PermissionInfo extends RuleInfo<MixedPermissionSet, TablePermission
   }
 }
 
+/**
+ * Lists the rules considered for a resource, in order, with the outcome of each and the
+ * permissions settled so far. Rules are evaluated by the same code as in PermissionInfo, so
+ * that this explains the permissions it returns. Used to simulate access rules.
+ */
+export class RuleTraceInfo extends RuleInfo<AclSimulationStep[], AclSimulationStep[]> {
+  protected _processRule(ruleSet: RuleSet, defaultAccess?: () => AclSimulationStep[]): AclSimulationStep[] {
+    const steps: AclSimulationStep[] = [];
+    const pset = evaluateRule(ruleSet, this._input, (rule, outcome, permissions) => {
+      const prev = steps.length ? steps[steps.length - 1].permissions : emptyPermissionSet();
+      steps.push({
+        resource: {tableId: ruleSet.tableId, colIds: ruleSet.colIds === '*' ? '*' : ruleSet.colIds.join(',')},
+        aclFormula: rule.aclFormula,
+        permissionsText: rule.permissionsText,
+        ...(rule.memo ? {memo: rule.memo} : {}),
+        ...outcome,
+        decides: getSettledBits(prev, permissions),
+        permissions,
+      });
+    });
+    for (const step of defaultAccess?.() || []) {
+      const permissions = mergePartialPermissions(pset, step.permissions);
+      const prev = steps[steps.length - 1]?.permissions || emptyPermissionSet();
+      steps.push({...step, decides: getSettledBits(prev, permissions), permissions});
+    }
+    return steps;
+  }
+
+  protected _mergeTableAccess(access: AclSimulationStep[][]): AclSimulationStep[] {
+    return access.flat();
+  }
+
+  protected _mergeFullAccess(access: AclSimulationStep[][]): AclSimulationStep[] {
+    return access.flat();
+  }
+}
+
+// Returns the bits that are final in `after` but weren't in `before`. Bits that are allowSome
+// or denySome aren't final, since later rules may still change them.
+function getSettledBits(before: PartialPermissionSet, after: PartialPermissionSet): PermissionKey[] {
+  const isFinal = (bit: PartialPermissionValue) => (bit === 'allow' || bit === 'deny' || bit === 'mixed');
+  return ALL_PERMISSION_PROPS.filter(prop => isFinal(after[prop]) && !isFinal(before[prop]));
+}
+
 /**
  * Evaluate a RuleSet on a given input (user and optionally record). If a record is needed but not
  * included, the result may include permission values like 'allowSome', 'denySome', or 'mixed' (for
  * rules with memo).
  */
-function evaluateRule(ruleSet: RuleSet, input: PredicateFormulaInput): PartialPermissionSet {
+function evaluateRule(ruleSet: RuleSet, input: PredicateFormulaInput,
+                      onRule?: RuleCallback): PartialPermissionSet {
   let pset: PartialPermissionSet = emptyPermissionSet();
   for (const rule of ruleSet.body) {
+    let outcome: RuleOutcome;
     try {
-      if (rule.matchFunc!(input)) {
+      const matched = rule.matchFunc!(input);
+      if (matched) {
         pset = mergePartialPermissions(pset, rule.permissions);
       }
+      outcome = {result: Boolean(matched)};
     } catch (e) {
       if (e.code === 'NEED_ROW_DATA') {
+        outcome = {result: 'needsRow'};
         pset = mergePartialPermissions(pset, makePartialPermissions(rule.permissions));
         if (rule.memo) {
           // Quick reminder:
@@ -260,12 +310,23 @@ function evaluateRule(ruleSet: RuleSet, input: PredicateFormulaInput): PartialPe
         pset = mergePartialPermissions(pset, mapValues(rule.permissions, val => (val === 'allow' ? "" : val)));
         const prefixedTableName = input.docId ? `${input.docId}.${ruleSet.tableId}` : ruleSet.tableId;
         log.warn("ACLRule for %s (`%s`) failed: %s", prefixedTableName, rule.aclFormula, e.message);
+        outcome = {result: 'error', error: e.message};
       }
     }
+    onRule?.(rule, outcome, pset);
   }
   return pset;
 }
 
+// How a single rule was evaluated by evaluateRule(), for explaining the result.
+interface RuleOutcome {
+  result: AclSimulationStep['result'];
+  error?: string;
+}
+
+// Called by evaluateRule() after each rule, with the permissions of the RuleSet so far.
+type RuleCallback = (rule: RulePart, outcome: RuleOutcome, pset: PartialPermissionSet) => void;
+
 /**
  * If a rule has a memo, and passes, add that memo for all permissions it denies.
  * If a rule has a memo, and fails, add that memo for all permissions it allows.
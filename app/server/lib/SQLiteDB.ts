@@ -205,7 +205,8 @@ export class SQLiteDB implements ISQLiteDB {
   public static async openDBRaw(dbPath: string,
                                 mode: OpenMode = OpenMode.OPEN_CREATE): Promise<SQLiteDB> {
     const minDb: MinDB = await getVariant().opener(dbPath, mode);
-    if (SQLiteDB._addOpens(dbPath, 1) > 1) {
+    // In-memory databases are distinct each time they are opened.
+    if (SQLiteDB._addOpens(dbPath, 1) > 1 && dbPath !== ':memory:') {
       log.warn("SQLiteDB[%s] avoid opening same DB more than once", dbPath);
     }
     return new SQLiteDB(minDb, dbPath);
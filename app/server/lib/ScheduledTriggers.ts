@@ -0,0 +1,82 @@
+import {DocManager} from 'app/server/lib/DocManager';
+import {makeExceptionalDocSession} from 'app/server/lib/DocSession';
+import {IDocWorkerMap} from 'app/server/lib/DocWorkerMap';
+import {GristJob, GristJobs, scheduledTriggersQueue} from 'app/server/lib/GristJobs';
+import log from 'app/server/lib/log';
+
+/**
+ * A run of a scheduled webhook, as queued on the scheduledTriggersQueue.
+ */
+export interface ScheduledRun {
+  docId: string;
+  webhookId: string;
+  // When the run is due, in ms since epoch.
+  runAt: number;
+  // Number of times the run was queued again, because it wasn't due yet or because the
+  // document was open on another doc worker.
+  requeues?: number;
+}
+
+// Runs are queued at most this far ahead, and queued again when that time comes if they aren't
+// due yet. Without Redis, runs are kept in timers, which can't wait longer than about 24 days.
+const MAX_JOB_DELAY_MS = 7 * 24 * 60 * 60 * 1000;
+
+// When a run is picked up by a doc worker that isn't responsible for its document, it is queued
+// again after this delay, in the hope that the right worker picks it up.
+const REQUEUE_DELAY_MS = 30 * 1000;
+
+// Runs that couldn't be performed within this time after they were due are dropped.
+const MAX_RUN_LATENESS_MS = 15 * 60 * 1000;
+
+/**
+ * Queues a run of a scheduled webhook. The initial job for a run is identified by the document,
+ * webhook and due time, so queuing the same run again (e.g. each time the document loads) has no
+ * effect with Redis, and replaces the pending timer without it.
+ */
+export async function queueScheduledRun(jobs: GristJobs, run: ScheduledRun, delayMs?: number) {
+  const {docId, webhookId, runAt, requeues} = run;
+  const delay = Math.min(delayMs ?? Math.max(runAt - Date.now(), 1), MAX_JOB_DELAY_MS);
+  await jobs.queue(scheduledTriggersQueue).add('run', run, {
+    delay,
+    jobId: [docId, webhookId, runAt, ...(requeues ? [requeues] : [])].join(':'),
+  });
+}
+
+/**
+ * Performs runs of scheduled webhooks on a doc worker. Runs are queued by DocTriggers when
+ * documents load and after each run. With Redis, they survive restarts of doc workers, and any
+ * doc worker may pick them up; the document is then opened by the worker responsible for it,
+ * if it isn't open already.
+ */
+export class ScheduledTriggers {
+  constructor(private _jobs: GristJobs, private _docManager: DocManager,
+              private _docWorkerMap: IDocWorkerMap, private _workerId: string) {
+    this._jobs.queue(scheduledTriggersQueue).handleDefault(job => this._handleJob(job));
+  }
+
+  private async _handleJob(job: GristJob) {
+    const run: ScheduledRun = job.data;
+    const {docId, webhookId, runAt} = run;
+    const requeue = (delayMs?: number) =>
+      queueScheduledRun(this._jobs, {...run, requeues: (run.requeues ?? 0) + 1}, delayMs);
+    try {
+      if (runAt > Date.now()) {
+        // Not due yet, because the wait was longer than MAX_JOB_DELAY_MS.
+        return await requeue();
+      }
+      if (Date.now() - runAt > MAX_RUN_LATENESS_MS) {
+        log.warn('ScheduledTriggers: dropping late run', {docId, webhookId, runAt});
+        return;
+      }
+      const status = await this._docWorkerMap.getDocWorkerOrAssign(docId, this._workerId);
+      if (status.docWorker.id !== this._workerId) {
+        return await requeue(REQUEUE_DELAY_MS);
+      }
+      const activeDoc = await this._docManager.fetchDoc(makeExceptionalDocSession('system'), docId);
+      await activeDoc.waitForInitialization();
+      await activeDoc.triggers.runSchedule(webhookId, runAt);
+    } catch (e) {
+      log.error('ScheduledTriggers: run failed', {docId, webhookId, runAt, error: String(e)});
+    }
+  }
+}
@@ -196,6 +196,7 @@ export class Sharing {
       actionGroup.actionSummary = actionSummary;
       await accessControl.appliedBundle();
       await accessControl.sendDocUpdateForBundle(actionGroup, this._activeDoc.getDocUsageSummary());
+      await this._activeDoc.changeFeed.publish(localActionBundle.actionNum, accessControl);
       await this._activeDoc.notifySubscribers(docSession, accessControl);
       // If the action was rejected, throw an exception, by this point data-engine should be in
       // sync with the database, and everyone should have the same view of the document.
@@ -0,0 +1,385 @@
+import {ApiError} from 'app/common/ApiError';
+import {EmailTemplate, EmailTemplates} from 'app/common/Config';
+import {isFreePlan} from 'app/common/Features';
+import {FullUser} from 'app/common/LoginSessionAPI';
+import * as roles from 'app/common/roles';
+import {BillingAccount} from 'app/gen-server/entity/BillingAccount';
+import {Document} from 'app/gen-server/entity/Document';
+import {Organization} from 'app/gen-server/entity/Organization';
+import {User} from 'app/gen-server/entity/User';
+import {Workspace} from 'app/gen-server/entity/Workspace';
+import {HomeDBManager, UserChange, UserIdDelta} from 'app/gen-server/lib/homedb/HomeDBManager';
+import {
+  DocNotificationEvent,
+  DocNotificationTemplateBase,
+  SendGridInviteResourceKind,
+  SendGridInviteTemplate,
+  SendGridMemberChangeTemplate,
+  TemplateName,
+  TwoFactorEvent,
+} from 'app/gen-server/lib/NotifierTypes';
+import {appSettings} from 'app/server/lib/AppSettings';
+import {GristServer} from 'app/server/lib/GristServer';
+import {INotifier} from 'app/server/lib/INotifier';
+import log from 'app/server/lib/log';
+import {getAppPathTo, getAppRoot} from 'app/server/lib/places';
+import * as fse from 'fs-extra';
+import * as handlebars from 'handlebars';
+import upperFirst from 'lodash/upperFirst';
+import * as nodemailer from 'nodemailer';
+import addressparser from 'nodemailer/lib/addressparser';
+import * as path from 'path';
+
+const smtpSection = appSettings.section('notifications').section('smtp');
+const emailSection = appSettings.section('notifications').section('email');
+
+/**
+ * Name of an email template: one per kind of notification, plus the test email sent from the
+ * admin panel.
+ */
+export type EmailTemplateName = TemplateName | 'testEmail';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Whether to use TLS from the start (usually on port 465). Otherwise STARTTLS is used when the
+  // server supports it.
+  secure: boolean;
+  username?: string;
+  password?: string;
+  // Sender of the emails, e.g. "Grist <noreply@example.com>".
+  from: string;
+}
+
+/**
+ * Returns the SMTP configuration set through GRIST_SMTP_* variables, or undefined if
+ * GRIST_SMTP_HOST is not set.
+ */
+export function getSmtpConfig(): SmtpConfig|undefined {
+  const host = smtpSection.flag('host').readString({envVar: 'GRIST_SMTP_HOST'});
+  if (!host) { return undefined; }
+  const secure = smtpSection.flag('secure').readBool({envVar: 'GRIST_SMTP_SECURE', defaultValue: false})!;
+  return {
+    host,
+    port: smtpSection.flag('port').requireInt({
+      envVar: 'GRIST_SMTP_PORT',
+      defaultValue: secure ? 465 : 587,
+      minValue: 1,
+      maxValue: 65535,
+    }),
+    secure,
+    username: smtpSection.flag('username').readString({envVar: 'GRIST_SMTP_USERNAME'}),
+    password: smtpSection.flag('password').readString({envVar: 'GRIST_SMTP_PASSWORD', censor: true}),
+    from: emailSection.flag('from').requireString({
+      envVar: 'GRIST_EMAIL_FROM',
+      defaultValue: `Grist <noreply@${getDefaultSenderDomain()}>`,
+    }),
+  };
+}
+
+function getDefaultSenderDomain() {
+  try {
+    return new URL(process.env.APP_HOME_URL || '').hostname || 'localhost';
+  } catch (e) {
+    return 'localhost';
+  }
+}
+
+/**
+ * Returns the directory with email templates that take precedence over the default ones, if
+ * set through GRIST_EMAIL_TEMPLATES_DIR.
+ */
+export function getEmailTemplatesDir(): string|undefined {
+  return emailSection.flag('templatesDir').readString({envVar: 'GRIST_EMAIL_TEMPLATES_DIR'});
+}
+
+interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Renders the templates of notification emails. Each template has a subject, an HTML body and a
+ * plain text body, which are Handlebars templates rendered with the same data as the
+ * corresponding SendGrid dynamic templates.
+ *
+ * Templates are looked up, for each of their parts, in the recipient's locale (e.g. "fr-FR"),
+ * then its language ("fr"), then "en", and for each locale in this order:
+ *  - the "email_templates" install config in the home database, set through
+ *    /api/install/configs/email_templates;
+ *  - <locale>.json files in the directory set by GRIST_EMAIL_TEMPLATES_DIR;
+ *  - <locale>.json files in static/email-templates.
+ *
+ * Templates are read on each use, so that edits take effect without restarting the server.
+ */
+export class EmailTemplateRenderer {
+  private _handlebars = handlebars.create();
+
+  constructor(private _dbManager: HomeDBManager) {}
+
+  public async render(name: EmailTemplateName, locale: string|undefined, data: object): Promise<RenderedEmail> {
+    const template = await this.getTemplate(name, locale);
+    return {
+      subject: this._compile(template.subject, true)(data).trim(),
+      html: this._compile(template.html, false)(data),
+      text: this._compile(template.text, true)(data),
+    };
+  }
+
+  public async getTemplate(name: EmailTemplateName, locale: string|undefined): Promise<Required<EmailTemplate>> {
+    const locales = getLocaleCandidates(locale);
+    const sources = [
+      await this._readConfigTemplates(),
+      ...await Promise.all(locales.map(loc => readTemplatesFile(getEmailTemplatesDir(), loc))),
+      ...await Promise.all(locales.map(loc => readTemplatesFile(getDefaultTemplatesDir(), loc))),
+    ];
+    const findPart = (part: keyof EmailTemplate, candidates: Array<EmailTemplates|undefined>) => {
+      for (const loc of locales) {
+        for (const templates of candidates) {
+          const value = templates?.[loc]?.[name]?.[part];
+          if (typeof value === 'string') { return value; }
+        }
+      }
+      return undefined;
+    };
+    const subject = findPart('subject', sources);
+    const html = findPart('html', sources);
+    const text = findPart('text', sources);
+    if (subject === undefined || (html === undefined && text === undefined)) {
+      throw new Error(`No email template found for ${name}`);
+    }
+    return {subject, html: html ?? '', text: text ?? ''};
+  }
+
+  private async _readConfigTemplates(): Promise<EmailTemplates|undefined> {
+    const result = await this._dbManager.getInstallConfig('email_templates');
+    return result.data?.value as EmailTemplates|undefined;
+  }
+
+  private _compile(source: string, noEscape: boolean) {
+    return this._handlebars.compile(source, {noEscape});
+  }
+}
+
+function getDefaultTemplatesDir() {
+  return path.join(getAppPathTo(getAppRoot(), 'static'), 'email-templates');
+}
+
+/**
+ * Reads the templates of `locale` from `<dir>/<locale>.json`, returning them keyed by locale,
+ * like in the "email_templates" install config.
+ */
+async function readTemplatesFile(dir: string|undefined, locale: string): Promise<EmailTemplates|undefined> {
+  if (!dir) { return undefined; }
+  const file = path.join(dir, `${locale}.json`);
+  if (!await fse.pathExists(file)) { return undefined; }
+  return {[locale]: await fse.readJson(file)};
+}
+
+function getLocaleCandidates(locale: string|undefined): string[] {
+  // Locales end up in file names, so ignore anything unexpected.
+  const candidates = locale && /^[a-zA-Z0-9_-]+$/.test(locale) ? [locale, locale.split(/[-_]/)[0]] : [];
+  return [...new Set([...candidates, 'en'])];
+}
+
+/**
+ * An INotifier that sends notification emails through an SMTP server, for installations that
+ * don't use SendGrid. It is used when GRIST_SMTP_HOST is set.
+ *
+ * Invitations, billing emails, two-factor authentication alerts and document notifications are
+ * sent; other events have nothing to deliver.
+ */
+export class SmtpNotifier implements INotifier {
+  private _transport: nodemailer.Transporter;
+  private _senderAddress: string;
+  private _templates = new EmailTemplateRenderer(this._dbManager);
+
+  constructor(
+    private _dbManager: HomeDBManager,
+    private _gristServer: GristServer,
+    private _config: SmtpConfig,
+  ) {
+    this._transport = nodemailer.createTransport({
+      host: _config.host,
+      port: _config.port,
+      secure: _config.secure,
+      auth: _config.username ? {user: _config.username, pass: _config.password} : undefined,
+    });
+    this._senderAddress = addressparser(_config.from, {flatten: true})[0]?.address ?? _config.from;
+  }
+
+  public async addUser(
+    userId: number,
+    resource: Organization|Workspace|Document,
+    delta: UserIdDelta,
+    membersBefore: Map<roles.NonGuestRole, User[]>
+  ) {
+    const previousMemberIds = new Set([...membersBefore.values()].flat().map(user => user.id));
+    const specialUserIds = new Set(this._dbManager.getSpecialUserIds());
+    const addedUsers = Object.entries(delta)
+      .map(([id, role]) => ({id: Number(id), role}))
+      .filter(({id, role}) => role && id !== userId && !previousMemberIds.has(id) && !specialUserIds.has(id));
+    if (addedUsers.length === 0) { return; }
+
+    const host = await this._dbManager.getFullUser(userId);
+    const inviteResource = await this._getInviteResource(resource);
+    for (const {id, role} of addedUsers) {
+      const user = await this._dbManager.getFullUser(id);
+      const data: SendGridInviteTemplate = {
+        type: 'invite',
+        user,
+        host,
+        resource: inviteResource,
+        access: {
+          role: role!,
+          canEditAccess: roles.canEditAccess(role),
+          canEdit: roles.canEdit(role),
+          canView: roles.canView(role),
+        },
+      };
+      await this._sendToUser(user, 'invite', data);
+    }
+  }
+
+  public async addBillingManager(hostUserId: number, addUserId: number, orgs: Organization[]) {
+    if (orgs.length === 0 || hostUserId === addUserId) { return; }
+    const host = await this._dbManager.getFullUser(hostUserId);
+    const user = await this._dbManager.getFullUser(addUserId);
+    const org = orgs[0];
+    const data: SendGridInviteTemplate = {
+      type: 'billingManagerInvite',
+      user,
+      host,
+      resource: {
+        ...await this._getInviteResource(org),
+        url: await this._getBillingUrl(org),
+      },
+      access: {role: 'billing manager', canManageBilling: true},
+    };
+    await this._sendToUser(user, 'billingManagerInvite', data);
+  }
+
+  public async userChange(change: UserChange) {
+    const {userId, org, countBefore, countAfter, membersBefore, membersAfter} = change;
+    if (countBefore === countAfter) { return; }
+    const account = await this._dbManager.getFullBillingAccount(org.billingAccount.id);
+    // Only paid plans are billed by the number of members.
+    if (isFreePlan(account.product.name)) { return; }
+
+    const usersBefore = new Map([...membersBefore.values()].flat().map(user => [user.id, user]));
+    const usersAfter = new Map([...membersAfter.values()].flat().map(user => [user.id, user]));
+    const toFullUsers = (users: User[]) => users.map(user => this._dbManager.makeFullUser(user));
+    const orgUrl = await this._gristServer.getResourceUrl(org);
+    const data: SendGridMemberChangeTemplate = {
+      type: 'memberChange',
+      initiatingUser: await this._dbManager.getFullUser(userId),
+      added: toFullUsers([...usersAfter.values()].filter(user => !usersBefore.has(user.id))),
+      removed: toFullUsers([...usersBefore.values()].filter(user => !usersAfter.has(user.id))),
+      org: {id: org.id, name: org.name},
+      countBefore,
+      countAfter,
+      orgUrl,
+      billingUrl: await this._getBillingUrl(org),
+      paidPlan: true,
+    };
+    await this._sendToBillingManagers(account, 'memberChange', data);
+  }
+
+  public async trialPeriodEndingSoon(account: BillingAccount, subscription: {trial_end: number|null}) {
+    if (!subscription.trial_end) { return; }
+    const fullAccount = await this._dbManager.getFullBillingAccount(account.id);
+    const org = fullAccount.orgs[0];
+    if (!org) { return; }
+    await this._sendToBillingManagers(fullAccount, 'trialPeriodEndingSoon', {
+      org: {id: org.id, name: org.name},
+      orgUrl: await this._gristServer.getResourceUrl(org),
+      billingUrl: await this._getBillingUrl(org),
+      trialEnd: new Date(subscription.trial_end * 1000).toDateString(),
+    });
+  }
+
+  public async twoFactorStatusChanged(event: TwoFactorEvent, userId: number, method?: 'TOTP'|'SMS') {
+    const user = await this._dbManager.getFullUser(userId);
+    await this._sendToUser(user, event, {
+      user,
+      method: method === 'SMS' ? 'SMS' : method === 'TOTP' ? 'authenticator app' : '',
+    });
+  }
+
+  public async docNotification(
+    event: DocNotificationEvent, userId: number, templateData: DocNotificationTemplateBase
+  ) {
+    const user = await this._dbManager.getFullUser(userId);
+    await this._sendToUser(user, event, {user, ...templateData}, {
+      // Show who made the changes in the "From" field, keeping the configured address.
+      senderName: templateData.senderAuthorName ?? undefined,
+    });
+  }
+
+  public async sendTestEmail(user: FullUser, homeUrl: string) {
+    try {
+      await this._sendEmail(user, 'testEmail', {user, homeUrl});
+    } catch (e) {
+      throw new ApiError(`Failed to send test email: ${e.message}`, 500);
+    }
+  }
+
+  // Nothing to deliver for these events.
+  public async firstLogin() {}
+  public async teamCreator() {}
+  public async trialingSubscription() {}
+  public async scheduledCall() {}
+  public async streamingDestinationsChange() {}
+  public async deleteUser() {}
+
+  private async _sendToBillingManagers(account: BillingAccount, name: EmailTemplateName, data: object) {
+    for (const manager of account.managers) {
+      await this._sendToUser(this._dbManager.makeFullUser(manager.user), name, data);
+    }
+  }
+
+  /**
+   * Sends an email, logging rather than throwing on failure. Notifications are sent once the
+   * change that prompted them is done, and a mail outage shouldn't make that change fail.
+   */
+  private async _sendToUser(
+    user: FullUser, name: EmailTemplateName, data: object, options: {senderName?: string} = {}
+  ) {
+    try {
+      await this._sendEmail(user, name, data, options);
+    } catch (e) {
+      log.warn(`SmtpNotifier: failed to send ${name} email to user ${user.id}: ${e.message}`);
+    }
+  }
+
+  private async _sendEmail(
+    user: FullUser, name: EmailTemplateName, data: object, options: {senderName?: string} = {}
+  ) {
+    const {subject, html, text} = await this._templates.render(name, user.locale ?? undefined, data);
+    const from = options.senderName ? {name: options.senderName, address: this._senderAddress} : this._config.from;
+    await this._transport.sendMail({
+      from,
+      to: {name: user.name, address: user.email},
+      subject,
+      html: html || undefined,
+      text: text || undefined,
+    });
+    log.debug(`SmtpNotifier: sent ${name} email to user ${user.id}`);
+  }
+
+  private async _getInviteResource(resource: Organization|Workspace|Document) {
+    const kind: SendGridInviteResourceKind = resource instanceof Organization ? 'team site' :
+      resource instanceof Workspace ? 'workspace' : 'document';
+    return {
+      kind,
+      kindUpperFirst: upperFirst(kind),
+      name: resource.name,
+      url: await this._gristServer.getResourceUrl(resource),
+    };
+  }
+
+  private async _getBillingUrl(org: Organization) {
+    return new URL('billing', await this._gristServer.getResourceUrl(org)).href;
+  }
+}
@@ -1,15 +1,20 @@
 import {LocalActionBundle} from 'app/common/ActionBundle';
 import {summarizeAction} from 'app/common/ActionSummarizer';
-import {ActionSummary, TableDelta} from 'app/common/ActionSummary';
+import {ActionSummary, LabelDelta, TableDelta} from 'app/common/ActionSummary';
 import {ApiError} from 'app/common/ApiError';
 import {MapWithTTL} from 'app/common/AsyncCreate';
 import {WebhookMessageType} from "app/common/CommTypes";
 import {fromTableDataAction, RowRecord, TableColValues, TableDataAction} from 'app/common/DocActions';
+import {CronSchedule} from 'app/common/CronSchedule';
+import {isHiddenCol} from 'app/common/gristTypes';
 import {StringUnion} from 'app/common/StringUnion';
 import {MetaRowRecord} from 'app/common/TableData';
 import {CellDelta} from 'app/common/TabularDiff';
 import {
   WebhookBatchStatus,
+  WebhookEventType,
+  WebhookPayloadTemplate,
+  WebhookSchedule,
   WebhookStatus,
   WebhookSummary,
   WebhookSummaryCollection,
@@ -18,12 +23,15 @@ import {
 import {decodeObject} from 'app/plugin/objtypes';
 import {ActiveDoc} from 'app/server/lib/ActiveDoc';
 import {makeExceptionalDocSession} from 'app/server/lib/DocSession';
+import {GristServer} from 'app/server/lib/GristServer';
 import log from 'app/server/lib/log';
 import {fetchUntrustedWithAgent} from 'app/server/lib/ProxyAgent';
 import {matchesBaseDomain} from 'app/server/lib/requestUtils';
+import {queueScheduledRun} from 'app/server/lib/ScheduledTriggers';
 import {delayAbort} from 'app/server/lib/serverUtils';
 import {LogSanitizer} from "app/server/utils/LogSanitizer";
 import {promisifyAll} from 'bluebird';
+import * as crypto from 'crypto';
 import * as _ from 'lodash';
 import {AbortController, AbortSignal} from 'node-abort-controller';
 import {createClient, Multi, RedisClient} from 'redis';
@@ -58,20 +66,55 @@ interface PythonAction {
 }
 
 interface WebHookEvent {
-  payload: RowRecord;
+  payload: RowRecord|SchemaPayload;
   id: string;
+  // Missing for events queued before event types were recorded, which were all "add" or "update".
+  // Records sent by a scheduled run of the webhook are "scheduled" events.
+  eventType?: WebhookEventType|"scheduled";
+  // When the event was generated, in ms since epoch. Used for time-window batching.
+  queuedAt?: number;
 }
 
-export const allowedEventTypes = StringUnion("add", "update");
+// Payload of a "schema" event, describing the watched table after the change.
+export interface SchemaPayload {
+  tableId: string;
+  // Renames of the table itself, as [before, after] pairs.
+  tableRenames: LabelDelta[];
+  // Columns added ([null, colId]), removed ([colId, null]) or renamed ([before, after]).
+  columnRenames: LabelDelta[];
+  columns: Array<{id: string, type: string, label: string, isFormula: boolean}>;
+}
+
+export const allowedEventTypes = StringUnion("add", "update", "remove", "schema");
 
 type EventType = typeof allowedEventTypes.type;
 
+// Name of the header telling receivers which kinds of events a batch contains.
+const EVENT_TYPE_HEADER = 'X-Grist-Event-Type';
+
+// Name of the header with the timestamped signature of a payload (see getWebhookSignature).
+const SIGNATURE_HEADER = 'X-Grist-Signature';
+
 type Trigger = MetaRowRecord<"_grist_Triggers">;
 
+// Settings of a trigger that have no dedicated column, stored as JSON in its "options" column.
+export interface TriggerOptions {
+  payloadTemplate?: WebhookPayloadTemplate;
+  schedule?: WebhookSchedule;
+}
+
 export interface WebHookSecret {
   url: string;
   unsubscribeKey: string;
   authorization?: string;
+  // Key used to sign payloads. Missing for webhooks created before signing was supported,
+  // until the secret is regenerated.
+  signingSecret?: string;
+  // Key replaced by the last regeneration of signingSecret. It keeps being used to sign
+  // payloads until previousSigningSecretExpiresAt (in ms since epoch), to give receivers
+  // time to switch to the new one.
+  previousSigningSecret?: string;
+  previousSigningSecretExpiresAt?: number;
 }
 
 // Work to do after fetching values from the document
@@ -85,6 +128,12 @@ interface Task {
 const MAX_QUEUE_SIZE =
   process.env.GRIST_MAX_QUEUE_SIZE ? parseInt(process.env.GRIST_MAX_QUEUE_SIZE, 10) : 1000;
 
+// Default and maximum number of records sent in a single request.
+export const MAX_BATCH_SIZE = 100;
+
+// Maximum time to wait for more events before sending a request that isn't full yet.
+export const MAX_BATCH_WINDOW_MS = 60_000;
+
 const WEBHOOK_CACHE_TTL = 10_000;
 
 const WEBHOOK_STATS_CACHE_TTL = 1000 /*s*/ * 60 /*m*/ * 24/*h*/;
@@ -96,6 +145,11 @@ const TRIGGER_WAIT_DELAY =
 const TRIGGER_MAX_ATTEMPTS =
   process.env.GRIST_TRIGGER_MAX_ATTEMPTS ? parseInt(process.env.GRIST_TRIGGER_MAX_ATTEMPTS, 10) : 20;
 
+// How long the previous signing secret of a webhook remains valid after regenerating it.
+export const SIGNING_SECRET_GRACE_PERIOD_MS =
+  process.env.GRIST_WEBHOOK_SIGNING_SECRET_GRACE_PERIOD_MS ?
+    parseInt(process.env.GRIST_WEBHOOK_SIGNING_SECRET_GRACE_PERIOD_MS, 10) : 24 * 60 * 60 * 1000;
+
 // Processes triggers for records changed as described in action bundles.
 // initiating webhooks and automations.
 // The interesting stuff starts in the handle() method.
@@ -133,10 +187,13 @@ export class DocTriggers {
   // Abort controller for the loop that sends webhooks.
   private _loopAbort: AbortController|undefined;
 
+  // Due time of the last run of each scheduled webhook, to avoid repeating a run that was queued twice.
+  private _lastScheduledRuns = new Map<string, number>();
+
   private _stats: WebhookStatistics;
   private _sanitizer = new LogSanitizer();
 
-  constructor(private _activeDoc: ActiveDoc) {
+  constructor(private _activeDoc: ActiveDoc, private _server: GristServer) {
     const redisUrl = process.env.REDIS_URL;
     if (redisUrl) {
       // We create a transient client just for this purpose because it makes it easy
@@ -180,6 +237,7 @@ export class DocTriggers {
     // First we need a list of columns which must be included in full in the action summary
     const isReadyColIds: string[] = [];
     let hasWatchedCols = false;
+    let hasRemoveEvents = false;
     for (const tableRef of Object.keys(triggersByTableRef).sort()) {
       const triggers = triggersByTableRef[tableRef];
       const tableId = getTableId(Number(tableRef))!;  // groupBy makes tableRef a string
@@ -194,24 +252,30 @@ export class DocTriggers {
         if (trigger.watchedColRefList) {
           hasWatchedCols = true;
         }
+        if (triggerHasEventType(trigger, "remove")) {
+          hasRemoveEvents = true;
+        }
       }
     }
 
     const summary = summarizeAction(localActionBundle, {
       // Unset the default limit (10) for row deltas if there are any watched
       // columns; full row deltas are needed to determine which columns were
-      // modified.
+      // modified. The same goes for "remove" events, which carry the last-known
+      // values of removed records, only available from the summary.
       // TODO: find a better solution (maybe a field like `updateColumns`
       // in the summary, containing only the IDs of modified columns).
-      maximumInlineRows: hasWatchedCols ? null : undefined,
+      maximumInlineRows: (hasWatchedCols || hasRemoveEvents) ? null : undefined,
       alwaysPreserveColIds: isReadyColIds,
     });
 
     // Work to do after fetching values from the document
     const tasks: Task[] = [];
+    const events: WebHookEvent[] = [];
 
     // For each table in the document which is monitored by one or more triggers...
     for (const [tableId, triggers] of triggersByTableId) {
+      events.push(...this._getSchemaEvents(summary, tableId, triggers));
       const tableDelta = summary.tableDeltas[tableId];
       // ...if the monitored table was modified by the summarized actions,
       // fetch the modified/created records and note the work that needs to be done.
@@ -230,26 +294,20 @@ export class DocTriggers {
     // Fetch values from document DB in parallel
     await Promise.all(tasks.map(t => t.tableDataAction));
 
-    const events: WebHookEvent[] = [];
     for (const task of tasks) {
       events.push(...this._handleTask(task, await task.tableDataAction));
     }
+
+    // Schedules may have been added or changed.
+    if (summary.tableDeltas._grist_Triggers) {
+      this.scheduleAll().catch(e => this._log(`Failed to schedule webhooks: ${e}`, {level: 'warn'}));
+    }
+
     if (!events.length) {
       return summary;
     }
     this._log("Total number of webhook events generated by bundle", {numEvents: events.length});
-
-    // Only add events to the queue after we finish fetching the backup from redis
-    // to ensure that events are delivered in the order they were generated.
-    await this._getRedisQueuePromise;
-
-    if (this._redisClient) {
-      await this._pushToRedisQueue(events);
-    }
-
-    this._webHookEventQueue.push(...events);
-
-    this._startSendLoop();
+    await this._pushEvents(events);
 
     // Prevent further document activity while the queue is too full.
     while (this._drainingQueue && !this._shuttingDown) {
@@ -272,6 +330,7 @@ export class DocTriggers {
     const getColId = docData.getMetaTable("_grist_Tables_column").getRowPropFunc("colId");
     const getUrl = async (id: string) => (await this._getWebHook(id))?.url ?? '';
     const getAuthorization = async (id: string) => (await this._getWebHook(id))?.authorization ?? '';
+    const getSigningSecret = async (id: string) => (await this._getWebHook(id))?.signingSecret ?? '';
     const getUnsubscribeKey = async (id: string) => (await this._getWebHook(id))?.unsubscribeKey ?? '';
     const resultTable: WebhookSummary[] = [];
 
@@ -285,6 +344,7 @@ export class DocTriggers {
         // Url, probably should be hidden for non-owners (but currently this API is owners only).
         const url = await getUrl(act.id);
         const authorization = await getAuthorization(act.id);
+        const signingSecret = await getSigningSecret(act.id);
         // Same story, should be hidden.
         const unsubscribeKey = await getUnsubscribeKey(act.id);
         if (!url || !unsubscribeKey) {
@@ -292,6 +352,7 @@ export class DocTriggers {
           continue;
         }
         const decodedWatchedColRefList = decodeObject(t.watchedColRefList) as number[] || [];
+        const {payloadTemplate, schedule} = getTriggerOptions(t);
         // Report some basic info and usage stats.
         const entry: WebhookSummary = {
           // Id of the webhook
@@ -301,6 +362,7 @@ export class DocTriggers {
             url,
             authorization,
             unsubscribeKey,
+            signingSecret,
             // Other fields used to register this webhook.
             eventTypes: decodeObject(t.eventTypes) as string[],
             isReadyColumn: getColId(t.isReadyColRef) ?? null,
@@ -310,6 +372,8 @@ export class DocTriggers {
             enabled: t.enabled,
             name: t.label,
             memo: t.memo,
+            ...(payloadTemplate ? {payloadTemplate} : {}),
+            ...(schedule ? {schedule} : {}),
           },
           // Create some statics and status info.
           usage: await this._stats.getUsage(act.id, this._webHookEventQueue),
@@ -320,6 +384,70 @@ export class DocTriggers {
     return {webhooks: resultTable};
   }
 
+  /**
+   * Queues the next run of every enabled webhook with a schedule. Called when the document
+   * loads and when triggers change. Queuing a run that is already queued has no effect, and runs
+   * of schedules that have changed since they were queued are skipped (see runSchedule), so it
+   * is safe to call this liberally.
+   */
+  public async scheduleAll() {
+    const triggersTable = this._activeDoc.docData!.getMetaTable("_grist_Triggers");
+    const now = Date.now();
+    for (const trigger of triggersTable.getRecords()) {
+      const {schedule} = getTriggerOptions(trigger);
+      if (!trigger.enabled || !schedule) { continue; }
+      for (const action of getWebhookActions(trigger)) {
+        await this._scheduleNextRun(action.id, schedule, now);
+      }
+    }
+  }
+
+  /**
+   * Performs a run of a scheduled webhook, due at `runAt` (in ms since epoch), then queues the
+   * next one. Runs for webhooks that were removed, disabled, or whose schedule no longer fires
+   * at `runAt` are ignored.
+   */
+  public async runSchedule(webhookId: string, runAt: number) {
+    let trigger: Trigger;
+    try {
+      trigger = this.getWebhookTriggerRecord(webhookId);
+    } catch (e) {
+      this._log("Scheduled webhook not found", {webhookId});
+      return;
+    }
+    const {schedule} = getTriggerOptions(trigger);
+    if (!trigger.enabled || !schedule || runAt <= (this._lastScheduledRuns.get(webhookId) ?? 0) ||
+        !CronSchedule.parse(schedule.cron).matches(runAt, this._getTimezone(schedule))) {
+      return;
+    }
+    this._lastScheduledRuns.set(webhookId, runAt);
+    const tableId = this._getTableId(trigger.tableRef)!;
+    this._log("Running scheduled webhook", {webhookId, tableId, action: schedule.action || 'send'});
+    try {
+      if (schedule.action === 'recalc') {
+        await this._activeDoc.applyUserActions(docSession, [['RecalcTriggerFormulas', tableId]]);
+      } else {
+        const {tableData} = await this._activeDoc.fetchQuery(docSession, {tableId, filters: schedule.filters || {}},
+                                                             true);
+        const bulkColValues = fromTableDataAction(tableData);
+        const isReadyColId = trigger.isReadyColRef ? this._getColId(trigger.isReadyColRef) : null;
+        const events: WebHookEvent[] = _.range(bulkColValues.id.length)
+          // Must be the actual boolean `true`, not just anything truthy
+          .filter(rowIndex => !isReadyColId || bulkColValues[isReadyColId]?.[rowIndex] === true)
+          .map(rowIndex => ({
+            id: webhookId,
+            payload: _.mapValues(bulkColValues, col => col[rowIndex]) as RowRecord,
+            eventType: "scheduled",
+          }));
+        if (events.length) {
+          await this._pushEvents(events);
+        }
+      }
+    } finally {
+      await this._scheduleNextRun(webhookId, schedule, Math.max(runAt, Date.now()));
+    }
+  }
+
   public getWebhookTriggerRecord(webhookId: string) {
     const docData = this._activeDoc.docData!;
     const triggersTable = docData.getMetaTable("_grist_Triggers");
@@ -452,6 +580,35 @@ export class DocTriggers {
     });
   }
 
+  // Adds events to the queue, and makes sure they get sent.
+  private async _pushEvents(events: WebHookEvent[]) {
+    const queuedAt = Date.now();
+    events.forEach(e => e.queuedAt = queuedAt);
+
+    // Only add events to the queue after we finish fetching the backup from redis
+    // to ensure that events are delivered in the order they were generated.
+    await this._getRedisQueuePromise;
+
+    if (this._redisClient) {
+      await this._pushToRedisQueue(events);
+    }
+
+    this._webHookEventQueue.push(...events);
+
+    this._startSendLoop();
+  }
+
+  private async _scheduleNextRun(webhookId: string, schedule: WebhookSchedule, after: number) {
+    const runAt = CronSchedule.parse(schedule.cron).nextRun(after, this._getTimezone(schedule));
+    if (runAt !== null) {
+      await queueScheduledRun(this._server.getJobs(), {docId: this._docId, webhookId, runAt});
+    }
+  }
+
+  private _getTimezone(schedule: WebhookSchedule): string {
+    return schedule.timezone || this._activeDoc.docData!.docInfo().timezone || 'UTC';
+  }
+
   private async _pushToRedisQueue(events: WebHookEvent[]) {
     const strings = events.map(e => JSON.stringify(e));
     try {
@@ -485,9 +642,13 @@ export class DocTriggers {
     tableDelta.addRows.forEach(id =>
       recordDeltas.set(id, {existedBefore: false, existedAfter: true}));
 
-    // If we allow subscribing to deletion in the future
-    // delta.removeRows.forEach(id =>
-    //   recordDeltas.set(id, {existedBefore: true, existedAfter: false}));
+    // Removed rows override updated rows (updated then removed), but not added rows
+    // (removed then added again).
+    tableDelta.removeRows.forEach(id => {
+      if (!tableDelta.addRows.includes(id)) {
+        recordDeltas.set(id, {existedBefore: true, existedAfter: false});
+      }
+    });
 
     return recordDeltas;
   }
@@ -507,8 +668,7 @@ export class DocTriggers {
 
     const result: WebHookEvent[] = [];
     for (const trigger of triggers) {
-      const actions = JSON.parse(trigger.actions) as TriggerAction[];
-      const webhookActions = actions.filter(act => act.type === "webhook") as WebhookAction[];
+      const webhookActions = getWebhookActions(trigger);
       if (!webhookActions.length) {
         continue;
       }
@@ -544,18 +704,29 @@ export class DocTriggers {
       // TODO: would be worth checking that the trigger's fields are valid (ie: eventTypes, url,
       // ...) as there's no guarantee that they are.
 
-      const rowIndexesToSend: number[] = _.range(bulkColValues.id.length).filter(rowIndex => {
-          const rowId = bulkColValues.id[rowIndex];
-          return this._shouldTriggerActions(
-            trigger, bulkColValues, rowIndex, rowId, recordDeltas.get(rowId)!, tableDelta,
-          );
+      const rowsToSend: Array<[number, EventType]> = [];
+      for (const rowIndex of _.range(bulkColValues.id.length)) {
+        const rowId = bulkColValues.id[rowIndex];
+        const eventType = this._getEventType(
+          trigger, bulkColValues, rowIndex, rowId, recordDeltas.get(rowId)!, tableDelta,
+        );
+        if (eventType) {
+          rowsToSend.push([rowIndex, eventType]);
         }
-      );
+      }
+
+      // Removed records can't be fetched from the document anymore, so they are sent
+      // with the values they had before removal, as recorded in the summary.
+      const removedRowIds = triggerHasEventType(trigger, "remove") ?
+        [...recordDeltas.keys()].filter(rowId => !recordDeltas.get(rowId)!.existedAfter &&
+                                                 this._wasReady(trigger, rowId, tableDelta)) : [];
 
       for (const action of webhookActions) {
-        for (const rowIndex of rowIndexesToSend) {
-          const event = {id: action.id, payload: makePayload(rowIndex)};
-          result.push(event);
+        for (const [rowIndex, eventType] of rowsToSend) {
+          result.push({id: action.id, payload: makePayload(rowIndex), eventType});
+        }
+        for (const rowId of removedRowIds) {
+          result.push({id: action.id, payload: getRemovedRecord(tableDelta, rowId), eventType: "remove"});
         }
       }
     }
@@ -566,16 +737,76 @@ export class DocTriggers {
   }
 
   /**
-   * Determines if actions should be triggered for a single record and trigger.
+   * Generates "schema" events for the triggers watching the given table, if the summarized
+   * actions renamed the table, or added, removed, renamed or modified any of its columns.
+   */
+  private _getSchemaEvents(summary: ActionSummary, tableId: string, triggers: Trigger[]): WebHookEvent[] {
+    const schemaTriggers = triggers.filter(t => triggerHasEventType(t, "schema"));
+    if (!schemaTriggers.length) {
+      return [];
+    }
+    const tableRef = schemaTriggers[0].tableRef;
+    const tableRenames = summary.tableRenames.filter(([, after]) => after === tableId);
+    const columnRenames = summary.tableDeltas[tableId]?.columnRenames ?? [];
+
+    // Changes to column metadata (type, formula, ...) aren't summarized as part of the table.
+    const colDelta = summary.tableDeltas._grist_Tables_column;
+    const parentIds = colDelta?.columnDeltas.parentId ?? {};
+    const colRefs = colDelta ? [...colDelta.updateRows, ...colDelta.addRows, ...colDelta.removeRows] : [];
+    const columnsTable = this._activeDoc.docData!.getMetaTable("_grist_Tables_column");
+    const hasModifiedColumns = colRefs.some(colRef => {
+      const parentIdBefore = parentIds[colRef]?.[0];
+      return columnsTable.getValue(colRef, "parentId") === tableRef ||
+        (Array.isArray(parentIdBefore) && parentIdBefore[0] === tableRef);
+    });
+
+    if (!tableRenames.length && !columnRenames.length && !hasModifiedColumns) {
+      return [];
+    }
+
+    const payload: SchemaPayload = {
+      tableId,
+      tableRenames,
+      columnRenames,
+      columns: columnsTable.filterRecords({parentId: tableRef})
+        .filter(c => !isHiddenCol(c.colId))
+        .map(c => ({id: c.colId, type: c.type, label: c.label, isFormula: c.isFormula})),
+    };
+    const result: WebHookEvent[] = [];
+    for (const trigger of schemaTriggers) {
+      for (const action of getWebhookActions(trigger)) {
+        result.push({id: action.id, payload, eventType: "schema"});
+      }
+    }
+    this._log("Generated schema events from triggers", {numEvents: result.length, tableId});
+    return result;
+  }
+
+  /**
+   * Determines if a removed record was ready before its removal. Receivers are only told about
+   * the removal of records they could have heard about before.
    */
-  private _shouldTriggerActions(
+  private _wasReady(trigger: Trigger, rowId: number, tableDelta: TableDelta): boolean {
+    if (!trigger.isReadyColRef) {
+      return true;
+    }
+    const isReadyColId = this._getColId(trigger.isReadyColRef)!;
+    const deltaBefore = tableDelta.columnDeltas[isReadyColId]?.[rowId]?.[0];
+    // Must be the actual boolean `true`, not just anything truthy
+    return Array.isArray(deltaBefore) && deltaBefore[0] === true;
+  }
+
+  /**
+   * Determines which event, if any, should be triggered for a single existing record and trigger.
+   */
+  private _getEventType(
     trigger: Trigger,
     bulkColValues: TableColValues,
     rowIndex: number,
     rowId: number,
     recordDelta: RecordDelta,
     tableDelta: TableDelta,
-  ): boolean {
+  ): EventType|null {
     let readyBefore: boolean;
     if (!trigger.isReadyColRef) {
       // User hasn't configured a column, so all records are considered ready immediately
@@ -586,7 +817,7 @@ export class DocTriggers {
       // Must be the actual boolean `true`, not just anything truthy
       const isReady = bulkColValues[isReadyColId][rowIndex] === true;
       if (!isReady) {
-         return false;
+         return null;
       }
 
       const cellDelta: CellDelta | undefined = tableDelta.columnDeltas[isReadyColId]?.[rowId];
@@ -630,19 +861,13 @@ export class DocTriggers {
       if (colIdsToCheck.length === 0 || colIdsToCheck.some(colId => tableDelta.columnDeltas[colId]?.[rowId])) {
         eventType = "update";
       } else {
-        return false;
+        return null;
       }
-      // If we allow subscribing to deletion in the future
-      // if (recordDelta.existedAfter) {
-      //   eventType = "update";
-      // } else {
-      //   eventType = "remove";
-      // }
     } else {
       eventType = "add";
     }
 
-    return trigger.eventTypes!.includes(eventType);
+    return triggerHasEventType(trigger, eventType) ? eventType : null;
   }
 
   private async _getWebHook(id: string): Promise<WebHookSecret | undefined> {
@@ -659,6 +884,15 @@ export class DocTriggers {
     return webhook!;
   }
 
+  private _getPayloadTemplate(id: string): WebhookPayloadTemplate {
+    try {
+      return getTriggerOptions(this.getWebhookTriggerRecord(id)).payloadTemplate ?? {};
+    } catch (e) {
+      // The webhook may have been removed while its events are still queued.
+      return {};
+    }
+  }
+
   private async _getWebHookUrl(id: string): Promise<string | undefined> {
     const url = (await this._getWebHook(id))?.url ?? '';
     if (!isUrlAllowed(url)) {
@@ -694,17 +928,33 @@ export class DocTriggers {
         await delayAbort(TRIGGER_WAIT_DELAY, this._loopAbort.signal).catch(() => {});
         continue;
       }
-      const id = this._webHookEventQueue[0].id;
-      const batch = _.takeWhile(this._webHookEventQueue.slice(0, 100), {id});
-      const body = JSON.stringify(batch.map(e => e.payload));
+      const {id, queuedAt} = this._webHookEventQueue[0];
+      const group = getEventGroup(this._webHookEventQueue[0]);
+      const template = this._getPayloadTemplate(id);
+      const maxBatchSize = template.singleRecord ? 1 : (template.maxBatchSize || MAX_BATCH_SIZE);
+      // Removals and schema changes are sent in their own batches, so that receivers can
+      // tell them apart from records that were added or updated.
+      const batch = _.takeWhile(this._webHookEventQueue.slice(0, maxBatchSize),
+        e => e.id === id && getEventGroup(e) === group);
+      if (template.batchWindowMs && batch.length < maxBatchSize && batch.length === this._webHookEventQueue.length) {
+        // Give more events a chance to join the batch. This only waits while the queue holds
+        // nothing else, so that other webhooks aren't held up.
+        const remaining = (queuedAt ?? 0) + Math.min(template.batchWindowMs, MAX_BATCH_WINDOW_MS) - Date.now();
+        if (remaining > 0) {
+          await delayAbort(Math.min(remaining, TRIGGER_WAIT_DELAY), this._loopAbort.signal).catch(() => {});
+          continue;
+        }
+      }
+      const body = formatWebhookBody(template, batch.map(e => e.payload), group !== "schema");
+      const eventTypes = _.uniq(batch.map(e => e.eventType).filter(Boolean)).join(',');
       const url = await this._getWebHookUrl(id);
-      const authorization = (await this._getWebHook(id))?.authorization || "";
+      const webhook = await this._getWebHook(id);
       if (this._loopAbort.signal.aborted) {
         continue;
       }
       let meta: {webhookId: string; host: string, quantity: number} | undefined;
       let success: boolean;
-      if (!url) {
+      if (!url || !webhook) {
         success = true;
       } else {
         await this._stats.logStatus(id, 'sending');
@@ -714,7 +964,7 @@ export class DocTriggers {
           limited: {numEvents: meta.quantity},
         });
         success = await this._sendWebhookWithRetries(
-          id, url, authorization, body, batch.length, this._loopAbort.signal);
+          id, url, webhook, eventTypes, body, batch.length, this._loopAbort.signal);
         if (this._loopAbort.signal.aborted) {
           continue;
         }
@@ -806,7 +1056,9 @@ export class DocTriggers {
   }
 
   private async _sendWebhookWithRetries(
-    id: string, url: string, authorization: string, body: string, size: number, signal: AbortSignal) {
+    id: string, url: string, webhook: WebHookSecret, eventTypes: string, body: string, size: number,
+    signal: AbortSignal) {
+    const {authorization} = webhook;
     const maxWait = 64;
     let wait = 1;
     for (let attempt = 0; attempt < this._maxWebhookAttempts; attempt++) {
@@ -817,12 +1069,16 @@ export class DocTriggers {
         if (attempt > 0) {
           await this._stats.logStatus(id, 'retrying');
         }
+        // Signed at each attempt, so that the timestamp reflects the time of sending.
+        const signature = getWebhookSignature(webhook, body);
         const response = await fetchUntrustedWithAgent(url, {
           method: 'POST',
           body,
           headers: {
             'Content-Type': 'application/json',
             ...(authorization ? {'Authorization': authorization} : {}),
+            ...(eventTypes ? {[EVENT_TYPE_HEADER]: eventTypes} : {}),
+            ...(signature ? {[SIGNATURE_HEADER]: signature} : {}),
           },
           signal,
         });
@@ -878,6 +1134,77 @@ export class DocTriggers {
   }
 }
 
+export function generateSigningSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Returns the value of the signature header for a webhook payload, or undefined if the webhook
+ * has no signing secret. The value has the form `t=<timestamp>,v1=<signature>`, where the
+ * timestamp is in seconds since epoch and the signature is the hex-encoded HMAC-SHA256 of
+ * `<timestamp>.<body>`. While the previous secret is still valid, a second `v1` signature made
+ * with it is appended, and receivers should accept the payload if any signature matches.
+ */
+export function getWebhookSignature(webhook: WebHookSecret, body: string, now: number = Date.now()) {
+  const secrets = [webhook.signingSecret];
+  if (webhook.previousSigningSecret && (webhook.previousSigningSecretExpiresAt ?? 0) > now) {
+    secrets.push(webhook.previousSigningSecret);
+  }
+  const timestamp = Math.floor(now / 1000);
+  const signatures = secrets.filter(Boolean).map(secret =>
+    'v1=' + crypto.createHmac('sha256', secret!).update(`${timestamp}.${body}`).digest('hex'));
+  return signatures.length ? [`t=${timestamp}`, ...signatures].join(',') : undefined;
+}
+
+export function getTriggerOptions(trigger: Pick<Trigger, "options">): TriggerOptions {
+  try {
+    return trigger.options ? JSON.parse(trigger.options) : {};
+  } catch (e) {
+    return {};
+  }
+}
+
+/**
+ * Builds the body of a request to a webhook from the payloads of a batch of events, following
+ * the webhook's payload template. Column selection only applies to records, not to the
+ * payloads of "schema" events.
+ */
+export function formatWebhookBody(
+  template: WebhookPayloadTemplate, payloads: Array<RowRecord|SchemaPayload>, areRecords: boolean
+): string {
+  const {colIds, wrapKey, wrapFields, singleRecord} = template;
+  const items = (colIds && areRecords) ? payloads.map(p => _.pick(p, ['id', ...colIds])) : payloads;
+  const content = singleRecord ? items[0] : items;
+  return JSON.stringify(wrapKey ? {...wrapFields, [wrapKey]: content} : content);
+}
+
+function getWebhookActions(trigger: Trigger): WebhookAction[] {
+  const actions = JSON.parse(trigger.actions) as TriggerAction[];
+  return actions.filter(act => act.type === "webhook") as WebhookAction[];
+}
+
+function triggerHasEventType(trigger: Trigger, eventType: EventType): boolean {
+  return Boolean(trigger.eventTypes?.includes(eventType));
+}
+
+// Events of different groups are never sent in the same batch.
+function getEventGroup(event: WebHookEvent): string {
+  const {eventType} = event;
+  return (eventType === "remove" || eventType === "schema" || eventType === "scheduled") ? eventType : "record";
+}
+
+// Builds the payload of a removed record from the values it had before removal.
+function getRemovedRecord(tableDelta: TableDelta, rowId: number): RowRecord {
+  const record: RowRecord = {id: rowId};
+  for (const [colId, columnDelta] of Object.entries(tableDelta.columnDeltas)) {
+    const before = columnDelta[rowId]?.[0];
+    if (Array.isArray(before)) {
+      record[colId] = before[0];
+    }
+  }
+  return record;
+}
+
 export function isUrlAllowed(urlString: string) {
   let url: URL;
   try {
@@ -173,6 +173,34 @@ export function attachEarlyEndpoints(options: AttachOptions) {
     })
   );
 
+  // Reports whether notification emails are enabled.
+  app.get(
+    "/api/install/notifications",
+    expressWrap(async (_req, res) => {
+      return sendOkReply(null, res, { enabled: gristServer.hasNotifier() });
+    })
+  );
+
+  // Sends a test email to the calling install admin, failing if it can't be delivered.
+  app.post(
+    "/api/install/notifications/test-email",
+    expressWrap(async (req, res) => {
+      if (!gristServer.hasNotifier()) {
+        throw new ApiError("Email notifications are not configured", 400);
+      }
+      const dbManager = gristServer.getHomeDBManager();
+      const userId = (req as RequestWithLogin).userId;
+      if (!userId || userId === dbManager.getAnonymousUserId()) {
+        throw new ApiError("Log in to send a test email", 400);
+      }
+      const user = await dbManager.getFullUser(userId);
+      await gristServer
+        .getNotifier()
+        .sendTestEmail!(user, gristServer.getHomeUrl(req));
+      return sendOkReply(req, res, { email: user.email });
+    })
+  );
+
   app.get(
     "/api/install/configs/:key",
     hasValidConfigKey,
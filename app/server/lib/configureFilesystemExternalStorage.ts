@@ -0,0 +1,43 @@
+import {wrapWithKeyMappedStorage} from 'app/server/lib/ExternalStorage';
+import {appSettings} from 'app/server/lib/AppSettings';
+import {FilesystemExternalStorage} from 'app/server/lib/FilesystemExternalStorage';
+import * as fse from 'fs-extra';
+import * as path from 'path';
+
+export function configureFilesystemExternalStorage(purpose: 'doc'|'meta'|'attachments', extraPrefix: string) {
+  const options = checkFilesystemExternalStorage();
+  if (!options) { return undefined; }
+  return wrapWithKeyMappedStorage(new FilesystemExternalStorage(options.dir), {
+    basePrefix: options.prefix,
+    extraPrefix,
+    purpose,
+  });
+}
+
+export function checkFilesystemExternalStorage() {
+  const settings = appSettings.section('externalStorage').section('filesystem');
+  const dir = settings.flag('dir').readString({
+    envVar: 'GRIST_EXTERNAL_STORAGE_DIR',
+  });
+  if (!dir) { return undefined; }
+  const prefix = settings.flag('prefix').requireString({
+    envVar: 'GRIST_EXTERNAL_STORAGE_PREFIX',
+    defaultValue: 'docs/',
+  });
+  settings.flag('url').set(`file://${path.resolve(dir)}/${prefix}`);
+  settings.flag('active').set(true);
+  return {dir: path.resolve(dir), prefix};
+}
+
+export async function checkFilesystemDirectory() {
+  const options = checkFilesystemExternalStorage();
+  if (!options) {
+    throw new Error('Configuration check failed for filesystem backend storage.');
+  }
+  try {
+    await fse.mkdirp(options.dir);
+    await fse.access(options.dir, fse.constants.R_OK | fse.constants.W_OK);
+  } catch (err) {
+    throw new Error(`FATAL: the external storage directory "${options.dir}" is not writable: ${err.message}`);
+  }
+}
@@ -1,10 +1,19 @@
+import {
+  checkFilesystemDirectory,
+  checkFilesystemExternalStorage,
+  configureFilesystemExternalStorage
+} from 'app/server/lib/configureFilesystemExternalStorage';
 import {
   checkMinIOBucket,
   checkMinIOExternalStorage,
   configureMinIOExternalStorage
 } from 'app/server/lib/configureMinIOExternalStorage';
+import {AuditLogStreamer} from 'app/server/lib/AuditLogStreamer';
 import {configureOpenAIAssistantV1} from 'app/server/lib/configureOpenAIAssistantV1';
+import {DocNotificationManager} from 'app/server/lib/DocNotificationManager';
+import {HomeDBAuditLogger, isAuditLogStorageEnabled} from 'app/server/lib/HomeDBAuditLogger';
 import {BaseCreate, ICreateStorageOptions} from 'app/server/lib/ICreate';
+import {getSmtpConfig, SmtpNotifier} from 'app/server/lib/SmtpNotifier';
 import {Telemetry} from 'app/server/lib/Telemetry';
 import {HomeDBManager} from 'app/gen-server/lib/homedb/HomeDBManager';
 import {GristServer} from 'app/server/lib/GristServer';
@@ -18,10 +27,32 @@ export class CoreCreate extends BaseCreate {
         checkBackend: () => checkMinIOBucket(),
         create: configureMinIOExternalStorage,
       },
+      {
+        name: 'filesystem',
+        check: () => checkFilesystemExternalStorage() !== undefined,
+        checkBackend: () => checkFilesystemDirectory(),
+        create: configureFilesystemExternalStorage,
+      },
     ];
     super('core', storage);
   }
 
+  public override AuditLogger(dbManager: HomeDBManager, gristServer: GristServer) {
+    const streamer = new AuditLogStreamer(dbManager);
+    gristServer.onStreamingDestinationsChange((orgId) => streamer.invalidateDestinations(orgId ?? null));
+    return new HomeDBAuditLogger(dbManager, {storeEvents: isAuditLogStorageEnabled(), streamer});
+  }
+
+  public override Notifier(dbManager: HomeDBManager, gristServer: GristServer) {
+    const smtpConfig = getSmtpConfig();
+    return smtpConfig ? new SmtpNotifier(dbManager, gristServer, smtpConfig) : undefined;
+  }
+
+  public override createDocNotificationManager(gristServer: GristServer) {
+    // Notifications about documents are delivered by email, so are only useful with SMTP set up.
+    return getSmtpConfig() ? new DocNotificationManager(gristServer) : undefined;
+  }
+
   public override Telemetry(dbManager: HomeDBManager, gristServer: GristServer) {
     return new Telemetry(dbManager, gristServer);
   }
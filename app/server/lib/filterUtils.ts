@@ -4,6 +4,8 @@ import { OptDocSession } from "app/server/lib/DocSession";
 /**
  * Filter a Grist document when it is copied or downloaded.  Changes made:
  *   - Any FullCopies special rules are removed.
+ *   - Drafts of form responses are removed. They belong to the respondents who saved them, and
+ *     anyone who has the id of a draft may read it.
  * In the future, the changes could be made conditional on the user.  This would
  * allow us for example to permit downloads of documents with row-level filters
  * in place.
@@ -24,5 +26,9 @@ export async function filterDocumentInPlace(docSession: OptDocSession, filename:
     // Remove the resources.
     await db.run(`DELETE FROM _grist_ACLResources WHERE id IN (${resourceIds})`);
   }
+  // Documents that haven't been opened since drafts were introduced don't have the table yet.
+  if (await db.get("SELECT 1 FROM sqlite_master WHERE type='table' AND name='_gristsys_FormDrafts'")) {
+    await db.run("DELETE FROM _gristsys_FormDrafts");
+  }
   await db.close();
 }
@@ -3,6 +3,7 @@ import {DEFAULT_HOME_SUBDOMAIN, isOrgInPathOnly, parseSubdomain, sanitizePathTai
 import * as gutil from 'app/common/gutil';
 import {DocScope, Scope} from 'app/gen-server/lib/homedb/HomeDBManager';
 import {QueryResult} from 'app/gen-server/lib/homedb/Interfaces';
+import {getShareUnlock} from 'app/gen-server/lib/SharePasswords';
 import {appSettings} from 'app/server/lib/AppSettings';
 import {getUserId, RequestWithLogin} from 'app/server/lib/Authorizer';
 import {RequestWithOrg} from 'app/server/lib/extractOrg';
@@ -178,7 +179,8 @@ export function getScope(req: Request): Scope {
   const org = (req as RequestWithOrg).org;
   const includeSupport = isParameterOn(req.query.includeSupport);
   const showRemoved = isParameterOn(req.query.showRemoved);
-  return {urlId, userId, org, includeSupport, showRemoved, specialPermit};
+  const shareUnlock = getShareUnlock((req as RequestWithLogin).session?.shareUnlocks, urlId);
+  return {urlId, userId, org, includeSupport, showRemoved, specialPermit, ...(shareUnlock ? {shareUnlock} : {})};
 }
 
 /**
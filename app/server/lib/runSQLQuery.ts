@@ -6,8 +6,12 @@ import { docSessionFromRequest, OptDocSession } from "app/server/lib/DocSession"
 import log from "app/server/lib/log";
 import { optIntegerParam } from "app/server/lib/requestUtils";
 import { isRequest, RequestOrSession } from "app/server/lib/sessionUtils";
+import { ResultRow } from "app/server/lib/SqliteCommon";
+import { SQLiteDB } from "app/server/lib/SQLiteDB";
+import * as crypto from "crypto";
 
 // Maximum duration of a `runSQLQuery` call. Does not apply to internal calls to SQLite.
+// When results are paginated or streamed, applies to each page or batch separately.
 const MAX_CUSTOM_SQL_MSEC = appSettings
   .section("integrations")
   .section("sql")
@@ -17,77 +21,265 @@ const MAX_CUSTOM_SQL_MSEC = appSettings
     defaultValue: 1000,
   });
 
+// Number of rows fetched at a time when streaming results.
+const STREAM_BATCH_SIZE = 1000;
+
+export interface SqlQueryResult {
+  records: ResultRow[];
+  // Set when results are paginated and there are more of them, to be passed as `cursor` to
+  // get the next page.
+  nextCursor?: string;
+}
+
 /**
- * Executes a SQL SELECT statement on a document and returns the result.
+ * Executes a SQL SELECT statement on a document and returns the result. If `options.limit` or
+ * `options.cursor` are set, returns a page of the result, with a cursor for the next page if
+ * there is one.
  */
 export async function runSQLQuery(
   requestOrSession: NonNullable<RequestOrSession>,
   activeDoc: ActiveDoc,
   options: Types.SqlPost
-) {
-  let docSession: OptDocSession;
-  if (isRequest(requestOrSession)) {
-    docSession = docSessionFromRequest(requestOrSession);
-  } else {
-    docSession = requestOrSession;
+): Promise<SqlQueryResult> {
+  const query = await SqlQuery.open(requestOrSession, activeDoc, options);
+  try {
+    if (options.limit === undefined && !options.cursor) {
+      return { records: await query.fetch() };
+    }
+    const offset = query.startOffset;
+    const limit = options.limit ?? -1;
+    const rows = await query.fetch(offset, limit < 0 ? limit : limit + 1);
+    if (limit < 0 || rows.length <= limit) {
+      return { records: rows };
+    }
+    return { records: rows.slice(0, limit), nextCursor: query.makeCursor(offset + limit) };
+  } finally {
+    await query.close();
   }
-  if (!(await activeDoc.canCopyEverything(docSession))) {
-    throw new ApiError("insufficient document access", 403);
+}
+
+/**
+ * Like runSQLQuery, but passes the result to `onRecords` in batches, to avoid holding large
+ * results in memory. Returns the cursor for the next page, if `options.limit` is set and there
+ * are more results. Stops early, returning undefined, if `onRecords` returns false (e.g. when
+ * the client went away).
+ */
+export async function streamSQLQuery(
+  requestOrSession: NonNullable<RequestOrSession>,
+  activeDoc: ActiveDoc,
+  options: Types.SqlPost,
+  onRecords: (records: ResultRow[]) => boolean|Promise<boolean>
+): Promise<string|undefined> {
+  const query = await SqlQuery.open(requestOrSession, activeDoc, options);
+  try {
+    let offset = query.startOffset;
+    let remaining = options.limit ?? Infinity;
+    while (remaining > 0) {
+      const size = Math.min(STREAM_BATCH_SIZE, remaining);
+      // Fetch an extra row to know if there are more.
+      const rows = await query.fetch(offset, size + 1);
+      const proceed = await onRecords(rows.slice(0, size));
+      if (!proceed || rows.length <= size) { return undefined; }
+      offset += size;
+      remaining -= size;
+    }
+    return query.makeCursor(offset);
+  } finally {
+    await query.close();
   }
+}
+
+/**
+ * A statement to run on a document, with the database to run it on. Users who may copy the
+ * whole document query it directly. For others, the tables mentioned in the statement are
+ * copied to an in-memory database after filtering them by access rules, the same way as when
+ * fetching them, and the statement runs there. Tables the user may not read are left out.
+ */
+class SqlQuery {
+  public static async open(
+    requestOrSession: NonNullable<RequestOrSession>,
+    activeDoc: ActiveDoc,
+    options: Types.SqlPost
+  ): Promise<SqlQuery> {
+    let docSession: OptDocSession;
+    if (isRequest(requestOrSession)) {
+      docSession = docSessionFromRequest(requestOrSession);
+    } else {
+      docSession = requestOrSession;
+    }
 
-  const statement = options.sql.replace(/;$/, "");
-  // A very loose test, just for early error message
-  if (!statement.toLowerCase().includes("select")) {
-    throw new ApiError("only select statements are supported", 400);
+    const statement = options.sql.replace(/;$/, "");
+    // A very loose test, just for early error message
+    if (!statement.toLowerCase().includes("select")) {
+      throw new ApiError("only select statements are supported", 400);
+    }
+    const limit = optIntegerParam(options.limit, "limit", { isValid: n => n > 0 });
+    if (limit !== undefined && !Number.isSafeInteger(limit)) {
+      throw new ApiError("limit parameter is invalid", 400);
+    }
+
+    const sqlOptions = activeDoc.docStorage.getOptions();
+    if (
+      !sqlOptions?.canInterrupt ||
+      !sqlOptions?.bindableMethodsProcessOneStatement
+    ) {
+      throw new ApiError("The available SQLite wrapper is not adequate", 500);
+    }
+    const timeout = Math.max(
+      0,
+      Math.min(
+        MAX_CUSTOM_SQL_MSEC,
+        optIntegerParam(options.timeout, "timeout") || MAX_CUSTOM_SQL_MSEC
+      )
+    );
+    const query = new SqlQuery(statement, getSqlArgs(options.args), timeout);
+    query.startOffset = options.cursor ? query._parseCursor(options.cursor) : 0;
+    if (!(await activeDoc.canCopyEverything(docSession))) {
+      query._filteredDB = await makeFilteredDB(docSession, activeDoc, statement);
+    }
+    query._db = query._filteredDB ?? activeDoc.docStorage;
+    return query;
   }
 
-  const sqlOptions = activeDoc.docStorage.getOptions();
-  if (
-    !sqlOptions?.canInterrupt ||
-    !sqlOptions?.bindableMethodsProcessOneStatement
-  ) {
-    throw new ApiError("The available SQLite wrapper is not adequate", 500);
+  // Offset of the first row to return, as given by the cursor.
+  public startOffset: number = 0;
+
+  private _db: Pick<SQLiteDB, "all"|"interrupt">;
+  private _filteredDB?: SQLiteDB;
+
+  private constructor(
+    private _statement: string,
+    private _args: any[],
+    private _timeout: number,
+  ) {}
+
+  /**
+   * Runs the statement, returning at most `limit` rows starting at `offset` if given. A
+   * negative limit means no limit.
+   */
+  public async fetch(offset?: number, limit?: number): Promise<ResultRow[]> {
+    // Wrap in a select to commit to the SELECT branch of SQLite
+    // grammar. Note ; isn't a problem.
+    //
+    // The underlying SQLite functions used will only process the
+    // first statement in the supplied text. For node-sqlite3, the
+    // remainder is placed in a "tail string" ignored by that library.
+    // So a Robert'); DROP TABLE Students;-- style attack isn't applicable.
+    //
+    // Since Grist is used with multiple SQLite wrappers, not just
+    // node-sqlite3, we have added a bindableMethodsProcessOneStatement
+    // flag that will need adding for each wrapper, and this endpoint
+    // will not operate unless that flag is set to true.
+    //
+    // The text is wrapped in select * from (USER SUPPLIED TEXT) which
+    // puts SQLite unconditionally onto the SELECT branch of its
+    // grammar. It is straightforward to break out of such a wrapper
+    // with multiple statements, but again, only the first statement
+    // is processed.
+    //
+    // Limit and offset are validated integers, so they can be included
+    // in the text; that leaves the placeholders to the user's arguments.
+    let wrappedStatement = `select * from (${this._statement})`;
+    if (limit !== undefined) {
+      wrappedStatement += ` limit ${limit} offset ${offset ?? 0}`;
+    }
+    const interrupt = setTimeout(async () => {
+      try {
+        await this._db.interrupt();
+      } catch (e) {
+        // Should be unreachable, but just in case...
+        log.error("runSQL interrupt failed with error ", e);
+      }
+    }, this._timeout);
+    let rows: ResultRow[];
+    try {
+      rows = await this._db.all(wrappedStatement, ...this._args);
+    } finally {
+      clearTimeout(interrupt);
+    }
+    // If the statement escaped the wrapper, the limit isn't applied, and paginating
+    // would repeat the same rows forever.
+    if (limit !== undefined && limit >= 0 && rows.length > limit) {
+      throw new ApiError("this statement cannot be paginated", 400);
+    }
+    return rows;
+  }
+
+  /**
+   * Returns a cursor for continuing with the same statement and arguments at the given offset.
+   */
+  public makeCursor(offset: number): string {
+    return Buffer.from(JSON.stringify({offset, query: this._hash()})).toString("base64url");
+  }
+
+  public async close() {
+    await this._filteredDB?.close();
   }
-  const timeout = Math.max(
-    0,
-    Math.min(
-      MAX_CUSTOM_SQL_MSEC,
-      optIntegerParam(options.timeout, "timeout") || MAX_CUSTOM_SQL_MSEC
-    )
-  );
-  // Wrap in a select to commit to the SELECT branch of SQLite
-  // grammar. Note ; isn't a problem.
-  //
-  // The underlying SQLite functions used will only process the
-  // first statement in the supplied text. For node-sqlite3, the
-  // remainder is placed in a "tail string" ignored by that library.
-  // So a Robert'); DROP TABLE Students;-- style attack isn't applicable.
-  //
-  // Since Grist is used with multiple SQLite wrappers, not just
-  // node-sqlite3, we have added a bindableMethodsProcessOneStatement
-  // flag that will need adding for each wrapper, and this endpoint
-  // will not operate unless that flag is set to true.
-  //
-  // The text is wrapped in select * from (USER SUPPLIED TEXT) which
-  // puts SQLite unconditionally onto the SELECT branch of its
-  // grammar. It is straightforward to break out of such a wrapper
-  // with multiple statements, but again, only the first statement
-  // is processed.
-  const wrappedStatement = `select * from (${statement})`;
-  const interrupt = setTimeout(async () => {
+
+  private _parseCursor(cursor: string): number {
     try {
-      await activeDoc.docStorage.interrupt();
+      const {offset, query} = JSON.parse(Buffer.from(cursor, "base64url").toString());
+      if (Number.isSafeInteger(offset) && offset >= 0 && query === this._hash()) {
+        return offset;
+      }
     } catch (e) {
-      // Should be unreachable, but just in case...
-      log.error("runSQL interrupt failed with error ", e);
+      // Fall through to the error below.
     }
-  }, timeout);
+    throw new ApiError("cursor is invalid, or was made for a different query", 400);
+  }
+
+  // Identifies the statement and arguments, so that cursors can't be used with other queries.
+  private _hash(): string {
+    return crypto.createHash("sha256")
+      .update(JSON.stringify([this._statement, this._args]))
+      .digest("hex")
+      .slice(0, 16);
+  }
+}
+
+/**
+ * Converts the arguments of a statement to what SQLite wrappers expect: positional arguments as
+ * a list, or named arguments as a single object whose keys include the prefix (":name").
+ */
+function getSqlArgs(args: Types.SqlPost["args"]): any[] {
+  if (!args) { return []; }
+  if (Array.isArray(args)) { return args; }
+  const named: {[key: string]: any} = {};
+  for (const [key, value] of Object.entries(args)) {
+    named[/^[:@$]/.test(key) ? key : `:${key}`] = value;
+  }
+  return [named];
+}
+
+/**
+ * Creates an in-memory database with the tables mentioned in the statement, as the user may
+ * read them.
+ */
+async function makeFilteredDB(docSession: OptDocSession, activeDoc: ActiveDoc, statement: string): Promise<SQLiteDB> {
+  const docData = activeDoc.docData;
+  if (!docData) { throw new ApiError("document is not ready", 500); }
+  // Grist table ids are made of word characters, and SQLite identifiers are case-insensitive.
+  const words = new Set((statement.match(/\w+/g) || []).map(word => word.toLowerCase()));
+  const tableIds = [
+    ...docData.getMetaTable("_grist_Tables").getRecords().map(rec => rec.tableId),
+    ...[...docData.getTables().keys()].filter(tableId => tableId.startsWith("_grist_")),
+  ].filter(tableId => words.has(tableId.toLowerCase()));
+
+  const db = await SQLiteDB.openDBRaw(":memory:");
   try {
-    return await activeDoc.docStorage.all(
-      wrappedStatement,
-      ...(options.args || [])
-    );
-  } finally {
-    clearTimeout(interrupt);
+    for (const tableId of tableIds) {
+      let tableData;
+      try {
+        ({tableData} = await activeDoc.fetchQuery(docSession, {tableId, filters: {}}, true));
+      } catch (e) {
+        if (e.code === "ACL_DENY") { continue; }
+        throw e;
+      }
+      await activeDoc.docStorage.copyTableDataTo(db, tableData);
+    }
+  } catch (e) {
+    await db.close();
+    throw e;
   }
+  return db;
 }
@@ -0,0 +1,265 @@
+import { RequestContext } from 'app/server/lib/scim/v2/ScimTypes';
+
+import SCIMMY from 'scimmy';
+
+type BulkOperation = SCIMMY.Messages.BulkRequest.BulkOpOperation;
+type BulkOpResponse = SCIMMY.Messages.BulkResponse.BulkOpResponse;
+// SCIMMY declares status codes as numbers, but sends them as strings, as in RFC 7644 examples.
+type BulkOpStatus =
+  `${SCIMMY.Messages.BulkResponse.ResponseStatusCodes|SCIMMY.Messages.ErrorResponse.ValidStatusCodes}`;
+type BulkOpResult = Omit<BulkOpResponse, 'status'> & {status: BulkOpStatus};
+type ResourceType = typeof SCIMMY.Types.Resource;
+type ScimError = InstanceType<typeof SCIMMY.Types.Error>;
+
+const VALID_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Applies the operations of a SCIM BulkRequest (see RFC 7644, section 3.7) and returns the
+ * corresponding BulkResponse.
+ *
+ * This replaces SCIMMY's BulkRequest.apply(), which gets very slow with the thousands of
+ * operations an IdP sends when syncing a whole directory (each operation waits on all the
+ * preceding ones), and which only resolves the last of the bulkIds referenced by an operation
+ * (e.g. when creating a group with several users created by the same request).
+ *
+ * Operations are applied one at a time, in order. An operation referencing the bulkId of a POST
+ * operation which comes later in the request is deferred until the latter has been applied.
+ * When `failOnErrors` is set, operations which were not applied before reaching that number of
+ * errors are left out of the response.
+ *
+ * The request and its operations are validated the same way, and with the same messages, as
+ * by SCIMMY.
+ */
+export async function applyBulkRequest(
+  body: any, context: RequestContext, maxOperations: number
+): Promise<SCIMMY.Messages.BulkResponse> {
+  const request = new SCIMMY.Messages.BulkRequest(body, maxOperations);
+  const failOnErrors = request.failOnErrors ?? 0;
+  const applier = new BulkOperationsApplier(request.Operations, context);
+
+  const results: BulkOpResult[] = [];
+  let errorCount = 0;
+  let pending = request.Operations.map((operation, index) => ({operation, index}));
+  while (pending.length > 0) {
+    const deferred: typeof pending = [];
+    for (const item of pending) {
+      if (failOnErrors && errorCount >= failOnErrors) {
+        return buildResponse(results);
+      }
+      if (applier.isWaitingOnOtherOperations(item.operation)) {
+        deferred.push(item);
+        continue;
+      }
+      const result = await applier.apply(item.operation, item.index);
+      results[item.index] = result;
+      if (result.response) {
+        errorCount++;
+      }
+    }
+    if (deferred.length === pending.length) {
+      // The remaining operations all wait on one another.
+      for (const {operation, index} of deferred) {
+        if (failOnErrors && errorCount >= failOnErrors) {
+          break;
+        }
+        results[index] = applier.fail(operation, new SCIMMY.Types.Error(
+          409, null!, `Circular bulkId references in BulkRequest operation #${index + 1}`
+        ));
+        errorCount++;
+      }
+      break;
+    }
+    pending = deferred;
+  }
+  return buildResponse(results);
+}
+
+function buildResponse(results: BulkOpResult[]) {
+  // Results are stored at the index of their operation, and there may be holes if processing stopped early.
+  return new SCIMMY.Messages.BulkResponse(results.filter(result => result) as unknown as BulkOpResponse[]);
+}
+
+class BulkOperationsApplier {
+  private _resourceTypes = new Map<string, ResourceType>(
+    Object.values(SCIMMY.Resources.declared()).map(resource => [resource.endpoint, resource])
+  );
+
+  // bulkIds of all the POST operations of the request.
+  private _postBulkIds: Set<string>;
+
+  // Ids of resources created by POST operations which were applied, by bulkId. The id is null
+  // if the operation failed.
+  private _createdIds = new Map<string, string|null>();
+
+  constructor(operations: BulkOperation[], private _context: RequestContext) {
+    this._postBulkIds = new Set(operations
+      .filter(op => String(op.method).toUpperCase() === 'POST' && op.bulkId && typeof op.bulkId === 'string')
+      .map(op => op.bulkId!));
+  }
+
+  public isWaitingOnOtherOperations(operation: BulkOperation) {
+    return getReferencedBulkIds(operation).some(
+      bulkId => this._postBulkIds.has(bulkId) && !this._createdIds.has(bulkId)
+    );
+  }
+
+  public async apply(operation: BulkOperation, index: number): Promise<BulkOpResult> {
+    const {method, path, data} = operation;
+    const bulkId = this._getBulkId(operation);
+    const errorSuffix = `in BulkRequest operation #${index + 1}`;
+    try {
+      if (!method) {
+        throw new SCIMMY.Types.Error(400, 'invalidSyntax', `Missing or empty 'method' string ${errorSuffix}`);
+      }
+      if (typeof method !== 'string') {
+        throw new SCIMMY.Types.Error(400, 'invalidSyntax', `Expected 'method' to be a string ${errorSuffix}`);
+      }
+      if (!VALID_METHODS.includes(method.toUpperCase())) {
+        throw new SCIMMY.Types.Error(400, 'invalidValue', `Invalid 'method' value '${method}' ${errorSuffix}`);
+      }
+      if (!path) {
+        throw new SCIMMY.Types.Error(400, 'invalidSyntax', `Missing or empty 'path' string ${errorSuffix}`);
+      }
+      if (typeof path !== 'string') {
+        throw new SCIMMY.Types.Error(400, 'invalidSyntax', `Expected 'path' to be a string ${errorSuffix}`);
+      }
+      const {TargetResource, id} = this._parsePath(path);
+      if (!TargetResource) {
+        throw new SCIMMY.Types.Error(400, 'invalidValue', `Invalid 'path' value '${path}' ${errorSuffix}`);
+      }
+      const isPost = method.toUpperCase() === 'POST';
+      if (isPost && !operation.bulkId) {
+        throw new SCIMMY.Types.Error(
+          400, 'invalidSyntax', `POST operation missing required 'bulkId' string ${errorSuffix}`
+        );
+      }
+      if (isPost && typeof operation.bulkId !== 'string') {
+        throw new SCIMMY.Types.Error(
+          400, 'invalidValue', `POST operation expected 'bulkId' to be a string ${errorSuffix}`
+        );
+      }
+      if (isPost && id) {
+        throw new SCIMMY.Types.Error(
+          404, null!, `POST operation must not target a specific resource ${errorSuffix}`
+        );
+      }
+      if (!isPost && !id) {
+        throw new SCIMMY.Types.Error(
+          404, null!, `${method.toUpperCase()} operation must target a specific resource ${errorSuffix}`
+        );
+      }
+      if (method.toUpperCase() !== 'DELETE' && (Object(data) !== data || Array.isArray(data))) {
+        throw new SCIMMY.Types.Error(
+          400, 'invalidSyntax', `Expected 'data' to be a single complex value ${errorSuffix}`
+        );
+      }
+
+      const resource = new TargetResource(id);
+      let value: SCIMMY.Types.Schema|undefined;
+      switch (method.toUpperCase()) {
+        case 'POST':
+        case 'PUT': {
+          const created = await resource.write(this._resolveReferences(data), this._context);
+          if (bulkId) {
+            this._createdIds.set(bulkId, created.id);
+          }
+          value = created;
+          break;
+        }
+        case 'PATCH': {
+          value = await resource.patch(this._resolveReferences(data), this._context);
+          break;
+        }
+        case 'DELETE': {
+          await resource.dispose(this._context);
+          break;
+        }
+      }
+      return {
+        ...this._buildResult(operation),
+        status: value ? (bulkId ? '201' : '200') : '204',
+        ...(value ? {location: value.meta?.location} : {}),
+      };
+    } catch (ex) {
+      const error = ex instanceof SCIMMY.Types.Error ? ex :
+        ex instanceof TypeError ? new SCIMMY.Types.Error(400, 'invalidValue', ex.message) :
+        new SCIMMY.Types.Error(500, null!, ex.message);
+      return this.fail(operation, error);
+    }
+  }
+
+  /**
+   * Returns the result of an operation which failed with the given error.
+   */
+  public fail(operation: BulkOperation, error: ScimError): BulkOpResult {
+    const bulkId = this._getBulkId(operation);
+    if (bulkId) {
+      this._createdIds.set(bulkId, null);
+    }
+    const response = new SCIMMY.Messages.ErrorResponse(error);
+    const result = this._buildResult(operation);
+    return {
+      ...result,
+      status: String(response.status) as BulkOpStatus,
+      response,
+      location: bulkId === undefined ? result.location : undefined,
+    };
+  }
+
+  private _getBulkId(operation: BulkOperation): string|undefined {
+    const {method, bulkId} = operation;
+    return String(method).toUpperCase() === 'POST' && typeof bulkId === 'string' ? bulkId : undefined;
+  }
+
+  private _parsePath(path: string): {TargetResource?: ResourceType, id?: string} {
+    const [endpoint, id] = path.substring(1).split('/');
+    return {TargetResource: endpoint ? this._resourceTypes.get(`/${endpoint}`) : undefined, id: id || undefined};
+  }
+
+  private _buildResult(operation: BulkOperation): Omit<BulkOpResult, 'status'> {
+    const {method, path} = operation;
+    const {TargetResource, id}: ReturnType<BulkOperationsApplier["_parsePath"]> =
+      typeof path === 'string' ? this._parsePath(path) : {};
+    const location = TargetResource ?
+      [TargetResource.basepath() ?? TargetResource.endpoint, id].filter(part => part).join('/') :
+      (path || undefined);
+    return {
+      method,
+      bulkId: this._getBulkId(operation),
+      location: typeof location === 'string' ? location : undefined,
+    };
+  }
+
+  /**
+   * Replaces "bulkId:<bulkId>" references in data with the ids of the resources created by the
+   * corresponding POST operations.
+   */
+  private _resolveReferences(data: any) {
+    const bulkIds = getReferencedBulkIds({data} as BulkOperation);
+    if (bulkIds.length === 0) {
+      return data;
+    }
+    let json = JSON.stringify(data);
+    for (const bulkId of bulkIds) {
+      if (!this._postBulkIds.has(bulkId)) {
+        throw new SCIMMY.Types.Error(400, 'invalidValue', `No POST operation found matching bulkId '${bulkId}'`);
+      }
+      const createdId = this._createdIds.get(bulkId);
+      if (!createdId) {
+        throw new SCIMMY.Types.Error(
+          412, null!, `Referenced POST operation with bulkId '${bulkId}' was not successful`
+        );
+      }
+      json = json.split(JSON.stringify(`bulkId:${bulkId}`)).join(JSON.stringify(createdId));
+    }
+    return JSON.parse(json);
+  }
+}
+
+function getReferencedBulkIds({data}: BulkOperation): string[] {
+  const json = data ? JSON.stringify(data) : '';
+  if (!json.includes('bulkId:')) {
+    return [];
+  }
+  return [...new Set([...json.matchAll(/"bulkId:(.+?)"/g)].map(([, bulkId]) => bulkId))];
+}
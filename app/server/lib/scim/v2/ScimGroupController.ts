@@ -1,8 +1,9 @@
 import { Group } from 'app/gen-server/entity/Group';
 import { HomeDBManager } from 'app/gen-server/lib/homedb/HomeDBManager';
 import { BaseController } from 'app/server/lib/scim/v2/BaseController';
+import { GroupMembersPatch } from 'app/server/lib/scim/v2/groups/SCIMMYGroupResource';
 import { RequestContext } from 'app/server/lib/scim/v2/ScimTypes';
-import { toGroupDescriptor, toSCIMMYGroup } from 'app/server/lib/scim/v2/ScimUtils';
+import { toGroupDescriptor, toGroupMembersDescriptor, toSCIMMYGroup } from 'app/server/lib/scim/v2/ScimUtils';
 
 import SCIMMY from 'scimmy';
 
@@ -81,6 +82,26 @@ class ScimGroupController extends BaseController {
     });
   }
 
+  /**
+   * Adds and removes members of a group, leaving its other members untouched.
+   *
+   * @param resource The SCIMMY group resource performing the operation
+   * @param patch The members to add and to remove
+   * @param context The request context
+   */
+  public async patchGroupMembers(
+    resource: GroupResource, patch: GroupMembersPatch, context: RequestContext
+  ): Promise<GroupSchema> {
+    return this.runAndHandleErrors(context, async () => {
+      const id = this.getIdFromResource(resource);
+      const group = await this.dbManager.updateGroupMembers(id, {
+        add: toGroupMembersDescriptor(patch.add),
+        remove: toGroupMembersDescriptor(patch.remove),
+      }, Group.TEAM_TYPE);
+      return toSCIMMYGroup(group);
+    });
+  }
+
   /**
    * Deletes a group with the passed ID.
    *
@@ -116,6 +137,11 @@ export function getScimGroupConfig(
     },
     degress: async (resource: GroupResource, context: RequestContext): Promise<void> => {
       return await controller.deleteGroup(resource, context);
-    }
+    },
+    membersPatcher: async (
+      resource: GroupResource, patch: GroupMembersPatch, context: RequestContext
+    ): Promise<GroupSchema> => {
+      return await controller.patchGroupMembers(resource, patch, context);
+    },
   };
 }
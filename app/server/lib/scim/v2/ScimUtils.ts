@@ -3,7 +3,7 @@ import { UserProfile } from "app/common/LoginSessionAPI";
 import { AclRuleDoc, AclRuleOrg, AclRuleWs } from "app/gen-server/entity/AclRule";
 import { Group } from "app/gen-server/entity/Group";
 import { User } from "app/gen-server/entity/User";
-import { GroupWithMembersDescriptor } from "app/gen-server/lib/homedb/Interfaces";
+import { GroupMembersDescriptor, GroupWithMembersDescriptor } from "app/gen-server/lib/homedb/Interfaces";
 import { SCIMMYRoleSchema } from "app/server/lib/scim/v2/roles/SCIMMYRoleSchema";
 import log from 'app/server/lib/log';
 
@@ -104,9 +104,9 @@ function parseId(id: string, type: typeof SCIMMY_USER_TYPE | typeof SCIMMY_GROUP
   return parsedId;
 }
 
-function membersDescriptors(
+export function toGroupMembersDescriptor(
   members: NonNullable<SCIMMY.Schemas.Group["members"]>
-): Pick<GroupWithMembersDescriptor, "memberUsers" | "memberGroups"> {
+): GroupMembersDescriptor {
   return {
     memberUsers: members
       .filter((member) => member.type === SCIMMY_USER_TYPE)
@@ -122,7 +122,7 @@ export function toGroupDescriptor(scimGroup: SCIMMY.Schemas.Group): GroupWithMem
   return {
     name: scimGroup.displayName,
     type: Group.TEAM_TYPE,
-    ...membersDescriptors(members)
+    ...toGroupMembersDescriptor(members)
   };
 }
 
@@ -131,6 +131,6 @@ export function toRoleDescriptor(scimRole: SCIMMYRoleSchema): GroupWithMembersDe
   return {
     name: scimRole.displayName,
     type: Group.ROLE_TYPE,
-    ...membersDescriptors(members)
+    ...toGroupMembersDescriptor(members)
   };
 }
@@ -1,7 +1,10 @@
 import { HomeDBManager } from 'app/gen-server/lib/homedb/HomeDBManager';
+import { appSettings } from 'app/server/lib/AppSettings';
 import { RequestWithLogin } from 'app/server/lib/Authorizer';
 import { InstallAdmin } from 'app/server/lib/InstallAdmin';
+import { SCIMMYGroupResource } from 'app/server/lib/scim/v2/groups/SCIMMYGroupResource';
 import { SCIMMYRoleResource } from 'app/server/lib/scim/v2/roles/SCIMMYRoleResource';
+import { applyBulkRequest } from 'app/server/lib/scim/v2/ScimBulkRequest';
 import { getScimGroupConfig } from 'app/server/lib/scim/v2/ScimGroupController';
 import { getScimRoleConfig } from 'app/server/lib/scim/v2/ScimRoleController';
 import { RequestContext } from 'app/server/lib/scim/v2/ScimTypes';
@@ -13,6 +16,25 @@ import SCIMMYRouters from "scimmy-routers";
 
 const WHITELISTED_PATHS_FOR_NON_ADMINS = [ "/Me", "/Schemas", "/ResourceTypes", "/ServiceProviderConfig" ];
 
+// Limits of the /Bulk endpoint, advertised in the ServiceProviderConfig. IdPs syncing a whole
+// directory send many operations at once, so these are higher than the defaults of SCIMMY.
+function getBulkConfig() {
+  const section = appSettings.section('scim').section('bulk');
+  return {
+    supported: true,
+    maxOperations: section.flag('maxOperations').requireInt({
+      envVar: 'GRIST_SCIM_BULK_MAX_OPERATIONS',
+      defaultValue: 10000,
+      minValue: 1,
+    }),
+    maxPayloadSize: section.flag('maxPayloadSize').requireInt({
+      envVar: 'GRIST_SCIM_BULK_MAX_PAYLOAD_SIZE',
+      defaultValue: 10 * 1024 * 1024,
+      minValue: 1,
+    }),
+  };
+}
+
 const buildScimRouterv2 = (dbManager: HomeDBManager, installAdmin: InstallAdmin) => {
   const v2 = express.Router();
 
@@ -24,33 +46,73 @@ const buildScimRouterv2 = (dbManager: HomeDBManager, installAdmin: InstallAdmin)
   }
 
   SCIMMY.Resources.declare(SCIMMY.Resources.User, getScimUserConfig(dbManager, checkAccess));
-  SCIMMY.Resources.declare(SCIMMY.Resources.Group, getScimGroupConfig(dbManager, checkAccess));
+  const groupConfig = getScimGroupConfig(dbManager, checkAccess);
+  SCIMMY.Resources.declare(SCIMMYGroupResource, {name: 'Group', ...groupConfig});
+  SCIMMYGroupResource.membersPatcher(groupConfig.membersPatcher);
   SCIMMY.Resources.declare(SCIMMYRoleResource, getScimRoleConfig(dbManager, checkAccess));
 
-  const scimmyRouter = new SCIMMYRouters({
-    type: 'bearer',
-    handler: async (request: express.Request) => {
-      const mreq = request as RequestWithLogin;
-      if (mreq.userId === undefined) {
-        // Note that any Error thrown here is automatically converted into a 403 response by SCIMMYRouters.
-        throw new Error('You are not authorized to access this resource!');
-      }
+  // Must be set before creating the routers, which size the limit of request bodies after it.
+  const bulkConfig = getBulkConfig();
+  SCIMMY.Config.set({ bulk: bulkConfig });
 
-      if (mreq.userId === dbManager.getAnonymousUserId()) {
-        throw new Error('Anonymous users cannot access SCIM resources');
-      }
+  async function authenticate(request: express.Request) {
+    const mreq = request as RequestWithLogin;
+    if (mreq.userId === undefined) {
+      // Note that any Error thrown here is automatically converted into a 401 response.
+      throw new Error('You are not authorized to access this resource!');
+    }
 
-      return String(mreq.userId); // SCIMMYRouters requires the userId to be a string.
-    },
-    context: async (req: express.Request): Promise<RequestContext> => {
-      const mreq = req as RequestWithLogin;
-      const isAdmin = await installAdmin.isAdminReq(mreq);
-      const isScimUser = Boolean(
-        process.env.GRIST_SCIM_EMAIL && mreq.user?.loginEmail === process.env.GRIST_SCIM_EMAIL
-      );
-      const path = mreq.path;
-      return { isAdmin, isScimUser, path };
+    if (mreq.userId === dbManager.getAnonymousUserId()) {
+      throw new Error('Anonymous users cannot access SCIM resources');
     }
+
+    return String(mreq.userId); // SCIMMYRouters requires the userId to be a string.
+  }
+
+  async function getContext(req: express.Request): Promise<RequestContext> {
+    const mreq = req as RequestWithLogin;
+    const isAdmin = await installAdmin.isAdminReq(mreq);
+    const isScimUser = Boolean(
+      process.env.GRIST_SCIM_EMAIL && mreq.user?.loginEmail === process.env.GRIST_SCIM_EMAIL
+    );
+    const path = mreq.path;
+    return { isAdmin, isScimUser, path };
+  }
+
+  // Bulk requests are handled here rather than by SCIMMYRouters, see applyBulkRequest() for why.
+  v2.post('/Bulk', async (req, res, next) => {
+    res.setHeader('Content-Type', 'application/scim+json');
+    try {
+      await authenticate(req);
+    } catch (ex) {
+      res.status(401).send(new SCIMMY.Messages.ErrorResponse({status: 401, message: ex.message}));
+      return;
+    }
+    if (Number(req.header('content-length')) > bulkConfig.maxPayloadSize) {
+      res.status(413).send(new SCIMMY.Messages.ErrorResponse(new SCIMMY.Types.Error(
+        413, null!, `The size of the bulk operation exceeds maxPayloadSize limit (${bulkConfig.maxPayloadSize})`
+      )));
+      return;
+    }
+    next();
+  }, express.json({
+    type: ['application/scim+json', 'application/json'], limit: bulkConfig.maxPayloadSize
+  }), async (req, res) => {
+    try {
+      for (const resource of Object.values(SCIMMY.Resources.declared())) {
+        resource.basepath(req.baseUrl);
+      }
+      res.status(200).send(await applyBulkRequest(req.body, await getContext(req), bulkConfig.maxOperations));
+    } catch (ex) {
+      const error = ex instanceof SCIMMY.Types.Error ? ex : new SCIMMY.Types.Error(500, null!, ex.message);
+      res.status(error.status).send(new SCIMMY.Messages.ErrorResponse(error));
+    }
+  });
+
+  const scimmyRouter = new SCIMMYRouters({
+    type: 'bearer',
+    handler: authenticate,
+    context: getContext,
   });
 
   return v2.use('/', scimmyRouter);
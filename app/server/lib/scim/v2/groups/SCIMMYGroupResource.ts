@@ -0,0 +1,72 @@
+import SCIMMY from 'scimmy';
+
+type GroupSchema = SCIMMY.Schemas.Group;
+type GroupMember = NonNullable<GroupSchema["members"]>[number];
+
+export interface GroupMembersPatch {
+  add: GroupMember[];
+  remove: GroupMember[];
+}
+
+export type MembersPatchHandler = (
+  resource: SCIMMYGroupResource, patch: GroupMembersPatch, ctx: any
+) => Promise<GroupSchema>;
+
+/**
+ * SCIMMY Group Resource which applies PATCH requests that only add or remove members as
+ * incremental changes to the membership of the group, instead of overwriting the whole group
+ * with its patched representation like SCIMMY does. This way, concurrent requests changing
+ * different members (as IdPs commonly send when provisioning) do not undo each other.
+ *
+ * PATCH requests which change anything else than the members are handled by SCIMMY.
+ */
+export class SCIMMYGroupResource extends SCIMMY.Resources.Group {
+  /**
+   * Sets the method to be called to add and remove members of a group on PATCH.
+   */
+  public static membersPatcher(handler: MembersPatchHandler) {
+    SCIMMYGroupResource._membersPatcher = handler;
+    return this;
+  }
+
+  private static _membersPatcher?: MembersPatchHandler;
+
+  /**
+   * @implements {SCIMMY.Types.Resource#patch}
+   * @see SCIMMY.Messages.PatchOp
+   */
+  public async patch(message: any, ctx?: any): Promise<GroupSchema> {
+    const handler = SCIMMYGroupResource._membersPatcher;
+    if (!handler || !this.id || Object(message) !== message || Array.isArray(message)) {
+      // Let SCIMMY handle (and report errors of) anything we don't expect.
+      return await super.patch(message, ctx);
+    }
+
+    // Apply the operations to the current representation of the group, so that SCIMMY takes care
+    // of validating them and of resolving their paths and filters.
+    const source = await this.read(ctx) as GroupSchema;
+    const target = await new SCIMMY.Messages.PatchOp(message).apply(source);
+    if (!target) {
+      // Nothing changed. NOTE: the types say otherwise, but SCIMMY does return undefined in this case.
+      return undefined!;
+    }
+    if (target.displayName !== source.displayName) {
+      return await this.write(target, ctx);
+    }
+
+    const group = await handler(this, {
+      add: subtractMembers(target.members, source.members),
+      remove: subtractMembers(source.members, target.members),
+    }, ctx);
+    return new SCIMMY.Schemas.Group(group, "out", SCIMMYGroupResource.basepath() as string, this.attributes);
+  }
+}
+
+/**
+ * Returns the members of `members` which are not in `others`.
+ */
+function subtractMembers(members: GroupMember[] = [], others: GroupMember[] = []): GroupMember[] {
+  const memberKey = (member: GroupMember) => `${member.type}:${member.value}`;
+  const otherKeys = new Set(others.map(memberKey));
+  return members.filter(member => !otherKeys.has(memberKey(member)));
+}
@@ -1,6 +1,7 @@
 import {ApiError} from 'app/common/ApiError';
 import {InactivityTimer} from 'app/common/InactivityTimer';
-import {FetchUrlOptions, FileUploadResult, UPLOAD_URL_PATH, UploadResult} from 'app/common/uploads';
+import {FetchUrlOptions, FileUploadResult, JsonApiSource, UPLOAD_URL_PATH,
+        UploadResult} from 'app/common/uploads';
 import {getUrlFromPrefix} from 'app/common/UserAPI';
 import {getAuthorizedUserId, getTransitiveHeaders, getUserId, isSingleUserMode,
         RequestWithLogin} from 'app/server/lib/Authorizer';
@@ -32,8 +33,11 @@ import {getDocWorkerInfoOrSelfPrefix} from 'app/server/lib/DocWorkerUtils';
 // for an hour, it will get cleaned up. TODO Address that; perhaps just with some UI messages.
 const INACTIVITY_CLEANUP_MS = 60 * 60 * 1000;     // an hour, very generously.
 
+// Limit on the number of pages fetched for a single import from a JSON API.
+const JSON_API_MAX_PAGES = 100;
+
 // A hook for dependency injection.
-export const Deps = {fetch: fetchUntrustedWithAgent, INACTIVITY_CLEANUP_MS};
+export const Deps = {fetch: fetchUntrustedWithAgent, INACTIVITY_CLEANUP_MS, JSON_API_MAX_PAGES};
 
 // An optional UploadResult, with parameters.
 export interface FormResult {
@@ -479,13 +483,120 @@ async function _fetchURL(url: string, accessId: string|null, options?: FetchUrlO
     const uploadId = globalUploadSet.registerUpload([uploadedFile], tmpDir, cleanupCallback, accessId);
     return {uploadId, files: [pick(uploadedFile, ['origName', 'size', 'ext'])]};
   } catch(err) {
-    if (err?.code === "EPROTO" || // https vs http error
-        err?.code === "ECONNREFUSED" || // server does not listen
-        err?.code === "ENOTFOUND") { // could not resolve domain
-      throw new ApiError(`Can't connect to the server. The URL seems to be invalid. Error code ${err.code}`, 400);
+    throw _convertConnectionError(err);
+  }
+}
+
+/**
+ * Register a new upload with records fetched from a JSON REST endpoint, following pagination as
+ * described by `source`. The upload consists of a single JSON file holding the array of records
+ * collected from all pages.
+ */
+export async function fetchJsonApi(source: JsonApiSource, accessId: string|null): Promise<UploadResult> {
+  const records: unknown[] = [];
+  const pagination = source.pagination;
+  let pageNum = pagination?.type === 'page-param' ? (pagination.start ?? 1) : 0;
+  let url: string|null = _getJsonApiPageUrl(source, pageNum);
+  const seenUrls = new Set<string>();
+  try {
+    while (url && !seenUrls.has(url)) {
+      if (seenUrls.size >= Deps.JSON_API_MAX_PAGES) {
+        throw new ApiError(`Too many pages of records (more than ${Deps.JSON_API_MAX_PAGES})`, 400);
+      }
+      seenUrls.add(url);
+      let response: FetchResponse;
+      ({response, url} = await _fetchJsonApiPage(url, source));
+      await _checkForError(response);
+      const body = await response.json().catch(() => {
+        throw new ApiError(`Response from ${url} is not valid JSON`, 400);
+      });
+      const pageRecords = getJsonPath(body, source.recordPath);
+      if (!Array.isArray(pageRecords)) {
+        throw new ApiError(`No array of records found at "${source.recordPath || ''}" in response from ${url}`, 400);
+      }
+      records.push(...pageRecords);
+      if (pagination?.type === 'next-link') {
+        const next = getJsonPath(body, pagination.nextPath);
+        url = (typeof next === 'string' && next) ? new URL(next, url).href : null;
+      } else if (pagination?.type === 'page-param' && pageRecords.length > 0) {
+        url = _getJsonApiPageUrl(source, ++pageNum);
+      } else {
+        url = null;
+      }
     }
-    throw err;
+  } catch(err) {
+    throw _convertConnectionError(err);
+  }
+
+  const {tmpDir, cleanupCallback} = await createTmpDir({});
+  const destPath = path.join(tmpDir, 'upload-content.json');
+  await fse.writeFile(destPath, JSON.stringify(records));
+  const uploadedFile: FileUploadInfo = {
+    absPath: path.resolve(destPath),
+    origName: (path.basename(new URL(source.url).pathname) || 'records').replace(/(\.json)?$/, '.json'),
+    size: (await fse.stat(destPath)).size,
+    ext: '.json',
+  };
+  log.debug(`done fetching ${records.length} records from ${seenUrls.size} pages of ${source.url}`);
+  const uploadId = globalUploadSet.registerUpload([uploadedFile], tmpDir, cleanupCallback, accessId);
+  return {uploadId, files: [pick(uploadedFile, ['origName', 'size', 'ext'])]};
+}
+
+/**
+ * Returns the value at the given dot-separated path within a parsed JSON value, or undefined if
+ * there is nothing there. An empty path returns the value itself.
+ */
+export function getJsonPath(value: any, jsonPath: string|undefined): unknown {
+  const parts = (jsonPath || '').replace(/^\$\.?/, '').split('.').filter(Boolean);
+  for (const part of parts) {
+    if (value === null || typeof value !== 'object') { return undefined; }
+    value = value[part];
+  }
+  return value;
+}
+
+/**
+ * Fetches `url`, following up to 10 redirects. The headers of `source` are only sent to the
+ * origin of its URL, since they may hold credentials, and links to further pages or redirects may
+ * lead elsewhere. Returns the response and the URL it came from.
+ */
+async function _fetchJsonApiPage(url: string, source: JsonApiSource): Promise<{response: FetchResponse, url: string}> {
+  const origin = new URL(source.url).origin;
+  for (let redirects = 0; ; redirects++) {
+    const headers = new URL(url).origin === origin ? source.headers : undefined;
+    const response = await Deps.fetch(url, {redirect: 'manual', headers});
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return {response, url};
+    }
+    if (redirects >= 10) {
+      throw new ApiError(`Too many redirects from ${source.url}`, 400);
+    }
+    url = new URL(location, url).href;
+  }
+}
+
+function _getJsonApiPageUrl(source: JsonApiSource, pageNum: number): string {
+  let url: URL;
+  try {
+    url = new URL(source.url);
+  } catch (err) {
+    throw new ApiError(`Invalid URL: ${source.url}`, 400);
+  }
+  if (source.pagination?.type === 'page-param') {
+    url.searchParams.set(source.pagination.param, String(pageNum));
+  }
+  return url.href;
+}
+
+// Replaces low-level errors from failing to reach a server with a more helpful ApiError.
+function _convertConnectionError(err: any) {
+  if (err?.code === "EPROTO" || // https vs http error
+      err?.code === "ECONNREFUSED" || // server does not listen
+      err?.code === "ENOTFOUND") { // could not resolve domain
+    return new ApiError(`Can't connect to the server. The URL seems to be invalid. Error code ${err.code}`, 400);
   }
+  return err;
 }
 
 /**
@@ -1010,6 +1010,73 @@ const AuditEvents: AuditEvents = {
       },
     },
   },
+  "document.remove_import_config": {
+    type: ["installation", "site"],
+    description: "An import configuration was removed from a document.",
+    properties: {
+      document: {
+        type: "object",
+        description: "The document.",
+        properties: {
+          id: {
+            type: "string",
+            description: "The document ID.",
+          },
+        },
+      },
+      import_config: {
+        type: "object",
+        description: "The removed import configuration.",
+        properties: {
+          name: {
+            type: "string",
+            description: "The name of the import configuration.",
+          },
+          source: {
+            type: "object",
+            description:
+              "Where the data was imported from. Values of headers sent to a JSON API are not included.",
+            properties: {
+              type: {
+                type: "string",
+                description: "The type of source: `file`, `url` or `json-api`.",
+              },
+            },
+          },
+          parseOptions: {
+            type: "object",
+            description: "The options used to parse imported files.",
+            properties: {},
+          },
+          transforms: {
+            type: "object",
+            description: "The column mapping of each imported table, by original table name.",
+            properties: {},
+          },
+          mergeOptions: {
+            type: "object",
+            description: "How records are merged into existing tables, by original table name.",
+            properties: {},
+          },
+        },
+      },
+    },
+    sample: {
+      document: {
+        id: "mRM8ydxxLkc6Ewo56jsDGx",
+      },
+      import_config: {
+        name: "Weekly sales",
+        source: {
+          type: "url",
+          url: "https://example.com/sales.csv",
+        },
+        parseOptions: {},
+        transforms: {},
+        mergeOptions: {},
+      },
+    },
+  },
   "document.rename": {
     type: ["installation", "site"],
     description: "A document was renamed.",
@@ -1183,9 +1250,9 @@ const AuditEvents: AuditEvents = {
             description: "The SQL statement.",
           },
           arguments: {
-            type: "Array<string | number>",
+            type: "Array<string | number> | Record<string, string | number>",
             description:
-              "The arguments passed to parameters in the SQL statement.",
+              "The arguments passed to parameters in the SQL statement, by position or by name.",
             optional: true,
           },
         },
@@ -1200,6 +1267,16 @@ const AuditEvents: AuditEvents = {
               "Timeout in milliseconds after which operations on the document will be interrupted.",
             optional: true,
           },
+          limit: {
+            type: "number",
+            description: "The maximum number of records to return.",
+            optional: true,
+          },
+          cursor: {
+            type: "string",
+            description: "The cursor of the page of results that was requested.",
+            optional: true,
+          },
         },
       },
     },
@@ -1216,6 +1293,110 @@ const AuditEvents: AuditEvents = {
       },
     },
   },
+  "document.save_import_config": {
+    type: ["installation", "site"],
+    description: "An import configuration was saved in a document.",
+    properties: {
+      document: {
+        type: "object",
+        description: "The document.",
+        properties: {
+          id: {
+            type: "string",
+            description: "The document ID.",
+          },
+        },
+      },
+      import_config: {
+        type: "object",
+        description: "The saved import configuration.",
+        properties: {
+          name: {
+            type: "string",
+            description: "The name of the import configuration.",
+          },
+          source: {
+            type: "object",
+            description:
+              "Where the data was imported from. Values of headers sent to a JSON API are not included.",
+            properties: {
+              type: {
+                type: "string",
+                description: "The type of source: `file`, `url` or `json-api`.",
+              },
+            },
+          },
+          parseOptions: {
+            type: "object",
+            description: "The options used to parse imported files.",
+            properties: {},
+          },
+          transforms: {
+            type: "object",
+            description: "The column mapping of each imported table, by original table name.",
+            properties: {},
+          },
+          mergeOptions: {
+            type: "object",
+            description: "How records are merged into existing tables, by original table name.",
+            properties: {},
+          },
+        },
+      },
+      previous_import_config: {
+        type: "object",
+        description: "The import configuration with the same name that was replaced, if any.",
+        optional: true,
+        properties: {
+          name: {
+            type: "string",
+            description: "The name of the import configuration.",
+          },
+          source: {
+            type: "object",
+            description:
+              "Where the data was imported from. Values of headers sent to a JSON API are not included.",
+            properties: {
+              type: {
+                type: "string",
+                description: "The type of source: `file`, `url` or `json-api`.",
+              },
+            },
+          },
+          parseOptions: {
+            type: "object",
+            description: "The options used to parse imported files.",
+            properties: {},
+          },
+          transforms: {
+            type: "object",
+            description: "The column mapping of each imported table, by original table name.",
+            properties: {},
+          },
+          mergeOptions: {
+            type: "object",
+            description: "How records are merged into existing tables, by original table name.",
+            properties: {},
+          },
+        },
+      },
+    },
+    sample: {
+      document: {
+        id: "mRM8ydxxLkc6Ewo56jsDGx",
+      },
+      import_config: {
+        name: "Weekly sales",
+        source: {
+          type: "url",
+          url: "https://example.com/sales.csv",
+        },
+        parseOptions: {},
+        transforms: {},
+        mergeOptions: {},
+      },
+    },
+  },
   "document.send_to_google_drive": {
     type: ["installation", "site"],
     description: "A document was sent to Google Drive.",
@@ -151,6 +151,31 @@ class TestTriggerFormulas(test_engine.EngineTestCase):
       'Oceans': {'#lookup#': 4},
     })
 
+  def test_recalc_trigger_formulas_action(self):
+    # RecalcTriggerFormulas recomputes every trigger formula of a table, regardless of when it
+    # normally recalculates, but leaves other columns alone.
+    self.load_sample(self.sample)
+    self.add_record("Creatures", Name="Shark", Ocean=1)
+    self.update_record("Oceans", 1, Head="Susanoo")
+    self.assertTableData("Creatures", data=[
+      ["id","Name",    "Ocean", "BossDef",   "BossNvr", "BossUpd",   "BossAll",   "OceanName"],
+      [1,   "Dolphin", 2,       "Arthur",    "Arthur",  "Arthur",    "Arthur",    "Atlantic" ],
+      [2,   "Shark",   1,       "Watatsumi", "",        "Watatsumi", "Watatsumi", "Pacific"  ],
+    ])
+    self.apply_user_action(["RecalcTriggerFormulas", "Creatures"])
+    self.assertTableData("Creatures", data=[
+      ["id","Name",    "Ocean", "BossDef",   "BossNvr", "BossUpd",   "BossAll",   "OceanName"],
+      [1,   "Dolphin", 2,       "Poseidon",  "Poseidon", "Poseidon", "Poseidon",  "Atlantic" ],
+      [2,   "Shark",   1,       "Susanoo",   "Susanoo", "Susanoo",   "Susanoo",   "Pacific"  ],
+    ])
+    self.assertTableData("Oceans", cols="subset", data=[
+      ["id",  "Name",     "Head"],
+      [1,     "Pacific",    "Susanoo"],
+      [2,     "Atlantic",   "Poseidon"],
+      [3,     "Indian",     "Neptune"],
+      [4,     "Arctic",     "Poseidon"],
+    ])
+
 
   def test_recalc_undo(self):
     self.load_sample(self.sample)
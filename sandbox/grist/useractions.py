@@ -357,6 +357,17 @@ class UserActions(object):
     """
     self._engine.update_current_time()
 
+  @useraction
+  def RecalcTriggerFormulas(self, table_id):
+    """
+    Recompute all trigger formulas (data columns with a formula) of the given table, for every
+    record, as done by webhooks scheduled for it.
+    """
+    table = self._engine.tables[table_id]
+    for col_obj in table.all_columns.values():
+      if not col_obj.is_formula() and col_obj.has_formula():
+        self._engine.invalidate_column(col_obj, recompute_data_col=True)
+
   @useraction
   def RespondToRequests(self, responses, cached_keys):
     """
@@ -2476,7 +2487,7 @@ class UserActions(object):
       self._docmodel.remove(section_rec.fields)
 
     section_type = section_rec.parentKey
-    is_card = section_type in ('single', 'detail')
+    is_card = section_type in ('single', 'detail', 'kanban')
     is_record_card = section_rec == table_rec.recordCardViewSectionRef
     if is_card and not is_record_card:
       # Copy settings from the table's record card section to the new section.
@@ -1,8 +1,115 @@
+import {makeT} from 'app/client/lib/localization';
+import {reportError} from 'app/client/models/AppModel';
 import {DocInfo} from 'app/client/models/DocPageModel';
+import {AdminSection, AdminSectionItem} from 'app/client/ui/AdminPanelCss';
+import {select} from 'app/client/ui2018/menus';
+import {DigestFrequency, DocPrefs, FullDocPrefs, getNotificationPrefs, NotificationPrefs} from 'app/common/Prefs';
+import {isOwner} from 'app/common/roles';
+import {getGristConfig} from 'app/common/urlUtils';
 import {DocAPI} from 'app/common/UserAPI';
-import {DomContents, IDisposableOwner} from 'grainjs';
+import {Computed, dom, DomContents, IDisposableOwner, makeTestId, Observable, styled} from 'grainjs';
 
-// This is a stub, to be overridden in versions of Grist that implement Notifications.
+const t = makeT('Notifications');
+const testId = makeTestId('test-notifications-');
+
+/**
+ * What to get notified about, as offered in the UI. Each level is a combination of the comments
+ * and docChanges NotificationPrefs.
+ */
+type NotificationLevel = 'none'|'mentions'|'comments'|'changes';
+
+function getLevel(prefs: Required<NotificationPrefs>): NotificationLevel {
+  return prefs.docChanges ? 'changes' :
+    prefs.comments === 'all' ? 'comments' :
+    prefs.comments === 'relevant' ? 'mentions' :
+    'none';
+}
+
+function getLevelPrefs(level: NotificationLevel): NotificationPrefs {
+  switch (level) {
+    case 'changes': return {comments: 'all', docChanges: true};
+    case 'comments': return {comments: 'all', docChanges: false};
+    case 'mentions': return {comments: 'relevant', docChanges: false};
+    case 'none': return {comments: 'none', docChanges: false};
+  }
+}
+
+/**
+ * Builds the section of the document settings where users choose which email notifications to
+ * get about the document, and where owners choose the defaults for everyone else. This is the
+ * core implementation, which other versions of Grist may override. Shows nothing when
+ * notifications aren't set up, or when the user may not have prefs for this document (e.g. when
+ * viewing a public document anonymously).
+ */
 export function buildNotificationsConfig(owner: IDisposableOwner, docAPI: DocAPI, doc: DocInfo|null): DomContents {
-  return null;
+  if (!getGristConfig().notifierEnabled || !doc || doc.isFork) { return null; }
+
+  const prefs = Observable.create<FullDocPrefs|null>(owner, null);
+  docAPI.getDocPrefs()
+    .then(value => prefs.isDisposed() || prefs.set(value))
+    .catch(() => { /* Not available to this user: leave the section out. */ });
+
+  // Saves the given notification prefs, merged into the existing ones, either for the current
+  // user or as the document's defaults.
+  async function save(scope: keyof FullDocPrefs, notifications: NotificationPrefs) {
+    const current = prefs.get();
+    if (!current) { return; }
+    const docPrefs: DocPrefs = {...current[scope], notifications: {...current[scope].notifications, ...notifications}};
+    try {
+      await docAPI.setDocPrefs({[scope]: docPrefs});
+      prefs.set({...current, [scope]: docPrefs});
+    } catch (e) {
+      reportError(e);
+    }
+  }
+
+  const effective = Computed.create(owner, use =>
+    getNotificationPrefs(use(prefs)?.docDefaults, use(prefs)?.currentUser));
+  const level = Computed.create(owner, use => getLevel(use(effective)))
+    .onWrite(value => save('currentUser', getLevelPrefs(value)));
+  const digest = Computed.create(owner, use => use(effective).digest)
+    .onWrite(value => save('currentUser', {digest: value}));
+  const defaultLevel = Computed.create(owner, use => getLevel(getNotificationPrefs(use(prefs)?.docDefaults, undefined)))
+    .onWrite(value => save('docDefaults', getLevelPrefs(value)));
+
+  const levelOptions = [
+    {value: 'none' as const, label: t("Nothing")},
+    {value: 'mentions' as const, label: t("Mentions only")},
+    {value: 'comments' as const, label: t("All comments")},
+    {value: 'changes' as const, label: t("All changes")},
+  ];
+  const digestOptions = [
+    {value: 'hourly' as const, label: t("Hourly")},
+    {value: 'daily' as const, label: t("Daily")},
+  ];
+
+  return dom.maybe(use => Boolean(use(prefs)), () =>
+    dom.create(AdminSection, t('Notifications'), [
+      dom.create(AdminSectionItem, {
+        id: 'notifications',
+        name: t('Email me about'),
+        description: t('Mentions of you and replies to you, all comments, or all changes'),
+        value: dom.update(cssSelect<NotificationLevel>(level, levelOptions), testId('level')),
+      }),
+      dom.create(AdminSectionItem, {
+        id: 'notificationsDigest',
+        name: t('Changes digest'),
+        description: t('How often to send a summary of changes'),
+        value: dom.update(cssSelect<DigestFrequency>(digest, digestOptions, {
+          disabled: use => use(level) !== 'changes',
+        }), testId('digest')),
+      }),
+      dom.create(AdminSectionItem, {
+        id: 'notificationsDefault',
+        name: t('Default for collaborators'),
+        description: t("What collaborators are emailed about until they choose"),
+        value: dom.update(cssSelect<NotificationLevel>(defaultLevel, levelOptions), testId('default-level')),
+        disabled: isOwner(doc) ? false : t('Only available to document owners'),
+      }),
+    ])
+  );
 }
+
+const cssSelect = styled(select, `
+  width: 100%;
+`) as typeof select;
@@ -0,0 +1,99 @@
+import {ActionGroup} from 'app/common/ActionGroup';
+import {ActionSummary, createEmptyActionSummary, createEmptyTableDelta, TableDelta} from 'app/common/ActionSummary';
+import {getCellHistory} from 'app/common/CellHistory';
+import {assert} from 'chai';
+
+describe('CellHistory', function() {
+  let actionNum = 0;
+
+  // Creates an action group from a partial summary, with a table delta for each given table.
+  function makeGroup(user: string, tables: {[tableId: string]: Partial<TableDelta>},
+                     tableRenames: ActionSummary['tableRenames'] = []): ActionGroup {
+    actionNum++;
+    const actionSummary = createEmptyActionSummary();
+    actionSummary.tableRenames = tableRenames;
+    for (const [tableId, delta] of Object.entries(tables)) {
+      actionSummary.tableDeltas[tableId] = {...createEmptyTableDelta(), ...delta};
+    }
+    return {
+      actionNum, actionHash: `hash${actionNum}`, fromSelf: false, linkId: 0, otherId: 0, rowIdHint: 0,
+      isUndo: false, actionSummary, time: 1000 * actionNum, user, primaryAction: 'UpdateRecord', internal: false,
+    };
+  }
+
+  function summarize(groups: ActionGroup[], cell: {tableId: string, colId: string, rowId: number}) {
+    return getCellHistory(groups, cell).map(({actionNum: num, user, tableId, colId, before, after, rowAdded}) =>
+      ({num, user, tableId, colId, before, after, rowAdded}));
+  }
+
+  beforeEach(function() {
+    actionNum = 0;
+  });
+
+  it('should list changes to a cell, most recent first', function() {
+    const groups = [
+      makeGroup('alice', {Table1: {addRows: [1], columnDeltas: {A: {1: [null, ['x']]}}}}),
+      makeGroup('bob', {Table1: {updateRows: [1, 2], columnDeltas: {A: {1: [['x'], ['y']], 2: [['p'], ['q']]}}}}),
+      makeGroup('carol', {Table1: {updateRows: [1], columnDeltas: {B: {1: [[1], [2]]}}}}),
+      makeGroup('dave', {Table1: {updateRows: [1], columnDeltas: {A: {1: [['y'], ['z']]}}}}),
+    ];
+    assert.deepEqual(summarize(groups, {tableId: 'Table1', colId: 'A', rowId: 1}), [
+      {num: 4, user: 'dave', tableId: 'Table1', colId: 'A', before: 'y', after: 'z', rowAdded: undefined},
+      {num: 2, user: 'bob', tableId: 'Table1', colId: 'A', before: 'x', after: 'y', rowAdded: undefined},
+      {num: 1, user: 'alice', tableId: 'Table1', colId: 'A', before: undefined, after: 'x', rowAdded: true},
+    ]);
+    assert.deepEqual(summarize(groups, {tableId: 'Table1', colId: 'B', rowId: 1}), [
+      {num: 3, user: 'carol', tableId: 'Table1', colId: 'B', before: 1, after: 2, rowAdded: undefined},
+    ]);
+    assert.deepEqual(summarize(groups, {tableId: 'Table1', colId: 'A', rowId: 3}), []);
+  });
+
+  it('should stop at the action that added the row, column, or table', function() {
+    const groups = [
+      makeGroup('alice', {Table1: {updateRows: [5], columnDeltas: {A: {5: [['old'], ['older']]}}}}),
+      makeGroup('bob', {Table1: {removeRows: [5], columnDeltas: {A: {5: [['older'], null]}}}}),
+      makeGroup('carol', {Table1: {addRows: [5], columnDeltas: {A: {5: [null, ['new']]}}}}),
+    ];
+    assert.deepEqual(summarize(groups, {tableId: 'Table1', colId: 'A', rowId: 5}).map(e => e.user), ['carol']);
+
+    const colGroups = [
+      makeGroup('alice', {Table1: {updateRows: [1], columnDeltas: {A: {1: [[1], [2]]}}}}),
+      makeGroup('bob', {Table1: {columnRenames: [['A', null]]}}),
+      makeGroup('carol', {Table1: {columnRenames: [[null, 'A']]}}),
+      makeGroup('dave', {Table1: {updateRows: [1], columnDeltas: {A: {1: [[null], [3]]}}}}),
+    ];
+    assert.deepEqual(summarize(colGroups, {tableId: 'Table1', colId: 'A', rowId: 1}).map(e => e.user), ['dave']);
+
+    const tableGroups = [
+      makeGroup('alice', {Table1: {updateRows: [1], columnDeltas: {A: {1: [[1], [2]]}}}}),
+      makeGroup('bob', {}, [['Table1', null]]),
+      makeGroup('carol', {}, [[null, 'Table1']]),
+      makeGroup('dave', {Table1: {updateRows: [1], columnDeltas: {A: {1: [[null], [3]]}}}}),
+    ];
+    assert.deepEqual(summarize(tableGroups, {tableId: 'Table1', colId: 'A', rowId: 1}).map(e => e.user), ['dave']);
+  });
+
+  it('should follow renames of tables and columns', function() {
+    const groups = [
+      makeGroup('alice', {Old: {updateRows: [1], columnDeltas: {X: {1: [['a'], ['b']]}}}}),
+      makeGroup('bob', {Old: {columnRenames: [['X', 'Y']]}}),
+      makeGroup('carol', {Old: {updateRows: [1], columnDeltas: {Y: {1: [['b'], ['c']]}}}}),
+      makeGroup('dave', {}, [['Old', 'New']]),
+      makeGroup('erin', {New: {updateRows: [1], columnDeltas: {Y: {1: [['c'], ['d']]}}}}),
+    ];
+    assert.deepEqual(summarize(groups, {tableId: 'New', colId: 'Y', rowId: 1}).map(e => [e.num, e.tableId, e.colId]), [
+      [5, 'New', 'Y'],
+      [3, 'Old', 'Y'],
+      [1, 'Old', 'X'],
+    ]);
+  });
+
+  it('should leave out values that are unknown', function() {
+    const groups = [
+      makeGroup('alice', {Table1: {updateRows: [1], columnDeltas: {A: {1: ["?", ['b']]}}}}),
+      makeGroup('bob', {Table1: {updateRows: [1], columnDeltas: {A: {1: [['b'], "?"]}}}}),
+    ];
+    const history = getCellHistory(groups, {tableId: 'Table1', colId: 'A', rowId: 1});
+    assert.deepEqual(history.map(e => ['before' in e, 'after' in e]), [[true, false], [false, true]]);
+  });
+});
@@ -0,0 +1,55 @@
+import {CronSchedule, isValidTimezone} from 'app/common/CronSchedule';
+import {assert} from 'chai';
+
+describe('CronSchedule', function() {
+  const utc = (text: string) => Date.parse(text + 'Z');
+  const iso = (time: number|null) => time === null ? null : new Date(time).toISOString();
+
+  it('should reject invalid expressions', function() {
+    assert.throws(() => CronSchedule.parse('* * * *'), /must have 5 fields/);
+    assert.throws(() => CronSchedule.parse('60 * * * *'), /Invalid minute in cron expression: "60"/);
+    assert.throws(() => CronSchedule.parse('* 5-2 * * *'), /Invalid hour/);
+    assert.throws(() => CronSchedule.parse('* * 0 * *'), /Invalid day of month/);
+    assert.throws(() => CronSchedule.parse('* * * foo *'), /Invalid month/);
+    assert.throws(() => CronSchedule.parse('*/0 * * * *'), /Invalid minute/);
+    assert.throws(() => CronSchedule.parse('* * * * 8'), /Invalid day of week/);
+  });
+
+  it('should find the next run', function() {
+    // Every Monday at 9:00. 2024-01-01 is a Monday.
+    const mondays = CronSchedule.parse('0 9 * * 1');
+    assert.equal(iso(mondays.nextRun(utc('2024-01-01T08:59:30'), 'UTC')), '2024-01-01T09:00:00.000Z');
+    assert.equal(iso(mondays.nextRun(utc('2024-01-01T09:00:00'), 'UTC')), '2024-01-08T09:00:00.000Z');
+    assert.equal(iso(CronSchedule.parse('0 9 * * mon').nextRun(utc('2024-01-02T00:00:00'), 'UTC')),
+                 '2024-01-08T09:00:00.000Z');
+
+    // Steps, ranges and lists.
+    const steps = CronSchedule.parse('*/15 8-10 * * *');
+    assert.equal(iso(steps.nextRun(utc('2024-01-01T08:20:00'), 'UTC')), '2024-01-01T08:30:00.000Z');
+    assert.equal(iso(steps.nextRun(utc('2024-01-01T10:45:00'), 'UTC')), '2024-01-02T08:00:00.000Z');
+    assert.equal(iso(CronSchedule.parse('0 0 1,15 jan,jul *').nextRun(utc('2024-01-20T00:00:00'), 'UTC')),
+                 '2024-07-01T00:00:00.000Z');
+
+    // Sunday may be given as 7.
+    assert.equal(iso(CronSchedule.parse('30 23 * * 7').nextRun(utc('2024-01-01T00:00:00'), 'UTC')),
+                 '2024-01-07T23:30:00.000Z');
+
+    // When both days of month and of week are given, either of them may match.
+    assert.equal(iso(CronSchedule.parse('0 0 13 * 5').nextRun(utc('2024-01-01T00:00:00'), 'UTC')),
+                 '2024-01-05T00:00:00.000Z');
+
+    // Schedules that never fire.
+    assert.equal(CronSchedule.parse('0 0 30 2 *').nextRun(utc('2024-01-01T00:00:00'), 'UTC'), null);
+  });
+
+  it('should respect timezones', function() {
+    const nine = CronSchedule.parse('0 9 * * *');
+    assert.equal(iso(nine.nextRun(utc('2024-01-01T00:00:00'), 'America/New_York')), '2024-01-01T14:00:00.000Z');
+    // Daylight saving time is taken into account.
+    assert.equal(iso(nine.nextRun(utc('2024-07-01T00:00:00'), 'America/New_York')), '2024-07-01T13:00:00.000Z');
+    assert.isTrue(nine.matches(utc('2024-07-01T13:00:45'), 'America/New_York'));
+    assert.isFalse(nine.matches(utc('2024-07-01T13:00:45'), 'UTC'));
+    assert.isTrue(isValidTimezone('Europe/Paris'));
+    assert.isFalse(isValidTimezone('Mars/Olympus_Mons'));
+  });
+});
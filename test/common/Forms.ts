@@ -0,0 +1,73 @@
+import {FormConditionalNode, getHiddenFormLeaves, isFormConditionMet} from 'app/common/Forms';
+import {CellValue, GristObjCode} from 'app/plugin/GristData';
+import {assert} from 'chai';
+
+describe('Forms', function() {
+  const L = GristObjCode.List;
+
+  describe('isFormConditionMet', function() {
+    const check = (value: CellValue, op: any, ruleValue?: string) =>
+      isFormConditionMet({rules: [{leaf: 1, op, value: ruleValue}]}, () => value);
+
+    it('should compare answers as strings', function() {
+      assert.isTrue(check('Other', 'is', 'Other'));
+      assert.isFalse(check('other', 'is', 'Other'));
+      assert.isTrue(check('Bug', 'isNot', 'Other'));
+      assert.isTrue(check(5, 'is', '5'));
+      assert.isTrue(check('Some text', 'contains', 'TEXT'));
+      assert.isFalse(check(null, 'contains', ''));
+    });
+
+    it('should check list answers by their items', function() {
+      assert.isTrue(check([L, 'A', 'B'], 'is', 'B'));
+      assert.isFalse(check([L, 'A', 'B'], 'isNot', 'B'));
+      assert.isTrue(check([L, 1, 2], 'is', '2'));
+      assert.isTrue(check([L], 'isEmpty'));
+    });
+
+    it('should treat blank and unchecked answers as empty', function() {
+      for (const value of [null, '', false, [L]] as CellValue[]) {
+        assert.isTrue(check(value, 'isEmpty'), `${JSON.stringify(value)} should be empty`);
+        assert.isFalse(check(value, 'isNotEmpty'));
+      }
+      assert.isTrue(check(true, 'isNotEmpty'));
+      assert.isTrue(check(0, 'isNotEmpty'));
+    });
+
+    it('should match all or any rules', function() {
+      const answers: Record<number, CellValue> = {1: 'A', 2: 'B'};
+      const rules = [{leaf: 1, op: 'is' as const, value: 'A'}, {leaf: 2, op: 'is' as const, value: 'A'}];
+      assert.isFalse(isFormConditionMet({rules}, leaf => answers[leaf]));
+      assert.isTrue(isFormConditionMet({match: 'any', rules}, leaf => answers[leaf]));
+      assert.isTrue(isFormConditionMet({rules: []}, leaf => answers[leaf]));
+      assert.isTrue(isFormConditionMet(null, leaf => answers[leaf]));
+    });
+  });
+
+  describe('getHiddenFormLeaves', function() {
+    const layout: FormConditionalNode = {
+      children: [
+        {leaf: 1},
+        {leaf: 2, visibleIf: {rules: [{leaf: 1, op: 'is', value: 'Other'}]}},
+        // Depends on a field that may itself be hidden.
+        {leaf: 3, visibleIf: {rules: [{leaf: 2, op: 'isNotEmpty'}]}},
+        {
+          visibleIf: {rules: [{leaf: 1, op: 'isNotEmpty'}]},
+          children: [{leaf: 4}, {leaf: 5}],
+        },
+      ],
+    };
+
+    it('should hide fields whose conditions fail', function() {
+      const answers: Record<number, CellValue> = {1: 'Other', 2: 'Details'};
+      assert.deepEqual([...getHiddenFormLeaves(layout, leaf => answers[leaf])], []);
+      answers[1] = 'Bug';
+      // Field 2 is hidden, so its answer counts as blank for field 3.
+      assert.deepEqual([...getHiddenFormLeaves(layout, leaf => answers[leaf])], [2, 3]);
+    });
+
+    it('should hide fields in hidden containers', function() {
+      assert.deepEqual([...getHiddenFormLeaves(layout, () => null)], [2, 3, 4, 5]);
+    });
+  });
+});
@@ -518,6 +518,10 @@ export class MockUserAPI implements UserAPI, DocWorkerAPI {
     return [];
   }
 
+  public async unlockShare(shareKey: string, password: string): Promise<void> {
+    throw new Error('Method not implemented.');
+  }
+
   public async closeAccount(userId: number): Promise<boolean> {
     throw new Error('Method not implemented.');
   }
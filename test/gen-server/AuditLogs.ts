@@ -0,0 +1,230 @@
+import {AuditEventAction, AuditLogEvent} from 'app/common/AuditLogs';
+import {AuditLogEntry} from 'app/gen-server/entity/AuditLogEntry';
+import {HomeDBManager} from 'app/gen-server/lib/homedb/HomeDBManager';
+import {deleteExpiredAuditLogEntries} from 'app/server/lib/HomeDBAuditLogger';
+import axios from 'axios';
+import {assert} from 'chai';
+import moment from 'moment';
+import {TestServer} from 'test/gen-server/apiUtils';
+import {configForUser} from 'test/gen-server/testUtils';
+import * as testUtils from 'test/server/testUtils';
+import {waitForIt} from 'test/server/wait';
+
+const chimpy = configForUser('Chimpy');
+const kiwi = configForUser('Kiwi');
+const ham = configForUser('Ham');
+
+describe('AuditLogs', function() {
+  let oldEnv: testUtils.EnvironmentSnapshot;
+  let server: TestServer;
+  let homeUrl: string;
+  let dbManager: HomeDBManager;
+  let orgId: number;
+  let otherOrgId: number;
+
+  testUtils.setTmpLogLevel('error');
+
+  before(async function() {
+    this.timeout(10000);
+    oldEnv = new testUtils.EnvironmentSnapshot();
+    process.env.GRIST_DEFAULT_EMAIL = 'ham@getgrist.com';
+    process.env.GRIST_AUDIT_LOG_STORAGE = 'true';
+    server = new TestServer(this);
+    homeUrl = await server.start();
+    dbManager = server.dbManager;
+    orgId = await dbManager.testGetId('TestAuditLogs') as number;
+    otherOrgId = await dbManager.testGetId('NASA') as number;
+  });
+
+  after(async function() {
+    await server.stop();
+    oldEnv.restore();
+  });
+
+  beforeEach(async function() {
+    await dbManager.connection.manager.clear(AuditLogEntry);
+  });
+
+  let eventNum = 0;
+
+  async function addEvent(options: {
+    action?: AuditEventAction,
+    email?: string,
+    docId?: string,
+    timestamp?: string,
+    orgId?: number,
+  } = {}) {
+    eventNum++;
+    const event: AuditLogEvent = {
+      id: `event${eventNum}`,
+      action: options.action ?? 'document.open',
+      actor: options.email ?
+        {type: 'user', user: {id: 1, name: 'User', email: options.email}} :
+        {type: 'system'},
+      context: {site: {id: options.orgId ?? orgId, name: 'TestAuditLogs', domain: 'testauditlogs'}},
+      timestamp: options.timestamp ?? new Date().toISOString(),
+      ...(options.docId ? {details: {document: {id: options.docId, name: 'Doc'}}} : undefined),
+    };
+    await dbManager.addAuditLogEntry(event);
+    return event;
+  }
+
+  async function getEvents(url: string, config = chimpy) {
+    const resp = await axios.get(url, config);
+    assert.equal(resp.status, 200, JSON.stringify(resp.data));
+    return resp.data;
+  }
+
+  it('GET /api/orgs/:oid/audit-logs/events returns events of the site, most recent first', async function() {
+    const first = await addEvent();
+    const second = await addEvent({action: 'document.duplicate', email: 'chimpy@getgrist.com'});
+    await addEvent({orgId: otherOrgId});
+
+    const data = await getEvents(`${homeUrl}/api/orgs/${orgId}/audit-logs/events`);
+    assert.deepEqual(data, {events: [second, first], nextCursor: null});
+  });
+
+  it('GET /api/orgs/:oid/audit-logs/events is only available to site owners', async function() {
+    await addEvent();
+    let resp = await axios.get(`${homeUrl}/api/orgs/${orgId}/audit-logs/events`, kiwi);
+    assert.equal(resp.status, 403);
+
+    resp = await axios.get(`${homeUrl}/api/orgs/${otherOrgId}/audit-logs/events`, kiwi);
+    assert.equal(resp.status, 403);
+
+    resp = await axios.get(`${homeUrl}/api/orgs/${orgId}/audit-logs/events/download`, kiwi);
+    assert.equal(resp.status, 403);
+  });
+
+  it('GET /api/orgs/:oid/audit-logs/events filters by user, action, document and date', async function() {
+    const old = await addEvent({email: 'Chimpy@getgrist.com', timestamp: '2024-01-01T00:00:00.000Z'});
+    const duplicate = await addEvent({action: 'document.duplicate', docId: 'doc1',
+                                      timestamp: '2024-02-01T00:00:00.000Z'});
+    const recent = await addEvent({email: 'kiwi@getgrist.com', docId: 'doc2', timestamp: '2024-03-01T00:00:00.000Z'});
+
+    const url = `${homeUrl}/api/orgs/${orgId}/audit-logs/events`;
+    assert.deepEqual((await getEvents(`${url}?user=chimpy@getgrist.com`)).events, [old]);
+    assert.deepEqual((await getEvents(`${url}?action=document.duplicate`)).events, [duplicate]);
+    assert.deepEqual((await getEvents(`${url}?docId=doc2`)).events, [recent]);
+    assert.deepEqual((await getEvents(`${url}?since=2024-01-15`)).events, [recent, duplicate]);
+    assert.deepEqual((await getEvents(`${url}?until=2024-02-15`)).events, [duplicate, old]);
+    assert.deepEqual((await getEvents(`${url}?since=2024-01-15&until=2024-02-15`)).events, [duplicate]);
+    assert.deepEqual((await getEvents(`${url}?user=nobody@getgrist.com`)).events, []);
+
+    let resp = await axios.get(`${url}?action=bogus`, chimpy);
+    assert.equal(resp.status, 400);
+    resp = await axios.get(`${url}?since=yesterday`, chimpy);
+    assert.equal(resp.status, 400);
+    resp = await axios.get(`${url}?limit=0`, chimpy);
+    assert.equal(resp.status, 400);
+  });
+
+  it('GET /api/orgs/:oid/audit-logs/events pages through events with a cursor', async function() {
+    const events: AuditLogEvent[] = [];
+    for (let i = 0; i < 5; i++) {
+      events.unshift(await addEvent());
+    }
+
+    const url = `${homeUrl}/api/orgs/${orgId}/audit-logs/events?limit=2`;
+    const page1 = await getEvents(url);
+    assert.deepEqual(page1.events, events.slice(0, 2));
+    assert.isString(page1.nextCursor);
+    const page2 = await getEvents(`${url}&cursor=${page1.nextCursor}`);
+    assert.deepEqual(page2.events, events.slice(2, 4));
+    const page3 = await getEvents(`${url}&cursor=${page2.nextCursor}`);
+    assert.deepEqual(page3, {events: events.slice(4), nextCursor: null});
+  });
+
+  it('GET /api/orgs/:oid/audit-logs/events/download returns matching events as NDJSON', async function() {
+    const first = await addEvent({action: 'document.duplicate'});
+    await addEvent();
+    const third = await addEvent({action: 'document.duplicate'});
+
+    const resp = await axios.get(
+      `${homeUrl}/api/orgs/${orgId}/audit-logs/events/download?action=document.duplicate`,
+      {...chimpy, responseType: 'text'}
+    );
+    assert.equal(resp.status, 200);
+    assert.match(resp.headers['content-type'], /^application\/x-ndjson/);
+    assert.match(resp.headers['content-disposition'], /audit-log-events\.ndjson/);
+    const lines = (resp.data as string).trim().split('\n');
+    assert.deepEqual(lines.map(line => JSON.parse(line)), [third, first]);
+  });
+
+  it('GET /api/install/audit-logs/events returns events of all sites to install admins', async function() {
+    const first = await addEvent();
+    const second = await addEvent({orgId: otherOrgId});
+
+    const data = await getEvents(`${homeUrl}/api/install/audit-logs/events`, ham);
+    assert.deepEqual(data, {events: [second, first], nextCursor: null});
+
+    const resp = await axios.get(`${homeUrl}/api/install/audit-logs/events`, chimpy);
+    assert.equal(resp.status, 403);
+  });
+
+  it('stores events logged through the audit logger', async function() {
+    const resp = await axios.post(`${homeUrl}/api/orgs/${orgId}/workspaces`, {name: 'AuditLogsWs'}, chimpy);
+    assert.equal(resp.status, 200);
+    const workspaceId = resp.data;
+    try {
+      await server.server.getAuditLogger().close();
+      const data = await getEvents(`${homeUrl}/api/orgs/${orgId}/audit-logs/events?action=workspace.create`);
+      assert.lengthOf(data.events, 1);
+      const [event] = data.events;
+      assert.deepEqual(event.actor, {
+        type: 'user',
+        user: {id: await dbManager.testGetId('Chimpy'), name: 'Chimpy', email: 'chimpy@getgrist.com'},
+      });
+      assert.equal(event.context.site.id, orgId);
+      assert.deepEqual(event.details, {workspace: {id: workspaceId, name: 'AuditLogsWs'}});
+    } finally {
+      await axios.delete(`${homeUrl}/api/workspaces/${workspaceId}`, chimpy);
+    }
+  });
+
+  it('GET /api/orgs/:oid/audit-logs/streaming-statuses reports delivery failures', async function() {
+    let resp = await axios.get(`${homeUrl}/api/orgs/${orgId}/audit-logs/streaming-statuses`, chimpy);
+    assert.equal(resp.status, 200);
+    assert.deepEqual(resp.data, []);
+
+    // Stream to a private address, which destinations of sites may not connect to.
+    const destination = {
+      id: 'http1', name: 'http', url: 'http://127.0.0.1:1/events', http: {flushIntervalMs: 0, maxRetries: 0},
+    };
+    resp = await axios.put(`${homeUrl}/api/orgs/${orgId}/configs/audit_log_streaming_destinations`,
+      [destination], chimpy);
+    assert.equal(resp.status, 201);
+    try {
+      resp = await axios.get(`${homeUrl}/api/orgs/${orgId}/audit-logs/streaming-statuses`, kiwi);
+      assert.equal(resp.status, 403);
+
+      resp = await axios.post(`${homeUrl}/api/orgs/${orgId}/workspaces`, {name: 'AuditLogsWs'}, chimpy);
+      assert.equal(resp.status, 200);
+      await axios.delete(`${homeUrl}/api/workspaces/${resp.data}`, chimpy);
+      await waitForIt(async () => {
+        resp = await axios.get(`${homeUrl}/api/orgs/${orgId}/audit-logs/streaming-statuses`, chimpy);
+        assert.equal(resp.status, 200);
+        assert.lengthOf(resp.data, 1);
+        assert.equal(resp.data[0].destinationId, 'http1');
+        assert.isNull(resp.data[0].lastDeliveredAt);
+        assert.isAtLeast(resp.data[0].failedEventsCount, 1);
+        assert.equal(resp.data[0].lastError, 'Connecting to private addresses is not allowed');
+      }, 3000, 100);
+    } finally {
+      await axios.delete(`${homeUrl}/api/orgs/${orgId}/configs/audit_log_streaming_destinations`, chimpy);
+    }
+  });
+
+  it('deletes events past their retention period', async function() {
+    process.env.GRIST_AUDIT_LOG_RETENTION_DAYS = '30';
+    try {
+      await addEvent({timestamp: moment().subtract(31, 'days').toISOString()});
+      const recent = await addEvent({timestamp: moment().subtract(29, 'days').toISOString()});
+      assert.equal(await deleteExpiredAuditLogEntries(dbManager), 1);
+      const data = await getEvents(`${homeUrl}/api/orgs/${orgId}/audit-logs/events`);
+      assert.deepEqual(data.events, [recent]);
+    } finally {
+      delete process.env.GRIST_AUDIT_LOG_RETENTION_DAYS;
+    }
+  });
+});
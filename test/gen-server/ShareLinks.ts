@@ -0,0 +1,174 @@
+import {ShareOptions, ShareSummary} from 'app/common/ShareOptions';
+import {HomeDBManager} from 'app/gen-server/lib/homedb/HomeDBManager';
+import axios, {AxiosRequestConfig} from 'axios';
+import {assert} from 'chai';
+import {TestServer} from 'test/gen-server/apiUtils';
+import {configForUser} from 'test/gen-server/testUtils';
+import * as testUtils from 'test/server/testUtils';
+import {waitForIt} from 'test/server/wait';
+
+const chimpy = configForUser('Chimpy');
+const kiwi = configForUser('Kiwi');
+const anon = configForUser('Anonymous');
+
+describe('ShareLinks', function() {
+  testUtils.setTmpLogLevel('error');
+
+  let server: TestServer;
+  let dbManager: HomeDBManager;
+  let homeUrl: string;
+  let docId: string;
+
+  before(async function() {
+    server = new TestServer(this);
+    homeUrl = await server.start();
+    dbManager = server.dbManager;
+    docId = String(await dbManager.testGetId('Shark'));
+  });
+
+  after(async function() {
+    await dbManager.syncShares(docId, []);
+    await server.stop();
+  });
+
+  async function setShares(shares: {[linkId: string]: ShareOptions}) {
+    await dbManager.syncShares(docId, Object.entries(shares).map(([linkId, options]) => ({
+      linkId, options: JSON.stringify(options),
+    })));
+  }
+
+  async function getShares(config: AxiosRequestConfig = chimpy): Promise<ShareSummary[]> {
+    const resp = await axios.get(`${homeUrl}/api/docs/${docId}/shares`, config);
+    assert.equal(resp.status, 200);
+    return resp.data;
+  }
+
+  async function getKey(linkId: string) {
+    return (await getShares()).find(share => share.linkId === linkId)!.key;
+  }
+
+  // Opens the doc via a share, as the home server sees it.
+  function openShare(key: string, config: AxiosRequestConfig = anon) {
+    return axios.get(`${homeUrl}/api/docs/s.${key}`, config);
+  }
+
+  it('lists shares of a document to its owners', async function() {
+    await setShares({
+      form: {publish: true},
+      link: {publish: true, kind: 'link', access: 'viewers', pages: [1]},
+    });
+    const shares = await getShares();
+    assert.deepEqual(shares.map(({key, ...rest}) => rest), [
+      {linkId: 'form', options: {publish: true}, hasPassword: false, lastUsedAt: null},
+      {
+        linkId: 'link', options: {publish: true, kind: 'link', access: 'viewers', pages: [1]},
+        hasPassword: false, lastUsedAt: null,
+      },
+    ]);
+    assert.notEqual(shares[0].key, shares[1].key);
+
+    // Editors may not list shares.
+    const resp = await axios.get(`${homeUrl}/api/docs/${docId}/shares`, kiwi);
+    assert.equal(resp.status, 403);
+    assert.match(resp.data.error, /Only document owners may manage shares/);
+  });
+
+  it('gives view-only access through view-only links', async function() {
+    await setShares({
+      viewLink: {publish: true, kind: 'link', access: 'viewers'},
+      editLink: {publish: true, kind: 'link', access: 'editors'},
+      form: {publish: true},
+    });
+    let resp = await openShare(await getKey('viewLink'));
+    assert.equal(resp.status, 200);
+    assert.equal(resp.data.access, 'viewers');
+    resp = await openShare(await getKey('editLink'));
+    assert.equal(resp.status, 200);
+    assert.equal(resp.data.access, 'editors');
+    // Forms work as they did before share links existed.
+    resp = await openShare(await getKey('form'));
+    assert.equal(resp.status, 200);
+    assert.equal(resp.data.access, 'editors');
+  });
+
+  it('records when shares were last used', async function() {
+    await setShares({link: {publish: true, kind: 'link'}});
+    const key = await getKey('link');
+    assert.isNull((await getShares())[0].lastUsedAt);
+    const before = Date.now();
+    assert.equal((await openShare(key)).status, 200);
+    await waitForIt(async () => {
+      const {lastUsedAt} = (await getShares())[0];
+      assert.isAtLeast(new Date(lastUsedAt!).getTime(), before - 1000);
+    }, 2000, 100);
+  });
+
+  it('refuses expired links', async function() {
+    await setShares({link: {publish: true, kind: 'link', expiresAt: Date.now() - 1000}});
+    const resp = await openShare(await getKey('link'));
+    assert.equal(resp.status, 403);
+    assert.equal(resp.data.details?.code, 'ShareExpired');
+
+    // Changing the expiry brings the link back.
+    await setShares({link: {publish: true, kind: 'link', expiresAt: Date.now() + 60000}});
+    assert.equal((await openShare(await getKey('link'))).status, 200);
+  });
+
+  it('asks for the password of protected links', async function() {
+    await setShares({link: {publish: true, kind: 'link'}});
+    const key = await getKey('link');
+    assert.equal((await openShare(key)).status, 200);
+
+    // Only owners may set passwords.
+    let resp = await axios.post(`${homeUrl}/api/docs/${docId}/shares/link/password`, {password: 'secret'}, kiwi);
+    assert.equal(resp.status, 403);
+    resp = await axios.post(`${homeUrl}/api/docs/${docId}/shares/link/password`, {password: ''}, chimpy);
+    assert.equal(resp.status, 400);
+    resp = await axios.post(`${homeUrl}/api/docs/${docId}/shares/link/password`, {password: 'secret'}, chimpy);
+    assert.equal(resp.status, 200);
+    assert.isTrue((await getShares())[0].hasPassword);
+
+    // The link stops working until the password is given.
+    resp = await openShare(key);
+    assert.equal(resp.status, 403);
+    assert.equal(resp.data.details?.code, 'SharePasswordRequired');
+
+    resp = await axios.post(`${homeUrl}/api/shares/${key}/unlock`, {password: 'wrong'}, anon);
+    assert.equal(resp.status, 403);
+    assert.match(resp.data.error, /Wrong password/);
+    resp = await axios.post(`${homeUrl}/api/shares/${key}/unlock`, {password: 'secret'}, anon);
+    assert.equal(resp.status, 200);
+    const cookie = resp.headers['set-cookie']![0].split(';')[0];
+    const withSession = {...anon, headers: {...anon.headers, Cookie: cookie}};
+    assert.equal((await openShare(key, withSession)).status, 200);
+    // Other sessions still need the password.
+    assert.equal((await openShare(key)).status, 403);
+
+    // Changing the password requires giving it again.
+    resp = await axios.post(`${homeUrl}/api/docs/${docId}/shares/link/password`, {password: 'other'}, chimpy);
+    assert.equal(resp.status, 200);
+    assert.equal((await openShare(key, withSession)).status, 403);
+
+    // Removing the password opens the link to all.
+    resp = await axios.post(`${homeUrl}/api/docs/${docId}/shares/link/password`, {password: null}, chimpy);
+    assert.equal(resp.status, 200);
+    assert.isFalse((await getShares())[0].hasPassword);
+    assert.equal((await openShare(key)).status, 200);
+  });
+
+  it('limits guessing the password of protected links', async function() {
+    await setShares({guarded: {publish: true, kind: 'link'}});
+    const key = await getKey('guarded');
+    let resp = await axios.post(`${homeUrl}/api/docs/${docId}/shares/guarded/password`, {password: 'secret'}, chimpy);
+    assert.equal(resp.status, 200);
+
+    for (let i = 0; i < 10; i++) {
+      resp = await axios.post(`${homeUrl}/api/shares/${key}/unlock`, {password: `guess${i}`}, anon);
+      assert.equal(resp.status, 403);
+    }
+    // Further attempts are refused for a while, even with the right password.
+    resp = await axios.post(`${homeUrl}/api/shares/${key}/unlock`, {password: 'secret'}, anon);
+    assert.equal(resp.status, 429);
+    assert.match(resp.data.error, /Too many wrong passwords/);
+  });
+});
@@ -233,6 +233,40 @@ describe("GroupsManager", function () {
     });
   });
 
+  describe('updateGroupMembers()', function () {
+    setTmpLogLevel('info');
+    it('should fail if the group is not found or not of the expected type', async function () {
+      await assert.isRejected(db.updateGroupMembers(999, {}), /not found/);
+      const { group } = await createDummyRole('test-update-members');
+      await assert.isRejected(db.updateGroupMembers(group.id, {}, Group.TEAM_TYPE), /not found/);
+    });
+
+    it('should add and remove members, leaving others untouched', async function () {
+      const { group, kiwi, innerGroup } = await createDummyGroupAndInnerGroup('test-update-members');
+      const charon = (await db.getExistingUserByLogin('charon@getgrist.com'))!;
+      const chimpy = (await db.getExistingUserByLogin('chimpy@getgrist.com'))!;
+      let updatedGroup = await db.updateGroupMembers(group.id, {
+        add: {memberUsers: [kiwi.id, charon.id, chimpy.id]},
+        remove: {memberGroups: [innerGroup.id]},
+      });
+      assert.sameMembers(updatedGroup.memberUsers.map(user => user.id), [chimpy.id, kiwi.id, charon.id]);
+      assert.isEmpty(updatedGroup.memberGroups);
+
+      updatedGroup = await db.updateGroupMembers(group.id, {
+        add: {memberGroups: [innerGroup.id]},
+        remove: {memberUsers: [kiwi.id]},
+      });
+      assert.sameMembers(updatedGroup.memberUsers.map(user => user.id), [chimpy.id, charon.id]);
+      assert.deepEqual(updatedGroup.memberGroups.map(g => g.id), [innerGroup.id]);
+    });
+
+    it('should fail when adding unknown members', async function () {
+      const { group } = await createDummyTeamGroup('test-update-members');
+      await assert.isRejected(db.updateGroupMembers(group.id, {add: {memberUsers: [999999]}}), /Users not found/);
+      await assert.isRejected(db.updateGroupMembers(group.id, {add: {memberGroups: [999999]}}), /Groups not found/);
+    });
+  });
+
   describe('overwriteRoleGroup()', function () {
     setTmpLogLevel('info');
     it('should fail if the group is not found', function () {
@@ -62,6 +62,12 @@ import {UserUnsubscribeKey1756799894986 as UserUnsubscribeKey}
 import {UserDisabledAt1754077317821
  as UserDisabledAt } from 'app/gen-server/migration/1754077317821-UserDisabledAt';
 import {ServiceAccounts1756918816559 as ServiceAccounts} from 'app/gen-server/migration/1756918816559-ServiceAccounts';
+import {AuditLogEntries1792304518062
+        as AuditLogEntries} from 'app/gen-server/migration/1792304518062-AuditLogEntries';
+import {DocChangesDigests1792343232709
+        as DocChangesDigests} from 'app/gen-server/migration/1792343232709-DocChangesDigests';
+import {ShareLinks1792400582391
+        as ShareLinks} from 'app/gen-server/migration/1792400582391-ShareLinks';
 
 const home: HomeDBManager = new HomeDBManager();
 
@@ -73,7 +79,7 @@ const migrations = [Initial, Login, PinDocs, UserPicture, DisplayEmail, DisplayE
                     Forks, ForkIndexes, ActivationPrefs, AssistantLimit, Shares, BillingFeatures,
                     UserLastConnection, ActivationEnabled, Configs, LoginsEmailsIndex, GracePeriod,
                     UserCreatedAt, DocPref, GroupUsersCreatedAt, GroupTypes, UserUnsubscribeKey,
-                    UserDisabledAt, ServiceAccounts];
+                    UserDisabledAt, ServiceAccounts, AuditLogEntries, DocChangesDigests, ShareLinks];
 
 // Assert that the "members" acl rule and group exist (or not).
 function assertMembersGroup(org: Organization, exists: boolean) {
@@ -1,8 +1,8 @@
 import {UserAPI} from 'app/common/UserAPI';
 import {assert, driver, Key} from 'mocha-webdriver';
 import {addYAxis, checkAxisConfig, checkAxisRange, findYAxis, getAxisTitle, getChartData,
-        removeYAxis, selectChartType, selectXAxis,
-        setSplitSeries} from 'test/nbrowser/chartViewTestUtils';
+        removeYAxis, selectChartType, selectXAxis, setSplitSeries,
+        setYAxis} from 'test/nbrowser/chartViewTestUtils';
 import * as gu from 'test/nbrowser/gristUtils';
 import {setupTestSuite} from 'test/nbrowser/testUtils';
 
@@ -602,6 +602,58 @@ describe('ChartView1', function() {
     assert.deepEqual(data[1].y, [16, 2, 3, 4, 5, 6]);
   });
 
+  it('should render timeline charts', async function() {
+    const revert = await gu.begin();
+    await gu.sendActions([
+      ['AddTable', 'Tasks', [
+        {id: 'Task', type: 'Text'},
+        {id: 'Start', type: 'Date'},
+        {id: 'End', type: 'Date'},
+        {id: 'Status', type: 'Choice', widgetOptions: JSON.stringify({
+          choices: ['Done', 'Todo'],
+          choiceOptions: {Done: {fillColor: '#00FF00'}},
+        })},
+      ]],
+      ['AddRecord', 'Tasks', null, {Task: 'Design', Start: 1704067200, End: 1704412800, Status: 'Done'}],
+      ['AddRecord', 'Tasks', null, {Task: 'Build', Start: 1704412800, End: 1705276800, Status: 'Todo'}],
+      // Bars that end before they start are skipped.
+      ['AddRecord', 'Tasks', null, {Task: 'Ship', Start: 1705276800, End: 1704067200, Status: 'Todo'}],
+    ]);
+    await gu.openPage('Tasks');
+    await gu.addNewSection('Chart', 'Tasks');
+    await gu.toggleSidePanel('right', 'open');
+    await driver.find('.test-right-tab-pagewidget').click();
+
+    await selectChartType('Timeline');
+    await selectXAxis('Task');
+    await setYAxis(['Start', 'End']);
+
+    // Only date columns may be added as series.
+    await driver.find('.test-chart-add-y-axis').click();
+    assert.equal(await gu.findOpenMenu().getText(), '1 non-date column is not shown');
+    await driver.sendKeys(Key.ESCAPE);
+
+    const {data, layout} = await getChartData();
+    assert.lengthOf(data, 1);
+    assert.equal(data[0].type, 'bar');
+    assert.equal(data[0].orientation, 'h');
+    assert.deepEqual(data[0].y, ['Design', 'Build']);
+    assert.deepEqual((data[0] as any).base, ['2024-01-01T00:00:00.000Z', '2024-01-05T00:00:00.000Z']);
+    assert.deepEqual(data[0].x, [4 * 86400_000, 10 * 86400_000]);
+    assert.equal(layout.xaxis.type, 'date');
+    assert.equal(layout.yaxis.autorange, 'reversed');
+
+    // Split series by Status: bars are colored like the choices.
+    await setSplitSeries('Status');
+    const split = (await getChartData()).data;
+    assert.deepEqual(split.map(d => d.name), ['Done', 'Todo']);
+    assert.deepEqual(split.map(d => d.y), [['Design'], ['Build']]);
+    assert.deepEqual(split.map(d => d.marker?.color), ['#00FF00', undefined]);
+
+    await revert();
+    await gu.toggleSidePanel('right', 'close');
+  });
+
   it('should support error bars', async function() {
     // We start with a line chart with MyDate on X-axis, and two series: largeValue and value.
     await selectChartType('Line chart');
@@ -300,6 +300,96 @@ describe('FormView2', function() {
     });
   });
 
+  describe('multi-page forms', function() {
+    let docId: string;
+    let link: string;
+
+    before(async function() {
+      session = await gu.session().login();
+      api = session.createHomeApi();
+      docId = await session.tempNewDoc(cleanup);
+      await gu.addNewPage('Form', 'Table1');
+
+      // Put each question on its own page, and make the first one required.
+      const docApi = api.getDocAPI(docId);
+      const sections = await docApi.getRecords('_grist_Views_section');
+      const sectionRef = sections.find(s => s.fields.parentKey === 'form')!.id;
+      const fields = (await docApi.getRecords('_grist_Views_section_field'))
+        .filter(f => f.fields.parentId === sectionRef);
+      const [leafA, leafB] = fields.map(f => f.id);
+      const layoutSpec = {
+        type: 'Layout',
+        children: [
+          {type: 'Section', children: [{type: 'Field', leaf: leafA}]},
+          {type: 'PageBreak'},
+          {type: 'Section', children: [{type: 'Field', leaf: leafB}]},
+          {type: 'Submit'},
+        ],
+      };
+      await docApi.applyUserActions([
+        ['UpdateRecord', '_grist_Views_section', sectionRef, {layoutSpec: JSON.stringify(layoutSpec)}],
+        ['UpdateRecord', '_grist_Views_section_field', leafA, {widgetOptions: JSON.stringify({formRequired: true})}],
+      ]);
+
+      await publishForm();
+      await share.click();
+      await gu.waitForServer();
+      link = await driver.findWait('.test-forms-link', 100).getAttribute('value');
+    });
+
+    async function progress() {
+      return await driver.find('.test-form-progress').getText();
+    }
+
+    it('shows one page at a time', async function() {
+      await driver.get(link);
+      await form.wait();
+      assert.equal(await progress(), 'Page 1 of 2');
+      assert.isTrue(await driver.find('input[name="A"]').isDisplayed());
+      assert.isFalse(await driver.find('input[name="B"]').isDisplayed());
+      assert.isFalse(await driver.find('.test-form-back').isPresent());
+
+      // The required question must be answered before moving on.
+      await driver.find('.test-form-next').click();
+      assert.equal(await progress(), 'Page 1 of 2');
+
+      await driver.find('input[name="A"]').sendKeys('Hello');
+      await driver.find('.test-form-next').click();
+      assert.equal(await progress(), 'Page 2 of 2');
+      assert.isFalse(await driver.find('input[name="A"]').isDisplayed());
+      assert.isTrue(await driver.find('input[name="B"]').isDisplayed());
+
+      await driver.findContent('.test-form-back', /Back/).click();
+      assert.equal(await progress(), 'Page 1 of 2');
+      assert.equal(await driver.find('input[name="A"]').value(), 'Hello');
+    });
+
+    it('saves drafts and resumes them from a link', async function() {
+      await driver.find('.test-form-save-draft').click();
+      const draftLink = await driver.findWait('.test-form-draft-link', 2000).getAttribute('value');
+      assert.match(draftLink, /[?&]draft=/);
+      await driver.find('.test-form-draft-close').click();
+
+      // Nothing is added to the table until the response is submitted.
+      assert.deepEqual((await api.getDocAPI(docId).getRows('Table1')).A, []);
+
+      await driver.get(draftLink);
+      await form.wait();
+      assert.equal(await driver.find('input[name="A"]').value(), 'Hello');
+      await driver.find('.test-form-next').click();
+      await driver.find('input[name="B"]').sendKeys('World');
+      await driver.find('button[type="submit"]').click();
+      await driver.findWait('.test-form-success-page-text', 2000);
+      const rows = await api.getDocAPI(docId).getRows('Table1');
+      assert.deepEqual([rows.A, rows.B], [['Hello'], ['World']]);
+
+      // Submitted drafts are removed, so the link opens a blank form.
+      await driver.get(draftLink);
+      await form.wait();
+      assert.equal(await driver.find('input[name="A"]').value(), '');
+    });
+  });
+
   describe('form deletion', function() {
     before(async function() {
       session = await gu.session().teamSite.login();
@@ -0,0 +1,145 @@
+import {UserAPI} from 'app/common/UserAPI';
+import {assert, driver, WebElement} from 'mocha-webdriver';
+import * as gu from 'test/nbrowser/gristUtils';
+import {setupTestSuite} from 'test/nbrowser/testUtils';
+
+describe('KanbanView', function() {
+  this.timeout(20000);
+  const cleanup = setupTestSuite();
+  let api: UserAPI;
+  let docId: string;
+
+  before(async function() {
+    const session = await gu.session().teamSite.login();
+    docId = await session.tempNewDoc(cleanup, 'Kanban');
+    api = session.createHomeApi();
+    await gu.sendActions([
+      ['AddTable', 'Tasks', [
+        {id: 'Name', type: 'Text'},
+        {id: 'Status', type: 'Choice', widgetOptions: JSON.stringify({choices: ['Todo', 'Doing', 'Done']})},
+      ]],
+      ['AddRecord', 'Tasks', null, {Name: 'Plan', Status: 'Done'}],
+      ['AddRecord', 'Tasks', null, {Name: 'Design', Status: 'Doing'}],
+      ['AddRecord', 'Tasks', null, {Name: 'Build', Status: 'Todo'}],
+      ['AddRecord', 'Tasks', null, {Name: 'Test', Status: 'Todo'}],
+    ]);
+    await gu.openPage('Tasks');
+    await gu.addNewSection('Kanban', 'Tasks');
+  });
+
+  gu.bigScreen();
+  afterEach(() => gu.checkForErrors());
+
+  async function getLanes() {
+    const lanes = await driver.findAll('.test-kanban-lane');
+    return Promise.all(lanes.map(async lane => ({
+      label: await lane.find('.test-kanban-lane-label').getText(),
+      cards: await Promise.all(
+        (await lane.findAll('.test-kanban-card .field_clip')).map(cell => cell.getText())
+      ),
+    })));
+  }
+
+  function findLane(label: string) {
+    return driver.findContent('.test-kanban-lane', new RegExp('^' + label));
+  }
+
+  function findCard(name: string) {
+    return driver.findContent('.test-kanban-card', new RegExp('^Name\\s+' + name));
+  }
+
+  // Webdriver can't drive native drag and drop, so simulate it with the events it would fire.
+  async function dragCard(card: WebElement, lane: WebElement) {
+    await driver.executeScript((source: Element, target: Element) => {
+      const dataTransfer = new DataTransfer();
+      const fire = (elem: Element, type: string) =>
+        elem.dispatchEvent(new DragEvent(type, {bubbles: true, cancelable: true, dataTransfer}));
+      fire(source, 'dragstart');
+      fire(target, 'dragover');
+      fire(target, 'drop');
+      fire(source, 'dragend');
+    }, card, lane);
+    await gu.waitForServer();
+  }
+
+  it('should show a lane for each choice', async function() {
+    assert.deepEqual(await getLanes(), [
+      {label: 'Todo', cards: ['Build', 'Todo', 'Test', 'Todo']},
+      {label: 'Doing', cards: ['Design', 'Doing']},
+      {label: 'Done', cards: ['Plan', 'Done']},
+    ]);
+    assert.deepEqual(await driver.findAll('.test-kanban-lane-count', el => el.getText()), ['2', '1', '1']);
+  });
+
+  it('should move cards between lanes with undo', async function() {
+    await dragCard(await findCard('Build'), await findLane('Doing'));
+    assert.deepEqual(await api.getDocAPI(docId).getRows('Tasks').then(r => r.Status),
+      ['Done', 'Doing', 'Doing', 'Todo']);
+    assert.deepEqual((await getLanes()).map(l => l.cards.length), [1, 2, 1]);
+
+    await gu.undo();
+    assert.deepEqual(await api.getDocAPI(docId).getRows('Tasks').then(r => r.Status),
+      ['Done', 'Doing', 'Todo', 'Todo']);
+    assert.deepEqual((await getLanes()).map(l => l.cards.length), [2, 1, 1]);
+  });
+
+  it('should show cards with other values in extra lanes', async function() {
+    const revert = await gu.begin();
+    await gu.sendActions([
+      ['UpdateRecord', 'Tasks', 1, {Status: 'Blocked'}],
+      ['UpdateRecord', 'Tasks', 2, {Status: ''}],
+    ]);
+    assert.deepEqual((await getLanes()).map(l => l.label), ['No value', 'Todo', 'Doing', 'Done', 'Blocked']);
+    assert.deepEqual((await getLanes()).map(l => l.cards.length), [1, 2, 0, 0, 1]);
+    await revert();
+    assert.deepEqual((await getLanes()).map(l => l.label), ['Todo', 'Doing', 'Done']);
+  });
+
+  it('should add cards to a lane', async function() {
+    const revert = await gu.begin();
+    await (await findLane('Done')).find('.test-kanban-add-card').click();
+    await gu.waitForServer();
+    assert.deepEqual(await api.getDocAPI(docId).getRows('Tasks').then(r => r.Status),
+      ['Done', 'Doing', 'Todo', 'Todo', 'Done']);
+    await revert();
+  });
+
+  it('should allow picking the lane column', async function() {
+    const revert = await gu.begin();
+    await gu.sendActions([
+      ['AddTable', 'People', [{id: 'Name', type: 'Text'}]],
+      ['AddRecord', 'People', null, {Name: 'Ann'}],
+      ['AddRecord', 'People', null, {Name: 'Bob'}],
+      ['AddColumn', 'Tasks', 'Owner', {type: 'Ref:People'}],
+      ['UpdateRecord', 'Tasks', 1, {Owner: 2}],
+    ]);
+    await gu.getCell({section: 'TASKS', col: 'Owner', rowNum: 1}).click();
+    await gu.openColumnPanel();
+    await gu.setRefShowColumn('Name');
+
+    await gu.selectSectionByTitle(/Kanban/);
+    await gu.openWidgetPanel();
+    await driver.find('.test-kanban-lane-column .test-select-open').click();
+    await gu.findOpenMenuItem('li', 'Owner').click();
+    await gu.waitForServer();
+    assert.deepEqual((await getLanes()).map(l => l.label), ['No value', 'Ann', 'Bob']);
+    assert.deepEqual((await getLanes()).map(l => l.cards.length), [3, 0, 1]);
+
+    await dragCard(await findCard('Design'), await findLane('Ann'));
+    assert.deepEqual(await api.getDocAPI(docId).getRows('Tasks').then(r => r.Owner),
+      [2, 1, 0, 0]);
+
+    // Cards only list the records selected by a linked section.
+    await gu.addNewSection('Table', 'People');
+    await gu.selectSectionByTitle(/Kanban/);
+    await gu.selectBy(/PEOPLE/);
+    await gu.getCell({section: 'PEOPLE', col: 'Name', rowNum: 2}).click();
+    assert.deepEqual(await getLanes(), [
+      {label: 'Ann', cards: []},
+      {label: 'Bob', cards: ['Plan', 'Done', 'Bob']},
+    ]);
+
+    await revert();
+    await gu.toggleSidePanel('right', 'close');
+  });
+});
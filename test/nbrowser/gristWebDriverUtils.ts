@@ -13,7 +13,7 @@ import { CommandName } from 'app/client/components/commandList';
 import { DocAction, UserAction } from 'app/common/DocActions';
 import { WebDriver, WebElement, WebElementPromise } from 'mocha-webdriver';
 
-type SectionTypes = 'Table'|'Card'|'Card List'|'Chart'|'Custom'|'Form';
+type SectionTypes = 'Table'|'Card'|'Card List'|'Chart'|'Custom'|'Form'|'Kanban';
 
 // it is sometimes useful in debugging to turn off automatic cleanup of docs and workspaces.
 export const noCleanup = Boolean(process.env.NO_CLEANUP);
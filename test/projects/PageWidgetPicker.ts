@@ -208,8 +208,8 @@ describe('PageWidgetPicker', () => {
     // select 'New Table'
     await driver.findContent('.test-wselect-table', /New Table/).doClick();
 
-    // check that 'Chart' and 'Custom' are disabled
-    assert.deepEqual(await findAllDisabled('type'), ['Chart', 'Custom']);
+    // check that 'Kanban', 'Chart' and 'Custom' are disabled
+    assert.deepEqual(await findAllDisabled('type'), ['Kanban', 'Chart', 'Custom']);
     assert.deepEqual(await findAllDisabled('table'), []);
 
     // click 'Chart'
@@ -234,9 +234,9 @@ describe('PageWidgetPicker', () => {
     // select `Table` type
     await driver.findContent('.test-wselect-type', /Table/).doClick();
 
-    // select 'New Table' and  check that 'single', 'detail', 'chart', 'custom' are disabled
+    // select 'New Table' and  check that 'single', 'detail', 'kanban', 'chart', 'custom' are disabled
     await driver.findContent('.test-wselect-table', /New Table/).doClick();
-    assert.deepEqual(await findAllDisabled('type'), ['Card', 'Card List', 'Chart', 'Custom']);
+    assert.deepEqual(await findAllDisabled('type'), ['Card', 'Card List', 'Kanban', 'Chart', 'Custom']);
     assert.deepEqual(await findAllDisabled('table'), []);
 
     // select 'Companies' and check that none are disabled
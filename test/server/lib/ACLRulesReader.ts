@@ -426,6 +426,117 @@ describe('ACLRulesReader', function() {
       assert.isUndefined(new ACLRulesReader(docData, {addShareRules: true}).getResourceById(-6));
     });
   });
+
+  describe('with share links', function() {
+    before(async function() {
+      sinon.stub(ActiveDoc.prototype as any, '_getHomeDbManagerOrFail').returns({
+        syncShares: () => Promise.resolve(),
+      });
+      activeDoc = await docTools.loadFixtureDoc('FilmsWithImages.grist');
+      docData = activeDoc.docData!;
+    });
+
+    after(function() {
+      sinon.restore();
+    });
+
+    it('entries', async function() {
+      // Add a view-only link to the page showing Performances.
+      await activeDoc.applyUserActions(fakeSession, [
+        ['AddRecord', '_grist_Shares', null, {
+          linkId: 'x',
+          options: JSON.stringify({publish: true, kind: 'link', access: 'viewers', pages: [3]}),
+        }],
+      ]);
+      // Tables outside the scope are blocked, except for the column shown for references to
+      // Films. The link grants nothing itself: regular rules keep applying to it.
+      const notInLinks = 'user.ShareRef is not None and user.ShareRef not in [1]';
+      assertResourcesAndRules(new ACLRulesReader(docData, {addShareRules: true}), [
+        {
+          resource: {id: -1, tableId: 'Films', colIds: '*'},
+          rules: [
+            {aclFormula: 'user.ShareRef == 1', permissionsText: '-CUD'},
+            {aclFormula: notInLinks, permissionsText: '-CRUDS'},
+          ],
+        },
+        ...['manualSort', 'Budget_millions', 'Release_Date', 'Poster', 'PosterDup'].map((colId, i) => ({
+          resource: {id: -2 - i, tableId: 'Films', colIds: colId},
+          rules: [{aclFormula: 'user.ShareRef == 1', permissionsText: '-R'}],
+        })),
+        {
+          resource: {id: -7, tableId: 'Friends', colIds: '*'},
+          rules: [
+            {aclFormula: 'user.ShareRef == 1', permissionsText: '-CRUDS'},
+            {aclFormula: notInLinks, permissionsText: '-CRUDS'},
+          ],
+        },
+        {
+          resource: {id: -8, tableId: 'Performances', colIds: '*'},
+          rules: [{aclFormula: notInLinks, permissionsText: '-CRUDS'}],
+        },
+        {
+          resource: {id: -9, tableId: '*', colIds: '*'},
+          rules: [{aclFormula: 'user.ShareRef is not None', permissionsText: '-S'}],
+        },
+        {
+          resource: {id: 1, tableId: '', colIds: ''},
+          rules: [{
+            aclFormula: '(user.ShareRef is None or user.ShareRef in [1]) and (True)',
+            permissionsText: '',
+          }],
+        },
+      ]);
+
+      // Make it an editable link to the whole document, which adds nothing beyond
+      // the blocking of other shares.
+      await activeDoc.applyUserActions(fakeSession, [
+        ['UpdateRecord', '_grist_Shares', 1, {
+          options: JSON.stringify({publish: true, kind: 'link', access: 'editors'}),
+        }],
+      ]);
+      assertResourcesAndRules(new ACLRulesReader(docData, {addShareRules: true}), [
+        ...['Films', 'Friends', 'Performances'].map((tableId, i) => ({
+          resource: {id: -1 - i, tableId, colIds: '*'},
+          rules: [{aclFormula: notInLinks, permissionsText: '-CRUDS'}],
+        })),
+        {
+          resource: {id: -4, tableId: '*', colIds: '*'},
+          rules: [{aclFormula: 'user.ShareRef is not None', permissionsText: '-S'}],
+        },
+        {
+          resource: {id: 1, tableId: '', colIds: ''},
+          rules: [{
+            aclFormula: '(user.ShareRef is None or user.ShareRef in [1]) and (True)',
+            permissionsText: '',
+          }],
+        },
+      ]);
+
+      // Unpublished links are blocked, and regular rules don't apply to them.
+      await activeDoc.applyUserActions(fakeSession, [
+        ['UpdateRecord', '_grist_Shares', 1, {
+          options: JSON.stringify({publish: false, kind: 'link', access: 'editors'}),
+        }],
+      ]);
+      assertResourcesAndRules(new ACLRulesReader(docData, {addShareRules: true}), [
+        {
+          resource: {id: -1, tableId: '*', colIds: '*'},
+          rules: [
+            {aclFormula: 'user.ShareRef == 1', permissionsText: '-CRUDS'},
+            {aclFormula: 'user.ShareRef is not None', permissionsText: '-S'},
+          ],
+        },
+        ...['Films', 'Friends', 'Performances'].map((tableId, i) => ({
+          resource: {id: -2 - i, tableId, colIds: '*'},
+          rules: [{aclFormula: 'user.ShareRef is not None', permissionsText: '-CRUDS'}],
+        })),
+        {
+          resource: {id: 1, tableId: '', colIds: ''},
+          rules: [{aclFormula: 'user.ShareRef is None and (True)', permissionsText: ''}],
+        },
+      ]);
+    });
+  });
 });
 
 interface ACLResourceAndRules {
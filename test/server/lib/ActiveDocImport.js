@@ -518,6 +518,114 @@ describe('ActiveDocImport', function() {
     .then(tableData => assert.deepEqual(tableData, expectedFinalDestinationData2));
   });
 
+  describe("missing records", function() {
+    const transformRule = {
+      destTableId: 'UploadedData2Extended',
+      destCols: [{label: 'CourseId', colId: 'gristHelper_Import_CourseId',  type: 'Text', formula: '$CourseId'},
+                 {label: 'CourseName', colId: 'gristHelper_Import_CourseName', type: 'Text', formula: '$CourseName'},
+                 {label: 'Instructor', colId: 'gristHelper_Import_Instructor', type: 'Text', formula: '$Instructor'},
+                 {label: 'StartDate', colId: 'gristHelper_Import_StartDate', type: 'Date', formula: '$StartDate'},
+                 {label: 'PassFail', colId: 'gristHelper_Import_PassFail', type: 'Bool', formula: '$PassFail'}],
+      sourceCols: ['CourseId', 'CourseName', 'Instructor', 'StartDate', 'PassFail']
+    };
+
+    // Imports the extended file as the destination table, and the smaller file (which lacks
+    // BUS501 and BUS539) as the source, returning the data source to finish the import with.
+    async function prepareImport(activeDoc) {
+      await activeDoc.finishImportFiles(fakeSession, await createDataSource(activeDoc, extendedCsvPath2), [], {});
+      await assertDocTables(activeDoc, ['UploadedData2Extended']);
+      const dataSource = await createDataSource(activeDoc, csvPath2);
+      dataSource.transforms[0] = {'': transformRule};
+      await activeDoc.importFiles(fakeSession, dataSource, {}, []);
+      return dataSource;
+    }
+
+    function mergeOptions(missingRecordsStrategy) {
+      return {
+        mergeCols: ['gristHelper_Import_CourseId'],
+        mergeStrategy: {type: 'replace-with-nonblank-source'},
+        missingRecordsStrategy,
+      };
+    }
+
+    it("should remove destination records missing from the source", async function() {
+      const activeDoc = await docTools.createDoc('temp(14)');
+      const dataSource = await prepareImport(activeDoc);
+      await activeDoc.finishImportFiles(fakeSession, dataSource, ['GristHidden_import'], {
+        mergeOptionMaps: [{'': mergeOptions({type: 'remove'})}]
+      });
+      const {tableData} = await activeDoc.fetchTable(docSession, 'UploadedData2Extended');
+      assert.deepEqual(tableData, ['TableData', 'UploadedData2Extended', [1, 2, 3, 4, 5, 8], {
+        manualSort: [1, 2, 3, 4, 5, 8],
+        CourseId: ['BUS100', 'BUS102', 'BUS300', 'BUS301', 'BUS500', 'BUS540'],
+        CourseName: [
+          'Intro to Business', 'Business Law', 'Business Operations',
+          'History of Business', 'Ethics and Law', 'Capstone'
+        ],
+        Instructor: ['Mariyam Melania', 'Nathalie Patricia', 'Michael Rian', 'Mariyam Melania', 'Filip Andries', ''],
+        StartDate: [1610496000, 1610496000, 1610582400, 1610582400, 1610496000, 1610496000],
+        PassFail: [false, false, false, false, false, true]
+      }]);
+    });
+
+    it("should flag destination records missing from the source, and unflag ones present again", async function() {
+      const activeDoc = await docTools.createDoc('temp(15)');
+      const dataSource = await prepareImport(activeDoc);
+      await activeDoc.applyUserActions(fakeSession, [
+        ['AddColumn', 'UploadedData2Extended', 'Archived', {type: 'Bool'}],
+        ['UpdateRecord', 'UploadedData2Extended', 1, {Archived: true}],
+      ]);
+      await activeDoc.finishImportFiles(fakeSession, dataSource, ['GristHidden_import'], {
+        mergeOptionMaps: [{'': mergeOptions({type: 'flag', flagColId: 'gristHelper_Import_Archived'})}]
+      });
+      const {tableData} = await activeDoc.fetchTable(docSession, 'UploadedData2Extended');
+      assert.deepEqual(tableData[2], [1, 2, 3, 4, 5, 6, 7, 8]);
+      assert.deepEqual(tableData[3].CourseId,
+        ['BUS100', 'BUS102', 'BUS300', 'BUS301', 'BUS500', 'BUS501', 'BUS539', 'BUS540']);
+      assert.deepEqual(tableData[3].Archived, [false, false, false, false, false, true, true, false]);
+      assert.deepEqual(tableData[3].PassFail, [false, false, false, false, false, false, true, true]);
+    });
+
+    it("should reject a flag column that isn't a Toggle column", async function() {
+      const activeDoc = await docTools.createDoc('temp(16)');
+      const dataSource = await prepareImport(activeDoc);
+      await assert.isRejected(
+        activeDoc.finishImportFiles(fakeSession, dataSource, ['GristHidden_import'], {
+          mergeOptionMaps: [{'': mergeOptions({type: 'flag', flagColId: 'gristHelper_Import_CourseName'})}]
+        }),
+        /must be a Toggle column/
+      );
+    });
+
+    it("should include missing records in the import diff", async function() {
+      const activeDoc = await docTools.createDoc('temp(17)');
+      await prepareImport(activeDoc);
+      let comparison = await activeDoc.generateImportDiff(fakeSession, 'GristHidden_import', transformRule,
+        mergeOptions({type: 'remove'}));
+      // Missing records (BUS501 and BUS539) are shown as rows removed past the source's last row.
+      assert.deepEqual(comparison.details.leftChanges.tableDeltas, {
+        GristHidden_import: {
+          removeRows: [7, 8],
+          updateRows: [],
+          addRows: [],
+          columnRenames: [],
+          columnDeltas: {
+            gristHelper_Import_CourseId: {7: [['BUS501'], null], 8: [['BUS539'], null]},
+            gristHelper_Import_CourseName: {7: [['Marketing'], null], 8: [['Independent Study'], null]},
+            gristHelper_Import_Instructor: {7: [['Michael Rian'], null], 8: [[''], null]},
+            gristHelper_Import_StartDate: {7: [[1610496000], null], 8: [[1610496000], null]},
+            gristHelper_Import_PassFail: {7: [[false], null], 8: [[true], null]},
+          }
+        }
+      });
+
+      // Without a strategy for missing records, nothing is shown as removed.
+      comparison = await activeDoc.generateImportDiff(fakeSession, 'GristHidden_import', transformRule,
+        mergeOptions(undefined));
+      assert.deepEqual(comparison.details.leftChanges.tableDeltas, {});
+    });
+  });
+
   it("should include column names as headers and back using parse option (headers were guessed initially)", function() {
     let activeDoc;
     let dataSource;
@@ -0,0 +1,314 @@
+import {AuditLogEvent} from 'app/common/AuditLogs';
+import {AuditLogStreamingDestination} from 'app/common/Config';
+import {HomeDBManager} from 'app/gen-server/lib/homedb/HomeDBManager';
+import {AuditLogStreamer, Deps, formatSyslogMessage} from 'app/server/lib/AuditLogStreamer';
+import {assert} from 'chai';
+import * as dgram from 'node:dgram';
+import * as http from 'node:http';
+import * as net from 'node:net';
+import * as sinon from 'sinon';
+import * as testUtils from 'test/server/testUtils';
+import {waitForIt} from 'test/server/wait';
+
+describe('AuditLogStreamer', function() {
+  this.timeout(10000);
+  testUtils.setTmpLogLevel('error');
+
+  let destinations: Map<number|null, AuditLogStreamingDestination[]>;
+  let streamer: AuditLogStreamer;
+  const sandbox = sinon.createSandbox();
+
+  const dbManager = {
+    async getConfigByKeyAndOrgId(_key: string, orgId: number|null) {
+      const value = destinations.get(orgId);
+      return value ? {value} : null;
+    },
+  } as unknown as HomeDBManager;
+
+  beforeEach(function() {
+    destinations = new Map();
+    streamer = new AuditLogStreamer(dbManager);
+  });
+
+  afterEach(async function() {
+    await streamer.close();
+    sandbox.restore();
+  });
+
+  let eventNum = 0;
+
+  function makeEvent(orgId?: number): AuditLogEvent {
+    eventNum++;
+    return {
+      id: `event${eventNum}`,
+      action: 'document.open',
+      actor: {type: 'user', user: {id: 1, name: 'Chimpy', email: 'chimpy@getgrist.com'}},
+      context: orgId ? {site: {id: orgId, name: 'NASA', domain: 'nasa'}} : {},
+      timestamp: '2024-01-01T00:00:00.000Z',
+      details: {document: {id: `doc${eventNum}`, name: 'Doc'}},
+    };
+  }
+
+  describe('formatSyslogMessage', function() {
+    it('formats events as RFC 5424 messages', function() {
+      const event = makeEvent();
+      assert.equal(
+        formatSyslogMessage(event, {hostname: 'grist.example.com', procId: 42}),
+        `<110>1 2024-01-01T00:00:00.000Z grist.example.com grist 42 document.open - ${JSON.stringify(event)}`
+      );
+    });
+
+    it('keeps header fields valid', function() {
+      const event = {...makeEvent(), action: 'document.clear_all_webhook_queues' as const};
+      assert.match(
+        formatSyslogMessage(event, {hostname: 'my host', procId: 42}),
+        /^<110>1 \S+ myhost grist 42 document\.clear_all_webhook_queue - /
+      );
+    });
+  });
+
+  describe('syslog', function() {
+    it('sends events over UDP', async function() {
+      const socket = dgram.createSocket('udp4');
+      const messages: string[] = [];
+      socket.on('message', (msg) => messages.push(msg.toString()));
+      await new Promise<void>(resolve => socket.bind(0, '127.0.0.1', resolve));
+      try {
+        const {port} = socket.address();
+        destinations.set(null, [{id: 'syslog', name: 'syslog', url: `udp://127.0.0.1:${port}`}]);
+        const event = makeEvent();
+        await streamer.streamEvent(event);
+        await waitForIt(() => assert.lengthOf(messages, 1), 2000, 50);
+        assert.match(messages[0], /^<110>1 /);
+        assert.isTrue(messages[0].endsWith(JSON.stringify(event)));
+        await waitForIt(() => assert.isNotNull(streamer.getStatuses(['syslog'])[0].lastDeliveredAt), 2000, 50);
+      } finally {
+        socket.close();
+      }
+    });
+
+    it('sends events over TCP with octet-counting framing', async function() {
+      let received = '';
+      const server = net.createServer((conn) => conn.on('data', (data) => { received += data.toString(); }));
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      try {
+        const {port} = server.address() as net.AddressInfo;
+        destinations.set(null, [{id: 'syslog', name: 'syslog', url: `tcp://127.0.0.1:${port}`}]);
+        const events = [makeEvent(), makeEvent()];
+        for (const event of events) {
+          await streamer.streamEvent(event);
+        }
+        const expected = events.map(event => {
+          const message = formatSyslogMessage(event);
+          return `${Buffer.byteLength(message)} ${message}`;
+        }).join('');
+        await waitForIt(() => assert.equal(received, expected), 2000, 50);
+      } finally {
+        await streamer.close();
+        server.close();
+      }
+    });
+
+    it('records failures to connect', async function() {
+      const server = net.createServer();
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const {port} = server.address() as net.AddressInfo;
+      await new Promise(resolve => server.close(resolve));
+
+      destinations.set(null, [{id: 'syslog', name: 'syslog', url: `tcp://127.0.0.1:${port}`}]);
+      await streamer.streamEvent(makeEvent());
+      await waitForIt(() => {
+        const [status] = streamer.getStatuses(['syslog']);
+        assert.equal(status.failedEventsCount, 1);
+        assert.isNull(status.lastDeliveredAt);
+        assert.match(status.lastError!, /ECONNREFUSED/);
+      }, 2000, 50);
+    });
+
+    it('refuses private addresses for destinations of sites', async function() {
+      let received = '';
+      const server = net.createServer((conn) => conn.on('data', (data) => { received += data.toString(); }));
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      try {
+        const {port} = server.address() as net.AddressInfo;
+        destinations.set(1, [
+          {id: 'ip', name: 'syslog', url: `tcp://127.0.0.1:${port}`},
+          {id: 'hostname', name: 'syslog', url: `tcp://localhost:${port}`},
+          {id: 'udp', name: 'syslog', url: `udp://localhost:${port}`},
+        ]);
+        await streamer.streamEvent(makeEvent(1));
+        await waitForIt(() => {
+          for (const status of streamer.getStatuses(['ip', 'hostname', 'udp'])) {
+            assert.equal(status.failedEventsCount, 1);
+            assert.equal(status.lastError, 'Connecting to private addresses is not allowed');
+          }
+        }, 2000, 50);
+        assert.equal(received, '');
+      } finally {
+        server.close();
+      }
+    });
+  });
+
+  describe('http', function() {
+    let server: http.Server;
+    let requests: Array<{url?: string, headers: http.IncomingHttpHeaders, body: string}>;
+    let responses: number[];
+    // If set, responses are held here instead of being sent.
+    let held: http.ServerResponse[]|null;
+    let url: string;
+
+    beforeEach(async function() {
+      requests = [];
+      responses = [];
+      held = null;
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => { body += chunk; });
+        req.on('end', () => {
+          requests.push({url: req.url, headers: req.headers, body});
+          res.statusCode = responses.shift() ?? 200;
+          if (held) {
+            held.push(res);
+          } else {
+            res.end();
+          }
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}/events`;
+    });
+
+    afterEach(async function() {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('sends events in batches as NDJSON', async function() {
+      destinations.set(null, [{
+        id: 'http', name: 'http', url, token: 'secret',
+        http: {batchSize: 2, flushIntervalMs: 100, headers: {'X-Source': 'grist'}},
+      }]);
+      const events = [makeEvent(), makeEvent(), makeEvent()];
+      for (const event of events) {
+        await streamer.streamEvent(event);
+      }
+
+      // The first two events make a full batch; the last one is sent after the flush interval.
+      await waitForIt(() => assert.lengthOf(requests, 2), 2000, 50);
+      assert.deepEqual(requests.map(r => r.body.trim().split('\n').map(line => JSON.parse(line))), [
+        events.slice(0, 2),
+        events.slice(2),
+      ]);
+      assert.equal(requests[0].headers['content-type'], 'application/x-ndjson');
+      assert.equal(requests[0].headers.authorization, 'Bearer secret');
+      assert.equal(requests[0].headers['x-source'], 'grist');
+      await waitForIt(() => assert.isNotNull(streamer.getStatuses(['http'])[0].lastDeliveredAt), 2000, 50);
+    });
+
+    it('maps fields of events', async function() {
+      destinations.set(null, [{
+        id: 'http', name: 'http', url,
+        http: {flushIntervalMs: 0, fieldMapping: {event_type: 'action', user: 'actor.user.email', ip: 'context.ip'}},
+      }]);
+      await streamer.streamEvent(makeEvent());
+      await waitForIt(() => assert.lengthOf(requests, 1), 2000, 50);
+      assert.deepEqual(JSON.parse(requests[0].body), {
+        event_type: 'document.open',
+        user: 'chimpy@getgrist.com',
+        ip: null,
+      });
+    });
+
+    it('retries failed requests', async function() {
+      responses = [503];
+      destinations.set(null, [{id: 'http', name: 'http', url, http: {flushIntervalMs: 0}}]);
+      await streamer.streamEvent(makeEvent());
+      await waitForIt(() => assert.lengthOf(requests, 2), 5000, 50);
+      assert.equal(requests[0].body, requests[1].body);
+      await waitForIt(() => assert.isNotNull(streamer.getStatuses(['http'])[0].lastDeliveredAt), 2000, 50);
+      assert.equal(streamer.getStatuses(['http'])[0].failedEventsCount, 0);
+    });
+
+    it('records failures that are not worth retrying', async function() {
+      responses = [400];
+      destinations.set(null, [{id: 'http', name: 'http', url, http: {batchSize: 2, flushIntervalMs: 0}}]);
+      await streamer.streamEvent(makeEvent());
+      await streamer.streamEvent(makeEvent());
+      await waitForIt(() => assert.equal(streamer.getStatuses(['http'])[0].failedEventsCount, 2), 2000, 50);
+      assert.lengthOf(requests, 1);
+      assert.match(streamer.getStatuses(['http'])[0].lastError!, /status 400/);
+    });
+
+    it('limits events waiting to be delivered, including those being sent', async function() {
+      sandbox.stub(Deps, 'HTTP_MAX_QUEUED_EVENTS').value(2);
+      held = [];
+      destinations.set(null, [{id: 'http', name: 'http', url, http: {batchSize: 1, flushIntervalMs: 0}}]);
+      for (let i = 0; i < 4; i++) {
+        await streamer.streamEvent(makeEvent());
+      }
+      // The first two events are being sent, one at a time, so the others are dropped.
+      await waitForIt(() => assert.lengthOf(requests, 1), 2000, 50);
+      assert.equal(streamer.getStatuses(['http'])[0].failedEventsCount, 2);
+      assert.equal(streamer.getStatuses(['http'])[0].lastError, 'Too many events waiting to be delivered');
+
+      const responsesToSend = held;
+      held = null;
+      for (const res of responsesToSend) { res.end(); }
+      await waitForIt(() => assert.lengthOf(requests, 2), 2000, 50);
+      assert.equal(streamer.getStatuses(['http'])[0].failedEventsCount, 2);
+    });
+
+    it('refuses private addresses for destinations of sites', async function() {
+      destinations.set(1, [
+        {id: 'ip', name: 'http', url, http: {flushIntervalMs: 0}},
+        {id: 'hostname', name: 'http', url: url.replace('127.0.0.1', 'localhost'), http: {flushIntervalMs: 0}},
+      ]);
+      await streamer.streamEvent(makeEvent(1));
+      await waitForIt(() => {
+        for (const status of streamer.getStatuses(['ip', 'hostname'])) {
+          assert.equal(status.failedEventsCount, 1);
+          assert.equal(status.lastError, 'Connecting to private addresses is not allowed');
+        }
+      }, 2000, 50);
+      assert.lengthOf(requests, 0);
+    });
+
+    it('does not follow redirects', async function() {
+      responses = [302];
+      destinations.set(null, [{id: 'http', name: 'http', url, http: {flushIntervalMs: 0}}]);
+      await streamer.streamEvent(makeEvent());
+      await waitForIt(() => assert.equal(streamer.getStatuses(['http'])[0].failedEventsCount, 1), 2000, 50);
+      assert.lengthOf(requests, 1);
+      assert.match(streamer.getStatuses(['http'])[0].lastError!, /status 302/);
+    });
+
+    it('sends events to destinations of the install and of their site', async function() {
+      // The test server has a private address.
+      sandbox.stub(Deps, 'ALLOW_PRIVATE_ADDRESSES').value(true);
+      destinations.set(null, [{id: 'install', name: 'http', url: `${url}?install`, http: {flushIntervalMs: 0}}]);
+      destinations.set(1, [{id: 'org1', name: 'http', url: `${url}?org1`, http: {flushIntervalMs: 0}}]);
+      // Other kinds of destinations are delivered to by Grist Enterprise.
+      destinations.set(2, [{id: 'org2', name: 'splunk', url: `${url}?org2`}]);
+      await streamer.streamEvent(makeEvent(1));
+      await streamer.streamEvent(makeEvent(2));
+      await streamer.streamEvent(makeEvent());
+      await streamer.close();
+      const counts = new Map<string, number>();
+      for (const {body} of requests) {
+        const ids = body.trim().split('\n').map(line => JSON.parse(line).context.site?.id ?? 'none');
+        for (const id of ids) { counts.set(String(id), (counts.get(String(id)) ?? 0) + 1); }
+      }
+      assert.deepEqual(Object.fromEntries(counts), {'1': 2, '2': 1, 'none': 1});
+    });
+
+    it('picks up changes to destinations', async function() {
+      destinations.set(null, [{id: 'http', name: 'http', url: `${url}?old`, http: {flushIntervalMs: 0}}]);
+      await streamer.streamEvent(makeEvent());
+      destinations.set(null, [{id: 'http', name: 'http', url: `${url}?new`, http: {flushIntervalMs: 0}}]);
+      await streamer.invalidateDestinations(null);
+      await streamer.streamEvent(makeEvent());
+      await waitForIt(() => assert.lengthOf(requests, 2), 2000, 50);
+      assert.sameMembers(requests.map(r => r.url), ['/events?old', '/events?new']);
+    });
+  });
+});
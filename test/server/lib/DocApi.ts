@@ -4,7 +4,7 @@ import {BulkColValues, UserAction} from 'app/common/DocActions';
 import {DocState} from 'app/common/DocState';
 import {SHARE_KEY_PREFIX} from 'app/common/gristUrls';
 import {arrayRepeat} from 'app/common/gutil';
-import {WebhookSummary} from 'app/common/Triggers';
+import {WebhookPayloadTemplate, WebhookSchedule, WebhookSummary} from 'app/common/Triggers';
 import {DocAPI, UserAPIImpl} from 'app/common/UserAPI';
 import {AddOrUpdateRecord, Record as ApiRecord, ColumnsPut, RecordWithStringId} from 'app/plugin/DocApiTypes';
 import {CellValue, GristObjCode} from 'app/plugin/GristData';
@@ -20,6 +20,7 @@ import {delayAbort, getAvailablePort} from 'app/server/lib/serverUtils';
 import axios, {AxiosRequestConfig, AxiosResponse} from 'axios';
 import {delay} from 'bluebird';
 import {assert} from 'chai';
+import * as crypto from 'crypto';
 import decompress from 'decompress';
 import express from 'express';
 import FormData from 'form-data';
@@ -1768,6 +1769,336 @@ function testDocApi(settings: {
     }
   }
 
+  it("GET /docs/{did}/tables/{tid}/changes streams changes to records", async function () {
+    const ws1 = (await userApi.getOrgWorkspaces('current'))[0].id;
+    const docId = await userApi.newDoc({name: 'testdoc'}, ws1);
+    const docUrl = `${serverUrl}/api/docs/${docId}`;
+
+    // Opens a stream of changes, and returns a function to wait for a number of events.
+    async function openStream(query: string = '', headers: Record<string, string> = {}) {
+      const controller = new AbortController();
+      const resp = await fetch(`${docUrl}/tables/Changes/changes${query}`, {
+        headers: {...chimpy.headers as Record<string, string>, ...headers},
+        signal: controller.signal,
+      });
+      assert.equal(resp.status, 200);
+      assert.equal(resp.headers.get('content-type'), 'text/event-stream');
+      const events: Array<{id: string, event: string, data: any}> = [];
+      let buffer = '';
+      resp.body.on('data', (chunk: Buffer) => {
+        buffer += chunk.toString();
+        let end: number;
+        while ((end = buffer.indexOf('\n\n')) >= 0) {
+          const lines = buffer.slice(0, end).split('\n').filter(line => !line.startsWith(':'));
+          buffer = buffer.slice(end + 2);
+          if (lines.length === 0) { continue; }
+          const fields = Object.fromEntries(lines.map(line => line.split(/: (.*)/s, 2)));
+          events.push({id: fields.id, event: fields.event, data: JSON.parse(fields.data)});
+        }
+      });
+      resp.body.on('error', () => {});
+      return {
+        async waitForEvents(count: number) {
+          await waitForIt(() => assert.lengthOf(events, count), 5000, 50);
+          return events;
+        },
+        close() { controller.abort(); },
+      };
+    }
+
+    let resp = await axios.post(`${docUrl}/apply`, [
+      ['AddTable', 'Changes', [{id: 'A', type: 'Text'}, {id: 'B', type: 'Numeric'}]],
+    ], chimpy);
+    assert.equal(resp.status, 200);
+    const stream = await openStream();
+    try {
+      resp = await axios.post(`${docUrl}/tables/Changes/records`, {records: [
+        {fields: {A: 'a1', B: 1}}, {fields: {A: 'a2', B: 2}},
+      ]}, chimpy);
+      assert.equal(resp.status, 200);
+      resp = await axios.patch(`${docUrl}/tables/Changes/records`, {records: [{id: 2, fields: {B: 20}}]}, chimpy);
+      assert.equal(resp.status, 200);
+      resp = await axios.post(`${docUrl}/tables/Changes/data/delete`, [1], chimpy);
+      assert.equal(resp.status, 200);
+
+      const events = await stream.waitForEvents(3);
+      assert.deepEqual(events.map(e => e.event), ['add', 'update', 'remove']);
+      assert.deepEqual(events.map(e => e.data.records), [
+        [{id: 1, fields: {A: 'a1', B: 1}}, {id: 2, fields: {A: 'a2', B: 2}}],
+        [{id: 2, fields: {B: 20}}],
+        [{id: 1}],
+      ]);
+      // Events are identified by increasing action numbers.
+      const actionNums = events.map(e => Number(e.id));
+      assert.deepEqual(events.map(e => e.data.actionNum), actionNums);
+      assert.isBelow(actionNums[0], actionNums[1]);
+      assert.isBelow(actionNums[1], actionNums[2]);
+
+      // Streams can resume after a given action, using either a parameter or the standard header.
+      const resumed = await openStream(`?actionNum=${actionNums[0]}`);
+      const resumedEvents = await resumed.waitForEvents(2);
+      resumed.close();
+      assert.deepEqual(resumedEvents, events.slice(1));
+      const resumedWithHeader = await openStream('', {'Last-Event-ID': String(actionNums[1])});
+      assert.deepEqual(await resumedWithHeader.waitForEvents(1), events.slice(2));
+      resumedWithHeader.close();
+    } finally {
+      stream.close();
+    }
+
+    // Check errors.
+    resp = await axios.get(`${docUrl}/tables/Changes/changes?actionNum=-1`, chimpy);
+    assert.equal(resp.status, 400);
+    assert.match(resp.data.error, /actionNum parameter is invalid/);
+    resp = await axios.get(`${docUrl}/tables/Bad_Foo/changes`, chimpy);
+    assert.equal(resp.status, 404);
+    resp = await axios.get(`${docUrl}/tables/Changes/changes`, nobody);
+    assert.equal(resp.status, 403);
+  });
+
+  it("POST /docs/{did}/forms/{vsId}/records skips fields hidden by conditions", async function () {
+    const ws1 = (await userApi.getOrgWorkspaces('current'))[0].id;
+    const docId = await userApi.newDoc({name: 'testdoc'}, ws1);
+    const docUrl = `${serverUrl}/api/docs/${docId}`;
+    let resp = await axios.post(`${docUrl}/apply`, [
+      ['AddTable', 'Survey', [
+        {id: 'Type', type: 'Choice', widgetOptions: JSON.stringify({choices: ['Bug', 'Other']})},
+        {id: 'Other', type: 'Text'},
+        {id: 'Urgent', type: 'Bool'},
+        {id: 'Details', type: 'Text'},
+      ]],
+    ], chimpy);
+    assert.equal(resp.status, 200);
+    const tableRef = resp.data.retValues[0].id;
+    resp = await axios.post(`${docUrl}/apply`, [['CreateViewSection', tableRef, 0, 'form', null, null]], chimpy);
+    assert.equal(resp.status, 200);
+    const sectionRef = resp.data.retValues[0].sectionRef;
+    resp = await axios.get(`${docUrl}/tables/_grist_Views_section_field/records`, chimpy);
+    const colRefs = new Map((await axios.get(`${docUrl}/tables/_grist_Tables_column/records`, chimpy))
+      .data.records.map((r: any) => [r.id, r.fields.colId]));
+    const leaves: Record<string, number> = Object.fromEntries(resp.data.records
+      .filter((r: any) => r.fields.parentId === sectionRef)
+      .map((r: any) => [colRefs.get(r.fields.colRef), r.id]));
+
+    // "Other" is shown when Type is "Other", and "Details" when "Urgent" is checked, in a section.
+    const layoutSpec = {
+      type: 'Layout',
+      children: [{
+        type: 'Section',
+        children: [
+          {type: 'Field', leaf: leaves.Type},
+          {type: 'Field', leaf: leaves.Other, visibleIf: {rules: [{leaf: leaves.Type, op: 'is', value: 'Other'}]}},
+          {type: 'Field', leaf: leaves.Urgent},
+        ],
+      }, {
+        type: 'Section',
+        visibleIf: {rules: [{leaf: leaves.Urgent, op: 'isNotEmpty'}]},
+        children: [{type: 'Field', leaf: leaves.Details}],
+      }],
+    };
+    resp = await axios.post(`${docUrl}/apply`, [
+      ['UpdateRecord', '_grist_Views_section', sectionRef, {layoutSpec: JSON.stringify(layoutSpec)}],
+    ], chimpy);
+    assert.equal(resp.status, 200);
+
+    resp = await axios.post(`${docUrl}/forms/${sectionRef}/records`, {
+      records: [
+        {fields: {Type: 'Bug', Other: 'Ignored', Details: 'Ignored'}},
+        {fields: {Type: 'Other', Other: 'Kept', Urgent: 'on', Details: 'Kept'}},
+      ]
+    }, chimpy);
+    assert.equal(resp.status, 200);
+    assert.deepEqual(resp.data, {records: [{id: 1}, {id: 2}]});
+    resp = await axios.get(`${docUrl}/tables/Survey/records`, chimpy);
+    assert.deepEqual(resp.data.records.map((r: any) => r.fields), [
+      {Type: 'Bug', Other: '', Urgent: false, Details: ''},
+      {Type: 'Other', Other: 'Kept', Urgent: true, Details: 'Kept'},
+    ]);
+
+    // Visitors to the published form can submit it, but can't add records any other way.
+    resp = await axios.get(`${docUrl}/tables/_grist_Views_section/records`, chimpy);
+    const viewRef = resp.data.records.find((r: any) => r.id === sectionRef).fields.parentId;
+    resp = await axios.get(`${docUrl}/tables/_grist_Pages/records`, chimpy);
+    const pageRef = resp.data.records.find((r: any) => r.fields.viewRef === viewRef).id;
+    resp = await axios.post(`${docUrl}/apply`, [
+      ['AddRecord', '_grist_Shares', null, {linkId: 'survey', options: '{"publish": true}'}],
+      ['UpdateRecord', '_grist_Views_section', sectionRef, {shareOptions: '{"publish": true, "form": true}'}],
+      ['UpdateRecord', '_grist_Pages', pageRef, {shareRef: 1}],
+    ], chimpy);
+    assert.equal(resp.status, 200);
+    const db = await getDatabase();
+    const shares = await db.connection.query('select * from shares');
+    const {key} = shares.find((s: any) => s.doc_id === docId && s.link_id === 'survey');
+    const shareUrl = `${serverUrl}/api/s/${key}`;
+
+    resp = await axios.post(`${shareUrl}/forms/${sectionRef}/records`, {
+      records: [{fields: {Type: 'Bug', Other: 'Ignored'}}],
+    }, nobody);
+    assert.equal(resp.status, 200);
+    assert.deepEqual(resp.data, {records: [{id: 3}]});
+    resp = await axios.post(`${shareUrl}/tables/Survey/records`, {
+      records: [{fields: {Type: 'Bug', Other: 'Not hidden'}}],
+    }, nobody);
+    assert.equal(resp.status, 403);
+    resp = await axios.post(`${shareUrl}/apply`, [
+      ['AddRecord', 'Survey', null, {Type: 'Bug', Other: 'Not hidden'}],
+    ], nobody);
+    assert.equal(resp.status, 403);
+    resp = await axios.get(`${docUrl}/tables/Survey/records`, chimpy);
+    assert.deepEqual(resp.data.records.map((r: any) => r.fields.Other), ['', 'Kept', '']);
+
+    // Unknown forms are reported.
+    resp = await axios.post(`${docUrl}/forms/999/records`, {records: [{fields: {}}]}, chimpy);
+    assert.equal(resp.status, 404);
+  });
+
+  it("POST /docs/{did}/forms/{vsId}/drafts saves drafts until they are submitted", async function () {
+    const ws1 = (await userApi.getOrgWorkspaces('current'))[0].id;
+    const docId = await userApi.newDoc({name: 'testdoc'}, ws1);
+    const docUrl = `${serverUrl}/api/docs/${docId}`;
+    let resp = await axios.post(`${docUrl}/apply`, [
+      ['AddTable', 'Intake', [{id: 'Name', type: 'Text'}, {id: 'Age', type: 'Numeric'}]],
+    ], chimpy);
+    assert.equal(resp.status, 200);
+    const tableRef = resp.data.retValues[0].id;
+    resp = await axios.post(`${docUrl}/apply`, [['CreateViewSection', tableRef, 0, 'form', null, null]], chimpy);
+    assert.equal(resp.status, 200);
+    const sectionRef = resp.data.retValues[0].sectionRef;
+
+    // Answers to columns that aren't in the form are dropped.
+    resp = await axios.post(`${docUrl}/forms/${sectionRef}/drafts`,
+      {answers: {Name: 'Ann', Unknown: 'x'}}, chimpy);
+    assert.equal(resp.status, 200);
+    const draftId = resp.data.id;
+    assert.isString(draftId);
+    resp = await axios.get(`${docUrl}/forms/${sectionRef}/drafts/${draftId}`, chimpy);
+    assert.equal(resp.status, 200);
+    assert.deepEqual(resp.data.answers, {Name: 'Ann'});
+    assert.isNumber(resp.data.updatedAt);
+
+    resp = await axios.put(`${docUrl}/forms/${sectionRef}/drafts/${draftId}`,
+      {answers: {Name: 'Ann', Age: '42'}}, chimpy);
+    assert.equal(resp.status, 200);
+    assert.deepEqual(resp.data, {id: draftId});
+    resp = await axios.get(`${docUrl}/forms/${sectionRef}/drafts/${draftId}`, chimpy);
+    assert.deepEqual(resp.data.answers, {Name: 'Ann', Age: '42'});
+
+    // Drafts aren't written to the table.
+    resp = await axios.get(`${docUrl}/tables/Intake/records`, chimpy);
+    assert.deepEqual(resp.data.records, []);
+
+    // Invalid and unknown drafts are reported.
+    resp = await axios.post(`${docUrl}/forms/${sectionRef}/drafts`, {answers: ['Ann']}, chimpy);
+    assert.equal(resp.status, 400);
+    resp = await axios.put(`${docUrl}/forms/${sectionRef}/drafts/unknown`, {answers: {}}, chimpy);
+    assert.equal(resp.status, 404);
+    resp = await axios.get(`${docUrl}/forms/${sectionRef}/drafts/unknown`, chimpy);
+    assert.equal(resp.status, 404);
+
+    // Drafts that are too large are refused.
+    resp = await axios.put(`${docUrl}/forms/${sectionRef}/drafts/${draftId}`,
+      {answers: {Name: 'x'.repeat(200 * 1024)}}, chimpy);
+    assert.equal(resp.status, 413);
+    resp = await axios.get(`${docUrl}/forms/${sectionRef}/drafts/${draftId}`, chimpy);
+    assert.deepEqual(resp.data.answers, {Name: 'Ann', Age: '42'});
+
+    // Drafts aren't included in copies of the document.
+    resp = await axios.post(`${docUrl}/copy`, {documentName: 'copy of testdoc', workspaceId: ws1}, chimpy);
+    assert.equal(resp.status, 200);
+    const copyUrl = `${serverUrl}/api/docs/${resp.data}`;
+    resp = await axios.get(`${copyUrl}/forms/${sectionRef}/drafts/${draftId}`, chimpy);
+    assert.equal(resp.status, 404);
+
+    // Submitting the response removes its draft.
+    resp = await axios.post(`${docUrl}/forms/${sectionRef}/records?draft=${draftId}`,
+      {records: [{fields: {Name: 'Ann', Age: 42}}]}, chimpy);
+    assert.equal(resp.status, 200);
+    resp = await axios.get(`${docUrl}/tables/Intake/records`, chimpy);
+    assert.deepEqual(resp.data.records, [{id: 1, fields: {Name: 'Ann', Age: 42}}]);
+    resp = await axios.get(`${docUrl}/forms/${sectionRef}/drafts/${draftId}`, chimpy);
+    assert.equal(resp.status, 404);
+  });
+
+  it("POST /docs/{did}/imports/{name}/run re-runs a saved import configuration", async function () {
+    const ws1 = (await userApi.getOrgWorkspaces('current'))[0].id;
+    const docId = await userApi.newDoc({name: 'testdoc'}, ws1);
+    const docUrl = `${serverUrl}/api/docs/${docId}`;
+    let resp = await axios.post(`${docUrl}/apply`, [
+      ['AddTable', 'Supplies', [{id: 'Sku', type: 'Text'}, {id: 'Price', type: 'Numeric'}]],
+    ], chimpy);
+    assert.equal(resp.status, 200);
+
+    resp = await axios.put(`${docUrl}/imports/Supplier`, {
+      source: {type: 'file'},
+      parseOptions: {},
+      transforms: {'': {
+        destTableId: 'Supplies',
+        destCols: [
+          {colId: 'Sku', label: 'Sku', type: 'Text', formula: '$sku', widgetOptions: ''},
+          {colId: 'Price', label: 'Price', type: 'Numeric', formula: '$price', widgetOptions: ''},
+        ],
+        sourceCols: ['sku', 'price'],
+      }},
+      mergeOptions: {'': {mergeCols: ['Sku'], mergeStrategy: {type: 'replace-with-nonblank-source'}}},
+    }, chimpy);
+    assert.equal(resp.status, 200);
+    resp = await axios.get(`${docUrl}/imports`, chimpy);
+    assert.equal(resp.status, 200);
+    assert.deepEqual(resp.data.imports.map((c: any) => c.name), ['Supplier']);
+
+    // Configurations that don't match the expected types are refused.
+    resp = await axios.put(`${docUrl}/imports/Broken`, {
+      source: {type: 'file'},
+      mergeOptions: {'': {mergeCols: 'Sku', mergeStrategy: {type: 'replace-all-fields'}}},
+    }, chimpy);
+    assert.equal(resp.status, 400);
+    assert.match(resp.data.error,
+      /^Invalid import configuration "Broken": config.mergeOptions is not a MergeOptionsMap/);
+
+    async function runImport(name: string, content: string) {
+      const formData = new FormData();
+      formData.append('upload', content, 'supplies.csv');
+      return axios.post(`${docUrl}/imports/${name}/run`, formData,
+        defaultsDeep({headers: formData.getHeaders()}, chimpy));
+    }
+
+    resp = await runImport('Supplier', 'sku,price\na1,10\nb2,20\n');
+    assert.equal(resp.status, 200);
+    assert.deepEqual(resp.data, {tables: [{id: 'Supplies'}]});
+    resp = await runImport('Supplier', 'sku,price\nb2,25\nc3,30\n');
+    assert.equal(resp.status, 200);
+    resp = await axios.get(`${docUrl}/tables/Supplies/records`, chimpy);
+    assert.deepEqual(resp.data.records, [
+      {id: 1, fields: {Sku: 'a1', Price: 10}},
+      {id: 2, fields: {Sku: 'b2', Price: 25}},
+      {id: 3, fields: {Sku: 'c3', Price: 30}},
+    ]);
+
+    // Unknown configurations and file configurations without an upload are reported.
+    resp = await runImport('Unknown', 'sku,price\n');
+    assert.equal(resp.status, 404);
+    resp = await axios.post(`${docUrl}/imports/Supplier/run`, {}, chimpy);
+    assert.equal(resp.status, 400);
+
+    resp = await axios.delete(`${docUrl}/imports/Supplier`, chimpy);
+    assert.equal(resp.status, 200);
+    resp = await axios.get(`${docUrl}/imports`, chimpy);
+    assert.deepEqual(resp.data.imports, []);
+
+    // Headers for JSON APIs are saved without their values, which must be given on each run.
+    resp = await axios.put(`${docUrl}/imports/Api`, {
+      source: {type: 'json-api', jsonApi: {url: 'https://example.com/items', headers: {Authorization: 'Bearer xyz'}}},
+    }, chimpy);
+    assert.equal(resp.status, 200);
+    resp = await axios.get(`${docUrl}/imports`, chimpy);
+    assert.deepEqual(resp.data.imports[0].source, {
+      type: 'json-api', jsonApi: {url: 'https://example.com/items'}, headerNames: ['Authorization'],
+    });
+    resp = await axios.post(`${docUrl}/imports/Api/run`, {}, chimpy);
+    assert.equal(resp.status, 400);
+    assert.equal(resp.data.error, 'Import configuration "Api" needs values for headers: Authorization');
+  });
+
   // This is mostly tested in Python, but this case requires the data engine to call
   // 'external' (i.e. JS) code to do the type conversion.
   it("converts reference columns when the target table is deleted", async () => {
@@ -3157,6 +3488,70 @@ function testDocApi(settings: {
     assert.deepEqual(resp.data, {error: 'tableId parameter is required'});
   });
 
+  it("GET /docs/{did}/download/json and /download/ndjson serve typed records", async function () {
+    const {docUrl} = await generateDocAndUrl('jsonExport');
+    let resp = await axios.post(`${docUrl}/apply`, [
+      ['AddTable', 'People', [{id: 'Name', type: 'Text'}]],
+      ['AddTable', 'Tasks', [
+        {id: 'Title', type: 'Text'},
+        {id: 'Due', type: 'Date'},
+        {id: 'Owner', type: 'Ref:People'},
+        {id: 'Tags', type: 'ChoiceList'},
+        {id: 'Done', type: 'Bool'},
+      ]],
+      ['BulkAddRecord', 'People', [null, null], {Name: ['Ann', 'Bob']}],
+      ['BulkAddRecord', 'Tasks', [null, null], {
+        Title: ['Plan', 'Ship'],
+        Due: [1704067200, null],
+        Owner: [2, 0],
+        Tags: [['L', 'a', 'b'], null],
+        Done: [true, false],
+      }],
+    ], chimpy);
+    assert.equal(resp.status, 200);
+
+    const expected = [
+      {Title: 'Plan', Due: '2024-01-01', Owner: {id: 2}, Tags: ['a', 'b'], Done: true},
+      {Title: 'Ship', Due: null, Owner: null, Tags: null, Done: false},
+    ];
+    resp = await axios.get(`${docUrl}/download/json?tableId=Tasks`, chimpy);
+    assert.equal(resp.status, 200);
+    assert.deepEqual(resp.data, expected);
+    assert.match(resp.headers['content-disposition'], /\.json"?$/);
+
+    resp = await axios.get(`${docUrl}/download/ndjson?tableId=Tasks`, {...chimpy, responseType: 'text'});
+    assert.equal(resp.status, 200);
+    assert.match(resp.headers['content-type'], /^application\/x-ndjson/);
+    assert.deepEqual(resp.data.trim().split('\n').map((line: string) => JSON.parse(line)), expected);
+
+    resp = await axios.get(`${docUrl}/download/json?tableId=Tasks&header=label`, chimpy);
+    assert.deepEqual(Object.keys(resp.data[0]), ['Title', 'Due', 'Owner', 'Tags', 'Done']);
+
+    resp = await axios.get(`${docUrl}/download/json?tableId=Missing`, chimpy);
+    assert.equal(resp.status, 404);
+    assert.deepEqual(resp.data, {error: 'Table Missing not found.'});
+  });
+
+  it("GET /docs/{did}/download/ods serves an OpenDocument spreadsheet", async function () {
+    const resp = await axios.get(`${serverUrl}/api/docs/${docIds.TestDoc}/download/ods?tableId=Foo`,
+      {...chimpy, responseType: 'arraybuffer'});
+    assert.equal(resp.status, 200);
+    assert.equal(resp.headers['content-type'], 'application/vnd.oasis.opendocument.spreadsheet');
+    const files = await decompress(Buffer.from(resp.data));
+    assert.deepEqual(files.map(f => f.path), ['mimetype', 'META-INF/manifest.xml', 'content.xml']);
+    assert.equal(files[0].data.toString(), 'application/vnd.oasis.opendocument.spreadsheet');
+    const content = files[2].data.toString();
+    assert.include(content, '<table:table table:name="Foo">');
+    assert.include(content, '<text:p>Santa</text:p>');
+
+    // Without parameters, all tables are included.
+    const resp2 = await axios.get(`${serverUrl}/api/docs/${docIds.TestDoc}/download/ods`,
+      {...chimpy, responseType: 'arraybuffer'});
+    assert.equal(resp2.status, 200);
+    const content2 = (await decompress(Buffer.from(resp2.data))).find(f => f.path === 'content.xml')!.data.toString();
+    assert.isAbove(content2.split('<table:table ').length - 1, 1);
+  });
+
   it("GET /docs/{did}/download/table-schema serves table-schema-encoded document", async function () {
     const resp = await axios.get(`${serverUrl}/api/docs/${docIds.TestDoc}/download/table-schema?tableId=Foo`, chimpy);
     assert.equal(resp.status, 200);
@@ -3576,6 +3971,25 @@ function testDocApi(settings: {
     assert.hasAllKeys(resp.data.snapshots[0], ['docId', 'lastModified', 'snapshotId']);
   });
 
+  it("POST /docs/{did}/snapshots/{snapshotId}/pin validates requests", async function () {
+    const snapshotsUrl = `${serverUrl}/api/docs/${docIds.Timesheets}/snapshots`;
+    const {snapshotId} = (await axios.get(snapshotsUrl, chimpy)).data.snapshots[0];
+
+    // Only owners may label or pin snapshots.
+    let resp = await axios.post(`${snapshotsUrl}/${snapshotId}/pin`, {}, kiwi);
+    assert.equal(resp.status, 403);
+    resp = await axios.post(`${snapshotsUrl}/${snapshotId}/label`, {label: 'Q3 close'}, kiwi);
+    assert.equal(resp.status, 403);
+
+    // Labels must be strings of reasonable length.
+    resp = await axios.post(`${snapshotsUrl}/${snapshotId}/label`, {label: 17}, chimpy);
+    assert.equal(resp.status, 400);
+    assert.match(resp.data.error, /label parameter should be a string/);
+    resp = await axios.post(`${snapshotsUrl}/${snapshotId}/pin`, {label: 'x'.repeat(101)}, chimpy);
+    assert.equal(resp.status, 400);
+    assert.match(resp.data.error, /at most 100 characters/);
+  });
+
   it("POST /docs/{did}/states/remove removes old states", async function () {
     // Check doc has plenty of states.
     let resp = await axios.get(`${serverUrl}/api/docs/${docIds.Timesheets}/states`, chimpy);
@@ -3926,7 +4340,7 @@ function testDocApi(settings: {
       await oldSubscribeCheck({eventTypes: 0}, 400, /url is missing/, /eventTypes is not an array/);
       await oldSubscribeCheck({eventTypes: []}, 400, /url is missing/);
       await oldSubscribeCheck({eventTypes: [], url: "https://example.com"}, 400, /eventTypes must be a non-empty array/);
-      await oldSubscribeCheck({eventTypes: ["foo"], url: "https://example.com"}, 400, /eventTypes\[0] is none of "add", "update"/);
+      await oldSubscribeCheck({eventTypes: ["foo"], url: "https://example.com"}, 400, /eventTypes\[0] is none of "add", "update", "remove", "schema"/);
       await oldSubscribeCheck({eventTypes: ["add"]}, 400, /url is missing/);
       await oldSubscribeCheck({eventTypes: ["add"], url: "https://evil.com"}, 403, /Provided url is forbidden/);
       await oldSubscribeCheck({eventTypes: ["add"], url: "http://example.com"}, 403, /Provided url is forbidden/);  // not https
@@ -3947,7 +4361,7 @@ function testDocApi(settings: {
         400, /eventTypes must be a non-empty array/);
       await postWebhookCheck({webhooks:[{fields: {tableId: "Table1", eventTypes: ["foo"],
               url: "https://example.com"}}]},
-        400, /eventTypes\[0] is none of "add", "update"/);
+        400, /eventTypes\[0] is none of "add", "update", "remove", "schema"/);
       await postWebhookCheck({webhooks:[{fields: {tableId: "Table1", eventTypes: ["add"]}}]},
         400, /url is missing/);
       await postWebhookCheck({webhooks:[{fields: {tableId: "Table1", eventTypes: ["add"],
@@ -4383,6 +4797,10 @@ function testDocApi(settings: {
     const notFoundCalled = signal();
     const longStarted = signal();
     const longFinished = signal();
+    const eventsCalled = signal();
+    const signedCalled = signal();
+    // Bodies received by the /batches endpoint, with the time they were received.
+    let batches: Array<{body: any, receivedAt: number}> = [];
     // /probe endpoint will return this status when aborted.
     let probeStatus = 200;
     let probeMessage: string | null = "OK";
@@ -4418,6 +4836,8 @@ function testDocApi(settings: {
       name?: string,
       memo?: string,
       enabled?: boolean,
+      payloadTemplate?: WebhookPayloadTemplate,
+      schedule?: WebhookSchedule,
     }) {
       // Subscribe helper that returns a method to unsubscribe.
       const {data, status} = await axios.post(
@@ -4426,7 +4846,7 @@ function testDocApi(settings: {
           eventTypes: options?.eventTypes ?? ['add', 'update'],
           url: `${serving.url}/${endpoint}`,
           isReadyColumn: options?.isReadyColumn === undefined ? 'B' : options?.isReadyColumn,
-          ...pick(options, 'name', 'memo', 'enabled', 'watchedColIds'),
+          ...pick(options, 'name', 'memo', 'enabled', 'watchedColIds', 'payloadTemplate', 'schedule'),
         }, chimpy
       );
       assert.equal(status, 200, `Error during subscription: ` + JSON.stringify(data));
@@ -4508,6 +4928,22 @@ function testDocApi(settings: {
             longFinished.emit([408, body[0].A]); // We will signal that this is success but after aborting timeout.
           }
         });
+        app.post('/events', ({body, headers}, res) => {
+          eventsCalled.emit({eventType: headers['x-grist-event-type'], body});
+          res.sendStatus(200);
+          res.end();
+        });
+        app.post('/batches', ({body}, res) => {
+          batches.push({body, receivedAt: Date.now()});
+          res.sendStatus(200);
+          res.end();
+        });
+        app.post('/signed', ({body, headers}, res) => {
+          // Payloads are serialized with JSON.stringify, so this gives back the signed body.
+          signedCalled.emit({signature: headers['x-grist-signature'], body: JSON.stringify(body)});
+          res.sendStatus(200);
+          res.end();
+        });
         app.post('/:eventTypes', async ({body, params: {eventTypes}}, res) => {
           requests[eventTypes as keyof WebhookRequests].push(body);
           res.sendStatus(200);
@@ -4780,6 +5216,227 @@ function testDocApi(settings: {
         }, 1000, 200);
       };
 
+      it("should deliver remove and schema events", async () => {
+        const ws1 = (await userApi.getOrgWorkspaces('current'))[0].id;
+        const docId = await userApi.newDoc({name: 'testdoc-remove'}, ws1);
+        const doc = userApi.getDocAPI(docId);
+        await doc.addRows("Table1", {A: [1, 2], B: ['x', 'y']});
+
+        eventsCalled.reset();
+        const unsubscribe = await autoSubscribe('events', docId, {
+          eventTypes: ['remove', 'schema'], isReadyColumn: null,
+        });
+
+        // Additions and updates are not sent.
+        await doc.addRows("Table1", {A: [3], B: ['z']});
+        await doc.updateRows("Table1", {id: [2], A: [4]});
+
+        // Removed records are sent with their last-known values.
+        await doc.removeRows("Table1", [1, 2]);
+        assert.deepEqual(await eventsCalled.waitAndReset(), {
+          eventType: 'remove',
+          body: [
+            {id: 1, manualSort: 1, A: 1, B: 'x', C: null},
+            {id: 2, manualSort: 2, A: 4, B: 'y', C: null},
+          ],
+        });
+
+        // Schema changes describe the table after the change.
+        await userApi.applyUserActions(docId, [['RenameColumn', 'Table1', 'C', 'D']]);
+        const {eventType, body} = await eventsCalled.waitAndReset();
+        assert.equal(eventType, 'schema');
+        assert.lengthOf(body, 1);
+        assert.equal(body[0].tableId, 'Table1');
+        assert.deepEqual(body[0].tableRenames, []);
+        assert.deepEqual(body[0].columnRenames, [['C', 'D']]);
+        assert.deepEqual(body[0].columns.map((c: any) => c.id), ['A', 'B', 'D']);
+
+        await unsubscribe();
+      });
+
+      it("should follow the payload template", async () => {
+        const ws1 = (await userApi.getOrgWorkspaces('current'))[0].id;
+        const docId = await userApi.newDoc({name: 'testdoc-template'}, ws1);
+        const doc = userApi.getDocAPI(docId);
+        await doc.addRows("Table1", {A: [0], B: ['a']});
+
+        eventsCalled.reset();
+        const subscription = await subscribe('events', docId, {
+          eventTypes: ['add'], isReadyColumn: null,
+          payloadTemplate: {colIds: ['A'], wrapKey: 'record', wrapFields: {source: 'grist'}, singleRecord: true},
+        });
+        assert.deepEqual((await readStats(docId))[0].fields.payloadTemplate,
+          {colIds: ['A'], wrapKey: 'record', wrapFields: {source: 'grist'}, singleRecord: true});
+
+        // Each record is sent in its own request, with only the selected columns.
+        await doc.addRows("Table1", {A: [1, 2], B: ['x', 'y']});
+        assert.deepEqual(await eventsCalled.waitAndReset(),
+          {eventType: 'add', body: {source: 'grist', record: {id: 2, A: 1}}});
+        assert.deepEqual(await eventsCalled.waitAndReset(),
+          {eventType: 'add', body: {source: 'grist', record: {id: 3, A: 2}}});
+
+        // Templates are validated.
+        const patch = (payloadTemplate: any) => axios.patch(
+          `${serverUrl}/api/docs/${docId}/webhooks/${subscription.webhookId}`, {payloadTemplate}, chimpy);
+        let resp = await patch({maxBatchSize: 0});
+        assert.equal(resp.status, 400);
+        assert.match(resp.data.error, /maxBatchSize must be an integer between 1 and 100/);
+        resp = await patch({colIds: ['Nope']});
+        assert.equal(resp.status, 404);
+
+        // Removing the template goes back to plain arrays of records.
+        resp = await patch(null);
+        assert.equal(resp.status, 200);
+        assert.notProperty((await readStats(docId))[0].fields, 'payloadTemplate');
+        await doc.addRows("Table1", {A: [3], B: ['z']});
+        assert.deepEqual(await eventsCalled.waitAndReset(),
+          {eventType: 'add', body: [{id: 4, manualSort: 4, A: 3, B: 'z', C: null}]});
+
+        await unsubscribe(docId, subscription);
+      });
+
+      it("should batch events up to maxBatchSize", async () => {
+        const ws1 = (await userApi.getOrgWorkspaces('current'))[0].id;
+        const docId = await userApi.newDoc({name: 'testdoc-batch-size'}, ws1);
+        const doc = userApi.getDocAPI(docId);
+        batches = [];
+        const subscription = await subscribe('batches', docId, {
+          eventTypes: ['add'], isReadyColumn: null, payloadTemplate: {colIds: ['A'], maxBatchSize: 2},
+        });
+
+        // Records added by a single action are split into batches of at most 2 records.
+        await doc.addRows("Table1", {A: [1, 2, 3, 4, 5]});
+        await waitForIt(() => assert.lengthOf(batches, 3), 5000, 100);
+        assert.deepEqual(batches.map(b => b.body), [
+          [{id: 1, A: 1}, {id: 2, A: 2}],
+          [{id: 3, A: 3}, {id: 4, A: 4}],
+          [{id: 5, A: 5}],
+        ]);
+
+        await unsubscribe(docId, subscription);
+      });
+
+      it("should wait for batchWindowMs to gather events in a batch", async () => {
+        const ws1 = (await userApi.getOrgWorkspaces('current'))[0].id;
+        const docId = await userApi.newDoc({name: 'testdoc-batch-window'}, ws1);
+        const doc = userApi.getDocAPI(docId);
+        batches = [];
+        const subscription = await subscribe('batches', docId, {
+          eventTypes: ['add'], isReadyColumn: null, payloadTemplate: {colIds: ['A'], batchWindowMs: 1500},
+        });
+
+        // Records added by separate actions within the window are sent together, once the window
+        // has passed.
+        const start = Date.now();
+        await doc.addRows("Table1", {A: [1]});
+        await delay(300);
+        await doc.addRows("Table1", {A: [2]});
+        await waitForIt(() => assert.lengthOf(batches, 1), 5000, 100);
+        assert.deepEqual(batches[0].body, [{id: 1, A: 1}, {id: 2, A: 2}]);
+        assert.isAtLeast(batches[0].receivedAt - start, 1500);
+
+        // A batch that reaches maxBatchSize is sent without waiting for the end of the window.
+        batches = [];
+        const resp = await axios.patch(`${serverUrl}/api/docs/${docId}/webhooks/${subscription.webhookId}`,
+          {payloadTemplate: {colIds: ['A'], batchWindowMs: 10000, maxBatchSize: 2}}, chimpy);
+        assert.equal(resp.status, 200);
+        const restart = Date.now();
+        await doc.addRows("Table1", {A: [3]});
+        await doc.addRows("Table1", {A: [4]});
+        await waitForIt(() => assert.lengthOf(batches, 1), 5000, 100);
+        assert.deepEqual(batches[0].body, [{id: 3, A: 3}, {id: 4, A: 4}]);
+        assert.isBelow(batches[0].receivedAt - restart, 10000);
+
+        await unsubscribe(docId, subscription);
+      });
+
+      it("should accept and validate schedules", async () => {
+        const ws1 = (await userApi.getOrgWorkspaces('current'))[0].id;
+        const docId = await userApi.newDoc({name: 'testdoc-schedule'}, ws1);
+
+        // A webhook that runs on a schedule doesn't need event types.
+        const schedule: WebhookSchedule = {cron: '0 9 * * 1', timezone: 'Europe/Paris', filters: {A: [1, 2]}};
+        const subscription = await subscribe('events', docId, {eventTypes: [], isReadyColumn: null, schedule});
+        let fields = (await readStats(docId))[0].fields;
+        assert.deepEqual(fields.schedule, schedule);
+        assert.deepEqual(fields.eventTypes, []);
+
+        const patch = (body: any) => axios.patch(
+          `${serverUrl}/api/docs/${docId}/webhooks/${subscription.webhookId}`, body, chimpy);
+        let resp = await patch({schedule: {cron: '0 25 * * *'}});
+        assert.equal(resp.status, 400);
+        assert.match(resp.data.error, /schedule.cron is invalid: Invalid hour in cron expression: "25"/);
+        resp = await patch({schedule: {cron: '0 9 * * *', timezone: 'Mars/Olympus_Mons'}});
+        assert.equal(resp.status, 400);
+        assert.match(resp.data.error, /schedule.timezone is not a known timezone/);
+        resp = await patch({schedule: {cron: '0 9 * * *', filters: {Nope: ['x']}}});
+        assert.equal(resp.status, 404);
+        resp = await patch({schedule: {cron: '0 9 * * *', action: 'bogus'}});
+        assert.equal(resp.status, 400);
+
+        // Without a schedule, event types are needed again.
+        resp = await patch({schedule: null});
+        assert.equal(resp.status, 400);
+        assert.match(resp.data.error, /eventTypes must be a non-empty array/);
+        resp = await patch({schedule: null, eventTypes: ['add']});
+        assert.equal(resp.status, 200);
+        fields = (await readStats(docId))[0].fields;
+        assert.notProperty(fields, 'schedule');
+        assert.deepEqual(fields.eventTypes, ['add']);
+
+        // Changing the schedule keeps other settings.
+        resp = await patch({schedule: {cron: '30 7 * * *', action: 'recalc'}, payloadTemplate: {wrapKey: 'rows'}});
+        assert.equal(resp.status, 200);
+        fields = (await readStats(docId))[0].fields;
+        assert.deepEqual(fields.schedule, {cron: '30 7 * * *', action: 'recalc'});
+        assert.deepEqual(fields.payloadTemplate, {wrapKey: 'rows'});
+
+        await unsubscribe(docId, subscription);
+      });
+
+      it("should sign payloads and keep the previous secret valid after rotation", async () => {
+        const ws1 = (await userApi.getOrgWorkspaces('current'))[0].id;
+        const docId = await userApi.newDoc({name: 'testdoc-signed'}, ws1);
+        const doc = userApi.getDocAPI(docId);
+        await axios.post(`${serverUrl}/api/docs/${docId}/apply`, [
+          ['ModifyColumn', 'Table1', 'B', {type: 'Bool'}],
+        ], chimpy);
+
+        signedCalled.reset();
+        const subscription = await subscribe('signed', docId);
+        const oldSecret = subscription.signingSecret;
+        assert.match(oldSecret, /^[0-9a-f]{64}$/);
+        let newSecret = '';
+
+        // Checks a signature header, returning the secrets that produced it, in order.
+        function getSigningSecrets(signature: string, body: string) {
+          const [timestamp, ...signatures] = signature.split(',');
+          assert.match(timestamp, /^t=\d+$/);
+          return signatures.map(sig => {
+            const hmac = (secret: string) => 'v1=' + crypto.createHmac('sha256', secret)
+              .update(`${timestamp.slice(2)}.${body}`).digest('hex');
+            return [oldSecret, newSecret].find(secret => secret && hmac(secret) === sig);
+          });
+        }
+
+        await doc.addRows("Table1", {A: [1], B: [true]});
+        let {signature, body} = await signedCalled.waitAndReset();
+        assert.deepEqual(getSigningSecrets(signature, body), [oldSecret]);
+
+        // Regenerate the secret. Both secrets are now used to sign payloads.
+        const resp = await axios.patch(`${serverUrl}/api/docs/${docId}/webhooks/${subscription.webhookId}`,
+          {rotateSigningSecret: true}, chimpy);
+        assert.equal(resp.status, 200);
+        newSecret = (await readStats(docId))[0].fields.signingSecret;
+        assert.notEqual(newSecret, oldSecret);
+
+        await doc.addRows("Table1", {A: [2], B: [true]});
+        ({signature, body} = await signedCalled.waitAndReset());
+        assert.deepEqual(getSigningSecrets(signature, body), [newSecret, oldSecret]);
+
+        await unsubscribe(docId, subscription);
+      });
+
       it("should clear the outgoing queue", async () => {
         // Create a test document.
         const ws1 = (await userApi.getOrgWorkspaces('current'))[0].id;
@@ -5058,6 +5715,7 @@ function testDocApi(settings: {
               url: `${serving.url}/200`,
               authorization: '',
               unsubscribeKey: first.unsubscribeKey,
+              signingSecret: first.signingSecret,
               eventTypes: ['add', 'update'],
               enabled: true,
               isReadyColumn: 'B',
@@ -5077,6 +5735,7 @@ function testDocApi(settings: {
               url: `${serving.url}/404`,
               authorization: '',
               unsubscribeKey: second.unsubscribeKey,
+              signingSecret: second.signingSecret,
               eventTypes: ['add', 'update'],
               enabled: true,
               isReadyColumn: 'B',
@@ -5473,7 +6132,8 @@ function testDocApi(settings: {
             assert.equal(stats.length, 1, 'stats=' + JSON.stringify(stats));
             assert.equal(stats[0].id, webhooks.webhooks[0].id);
             // eslint-disable-next-line @typescript-eslint/no-unused-vars
-            const {unsubscribeKey, ...fieldsWithoutUnsubscribeKey} = stats[0].fields;
+            const {unsubscribeKey, signingSecret, ...fieldsWithoutUnsubscribeKey} = stats[0].fields;
+            assert.match(signingSecret, /^[0-9a-f]{64}$/);
             assert.deepEqual(fieldsWithoutUnsubscribeKey, expectedFields);
 
             // update
@@ -5491,7 +6151,7 @@ function testDocApi(settings: {
                 expectedFieldsCallback(expectedFields);
               }
               // eslint-disable-next-line @typescript-eslint/no-unused-vars
-              const {unsubscribeKey, ...fieldsWithoutUnsubscribeKey} = stats[0].fields;
+              const {unsubscribeKey, signingSecret, ...fieldsWithoutUnsubscribeKey} = stats[0].fields;
               assert.deepEqual(fieldsWithoutUnsubscribeKey, { ...expectedFields, ...fields });
             } else {
               if (error instanceof RegExp) {
@@ -5525,7 +6185,7 @@ function testDocApi(settings: {
 
           await check({eventTypes: ['add', 'update']}, 200);
           await check({eventTypes: []}, 400, "eventTypes must be a non-empty array");
-          await check({eventTypes: ["foo"]}, 400, /eventTypes\[0] is none of "add", "update"/);
+          await check({eventTypes: ["foo"]}, 400, /eventTypes\[0] is none of "add", "update", "remove", "schema"/);
 
           await check({isReadyColumn: null}, 200);
           await check({isReadyColumn: "bar"}, 404, `Column not found "bar"`);
@@ -5702,17 +6362,47 @@ function testDocApi(settings: {
       resp = await axios.post(url, query, kiwi);
       assert.equal(resp.status, 200);
 
-      // Check a viewer would not have access if there is some private material.
+      // Check a viewer still has access to what they may read if there is some private material,
+      // but not to the private material.
       await axios.post(
         `${homeUrl}/api/docs/${docIds.Timesheets}/apply`, [
           ['AddTable', 'TablePrivate', [{id: 'A', type: 'Int'}]],
+          ['AddRecord', 'TablePrivate', null, {A: 17}],
           ['AddRecord', '_grist_ACLResources', -1, {tableId: 'TablePrivate', colIds: '*'}],
           ['AddRecord', '_grist_ACLRules', null, {
             resource: -1, aclFormula: '', permissionsText: 'none',
           }],
         ], chimpy);
       resp = await axios.post(url, query, kiwi);
-      assert.equal(resp.status, 403);
+      assert.equal(resp.status, 200);
+      assert.deepEqual(resp.data.records, [{fields: {A: 'hello'}}]);
+      resp = await axios.post(url, {sql: "select A from TablePrivate"}, kiwi);
+      assert.equal(resp.status, 400);
+      assert.match(resp.data.error, /no such table: TablePrivate/);
+      resp = await axios.post(url, {sql: "select A from TablePrivate"}, chimpy);
+      assert.equal(resp.status, 200);
+      assert.deepEqual(resp.data.records, [{fields: {A: 17}}]);
+
+      // Check that rows and columns are filtered for the viewer.
+      await axios.post(
+        `${homeUrl}/api/docs/${docIds.Timesheets}/apply`, [
+          ['AddRecord', '_grist_ACLResources', -2, {tableId: 'Table1', colIds: '*'}],
+          ['AddRecord', '_grist_ACLResources', -3, {tableId: 'Table1', colIds: 'B'}],
+          ['AddRecord', '_grist_ACLRules', null, {
+            resource: -2, aclFormula: 'user.Access != OWNER and rec.id > 2', permissionsText: '-R',
+          }],
+          ['AddRecord', '_grist_ACLRules', null, {
+            resource: -3, aclFormula: 'user.Access != OWNER', permissionsText: '-R',
+          }],
+        ], chimpy);
+      resp = await axios.post(url, {sql: "select id, A from Table1 order by id"}, kiwi);
+      assert.equal(resp.status, 200);
+      assert.deepEqual(resp.data.records, [{fields: {id: 1, A: 'hello'}}, {fields: {id: 2, A: ''}}]);
+      resp = await axios.post(url, {sql: "select count(*) as n from Table1"}, kiwi);
+      assert.deepEqual(resp.data.records, [{fields: {n: 2}}]);
+      resp = await axios.post(url, {sql: "select B from Table1"}, kiwi);
+      assert.equal(resp.status, 400);
+      assert.match(resp.data.error, /no such column: B/);
     } finally {
       // Remove extra viewer; remove extra table.
       const delta = {
@@ -5720,8 +6410,13 @@ function testDocApi(settings: {
       };
       await axios.patch(`${homeUrl}/api/docs/${docIds.Timesheets}/access`, {delta}, chimpy);
       await flushAuth();
+      // Remove the access rules added above, leaving only the default ones.
+      const getAddedIds = async (tableId: string) => (await axios.post(url,
+        {sql: `select id from ${tableId} where id > 1`}, chimpy)).data.records.map((r: any) => r.fields.id);
       await axios.post(
         `${homeUrl}/api/docs/${docIds.Timesheets}/apply`, [
+          ['BulkRemoveRecord', '_grist_ACLRules', await getAddedIds('_grist_ACLRules')],
+          ['BulkRemoveRecord', '_grist_ACLResources', await getAddedIds('_grist_ACLResources')],
           ['RemoveTable', 'TablePrivate'],
         ], chimpy);
     }
@@ -5769,6 +6464,82 @@ function testDocApi(settings: {
     assert.lengthOf(records, 4);
   });
 
+  it ("POST /docs/{did}/sql supports named arguments", async function () {
+    const url = `${homeUrl}/api/docs/${docIds.Timesheets}/sql`;
+    let resp = await axios.post(url, {sql: "select A from Table1 where id = :id", args: {id: 1}}, chimpy);
+    assert.equal(resp.status, 200);
+    assert.deepEqual(resp.data.records, [{fields: {A: 'hello'}}]);
+    resp = await axios.post(url, {sql: "select A from Table1 where id = $id", args: {$id: 2}}, chimpy);
+    assert.equal(resp.status, 200);
+    assert.deepEqual(resp.data.records, [{fields: {A: ''}}]);
+    resp = await axios.post(url, {sql: "select A from Table1 where id = :id", args: {id: 1, other: 2}}, chimpy);
+    assert.equal(resp.status, 400);
+    assert.match(resp.data.error, /SQLITE_RANGE/);
+  });
+
+  it ("POST /docs/{did}/sql supports pagination", async function () {
+    const url = `${homeUrl}/api/docs/${docIds.Timesheets}/sql`;
+    const sql = "select id from Table1 where id > ? order by id";
+    let resp = await axios.post(url, {sql, args: [1], limit: 2}, chimpy);
+    assert.equal(resp.status, 200);
+    assert.deepEqual(resp.data.records, [{fields: {id: 2}}, {fields: {id: 3}}]);
+    const {nextCursor} = resp.data;
+    assert.isString(nextCursor);
+    resp = await axios.post(url, {sql, args: [1], limit: 2, cursor: nextCursor}, chimpy);
+    assert.equal(resp.status, 200);
+    assert.deepEqual(resp.data.records, [{fields: {id: 4}}]);
+    assert.notProperty(resp.data, 'nextCursor');
+
+    // The GET endpoint accepts the same options.
+    resp = await axios.get(`${url}?q=${encodeURIComponent('select id from Table1 order by id')}&limit=3`, chimpy);
+    assert.equal(resp.status, 200);
+    assert.lengthOf(resp.data.records, 3);
+    resp = await axios.get(`${url}?q=${encodeURIComponent('select id from Table1 order by id')}` +
+                           `&limit=3&cursor=${resp.data.nextCursor}`, chimpy);
+    assert.deepEqual(resp.data.records, [{fields: {id: 4}}]);
+
+    // Cursors only work for the query they were made for.
+    resp = await axios.post(url, {sql, args: [2], limit: 2, cursor: nextCursor}, chimpy);
+    assert.equal(resp.status, 400);
+    assert.match(resp.data.error, /cursor is invalid/);
+    resp = await axios.post(url, {sql, args: [1], cursor: 'foo'}, chimpy);
+    assert.equal(resp.status, 400);
+    resp = await axios.post(url, {sql, args: [1], limit: 0}, chimpy);
+    assert.equal(resp.status, 400);
+    assert.match(resp.data.error, /limit parameter is invalid/);
+  });
+
+  it ("POST /docs/{did}/sql can stream results as NDJSON", async function () {
+    const url = `${homeUrl}/api/docs/${docIds.Timesheets}/sql`;
+    const sql = "select id, A from Table1 order by id";
+    const parse = (text: string) => text.trim().split('\n').map(line => JSON.parse(line));
+    let resp = await axios.post(url, {sql}, {...chimpy, responseType: 'text',
+      headers: {...chimpy.headers, Accept: 'application/x-ndjson'}});
+    assert.equal(resp.status, 200);
+    assert.match(resp.headers['content-type'], /^application\/x-ndjson/);
+    assert.deepEqual(parse(resp.data), [
+      {fields: {id: 1, A: 'hello'}},
+      {fields: {id: 2, A: ''}},
+      {fields: {id: 3, A: ''}},
+      {fields: {id: 4, A: ''}},
+    ]);
+
+    // With a limit, the last line has the cursor for the rest.
+    resp = await axios.post(`${url}?format=ndjson`, {sql, limit: 3}, {...chimpy, responseType: 'text'});
+    assert.equal(resp.status, 200);
+    const lines = parse(resp.data);
+    assert.deepEqual(lines.slice(0, 3).map(line => line.fields.id), [1, 2, 3]);
+    assert.isString(lines[3].nextCursor);
+    resp = await axios.post(`${url}?format=ndjson`, {sql, limit: 3, cursor: lines[3].nextCursor},
+                            {...chimpy, responseType: 'text'});
+    assert.deepEqual(parse(resp.data), [{fields: {id: 4, A: ''}}]);
+
+    // Errors are reported as usual when they happen before streaming starts.
+    resp = await axios.post(`${url}?format=ndjson`, {sql: 'select * from NoSuchTable'}, chimpy);
+    assert.equal(resp.status, 400);
+    assert.match(resp.data.error, /no such table/);
+  });
+
   it ("POST /docs/{did}/sql timeout is effective", async function () {
     const slowQuery = 'WITH RECURSIVE r(i) AS (VALUES(0) ' +
         'UNION ALL SELECT i FROM r  LIMIT 1000000) ' +
@@ -0,0 +1,78 @@
+import {DocAction} from 'app/common/DocActions';
+import {delay} from 'app/common/delay';
+import type {ActiveDoc} from 'app/server/lib/ActiveDoc';
+import {docActionsToTableChanges, DocChangeFeed, TableChange} from 'app/server/lib/DocChangeFeed';
+import type {OptDocSession} from 'app/server/lib/DocSession';
+import type {GranularAccessForBundle} from 'app/server/lib/GranularAccess';
+import {assert} from 'chai';
+
+describe('DocChangeFeed', function() {
+  describe('docActionsToTableChanges', function() {
+    it('should convert record actions to changes', function() {
+      assert.deepEqual(docActionsToTableChanges('Table1', 5, [
+        ['BulkAddRecord', 'Table1', [1, 2], {A: ['x', 'y'], manualSort: [1, 2]}],
+        ['AddRecord', 'Table1', 3, {A: 'z'}],
+        ['AddRecord', 'Table2', 1, {A: 'other'}],
+        ['BulkUpdateRecord', 'Table1', [1, 2], {gristHelper_Display: ['a', 'b']}],
+        ['UpdateRecord', 'Table1', 2, {A: 'yy', manualSort: 5}],
+        ['BulkRemoveRecord', 'Table1', [1, 3]],
+      ]), {
+        tableId: 'Table1',
+        changes: [
+          {type: 'add', actionNum: 5, records: [
+            {id: 1, fields: {A: 'x'}}, {id: 2, fields: {A: 'y'}}, {id: 3, fields: {A: 'z'}},
+          ]},
+          {type: 'update', actionNum: 5, records: [{id: 2, fields: {A: 'yy'}}]},
+          {type: 'remove', actionNum: 5, records: [{id: 1}, {id: 3}]},
+        ],
+      });
+    });
+
+    it('should follow renames and reset when the table is replaced', function() {
+      assert.deepEqual(docActionsToTableChanges('Table1', 7, [
+        ['RenameTable', 'Table1', 'People'],
+        ['RemoveRecord', 'People', 4],
+      ]), {tableId: 'People', changes: [{type: 'remove', actionNum: 7, records: [{id: 4}]}]});
+
+      assert.deepEqual(docActionsToTableChanges('Table1', 8, [
+        ['RemoveRecord', 'Table1', 4],
+        ['ReplaceTableData', 'Table1', [1], {A: ['x']}],
+        ['UpdateRecord', 'Table1', 1, {A: 'y'}],
+      ]), {tableId: 'Table1', changes: [{type: 'reset', actionNum: 8}]});
+    });
+  });
+
+  describe('publish', function() {
+    it('should not hold up subscribers while filtering changes for a slow one', async function() {
+      const activeDoc = {
+        docName: 'doc',
+        getActionHistory: () => ({getNextLocalActionNum: () => 1}),
+      } as unknown as ActiveDoc;
+      const feed = new DocChangeFeed(activeDoc);
+      const slow = {} as OptDocSession;
+      const fast = {} as OptDocSession;
+      const received: string[] = [];
+      const listen = (name: string) => ({
+        onChanges: (changes: TableChange[]) => received.push(`${name}:${changes[0].type}`),
+        onEnd: () => {},
+      });
+      await feed.subscribe(slow, 'Table1', listen('slow'));
+      await feed.subscribe(fast, 'Table1', listen('fast'));
+
+      const docActions: DocAction[] = [['AddRecord', 'Table1', 1, {A: 'x'}]];
+      let release: () => void = () => {};
+      const accessControl = {
+        getDocActionsForBundle: async (docSession: OptDocSession) => {
+          if (docSession === slow) { await new Promise<void>(resolve => { release = resolve; }); }
+          return docActions;
+        },
+      } as unknown as GranularAccessForBundle;
+      const publishing = feed.publish(1, accessControl);
+      await delay(10);
+      assert.deepEqual(received, ['fast:add']);
+      release();
+      await publishing;
+      assert.deepEqual(received, ['fast:add', 'slow:add']);
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import {UserAPI} from 'app/common/UserAPI';
+import {DocChangesTemplate, DocCommentsTemplate, DocNotificationEvent} from 'app/gen-server/lib/NotifierTypes';
+import {Deps} from 'app/server/lib/DocNotificationManager';
+import {EmitNotifier} from 'app/server/lib/INotifier';
+import axios from 'axios';
+import {assert} from 'chai';
+import * as sinon from 'sinon';
+import {TestServer} from 'test/gen-server/apiUtils';
+import {SmtpSink} from 'test/server/lib/helpers/SmtpSink';
+import * as testUtils from 'test/server/testUtils';
+import {waitForIt} from 'test/server/wait';
+
+interface ReceivedNotification {
+  event: DocNotificationEvent;
+  userId: number;
+  data: any;
+}
+
+describe('DocNotificationManager', function() {
+  this.timeout(60000);
+  testUtils.setTmpLogLevel('error');
+
+  let oldEnv: testUtils.EnvironmentSnapshot;
+  let sink: SmtpSink;
+  let server: TestServer;
+  let notifier: EmitNotifier;
+  let owner: UserAPI;
+  let editor: UserAPI;
+  let viewer: UserAPI;
+  let editorRef: string;
+  let ownerId: number;
+  let editorId: number;
+  let viewerId: number;
+  let docId: string;
+  let notifications: ReceivedNotification[] = [];
+  const sandbox = sinon.createSandbox();
+
+  function onNotification(event: DocNotificationEvent, userId: number, data: any) {
+    notifications.push({event, userId, data});
+  }
+
+  before(async function() {
+    oldEnv = new testUtils.EnvironmentSnapshot();
+    sink = new SmtpSink();
+    process.env.GRIST_SMTP_HOST = '127.0.0.1';
+    process.env.GRIST_SMTP_PORT = String(await sink.start());
+    process.env.GRIST_EMAIL_FROM = 'Grist <grist@example.com>';
+    server = new TestServer(this);
+    await server.start(['home', 'docs']);
+    notifier = server.server.getNotifier() as EmitNotifier;
+    notifier.on('docNotification', onNotification);
+
+    const api = await server.createHomeApi('chimpy', 'docs', true);
+    await api.newOrg({name: 'notifications', domain: 'notifications'});
+    owner = await server.createHomeApi('chimpy', 'notifications', true);
+    const wsId = await owner.newWorkspace({name: 'ws'}, 'current');
+    await owner.updateWorkspacePermissions(wsId, {
+      users: {
+        'kiwi@getgrist.com': 'editors',
+        'charon@getgrist.com': 'viewers',
+      }
+    });
+    editor = await server.createHomeApi('kiwi', 'notifications', true);
+    viewer = await server.createHomeApi('charon', 'notifications', true);
+    ownerId = (await owner.getSessionActive()).user.id;
+    const editorUser = (await editor.getSessionActive()).user;
+    editorId = editorUser.id;
+    editorRef = editorUser.ref || '';
+    viewerId = (await viewer.getSessionActive()).user.id;
+  });
+
+  after(async function() {
+    notifier.off('docNotification', onNotification);
+    const api = await server.createHomeApi('chimpy', 'docs');
+    await api.deleteOrg('notifications');
+    await server.stop();
+    await sink.stop();
+    oldEnv.restore();
+  });
+
+  beforeEach(async function() {
+    docId = await owner.newDoc({name: 'doc'}, (await owner.getOrgWorkspaces('current'))[0].id);
+    await owner.applyUserActions(docId, [['AddRecord', 'Table1', null, {A: 'hello'}]]);
+    await waitForNotifications();
+    notifications = [];
+    sink.emails = [];
+  });
+
+  afterEach(function() {
+    sandbox.restore();
+  });
+
+  async function waitForNotifications() {
+    await waitForIt(() => assert.equal(notifier.testPendingNotifications(), 0), 5000, 100);
+  }
+
+  async function addComment(api: UserAPI, text: string, options: {mentions?: string[], parentId?: number} = {}) {
+    const who = await api.getSessionActive();
+    const result = await api.applyUserActions(docId, [
+      ['AddRecord', '_grist_Cells', null, {
+        tableRef: 1,
+        colRef: 2,
+        rowId: 1,
+        type: 1,
+        root: !options.parentId,
+        parentId: options.parentId || 0,
+        userRef: who.user.ref || '',
+        content: JSON.stringify({text, userName: who.user.name, mentions: options.mentions || []}),
+      }]
+    ]);
+    return result.retValues[0] as number;
+  }
+
+  function getNotifications(event: DocNotificationEvent) {
+    return notifications.filter(n => n.event === event);
+  }
+
+  it('GET/POST /api/docs/:did/prefs reads and updates notification prefs', async function() {
+    assert.deepEqual(await editor.getDocAPI(docId).getDocPrefs(), {docDefaults: {}, currentUser: {}});
+    await editor.getDocAPI(docId).setDocPrefs({currentUser: {notifications: {comments: 'all'}}});
+    assert.deepEqual(await editor.getDocAPI(docId).getDocPrefs(),
+      {docDefaults: {}, currentUser: {notifications: {comments: 'all'}}});
+
+    // Only owners may change the defaults for the document.
+    await assert.isRejected(editor.getDocAPI(docId).setDocPrefs({docDefaults: {notifications: {docChanges: true}}}),
+      /Only document owners/);
+    await owner.getDocAPI(docId).setDocPrefs({docDefaults: {notifications: {docChanges: true}}});
+    assert.deepEqual((await viewer.getDocAPI(docId).getDocPrefs()).docDefaults,
+      {notifications: {docChanges: true}});
+
+    // Invalid prefs are rejected.
+    const ownerDocApi = owner.getDocAPI(docId);
+    await assert.isRejected(ownerDocApi.setDocPrefs({currentUser: {notifications: {digest: 'weekly'}}} as any),
+      /Invalid digest notification pref/);
+    await assert.isRejected(ownerDocApi.setDocPrefs({currentUser: {notifications: 'all'}} as any),
+      /Notification prefs should be an object/);
+  });
+
+  it('notifies mentioned users of new comments', async function() {
+    await addComment(owner, `Hi [@Kiwi](user:${editorRef})`, {mentions: [editorRef]});
+    await waitForIt(() => assert.lengthOf(getNotifications('comments'), 1), 5000, 100);
+    const [{userId, data}] = getNotifications('comments');
+    const template = data as DocCommentsTemplate;
+    assert.equal(userId, editorId);
+    assert.equal(template.authorName, 'Chimpy');
+    assert.equal(template.docName, 'doc');
+    assert.lengthOf(template.comments, 1);
+    assert.equal(template.comments[0].text, 'Hi @Kiwi');
+    assert.isTrue(template.comments[0].mentionsYou);
+    assert.match(template.comments[0].url, new RegExp(`/doc/${docId}.*#a4\\.r1\\.c2$`));
+
+    await waitForIt(() => assert.lengthOf(sink.emails, 1), 5000, 100);
+    assert.deepEqual(sink.emails[0].to, ['<kiwi@getgrist.com>']);
+    assert.equal(sink.emails[0].headers.subject, 'Chimpy commented in "doc"');
+    assert.include(sink.emails[0].body, '[Mentions you] Hi @Kiwi');
+  });
+
+  it('notifies users of replies in their threads, or of all comments if they ask', async function() {
+    await viewer.getDocAPI(docId).setDocPrefs({currentUser: {notifications: {comments: 'all'}}});
+    const rootId = await addComment(owner, 'First');
+    await waitForIt(() => assert.lengthOf(getNotifications('comments'), 1), 5000, 100);
+    assert.equal(getNotifications('comments')[0].userId, viewerId);
+    notifications = [];
+
+    await addComment(editor, 'Reply', {parentId: rootId});
+    await waitForIt(() => assert.lengthOf(getNotifications('comments'), 2), 5000, 100);
+    assert.sameMembers(getNotifications('comments').map(n => n.userId), [ownerId, viewerId]);
+    for (const {data} of getNotifications('comments')) {
+      assert.equal(data.authorName, 'Kiwi');
+      assert.deepEqual(data.comments.map((c: any) => [c.text, c.mentionsYou]), [['Reply', false]]);
+    }
+
+    // Users who turned comment notifications off get nothing.
+    notifications = [];
+    await owner.getDocAPI(docId).setDocPrefs({currentUser: {notifications: {comments: 'none'}}});
+    await addComment(editor, 'Another reply', {parentId: rootId});
+    await waitForIt(() => assert.lengthOf(getNotifications('comments'), 1), 5000, 100);
+    assert.equal(getNotifications('comments')[0].userId, viewerId);
+  });
+
+  it('keeps notifying other users when notifying one of them fails', async function() {
+    await viewer.getDocAPI(docId).setDocPrefs({currentUser: {notifications: {comments: 'all'}}});
+    await editor.getDocAPI(docId).setDocPrefs({currentUser: {notifications: {comments: 'all'}}});
+    const dbManager = server.dbManager;
+    const original = dbManager.getUserAndEnsureUnsubscribeKey.bind(dbManager);
+    sandbox.stub(dbManager, 'getUserAndEnsureUnsubscribeKey').callsFake(async (userId: number) => {
+      if (userId === editorId) { throw new Error('Failed'); }
+      return original(userId);
+    });
+    await addComment(owner, 'Hello');
+    await waitForIt(() => assert.lengthOf(getNotifications('comments'), 1), 5000, 100);
+    assert.equal(getNotifications('comments')[0].userId, viewerId);
+  });
+
+  it('adds concurrent changes to digests without losing any', async function() {
+    const authors = ['A', 'B', 'C', 'D', 'E'];
+    const dueAt = new Date(Date.now() + 60000);
+    await Promise.all(authors.map(author => server.dbManager.addToDocChangesDigest(docId, ownerId, {
+      authors: [author], userTableNames: ['Table1'], categories: [], count: 1,
+    }, dueAt)));
+    const pending = await server.dbManager.takeDocChangesDigest(docId, ownerId);
+    assert.equal(pending?.changes.count, 5);
+    assert.sameMembers(pending!.changes.authors, authors);
+    assert.deepEqual(pending!.changes.userTableNames, ['Table1']);
+  });
+
+  it('collects changes into digests for users who ask for them', async function() {
+    sandbox.stub(Deps, 'DIGEST_DELAY_MS').value({hourly: 2000, daily: 60000});
+    await editor.getDocAPI(docId).setDocPrefs({currentUser: {notifications: {docChanges: true}}});
+    await viewer.getDocAPI(docId).setDocPrefs({currentUser: {notifications: {docChanges: true, digest: 'daily'}}});
+    await owner.applyUserActions(docId, [['UpdateRecord', 'Table1', 1, {A: 'world'}]]);
+    await owner.applyUserActions(docId, [['AddTable', 'Other', [{id: 'X'}]]]);
+    await editor.applyUserActions(docId, [['AddRecord', 'Other', null, {X: 'x'}]]);
+
+    // Kiwi gets an hourly digest (shortened for the test) of the changes made by others.
+    await waitForIt(() => assert.lengthOf(getNotifications('docChanges'), 1), 5000, 100);
+    const [{userId, data}] = getNotifications('docChanges');
+    const template = data as DocChangesTemplate;
+    assert.equal(userId, editorId);
+    assert.equal(template.digest, 'hourly');
+    assert.equal(template.senderAuthorName, 'Chimpy');
+    assert.deepEqual(template.changes.authors, ['Chimpy']);
+    assert.equal(template.changes.count, 2);
+    assert.sameMembers(template.changes.userTableNames, ['Table1', 'Other']);
+    assert.include(template.changes.categories, 'structure');
+
+    // Charon's daily digest isn't due yet.
+    const pending = await server.dbManager.takeDocChangesDigest(docId, viewerId);
+    assert.equal(pending?.changes.count, 3);
+    assert.sameMembers(pending!.changes.authors, ['Chimpy', 'Kiwi']);
+    assert.sameMembers(pending!.changes.userTableNames, ['Table1', 'Other']);
+  });
+
+  it('unsubscribes users through links in notifications', async function() {
+    await addComment(owner, `Hi [@Kiwi](user:${editorRef})`, {mentions: [editorRef]});
+    await waitForIt(() => assert.lengthOf(getNotifications('comments'), 1), 5000, 100);
+    const unsubscribeUrl = new URL(getNotifications('comments')[0].data.unsubscribeUrl);
+
+    // Links don't work if tampered with.
+    const badUrl = new URL(unsubscribeUrl);
+    badUrl.searchParams.set('user', String(ownerId));
+    let resp = await axios.get(badUrl.href, {validateStatus: () => true});
+    assert.equal(resp.status, 403);
+    assert.deepEqual((await owner.getDocAPI(docId).getDocPrefs()).currentUser, {});
+
+    // Links work without the user being logged in.
+    resp = await axios.get(unsubscribeUrl.href, {validateStatus: () => true});
+    assert.equal(resp.status, 200);
+    assert.deepEqual((await editor.getDocAPI(docId).getDocPrefs()).currentUser,
+      {notifications: {comments: 'none'}});
+  });
+});
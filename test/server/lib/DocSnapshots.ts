@@ -1,9 +1,13 @@
 import {ObjSnapshot, ObjSnapshotWithMetadata} from 'app/common/DocSnapshot';
 import {SnapshotWindow} from 'app/common/Features';
-import {DocSnapshotPruner, IInventory} from 'app/server/lib/DocSnapshots';
+import {DocSnapshotInventory, DocSnapshotPruner, IInventory} from 'app/server/lib/DocSnapshots';
 import {ExternalStorage} from 'app/server/lib/ExternalStorage';
+import {FilesystemExternalStorage} from 'app/server/lib/FilesystemExternalStorage';
+import {createTmpDir} from 'test/server/docTools';
 import {assert} from 'chai';
+import * as fse from 'fs-extra';
 import moment from 'moment';
+import * as path from 'path';
 import * as sinon from 'sinon';
 
 describe('DocSnapshots', async function() {
@@ -49,17 +53,21 @@ describe('DocSnapshots', async function() {
     /**
      * given a string of form ['+time1', '+time2', '-time3', ....], check that
      * with snapshots created at the specified times, pruning will end up keeping
-     * the ones marked with a '+' and removing the ones marked with a '-'.
+     * the ones marked with a '+' and removing the ones marked with a '-'. A time may be
+     * followed by ' | label' to label the version, or by ' | *label' to also pin it.
      */
     async function checkDecisions(times: string[], options: { timezone?: string, window?: SnapshotWindow } = {}) {
-      const snapshotsWithMetadata: ObjSnapshotWithMetadata[] = times.map(t => ({
-        lastModified: moment(t.split(' | ')[0].slice(1)).toISOString(),
-        snapshotId: t,
-        metadata: {
-          ...(t.includes('|') ? {label: t.split(' | ')[1]} : undefined),
-          ...options.timezone && {tz: options.timezone},
-        }
-      }));
+      const snapshotsWithMetadata: ObjSnapshotWithMetadata[] = times.map(t => {
+        const label = t.split(' | ')[1];
+        return {
+          lastModified: moment(t.split(' | ')[0].slice(1)).toISOString(),
+          snapshotId: t,
+          metadata: {
+            ...(label?.startsWith('*') ? {label: label.slice(1), pinned: true} : label ? {label} : undefined),
+            ...options.timezone && {tz: options.timezone},
+          }
+        };
+      });
 
       // Check that versions are classified as we expect.
       const inventory: IInventory = {
@@ -321,5 +329,77 @@ describe('DocSnapshots', async function() {
       ];
       await checkDecisions(times, {window: {count: 1, unit: 'month'}});
     });
+
+    it('keeps pinned versions regardless of age', async function() {
+      const times = [
+        '+2000-09-08 09:30Z',
+        '+2000-09-08 09:29Z',
+        '+2000-09-08 09:28Z',
+        '+2000-09-08 09:27Z',
+        '+2000-09-08 09:26Z',
+        '+2000-09-08 09:25Z | *Q3 close',
+        '-2000-09-08 09:24Z',
+        '+1990-09-09 08:26Z',
+        '+1990-09-09 08:25Z | *old',
+        '-1990-09-09 08:24Z | unpinned',
+      ];
+      await checkDecisions(times);
+    });
+
+    it('keeps pinned versions only within the snapshot window', async function() {
+      const times = [
+        '+2000-09-08 09:30Z',
+        '+2000-09-08 09:29Z',
+        '+2000-09-08 09:28Z',
+        '+2000-09-08 09:27Z',
+        '+2000-09-08 09:26Z',
+        '+2000-09-01 09:28Z | *Q3 close',
+        '-2000-08-08 09:27Z',
+        '-1990-09-09 08:25Z | *old',
+        '-1990-09-09 08:24Z | unpinned',
+      ];
+      await checkDecisions(times, {window: {count: 1, unit: 'month'}});
+    });
 });
+
+  describe('DocSnapshotInventory', async function() {
+    let tmpDir: string;
+
+    beforeEach(async function() {
+      tmpDir = await fse.mkdtemp(path.join(await createTmpDir(), 'doc-snapshot-inventory-'));
+    });
+
+    afterEach(async function() {
+      await fse.remove(tmpDir);
+    });
+
+    it('keeps pins when the inventory is reconstructed', async function() {
+      const docStore = new FilesystemExternalStorage(path.join(tmpDir, 'doc'));
+      const metaStore = new FilesystemExternalStorage(path.join(tmpDir, 'meta'));
+      const inventoryPath = path.join(tmpDir, 'meta.json');
+      const inventory = new DocSnapshotInventory(docStore, metaStore, async () => inventoryPath,
+        async () => undefined);
+      const fname = path.join(tmpDir, 'upload');
+      await fse.writeFile(fname, 'content');
+      const id1 = await docStore.upload('doc', fname);
+      const id2 = await docStore.upload('doc', fname);
+
+      await inventory.updateMetadata('doc', id1, {label: 'Q3 close', pinned: true});
+      await inventory.updateMetadata('doc', id2, {pinned: true});
+      await inventory.updateMetadata('doc', id2, {pinned: false});
+      assert.deepEqual((await inventory.versions('doc')).map(v => [v.snapshotId, v.metadata]), [
+        [id2, {}],
+        [id1, {label: 'Q3 close', pinned: true}],
+      ]);
+
+      // Lose the inventory, so that it is reconstructed from the versions. Labels only lived in
+      // the inventory, but pins are kept with the versions.
+      await fse.remove(inventoryPath);
+      await metaStore.remove('doc');
+      assert.deepEqual((await inventory.versions('doc')).map(v => [v.snapshotId, v.metadata?.pinned]), [
+        [id2, undefined],
+        [id1, true],
+      ]);
+    });
+  });
 });
@@ -39,11 +39,11 @@ describe('DocStorageMigrations', function() {
   }
 
   it('should migrate from v1 correctly', function() {
-    return testMigration('BlobMigrationV1.grist', 'BlobMigrationV9.grist');
+    return testMigration('BlobMigrationV1.grist', 'BlobMigrationV11.grist');
   });
 
   it('should migrate from v2 correctly', function() {
-    return testMigration('BlobMigrationV2.grist', 'BlobMigrationV9.grist');
+    return testMigration('BlobMigrationV2.grist', 'BlobMigrationV11.grist');
   });
 
   it('should migrate from v3 correctly', async function() {
@@ -69,11 +69,11 @@ describe('DocStorageMigrations', function() {
     // Also do the test to check out the full document against a saved copy. To know if the copy
     // makes sense, run in test/fixtures/docs:
     //    diff -u <(sqlite3 BlobMigrationV3.grist .dump) <(sqlite3 BlobMigrationV4.grist .dump)
-    await testMigration('BlobMigrationV3.grist', 'BlobMigrationV9.grist');
+    await testMigration('BlobMigrationV3.grist', 'BlobMigrationV11.grist');
   });
 
   it('should migrate from v4 correctly', function() {
-    return testMigration('BlobMigrationV4.grist', 'BlobMigrationV9.grist');
+    return testMigration('BlobMigrationV4.grist', 'BlobMigrationV11.grist');
   });
 
   it('should migrate from v5 correctly', async function() {
@@ -83,7 +83,7 @@ describe('DocStorageMigrations', function() {
     //
     // Verify correctness of these fixture files with:
     //  diff -u <(sqlite3 DefaultValuesV5.grist .dump) <(sqlite3 DefaultValuesV7.grist .dump)
-    return testMigration('DefaultValuesV5.grist', 'DefaultValuesV9.grist');
+    return testMigration('DefaultValuesV5.grist', 'DefaultValuesV11.grist');
   });
 
   it('should migrate from v6 correctly', async function() {
@@ -93,7 +93,7 @@ describe('DocStorageMigrations', function() {
     // Verify correctness of updated fixture files with, for instance:
     //  cd test/fixtures/docs ; \
     //    diff -u <(sqlite3 DefaultValuesV6.grist .dump) <(sqlite3 DefaultValuesV7.grist .dump)
-    await testMigration('BlobMigrationV6.grist', 'BlobMigrationV9.grist');
-    await testMigration('DefaultValuesV6.grist', 'DefaultValuesV9.grist');
+    await testMigration('BlobMigrationV6.grist', 'BlobMigrationV11.grist');
+    await testMigration('DefaultValuesV6.grist', 'DefaultValuesV11.grist');
   });
 });
@@ -0,0 +1,121 @@
+import {ExternalStorageAttachmentStore, storageSupportsAttachments} from 'app/server/lib/AttachmentStore';
+import {wrapWithKeyMappedStorage} from 'app/server/lib/ExternalStorage';
+import {FilesystemExternalStorage} from 'app/server/lib/FilesystemExternalStorage';
+import {createTmpDir} from 'test/server/docTools';
+
+import {assert} from 'chai';
+import * as fse from 'fs-extra';
+import * as stream from 'node:stream';
+import * as path from 'path';
+
+describe('FilesystemExternalStorage', function() {
+  let tmpDir: string;
+  let storage: FilesystemExternalStorage;
+
+  beforeEach(async function() {
+    tmpDir = await fse.mkdtemp(path.join(await createTmpDir(), 'filesystem-external-storage-'));
+    storage = new FilesystemExternalStorage(path.join(tmpDir, 'store'));
+  });
+
+  afterEach(async function() {
+    await fse.remove(tmpDir);
+  });
+
+  async function writeFile(content: string) {
+    const fname = path.join(tmpDir, 'upload');
+    await fse.writeFile(fname, content);
+    return fname;
+  }
+
+  async function readVersion(key: string, snapshotId?: string) {
+    const fname = path.join(tmpDir, 'download');
+    await fse.remove(fname);
+    const downloadedId = await storage.download(key, fname, snapshotId);
+    return {snapshotId: downloadedId, content: await fse.readFile(fname, 'utf8')};
+  }
+
+  it('keeps every uploaded version of a key', async function() {
+    assert.isFalse(await storage.exists('docs/doc1.grist'));
+    assert.deepEqual(await storage.versions('docs/doc1.grist'), []);
+
+    const id1 = await storage.upload('docs/doc1.grist', await writeFile('first'));
+    const id2 = await storage.upload('docs/doc1.grist', await writeFile('second'), {label: 'checkpoint'});
+    assert.isString(id1);
+    assert.isString(id2);
+    assert.notEqual(id1, id2);
+
+    // Versions are listed newest first.
+    const versions = await storage.versions('docs/doc1.grist');
+    assert.deepEqual(versions.map(v => v.snapshotId), [id2, id1]);
+    assert.isAtLeast(Date.parse(versions[0].lastModified), Date.parse(versions[1].lastModified));
+
+    // Downloads default to the latest version.
+    assert.deepEqual(await readVersion('docs/doc1.grist'), {snapshotId: id2, content: 'second'});
+    assert.deepEqual(await readVersion('docs/doc1.grist', id1), {snapshotId: id1, content: 'first'});
+
+    // Metadata is kept alongside each version.
+    assert.deepInclude(await storage.head('docs/doc1.grist'), {snapshotId: id2, metadata: {label: 'checkpoint'}});
+    assert.notProperty(await storage.head('docs/doc1.grist', id1), 'metadata');
+    assert.isTrue(await storage.exists('docs/doc1.grist', id1));
+    assert.isFalse(await storage.exists('docs/doc1.grist', 'nonexistent'));
+
+    // Other keys are unaffected.
+    assert.isFalse(await storage.exists('docs/doc2.grist'));
+  });
+
+  it('can remove some or all versions of a key', async function() {
+    const ids: string[] = [];
+    for (const content of ['a', 'b', 'c']) {
+      ids.push(await storage.upload('docs/doc1.grist', await writeFile(content)));
+    }
+    await storage.upload('docs/doc2.grist', await writeFile('other'));
+
+    await storage.remove('docs/doc1.grist', [ids[1], ids[0]]);
+    assert.deepEqual((await storage.versions('docs/doc1.grist')).map(v => v.snapshotId), [ids[2]]);
+    assert.equal((await readVersion('docs/doc1.grist')).content, 'c');
+
+    // Removing content that isn't there is not an error.
+    await storage.remove('docs/doc1.grist', [ids[0]]);
+
+    await storage.remove('docs/doc1.grist');
+    assert.deepEqual(await storage.versions('docs/doc1.grist'), []);
+    assert.isNull(await storage.head('docs/doc1.grist'));
+    assert.lengthOf(await storage.versions('docs/doc2.grist'), 1);
+    await storage.remove('docs/doc1.grist');
+  });
+
+  it('treats missing content as a non-fatal error', async function() {
+    const fname = path.join(tmpDir, 'download');
+    const err = await storage.download('docs/doc1.grist', fname).catch(e => e);
+    assert.match(err.message, /not found/);
+    assert.isFalse(storage.isFatalError(err));
+    assert.isTrue(storage.isFatalError(new Error('disk full')));
+    assert.isFalse(await fse.pathExists(fname));
+  });
+
+  it('refuses keys outside its directory', async function() {
+    await assert.isRejected(storage.upload('../escape', await writeFile('x')), /invalid key/);
+    await assert.isRejected(storage.download('docs/doc1.grist', path.join(tmpDir, 'x'), '../../x'),
+      /invalid snapshotId/);
+  });
+
+  it('supports streams and removal by prefix, as needed for attachments', async function() {
+    const mapped = wrapWithKeyMappedStorage(storage, {purpose: 'attachments', basePrefix: 'docs/'});
+    if (!storageSupportsAttachments(mapped)) { throw new Error('storage should support attachments'); }
+    const attachments = new ExternalStorageAttachmentStore('test-store', mapped);
+    await attachments.upload('pool1', 'file1.png', stream.Readable.from(Buffer.from('data1')));
+    await attachments.upload('pool1', 'file2.png', stream.Readable.from(Buffer.from('data2')));
+    await attachments.upload('pool2', 'file1.png', stream.Readable.from(Buffer.from('data3')));
+
+    const download = await attachments.download('pool1', 'file2.png');
+    assert.equal(download.metadata.size, 5);
+    const chunks: Buffer[] = [];
+    for await (const chunk of download.contentStream) { chunks.push(chunk); }
+    assert.equal(Buffer.concat(chunks).toString(), 'data2');
+
+    await attachments.removePool('pool1');
+    assert.isFalse(await attachments.exists('pool1', 'file1.png'));
+    assert.isFalse(await attachments.exists('pool1', 'file2.png'));
+    assert.isTrue(await attachments.exists('pool2', 'file1.png'));
+  });
+});
@@ -1,5 +1,5 @@
 import {LocalActionBundle, SandboxActionBundle} from 'app/common/ActionBundle';
-import {PermissionDataWithExtraUsers} from 'app/common/ActiveDocAPI';
+import {AclSimulationRequest, AclSimulationResult, PermissionDataWithExtraUsers} from 'app/common/ActiveDocAPI';
 import {delay} from 'app/common/delay';
 import {
   AddRecord,
@@ -2965,6 +2965,192 @@ describe('GranularAccess', function() {
     });
   });
 
+  it('can simulate access rules for a cell', async function() {
+    await freshDoc();
+    await owner.applyUserActions(docId, [
+      ['AddTable', 'Data1', [{id: 'A', type: 'Numeric'}, {id: 'B', type: 'Numeric'}]],
+      ['AddRecord', 'Data1', null, {A: 5, B: 1}],
+      ['AddRecord', 'Data1', null, {A: 20, B: 2}],
+      ['AddRecord', '_grist_ACLResources', -1, {tableId: 'Data1', colIds: 'B'}],
+      ['AddRecord', '_grist_ACLResources', -2, {tableId: 'Data1', colIds: '*'}],
+      ['AddRecord', '_grist_ACLRules', null, {
+        resource: -1, aclFormula: 'user.Access == "editors"', permissionsText: '-R',
+      }],
+      ['AddRecord', '_grist_ACLRules', null, {
+        resource: -2, aclFormula: 'rec.A > 10', permissionsText: '-RU',
+      }],
+    ]);
+
+    async function simulate(request: AclSimulationRequest) {
+      const result = await cliOwner.send('simulateAccessRules', 0, request);
+      assert.isUndefined(result.error);
+      const {user, steps, permissions} = result.data as AclSimulationResult;
+      return {
+        email: user.Email,
+        access: user.Access,
+        steps: steps.map(s => [`${s.resource.tableId}:${s.resource.colIds}`, s.aclFormula, s.result, s.decides]),
+        permissions,
+      };
+    }
+
+    // An editor is denied reading B by the column rule, and gets the rest from the default rules.
+    assert.deepEqual(await simulate({userEmail: 'charon@getgrist.com', tableId: 'Data1', rowId: 1, colId: 'B'}), {
+      email: 'charon@getgrist.com',
+      access: 'editors',
+      steps: [
+        ['Data1:B', 'user.Access == "editors"', true, ['read']],
+        ['Data1:*', 'rec.A > 10', false, []],
+        ['*:*', 'user.Access in [EDITOR, OWNER]', true, ['create', 'update', 'delete', 'schemaEdit']],
+        ['*:*', 'user.Access in [VIEWER]', false, []],
+        ['*:*', '', true, []],
+      ],
+      permissions: {read: 'deny', create: 'allow', update: 'allow', delete: 'allow', schemaEdit: 'allow'},
+    });
+
+    // The owner is denied reading and updating the second row by the table rule.
+    assert.deepInclude(await simulate({tableId: 'Data1', rowId: 2, colId: 'B'}), {
+      email: 'chimpy@getgrist.com',
+      access: 'owners',
+      steps: [
+        ['Data1:B', 'user.Access == "editors"', false, []],
+        ['Data1:*', 'rec.A > 10', true, ['read', 'update']],
+        ['*:*', 'user.Access in [EDITOR, OWNER]', true, ['create', 'delete', 'schemaEdit']],
+        ['*:*', 'user.Access in [VIEWER]', false, []],
+        ['*:*', '', true, []],
+      ],
+    });
+
+    // Without a row, rules that depend on it leave permissions undecided, for a viewer here.
+    assert.deepInclude(await simulate({userAttributes: {Access: 'viewers'}, tableId: 'Data1', colId: 'A'}), {
+      access: 'viewers',
+      steps: [
+        ['Data1:*', 'rec.A > 10', 'needsRow', []],
+        ['*:*', 'user.Access in [EDITOR, OWNER]', false, []],
+        ['*:*', 'user.Access in [VIEWER]', true, ['create', 'read', 'update', 'delete', 'schemaEdit']],
+        ['*:*', '', true, []],
+      ],
+      permissions: {read: 'mixed', create: 'deny', update: 'deny', delete: 'deny', schemaEdit: 'deny'},
+    });
+
+    // Bad requests are refused.
+    assert.match((await cliOwner.send('simulateAccessRules', 0, {tableId: 'Data1', rowId: 99, colId: 'A'})).error!,
+                 /Row not found/);
+    assert.match((await cliOwner.send('simulateAccessRules', 0, {tableId: 'Data1', colId: 'Z'})).error!,
+                 /Column not found/);
+    assert.match((await cliOwner.send('simulateAccessRules', 0, {
+      tableId: 'Data1', colId: 'A', userAttributes: {ShareRef: 1},
+    })).error!, /Cannot simulate user attribute ShareRef/);
+
+    // Only owners may simulate access rules.
+    assert.match((await cliEditor.send('simulateAccessRules', 0, {tableId: 'Data1', colId: 'A'})).error!,
+                 /No owner access/);
+  });
+
+  it('can export access rules and import them into another document', async function() {
+    await freshDoc();
+    const sourceId = docId;
+    await owner.applyUserActions(sourceId, [
+      ['AddTable', 'Data1', [{id: 'A', type: 'Numeric'}, {id: 'B', type: 'Numeric'}]],
+      ['AddTable', 'Zones', [{id: 'Email', type: 'Text'}, {id: 'City', type: 'Text'}]],
+      ['AddRecord', '_grist_ACLResources', -1, {tableId: 'Data1', colIds: 'B'}],
+      ['AddRecord', '_grist_ACLResources', -2, {tableId: 'Data1', colIds: '*'}],
+      ['AddRecord', '_grist_ACLResources', -3, {tableId: '*', colIds: '*'}],
+      ['AddRecord', '_grist_ACLRules', null, {
+        resource: -3, userAttributes: JSON.stringify({
+          name: 'Zone', tableId: 'Zones', lookupColId: 'Email', charId: 'Email',
+        }),
+      }],
+      ['AddRecord', '_grist_ACLRules', null, {
+        resource: -1, aclFormula: 'user.Access == "editors"', permissionsText: '-R',
+      }],
+      ['AddRecord', '_grist_ACLRules', null, {
+        resource: -2, aclFormula: 'rec.A > 10', permissionsText: '-RU', memo: 'Too big',
+      }],
+    ]);
+
+    const bundle = await owner.getDocAPI(sourceId).getAccessRules();
+    assert.deepEqual(bundle, {
+      version: 1,
+      tables: [
+        {tableId: 'Data1', colIds: ['A', 'B']},
+        {tableId: 'Zones', colIds: ['Email', 'City']},
+      ],
+      resources: [
+        {id: 1, tableId: 'Data1', colIds: 'B'},
+        {id: 2, tableId: 'Data1', colIds: '*'},
+      ],
+      rules: [
+        {resource: 1, aclFormula: 'user.Access == "editors"', permissionsText: '-R'},
+        {resource: 2, aclFormula: 'rec.A > 10', permissionsText: '-RU', memo: 'Too big'},
+      ],
+      userAttributes: [{name: 'Zone', tableId: 'Zones', lookupColId: 'Email', charId: 'Email'}],
+    });
+    // Editors may not see the access rules.
+    await assert.isRejected(editor.getDocAPI(sourceId).getAccessRules(), /Cannot export access rules/);
+
+    // Import into a document where Data1 is named differently, and Zones is missing.
+    await freshDoc();
+    const target = owner.getDocAPI(docId);
+    await owner.applyUserActions(docId, [
+      ['AddTable', 'Items', [{id: 'A', type: 'Numeric'}, {id: 'B', type: 'Numeric'}, {id: 'C', type: 'Text'}]],
+    ]);
+    assert.deepEqual(await target.importAccessRules(bundle), {
+      applied: false,
+      tableIds: {Data1: 'Items'},
+      rules: 2,
+      userAttributes: 1,
+      conflicts: [{kind: 'missingTable', tableId: 'Zones', message: 'Table Zones not found'}],
+    });
+
+    // Once Zones exists, with the column used for lookups, the rules can be imported.
+    await owner.applyUserActions(docId, [['AddTable', 'Zones', [{id: 'Email', type: 'Text'}]]]);
+    assert.deepEqual(await target.importAccessRules(bundle, {dryRun: true}), {
+      applied: false,
+      tableIds: {Data1: 'Items', Zones: 'Zones'},
+      rules: 2,
+      userAttributes: 1,
+      conflicts: [],
+    });
+    assert.deepEqual((await target.getAccessRules()).rules, []);
+    assert.equal((await target.importAccessRules(bundle)).applied, true);
+    assert.deepEqual(await target.getAccessRules(), {
+      ...bundle,
+      tables: [
+        {tableId: 'Items', colIds: ['A', 'B', 'C']},
+        {tableId: 'Zones', colIds: ['Email']},
+      ],
+      resources: [
+        {id: 1, tableId: 'Items', colIds: 'B'},
+        {id: 2, tableId: 'Items', colIds: '*'},
+      ],
+    });
+    // The imported rules are in effect.
+    await owner.applyUserActions(docId, [['AddRecord', 'Items', null, {A: 5, B: 1}]]);
+    assert.deepEqual((await editor.getDocAPI(docId).getRows('Items')).B, undefined);
+
+    // Formulas are checked, including the columns they use.
+    const result = await target.importAccessRules({...bundle, rules: [
+      {resource: 2, aclFormula: 'rec.D > 1', permissionsText: '-R'},
+      {resource: 2, aclFormula: 'rec.A >', permissionsText: '-R'},
+    ]});
+    assert.equal(result.applied, false);
+    assert.deepEqual(result.conflicts.map(c => [c.kind, c.colIds]), [
+      ['missingColumns', ['D']],
+      ['invalidFormula', undefined],
+    ]);
+
+    // Only owners may import access rules.
+    await assert.isRejected(editor.getDocAPI(docId).importAccessRules(bundle), /No owner access/);
+    await assert.isRejected(target.importAccessRules({...bundle, version: 2} as any),
+                            /Invalid access rules bundle/);
+    // Resource ids must be unique positive integers.
+    for (const ids of [[0, 2], [1, 1], [1.5, 2]]) {
+      await assert.isRejected(target.importAccessRules({
+        ...bundle, resources: bundle.resources.map((r, i) => ({...r, id: ids[i]})),
+      }), /Invalid access rules bundle/);
+    }
+  });
+
   it('allows column conversions in the presence of per-row rules', async function() {
     await freshDoc();
     const results = await owner.applyUserActions(docId, [
@@ -4136,6 +4322,57 @@ describe('GranularAccess', function() {
       await removeShares(docId, owner);
     });
 
+    it('keep document access rules for share links', async function() {
+      await freshDoc('FilmsWithImages.grist');
+      // Add an editable link to the page showing Performances.
+      await owner.applyUserActions(docId, [
+        ['AddRecord', '_grist_Shares', null, {
+          linkId: 'x',
+          options: JSON.stringify({publish: true, kind: 'link', access: 'editors', pages: [3]}),
+        }],
+        ['AddRecord', '_grist_ACLResources', -1, {tableId: 'Performances', colIds: 'Character'}],
+        ['AddRecord', '_grist_ACLResources', -2, {tableId: 'Performances', colIds: '*'}],
+        ['AddRecord', '_grist_ACLRules', null, {
+          resource: -1, aclFormula: 'user.Access != OWNER', permissionsText: '-R',
+        }],
+        ['AddRecord', '_grist_ACLRules', null, {
+          resource: -2, aclFormula: 'user.Access != OWNER', permissionsText: '-D',
+        }],
+      ]);
+      const ham = await home.createHomeApi('ham', 'docs', true);
+      const hamShare = ham.getDocAPI(await getShareKeyForUrl('x'));
+
+      // Access rules still apply through the link.
+      const performances = await hamShare.getRecords('Performances');
+      assert.isAbove(performances.length, 0);
+      assert.sameMembers(Object.keys(performances[0].fields), ['Actor', 'Film']);
+      const rowId = performances[0].id as number;
+      await assert.isFulfilled(hamShare.updateRows('Performances', {id: [rowId], Actor: ['Someone']}));
+      await assertDeniedFor(hamShare.removeRows('Performances', [rowId]), [],
+        /Blocked by table delete access rules/);
+
+      // Tables outside the page are blocked, except for the titles of referenced films.
+      await assert.isRejected(hamShare.getRecords('Friends'), /Forbidden/);
+      const films = await hamShare.getRecords('Films');
+      assert.sameMembers(Object.keys(films[0].fields), ['Title']);
+      await assertDeniedFor(hamShare.updateRows('Films', {id: [1], Title: ['Toy Story 2']}), []);
+
+      // Only owners may create or change links.
+      await assert.isRejected(editor.applyUserActions(docId, [
+        ['UpdateRecord', '_grist_Shares', 1, {
+          options: JSON.stringify({publish: true, kind: 'link', access: 'editors'}),
+        }],
+      ]), /Only owners can modify shares/);
+      await assert.isRejected(editor.applyUserActions(docId, [
+        ['AddRecord', '_grist_Shares', null, {
+          linkId: 'y',
+          options: JSON.stringify({publish: true, kind: 'link', access: 'editors'}),
+        }],
+      ]), /Only owners can modify shares/);
+
+      await removeShares(docId, owner);
+    });
+
     it('can give access to a pair of form-shared widgets on same page', async function() {
       await freshDoc('ManyRefs.grist');
 
@@ -24,6 +24,7 @@ import {
   ExternalStorageSettings,
   wrapWithKeyMappedStorage
 } from 'app/server/lib/ExternalStorage';
+import {FilesystemExternalStorage} from 'app/server/lib/FilesystemExternalStorage';
 import { createDummyGristServer, GristServer } from 'app/server/lib/GristServer';
 import {
   HostedStorageManager,
@@ -406,7 +407,7 @@ describe('HostedStorageManager', function() {
     await removeConnection();
   });
 
-  for (const storage of ['azure', 's3', 'minio', 'cached'] as const) {
+  for (const storage of ['azure', 's3', 'minio', 'cached', 'filesystem'] as const) {
     describe(storage, function() {
 
       const sandbox = sinon.createSandbox();
@@ -453,6 +454,11 @@ describe('HostedStorageManager', function() {
             externalStorageCreate = (purpose) => wrapWithKeyMappedStorage(ext, {purpose, basePrefix: 'prefix'});
             break;
           }
+          case 'filesystem': {
+            const ext = new FilesystemExternalStorage(path.join(tmpDir, 'external-storage'));
+            externalStorageCreate = (purpose) => wrapWithKeyMappedStorage(ext, {purpose, basePrefix: 'prefix'});
+            break;
+          }
           case 'azure':
             if (!process.env.AZURE_STORAGE_CONNECTION_STRING) {
               this.skip();
@@ -922,6 +928,51 @@ describe('HostedStorageManager', function() {
         }, 20000);
       });
 
+      it('keeps pinned snapshots when pruning', async function() {
+        const docId = `create-${uuidv4()}`;
+        const doc = await store.run(async () => {
+          await useFixtureDoc('Hello.grist', store.storageManager, `${docId}.grist`);
+          const doc = await store.docManager.fetchDoc(docSession, docId);
+          await doc.docStorage.exec(`update Table1 set A = 'pinned' where id = 1`);
+          await doc.testKeepOpen();
+          await store.waitForUpdates();
+          return doc;
+        });
+        const pinnedId = (await store.storageManager.getSnapshots(doc.docName)).snapshots[0].snapshotId;
+        await store.storageManager.updateSnapshotMetadata(doc.docName, pinnedId, {label: 'Q3 close', pinned: true});
+        await assert.isRejected(store.storageManager.updateSnapshotMetadata(doc.docName, 'unknown', {pinned: true}),
+          /Snapshot not found/);
+
+        await store.run(async () => {
+          for (let i = 0; i < 8; i++) {
+            await doc.docStorage.exec(`update Table1 set A = 'v${i}' where id = 1`);
+            await doc.testKeepOpen();
+            await store.waitForUpdates();
+          }
+          await store.storageManager.testWaitForPrunes();
+        });
+        await waitForIt(async () => {
+          const {snapshots} = await store.storageManager.getSnapshots(doc.docName);
+          // The usual five or six recent versions, plus the pinned one.
+          assert.isAtMost(snapshots.length, 7);
+          const pinned = snapshots.find(v => v.snapshotId === pinnedId);
+          assert.deepInclude(pinned?.metadata, {label: 'Q3 close', pinned: true});
+        }, 20000);
+
+        // Once unpinned and unlabelled, the snapshot is pruned like any other.
+        await store.storageManager.updateSnapshotMetadata(doc.docName, pinnedId, {pinned: false, label: null});
+        await store.run(async () => {
+          await doc.docStorage.exec(`update Table1 set A = 'last' where id = 1`);
+          await doc.testKeepOpen();
+          await store.waitForUpdates();
+          await store.storageManager.testWaitForPrunes();
+        });
+        await waitForIt(async () => {
+          const {snapshots} = await store.storageManager.getSnapshots(doc.docName);
+          assert.notInclude(snapshots.map(v => v.snapshotId), pinnedId);
+        }, 20000);
+      });
+
       for (const wipeLocal of [false, true]) {
         it (`can lose checksums without disruption with${wipeLocal ? '' : 'out'} local file wipe`, async function() {
           const docId = `create-${uuidv4()}`;
@@ -211,6 +211,7 @@ describe('Scim', () => {
           sandbox.stub(getDbManager(), 'createGroup').throws(error);
           sandbox.stub(getDbManager(), 'overwriteTeamGroup').throws(error);
           sandbox.stub(getDbManager(), 'overwriteRoleGroup').throws(error);
+          sandbox.stub(getDbManager(), 'updateGroupMembers').throws(error);
           sandbox.stub(getDbManager(), 'deleteGroup').throws(error);
 
           const res = await makeCallWith('chimpy');
@@ -1143,6 +1144,66 @@ describe('Scim', () => {
             });
           });
 
+          it('should remove a member from a group', async function () {
+            return withGroup(async (groupId) => {
+              await getDbManager().updateGroupMembers(Number(groupId), {add: {memberUsers: [userIdByName['kiwi']!]}});
+              const res = await axios.patch(scimUrl('/Groups/' + groupId), {
+                schemas: ['urn:ietf:params:scim:api:messages:2.0:PatchOp'],
+                Operations: [{
+                  op: 'remove', path: `members[value eq "${userIdByName['chimpy']}"]`
+                }]
+              }, chimpy);
+              assert.equal(res.status, 200);
+              assert.deepEqual(res.data.members, [
+                getUserMemberWithRef('kiwi'),
+              ]);
+            });
+          });
+
+          it('should add and remove members without overwriting the group', async function () {
+            return withGroup(async (groupId) => {
+              const overwriteSpy = Sinon.spy(getDbManager(), 'overwriteTeamGroup');
+              try {
+                const charonId = await getOrCreateUserId('charon');
+                const patchMembers = (op: string, value: object[]) => axios.patch(scimUrl('/Groups/' + groupId), {
+                  schemas: ['urn:ietf:params:scim:api:messages:2.0:PatchOp'],
+                  Operations: [{ op, path: 'members', value }]
+                }, chimpy);
+                // Concurrent changes to different members should not undo each other.
+                const responses = await Promise.all([
+                  patchMembers('add', [ getUserMember('kiwi') ]),
+                  patchMembers('add', [ { value: String(charonId), type: 'User' } ]),
+                ]);
+                assert.deepEqual(responses.map(res => res.status), [200, 200]);
+                let group = await getDbManager().getGroupWithMembersById(Number(groupId));
+                assert.sameMembers(group!.memberUsers.map(user => user.id),
+                  [userIdByName['chimpy'], userIdByName['kiwi'], charonId]);
+
+                const res = await patchMembers('remove', [ { value: String(charonId) } ]);
+                assert.equal(res.status, 200);
+                group = await getDbManager().getGroupWithMembersById(Number(groupId));
+                assert.sameMembers(group!.memberUsers.map(user => user.id),
+                  [userIdByName['chimpy'], userIdByName['kiwi']]);
+                assert.equal(overwriteSpy.callCount, 0);
+              } finally {
+                overwriteSpy.restore();
+              }
+            });
+          });
+
+          it('should return 404 when adding an unknown user', async function () {
+            return withGroup(async (groupId) => {
+              const res = await axios.patch(scimUrl('/Groups/' + groupId), {
+                schemas: ['urn:ietf:params:scim:api:messages:2.0:PatchOp'],
+                Operations: [{
+                  op: 'add', path: 'members', value: [ { value: '1000000', type: 'User' } ]
+                }]
+              }, chimpy);
+              assert.equal(res.status, 404);
+              assert.equal(res.data.detail, 'Users not found: 1000000');
+            });
+          });
+
           it('should refuse to alter a role', async function () {
             return withRole(async (groupId) => {
               const res = await axios.patch(scimUrl('/Groups/' + groupId), {
@@ -1564,6 +1625,56 @@ describe('Scim', () => {
         });
       });
 
+      it('should resolve references to resources created in the same request', async function () {
+        const userNames = ['bulk-user6', 'bulk-user7'];
+        usersToCleanupEmails.push(...userNames.map(name => name + '@getgrist.com'));
+        let groupId: number|undefined;
+        try {
+          const res = await axios.post(scimUrl('/Bulk'), {
+            schemas: ['urn:ietf:params:scim:api:messages:2.0:BulkRequest'],
+            Operations: [
+              // The group comes first, but references users created by the following operations.
+              {
+                method: 'POST', path: '/Groups', bulkId: 'group', data: {
+                  schemas: ['urn:ietf:params:scim:schemas:core:2.0:Group'],
+                  displayName: 'test-bulk-group',
+                  members: userNames.map(name => ({ value: `bulkId:${name}`, type: 'User' })),
+                }
+              },
+              ...userNames.map((name) => ({
+                method: 'POST', path: '/Users', data: toSCIMUserWithoutId(name), bulkId: name
+              })),
+            ],
+          }, chimpy);
+          assert.equal(res.status, 200);
+          assert.deepEqual(res.data.Operations.map((op: any) => [op.bulkId, op.status]),
+            [['group', '201'], ['bulk-user6', '201'], ['bulk-user7', '201']]);
+
+          groupId = Number(res.data.Operations[0].location.split('/').pop());
+          const group = await getDbManager().getGroupWithMembersById(groupId);
+          assert.sameMembers(group!.memberUsers.map(user => user.name), userNames.map(capitalize));
+        } finally {
+          if (groupId) {
+            await getDbManager().deleteGroup(groupId);
+          }
+        }
+      });
+
+      it('should stop processing operations once failOnErrors is reached', async function () {
+        usersToCleanupEmails.push('bulk-user8@getgrist.com');
+        const res = await axios.post(scimUrl('/Bulk'), {
+          schemas: ['urn:ietf:params:scim:api:messages:2.0:BulkRequest'],
+          failOnErrors: 1,
+          Operations: [
+            { method: 'POST', path: '/Users', data: toSCIMUserWithoutId('chimpy'), bulkId: '1' },
+            { method: 'POST', path: '/Users', data: toSCIMUserWithoutId('bulk-user8'), bulkId: '2' },
+          ],
+        }, chimpy);
+        assert.equal(res.status, 200);
+        assert.deepEqual(res.data.Operations.map((op: any) => op.status), ['409']);
+        assert.notExists(await getDbManager().getExistingUserByLogin('bulk-user8@getgrist.com'));
+      });
+
       it('should return 400 when no operations are provided', async function () {
         const res = await axios.post(scimUrl('/Bulk'), {
           schemas: ['urn:ietf:params:scim:api:messages:2.0:BulkRequest'],
@@ -1676,6 +1787,7 @@ describe('Scim', () => {
       assert.property(res.data, 'patch');
       assert.property(res.data, 'bulk');
       assert.property(res.data, 'filter');
+      assert.deepEqual(res.data.bulk, { supported: true, maxOperations: 10000, maxPayloadSize: 10485760 });
     });
   });
 });
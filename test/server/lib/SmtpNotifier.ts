@@ -0,0 +1,154 @@
+import {HomeDBManager} from 'app/gen-server/lib/homedb/HomeDBManager';
+import {EmitNotifier} from 'app/server/lib/INotifier';
+import axios from 'axios';
+import {assert} from 'chai';
+import {TestServer} from 'test/gen-server/apiUtils';
+import {configForUser} from 'test/gen-server/testUtils';
+import {SmtpSink} from 'test/server/lib/helpers/SmtpSink';
+import * as testUtils from 'test/server/testUtils';
+import {waitForIt} from 'test/server/wait';
+
+const chimpy = configForUser('Chimpy');
+const kiwi = configForUser('Kiwi');
+const ham = configForUser('Ham');
+
+describe('SmtpNotifier', function() {
+  this.timeout(20000);
+  testUtils.setTmpLogLevel('error');
+
+  let oldEnv: testUtils.EnvironmentSnapshot;
+  let sink: SmtpSink;
+  let server: TestServer;
+  let homeUrl: string;
+  let dbManager: HomeDBManager;
+  let workspaceId: number;
+
+  before(async function() {
+    oldEnv = new testUtils.EnvironmentSnapshot();
+    sink = new SmtpSink();
+    process.env.GRIST_SMTP_HOST = '127.0.0.1';
+    process.env.GRIST_SMTP_PORT = String(await sink.start());
+    process.env.GRIST_EMAIL_FROM = 'Grist <grist@example.com>';
+    process.env.GRIST_DEFAULT_EMAIL = 'ham@getgrist.com';
+    server = new TestServer(this);
+    homeUrl = await server.start();
+    dbManager = server.dbManager;
+    workspaceId = await dbManager.testGetId('Private') as number;
+  });
+
+  after(async function() {
+    await server.stop();
+    await sink.stop();
+    oldEnv.restore();
+  });
+
+  beforeEach(function() {
+    sink.emails = [];
+    sink.reject = false;
+  });
+
+  async function shareWorkspace(email: string, role: string|null) {
+    const resp = await axios.patch(`${homeUrl}/api/workspaces/${workspaceId}/access`,
+      {delta: {users: {[email]: role}}}, chimpy);
+    assert.equal(resp.status, 200);
+  }
+
+  async function waitForEmails(count: number) {
+    await waitForIt(() => assert.lengthOf(sink.emails, count), 5000, 100);
+    return sink.emails;
+  }
+
+  it('sends invitations to users added to a resource', async function() {
+    await shareWorkspace('kiwi@getgrist.com', 'viewers');
+    try {
+      const [email] = await waitForEmails(1);
+      assert.equal(email.from, '<grist@example.com>');
+      assert.deepEqual(email.to, ['<kiwi@getgrist.com>']);
+      assert.equal(email.headers.from, 'Grist <grist@example.com>');
+      assert.equal(email.headers.to, 'Kiwi <kiwi@getgrist.com>');
+      assert.equal(email.headers.subject, 'Chimpy shared the workspace "Private" with you');
+      assert.include(email.body,
+        'Chimpy (chimpy@getgrist.com) shared the workspace "Private" with you. You can view it.');
+      assert.match(email.body, new RegExp(`Open it here: ${homeUrl}/o/docs/ws/${workspaceId}/`));
+
+      // Changing the role of an existing member doesn't send another invitation.
+      await shareWorkspace('kiwi@getgrist.com', 'editors');
+      const notifier = server.server.getNotifier() as EmitNotifier;
+      await waitForIt(() => assert.equal(notifier.testPendingNotifications(), 0), 5000, 100);
+      assert.lengthOf(sink.emails, 1);
+    } finally {
+      await shareWorkspace('kiwi@getgrist.com', null);
+    }
+  });
+
+  it('does not fail changes when emails cannot be sent', async function() {
+    sink.reject = true;
+    try {
+      // Sharing still succeeds, though the invitation is lost.
+      await shareWorkspace('kiwi@getgrist.com', 'viewers');
+      const notifier = server.server.getNotifier() as EmitNotifier;
+      await waitForIt(() => assert.equal(notifier.testPendingNotifications(), 0), 5000, 100);
+      assert.lengthOf(sink.emails, 0);
+    } finally {
+      await shareWorkspace('kiwi@getgrist.com', null);
+    }
+  });
+
+  it('uses templates from the home database in the locale of the recipient', async function() {
+    let resp = await axios.put(`${homeUrl}/api/install/configs/email_templates`, {
+      fr: {
+        invite: {subject: '{{host.name}} vous a invité dans « {{resource.name}} »', text: 'Bonjour {{user.name}} !'},
+      },
+    }, ham);
+    assert.equal(resp.status, 201);
+    resp = await axios.post(`${homeUrl}/api/profile/user/locale`, {locale: 'fr-FR'}, kiwi);
+    assert.equal(resp.status, 200);
+    try {
+      await shareWorkspace('kiwi@getgrist.com', 'viewers');
+      await shareWorkspace('charon@getgrist.com', 'viewers');
+      const emails = await waitForEmails(2);
+      const kiwiEmail = emails.find(email => email.to[0] === '<kiwi@getgrist.com>')!;
+      assert.equal(kiwiEmail.headers.subject, 'Chimpy vous a invité dans « Private »');
+      assert.equal(kiwiEmail.body.trim(), 'Bonjour Kiwi !');
+      // Users with other locales get the default templates.
+      const charonEmail = emails.find(email => email.to[0] === '<charon@getgrist.com>')!;
+      assert.equal(charonEmail.headers.subject, 'Chimpy shared the workspace "Private" with you');
+    } finally {
+      await shareWorkspace('kiwi@getgrist.com', null);
+      await shareWorkspace('charon@getgrist.com', null);
+      await axios.post(`${homeUrl}/api/profile/user/locale`, {locale: null}, kiwi);
+      await axios.delete(`${homeUrl}/api/install/configs/email_templates`, ham);
+    }
+  });
+
+  it('rejects invalid email templates', async function() {
+    const resp = await axios.put(`${homeUrl}/api/install/configs/email_templates`,
+      {en: {invite: {subject: 1}}}, ham);
+    assert.equal(resp.status, 400);
+  });
+
+  it('POST /api/install/notifications/test-email sends a test email to the install admin', async function() {
+    let resp = await axios.get(`${homeUrl}/api/install/notifications`, ham);
+    assert.equal(resp.status, 200);
+    assert.deepEqual(resp.data, {enabled: true});
+
+    resp = await axios.post(`${homeUrl}/api/install/notifications/test-email`, null, chimpy);
+    assert.equal(resp.status, 403);
+
+    resp = await axios.post(`${homeUrl}/api/install/notifications/test-email`, null, ham);
+    assert.equal(resp.status, 200);
+    assert.deepEqual(resp.data, {email: 'ham@getgrist.com'});
+    const [email] = await waitForEmails(1);
+    assert.deepEqual(email.to, ['<ham@getgrist.com>']);
+    assert.equal(email.headers.subject, 'Test email from Grist');
+    assert.include(email.body, `Grist installation at ${homeUrl}`);
+  });
+
+  it('POST /api/install/notifications/test-email reports delivery failures', async function() {
+    sink.reject = true;
+    const resp = await axios.post(`${homeUrl}/api/install/notifications/test-email`, null, ham);
+    assert.equal(resp.status, 500);
+    assert.match(resp.data.error, /^Failed to send test email: .*Sender rejected/);
+    assert.lengthOf(sink.emails, 0);
+  });
+});
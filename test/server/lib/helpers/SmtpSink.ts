@@ -0,0 +1,107 @@
+import * as net from 'net';
+
+export interface ReceivedEmail {
+  from: string;
+  to: string[];
+  headers: {[name: string]: string};
+  body: string;
+}
+
+/**
+ * A minimal SMTP server which keeps the emails it receives, or rejects them all when `reject` is
+ * set.
+ */
+export class SmtpSink {
+  public emails: ReceivedEmail[] = [];
+  public reject = false;
+  private _server = net.createServer(socket => this._handleConnection(socket));
+
+  public async start(): Promise<number> {
+    await new Promise<void>(resolve => this._server.listen(0, '127.0.0.1', resolve));
+    return (this._server.address() as net.AddressInfo).port;
+  }
+
+  public async stop() {
+    await new Promise(resolve => this._server.close(resolve));
+  }
+
+  private _handleConnection(socket: net.Socket) {
+    let buffer = '';
+    let inData = false;
+    let from = '';
+    let to: string[] = [];
+    let lines: string[] = [];
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    reply('220 localhost ESMTP SmtpSink');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            this.emails.push({from, to, ...parseMessage(lines)});
+            reply('250 OK');
+          } else {
+            lines.push(line.startsWith('..') ? line.slice(1) : line);
+          }
+          continue;
+        }
+        const command = line.toUpperCase();
+        if (command.startsWith('EHLO')) {
+          reply('250-localhost');
+          reply('250 8BITMIME');
+        } else if (command.startsWith('MAIL FROM:')) {
+          if (this.reject) {
+            reply('550 Sender rejected');
+            continue;
+          }
+          from = line.slice('MAIL FROM:'.length).trim();
+          to = [];
+          reply('250 OK');
+        } else if (command.startsWith('RCPT TO:')) {
+          to.push(line.slice('RCPT TO:'.length).trim());
+          reply('250 OK');
+        } else if (command === 'DATA') {
+          inData = true;
+          lines = [];
+          reply('354 Go ahead');
+        } else if (command === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+        } else {
+          reply('250 OK');
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Splits a message into its (unfolded) headers and the decoded text of its plain text part.
+ */
+function parseMessage(lines: string[]): Pick<ReceivedEmail, 'headers'|'body'> {
+  const message = lines.join('\n');
+  const [head] = message.split('\n\n');
+  const headers: {[name: string]: string} = {};
+  for (const header of head.replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const [name, ...value] = header.split(':');
+    headers[name.toLowerCase()] = decodeHeader(value.join(':').trim());
+  }
+  const textPart = message.split(/\nContent-Type: text\/plain[^\n]*\n(?:[^\n]+\n)*\n/)[1] ?? '';
+  const body = decodeQuotedPrintable(textPart.split(/\n--/)[0].replace(/=\n/g, ''));
+  return {headers, body};
+}
+
+function decodeHeader(value: string) {
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?UTF-8\?Q\?(.*?)\?=/gi, (_match, encoded) => decodeQuotedPrintable(encoded.replace(/_/g, ' ')));
+}
+
+function decodeQuotedPrintable(value: string) {
+  const bytes = value.replace(/=([0-9A-F]{2})/g, (_match, hex) => String.fromCharCode(parseInt(hex, 16)));
+  return Buffer.from(bytes, 'latin1').toString('utf8');
+}
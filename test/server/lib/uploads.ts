@@ -1,6 +1,6 @@
 import {setTmpLogLevel} from 'test/server/testUtils';
 
-import {createTmpDir, Deps, fetchURL, moveUpload, UploadSet} from 'app/server/lib/uploads';
+import {createTmpDir, Deps, fetchJsonApi, fetchURL, moveUpload, UploadSet} from 'app/server/lib/uploads';
 import {globalUploadSet} from 'app/server/lib/uploads';
 import {delay} from 'bluebird';
 import {assert} from 'chai';
@@ -11,6 +11,7 @@ import {Response} from 'node-fetch';
 import * as path from 'path';
 import * as sinon from 'sinon';
 import {Readable} from 'stream';
+import {serveSomething, Serving} from 'test/server/customUtil';
 import {createFile} from 'test/server/docTools';
 
 describe("uploads", function() {
@@ -245,6 +246,120 @@ describe("uploads", function() {
       });
     });
 
+    describe("fetchJsonApi", function() {
+      let serving: Serving;
+      let requests: Array<{url: string, auth?: string}>;
+
+      before(async function() {
+        const items = ['a', 'b', 'c', 'd', 'e'].map((name, i) => ({id: i + 1, name}));
+        serving = await serveSomething(app => {
+          app.use((req, res, next) => {
+            requests.push({url: req.url, auth: req.headers.authorization});
+            next();
+          });
+          // Pages of two items, each linking to the next one.
+          app.get('/linked', (req, res) => {
+            const start = Number(req.query.start || 0);
+            res.json({
+              data: {items: items.slice(start, start + 2)},
+              links: {next: start + 2 < items.length ? `/linked?start=${start + 2}` : null},
+            });
+          });
+          // Pages of two items, numbered from 1, with empty pages past the end.
+          app.get('/numbered', (req, res) => {
+            const page = Number(req.query.page);
+            res.json({results: items.slice((page - 1) * 2, page * 2)});
+          });
+          app.get('/object', (req, res) => res.json({data: {items: {id: 1}}}));
+          // Redirects to the URL in the "to" parameter.
+          app.get('/redirect', (req, res) => res.redirect(String(req.query.to)));
+        });
+      });
+
+      after(async function() {
+        await serving.shutdown();
+      });
+
+      beforeEach(function() {
+        requests = [];
+      });
+
+      afterEach(async function() {
+        await globalUploadSet.cleanupAll();
+      });
+
+      async function readRecords(uploadId: number) {
+        const upload = globalUploadSet.getUploadInfo(uploadId, null);
+        return JSON.parse(await fse.readFile(upload.files[0].absPath, 'utf8'));
+      }
+
+      it("should collect records from the given path", async function() {
+        const result = await fetchJsonApi({url: `${serving.url}/linked`, recordPath: 'data.items',
+          headers: {Authorization: 'Bearer xyz'}}, null);
+        assert.deepEqual(result.files.map(f => pick(f, ['origName', 'ext'])),
+          [{origName: 'linked.json', ext: '.json'}]);
+        assert.deepEqual(await readRecords(result.uploadId), [{id: 1, name: 'a'}, {id: 2, name: 'b'}]);
+        assert.deepEqual(requests, [{url: '/linked', auth: 'Bearer xyz'}]);
+      });
+
+      it("should follow links to next pages", async function() {
+        const result = await fetchJsonApi({url: `${serving.url}/linked`, recordPath: 'data.items',
+          pagination: {type: 'next-link', nextPath: 'links.next'}}, null);
+        assert.deepEqual((await readRecords(result.uploadId)).map((r: any) => r.name), ['a', 'b', 'c', 'd', 'e']);
+        assert.deepEqual(requests.map(r => r.url), ['/linked', '/linked?start=2', '/linked?start=4']);
+      });
+
+      it("should only send headers to the origin of the URL", async function() {
+        // The same server under another origin.
+        const otherUrl = serving.url.replace('localhost', '127.0.0.1');
+        const headers = {Authorization: 'Bearer xyz'};
+        let result = await fetchJsonApi({url: `${serving.url}/redirect?to=/linked`, recordPath: 'data.items',
+          headers}, null);
+        assert.lengthOf(await readRecords(result.uploadId), 2);
+        result = await fetchJsonApi({url: `${serving.url}/redirect?to=${otherUrl}/linked`, recordPath: 'data.items',
+          headers}, null);
+        assert.lengthOf(await readRecords(result.uploadId), 2);
+        assert.deepEqual(requests, [
+          {url: '/redirect?to=/linked', auth: 'Bearer xyz'},
+          {url: '/linked', auth: 'Bearer xyz'},
+          {url: `/redirect?to=${otherUrl}/linked`, auth: 'Bearer xyz'},
+          {url: '/linked', auth: undefined},
+        ]);
+
+        // Links to next pages are resolved relative to the URL a redirect led to.
+        requests = [];
+        result = await fetchJsonApi({url: `${serving.url}/redirect?to=${otherUrl}/linked`, recordPath: 'data.items',
+          headers, pagination: {type: 'next-link', nextPath: 'links.next'}}, null);
+        assert.lengthOf(await readRecords(result.uploadId), 5);
+        assert.deepEqual(requests.map(r => r.auth), ['Bearer xyz', undefined, undefined, undefined]);
+      });
+
+      it("should increment the page parameter until a page is empty", async function() {
+        const result = await fetchJsonApi({url: `${serving.url}/numbered`, recordPath: 'results',
+          pagination: {type: 'page-param', param: 'page'}}, null);
+        assert.deepEqual((await readRecords(result.uploadId)).map((r: any) => r.name), ['a', 'b', 'c', 'd', 'e']);
+        assert.deepEqual(requests.map(r => r.url),
+          ['/numbered?page=1', '/numbered?page=2', '/numbered?page=3', '/numbered?page=4']);
+      });
+
+      it("should limit the number of pages", async function() {
+        const sandbox = sinon.createSandbox();
+        sandbox.stub(Deps, "JSON_API_MAX_PAGES").value(2);
+        try {
+          await assert.isRejected(fetchJsonApi({url: `${serving.url}/numbered`, recordPath: 'results',
+            pagination: {type: 'page-param', param: 'page'}}, null), /Too many pages/);
+        } finally {
+          sandbox.restore();
+        }
+      });
+
+      it("should report responses without records", async function() {
+        await assert.isRejected(fetchJsonApi({url: `${serving.url}/object`, recordPath: 'data.items'}, null),
+          /No array of records found at "data.items"/);
+        await assert.isRejected(fetchJsonApi({url: `${serving.url}/missing`}, null), /can't be found/);
+      });
+    });
+
     it("should respect access ids for uploads", async function() {
       const uploadSet = new UploadSet();
 